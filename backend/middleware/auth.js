@@ -1,16 +1,22 @@
 const jwt = require('jsonwebtoken');
-const { User } = require('../models');
+const crypto = require('crypto');
+const { User, UserSession } = require('../models');
 
-// Generate JWT token
-const generateToken = (userId, role) => {
+// How often a session's last seen time is written while it is in use
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000;
+
+// Generate JWT token. Both tokens name the session they belong to, so
+// revoking the session ends them before they expire.
+const generateToken = (userId, role, sessionId) => {
   const accessToken = jwt.sign(
-    { userId, role },
+    { userId, role, sessionId },
     process.env.JWT_SECRET,
     { expiresIn: process.env.JWT_EXPIRES_IN || '15m' }
   );
 
+  // A unique jti makes every rotated refresh token distinct
   const refreshToken = jwt.sign(
-    { userId, role },
+    { userId, role, sessionId, jti: crypto.randomUUID() },
     process.env.JWT_REFRESH_SECRET,
     { expiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d' }
   );
@@ -36,6 +42,25 @@ const verifyRefreshToken = (token) => {
   }
 };
 
+// The user behind an access token, or null when the token's session has
+// been revoked or the user is gone or inactive
+const findSessionUser = async (decoded) => {
+  const session = decoded.sessionId ? await UserSession.findByPk(decoded.sessionId) : null;
+  if (!session || !session.isActive() || session.userId !== decoded.userId) {
+    return null;
+  }
+
+  const user = await User.findByPk(decoded.userId);
+  if (!user || !user.isActive) {
+    return null;
+  }
+
+  if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_INTERVAL_MS) {
+    await session.update({ lastSeenAt: new Date() });
+  }
+  return { user, session };
+};
+
 // Authentication middleware
 const authenticate = async (req, res, next) => {
   try {
@@ -52,16 +77,18 @@ const authenticate = async (req, res, next) => {
     }
 
     const decoded = verifyToken(token);
-    const user = await User.findByPk(decoded.userId);
+    const sessionUser = await findSessionUser(decoded);
 
-    if (!user || !user.isActive) {
+    if (!sessionUser) {
       return res.status(401).json({
         success: false,
-        message: 'User not found or inactive'
+        message: 'Session expired or user inactive'
       });
     }
 
-    req.user = user;
+    req.user = sessionUser.user;
+    // Named to stay clear of express-session's req.session
+    req.userSession = sessionUser.session;
     next();
   } catch (error) {
     return res.status(401).json({
@@ -92,8 +119,20 @@ const authorize = (...roles) => {
   };
 };
 
-// Admin authorization middleware
-const requireAdmin = authorize('admin');
+// Admin authorization middleware. When the store enforces 2FA for admins,
+// admins who haven't enabled it are turned away until they do.
+const requireAdmin = (req, res, next) => {
+  authorize('admin')(req, res, () => {
+    if (process.env.REQUIRE_ADMIN_2FA === 'true' && !req.user.twoFactorEnabled) {
+      return res.status(403).json({
+        success: false,
+        message: 'Two-factor authentication must be enabled for admin accounts'
+      });
+    }
+
+    next();
+  });
+};
 
 // Buyer authorization middleware
 const requireBuyer = authorize('buyer');
@@ -108,10 +147,11 @@ const optionalAuth = async (req, res, next) => {
 
     if (token) {
       const decoded = verifyToken(token);
-      const user = await User.findByPk(decoded.userId);
+      const sessionUser = await findSessionUser(decoded);
 
-      if (user && user.isActive) {
-        req.user = user;
+      if (sessionUser) {
+        req.user = sessionUser.user;
+        req.userSession = sessionUser.session;
       }
     }
   } catch (error) {
@@ -121,29 +161,36 @@ const optionalAuth = async (req, res, next) => {
   next();
 };
 
-// Set JWT cookies
+// The refresh token is only ever sent to the auth routes that exchange or end it
+const REFRESH_COOKIE_PATH = '/api/auth';
+
+const tokenCookieOptions = (path) => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'strict',
+  path
+});
+
+// Set JWT cookies. Each cookie lives exactly as long as its token; without
+// a refresh token the current refresh cookie is left as it is.
 const setTokenCookies = (res, accessToken, refreshToken) => {
-  const isProduction = process.env.NODE_ENV === 'production';
-  
   res.cookie('accessToken', accessToken, {
-    httpOnly: true,
-    secure: isProduction,
-    sameSite: isProduction ? 'strict' : 'lax',
-    maxAge: 15 * 60 * 1000 // 15 minutes
+    ...tokenCookieOptions('/'),
+    expires: new Date(jwt.decode(accessToken).exp * 1000)
   });
 
-  res.cookie('refreshToken', refreshToken, {
-    httpOnly: true,
-    secure: isProduction,
-    sameSite: isProduction ? 'strict' : 'lax',
-    maxAge: 7 * 24 * 60 * 60 * 1000 // 7 days
-  });
+  if (refreshToken) {
+    res.cookie('refreshToken', refreshToken, {
+      ...tokenCookieOptions(REFRESH_COOKIE_PATH),
+      expires: new Date(jwt.decode(refreshToken).exp * 1000)
+    });
+  }
 };
 
 // Clear JWT cookies
 const clearTokenCookies = (res) => {
-  res.clearCookie('accessToken');
-  res.clearCookie('refreshToken');
+  res.clearCookie('accessToken', tokenCookieOptions('/'));
+  res.clearCookie('refreshToken', tokenCookieOptions(REFRESH_COOKIE_PATH));
 };
 
 module.exports = {
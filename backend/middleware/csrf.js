@@ -0,0 +1,57 @@
+const crypto = require('crypto');
+
+const CSRF_COOKIE = 'csrfToken';
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// Called by third parties that never hold our cookies
+const EXEMPT_PATHS = ['/api/payments/webhook'];
+
+const tokensMatch = (a, b) => {
+  const first = Buffer.from(String(a));
+  const second = Buffer.from(String(b));
+  return first.length === second.length && crypto.timingSafeEqual(first, second);
+};
+
+// Return the browser's CSRF token, setting a new one if it has none. The
+// cookie is httpOnly, so the page learns the token only from this response,
+// which other origins can't read.
+const issueCsrfToken = (req, res) => {
+  const existing = req.cookies[CSRF_COOKIE];
+  if (existing) {
+    return existing;
+  }
+
+  const token = crypto.randomBytes(32).toString('hex');
+  res.cookie(CSRF_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict'
+  });
+  return token;
+};
+
+// Double submit check: state-changing requests must echo the cookie's token
+// in the X-CSRF-Token header
+const csrfProtection = (req, res, next) => {
+  if (SAFE_METHODS.includes(req.method) || EXEMPT_PATHS.includes(req.originalUrl.split('?')[0])) {
+    return next();
+  }
+
+  const cookieToken = req.cookies[CSRF_COOKIE];
+  const headerToken = req.get('X-CSRF-Token');
+
+  if (!cookieToken || !headerToken || !tokensMatch(cookieToken, headerToken)) {
+    return res.status(403).json({
+      success: false,
+      code: 'CSRF_INVALID',
+      message: 'Invalid or missing CSRF token'
+    });
+  }
+
+  next();
+};
+
+module.exports = {
+  issueCsrfToken,
+  csrfProtection
+};
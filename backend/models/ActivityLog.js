@@ -28,7 +28,12 @@ module.exports = (sequelize) => {
         'review',
         'inventory',
         'cart',
+        'wishlist',
         'payment',
+        'promotion',
+        'shipping',
+        'tax',
+        'currency',
         'system'
       ),
       allowNull: false
@@ -151,18 +156,74 @@ module.exports = (sequelize) => {
       'user.logout': 'User logged out',
       'user.register': 'User registered',
       'user.update': 'User profile updated',
+      'user.password.change': 'Password changed',
+      'user.password.reset': 'Password reset',
+      'user.email.verify': 'Email address verified',
+      'user.email.change_request': 'Email change requested',
+      'user.email.change': 'Email address changed',
+      'user.email.change_cancel': 'Email change cancelled',
+      'user.address.create': 'Address added',
+      'user.address.update': 'Address updated',
+      'user.address.delete': 'Address deleted',
+      'user.2fa.setup': 'Two-factor enrollment started',
+      'user.2fa.enable': 'Two-factor authentication enabled',
+      'user.2fa.disable': 'Two-factor authentication disabled',
+      'user.2fa.recovery.regenerate': 'Recovery codes regenerated',
+      'user.2fa.recovery.use': 'Recovery code used to sign in',
+      'user.2fa.fail': 'Two-factor code rejected',
+      'user.session.revoke': 'Signed out of a device',
+      'user.session.revoke_all': 'Signed out of all other devices',
+      'user.session.reuse': 'Refresh token reuse detected',
+      'user.session.admin_revoke': 'User signed out by admin',
       'product.create': 'Product created',
       'product.update': 'Product updated',
       'product.delete': 'Product deleted',
       'order.create': 'Order created',
       'order.update': 'Order updated',
       'order.cancel': 'Order cancelled',
+      'order.reopen': 'Order returned to cart',
       'payment.process': 'Payment processed',
       'payment.fail': 'Payment failed',
+      'payment.method.default': 'Default payment method changed',
+      'payment.method.remove': 'Payment method removed',
       'inventory.adjust': 'Inventory adjusted',
       'review.create': 'Review created',
       'review.update': 'Review updated',
-      'review.delete': 'Review deleted'
+      'review.delete': 'Review deleted',
+      'promotion.create': 'Promotion created',
+      'promotion.update': 'Promotion updated',
+      'promotion.delete': 'Promotion deleted',
+      'shipping.zone.create': 'Shipping zone created',
+      'shipping.zone.update': 'Shipping zone updated',
+      'shipping.zone.delete': 'Shipping zone deleted',
+      'shipping.rate.create': 'Shipping rate created',
+      'shipping.rate.update': 'Shipping rate updated',
+      'shipping.rate.delete': 'Shipping rate deleted',
+      'tax.rate.create': 'Tax rate created',
+      'tax.rate.update': 'Tax rate updated',
+      'tax.rate.delete': 'Tax rate deleted',
+      'tax.report.export': 'Tax report exported',
+      'currency.create': 'Currency added',
+      'currency.update': 'Currency updated',
+      'currency.delete': 'Currency deleted',
+      'wishlist.add': 'Item saved to wishlist',
+      'wishlist.remove': 'Item removed from wishlist',
+      'product.alert.subscribe': 'Product alert subscribed',
+      'product.alert.unsubscribe': 'Product alert removed',
+      'product.keys.import': 'Digital keys imported',
+      'order.keys.assign': 'Digital keys assigned',
+      'order.keys.shortage': 'Not enough digital keys for order',
+      'order.documents.print': 'Order documents printed',
+      'order.tracking.update': 'Order tracking updated',
+      'order.notes.update': 'Order notes updated',
+      'order.confirmation.resend': 'Order confirmation resent',
+      'order.shipment.create': 'Order shipment created',
+      'order.bulk.status': 'Order statuses updated in bulk',
+      'order.export': 'Orders exported',
+      'return.request': 'Return requested',
+      'return.approve': 'Return approved',
+      'return.reject': 'Return rejected',
+      'return.receive': 'Return received'
     };
     return actionDescriptions[this.action] || this.action;
   };
@@ -33,6 +33,12 @@ module.exports = (sequelize) => {
       type: DataTypes.INTEGER,
       defaultValue: 0
     },
+    // How products in this category are taxed. Null leaves it to the
+    // product: digital-only products are 'digital', the rest 'standard'.
+    taxClass: {
+      type: DataTypes.ENUM('standard', 'reduced', 'digital', 'exempt'),
+      allowNull: true
+    },
     parentId: {
       type: DataTypes.UUID,
       allowNull: true,
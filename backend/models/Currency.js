@@ -0,0 +1,46 @@
+const { DataTypes } = require('sequelize');
+
+module.exports = (sequelize) => {
+  const Currency = sequelize.define('Currency', {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true
+    },
+    // ISO 4217 code, e.g. EUR
+    code: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+      unique: true,
+      validate: {
+        isUppercase: true,
+        len: [3, 3]
+      }
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false
+    },
+    // Units of this currency per one unit of the base currency
+    exchangeRate: {
+      type: DataTypes.DECIMAL(16, 6),
+      allowNull: false,
+      validate: {
+        min: 0.000001
+      }
+    },
+    isActive: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: true
+    },
+    sortOrder: {
+      type: DataTypes.INTEGER,
+      defaultValue: 0
+    }
+  }, {
+    tableName: 'currencies',
+    timestamps: true
+  });
+
+  return Currency;
+};
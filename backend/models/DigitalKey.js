@@ -0,0 +1,102 @@
+const { DataTypes } = require('sequelize');
+
+module.exports = (sequelize) => {
+  const DigitalKey = sequelize.define('DigitalKey', {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true
+    },
+    productId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'products',
+        key: 'id'
+      }
+    },
+    // Key text encrypted with DIGITAL_KEY_SECRET, see utils/digitalKeys.js
+    encryptedKey: {
+      type: DataTypes.TEXT,
+      allowNull: false
+    },
+    // Keyed hash of the key text, used to reject duplicate imports
+    keyHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false
+    },
+    status: {
+      type: DataTypes.ENUM('available', 'assigned', 'revoked'),
+      allowNull: false,
+      defaultValue: 'available'
+    },
+    orderId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'orders',
+        key: 'id'
+      }
+    },
+    orderItemId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'order_items',
+        key: 'id'
+      }
+    },
+    assignedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    importedBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id'
+      }
+    }
+  }, {
+    tableName: 'digital_keys',
+    timestamps: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['product_id', 'key_hash']
+      },
+      {
+        fields: ['product_id', 'status']
+      },
+      {
+        fields: ['order_id']
+      }
+    ]
+  });
+
+  // Associations
+  DigitalKey.associate = (models) => {
+    DigitalKey.belongsTo(models.Product, {
+      foreignKey: 'productId',
+      as: 'product'
+    });
+
+    DigitalKey.belongsTo(models.Order, {
+      foreignKey: 'orderId',
+      as: 'order'
+    });
+
+    DigitalKey.belongsTo(models.OrderItem, {
+      foreignKey: 'orderItemId',
+      as: 'orderItem'
+    });
+
+    DigitalKey.belongsTo(models.User, {
+      foreignKey: 'importedBy',
+      as: 'importer'
+    });
+  };
+
+  return DigitalKey;
+};
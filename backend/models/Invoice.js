@@ -0,0 +1,50 @@
+const { DataTypes } = require('sequelize');
+
+module.exports = (sequelize) => {
+  const Invoice = sequelize.define('Invoice', {
+    // Serial key doubles as the invoice sequence, so numbers never repeat or skip back
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true
+    },
+    invoiceNumber: {
+      type: DataTypes.VIRTUAL,
+      get() {
+        return `INV-${String(this.getDataValue('id')).padStart(6, '0')}`;
+      }
+    },
+    orderId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      unique: true,
+      references: {
+        model: 'orders',
+        key: 'id'
+      }
+    },
+    issuedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    },
+    // Seller details as printed when issued, so reprints match the original
+    sellerDetails: {
+      type: DataTypes.JSONB,
+      allowNull: false
+    }
+  }, {
+    tableName: 'invoices',
+    timestamps: true
+  });
+
+  // Associations
+  Invoice.associate = (models) => {
+    Invoice.belongsTo(models.Order, {
+      foreignKey: 'orderId',
+      as: 'order'
+    });
+  };
+
+  return Invoice;
+};
@@ -35,7 +35,7 @@ module.exports = (sequelize) => {
     },
     // Payment information
     paymentStatus: {
-      type: DataTypes.ENUM('pending', 'paid', 'failed', 'refunded'),
+      type: DataTypes.ENUM('pending', 'paid', 'partially_refunded', 'failed', 'refunded'),
       defaultValue: 'pending'
     },
     paymentMethod: {
@@ -66,6 +66,13 @@ module.exports = (sequelize) => {
         min: 0
       }
     },
+    // Whether line prices already included taxAmount, as they do where VAT
+    // applies, or had it added on top
+    pricesIncludeTax: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false
+    },
     shippingAmount: {
       type: DataTypes.DECIMAL(10, 2),
       allowNull: false,
@@ -82,6 +89,19 @@ module.exports = (sequelize) => {
         min: 0
       }
     },
+    // Promotion applied at checkout; the code is kept in case the promotion is edited later
+    promotionId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'promotions',
+        key: 'id'
+      }
+    },
+    promotionCode: {
+      type: DataTypes.STRING,
+      allowNull: true
+    },
     total: {
       type: DataTypes.DECIMAL(10, 2),
       allowNull: false,
@@ -89,10 +109,17 @@ module.exports = (sequelize) => {
         min: 0
       }
     },
+    // Sum of the order's refunds, kept in step by utils/refunds.js
+    refundedAmount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      defaultValue: 0
+    },
     // Shipping information
+    // Empty for orders that only contain digital products
     shippingAddress: {
       type: DataTypes.JSONB,
-      allowNull: false
+      allowNull: true
     },
     billingAddress: {
       type: DataTypes.JSONB,
@@ -153,12 +180,12 @@ module.exports = (sequelize) => {
       type: DataTypes.STRING,
       allowNull: true
     },
-    // Currency
+    // Currency the order was placed and charged in; every amount on it is in this currency
     currency: {
       type: DataTypes.STRING(3),
-      defaultValue: 'USD'
+      defaultValue: (process.env.BASE_CURRENCY || 'USD').toUpperCase()
     },
-    // Exchange rate for international orders
+    // Units of the order currency per unit of the base currency when it was placed
     exchangeRate: {
       type: DataTypes.DECIMAL(10, 6),
       defaultValue: 1.0
@@ -232,6 +259,36 @@ module.exports = (sequelize) => {
       foreignKey: 'orderId',
       as: 'statusHistory'
     });
+
+    Order.hasMany(models.DigitalKey, {
+      foreignKey: 'orderId',
+      as: 'digitalKeys'
+    });
+
+    Order.hasMany(models.ReturnRequest, {
+      foreignKey: 'orderId',
+      as: 'returnRequests'
+    });
+
+    Order.hasMany(models.Refund, {
+      foreignKey: 'orderId',
+      as: 'refunds'
+    });
+
+    Order.hasMany(models.Shipment, {
+      foreignKey: 'orderId',
+      as: 'shipments'
+    });
+
+    Order.hasOne(models.Invoice, {
+      foreignKey: 'orderId',
+      as: 'invoice'
+    });
+
+    Order.belongsTo(models.Promotion, {
+      foreignKey: 'promotionId',
+      as: 'promotion'
+    });
   };
 
   return Order;
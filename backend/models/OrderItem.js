@@ -60,6 +60,12 @@ module.exports = (sequelize) => {
         min: 0
       }
     },
+    // The rates that made up taxAmount, as [{ taxRateId, name, rate, amount }]
+    taxBreakdown: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: []
+    },
     // Product snapshot at time of purchase
     productSnapshot: {
       type: DataTypes.JSONB,
@@ -112,8 +118,9 @@ module.exports = (sequelize) => {
   });
 
   // Instance methods
-  OrderItem.prototype.getFinalPrice = function() {
-    return this.totalPrice - this.discountAmount + this.taxAmount;
+  // Tax-inclusive orders already have the tax in the line total
+  OrderItem.prototype.getFinalPrice = function(pricesIncludeTax = false) {
+    return this.totalPrice - this.discountAmount + (pricesIncludeTax ? 0 : this.taxAmount);
   };
 
   OrderItem.prototype.canBeReturned = function() {
@@ -135,6 +142,16 @@ module.exports = (sequelize) => {
       foreignKey: 'productId',
       as: 'product'
     });
+
+    OrderItem.hasMany(models.DigitalKey, {
+      foreignKey: 'orderItemId',
+      as: 'digitalKeys'
+    });
+
+    OrderItem.hasMany(models.ReturnRequest, {
+      foreignKey: 'orderItemId',
+      as: 'returnRequests'
+    });
   };
 
   return OrderItem;
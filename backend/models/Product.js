@@ -24,6 +24,12 @@ module.exports = (sequelize) => {
       type: DataTypes.STRING(500),
       allowNull: true
     },
+    // Copy in other locales, e.g. { es: { name, description, shortDescription } }
+    translations: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: {}
+    },
     price: {
       type: DataTypes.DECIMAL(10, 2),
       allowNull: false,
@@ -263,10 +269,25 @@ module.exports = (sequelize) => {
       as: 'cartItems'
     });
     
+    Product.hasMany(models.WishlistItem, {
+      foreignKey: 'productId',
+      as: 'wishlistItems'
+    });
+    
+    Product.hasMany(models.ProductAlert, {
+      foreignKey: 'productId',
+      as: 'alerts'
+    });
+    
     Product.hasMany(models.OrderItem, {
       foreignKey: 'productId',
       as: 'orderItems'
     });
+
+    Product.hasMany(models.DigitalKey, {
+      foreignKey: 'productId',
+      as: 'digitalKeys'
+    });
     
     Product.hasMany(models.InventoryTransaction, {
       foreignKey: 'productId',
@@ -0,0 +1,94 @@
+const { DataTypes } = require('sequelize');
+
+module.exports = (sequelize) => {
+  const ProductAlert = sequelize.define('ProductAlert', {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id'
+      }
+    },
+    productId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'products',
+        key: 'id'
+      }
+    },
+    type: {
+      type: DataTypes.ENUM('back_in_stock', 'price_drop'),
+      allowNull: false
+    },
+    // Price drop alerts fire at or below this price, or on any drop when unset
+    targetPrice: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: true,
+      validate: {
+        min: 0
+      }
+    },
+    // Price when the shopper subscribed
+    priceAtSubscribe: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false
+    },
+    // Only restocks after this date count, so re-subscribing starts over
+    subscribedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    },
+    // Alerts fire once; a notified alert stays for the shopper's history
+    notifiedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    }
+  }, {
+    tableName: 'product_alerts',
+    timestamps: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['user_id', 'product_id', 'type']
+      },
+      {
+        fields: ['type', 'notified_at']
+      }
+    ]
+  });
+
+  // Instance methods
+  ProductAlert.prototype.isPending = function() {
+    return !this.notifiedAt;
+  };
+
+  ProductAlert.prototype.isPriceMet = function(price) {
+    if (this.targetPrice !== null && this.targetPrice !== undefined) {
+      return parseFloat(price) <= parseFloat(this.targetPrice);
+    }
+    return parseFloat(price) < parseFloat(this.priceAtSubscribe);
+  };
+
+  // Associations
+  ProductAlert.associate = (models) => {
+    ProductAlert.belongsTo(models.User, {
+      foreignKey: 'userId',
+      as: 'user'
+    });
+
+    ProductAlert.belongsTo(models.Product, {
+      foreignKey: 'productId',
+      as: 'product'
+    });
+  };
+
+  return ProductAlert;
+};
@@ -0,0 +1,151 @@
+const { DataTypes } = require('sequelize');
+
+module.exports = (sequelize) => {
+  const Promotion = sequelize.define('Promotion', {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true
+    },
+    code: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      unique: true,
+      set(value) {
+        this.setDataValue('code', value.trim().toUpperCase());
+      }
+    },
+    description: {
+      type: DataTypes.STRING,
+      allowNull: true
+    },
+    type: {
+      type: DataTypes.ENUM('percentage', 'fixed_amount', 'free_shipping', 'buy_x_get_y'),
+      allowNull: false
+    },
+    // Percent off for percentage codes, amount off for fixed amount codes
+    value: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      defaultValue: 0,
+      validate: {
+        min: 0
+      }
+    },
+    // Buy X get Y: for every buyQuantity eligible units, getQuantity more are free
+    buyQuantity: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      validate: {
+        min: 1
+      }
+    },
+    getQuantity: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      validate: {
+        min: 1
+      }
+    },
+    // Caps the discount of percentage codes
+    maxDiscountAmount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: true,
+      validate: {
+        min: 0
+      }
+    },
+    minSubtotal: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: true,
+      validate: {
+        min: 0
+      }
+    },
+    // Scoping; empty means every product is eligible
+    categoryIds: {
+      type: DataTypes.ARRAY(DataTypes.UUID),
+      allowNull: false,
+      defaultValue: []
+    },
+    platforms: {
+      type: DataTypes.ARRAY(DataTypes.STRING),
+      allowNull: false,
+      defaultValue: []
+    },
+    // Usage limits
+    usageLimit: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      validate: {
+        min: 1
+      }
+    },
+    perUserLimit: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      validate: {
+        min: 1
+      }
+    },
+    usageCount: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    firstOrderOnly: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: false
+    },
+    startsAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    isActive: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: true
+    }
+  }, {
+    tableName: 'promotions',
+    timestamps: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['code']
+      },
+      {
+        fields: ['is_active']
+      },
+      {
+        fields: ['expires_at']
+      }
+    ]
+  });
+
+  // Instance methods
+  Promotion.prototype.isExpired = function() {
+    return !!this.expiresAt && new Date(this.expiresAt) <= new Date();
+  };
+
+  Promotion.prototype.hasStarted = function() {
+    return !this.startsAt || new Date(this.startsAt) <= new Date();
+  };
+
+  Promotion.prototype.isExhausted = function() {
+    return !!this.usageLimit && this.usageCount >= this.usageLimit;
+  };
+
+  // Associations
+  Promotion.associate = (models) => {
+    Promotion.hasMany(models.PromotionRedemption, {
+      foreignKey: 'promotionId',
+      as: 'redemptions'
+    });
+  };
+
+  return Promotion;
+};
@@ -0,0 +1,75 @@
+const { DataTypes } = require('sequelize');
+
+module.exports = (sequelize) => {
+  const PromotionRedemption = sequelize.define('PromotionRedemption', {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true
+    },
+    promotionId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'promotions',
+        key: 'id'
+      }
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id'
+      }
+    },
+    orderId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'orders',
+        key: 'id'
+      }
+    },
+    discountAmount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      defaultValue: 0,
+      validate: {
+        min: 0
+      }
+    }
+  }, {
+    tableName: 'promotion_redemptions',
+    timestamps: true,
+    indexes: [
+      {
+        fields: ['promotion_id', 'user_id']
+      },
+      {
+        unique: true,
+        fields: ['order_id']
+      }
+    ]
+  });
+
+  // Associations
+  PromotionRedemption.associate = (models) => {
+    PromotionRedemption.belongsTo(models.Promotion, {
+      foreignKey: 'promotionId',
+      as: 'promotion'
+    });
+
+    PromotionRedemption.belongsTo(models.User, {
+      foreignKey: 'userId',
+      as: 'user'
+    });
+
+    PromotionRedemption.belongsTo(models.Order, {
+      foreignKey: 'orderId',
+      as: 'order'
+    });
+  };
+
+  return PromotionRedemption;
+};
@@ -0,0 +1,101 @@
+const { DataTypes } = require('sequelize');
+
+module.exports = (sequelize) => {
+  const Refund = sequelize.define('Refund', {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true
+    },
+    orderId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'orders',
+        key: 'id'
+      }
+    },
+    // Refunds issued in the Stripe dashboard are recorded from the webhook
+    stripeRefundId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      unique: true
+    },
+    amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      validate: {
+        min: 0.01
+      }
+    },
+    // Items refunded, as [{ orderItemId, quantity, amount }]; empty for a plain amount
+    lines: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: []
+    },
+    shippingAmount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      defaultValue: 0
+    },
+    // Tax is refunded on its own rather than per line
+    taxAmount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      defaultValue: 0
+    },
+    reason: {
+      type: DataTypes.STRING,
+      allowNull: true
+    },
+    source: {
+      type: DataTypes.ENUM('admin', 'customer', 'return', 'stripe'),
+      allowNull: false
+    },
+    returnRequestId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'return_requests',
+        key: 'id'
+      }
+    },
+    createdBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id'
+      }
+    }
+  }, {
+    tableName: 'refunds',
+    timestamps: true,
+    indexes: [
+      {
+        fields: ['order_id']
+      }
+    ]
+  });
+
+  // Associations
+  Refund.associate = (models) => {
+    Refund.belongsTo(models.Order, {
+      foreignKey: 'orderId',
+      as: 'order'
+    });
+
+    Refund.belongsTo(models.ReturnRequest, {
+      foreignKey: 'returnRequestId',
+      as: 'returnRequest'
+    });
+
+    Refund.belongsTo(models.User, {
+      foreignKey: 'createdBy',
+      as: 'creator'
+    });
+  };
+
+  return Refund;
+};
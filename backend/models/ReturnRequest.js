@@ -0,0 +1,144 @@
+const { DataTypes } = require('sequelize');
+
+module.exports = (sequelize) => {
+  const ReturnRequest = sequelize.define('ReturnRequest', {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true
+    },
+    rmaNumber: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      unique: true
+    },
+    orderId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'orders',
+        key: 'id'
+      }
+    },
+    orderItemId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'order_items',
+        key: 'id'
+      }
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id'
+      }
+    },
+    quantity: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      validate: {
+        min: 1
+      }
+    },
+    reason: {
+      type: DataTypes.ENUM('damaged', 'defective', 'wrong_item', 'not_as_described', 'no_longer_needed', 'other'),
+      allowNull: false
+    },
+    customerNotes: {
+      type: DataTypes.TEXT,
+      allowNull: true
+    },
+    status: {
+      type: DataTypes.ENUM('requested', 'approved', 'rejected', 'received', 'refunded'),
+      allowNull: false,
+      defaultValue: 'requested'
+    },
+    // What the returned units cost the customer, after discount and with tax
+    refundAmount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      validate: {
+        min: 0
+      }
+    },
+    adminNotes: {
+      type: DataTypes.TEXT,
+      allowNull: true
+    },
+    reviewedBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id'
+      }
+    },
+    reviewedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    receivedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    // Damaged returns are received without going back into stock
+    restocked: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false
+    },
+    refundedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    stripeRefundId: {
+      type: DataTypes.STRING,
+      allowNull: true
+    }
+  }, {
+    tableName: 'return_requests',
+    timestamps: true,
+    indexes: [
+      {
+        fields: ['order_id']
+      },
+      {
+        fields: ['order_item_id']
+      },
+      {
+        fields: ['user_id']
+      },
+      {
+        fields: ['status']
+      }
+    ]
+  });
+
+  // Associations
+  ReturnRequest.associate = (models) => {
+    ReturnRequest.belongsTo(models.Order, {
+      foreignKey: 'orderId',
+      as: 'order'
+    });
+
+    ReturnRequest.belongsTo(models.OrderItem, {
+      foreignKey: 'orderItemId',
+      as: 'orderItem'
+    });
+
+    ReturnRequest.belongsTo(models.User, {
+      foreignKey: 'userId',
+      as: 'user'
+    });
+
+    ReturnRequest.belongsTo(models.User, {
+      foreignKey: 'reviewedBy',
+      as: 'reviewer'
+    });
+  };
+
+  return ReturnRequest;
+};
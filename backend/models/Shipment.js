@@ -0,0 +1,73 @@
+const { DataTypes } = require('sequelize');
+
+module.exports = (sequelize) => {
+  const Shipment = sequelize.define('Shipment', {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true
+    },
+    orderId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'orders',
+        key: 'id'
+      }
+    },
+    // Lines in this parcel, as [{ orderItemId, quantity }]
+    lines: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: []
+    },
+    trackingNumber: {
+      type: DataTypes.STRING,
+      allowNull: false
+    },
+    trackingUrl: {
+      type: DataTypes.STRING,
+      allowNull: true
+    },
+    shippedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    },
+    notes: {
+      type: DataTypes.TEXT,
+      allowNull: true
+    },
+    createdBy: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id'
+      }
+    }
+  }, {
+    tableName: 'shipments',
+    timestamps: true,
+    indexes: [
+      {
+        fields: ['order_id']
+      }
+    ]
+  });
+
+  // Associations
+  Shipment.associate = (models) => {
+    Shipment.belongsTo(models.Order, {
+      foreignKey: 'orderId',
+      as: 'order'
+    });
+
+    Shipment.belongsTo(models.User, {
+      foreignKey: 'createdBy',
+      as: 'creator'
+    });
+  };
+
+  return Shipment;
+};
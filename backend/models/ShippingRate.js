@@ -0,0 +1,101 @@
+const { DataTypes } = require('sequelize');
+
+module.exports = (sequelize) => {
+  const ShippingRate = sequelize.define('ShippingRate', {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true
+    },
+    zoneId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'shipping_zones',
+        key: 'id'
+      }
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false
+    },
+    description: {
+      type: DataTypes.STRING,
+      allowNull: true
+    },
+    // Flat rates charge price; weight and subtotal rates charge the first
+    // tier the parcel weight or order subtotal fits under
+    rateType: {
+      type: DataTypes.ENUM('flat', 'weight', 'subtotal'),
+      allowNull: false,
+      defaultValue: 'flat'
+    },
+    price: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      defaultValue: 0,
+      validate: {
+        min: 0
+      }
+    },
+    // [{ upTo, price }] in ascending order; an upTo of null has no upper bound
+    tiers: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: []
+    },
+    // Orders with at least this subtotal ship free
+    freeShippingThreshold: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: true,
+      validate: {
+        min: 0
+      }
+    },
+    // Delivery estimate in business days
+    minDays: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      validate: {
+        min: 0
+      }
+    },
+    maxDays: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      validate: {
+        min: 0
+      }
+    },
+    isExpress: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: false
+    },
+    isActive: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: true
+    },
+    sortOrder: {
+      type: DataTypes.INTEGER,
+      defaultValue: 0
+    }
+  }, {
+    tableName: 'shipping_rates',
+    timestamps: true,
+    indexes: [
+      {
+        fields: ['zone_id']
+      }
+    ]
+  });
+
+  // Associations
+  ShippingRate.associate = (models) => {
+    ShippingRate.belongsTo(models.ShippingZone, {
+      foreignKey: 'zoneId',
+      as: 'zone'
+    });
+  };
+
+  return ShippingRate;
+};
@@ -0,0 +1,46 @@
+const { DataTypes } = require('sequelize');
+
+module.exports = (sequelize) => {
+  const ShippingZone = sequelize.define('ShippingZone', {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false
+    },
+    // Matched against the address as typed, ignoring case. A zone without
+    // countries covers every address no other zone does.
+    countries: {
+      type: DataTypes.ARRAY(DataTypes.STRING),
+      allowNull: false,
+      defaultValue: []
+    },
+    // States or provinces; empty covers the whole of each country
+    regions: {
+      type: DataTypes.ARRAY(DataTypes.STRING),
+      allowNull: false,
+      defaultValue: []
+    },
+    isActive: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: true
+    }
+  }, {
+    tableName: 'shipping_zones',
+    timestamps: true
+  });
+
+  // Associations
+  ShippingZone.associate = (models) => {
+    ShippingZone.hasMany(models.ShippingRate, {
+      foreignKey: 'zoneId',
+      as: 'rates',
+      onDelete: 'CASCADE'
+    });
+  };
+
+  return ShippingZone;
+};
@@ -0,0 +1,60 @@
+const { DataTypes } = require('sequelize');
+
+module.exports = (sequelize) => {
+  const TaxRate = sequelize.define('TaxRate', {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true
+    },
+    // Printed in the order's tax breakdown, e.g. "NY State Sales Tax"
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false
+    },
+    // Matched against the address as typed, ignoring case
+    country: {
+      type: DataTypes.STRING,
+      allowNull: false
+    },
+    // Null covers the whole country
+    state: {
+      type: DataTypes.STRING,
+      allowNull: true
+    },
+    // ZIP or postal code prefixes; empty covers the whole state or country
+    postalCodes: {
+      type: DataTypes.ARRAY(DataTypes.STRING),
+      allowNull: false,
+      defaultValue: []
+    },
+    taxClass: {
+      type: DataTypes.ENUM('standard', 'reduced', 'digital'),
+      allowNull: false,
+      defaultValue: 'standard'
+    },
+    // Percent, e.g. 8.875
+    rate: {
+      type: DataTypes.DECIMAL(7, 4),
+      allowNull: false,
+      validate: {
+        min: 0,
+        max: 100
+      }
+    },
+    isActive: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: true
+    }
+  }, {
+    tableName: 'tax_rates',
+    timestamps: true,
+    indexes: [
+      {
+        fields: ['country', 'state']
+      }
+    ]
+  });
+
+  return TaxRate;
+};
@@ -49,6 +49,14 @@ module.exports = (sequelize) => {
       type: DataTypes.STRING,
       allowNull: true
     },
+    // New address waiting for confirmation; the current email stays in use until then
+    pendingEmail: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      validate: {
+        isEmail: true
+      }
+    },
     resetPasswordToken: {
       type: DataTypes.STRING,
       allowNull: true
@@ -65,12 +73,37 @@ module.exports = (sequelize) => {
       type: DataTypes.BOOLEAN,
       defaultValue: true
     },
+    // Two-factor sign in with an authenticator app (TOTP)
+    twoFactorEnabled: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: false
+    },
+    // Encrypted shared secret; set during enrollment before 2FA is enabled
+    twoFactorSecret: {
+      type: DataTypes.STRING,
+      allowNull: true
+    },
+    // Hashes of the unused recovery codes
+    twoFactorRecoveryCodes: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+      defaultValue: null
+    },
+    // Time step of the last accepted code, so codes can't be used twice
+    twoFactorLastUsedStep: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    twoFactorEnabledAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
     // Optional payment information
     stripeCustomerId: {
       type: DataTypes.STRING,
       allowNull: true
     },
-    // Optional shipping address
+    // Entered at registration; checkout uses the address book (Address) instead
     shippingAddress: {
       type: DataTypes.JSONB,
       allowNull: true,
@@ -119,6 +152,14 @@ module.exports = (sequelize) => {
     delete values.emailVerificationToken;
     delete values.resetPasswordToken;
     delete values.resetPasswordExpires;
+    delete values.twoFactorSecret;
+    delete values.twoFactorRecoveryCodes;
+    delete values.twoFactorLastUsedStep;
+    values.twoFactorRecoveryCodesRemaining = this.twoFactorEnabled
+      ? (this.twoFactorRecoveryCodes || []).length
+      : 0;
+    // Admins can't use the admin API until they enable 2FA when the store enforces it
+    values.twoFactorRequired = this.role === 'admin' && process.env.REQUIRE_ADMIN_2FA === 'true';
     return values;
   };
 
@@ -139,10 +180,30 @@ module.exports = (sequelize) => {
       as: 'cartItems'
     });
     
+    User.hasMany(models.WishlistItem, {
+      foreignKey: 'userId',
+      as: 'wishlistItems'
+    });
+    
+    User.hasMany(models.ProductAlert, {
+      foreignKey: 'userId',
+      as: 'productAlerts'
+    });
+    
     User.hasMany(models.ActivityLog, {
       foreignKey: 'userId',
       as: 'activityLogs'
     });
+
+    User.hasMany(models.Address, {
+      foreignKey: 'userId',
+      as: 'addresses'
+    });
+
+    User.hasMany(models.UserSession, {
+      foreignKey: 'userId',
+      as: 'sessions'
+    });
   };
 
   return User;
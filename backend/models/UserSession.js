@@ -0,0 +1,91 @@
+const { DataTypes } = require('sequelize');
+
+module.exports = (sequelize) => {
+  const UserSession = sequelize.define('UserSession', {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id'
+      }
+    },
+    // SHA-256 of the session's current refresh token. Rotated on every
+    // refresh, so an older token showing up again means it was copied.
+    refreshTokenHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false
+    },
+    // The token the last rotation replaced and when, so another tab refreshing
+    // with it at the same moment isn't mistaken for a copied token
+    previousRefreshTokenHash: {
+      type: DataTypes.STRING(64),
+      allowNull: true
+    },
+    rotatedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    // Readable summary of the user agent, e.g. "Chrome on macOS"
+    device: {
+      type: DataTypes.STRING,
+      allowNull: true
+    },
+    userAgent: {
+      type: DataTypes.TEXT,
+      allowNull: true
+    },
+    ipAddress: {
+      type: DataTypes.STRING,
+      allowNull: true
+    },
+    lastSeenAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    },
+    // When the current refresh token expires
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    revokedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    revokedReason: {
+      type: DataTypes.ENUM('logout', 'user', 'admin', 'reuse', 'password'),
+      allowNull: true
+    }
+  }, {
+    tableName: 'user_sessions',
+    timestamps: true,
+    indexes: [
+      {
+        fields: ['user_id']
+      },
+      {
+        fields: ['revoked_at']
+      }
+    ]
+  });
+
+  UserSession.prototype.isActive = function() {
+    return !this.revokedAt && this.expiresAt > new Date();
+  };
+
+  // Associations
+  UserSession.associate = (models) => {
+    UserSession.belongsTo(models.User, {
+      foreignKey: 'userId',
+      as: 'user'
+    });
+  };
+
+  return UserSession;
+};
@@ -0,0 +1,75 @@
+const { DataTypes } = require('sequelize');
+
+module.exports = (sequelize) => {
+  const WishlistItem = sequelize.define('WishlistItem', {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id'
+      }
+    },
+    productId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'products',
+        key: 'id'
+      }
+    },
+    // Price when the item was saved (for price drop tracking)
+    priceAtAdd: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      validate: {
+        min: 0
+      }
+    },
+    // Whether the product could be bought when saved (for back in stock tracking)
+    inStockAtAdd: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true
+    }
+  }, {
+    tableName: 'wishlist_items',
+    timestamps: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['user_id', 'product_id']
+      }
+    ]
+  });
+
+  // Instance methods
+  WishlistItem.prototype.getPriceDrop = function() {
+    if (!this.product) return 0;
+    return Math.max(0, parseFloat(this.priceAtAdd) - parseFloat(this.product.price));
+  };
+
+  WishlistItem.prototype.isBackInStock = function() {
+    return !this.inStockAtAdd && !!this.product && this.product.stockQuantity > 0;
+  };
+
+  // Associations
+  WishlistItem.associate = (models) => {
+    WishlistItem.belongsTo(models.User, {
+      foreignKey: 'userId',
+      as: 'user'
+    });
+
+    WishlistItem.belongsTo(models.Product, {
+      foreignKey: 'productId',
+      as: 'product'
+    });
+  };
+
+  return WishlistItem;
+};
@@ -0,0 +1,207 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const { authenticate, requireBuyer } = require('../middleware/auth');
+const { asyncHandler, AppError } = require('../middleware/errorHandler');
+const { logManualActivity } = require('../middleware/activityLogger');
+const { Address } = require('../models');
+const {
+  ADDRESS_FIELDS,
+  normalizeAddress,
+  toOrderAddress,
+  setDefaultAddress,
+  importLegacyAddress
+} = require('../utils/addresses');
+
+const router = express.Router();
+
+// All routes require a signed in buyer
+router.use(authenticate, requireBuyer);
+
+// Validation schemas
+const addressFieldValidation = ADDRESS_FIELDS.map(field =>
+  body(field).isString().trim().notEmpty().withMessage(`${field} is required`)
+);
+
+const addressValidation = [
+  body('label').optional().isString().trim().isLength({ min: 1, max: 50 }).withMessage('Label must be 1-50 characters'),
+  body('firstName').isString().trim().notEmpty().withMessage('First name is required'),
+  body('lastName').isString().trim().notEmpty().withMessage('Last name is required'),
+  body('phone').optional({ values: 'falsy' }).isString().trim(),
+  body('isDefault').optional().isBoolean().toBoolean(),
+  ...addressFieldValidation
+];
+
+const findAddress = async (req) => {
+  const address = await Address.findOne({
+    where: { id: req.params.id, userId: req.user.id }
+  });
+
+  if (!address) {
+    throw new AppError('Address not found', 404);
+  }
+  return address;
+};
+
+// Default first, then most recently added
+const listAddresses = (userId) => Address.findAll({
+  where: { userId },
+  order: [['isDefault', 'DESC'], ['createdAt', 'DESC']]
+});
+
+// Get the user's saved addresses
+router.get('/', asyncHandler(async (req, res) => {
+  let addresses = await listAddresses(req.user.id);
+
+  if (addresses.length === 0 && await importLegacyAddress(req.user)) {
+    addresses = await listAddresses(req.user.id);
+  }
+
+  res.json({
+    success: true,
+    data: { addresses }
+  });
+}));
+
+// Check and normalize an address without saving it (used for one-off checkout addresses)
+router.post('/validate', addressFieldValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  res.json({
+    success: true,
+    data: { address: normalizeAddress(toOrderAddress(req.body)) }
+  });
+}));
+
+// Add an address
+router.post('/', addressValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const { label, firstName, lastName, phone, isDefault } = req.body;
+  const existingCount = await Address.count({ where: { userId: req.user.id } });
+
+  const address = await Address.create({
+    ...normalizeAddress(toOrderAddress(req.body)),
+    userId: req.user.id,
+    label: label || 'Home',
+    firstName,
+    lastName,
+    phone: phone || null
+  });
+
+  // The first address is always the default
+  if (isDefault || existingCount === 0) {
+    await setDefaultAddress(address);
+  }
+
+  // Log activity
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'user.address.create',
+    entityType: 'user',
+    entityId: req.user.id,
+    description: `Added address "${address.label}"`,
+    newValues: address.toJSON(),
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.status(201).json({
+    success: true,
+    message: 'Address saved',
+    data: { address }
+  });
+}));
+
+// Update an address
+router.put('/:id', addressValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const address = await findAddress(req);
+  const oldValues = address.toJSON();
+  const { label, firstName, lastName, phone, isDefault } = req.body;
+
+  await address.update({
+    ...normalizeAddress(toOrderAddress(req.body)),
+    label: label || address.label,
+    firstName,
+    lastName,
+    phone: phone || null
+  });
+
+  if (isDefault && !address.isDefault) {
+    await setDefaultAddress(address);
+  }
+
+  // Log activity
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'user.address.update',
+    entityType: 'user',
+    entityId: req.user.id,
+    description: `Updated address "${address.label}"`,
+    oldValues,
+    newValues: address.toJSON(),
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.json({
+    success: true,
+    message: 'Address updated',
+    data: { address }
+  });
+}));
+
+// Make an address the default
+router.patch('/:id/default', asyncHandler(async (req, res) => {
+  const address = await findAddress(req);
+  await setDefaultAddress(address);
+
+  res.json({
+    success: true,
+    message: 'Default address updated',
+    data: { address }
+  });
+}));
+
+// Delete an address
+router.delete('/:id', asyncHandler(async (req, res) => {
+  const address = await findAddress(req);
+  await address.destroy();
+
+  // Keep a default while the user still has addresses
+  if (address.isDefault) {
+    const [next] = await listAddresses(req.user.id);
+    if (next) {
+      await setDefaultAddress(next);
+    }
+  }
+
+  // Log activity
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'user.address.delete',
+    entityType: 'user',
+    entityId: req.user.id,
+    description: `Deleted address "${address.label}"`,
+    oldValues: address.toJSON(),
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.json({
+    success: true,
+    message: 'Address deleted'
+  });
+}));
+
+module.exports = router;
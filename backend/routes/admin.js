@@ -12,21 +12,30 @@ const {
   InventoryTransaction 
 } = require('../models');
 const { Op } = require('sequelize');
+const { roundToCurrency, baseAmountSql } = require('../utils/currency');
 
 const router = express.Router();
 
 // All routes require admin authentication
 router.use(authenticate, requireAdmin);
 
+// Revenue in the base currency, whatever each order was paid in
+const sumRevenue = async (where) => {
+  const result = await Order.findOne({
+    where,
+    attributes: [[require('sequelize').fn('SUM', baseAmountSql('total')), 'revenue']],
+    raw: true
+  });
+  return roundToCurrency(parseFloat(result?.revenue || 0));
+};
+
 // Get dashboard overview
 router.get('/dashboard', asyncHandler(async (req, res) => {
   // Get basic statistics
   const totalUsers = await User.count();
   const totalProducts = await Product.count({ where: { isActive: true } });
   const totalOrders = await Order.count();
-  const totalRevenue = await Order.sum('total', { 
-    where: { paymentStatus: 'paid' } 
-  });
+  const totalRevenue = await sumRevenue({ paymentStatus: 'paid' });
 
   // Recent activity
   const recentOrders = await Order.findAll({
@@ -111,7 +120,7 @@ router.get('/analytics/sales', asyncHandler(async (req, res) => {
     attributes: [
       [require('sequelize').fn('DATE', require('sequelize').col('createdAt')), 'date'],
       [require('sequelize').fn('COUNT', require('sequelize').col('id')), 'orderCount'],
-      [require('sequelize').fn('SUM', require('sequelize').col('total')), 'revenue']
+      [require('sequelize').fn('SUM', baseAmountSql('total')), 'revenue']
     ],
     group: [require('sequelize').fn('DATE', require('sequelize').col('createdAt'))],
     order: [[require('sequelize').fn('DATE', require('sequelize').col('createdAt')), 'ASC']],
@@ -124,7 +133,7 @@ router.get('/analytics/sales', asyncHandler(async (req, res) => {
       'id',
       'name',
       'soldCount',
-      [require('sequelize').fn('SUM', require('sequelize').col('orderItems.totalPrice')), 'totalRevenue']
+      [require('sequelize').fn('SUM', baseAmountSql('total_price', 'orderItems', 'orderItems->order')), 'totalRevenue']
     ],
     include: [
       {
@@ -142,7 +151,7 @@ router.get('/analytics/sales', asyncHandler(async (req, res) => {
       }
     ],
     group: ['Product.id'],
-    order: [[require('sequelize').fn('SUM', require('sequelize').col('orderItems.totalPrice')), 'DESC']],
+    order: [[require('sequelize').fn('SUM', baseAmountSql('total_price', 'orderItems', 'orderItems->order')), 'DESC']],
     limit: 10,
     raw: true
   });
@@ -276,11 +285,11 @@ router.get('/analytics/users', asyncHandler(async (req, res) => {
       'lastName',
       'email',
       [require('sequelize').fn('COUNT', require('sequelize').col('orders.id')), 'orderCount'],
-      [require('sequelize').fn('SUM', require('sequelize').col('orders.total')), 'totalSpent']
+      [require('sequelize').fn('SUM', baseAmountSql('total', 'orders')), 'totalSpent']
     ],
     group: ['User.id'],
     having: require('sequelize').literal('COUNT(orders.id) > 0'),
-    order: [[require('sequelize').fn('SUM', require('sequelize').col('orders.total')), 'DESC']],
+    order: [[require('sequelize').fn('SUM', baseAmountSql('total', 'orders')), 'DESC']],
     limit: 10,
     raw: true
   });
@@ -482,11 +491,9 @@ router.get('/widgets', asyncHandler(async (req, res) => {
     where: { createdAt: { [Op.gte]: today } }
   });
 
-  const todayRevenue = await Order.sum('total', {
-    where: { 
-      createdAt: { [Op.gte]: today },
-      paymentStatus: 'paid'
-    }
+  const todayRevenue = await sumRevenue({
+    createdAt: { [Op.gte]: today },
+    paymentStatus: 'paid'
   });
 
   const todayUsers = await User.count({
@@ -502,11 +509,9 @@ router.get('/widgets', asyncHandler(async (req, res) => {
     where: { createdAt: { [Op.gte]: thisMonth } }
   });
 
-  const monthRevenue = await Order.sum('total', {
-    where: { 
-      createdAt: { [Op.gte]: thisMonth },
-      paymentStatus: 'paid'
-    }
+  const monthRevenue = await sumRevenue({
+    createdAt: { [Op.gte]: thisMonth },
+    paymentStatus: 'paid'
   });
 
   // Pending actions
@@ -0,0 +1,144 @@
+const express = require('express');
+const { body, query, validationResult } = require('express-validator');
+const { authenticate, requireBuyer } = require('../middleware/auth');
+const { asyncHandler, AppError } = require('../middleware/errorHandler');
+const { logManualActivity } = require('../middleware/activityLogger');
+const { ProductAlert, Product } = require('../models');
+
+const router = express.Router();
+
+// All routes require a signed in buyer
+router.use(authenticate, requireBuyer);
+
+// Validation schemas
+const alertValidation = [
+  body('productId').isUUID().withMessage('Valid product ID is required'),
+  body('type').isIn(['back_in_stock', 'price_drop']).withMessage('Valid alert type is required'),
+  body('targetPrice').optional({ values: 'null' }).isFloat({ min: 0 }).withMessage('Target price cannot be negative')
+];
+
+// Get user's alerts
+router.get('/', [
+  query('productId').optional().isUUID().withMessage('Valid product ID is required')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const whereClause = { userId: req.user.id };
+  if (req.query.productId) {
+    whereClause.productId = req.query.productId;
+  }
+
+  const alerts = await ProductAlert.findAll({
+    where: whereClause,
+    include: [
+      {
+        model: Product,
+        as: 'product',
+        attributes: ['id', 'name', 'slug', 'price', 'mainImage', 'stockQuantity']
+      }
+    ],
+    order: [['subscribedAt', 'DESC']]
+  });
+
+  res.json({
+    success: true,
+    data: { alerts }
+  });
+}));
+
+// Subscribe to an alert, or renew an existing one
+router.post('/', alertValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const { productId, type, targetPrice } = req.body;
+
+  const product = await Product.findOne({
+    where: { id: productId, isActive: true }
+  });
+
+  if (!product) {
+    throw new AppError('Product not found or unavailable', 404);
+  }
+
+  if (type === 'back_in_stock' && product.stockQuantity > 0) {
+    throw new AppError('This product is already in stock', 400);
+  }
+
+  if (type === 'price_drop' && targetPrice != null && parseFloat(targetPrice) >= parseFloat(product.price)) {
+    throw new AppError('Target price must be below the current price', 400);
+  }
+
+  const values = {
+    targetPrice: type === 'price_drop' ? targetPrice ?? null : null,
+    priceAtSubscribe: product.price,
+    subscribedAt: new Date(),
+    notifiedAt: null
+  };
+
+  const [alert, created] = await ProductAlert.findOrCreate({
+    where: { userId: req.user.id, productId, type },
+    defaults: values
+  });
+
+  if (!created) {
+    await alert.update(values);
+  }
+
+  // Log activity
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'product.alert.subscribe',
+    entityType: 'product',
+    entityId: product.id,
+    description: `Subscribed to ${type === 'back_in_stock' ? 'back in stock' : 'price drop'} alerts for ${product.name}`,
+    metadata: { alertId: alert.id, type, targetPrice: values.targetPrice },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.status(created ? 201 : 200).json({
+    success: true,
+    message: type === 'back_in_stock'
+      ? "We'll email you when this product is back in stock"
+      : "We'll email you when the price drops",
+    data: { alert }
+  });
+}));
+
+// Unsubscribe from an alert
+router.delete('/:id', asyncHandler(async (req, res) => {
+  const alert = await ProductAlert.findOne({
+    where: { id: req.params.id, userId: req.user.id }
+  });
+
+  if (!alert) {
+    throw new AppError('Alert not found', 404);
+  }
+
+  await alert.destroy();
+
+  // Log activity
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'product.alert.unsubscribe',
+    entityType: 'product',
+    entityId: alert.productId,
+    description: 'Unsubscribed from product alert',
+    metadata: { alertId: alert.id, type: alert.type },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.json({
+    success: true,
+    message: 'Alert removed successfully'
+  });
+}));
+
+module.exports = router;
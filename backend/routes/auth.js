@@ -1,17 +1,45 @@
 const express = require('express');
 const passport = require('passport');
+const rateLimit = require('express-rate-limit');
 const { body, validationResult } = require('express-validator');
 const { 
-  generateToken, 
-  verifyRefreshToken, 
   setTokenCookies, 
   clearTokenCookies,
   authenticate,
   requireBuyer
 } = require('../middleware/auth');
+const { issueCsrfToken } = require('../middleware/csrf');
 const { asyncHandler, AppError } = require('../middleware/errorHandler');
 const { logManualActivity } = require('../middleware/activityLogger');
-const { User } = require('../models');
+const { User, Address, UserSession } = require('../models');
+const { normalizeAddress, toOrderAddress } = require('../utils/addresses');
+const { checkNewPassword } = require('../utils/passwords');
+const {
+  sendWelcomeEmail,
+  sendVerificationEmail,
+  sendPasswordResetEmail
+} = require('../utils/emailService');
+const {
+  encryptSecret,
+  decryptSecret,
+  generateSecret,
+  verifyCode,
+  buildOtpauthUrl,
+  generateQrCode,
+  generateRecoveryCodes,
+  verifySecondFactor,
+  isTwoFactorRequired,
+  createLoginChallenge,
+  verifyLoginChallenge
+} = require('../utils/twoFactor');
+const {
+  startSession,
+  rotateSession,
+  revokeSession,
+  revokeUserSessions,
+  listActiveSessions,
+  serializeSession
+} = require('../utils/sessions');
 const crypto = require('crypto');
 const bcrypt = require('bcryptjs');
 
@@ -20,7 +48,7 @@ const router = express.Router();
 // Validation schemas
 const registerValidation = [
   body('email').isEmail().normalizeEmail().withMessage('Please provide a valid email'),
-  body('password').isLength({ min: 6 }).withMessage('Password must be at least 6 characters long'),
+  body('password').notEmpty().withMessage('Password is required'),
   body('firstName').trim().isLength({ min: 2 }).withMessage('First name must be at least 2 characters long'),
   body('lastName').trim().isLength({ min: 2 }).withMessage('Last name must be at least 2 characters long'),
   body('role').optional().isIn(['buyer', 'admin']).withMessage('Invalid role')
@@ -31,6 +59,49 @@ const loginValidation = [
   body('password').notEmpty().withMessage('Password is required')
 ];
 
+const twoFactorCodeValidation = [
+  body('code').trim().notEmpty().withMessage('Authentication code is required')
+];
+
+// Six-digit codes can be guessed, so checking them is limited well below the API-wide limit
+const twoFactorLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10, // limit each IP to 10 code attempts per windowMs
+  message: 'Too many authentication attempts, please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+const frontendLink = (path) => `${process.env.FRONTEND_URL || 'http://localhost:5173'}${path}`;
+
+// Password rules beyond what the validators cover, e.g. the breached list
+const assertNewPassword = (password, email) => {
+  const problem = checkNewPassword(password, { email });
+  if (problem) {
+    throw new AppError(problem, 400);
+  }
+};
+
+// Email delivery problems shouldn't fail the request; the user can ask for another link
+const sendVerificationLink = async (user, token, to) => {
+  try {
+    await sendVerificationEmail(user, frontendLink(`/verify-email?token=${token}`), to);
+  } catch (error) {
+    console.error(`Failed to send verification email for user ${user.id}:`, error);
+  }
+};
+
+const logTwoFactorFailure = (req, user, description) => logManualActivity({
+  userId: user.id,
+  action: 'user.2fa.fail',
+  entityType: 'user',
+  entityId: user.id,
+  description,
+  severity: 'medium',
+  ipAddress: req.ip,
+  userAgent: req.get('User-Agent')
+});
+
 // Register new user
 router.post('/register', registerValidation, asyncHandler(async (req, res) => {
   const errors = validationResult(req);
@@ -46,6 +117,11 @@ router.post('/register', registerValidation, asyncHandler(async (req, res) => {
     throw new AppError('User with this email already exists', 400);
   }
 
+  assertNewPassword(password, email);
+
+  // Checked before the account exists so a bad postal code doesn't leave a half-registered user
+  const firstAddress = shippingAddress ? normalizeAddress(toOrderAddress(shippingAddress)) : null;
+
   // Create user
   const user = await User.create({
     email,
@@ -53,15 +129,27 @@ router.post('/register', registerValidation, asyncHandler(async (req, res) => {
     firstName,
     lastName,
     role,
-    shippingAddress,
     billingAddress,
     phone,
     isEmailVerified: false,
     emailVerificationToken: crypto.randomBytes(32).toString('hex')
   });
 
-  // Generate tokens
-  const { accessToken, refreshToken } = generateToken(user.id, user.role);
+  // The address entered at sign up starts the address book
+  if (firstAddress) {
+    await Address.create({
+      ...firstAddress,
+      userId: user.id,
+      label: 'Home',
+      firstName: user.firstName,
+      lastName: user.lastName,
+      phone: user.phone,
+      isDefault: true
+    });
+  }
+
+  // Start a session for this device
+  const { accessToken, refreshToken, session } = await startSession(user, req);
 
   // Set cookies
   setTokenCookies(res, accessToken, refreshToken);
@@ -73,17 +161,23 @@ router.post('/register', registerValidation, asyncHandler(async (req, res) => {
     entityType: 'user',
     entityId: user.id,
     description: 'New user registered',
+    sessionId: session.id,
     ipAddress: req.ip,
     userAgent: req.get('User-Agent')
   });
 
+  // The welcome email carries the verification link
+  try {
+    await sendWelcomeEmail(user, frontendLink(`/verify-email?token=${user.emailVerificationToken}`));
+  } catch (error) {
+    console.error(`Failed to send welcome email for user ${user.id}:`, error);
+  }
+
   res.status(201).json({
     success: true,
     message: 'User registered successfully',
     data: {
-      user: user.toJSON(),
-      accessToken,
-      refreshToken
+      user: user.toJSON()
     }
   });
 }));
@@ -109,11 +203,23 @@ router.post('/login', loginValidation, asyncHandler(async (req, res) => {
     throw new AppError('Invalid credentials', 401);
   }
 
+  // No tokens until the second factor is checked at /login/2fa
+  if (user.twoFactorEnabled) {
+    return res.json({
+      success: true,
+      message: 'Two-factor authentication required',
+      data: {
+        requiresTwoFactor: true,
+        challengeToken: createLoginChallenge(user)
+      }
+    });
+  }
+
   // Update last login
   await user.update({ lastLogin: new Date() });
 
-  // Generate tokens
-  const { accessToken, refreshToken } = generateToken(user.id, user.role);
+  // Start a session for this device
+  const { accessToken, refreshToken, session } = await startSession(user, req);
 
   // Set cookies
   setTokenCookies(res, accessToken, refreshToken);
@@ -125,6 +231,7 @@ router.post('/login', loginValidation, asyncHandler(async (req, res) => {
     entityType: 'user',
     entityId: user.id,
     description: 'User logged in',
+    sessionId: session.id,
     ipAddress: req.ip,
     userAgent: req.get('User-Agent')
   });
@@ -133,15 +240,83 @@ router.post('/login', loginValidation, asyncHandler(async (req, res) => {
     success: true,
     message: 'Login successful',
     data: {
-      user: user.toJSON(),
-      accessToken,
-      refreshToken
+      user: user.toJSON()
+    }
+  });
+}));
+
+// Second login step for accounts with two-factor authentication
+router.post('/login/2fa', twoFactorLimiter, [
+  body('challengeToken').notEmpty().withMessage('Login session is required'),
+  ...twoFactorCodeValidation
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const { challengeToken, code } = req.body;
+
+  const userId = verifyLoginChallenge(challengeToken);
+  const user = userId ? await User.findByPk(userId) : null;
+  if (!user || !user.isActive || !user.twoFactorEnabled) {
+    throw new AppError('Your login session has expired. Please sign in again.', 401);
+  }
+
+  const method = await verifySecondFactor(user, code);
+  if (!method) {
+    await logTwoFactorFailure(req, user, 'Invalid two-factor code at login');
+    throw new AppError('Invalid authentication code', 401);
+  }
+
+  // Update last login
+  await user.update({ lastLogin: new Date() });
+
+  // Start a session for this device
+  const { accessToken, refreshToken, session } = await startSession(user, req);
+
+  // Set cookies
+  setTokenCookies(res, accessToken, refreshToken);
+
+  // Log activity
+  if (method === 'recovery') {
+    await logManualActivity({
+      userId: user.id,
+      action: 'user.2fa.recovery.use',
+      entityType: 'user',
+      entityId: user.id,
+      description: `Recovery code used to sign in, ${user.twoFactorRecoveryCodes.length} remaining`,
+      severity: 'medium',
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+  }
+
+  await logManualActivity({
+    userId: user.id,
+    action: 'user.login',
+    entityType: 'user',
+    entityId: user.id,
+    description: 'User logged in with two-factor authentication',
+    sessionId: session.id,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.json({
+    success: true,
+    message: 'Login successful',
+    data: {
+      user: user.toJSON()
     }
   });
 }));
 
 // Logout user
 router.post('/logout', authenticate, asyncHandler(async (req, res) => {
+  // End this device's session so its refresh token stops working
+  await revokeSession(req.userSession, 'logout');
+
   // Clear cookies
   clearTokenCookies(res);
 
@@ -152,6 +327,7 @@ router.post('/logout', authenticate, asyncHandler(async (req, res) => {
     entityType: 'user',
     entityId: req.user.id,
     description: 'User logged out',
+    sessionId: req.userSession.id,
     ipAddress: req.ip,
     userAgent: req.get('User-Agent')
   });
@@ -164,37 +340,108 @@ router.post('/logout', authenticate, asyncHandler(async (req, res) => {
 
 // Refresh token
 router.post('/refresh', asyncHandler(async (req, res) => {
-  const { refreshToken } = req.body;
+  const { refreshToken } = req.cookies;
   
   if (!refreshToken) {
-    throw new AppError('Refresh token is required', 400);
+    throw new AppError('Refresh token is required', 401);
   }
 
+  // The refresh token is single use; a new pair replaces it
+  let tokens;
   try {
-    const decoded = verifyRefreshToken(refreshToken);
-    const user = await User.findByPk(decoded.userId);
+    tokens = await rotateSession(refreshToken, req);
+  } catch (error) {
+    clearTokenCookies(res);
+    throw error;
+  }
 
-    if (!user || !user.isActive) {
-      throw new AppError('Invalid refresh token', 401);
+  // Set new cookies
+  setTokenCookies(res, tokens.accessToken, tokens.refreshToken);
+
+  res.json({
+    success: true,
+    message: 'Token refreshed successfully'
+  });
+}));
+
+// CSRF token the frontend echoes back on state-changing requests
+router.get('/csrf', (req, res) => {
+  res.json({
+    success: true,
+    data: {
+      csrfToken: issueCsrfToken(req, res)
     }
+  });
+});
 
-    // Generate new tokens
-    const { accessToken: newAccessToken, refreshToken: newRefreshToken } = generateToken(user.id, user.role);
+// Devices the user is signed in on
+router.get('/sessions', authenticate, asyncHandler(async (req, res) => {
+  const sessions = await listActiveSessions(req.user.id);
 
-    // Set new cookies
-    setTokenCookies(res, newAccessToken, newRefreshToken);
+  res.json({
+    success: true,
+    data: {
+      sessions: sessions.map(session => serializeSession(session, req.userSession.id))
+    }
+  });
+}));
 
-    res.json({
-      success: true,
-      message: 'Token refreshed successfully',
-      data: {
-        accessToken: newAccessToken,
-        refreshToken: newRefreshToken
-      }
-    });
-  } catch (error) {
-    throw new AppError('Invalid refresh token', 401);
+// Sign out every other device
+router.delete('/sessions', authenticate, asyncHandler(async (req, res) => {
+  const revoked = await revokeUserSessions(req.user.id, 'user', { exceptSessionId: req.userSession.id });
+
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'user.session.revoke_all',
+    entityType: 'user',
+    entityId: req.user.id,
+    description: `Signed out of ${revoked} other session(s)`,
+    severity: 'medium',
+    sessionId: req.userSession.id,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.json({
+    success: true,
+    message: 'Signed out of all other devices',
+    data: { revoked }
+  });
+}));
+
+// Sign out one device. Revoking the current session is the same as logging out.
+router.delete('/sessions/:id', authenticate, asyncHandler(async (req, res) => {
+  const session = await UserSession.findOne({
+    where: { id: req.params.id, userId: req.user.id, revokedAt: null }
+  });
+  if (!session) {
+    throw new AppError('Session not found', 404);
   }
+
+  await revokeSession(session, 'user');
+
+  const isCurrent = session.id === req.userSession.id;
+  if (isCurrent) {
+    clearTokenCookies(res);
+  }
+
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'user.session.revoke',
+    entityType: 'user',
+    entityId: req.user.id,
+    description: `Signed out of ${session.device}`,
+    severity: 'medium',
+    sessionId: req.userSession.id,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.json({
+    success: true,
+    message: 'Session revoked',
+    data: { isCurrent }
+  });
 }));
 
 // Get current user
@@ -216,9 +463,15 @@ router.get('/google/callback',
   passport.authenticate('google', { session: false, failureRedirect: '/login' }),
   asyncHandler(async (req, res) => {
     const user = req.user;
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+    // Google vouches for the password step only; the code is still asked for on the login page
+    if (user.twoFactorEnabled) {
+      return res.redirect(`${frontendUrl}/login?challengeToken=${createLoginChallenge(user)}`);
+    }
 
-    // Generate tokens
-    const { accessToken, refreshToken } = generateToken(user.id, user.role);
+    // Start a session for this device
+    const { accessToken, refreshToken, session } = await startSession(user, req);
 
     // Set cookies
     setTokenCookies(res, accessToken, refreshToken);
@@ -230,13 +483,13 @@ router.get('/google/callback',
       entityType: 'user',
       entityId: user.id,
       description: 'User logged in via Google OAuth',
+      sessionId: session.id,
       ipAddress: req.ip,
       userAgent: req.get('User-Agent')
     });
 
-    // Redirect to frontend with tokens
-    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
-    res.redirect(`${frontendUrl}/auth/callback?accessToken=${accessToken}&refreshToken=${refreshToken}`);
+    // The session cookies are already set; the frontend picks the user up from them
+    res.redirect(frontendUrl);
   })
 );
 
@@ -262,8 +515,13 @@ router.post('/forgot-password', [
       resetPasswordExpires
     });
 
-    // TODO: Send email with reset link
-    // For now, just return the token (in production, send email)
+    try {
+      await sendPasswordResetEmail(user, frontendLink(`/reset-password?token=${resetToken}`));
+    } catch (error) {
+      console.error(`Failed to send password reset email for user ${user.id}:`, error);
+    }
+
+    // The token is also returned in development, where email may not be set up
     res.json({
       success: true,
       message: 'Password reset email sent',
@@ -283,7 +541,7 @@ router.post('/forgot-password', [
 // Reset password
 router.post('/reset-password', [
   body('token').notEmpty().withMessage('Reset token is required'),
-  body('password').isLength({ min: 6 }).withMessage('Password must be at least 6 characters long')
+  body('password').notEmpty().withMessage('Password is required')
 ], asyncHandler(async (req, res) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
@@ -303,6 +561,8 @@ router.post('/reset-password', [
     throw new AppError('Invalid or expired reset token', 400);
   }
 
+  assertNewPassword(password, user.email);
+
   // Update password and clear reset token
   await user.update({
     password,
@@ -310,45 +570,106 @@ router.post('/reset-password', [
     resetPasswordExpires: null
   });
 
+  // Whoever knew the old password may still be signed in somewhere
+  await revokeUserSessions(user.id, 'password');
+
+  await logManualActivity({
+    userId: user.id,
+    action: 'user.password.reset',
+    entityType: 'user',
+    entityId: user.id,
+    description: 'Password reset with an emailed link, all devices signed out',
+    severity: 'medium',
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
   res.json({
     success: true,
     message: 'Password reset successfully'
   });
 }));
 
-// Verify email
-router.get('/verify-email/:token', asyncHandler(async (req, res) => {
-  const { token } = req.params;
+// Verify email. Confirms either the account's address or a pending new
+// one, whichever the link was sent to.
+router.post('/verify-email', [
+  body('token').notEmpty().withMessage('Verification token is required')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
 
   const user = await User.findOne({
-    where: { emailVerificationToken: token }
+    where: { emailVerificationToken: req.body.token }
   });
 
   if (!user) {
-    throw new AppError('Invalid verification token', 400);
+    throw new AppError('Invalid or expired verification link', 400);
   }
 
-  await user.update({
-    isEmailVerified: true,
-    emailVerificationToken: null
-  });
+  if (user.pendingEmail) {
+    // Someone may have signed up with the address since the change was requested
+    const taken = await User.findOne({ where: { email: user.pendingEmail } });
+    if (taken) {
+      await user.update({ pendingEmail: null, emailVerificationToken: null });
+      throw new AppError('An account with this email already exists', 400);
+    }
+
+    const previousEmail = user.email;
+    await user.update({
+      email: user.pendingEmail,
+      pendingEmail: null,
+      isEmailVerified: true,
+      emailVerificationToken: null
+    });
+
+    await logManualActivity({
+      userId: user.id,
+      action: 'user.email.change',
+      entityType: 'user',
+      entityId: user.id,
+      description: `Email changed from ${previousEmail} to ${user.email}`,
+      severity: 'medium',
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+  } else {
+    await user.update({
+      isEmailVerified: true,
+      emailVerificationToken: null
+    });
+
+    await logManualActivity({
+      userId: user.id,
+      action: 'user.email.verify',
+      entityType: 'user',
+      entityId: user.id,
+      description: `Email ${user.email} verified`,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+  }
 
   res.json({
     success: true,
-    message: 'Email verified successfully'
+    message: 'Email verified successfully',
+    data: {
+      email: user.email
+    }
   });
 }));
 
-// Resend verification email
+// Resend verification email, to the pending address when an email change is waiting
 router.post('/resend-verification', authenticate, asyncHandler(async (req, res) => {
-  if (req.user.isEmailVerified) {
+  if (req.user.isEmailVerified && !req.user.pendingEmail) {
     throw new AppError('Email is already verified', 400);
   }
 
   const verificationToken = crypto.randomBytes(32).toString('hex');
   await req.user.update({ emailVerificationToken: verificationToken });
+  await sendVerificationLink(req.user, verificationToken, req.user.pendingEmail || req.user.email);
 
-  // TODO: Send verification email
   res.json({
     success: true,
     message: 'Verification email sent',
@@ -402,7 +723,7 @@ router.put('/profile', authenticate, requireBuyer, [
 // Change password
 router.put('/change-password', authenticate, [
   body('currentPassword').notEmpty().withMessage('Current password is required'),
-  body('newPassword').isLength({ min: 6 }).withMessage('New password must be at least 6 characters long')
+  body('newPassword').notEmpty().withMessage('New password is required')
 ], asyncHandler(async (req, res) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
@@ -417,16 +738,27 @@ router.put('/change-password', authenticate, [
     throw new AppError('Current password is incorrect', 400);
   }
 
+  if (newPassword === currentPassword) {
+    throw new AppError('New password must be different from the current one', 400);
+  }
+
+  assertNewPassword(newPassword, req.user.email);
+
   // Update password
   await req.user.update({ password: newPassword });
 
+  // Other devices signed in with the old password are signed out; this one stays
+  const revoked = await revokeUserSessions(req.user.id, 'password', { exceptSessionId: req.userSession.id });
+
   // Log activity
   await logManualActivity({
     userId: req.user.id,
-    action: 'user.update',
+    action: 'user.password.change',
     entityType: 'user',
     entityId: req.user.id,
-    description: 'User password changed',
+    description: `Password changed, ${revoked} other device(s) signed out`,
+    severity: 'medium',
+    sessionId: req.userSession.id,
     ipAddress: req.ip,
     userAgent: req.get('User-Agent')
   });
@@ -437,4 +769,258 @@ router.put('/change-password', authenticate, [
   });
 }));
 
+// Start an email change. The new address must be confirmed through the link
+// sent to it before it replaces the current one.
+router.put('/email', authenticate, [
+  body('email').isEmail().normalizeEmail().withMessage('Please provide a valid email')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const { email, password } = req.body;
+
+  // Accounts created through Google have no password to confirm
+  if (req.user.password && !(await req.user.comparePassword(password || ''))) {
+    throw new AppError('Password is incorrect', 400);
+  }
+
+  if (email === req.user.email) {
+    throw new AppError('This is already your email address', 400);
+  }
+
+  const existingUser = await User.findOne({ where: { email } });
+  if (existingUser) {
+    throw new AppError('An account with this email already exists', 400);
+  }
+
+  const verificationToken = crypto.randomBytes(32).toString('hex');
+  await req.user.update({ pendingEmail: email, emailVerificationToken: verificationToken });
+  await sendVerificationLink(req.user, verificationToken, email);
+
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'user.email.change_request',
+    entityType: 'user',
+    entityId: req.user.id,
+    description: `Email change to ${email} requested`,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.json({
+    success: true,
+    message: 'Check your new inbox to confirm the change',
+    data: {
+      user: req.user.toJSON(),
+      verificationToken: process.env.NODE_ENV === 'development' ? verificationToken : undefined
+    }
+  });
+}));
+
+// Cancel a pending email change
+router.delete('/email', authenticate, asyncHandler(async (req, res) => {
+  if (!req.user.pendingEmail) {
+    throw new AppError('No email change is pending', 400);
+  }
+
+  const pendingEmail = req.user.pendingEmail;
+  await req.user.update({ pendingEmail: null, emailVerificationToken: null });
+
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'user.email.change_cancel',
+    entityType: 'user',
+    entityId: req.user.id,
+    description: `Email change to ${pendingEmail} cancelled`,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.json({
+    success: true,
+    message: 'Email change cancelled',
+    data: {
+      user: req.user.toJSON()
+    }
+  });
+}));
+
+// Start 2FA enrollment. The secret is kept on the user but 2FA stays off
+// until a code from the authenticator app confirms it was scanned.
+router.post('/2fa/setup', authenticate, asyncHandler(async (req, res) => {
+  if (req.user.twoFactorEnabled) {
+    throw new AppError('Two-factor authentication is already enabled', 400);
+  }
+
+  const secret = generateSecret();
+  const otpauthUrl = buildOtpauthUrl(secret, req.user.email);
+
+  await req.user.update({ twoFactorSecret: encryptSecret(secret) });
+
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'user.2fa.setup',
+    entityType: 'user',
+    entityId: req.user.id,
+    description: 'Two-factor enrollment started',
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.json({
+    success: true,
+    data: {
+      secret,
+      otpauthUrl,
+      qrCode: await generateQrCode(otpauthUrl)
+    }
+  });
+}));
+
+// Finish enrollment with the first code from the authenticator app
+router.post('/2fa/enable', authenticate, twoFactorLimiter, twoFactorCodeValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  if (req.user.twoFactorEnabled) {
+    throw new AppError('Two-factor authentication is already enabled', 400);
+  }
+  if (!req.user.twoFactorSecret) {
+    throw new AppError('Start two-factor setup first', 400);
+  }
+
+  const step = verifyCode(decryptSecret(req.user.twoFactorSecret), req.body.code);
+  if (step === null) {
+    await logTwoFactorFailure(req, req.user, 'Invalid code while enabling two-factor authentication');
+    throw new AppError('Invalid authentication code', 400);
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+  await req.user.update({
+    twoFactorEnabled: true,
+    twoFactorEnabledAt: new Date(),
+    twoFactorLastUsedStep: step,
+    twoFactorRecoveryCodes: hashes
+  });
+
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'user.2fa.enable',
+    entityType: 'user',
+    entityId: req.user.id,
+    description: 'Two-factor authentication enabled',
+    severity: 'medium',
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.json({
+    success: true,
+    message: 'Two-factor authentication enabled',
+    data: {
+      user: req.user.toJSON(),
+      recoveryCodes: codes
+    }
+  });
+}));
+
+// Turn 2FA off. Needs the password as well as a code, so a stolen session alone can't do it.
+router.post('/2fa/disable', authenticate, twoFactorLimiter, twoFactorCodeValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  if (!req.user.twoFactorEnabled) {
+    throw new AppError('Two-factor authentication is not enabled', 400);
+  }
+  if (isTwoFactorRequired(req.user)) {
+    throw new AppError('Two-factor authentication is required for admin accounts', 400);
+  }
+
+  // Accounts created through Google have no password to check
+  if (req.user.password) {
+    const isPasswordValid = await req.user.comparePassword(req.body.password || '');
+    if (!isPasswordValid) {
+      throw new AppError('Password is incorrect', 400);
+    }
+  }
+
+  if (!await verifySecondFactor(req.user, req.body.code)) {
+    await logTwoFactorFailure(req, req.user, 'Invalid code while disabling two-factor authentication');
+    throw new AppError('Invalid authentication code', 400);
+  }
+
+  await req.user.update({
+    twoFactorEnabled: false,
+    twoFactorEnabledAt: null,
+    twoFactorSecret: null,
+    twoFactorRecoveryCodes: null,
+    twoFactorLastUsedStep: null
+  });
+
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'user.2fa.disable',
+    entityType: 'user',
+    entityId: req.user.id,
+    description: 'Two-factor authentication disabled',
+    severity: 'high',
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.json({
+    success: true,
+    message: 'Two-factor authentication disabled',
+    data: {
+      user: req.user.toJSON()
+    }
+  });
+}));
+
+// Replace the recovery codes, invalidating any that are left
+router.post('/2fa/recovery-codes', authenticate, twoFactorLimiter, twoFactorCodeValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  if (!req.user.twoFactorEnabled) {
+    throw new AppError('Two-factor authentication is not enabled', 400);
+  }
+
+  if (!await verifySecondFactor(req.user, req.body.code)) {
+    await logTwoFactorFailure(req, req.user, 'Invalid code while regenerating recovery codes');
+    throw new AppError('Invalid authentication code', 400);
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+  await req.user.update({ twoFactorRecoveryCodes: hashes });
+
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'user.2fa.recovery.regenerate',
+    entityType: 'user',
+    entityId: req.user.id,
+    description: 'Recovery codes regenerated',
+    severity: 'medium',
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.json({
+    success: true,
+    message: 'Recovery codes regenerated',
+    data: {
+      user: req.user.toJSON(),
+      recoveryCodes: codes
+    }
+  });
+}));
+
 module.exports = router; 
\ No newline at end of file
@@ -4,6 +4,10 @@ const { authenticate, requireBuyer } = require('../middleware/auth');
 const { asyncHandler, AppError } = require('../middleware/errorHandler');
 const { logManualActivity } = require('../middleware/activityLogger');
 const { CartItem, Product, User } = require('../models');
+const { toShippingLine, getShippingOptions } = require('../utils/shippingRates');
+const { toPromotionLine, evaluatePromotion, allocateDiscount } = require('../utils/promotionEngine');
+const { toTaxLine, calculateTax } = require('../utils/taxEngine');
+const { getCurrency, convertOrderAmounts } = require('../utils/currency');
 
 const router = express.Router();
 
@@ -312,6 +316,9 @@ router.patch('/:id/select', authenticate, requireBuyer, [
 
 // Get cart summary (for checkout)
 router.get('/summary', authenticate, requireBuyer, asyncHandler(async (req, res) => {
+  // Totals are quoted in the shopper's currency the same way orders are placed
+  const currency = await getCurrency(req.query.currency);
+
   const cartItems = await CartItem.findAll({
     where: { 
       userId: req.user.id,
@@ -325,21 +332,20 @@ router.get('/summary', authenticate, requireBuyer, asyncHandler(async (req, res)
         where: { isActive: true },
         attributes: [
           'id', 'name', 'slug', 'price', 'compareAtPrice', 'mainImage', 
-          'stockQuantity', 'isDigital', 'isPhysical', 'weight'
+          'stockQuantity', 'isDigital', 'isPhysical', 'weight', 'dimensions',
+          'categoryId', 'subcategoryId', 'platform'
         ]
       }
     ]
   });
 
   // Calculate totals
-  let subtotal = 0;
   let itemCount = 0;
   let totalWeight = 0;
   const unavailableItems = [];
 
   const processedItems = cartItems.map(item => {
     const itemTotal = item.priceAtAdd * item.quantity;
-    subtotal += itemTotal;
     itemCount += item.quantity;
     totalWeight += (item.product.weight || 0) * item.quantity;
 
@@ -360,10 +366,67 @@ router.get('/summary', authenticate, requireBuyer, asyncHandler(async (req, res)
     };
   });
 
-  // Calculate shipping (basic calculation)
-  const shippingAmount = totalWeight > 0 ? Math.max(5, totalWeight * 0.5) : 0;
-  const taxAmount = subtotal * 0.1; // 10% tax
-  const total = subtotal + shippingAmount + taxAmount;
+  // Shipping is only quoted once checkout has an address and a chosen method.
+  // All-digital carts are delivered as keys and never pay for shipping.
+  const requiresShipping = cartItems.some(item => item.product.isPhysical);
+  let shippingAmount = 0;
+  if (requiresShipping && req.query.shippingMethod && req.query.country) {
+    const shippingOptions = await getShippingOptions({
+      address: { country: req.query.country, state: req.query.state },
+      lines: cartItems.map(toShippingLine)
+    });
+    const shippingOption = shippingOptions.find(option => option.id === req.query.shippingMethod);
+    shippingAmount = shippingOption ? shippingOption.price : 0;
+  }
+
+  // An invalid code doesn't fail the summary; the reason is returned instead
+  let promotion = null;
+  let promotionError = null;
+  let itemDiscount = 0;
+  let shippingDiscount = 0;
+  if (req.query.promoCode && cartItems.length > 0) {
+    try {
+      const result = await evaluatePromotion({
+        code: req.query.promoCode,
+        userId: req.user.id,
+        lines: cartItems.map(toPromotionLine),
+        shippingAmount,
+        currency
+      });
+      itemDiscount = result.discountAmount;
+      shippingDiscount = result.shippingDiscount;
+      promotion = {
+        code: result.promotion.code,
+        description: result.promotion.description,
+        type: result.promotion.type
+      };
+    } catch (error) {
+      if (!(error instanceof AppError)) throw error;
+      promotionError = error.message;
+    }
+  }
+
+  // Tax needs the address too, so it is only quoted at checkout
+  const lineDiscounts = allocateDiscount(cartItems.map(item => item.priceAtAdd * item.quantity), itemDiscount);
+  const tax = await calculateTax({
+    address: req.query.country && { country: req.query.country, state: req.query.state, zipCode: req.query.zipCode },
+    lines: cartItems.map((item, index) => toTaxLine(item, lineDiscounts[index]))
+  });
+  const amounts = convertOrderAmounts({
+    items: cartItems.map((item, index) => ({
+      unitPrice: item.priceAtAdd,
+      quantity: item.quantity,
+      discountAmount: lineDiscounts[index],
+      taxAmount: tax.lines[index].taxAmount,
+      taxBreakdown: tax.lines[index].taxBreakdown
+    })),
+    shippingAmount,
+    shippingDiscount,
+    pricesIncludeTax: tax.pricesIncludeTax
+  }, currency);
+  if (promotion) {
+    promotion.discountAmount = amounts.discountAmount;
+  }
 
   res.json({
     success: true,
@@ -371,78 +434,165 @@ router.get('/summary', authenticate, requireBuyer, asyncHandler(async (req, res)
       items: processedItems,
       summary: {
         itemCount,
-        subtotal: parseFloat(subtotal.toFixed(2)),
-        shippingAmount: parseFloat(shippingAmount.toFixed(2)),
-        taxAmount: parseFloat(taxAmount.toFixed(2)),
-        total: parseFloat(total.toFixed(2)),
+        subtotal: amounts.subtotal,
+        shippingAmount: amounts.shippingAmount,
+        taxAmount: amounts.taxAmount,
+        pricesIncludeTax: tax.pricesIncludeTax,
+        discountAmount: amounts.discountAmount,
+        total: amounts.total,
+        currency: currency.code,
         totalWeight: parseFloat(totalWeight.toFixed(2)),
-        totalItems: cartItems.length
+        totalItems: cartItems.length,
+        requiresShipping
       },
+      promotion,
+      promotionError,
       unavailableItems,
       canProceed: unavailableItems.length === 0
     }
   });
 }));
 
-// Merge guest cart with user cart (after login)
-router.post('/merge', authenticate, requireBuyer, asyncHandler(async (req, res) => {
-  const { guestCartItems } = req.body;
+// Validation for guest cart payloads sent from the browser
+const guestCartValidation = [
+  body('items').isArray({ max: 100 }).withMessage('Cart items are required'),
+  body('items.*.productId').isUUID().withMessage('Valid product ID is required'),
+  body('items.*.quantity').isInt({ min: 1 }).withMessage('Quantity must be at least 1')
+];
+
+const guestProductAttributes = [
+  'id', 'name', 'slug', 'price', 'compareAtPrice', 'mainImage', 'images',
+  'stockQuantity', 'isDigital', 'isPhysical'
+];
+
+// Revalidate a guest cart against current prices and stock
+router.post('/validate', guestCartValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const { items } = req.body;
+
+  const products = await Product.findAll({
+    where: { id: items.map(item => item.productId), isActive: true },
+    attributes: guestProductAttributes
+  });
+  const productsById = new Map(products.map(product => [product.id, product]));
+
+  const validItems = [];
+  const issues = [];
+
+  for (const { productId, quantity } of items) {
+    const product = productsById.get(productId);
 
-  if (!guestCartItems || !Array.isArray(guestCartItems)) {
-    throw new AppError('Guest cart items are required', 400);
+    if (!product) {
+      issues.push({ productId, reason: 'unavailable', requestedQuantity: quantity });
+      continue;
+    }
+
+    if (product.stockQuantity === 0) {
+      issues.push({ productId, productName: product.name, reason: 'out_of_stock', requestedQuantity: quantity });
+      continue;
+    }
+
+    const availableQuantity = Math.min(quantity, product.stockQuantity);
+    if (availableQuantity < quantity) {
+      issues.push({
+        productId,
+        productName: product.name,
+        reason: 'quantity_reduced',
+        requestedQuantity: quantity,
+        quantity: availableQuantity
+      });
+    }
+
+    validItems.push({
+      productId,
+      quantity: availableQuantity,
+      price: parseFloat(product.price),
+      product
+    });
   }
 
+  res.json({
+    success: true,
+    data: {
+      items: validItems,
+      issues
+    }
+  });
+}));
+
+// Merge guest cart with user cart (after login)
+router.post('/merge', authenticate, requireBuyer, [
+  body('guestCartItems').isArray({ max: 100 }).withMessage('Guest cart items are required'),
+  body('guestCartItems.*.productId').isUUID().withMessage('Valid product ID is required'),
+  body('guestCartItems.*.quantity').isInt({ min: 1 }).withMessage('Quantity must be at least 1')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const { guestCartItems } = req.body;
+
   const mergedItems = [];
-  const errors = [];
+  const adjustedItems = [];
+  const failedItems = [];
 
-  for (const guestItem of guestCartItems) {
+  for (const { productId, quantity } of guestCartItems) {
     try {
-      const { productId, quantity } = guestItem;
-
-      // Check if product exists
       const product = await Product.findOne({
         where: { id: productId, isActive: true }
       });
 
       if (!product) {
-        errors.push(`Product ${productId} not found`);
+        failedItems.push({ productId, reason: 'unavailable', requestedQuantity: quantity });
+        continue;
+      }
+
+      if (product.stockQuantity === 0) {
+        failedItems.push({ productId, productName: product.name, reason: 'out_of_stock', requestedQuantity: quantity });
         continue;
       }
 
-      // Check if item already exists in user's cart
       const existingCartItem = await CartItem.findOne({
         where: { userId: req.user.id, productId }
       });
 
+      // Quantities from both carts are combined, capped at what is in stock
+      const requestedQuantity = (existingCartItem ? existingCartItem.quantity : 0) + quantity;
+      const mergedQuantity = Math.min(requestedQuantity, product.stockQuantity);
+
+      if (mergedQuantity < requestedQuantity) {
+        adjustedItems.push({
+          productId,
+          productName: product.name,
+          reason: 'quantity_reduced',
+          requestedQuantity,
+          quantity: mergedQuantity
+        });
+      }
+
       if (existingCartItem) {
-        // Update quantity
-        const newQuantity = existingCartItem.quantity + quantity;
-        if (product.stockQuantity >= newQuantity) {
-          await existingCartItem.update({
-            quantity: newQuantity,
-            priceAtAdd: product.price
-          });
-          mergedItems.push(existingCartItem);
-        } else {
-          errors.push(`Insufficient stock for ${product.name}`);
-        }
+        await existingCartItem.update({
+          quantity: mergedQuantity,
+          priceAtAdd: product.price
+        });
+        mergedItems.push(existingCartItem);
       } else {
-        // Create new cart item
-        if (product.stockQuantity >= quantity) {
-          const cartItem = await CartItem.create({
-            userId: req.user.id,
-            productId,
-            quantity,
-            priceAtAdd: product.price,
-            expiresAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
-          });
-          mergedItems.push(cartItem);
-        } else {
-          errors.push(`Insufficient stock for ${product.name}`);
-        }
+        const cartItem = await CartItem.create({
+          userId: req.user.id,
+          productId,
+          quantity: mergedQuantity,
+          priceAtAdd: product.price,
+          expiresAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
+        });
+        mergedItems.push(cartItem);
       }
     } catch (error) {
-      errors.push(`Failed to merge item: ${error.message}`);
+      failedItems.push({ productId, reason: 'error', requestedQuantity: quantity });
     }
   }
 
@@ -454,8 +604,9 @@ router.post('/merge', authenticate, requireBuyer, asyncHandler(async (req, res)
     description: `Merged ${mergedItems.length} guest cart items`,
     metadata: {
       mergedCount: mergedItems.length,
-      errorCount: errors.length,
-      errors: errors.slice(0, 5)
+      adjustedCount: adjustedItems.length,
+      failedCount: failedItems.length,
+      failedItems: failedItems.slice(0, 5)
     },
     ipAddress: req.ip,
     userAgent: req.get('User-Agent')
@@ -466,7 +617,8 @@ router.post('/merge', authenticate, requireBuyer, asyncHandler(async (req, res)
     message: `Merged ${mergedItems.length} items successfully`,
     data: {
       mergedItems,
-      errors
+      adjustedItems,
+      failedItems
     }
   });
 }));
@@ -4,6 +4,7 @@ const { authenticate, requireAdmin } = require('../middleware/auth');
 const { asyncHandler, AppError } = require('../middleware/errorHandler');
 const { logManualActivity } = require('../middleware/activityLogger');
 const { Category, Product } = require('../models');
+const { TAX_CLASSES } = require('../utils/taxEngine');
 const ExcelJS = require('exceljs');
 
 const router = express.Router();
@@ -13,7 +14,8 @@ const categoryValidation = [
   body('name').trim().isLength({ min: 2 }).withMessage('Category name must be at least 2 characters long'),
   body('description').optional().trim(),
   body('parentId').optional().isUUID().withMessage('Valid parent category ID is required'),
-  body('sortOrder').optional().isInt({ min: 0 }).withMessage('Sort order must be a non-negative integer')
+  body('sortOrder').optional().isInt({ min: 0 }).withMessage('Sort order must be a non-negative integer'),
+  body('taxClass').optional({ values: 'null' }).isIn(TAX_CLASSES).withMessage('Valid tax class is required')
 ];
 
 // Get all categories
@@ -94,7 +96,7 @@ router.post('/', authenticate, requireAdmin, categoryValidation, asyncHandler(as
     throw new AppError(errors.array()[0].msg, 400);
   }
 
-  const { name, description, parentId, sortOrder = 0 } = req.body;
+  const { name, description, parentId, sortOrder = 0, taxClass = null } = req.body;
 
   // Check if category already exists
   const existingCategory = await Category.findOne({ where: { name } });
@@ -127,7 +129,8 @@ router.post('/', authenticate, requireAdmin, categoryValidation, asyncHandler(as
     slug,
     description,
     parentId,
-    sortOrder
+    sortOrder,
+    taxClass
   });
 
   // Log activity
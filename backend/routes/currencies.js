@@ -0,0 +1,154 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const { authenticate, requireAdmin } = require('../middleware/auth');
+const { asyncHandler, AppError } = require('../middleware/errorHandler');
+const { logManualActivity } = require('../middleware/activityLogger');
+const { Currency } = require('../models');
+const { BASE_CURRENCY, getActiveCurrencies, toCurrencyJSON } = require('../utils/currency');
+
+const router = express.Router();
+
+const CURRENCY_FIELDS = ['code', 'name', 'exchangeRate', 'isActive', 'sortOrder'];
+
+// Validation schemas
+const currencyValidation = [
+  body('code')
+    .trim()
+    .toUpperCase()
+    .matches(/^[A-Z]{3}$/).withMessage('Currency code must be a 3-letter ISO code')
+    .custom(code => code !== BASE_CURRENCY).withMessage(`${BASE_CURRENCY} is the base currency and always has a rate of 1`),
+  body('name').trim().notEmpty().withMessage('Currency name is required'),
+  body('exchangeRate').isFloat({ gt: 0 }).withMessage('Exchange rate must be greater than 0'),
+  body('isActive').optional().isBoolean(),
+  body('sortOrder').optional().isInt().withMessage('Sort order must be a whole number')
+];
+
+const pickCurrencyFields = (source) => CURRENCY_FIELDS.reduce((picked, key) => {
+  if (source[key] !== undefined) {
+    picked[key] = source[key];
+  }
+  return picked;
+}, {});
+
+// Get the currencies shoppers can pay in
+router.get('/', asyncHandler(async (req, res) => {
+  res.json({
+    success: true,
+    data: {
+      baseCurrency: BASE_CURRENCY,
+      currencies: await getActiveCurrencies()
+    }
+  });
+}));
+
+// Get every currency, including inactive ones (Admin only)
+router.get('/admin/all', authenticate, requireAdmin, asyncHandler(async (req, res) => {
+  const currencies = await Currency.findAll({
+    order: [['sortOrder', 'ASC'], ['code', 'ASC']]
+  });
+
+  res.json({
+    success: true,
+    data: {
+      baseCurrency: BASE_CURRENCY,
+      currencies: currencies.map(currency => ({ ...currency.toJSON(), ...toCurrencyJSON(currency) }))
+    }
+  });
+}));
+
+// Create currency (Admin only)
+router.post('/', authenticate, requireAdmin, currencyValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const existing = await Currency.findOne({ where: { code: req.body.code } });
+  if (existing) {
+    throw new AppError(`${req.body.code} has already been added`, 400);
+  }
+
+  const currency = await Currency.create(pickCurrencyFields(req.body));
+
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'currency.create',
+    entityType: 'currency',
+    entityId: currency.id,
+    description: `Added currency ${currency.code} at ${currency.exchangeRate}`,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.status(201).json({
+    success: true,
+    message: 'Currency created successfully',
+    data: { currency }
+  });
+}));
+
+// Update currency (Admin only). Orders keep the rate they were placed at.
+router.put('/:id', authenticate, requireAdmin, currencyValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const currency = await Currency.findByPk(req.params.id);
+  if (!currency) {
+    throw new AppError('Currency not found', 404);
+  }
+
+  const duplicate = await Currency.findOne({ where: { code: req.body.code } });
+  if (duplicate && duplicate.id !== currency.id) {
+    throw new AppError(`${req.body.code} has already been added`, 400);
+  }
+
+  const oldValues = currency.toJSON();
+  await currency.update(pickCurrencyFields(req.body));
+
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'currency.update',
+    entityType: 'currency',
+    entityId: currency.id,
+    description: `Updated currency ${currency.code}`,
+    oldValues,
+    newValues: currency.toJSON(),
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.json({
+    success: true,
+    message: 'Currency updated successfully',
+    data: { currency }
+  });
+}));
+
+// Delete currency (Admin only)
+router.delete('/:id', authenticate, requireAdmin, asyncHandler(async (req, res) => {
+  const currency = await Currency.findByPk(req.params.id);
+  if (!currency) {
+    throw new AppError('Currency not found', 404);
+  }
+
+  await currency.destroy();
+
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'currency.delete',
+    entityType: 'currency',
+    entityId: currency.id,
+    description: `Deleted currency ${currency.code}`,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.json({
+    success: true,
+    message: 'Currency deleted successfully'
+  });
+}));
+
+module.exports = router;
@@ -1,19 +1,40 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
+const { body, query, validationResult } = require('express-validator');
 const { authenticate, requireBuyer, requireAdmin } = require('../middleware/auth');
 const { asyncHandler, AppError } = require('../middleware/errorHandler');
 const { logManualActivity } = require('../middleware/activityLogger');
-const { Order, OrderItem, CartItem, Product, User, OrderStatusHistory } = require('../models');
+const { Order, OrderItem, CartItem, Product, User, OrderStatusHistory, Refund, Shipment, Invoice, ActivityLog } = require('../models');
 const { Op } = require('sequelize');
+const { toShippingLine, getShippingOptions, getShippingOption } = require('../utils/shippingRates');
+const { toPromotionLine, evaluatePromotion, allocateDiscount, redeemPromotion } = require('../utils/promotionEngine');
+const { toTaxLine, calculateTax } = require('../utils/taxEngine');
+const { getCurrency, convertOrderAmounts, roundToCurrency, baseAmountSql } = require('../utils/currency');
+const { getOrderKeys } = require('../utils/digitalKeys');
+const { handleOrderPaid, markOrderPaid, sendOrderConfirmation } = require('../utils/orderFulfillment');
+const { getRefundSummary, cancelOrder } = require('../utils/refunds');
+const { ORDER_STATUS_TRANSITIONS, ADMIN_STATUSES, canTransition, transitionOrderStatus } = require('../utils/orderStatus');
+const { getShippingSummary, createShipment } = require('../utils/shipments');
+const { normalizeAddress, toOrderAddress } = require('../utils/addresses');
+const {
+  loadOrdersForDocuments,
+  renderInvoicesPdf,
+  renderPackingSlipsPdf,
+  isInvoiceable,
+  hasItemsToPack
+} = require('../utils/invoice');
 const stripe = require('stripe')(process.env.STRIPE_SECRET_KEY);
 
 const router = express.Router();
 
 // Validation schemas
 const orderValidation = [
-  body('shippingAddress').isObject().withMessage('Shipping address is required'),
+  // Required unless every item is digital, checked against the cart below
+  body('shippingAddress').optional({ values: 'null' }).isObject().withMessage('Shipping address is required'),
   body('billingAddress').isObject().withMessage('Billing address is required'),
   body('paymentMethod').isIn(['stripe', 'paypal', 'cash_on_delivery']).withMessage('Valid payment method is required'),
+  body('shippingMethod').optional({ values: 'falsy' }).isUUID().withMessage('Valid shipping method is required'),
+  body('promotionCode').optional({ values: 'falsy' }).isString().trim(),
+  body('currency').optional({ values: 'falsy' }).isString().trim().toUpperCase(),
   body('notes').optional().isString()
 ];
 
@@ -63,6 +84,53 @@ router.get('/', authenticate, requireBuyer, asyncHandler(async (req, res) => {
   });
 }));
 
+// Get the shipping methods that can deliver the selected cart items to an address
+router.get('/shipping-methods', authenticate, requireBuyer, [
+  query('country').trim().notEmpty().withMessage('Country is required'),
+  query('state').optional().trim()
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const cartItems = await CartItem.findAll({
+    where: {
+      userId: req.user.id,
+      isSelected: true
+    },
+    include: [
+      {
+        model: Product,
+        as: 'product',
+        where: { isActive: true },
+        attributes: ['id', 'isPhysical', 'weight', 'dimensions']
+      }
+    ]
+  });
+
+  const shippingMethods = await getShippingOptions({
+    address: { country: req.query.country, state: req.query.state },
+    lines: cartItems.map(toShippingLine)
+  });
+
+  res.json({
+    success: true,
+    data: { shippingMethods }
+  });
+}));
+
+// Get the order status transition graph
+router.get('/status-transitions', authenticate, asyncHandler(async (req, res) => {
+  res.json({
+    success: true,
+    data: {
+      transitions: ORDER_STATUS_TRANSITIONS,
+      adminStatuses: ADMIN_STATUSES
+    }
+  });
+}));
+
 // Get single order
 router.get('/:id', authenticate, requireBuyer, asyncHandler(async (req, res) => {
   const { id } = req.params;
@@ -84,9 +152,11 @@ router.get('/:id', authenticate, requireBuyer, asyncHandler(async (req, res) =>
       {
         model: OrderStatusHistory,
         as: 'statusHistory',
-        order: [['createdAt', 'DESC']]
+        attributes: ['id', 'fromStatus', 'toStatus', 'reason', 'isSystemGenerated', 'createdAt']
       }
-    ]
+    ],
+    // Oldest first, so the history reads as a timeline
+    order: [[{ model: OrderStatusHistory, as: 'statusHistory' }, 'createdAt', 'ASC']]
   });
 
   if (!order) {
@@ -99,6 +169,50 @@ router.get('/:id', authenticate, requireBuyer, asyncHandler(async (req, res) =>
   });
 }));
 
+// Send a rendered PDF as a download
+const sendPdf = (res, filename, pdf) => {
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.send(pdf);
+};
+
+// Download the invoice for a paid order
+router.get('/:id/invoice', authenticate, requireBuyer, asyncHandler(async (req, res) => {
+  const order = await Order.findOne({
+    where: { id: req.params.id, userId: req.user.id }
+  });
+
+  if (!order) {
+    throw new AppError('Order not found', 404);
+  }
+
+  if (!isInvoiceable(order)) {
+    throw new AppError('An invoice is available once the order has been paid', 400);
+  }
+
+  const pdf = await renderInvoicesPdf(await loadOrdersForDocuments([order.id]));
+  sendPdf(res, `invoice-${order.orderNumber}.pdf`, pdf);
+}));
+
+// Get the digital keys delivered for an order
+router.get('/:id/keys', authenticate, requireBuyer, asyncHandler(async (req, res) => {
+  const order = await Order.findOne({
+    where: { id: req.params.id, userId: req.user.id }
+  });
+
+  if (!order) {
+    throw new AppError('Order not found', 404);
+  }
+
+  // Keys are only handed out once the order has been paid
+  const digitalKeys = ['paid', 'partially_refunded'].includes(order.paymentStatus) ? await getOrderKeys(order.id) : [];
+
+  res.json({
+    success: true,
+    data: { digitalKeys }
+  });
+}));
+
 // Create order (checkout)
 router.post('/', authenticate, requireBuyer, orderValidation, asyncHandler(async (req, res) => {
   const errors = validationResult(req);
@@ -106,7 +220,19 @@ router.post('/', authenticate, requireBuyer, orderValidation, asyncHandler(async
     throw new AppError(errors.array()[0].msg, 400);
   }
 
-  const { shippingAddress, billingAddress, paymentMethod, notes } = req.body;
+  const {
+    paymentMethod,
+    notes,
+    promotionCode,
+    shippingMethod
+  } = req.body;
+
+  // Rates, tax and the carrier all see the postal code in its country's format
+  const shippingAddress = req.body.shippingAddress ? normalizeAddress(toOrderAddress(req.body.shippingAddress)) : null;
+  const billingAddress = normalizeAddress(toOrderAddress(req.body.billingAddress));
+
+  // Prices are worked out in the base currency, then recorded and charged in this one
+  const currency = await getCurrency(req.body.currency);
 
   // Get cart items
   const cartItems = await CartItem.findAll({
@@ -127,8 +253,7 @@ router.post('/', authenticate, requireBuyer, orderValidation, asyncHandler(async
     throw new AppError('No items in cart to checkout', 400);
   }
 
-  // Validate stock and calculate totals
-  let subtotal = 0;
+  // Validate stock and build the order lines
   const orderItems = [];
   const unavailableItems = [];
 
@@ -143,19 +268,17 @@ router.post('/', authenticate, requireBuyer, orderValidation, asyncHandler(async
         availableQuantity: product.stockQuantity
       });
     } else {
-      const itemTotal = cartItem.priceAtAdd * quantity;
-      subtotal += itemTotal;
-      
       orderItems.push({
         productId: product.id,
         quantity,
         unitPrice: cartItem.priceAtAdd,
-        totalPrice: itemTotal,
+        totalPrice: cartItem.priceAtAdd * quantity,
         productSnapshot: {
           name: product.name,
           price: product.price,
           sku: product.sku,
-          mainImage: product.mainImage
+          mainImage: product.mainImage,
+          isPhysical: product.isPhysical
         }
       });
     }
@@ -165,10 +288,53 @@ router.post('/', authenticate, requireBuyer, orderValidation, asyncHandler(async
     throw new AppError('Some items are out of stock', 400);
   }
 
-  // Calculate totals
-  const taxAmount = subtotal * 0.1; // 10% tax
-  const shippingAmount = 10; // Fixed shipping cost
-  const total = subtotal + taxAmount + shippingAmount;
+  // All-digital orders are delivered as keys, so there is nothing to ship
+  const requiresShipping = cartItems.some(cartItem => cartItem.product.isPhysical);
+  if (requiresShipping && !shippingAddress) {
+    throw new AppError('Shipping address is required', 400);
+  }
+  if (requiresShipping && !shippingMethod) {
+    throw new AppError('Shipping method is required', 400);
+  }
+
+  // Calculate totals, re-quoting shipping in case the rates changed since checkout started
+  const shippingOption = requiresShipping
+    ? await getShippingOption(shippingMethod, { address: shippingAddress, lines: cartItems.map(toShippingLine) })
+    : null;
+  const shippingAmount = shippingOption ? shippingOption.price : 0;
+
+  // Re-validate the promotion against the cart actually being ordered
+  let promotionResult = null;
+  if (promotionCode) {
+    promotionResult = await evaluatePromotion({
+      code: promotionCode,
+      userId: req.user.id,
+      lines: cartItems.map(toPromotionLine),
+      shippingAmount,
+      currency
+    });
+  }
+  const itemDiscount = promotionResult ? promotionResult.discountAmount : 0;
+  const discountAmount = promotionResult ? itemDiscount + promotionResult.shippingDiscount : 0;
+
+  // Spread the item discount and tax over the lines so invoices can break them down.
+  // Digital orders have nowhere to ship, so they are taxed where they are billed.
+  const lineDiscounts = allocateDiscount(orderItems.map(item => item.totalPrice), itemDiscount);
+  const tax = await calculateTax({
+    address: requiresShipping ? shippingAddress : billingAddress,
+    lines: cartItems.map((cartItem, index) => toTaxLine(cartItem, lineDiscounts[index]))
+  });
+  orderItems.forEach((item, index) => {
+    item.discountAmount = lineDiscounts[index];
+    item.taxAmount = tax.lines[index].taxAmount;
+    item.taxBreakdown = tax.lines[index].taxBreakdown;
+  });
+  const amounts = convertOrderAmounts({
+    items: orderItems,
+    shippingAmount,
+    shippingDiscount: promotionResult ? promotionResult.shippingDiscount : 0,
+    pricesIncludeTax: tax.pricesIncludeTax
+  }, currency);
 
   // Generate order number
   const orderNumber = `ORD-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
@@ -180,20 +346,44 @@ router.post('/', authenticate, requireBuyer, orderValidation, asyncHandler(async
     status: 'pending',
     paymentStatus: 'pending',
     paymentMethod,
-    subtotal,
-    taxAmount,
-    shippingAmount,
-    total,
-    shippingAddress,
+    subtotal: amounts.subtotal,
+    taxAmount: amounts.taxAmount,
+    pricesIncludeTax: tax.pricesIncludeTax,
+    shippingAmount: amounts.shippingAmount,
+    discountAmount: amounts.discountAmount,
+    total: amounts.total,
+    currency: currency.code,
+    exchangeRate: currency.exchangeRate,
+    promotionId: promotionResult ? promotionResult.promotion.id : null,
+    promotionCode: promotionResult ? promotionResult.promotion.code : null,
+    shippingAddress: requiresShipping ? shippingAddress : null,
     billingAddress,
+    // The method's name, so the order still reads right if the rate changes
+    shippingMethod: shippingOption ? shippingOption.name : null,
     notes,
     customerEmail: req.user.email,
     customerPhone: req.user.phone
   });
 
+  if (promotionResult) {
+    try {
+      await redeemPromotion({
+        promotion: promotionResult.promotion,
+        userId: req.user.id,
+        orderId: order.id,
+        // Promotion budgets are kept in the base currency
+        discountAmount
+      });
+    } catch (error) {
+      // Someone else used up the promotion between validation and now
+      await order.destroy();
+      throw error;
+    }
+  }
+
   // Create order items
   await OrderItem.bulkCreate(
-    orderItems.map(item => ({
+    amounts.items.map(item => ({
       ...item,
       orderId: order.id
     }))
@@ -258,40 +448,37 @@ router.post('/:id/pay', authenticate, requireBuyer, [
     throw new AppError('Order is already paid', 400);
   }
 
+  // A payment that still lands is refunded by the webhook
+  if (order.status === 'cancelled') {
+    throw new AppError('This order has been cancelled', 400);
+  }
+
   try {
     // Verify payment intent with Stripe
     const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
     
     if (paymentIntent.status === 'succeeded') {
-      // Update order
-      await order.update({
-        paymentStatus: 'paid',
-        stripePaymentIntentId: paymentIntentId,
-        stripeChargeId: paymentIntent.latest_charge,
-        status: 'confirmed',
-        confirmedAt: new Date()
-      });
-
-      // Create status history
-      await OrderStatusHistory.create({
-        orderId: order.id,
-        userId: req.user.id,
-        fromStatus: 'pending',
-        toStatus: 'confirmed',
-        reason: 'Payment successful',
-        isSystemGenerated: true
-      });
-
-      // Log activity
-      await logManualActivity({
-        userId: req.user.id,
-        action: 'payment.process',
-        entityType: 'payment',
-        entityId: order.id,
-        description: `Payment processed for order ${order.orderNumber}`,
-        ipAddress: req.ip,
-        userAgent: req.get('User-Agent')
-      });
+      // The webhook may have recorded the payment first, and fulfilled the order
+      if (await markOrderPaid(order, paymentIntent)) {
+        await transitionOrderStatus(order, 'confirmed', {
+          userId: req.user.id,
+          reason: 'Payment successful',
+          isSystemGenerated: true
+        });
+
+        await handleOrderPaid(order);
+
+        // Log activity
+        await logManualActivity({
+          userId: req.user.id,
+          action: 'payment.process',
+          entityType: 'payment',
+          entityId: order.id,
+          description: `Payment processed for order ${order.orderNumber}`,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        });
+      }
 
       res.json({
         success: true,
@@ -303,20 +490,15 @@ router.post('/:id/pay', authenticate, requireBuyer, [
     }
   } catch (error) {
     // Update order status to failed
-    await order.update({
-      paymentStatus: 'failed',
-      status: 'failed'
-    });
+    await order.update({ paymentStatus: 'failed' });
 
-    // Create status history
-    await OrderStatusHistory.create({
-      orderId: order.id,
-      userId: req.user.id,
-      fromStatus: 'pending',
-      toStatus: 'failed',
-      reason: 'Payment failed',
-      isSystemGenerated: true
-    });
+    if (canTransition(order.status, 'failed')) {
+      await transitionOrderStatus(order, 'failed', {
+        userId: req.user.id,
+        reason: 'Payment failed',
+        isSystemGenerated: true
+      });
+    }
 
     throw new AppError('Payment processing failed', 400);
   }
@@ -330,11 +512,52 @@ router.post('/:id/cancel', authenticate, requireBuyer, [
   const { reason } = req.body;
 
   const order = await Order.findOne({
-    where: { id, userId: req.user.id },
+    where: { id, userId: req.user.id }
+  });
+
+  if (!order) {
+    throw new AppError('Order not found', 404);
+  }
+
+  if (!order.canBeCancelled()) {
+    throw new AppError('Order cannot be cancelled at this stage', 400);
+  }
+
+  await cancelOrder(order, {
+    userId: req.user.id,
+    reason: reason || 'Cancelled by customer',
+    source: 'customer'
+  });
+
+  // Log activity
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'order.cancel',
+    entityType: 'order',
+    entityId: order.id,
+    description: `Cancelled order ${order.orderNumber}`,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.json({
+    success: true,
+    message: 'Order cancelled successfully',
+    data: { order }
+  });
+}));
+
+// Hand an unpaid checkout order back to the cart, so changing the address,
+// delivery, promo code or currency starts a fresh order instead of leaving
+// this one holding stock and the promotion
+router.post('/:id/reopen', authenticate, requireBuyer, asyncHandler(async (req, res) => {
+  const order = await Order.findOne({
+    where: { id: req.params.id, userId: req.user.id },
     include: [
       {
         model: OrderItem,
-        as: 'items'
+        as: 'items',
+        include: [{ model: Product, as: 'product' }]
       }
     ]
   });
@@ -343,60 +566,64 @@ router.post('/:id/cancel', authenticate, requireBuyer, [
     throw new AppError('Order not found', 404);
   }
 
-  if (!order.canBeCancelled()) {
-    throw new AppError('Order cannot be cancelled at this stage', 400);
+  if (!['pending', 'failed'].includes(order.status) || order.paymentStatus === 'paid') {
+    throw new AppError('Only unpaid orders can be changed', 400);
   }
 
-  // Update order status
-  await order.update({
-    status: 'cancelled',
-    cancelledAt: new Date(),
-    cancelReason: reason
+  // Puts the stock back, frees the promotion and cancels the payment intent
+  await cancelOrder(order, {
+    userId: req.user.id,
+    reason: 'Checkout changed by customer',
+    isSystemGenerated: true,
+    source: 'customer'
   });
 
-  // Restore product stock
   for (const item of order.items) {
-    await Product.increment('stockQuantity', { 
-      by: item.quantity,
-      where: { id: item.productId }
-    });
-    await Product.decrement('soldCount', { 
-      by: item.quantity,
-      where: { id: item.productId }
+    if (!item.product || !item.product.isActive) {
+      continue;
+    }
+
+    const existingCartItem = await CartItem.findOne({
+      where: { userId: req.user.id, productId: item.productId }
     });
-  }
 
-  // Create status history
-  await OrderStatusHistory.create({
-    orderId: order.id,
-    userId: req.user.id,
-    fromStatus: order.status,
-    toStatus: 'cancelled',
-    reason: reason || 'Cancelled by customer',
-    isSystemGenerated: false
-  });
+    if (existingCartItem) {
+      await existingCartItem.update({
+        quantity: existingCartItem.quantity + item.quantity,
+        priceAtAdd: item.product.price
+      });
+    } else {
+      await CartItem.create({
+        userId: req.user.id,
+        productId: item.productId,
+        quantity: item.quantity,
+        priceAtAdd: item.product.price,
+        expiresAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
+      });
+    }
+  }
 
   // Log activity
   await logManualActivity({
     userId: req.user.id,
-    action: 'order.cancel',
+    action: 'order.reopen',
     entityType: 'order',
     entityId: order.id,
-    description: `Cancelled order ${order.orderNumber}`,
+    description: `Returned order ${order.orderNumber} to the cart`,
     ipAddress: req.ip,
     userAgent: req.get('User-Agent')
   });
 
   res.json({
     success: true,
-    message: 'Order cancelled successfully',
+    message: 'Order returned to cart',
     data: { order }
   });
 }));
 
 // Admin: Update order status
 router.put('/:id/status', authenticate, requireAdmin, [
-  body('status').isIn(['pending', 'confirmed', 'processing', 'shipped', 'delivered', 'cancelled']).withMessage('Valid status is required'),
+  body('status').isIn(ADMIN_STATUSES).withMessage('Valid status is required'),
   body('notes').optional().isString().withMessage('Notes must be a string'),
   body('trackingNumber').optional().isString().withMessage('Tracking number must be a string'),
   body('trackingUrl').optional().isURL().withMessage('Valid tracking URL is required')
@@ -415,38 +642,22 @@ router.put('/:id/status', authenticate, requireAdmin, [
   }
 
   const oldStatus = order.status;
-  const updateData = { status };
-
-  // Set status-specific timestamps
-  switch (status) {
-    case 'confirmed':
-      updateData.confirmedAt = new Date();
-      break;
-    case 'processing':
-      updateData.processedAt = new Date();
-      break;
-    case 'shipped':
-      updateData.shippedAt = new Date();
-      updateData.trackingNumber = trackingNumber;
-      updateData.trackingUrl = trackingUrl;
-      break;
-    case 'delivered':
-      updateData.deliveredAt = new Date();
-      break;
-  }
-
-  // Update order
-  await order.update(updateData);
-
-  // Create status history
-  await OrderStatusHistory.create({
-    orderId: order.id,
-    userId: req.user.id,
-    fromStatus: oldStatus,
-    toStatus: status,
-    reason: notes,
-    isSystemGenerated: false
-  });
+
+  if (status === 'cancelled') {
+    await cancelOrder(order, {
+      userId: req.user.id,
+      reason: notes || 'Cancelled by staff',
+      notes,
+      source: 'admin'
+    });
+  } else {
+    await transitionOrderStatus(order, status, {
+      userId: req.user.id,
+      notes,
+      trackingNumber,
+      trackingUrl
+    });
+  }
 
   // Log activity
   await logManualActivity({
@@ -468,11 +679,11 @@ router.put('/:id/status', authenticate, requireAdmin, [
   });
 }));
 
-// Admin: Get all orders
-router.get('/admin/all', authenticate, requireAdmin, asyncHandler(async (req, res) => {
-  const { page = 1, limit = 20, status, paymentStatus, search } = req.query;
-  const offset = (page - 1) * limit;
+// Columns the admin order table can sort by
+const ORDER_SORT_FIELDS = ['createdAt', 'orderNumber', 'customerEmail', 'total', 'status', 'paymentStatus'];
 
+// Turn the admin order table's filters into a where clause
+const buildAdminOrderFilters = ({ status, paymentStatus, search, dateFrom, dateTo, minTotal, maxTotal }) => {
   const whereClause = {};
   if (status) whereClause.status = status;
   if (paymentStatus) whereClause.paymentStatus = paymentStatus;
@@ -482,9 +693,40 @@ router.get('/admin/all', authenticate, requireAdmin, asyncHandler(async (req, re
       { customerEmail: { [Op.iLike]: `%${search}%` } }
     ];
   }
+  if (dateFrom || dateTo) {
+    whereClause.createdAt = {};
+    if (dateFrom) whereClause.createdAt[Op.gte] = new Date(dateFrom);
+    // Dates are whole days, so the end date is included
+    if (dateTo) whereClause.createdAt[Op.lt] = new Date(new Date(dateTo).getTime() + 24 * 60 * 60 * 1000);
+  }
+  if (minTotal || maxTotal) {
+    whereClause.total = {};
+    if (minTotal) whereClause.total[Op.gte] = parseFloat(minTotal);
+    if (maxTotal) whereClause.total[Op.lte] = parseFloat(maxTotal);
+  }
+  return whereClause;
+};
+
+// Admin: Get all orders
+router.get('/admin/all', authenticate, requireAdmin, [
+  query('sortBy').optional().isIn(ORDER_SORT_FIELDS).withMessage('Invalid sort column'),
+  query('sortOrder').optional().isIn(['asc', 'desc']).withMessage('Sort order must be asc or desc'),
+  query('dateFrom').optional({ values: 'falsy' }).isISO8601().withMessage('Valid start date is required'),
+  query('dateTo').optional({ values: 'falsy' }).isISO8601().withMessage('Valid end date is required'),
+  query('minTotal').optional({ values: 'falsy' }).isFloat({ min: 0 }).withMessage('Minimum total must be a positive number'),
+  query('maxTotal').optional({ values: 'falsy' }).isFloat({ min: 0 }).withMessage('Maximum total must be a positive number')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const { page = 1, sortBy = 'createdAt', sortOrder = 'desc' } = req.query;
+  const limit = Math.min(parseInt(req.query.limit) || 20, 100);
+  const offset = (page - 1) * limit;
 
   const { count, rows: orders } = await Order.findAndCountAll({
-    where: whereClause,
+    where: buildAdminOrderFilters(req.query),
     include: [
       {
         model: User,
@@ -494,11 +736,13 @@ router.get('/admin/all', authenticate, requireAdmin, asyncHandler(async (req, re
       {
         model: OrderItem,
         as: 'items',
-        attributes: ['quantity', 'unitPrice', 'totalPrice']
+        attributes: ['id', 'productSnapshot', 'quantity', 'unitPrice', 'totalPrice']
       }
     ],
-    order: [['createdAt', 'DESC']],
-    limit: parseInt(limit),
+    // Otherwise each item is counted as an order
+    distinct: true,
+    order: [[sortBy, sortOrder.toUpperCase()]],
+    limit,
     offset: parseInt(offset)
   });
 
@@ -512,12 +756,212 @@ router.get('/admin/all', authenticate, requireAdmin, asyncHandler(async (req, re
         currentPage: parseInt(page),
         totalPages,
         totalItems: count,
-        itemsPerPage: parseInt(limit)
+        itemsPerPage: limit
+      }
+    }
+  });
+}));
+
+// Admin: Move several orders to the same status
+router.put('/admin/bulk-status', authenticate, requireAdmin, [
+  body('orderIds').isArray({ min: 1, max: 200 }).withMessage('Between 1 and 200 orders must be selected'),
+  body('orderIds.*').isUUID().withMessage('Order IDs must be valid'),
+  // Shipping needs a tracking number per order, so it stays a one-by-one action
+  body('status').isIn(ADMIN_STATUSES.filter(status => status !== 'shipped')).withMessage('Valid status is required'),
+  body('notes').optional().isString().withMessage('Notes must be a string')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const { orderIds, status, notes } = req.body;
+  const orders = await Order.findAll({ where: { id: [...new Set(orderIds)] } });
+
+  // Orders that can't make the move are reported rather than failing the batch
+  const updated = [];
+  const failed = [];
+  for (const order of orders) {
+    try {
+      if (status === 'cancelled') {
+        await cancelOrder(order, { userId: req.user.id, reason: notes || 'Cancelled by staff', notes, source: 'admin' });
+      } else {
+        await transitionOrderStatus(order, status, { userId: req.user.id, notes });
       }
+      updated.push(order.id);
+    } catch (error) {
+      if (!(error instanceof AppError)) throw error;
+      failed.push({ orderId: order.id, orderNumber: order.orderNumber, message: error.message });
     }
+  }
+
+  if (updated.length > 0) {
+    await logManualActivity({
+      userId: req.user.id,
+      action: 'order.bulk.status',
+      entityType: 'order',
+      description: `Moved ${updated.length} order${updated.length === 1 ? '' : 's'} to ${status}`,
+      metadata: { status, orderIds: updated, failed },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+  }
+
+  res.json({
+    success: true,
+    message: `${updated.length} of ${orders.length} order${orders.length === 1 ? '' : 's'} updated`,
+    data: { updated, failed }
   });
 }));
 
+// Admin: Export orders as CSV
+router.post('/admin/export', authenticate, requireAdmin, [
+  body('orderIds').isArray({ min: 1, max: 1000 }).withMessage('Between 1 and 1000 orders must be selected'),
+  body('orderIds.*').isUUID().withMessage('Order IDs must be valid')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const orders = await Order.findAll({
+    where: { id: [...new Set(req.body.orderIds)] },
+    include: [
+      {
+        model: User,
+        as: 'user',
+        attributes: ['firstName', 'lastName']
+      },
+      {
+        model: OrderItem,
+        as: 'items',
+        attributes: ['quantity']
+      }
+    ],
+    order: [['createdAt', 'DESC']]
+  });
+
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'order.export',
+    entityType: 'order',
+    description: `Exported ${orders.length} order${orders.length === 1 ? '' : 's'} to CSV`,
+    metadata: { orderIds: orders.map(order => order.id) },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.setHeader('Content-Type', 'text/csv');
+  res.setHeader('Content-Disposition', `attachment; filename="orders-${Date.now()}.csv"`);
+  res.send(ordersToCSV(orders));
+}));
+
+// Admin: Get the refunds on an order and what is left to refund
+router.get('/admin/:id/refunds', authenticate, requireAdmin, asyncHandler(async (req, res) => {
+  const order = await Order.findByPk(req.params.id, {
+    include: [
+      {
+        model: OrderItem,
+        as: 'items'
+      },
+      {
+        model: Refund,
+        as: 'refunds',
+        include: [
+          {
+            model: User,
+            as: 'creator',
+            attributes: ['id', 'firstName', 'lastName']
+          }
+        ]
+      }
+    ],
+    order: [[{ model: Refund, as: 'refunds' }, 'createdAt', 'ASC']]
+  });
+
+  if (!order) {
+    throw new AppError('Order not found', 404);
+  }
+
+  res.json({
+    success: true,
+    data: {
+      refunds: order.refunds,
+      summary: getRefundSummary(order)
+    }
+  });
+}));
+
+// Admin: Download the invoice for an order
+router.get('/admin/:id/invoice', authenticate, requireAdmin, asyncHandler(async (req, res) => {
+  const [order] = await loadOrdersForDocuments([req.params.id]);
+
+  if (!order) {
+    throw new AppError('Order not found', 404);
+  }
+
+  if (!isInvoiceable(order)) {
+    throw new AppError('Only paid orders can be invoiced', 400);
+  }
+
+  sendPdf(res, `invoice-${order.orderNumber}.pdf`, await renderInvoicesPdf([order]));
+}));
+
+// Admin: Download the packing slip for an order
+router.get('/admin/:id/packing-slip', authenticate, requireAdmin, asyncHandler(async (req, res) => {
+  const [order] = await loadOrdersForDocuments([req.params.id]);
+
+  if (!order) {
+    throw new AppError('Order not found', 404);
+  }
+
+  if (!hasItemsToPack(order)) {
+    throw new AppError('This order has no items to ship', 400);
+  }
+
+  sendPdf(res, `packing-slip-${order.orderNumber}.pdf`, await renderPackingSlipsPdf([order]));
+}));
+
+// Admin: Print invoices or packing slips for a selection of orders as one PDF
+router.post('/admin/documents', authenticate, requireAdmin, [
+  body('orderIds').isArray({ min: 1, max: 200 }).withMessage('Between 1 and 200 orders must be selected'),
+  body('orderIds.*').isUUID().withMessage('Order IDs must be valid'),
+  body('type').isIn(['invoice', 'packing_slip']).withMessage('Document type must be invoice or packing_slip')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const { orderIds, type } = req.body;
+  const orders = await loadOrdersForDocuments([...new Set(orderIds)]);
+
+  // Orders without a document of this type are skipped rather than failing the batch
+  const printable = orders.filter(type === 'invoice' ? isInvoiceable : hasItemsToPack);
+  if (printable.length === 0) {
+    throw new AppError(
+      type === 'invoice' ? 'None of the selected orders have been paid' : 'None of the selected orders have items to ship',
+      400
+    );
+  }
+
+  const pdf = type === 'invoice'
+    ? await renderInvoicesPdf(printable)
+    : await renderPackingSlipsPdf(printable);
+
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'order.documents.print',
+    entityType: 'order',
+    description: `Printed ${printable.length} ${type === 'invoice' ? 'invoice' : 'packing slip'}${printable.length === 1 ? '' : 's'}`,
+    metadata: { type, orderIds: printable.map(order => order.id) },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  sendPdf(res, `${type === 'invoice' ? 'invoices' : 'packing-slips'}-${Date.now()}.pdf`, pdf);
+}));
+
 // Admin: Get order details
 router.get('/admin/:id', authenticate, requireAdmin, asyncHandler(async (req, res) => {
   const { id } = req.params;
@@ -549,9 +993,27 @@ router.get('/admin/:id', authenticate, requireAdmin, asyncHandler(async (req, re
             as: 'user',
             attributes: ['firstName', 'lastName']
           }
-        ],
-        order: [['createdAt', 'DESC']]
+        ]
+      },
+      {
+        model: Shipment,
+        as: 'shipments',
+        include: [
+          {
+            model: User,
+            as: 'creator',
+            attributes: ['firstName', 'lastName']
+          }
+        ]
+      },
+      {
+        model: Invoice,
+        as: 'invoice'
       }
+    ],
+    order: [
+      [{ model: OrderStatusHistory, as: 'statusHistory' }, 'createdAt', 'ASC'],
+      [{ model: Shipment, as: 'shipments' }, 'createdAt', 'ASC']
     ]
   });
 
@@ -559,12 +1021,197 @@ router.get('/admin/:id', authenticate, requireAdmin, asyncHandler(async (req, re
     throw new AppError('Order not found', 404);
   }
 
+  // Everything logged against the order: payments, refunds, returns, documents
+  const activityLogs = await ActivityLog.findAll({
+    where: { entityId: order.id },
+    include: [
+      {
+        model: User,
+        as: 'user',
+        attributes: ['firstName', 'lastName', 'email']
+      }
+    ],
+    order: [['createdAt', 'DESC']],
+    limit: 100
+  });
+
+  res.json({
+    success: true,
+    data: {
+      order,
+      activityLogs,
+      shipping: getShippingSummary(order)
+    }
+  });
+}));
+
+// Admin: Update tracking details
+router.put('/admin/:id/tracking', authenticate, requireAdmin, [
+  body('trackingNumber').isString().trim().notEmpty().withMessage('Tracking number is required'),
+  body('trackingUrl').optional({ values: 'falsy' }).isURL().withMessage('Valid tracking URL is required')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const { trackingNumber, trackingUrl } = req.body;
+
+  const order = await Order.findByPk(req.params.id);
+  if (!order) {
+    throw new AppError('Order not found', 404);
+  }
+
+  const oldValues = { trackingNumber: order.trackingNumber, trackingUrl: order.trackingUrl };
+  await order.update({ trackingNumber, trackingUrl: trackingUrl || null });
+
+  // Log activity
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'order.tracking.update',
+    entityType: 'order',
+    entityId: order.id,
+    description: `Updated tracking for order ${order.orderNumber}`,
+    oldValues,
+    newValues: { trackingNumber, trackingUrl: trackingUrl || null },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.json({
+    success: true,
+    message: 'Tracking details updated',
+    data: { order }
+  });
+}));
+
+// Admin: Update internal notes
+router.put('/admin/:id/notes', authenticate, requireAdmin, [
+  body('adminNotes').isString().isLength({ max: 5000 }).withMessage('Notes must be at most 5000 characters')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const order = await Order.findByPk(req.params.id);
+  if (!order) {
+    throw new AppError('Order not found', 404);
+  }
+
+  await order.update({ adminNotes: req.body.adminNotes.trim() || null });
+
+  // Log activity
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'order.notes.update',
+    entityType: 'order',
+    entityId: order.id,
+    description: `Updated notes on order ${order.orderNumber}`,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
   res.json({
     success: true,
+    message: 'Notes saved',
     data: { order }
   });
 }));
 
+// Admin: Resend the order confirmation email
+router.post('/admin/:id/resend-confirmation', authenticate, requireAdmin, asyncHandler(async (req, res) => {
+  const order = await Order.findByPk(req.params.id);
+  if (!order) {
+    throw new AppError('Order not found', 404);
+  }
+
+  if (order.paymentStatus === 'pending' || order.paymentStatus === 'failed') {
+    throw new AppError('Only paid orders have a confirmation to resend', 400);
+  }
+
+  try {
+    await sendOrderConfirmation(order, await getOrderKeys(order.id));
+  } catch (error) {
+    throw new AppError('Failed to send the confirmation email', 502);
+  }
+
+  // Log activity
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'order.confirmation.resend',
+    entityType: 'order',
+    entityId: order.id,
+    description: `Resent confirmation email for order ${order.orderNumber}`,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.json({
+    success: true,
+    message: 'Confirmation email sent'
+  });
+}));
+
+// Admin: Ship some or all of an order as one parcel
+router.post('/admin/:id/shipments', authenticate, requireAdmin, [
+  body('lines').optional().isArray({ min: 1 }).withMessage('Pick at least one item to ship'),
+  body('lines.*.orderItemId').isUUID().withMessage('Valid order item is required'),
+  body('lines.*.quantity').isInt({ min: 1 }).withMessage('Quantity must be at least 1'),
+  body('trackingNumber').isString().trim().notEmpty().withMessage('Tracking number is required'),
+  body('trackingUrl').optional({ values: 'falsy' }).isURL().withMessage('Valid tracking URL is required'),
+  body('notes').optional().isString().isLength({ max: 1000 })
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const { lines, trackingNumber, trackingUrl, notes } = req.body;
+
+  const order = await Order.findByPk(req.params.id, {
+    include: [
+      {
+        model: OrderItem,
+        as: 'items'
+      },
+      {
+        model: Shipment,
+        as: 'shipments'
+      }
+    ]
+  });
+  if (!order) {
+    throw new AppError('Order not found', 404);
+  }
+
+  const shipment = await createShipment(order, {
+    lines: lines && lines.map(line => ({ orderItemId: line.orderItemId, quantity: parseInt(line.quantity) })),
+    trackingNumber,
+    trackingUrl: trackingUrl || null,
+    notes: notes || null,
+    userId: req.user.id
+  });
+
+  // Log activity
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'order.shipment.create',
+    entityType: 'order',
+    entityId: order.id,
+    description: `Shipped ${shipment.lines.reduce((total, line) => total + line.quantity, 0)} item(s) from order ${order.orderNumber} with tracking ${trackingNumber}`,
+    metadata: { shipmentId: shipment.id, lines: shipment.lines },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.status(201).json({
+    success: true,
+    message: order.status === 'shipped' ? 'Order shipped' : 'Shipment created',
+    data: { shipment, order }
+  });
+}));
+
 // Get order statistics (Admin only)
 router.get('/admin/stats/overview', authenticate, requireAdmin, asyncHandler(async (req, res) => {
   const totalOrders = await Order.count();
@@ -578,12 +1225,13 @@ router.get('/admin/stats/overview', authenticate, requireAdmin, asyncHandler(asy
   const revenueResult = await Order.findOne({
     where: { paymentStatus: 'paid' },
     attributes: [
-      [require('sequelize').fn('SUM', require('sequelize').col('total')), 'totalRevenue']
+      // In the base currency, whatever each order was paid in
+      [require('sequelize').fn('SUM', baseAmountSql('total')), 'totalRevenue']
     ],
     raw: true
   });
 
-  const totalRevenue = parseFloat(revenueResult?.totalRevenue || 0);
+  const totalRevenue = roundToCurrency(parseFloat(revenueResult?.totalRevenue || 0));
 
   // Recent orders
   const recentOrders = await Order.findAll({
@@ -613,4 +1261,44 @@ router.get('/admin/stats/overview', authenticate, requireAdmin, asyncHandler(asy
   });
 }));
 
-module.exports = router; 
\ No newline at end of file
+// Helper function to convert orders to CSV
+function ordersToCSV(orders) {
+  const columns = [
+    ['Order Number', order => order.orderNumber],
+    ['Placed', order => order.createdAt.toISOString()],
+    ['Customer', order => order.user ? `${order.user.firstName} ${order.user.lastName}` : ''],
+    ['Email', order => order.customerEmail],
+    ['Status', order => order.status],
+    ['Payment Status', order => order.paymentStatus],
+    ['Payment Method', order => order.paymentMethod],
+    ['Items', order => order.items.reduce((total, item) => total + item.quantity, 0)],
+    ['Currency', order => order.currency],
+    ['Subtotal', order => order.subtotal],
+    ['Discount', order => order.discountAmount],
+    ['Shipping', order => order.shippingAmount],
+    ['Tax', order => order.taxAmount],
+    ['Total', order => order.total],
+    ['Refunded', order => order.refundedAmount],
+    ['Tracking Number', order => order.trackingNumber]
+  ];
+
+  const escape = (value) => {
+    if (value === null || value === undefined) return '';
+    let text = String(value);
+    // Names and addresses are typed by shoppers; spreadsheets would run ones
+    // starting like a formula. Negative amounts are still numbers.
+    if (/^[=+\-@\t\r]/.test(text) && Number.isNaN(Number(text))) {
+      text = `'${text}`;
+    }
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const csvRows = [columns.map(([header]) => header).join(',')];
+  for (const order of orders) {
+    csvRows.push(columns.map(([, getValue]) => escape(getValue(order))).join(','));
+  }
+
+  return csvRows.join('\n');
+}
+
+module.exports = router;
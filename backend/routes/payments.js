@@ -1,24 +1,98 @@
 const express = require('express');
 const { body, validationResult } = require('express-validator');
-const { authenticate, requireBuyer } = require('../middleware/auth');
+const { authenticate, requireBuyer, requireAdmin } = require('../middleware/auth');
 const { asyncHandler, AppError } = require('../middleware/errorHandler');
 const { logManualActivity } = require('../middleware/activityLogger');
-const { Order, User } = require('../models');
+const { Order, User, ReturnRequest, OrderItem, Refund } = require('../models');
+const { handleOrderPaid, markOrderPaid } = require('../utils/orderFulfillment');
+const {
+  REFUNDABLE_PAYMENT_STATUSES,
+  getUnitTaxAmount,
+  buildRefund,
+  syncOrderRefunds,
+  recordRefund,
+  refundOrderBalance
+} = require('../utils/refunds');
+const { canTransition, transitionOrderStatus } = require('../utils/orderStatus');
+const { roundToCurrency, toMinorUnits, fromMinorUnits, formatMoney } = require('../utils/currency');
 const stripe = require('stripe')(process.env.STRIPE_SECRET_KEY);
 
 const router = express.Router();
 
+// Cards expiring within this many days are flagged so the shopper can replace them
+const EXPIRING_SOON_DAYS = 60;
+
+// The user's Stripe customer, created the first time they pay or save a card
+const getOrCreateStripeCustomer = async (user) => {
+  if (user.stripeCustomerId) {
+    return user.stripeCustomerId;
+  }
+
+  const customer = await stripe.customers.create({
+    email: user.email,
+    name: `${user.firstName} ${user.lastName}`,
+    metadata: {
+      userId: user.id
+    }
+  });
+
+  await user.update({ stripeCustomerId: customer.id });
+  return customer.id;
+};
+
+// A saved card in the shape the storefront uses, with its expiry worked out
+const serializePaymentMethod = (paymentMethod, defaultPaymentMethodId) => {
+  const { card } = paymentMethod;
+  // Cards are valid through the last day of their expiry month
+  const expiresAt = card ? new Date(card.exp_year, card.exp_month, 1) : null;
+  const msUntilExpiry = expiresAt ? expiresAt.getTime() - Date.now() : Infinity;
+
+  return {
+    id: paymentMethod.id,
+    type: paymentMethod.type,
+    card: card ? {
+      brand: card.brand,
+      last4: card.last4,
+      expMonth: card.exp_month,
+      expYear: card.exp_year
+    } : undefined,
+    billingDetails: {
+      name: paymentMethod.billing_details?.name || undefined,
+      email: paymentMethod.billing_details?.email || undefined
+    },
+    isDefault: paymentMethod.id === defaultPaymentMethodId,
+    isExpired: msUntilExpiry <= 0,
+    isExpiringSoon: msUntilExpiry > 0 && msUntilExpiry <= EXPIRING_SOON_DAYS * 24 * 60 * 60 * 1000
+  };
+};
+
+// Load a card and make sure it is saved to this user's customer
+const findUserPaymentMethod = async (user, paymentMethodId) => {
+  let paymentMethod;
+  try {
+    paymentMethod = await stripe.paymentMethods.retrieve(paymentMethodId);
+  } catch (error) {
+    throw new AppError('Payment method not found', 404);
+  }
+
+  if (!user.stripeCustomerId || paymentMethod.customer !== user.stripeCustomerId) {
+    throw new AppError('Payment method not found', 404);
+  }
+  return paymentMethod;
+};
+
 // Create payment intent
 router.post('/create-intent', authenticate, requireBuyer, [
   body('orderId').isUUID().withMessage('Valid order ID is required'),
-  body('amount').isFloat({ min: 0.01 }).withMessage('Valid amount is required')
+  body('amount').isFloat({ min: 0.01 }).withMessage('Valid amount is required'),
+  body('currency').optional().isString().trim().toUpperCase()
 ], asyncHandler(async (req, res) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
     throw new AppError(errors.array()[0].msg, 400);
   }
 
-  const { orderId, amount } = req.body;
+  const { orderId, amount, currency } = req.body;
 
   // Verify order belongs to user
   const order = await Order.findOne({
@@ -33,43 +107,48 @@ router.post('/create-intent', authenticate, requireBuyer, [
     throw new AppError('Order is already paid', 400);
   }
 
-  if (order.total !== parseFloat(amount)) {
+  // The order is charged in the currency it was placed in
+  if (currency && currency !== order.currency) {
+    throw new AppError(`This order was placed in ${order.currency}`, 400);
+  }
+
+  // DECIMAL columns come back as strings, so compare in the currency's smallest unit
+  const amountInMinorUnits = toMinorUnits(order.total, order.currency);
+  if (amountInMinorUnits !== toMinorUnits(amount, order.currency)) {
     throw new AppError('Amount does not match order total', 400);
   }
 
   try {
-    // Create or get Stripe customer
-    let customerId = req.user.stripeCustomerId;
-    
-    if (!customerId) {
-      const customer = await stripe.customers.create({
-        email: req.user.email,
-        name: `${req.user.firstName} ${req.user.lastName}`,
+    // Saved cards belong to the customer, so the intent must too for them to be used
+    const customerId = await getOrCreateStripeCustomer(req.user);
+
+    // Reuse the order's open payment intent so retries don't create duplicates
+    let paymentIntent = null;
+    if (order.stripePaymentIntentId) {
+      const existingIntent = await stripe.paymentIntents.retrieve(order.stripePaymentIntentId);
+      if (!['succeeded', 'canceled'].includes(existingIntent.status)) {
+        paymentIntent = existingIntent;
+      }
+    }
+
+    if (!paymentIntent) {
+      paymentIntent = await stripe.paymentIntents.create({
+        amount: amountInMinorUnits,
+        currency: order.currency.toLowerCase(),
+        customer: customerId,
+        automatic_payment_methods: { enabled: true },
         metadata: {
+          orderId: order.id,
+          orderNumber: order.orderNumber,
           userId: req.user.id
-        }
+        },
+        description: `Payment for order ${order.orderNumber}`,
+        receipt_email: req.user.email
       });
 
-      customerId = customer.id;
-      
-      // Update user with Stripe customer ID
-      await req.user.update({ stripeCustomerId: customerId });
+      await order.update({ stripePaymentIntentId: paymentIntent.id });
     }
 
-    // Create payment intent
-    const paymentIntent = await stripe.paymentIntents.create({
-      amount: Math.round(amount * 100), // Convert to cents
-      currency: 'usd',
-      customer: customerId,
-      metadata: {
-        orderId: order.id,
-        orderNumber: order.orderNumber,
-        userId: req.user.id
-      },
-      description: `Payment for order ${order.orderNumber}`,
-      receipt_email: req.user.email
-    });
-
     // Log activity
     await logManualActivity({
       userId: req.user.id,
@@ -79,7 +158,8 @@ router.post('/create-intent', authenticate, requireBuyer, [
       description: `Created payment intent for order ${order.orderNumber}`,
       metadata: {
         paymentIntentId: paymentIntent.id,
-        amount: amount
+        amount: amount,
+        currency: order.currency
       },
       ipAddress: req.ip,
       userAgent: req.get('User-Agent')
@@ -118,46 +198,84 @@ router.post('/confirm', authenticate, requireBuyer, [
     throw new AppError('Order not found', 404);
   }
 
-  try {
-    // Retrieve payment intent
-    const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
-
-    if (paymentIntent.status === 'succeeded') {
-      // Update order
-      await order.update({
-        paymentStatus: 'paid',
-        stripePaymentIntentId: paymentIntentId,
-        stripeChargeId: paymentIntent.latest_charge,
-        status: 'confirmed',
-        confirmedAt: new Date()
-      });
-
-      // Log activity
-      await logManualActivity({
-        userId: req.user.id,
-        action: 'payment.confirm',
-        entityType: 'payment',
-        entityId: order.id,
-        description: `Payment confirmed for order ${order.orderNumber}`,
-        metadata: {
-          paymentIntentId: paymentIntentId,
-          chargeId: paymentIntent.latest_charge
-        },
-        ipAddress: req.ip,
-        userAgent: req.get('User-Agent')
-      });
+  // Confirmation can arrive from both the client and the webhook
+  if (order.paymentStatus === 'paid') {
+    return res.json({
+      success: true,
+      message: 'Payment already confirmed',
+      data: { order }
+    });
+  }
 
-      res.json({
-        success: true,
-        message: 'Payment confirmed successfully',
-        data: { order }
-      });
-    } else {
-      throw new AppError('Payment not completed', 400);
-    }
+  let paymentIntent;
+  try {
+    paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
   } catch (error) {
     throw new AppError(`Payment confirmation failed: ${error.message}`, 400);
   }
+
+  if (paymentIntent.metadata.orderId !== order.id) {
+    throw new AppError('Payment does not belong to this order', 400);
+  }
+
+  if (paymentIntent.status === 'processing') {
+    return res.json({
+      success: true,
+      message: 'Payment is processing',
+      data: { order }
+    });
+  }
+
+  if (paymentIntent.status !== 'succeeded') {
+    const declineMessage = paymentIntent.last_payment_error?.message;
+    throw new AppError(declineMessage || 'Payment not completed', 402);
+  }
+
+  // The webhook may have recorded the payment in the meantime, and fulfilled the order
+  if (!(await markOrderPaid(order, paymentIntent))) {
+    return res.json({
+      success: true,
+      message: 'Payment already confirmed',
+      data: { order }
+    });
+  }
+
+  if (order.status === 'cancelled') {
+    await refundLatePayment(order);
+    throw new AppError('This order was cancelled, so the payment has been refunded', 400);
+  }
+
+  if (canTransition(order.status, 'confirmed')) {
+    await transitionOrderStatus(order, 'confirmed', {
+      userId: req.user.id,
+      reason: 'Payment successful',
+      isSystemGenerated: true,
+      metadata: { paymentIntentId }
+    });
+  }
+
+  await handleOrderPaid(order);
+
+  // Log activity
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'payment.confirm',
+    entityType: 'payment',
+    entityId: order.id,
+    description: `Payment confirmed for order ${order.orderNumber}`,
+    metadata: {
+      paymentIntentId: paymentIntentId,
+      chargeId: paymentIntent.latest_charge
+    },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.json({
+    success: true,
+    message: 'Payment confirmed successfully',
+    data: { order }
+  });
 }));
 
 // Get payment methods for user
@@ -170,20 +288,81 @@ router.get('/payment-methods', authenticate, requireBuyer, asyncHandler(async (r
   }
 
   try {
-    const paymentMethods = await stripe.paymentMethods.list({
-      customer: req.user.stripeCustomerId,
-      type: 'card'
-    });
+    const [paymentMethods, customer] = await Promise.all([
+      stripe.paymentMethods.list({
+        customer: req.user.stripeCustomerId,
+        type: 'card'
+      }),
+      stripe.customers.retrieve(req.user.stripeCustomerId)
+    ]);
+    const defaultPaymentMethodId = customer.invoice_settings?.default_payment_method;
 
     res.json({
       success: true,
-      data: { paymentMethods: paymentMethods.data }
+      data: {
+        paymentMethods: paymentMethods.data.map(paymentMethod =>
+          serializePaymentMethod(paymentMethod, defaultPaymentMethodId)
+        )
+      }
     });
   } catch (error) {
     throw new AppError('Failed to retrieve payment methods', 400);
   }
 }));
 
+// Start saving a card. The card details go straight from the browser to
+// Stripe, which attaches the card to the customer once the intent is confirmed.
+router.post('/setup-intent', authenticate, requireBuyer, asyncHandler(async (req, res) => {
+  try {
+    const customerId = await getOrCreateStripeCustomer(req.user);
+    const setupIntent = await stripe.setupIntents.create({
+      customer: customerId,
+      payment_method_types: ['card'],
+      // Saved cards are only charged while the shopper is at checkout
+      usage: 'on_session',
+      metadata: {
+        userId: req.user.id
+      }
+    });
+
+    res.json({
+      success: true,
+      data: {
+        clientSecret: setupIntent.client_secret,
+        setupIntentId: setupIntent.id
+      }
+    });
+  } catch (error) {
+    throw new AppError(`Failed to start saving card: ${error.message}`, 400);
+  }
+}));
+
+// Make a saved card the one preselected at checkout
+router.patch('/payment-methods/:paymentMethodId/default', authenticate, requireBuyer, asyncHandler(async (req, res) => {
+  const paymentMethod = await findUserPaymentMethod(req.user, req.params.paymentMethodId);
+
+  await stripe.customers.update(req.user.stripeCustomerId, {
+    invoice_settings: { default_payment_method: paymentMethod.id }
+  });
+
+  // Log activity
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'payment.method.default',
+    entityType: 'payment',
+    entityId: req.user.id,
+    description: `Made card ending ${paymentMethod.card?.last4} the default`,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.json({
+    success: true,
+    message: 'Default payment method updated',
+    data: { paymentMethod: serializePaymentMethod(paymentMethod, paymentMethod.id) }
+  });
+}));
+
 // Add payment method
 router.post('/payment-methods', authenticate, requireBuyer, [
   body('paymentMethodId').notEmpty().withMessage('Payment method ID is required')
@@ -216,11 +395,23 @@ router.post('/payment-methods', authenticate, requireBuyer, [
 
 // Remove payment method
 router.delete('/payment-methods/:paymentMethodId', authenticate, requireBuyer, asyncHandler(async (req, res) => {
-  const { paymentMethodId } = req.params;
+  // Only cards saved to this user's customer can be removed
+  const paymentMethod = await findUserPaymentMethod(req.user, req.params.paymentMethodId);
 
   try {
     // Detach payment method
-    await stripe.paymentMethods.detach(paymentMethodId);
+    await stripe.paymentMethods.detach(paymentMethod.id);
+
+    // Log activity
+    await logManualActivity({
+      userId: req.user.id,
+      action: 'payment.method.remove',
+      entityType: 'payment',
+      entityId: req.user.id,
+      description: `Removed card ending ${paymentMethod.card?.last4}`,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
 
     res.json({
       success: true,
@@ -231,29 +422,56 @@ router.delete('/payment-methods/:paymentMethodId', authenticate, requireBuyer, a
   }
 }));
 
-// Process refund
-router.post('/refund', authenticate, requireBuyer, [
+// Admin: Process refund, itemised by line, shipping and tax, or for a received
+// return by passing its returnRequestId. With none of those the remaining
+// balance is refunded. Customers get their money back through returns.
+router.post('/refund', authenticate, requireAdmin, [
   body('orderId').isUUID().withMessage('Valid order ID is required'),
   body('amount').optional().isFloat({ min: 0.01 }).withMessage('Valid amount is required'),
-  body('reason').optional().isString().withMessage('Reason must be a string')
+  body('reason').optional().isString().withMessage('Reason must be a string'),
+  body('returnRequestId').optional().isUUID().withMessage('Valid return request ID is required'),
+  body('items').optional().isArray().withMessage('Items must be a list'),
+  body('items.*.orderItemId').isUUID().withMessage('Valid order item ID is required'),
+  body('items.*.quantity').isInt({ min: 0 }).withMessage('Quantity cannot be negative'),
+  body('shippingAmount').optional().isFloat({ min: 0 }).withMessage('Shipping amount cannot be negative'),
+  body('taxAmount').optional().isFloat({ min: 0 }).withMessage('Tax amount cannot be negative')
 ], asyncHandler(async (req, res) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
     throw new AppError(errors.array()[0].msg, 400);
   }
 
-  const { orderId, amount, reason } = req.body;
+  const { orderId, reason, returnRequestId } = req.body;
 
-  // Verify order belongs to user
   const order = await Order.findOne({
-    where: { id: orderId, userId: req.user.id }
+    where: { id: orderId },
+    include: [
+      { model: OrderItem, as: 'items' },
+      { model: Refund, as: 'refunds' }
+    ]
   });
 
   if (!order) {
     throw new AppError('Order not found', 404);
   }
 
-  if (order.paymentStatus !== 'paid') {
+  let returnRequest = null;
+  if (returnRequestId) {
+    returnRequest = await ReturnRequest.findOne({
+      where: { id: returnRequestId, orderId: order.id },
+      include: [{ model: OrderItem, as: 'orderItem' }]
+    });
+
+    if (!returnRequest) {
+      throw new AppError('Return request not found', 404);
+    }
+
+    if (returnRequest.status !== 'received') {
+      throw new AppError('Returns are refunded once the goods have been received', 400);
+    }
+  }
+
+  if (!REFUNDABLE_PAYMENT_STATUSES.includes(order.paymentStatus)) {
     throw new AppError('Order is not paid', 400);
   }
 
@@ -261,51 +479,80 @@ router.post('/refund', authenticate, requireBuyer, [
     throw new AppError('No payment found for this order', 400);
   }
 
+  // A return refunds its units and their tax, as worked out when it was requested
+  const breakdown = returnRequest
+    ? buildRefund(order, {
+        items: [{ orderItemId: returnRequest.orderItemId, quantity: returnRequest.quantity }],
+        taxAmount: roundToCurrency(getUnitTaxAmount(returnRequest.orderItem) * returnRequest.quantity, order.currency)
+      })
+    : buildRefund(order, {
+        items: req.body.items,
+        shippingAmount: parseFloat(req.body.shippingAmount || 0),
+        taxAmount: parseFloat(req.body.taxAmount || 0),
+        amount: req.body.amount ? parseFloat(req.body.amount) : undefined
+      });
+
+  let stripeRefund;
   try {
-    // Process refund
-    const refundAmount = amount ? Math.round(amount * 100) : undefined;
-    
-    const refund = await stripe.refunds.create({
+    stripeRefund = await stripe.refunds.create({
       charge: order.stripeChargeId,
-      amount: refundAmount,
-      reason: reason || 'requested_by_customer',
+      amount: toMinorUnits(breakdown.amount, order.currency),
+      // Stripe only accepts its own reason codes; ours is kept on the refund record
+      reason: 'requested_by_customer',
       metadata: {
         orderId: order.id,
         orderNumber: order.orderNumber,
-        userId: req.user.id
+        userId: req.user.id,
+        ...(returnRequest && { rmaNumber: returnRequest.rmaNumber })
       }
     });
+  } catch (error) {
+    throw new AppError(`Refund processing failed: ${error.message}`, 400);
+  }
 
-    // Update order status
-    await order.update({
-      paymentStatus: 'refunded',
-      status: 'refunded'
-    });
-
-    // Log activity
-    await logManualActivity({
-      userId: req.user.id,
-      action: 'payment.refund',
-      entityType: 'payment',
-      entityId: order.id,
-      description: `Refund processed for order ${order.orderNumber}`,
-      metadata: {
-        refundId: refund.id,
-        amount: amount || order.total,
-        reason: reason
-      },
-      ipAddress: req.ip,
-      userAgent: req.get('User-Agent')
-    });
+  const refund = await recordRefund(order, {
+    stripeRefundId: stripeRefund.id,
+    ...breakdown,
+    reason: reason || null,
+    source: returnRequest ? 'return' : 'admin',
+    returnRequestId: returnRequest?.id || null,
+    createdBy: req.user.id
+  });
 
-    res.json({
-      success: true,
-      message: 'Refund processed successfully',
-      data: { refund, order }
+  if (returnRequest) {
+    await returnRequest.update({
+      status: 'refunded',
+      refundAmount: breakdown.amount,
+      refundedAt: new Date(),
+      stripeRefundId: stripeRefund.id
     });
-  } catch (error) {
-    throw new AppError(`Refund processing failed: ${error.message}`, 400);
   }
+
+  // Log activity
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'payment.refund',
+    entityType: 'payment',
+    entityId: order.id,
+    description: `Refunded ${formatMoney(breakdown.amount, order.currency)} on order ${order.orderNumber}`,
+    metadata: {
+      refundId: stripeRefund.id,
+      amount: breakdown.amount,
+      lines: breakdown.lines,
+      shippingAmount: breakdown.shippingAmount,
+      taxAmount: breakdown.taxAmount,
+      reason: reason,
+      returnRequestId: returnRequest?.id
+    },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.json({
+    success: true,
+    message: order.paymentStatus === 'refunded' ? 'Order fully refunded' : 'Refund processed successfully',
+    data: { refund, order }
+  });
 }));
 
 // Webhook handler for Stripe events
@@ -340,19 +587,46 @@ router.post('/webhook', express.raw({ type: 'application/json' }), asyncHandler(
 }));
 
 // Helper functions for webhook handling
+
+// A payment that lands on an order cancelled in the meantime goes straight
+// back, and the order is not fulfilled
+async function refundLatePayment(order) {
+  await refundOrderBalance(order, {
+    reason: 'Paid after the order was cancelled',
+    source: 'customer'
+  });
+
+  await logManualActivity({
+    userId: order.userId,
+    action: 'payment.refund',
+    entityType: 'payment',
+    entityId: order.id,
+    description: `Refunded payment on cancelled order ${order.orderNumber}`,
+    metadata: { chargeId: order.stripeChargeId }
+  });
+}
+
 async function handlePaymentIntentSucceeded(paymentIntent) {
   const orderId = paymentIntent.metadata.orderId;
   
   if (orderId) {
     const order = await Order.findByPk(orderId);
-    if (order) {
-      await order.update({
-        paymentStatus: 'paid',
-        stripePaymentIntentId: paymentIntent.id,
-        stripeChargeId: paymentIntent.latest_charge,
-        status: 'confirmed',
-        confirmedAt: new Date()
-      });
+    // The client may already have confirmed this payment
+    if (order && await markOrderPaid(order, paymentIntent)) {
+      if (order.status === 'cancelled') {
+        await refundLatePayment(order);
+        return;
+      }
+
+      if (canTransition(order.status, 'confirmed')) {
+        await transitionOrderStatus(order, 'confirmed', {
+          reason: 'Payment successful',
+          isSystemGenerated: true,
+          metadata: { paymentIntentId: paymentIntent.id }
+        });
+      }
+
+      await handleOrderPaid(order);
 
       // Log activity
       await logManualActivity({
@@ -376,10 +650,15 @@ async function handlePaymentIntentFailed(paymentIntent) {
   if (orderId) {
     const order = await Order.findByPk(orderId);
     if (order) {
-      await order.update({
-        paymentStatus: 'failed',
-        status: 'failed'
-      });
+      await order.update({ paymentStatus: 'failed' });
+
+      if (canTransition(order.status, 'failed')) {
+        await transitionOrderStatus(order, 'failed', {
+          reason: 'Payment failed',
+          isSystemGenerated: true,
+          metadata: { paymentIntentId: paymentIntent.id }
+        });
+      }
 
       // Log activity
       await logManualActivity({
@@ -403,12 +682,34 @@ async function handleChargeRefunded(charge) {
     where: { stripeChargeId: charge.id }
   });
 
-  if (order) {
-    await order.update({
-      paymentStatus: 'refunded',
-      status: 'refunded'
+  if (!order) return;
+
+  // Refunds made in the app are already recorded; anything else was issued
+  // from the Stripe dashboard and is recorded here without a breakdown
+  const { data: stripeRefunds } = await stripe.refunds.list({ charge: charge.id, limit: 100 });
+  const known = await Refund.findAll({
+    where: { orderId: order.id },
+    attributes: ['stripeRefundId']
+  });
+  const knownIds = known.map(refund => refund.stripeRefundId);
+
+  const external = stripeRefunds.filter(stripeRefund =>
+    stripeRefund.status !== 'failed' && stripeRefund.status !== 'canceled' && !knownIds.includes(stripeRefund.id)
+  );
+
+  for (const stripeRefund of external) {
+    await Refund.create({
+      orderId: order.id,
+      stripeRefundId: stripeRefund.id,
+      amount: fromMinorUnits(stripeRefund.amount, order.currency),
+      reason: stripeRefund.reason,
+      source: 'stripe'
     });
+  }
+
+  await syncOrderRefunds(order);
 
+  if (external.length > 0) {
     // Log activity
     await logManualActivity({
       userId: order.userId,
@@ -418,7 +719,8 @@ async function handleChargeRefunded(charge) {
       description: `Refund processed via webhook for order ${order.orderNumber}`,
       metadata: {
         chargeId: charge.id,
-        refundId: charge.refunds?.data[0]?.id
+        refundIds: external.map(stripeRefund => stripeRefund.id),
+        amountRefunded: fromMinorUnits(charge.amount_refunded, order.currency)
       }
     });
   }
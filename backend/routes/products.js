@@ -5,6 +5,9 @@ const { asyncHandler, AppError } = require('../middleware/errorHandler');
 const { logManualActivity } = require('../middleware/activityLogger');
 const { Product, Category, Review, User, ProductImage } = require('../models');
 const { Op } = require('sequelize');
+const { recordStockChange } = require('../utils/inventory');
+const { importKeys, getKeyCounts } = require('../utils/digitalKeys');
+const { resolveLocale, localizeProduct, sanitizeProductTranslations } = require('../utils/i18n');
 
 const router = express.Router();
 
@@ -17,7 +20,8 @@ const productValidation = [
   body('categoryId').isUUID().withMessage('Valid category ID is required'),
   body('sku').trim().notEmpty().withMessage('SKU is required'),
   body('platform').optional().isIn(['PC', 'PS4', 'PS5', 'Xbox One', 'Xbox Series X', 'Nintendo Switch', 'Mobile', 'Multi-platform']),
-  body('ageRating').optional().isIn(['E', 'E10+', 'T', 'M', 'AO'])
+  body('ageRating').optional().isIn(['E', 'E10+', 'T', 'M', 'AO']),
+  body('translations').optional().isObject().withMessage('Translations must be an object keyed by locale')
 ];
 
 // Get all products (with search, filtering, pagination)
@@ -40,11 +44,13 @@ router.get('/', optionalAuth, asyncHandler(async (req, res) => {
 
   const offset = (page - 1) * limit;
   const whereClause = { isActive: true };
+  const locale = resolveLocale(req);
 
-  // Search functionality
+  // Search functionality, matching translated names too
   if (search) {
     whereClause[Op.or] = [
       { name: { [Op.iLike]: `%${search}%` } },
+      { [`translations.${locale}.name`]: { [Op.iLike]: `%${search}%` } },
       { description: { [Op.iLike]: `%${search}%` } },
       { brand: { [Op.iLike]: `%${search}%` } },
       { publisher: { [Op.iLike]: `%${search}%` } },
@@ -131,7 +137,7 @@ router.get('/', optionalAuth, asyncHandler(async (req, res) => {
   res.json({
     success: true,
     data: {
-      products,
+      products: products.map(product => localizeProduct(product, locale)),
       pagination: {
         currentPage: parseInt(page),
         totalPages,
@@ -211,7 +217,7 @@ router.get('/:identifier', optionalAuth, asyncHandler(async (req, res) => {
 
   res.json({
     success: true,
-    data: { product }
+    data: { product: localizeProduct(product, resolveLocale(req)) }
   });
 }));
 
@@ -250,7 +256,8 @@ router.post('/', authenticate, requireAdmin, productValidation, asyncHandler(asy
     metaTitle,
     metaDescription,
     tags,
-    specifications
+    specifications,
+    translations
   } = req.body;
 
   // Check if SKU already exists
@@ -300,7 +307,8 @@ router.post('/', authenticate, requireAdmin, productValidation, asyncHandler(asy
     metaTitle,
     metaDescription,
     tags,
-    specifications
+    specifications,
+    translations: sanitizeProductTranslations(translations)
   });
 
   // Log activity
@@ -339,7 +347,24 @@ router.put('/:id', authenticate, requireAdmin, productValidation, asyncHandler(a
   const oldValues = product.toJSON();
 
   // Update product
-  await product.update(req.body);
+  await product.update({
+    ...req.body,
+    ...(req.body.translations !== undefined && {
+      translations: sanitizeProductTranslations(req.body.translations)
+    })
+  });
+
+  // Restocks are recorded as purchases so back in stock alerts can go out
+  if (product.stockQuantity !== oldValues.stockQuantity) {
+    await recordStockChange({
+      productId: product.id,
+      transactionType: product.stockQuantity > oldValues.stockQuantity ? 'purchase' : 'adjustment',
+      previousStock: oldValues.stockQuantity,
+      newStock: product.stockQuantity,
+      userId: req.user.id,
+      reason: 'Stock updated from product editor'
+    });
+  }
 
   // Log activity
   await logManualActivity({
@@ -445,6 +470,73 @@ router.get('/:id/analytics', authenticate, requireAdmin, asyncHandler(async (req
   });
 }));
 
+// Get digital key inventory counts (Admin only)
+router.get('/:id/keys', authenticate, requireAdmin, asyncHandler(async (req, res) => {
+  const product = await Product.findByPk(req.params.id, {
+    attributes: ['id', 'name', 'isDigital', 'stockQuantity']
+  });
+
+  if (!product) {
+    throw new AppError('Product not found', 404);
+  }
+
+  const counts = await getKeyCounts(product.id);
+
+  res.json({
+    success: true,
+    data: { counts }
+  });
+}));
+
+// Bulk import digital keys (Admin only)
+router.post('/:id/keys', authenticate, requireAdmin, [
+  body('keys').isArray({ min: 1, max: 5000 }).withMessage('Provide between 1 and 5000 keys'),
+  body('keys.*').isString().isLength({ max: 255 }).withMessage('Keys must be text of at most 255 characters')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const product = await Product.findByPk(req.params.id);
+
+  if (!product) {
+    throw new AppError('Product not found', 404);
+  }
+
+  if (!product.isDigital) {
+    throw new AppError('Keys can only be imported for digital products', 400);
+  }
+
+  const result = await importKeys({
+    product,
+    keys: req.body.keys,
+    userId: req.user.id
+  });
+
+  // Log activity without the keys themselves
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'product.keys.import',
+    entityType: 'product',
+    entityId: product.id,
+    description: `Imported ${result.imported} digital key(s) for ${product.name}`,
+    metadata: result,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  const counts = await getKeyCounts(product.id);
+
+  res.status(201).json({
+    success: true,
+    message: result.duplicates > 0
+      ? `Imported ${result.imported} key(s), skipped ${result.duplicates} duplicate(s)`
+      : `Imported ${result.imported} key(s)`,
+    data: { ...result, counts }
+  });
+}));
+
 // Get related products
 router.get('/:id/related', optionalAuth, asyncHandler(async (req, res) => {
   const { id } = req.params;
@@ -484,7 +576,7 @@ router.get('/:id/related', optionalAuth, asyncHandler(async (req, res) => {
 
   res.json({
     success: true,
-    data: { relatedProducts }
+    data: { relatedProducts: relatedProducts.map(related => localizeProduct(related, resolveLocale(req))) }
   });
 }));
 
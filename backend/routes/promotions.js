@@ -0,0 +1,253 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const { authenticate, requireAdmin } = require('../middleware/auth');
+const { asyncHandler, AppError } = require('../middleware/errorHandler');
+const { logManualActivity } = require('../middleware/activityLogger');
+const { Promotion, PromotionRedemption } = require('../models');
+const { Op } = require('sequelize');
+
+const router = express.Router();
+
+// All routes require admin authentication
+router.use(authenticate, requireAdmin);
+
+const PLATFORMS = ['PC', 'PS4', 'PS5', 'Xbox One', 'Xbox Series X', 'Nintendo Switch', 'Mobile', 'Multi-platform'];
+
+const PROMOTION_FIELDS = [
+  'code', 'description', 'type', 'value', 'buyQuantity', 'getQuantity',
+  'maxDiscountAmount', 'minSubtotal', 'categoryIds', 'platforms', 'usageLimit',
+  'perUserLimit', 'firstOrderOnly', 'startsAt', 'expiresAt', 'isActive'
+];
+
+// Validation schemas
+const promotionValidation = [
+  body('code').trim().matches(/^[A-Za-z0-9_-]{3,32}$/).withMessage('Code must be 3-32 letters, numbers, dashes or underscores'),
+  body('description').optional({ values: 'null' }).isString().trim(),
+  body('type').isIn(['percentage', 'fixed_amount', 'free_shipping', 'buy_x_get_y']).withMessage('Valid promotion type is required'),
+  body('value').if(body('type').isIn(['percentage', 'fixed_amount']))
+    .isFloat({ gt: 0 }).withMessage('Discount value must be greater than 0'),
+  body('value').if(body('type').equals('percentage'))
+    .isFloat({ max: 100 }).withMessage('Percentage cannot exceed 100'),
+  body('buyQuantity').if(body('type').equals('buy_x_get_y'))
+    .isInt({ min: 1 }).withMessage('Buy quantity must be at least 1'),
+  body('getQuantity').if(body('type').equals('buy_x_get_y'))
+    .isInt({ min: 1 }).withMessage('Get quantity must be at least 1'),
+  body('maxDiscountAmount').optional({ values: 'null' }).isFloat({ gt: 0 }).withMessage('Maximum discount must be greater than 0'),
+  body('minSubtotal').optional({ values: 'null' }).isFloat({ min: 0 }).withMessage('Minimum subtotal cannot be negative'),
+  body('categoryIds').optional().isArray().withMessage('Categories must be a list'),
+  body('categoryIds.*').isUUID().withMessage('Valid category ID is required'),
+  body('platforms').optional().isArray().withMessage('Platforms must be a list'),
+  body('platforms.*').isIn(PLATFORMS).withMessage('Valid platform is required'),
+  body('usageLimit').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('Usage limit must be at least 1'),
+  body('perUserLimit').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('Per-user limit must be at least 1'),
+  body('firstOrderOnly').optional().isBoolean(),
+  body('startsAt').optional({ values: 'null' }).isISO8601().withMessage('Valid start date is required'),
+  body('expiresAt').optional({ values: 'null' }).isISO8601().withMessage('Valid expiry date is required')
+    .custom((expiresAt, { req }) => !req.body.startsAt || new Date(expiresAt) > new Date(req.body.startsAt))
+    .withMessage('Expiry date must be after the start date'),
+  body('isActive').optional().isBoolean()
+];
+
+const pickPromotionFields = (source) => {
+  return PROMOTION_FIELDS.reduce((fields, key) => {
+    if (source[key] !== undefined) {
+      fields[key] = source[key];
+    }
+    return fields;
+  }, {});
+};
+
+// Get all promotions
+router.get('/', asyncHandler(async (req, res) => {
+  const { page = 1, limit = 20, search, status } = req.query;
+  const offset = (page - 1) * limit;
+  const now = new Date();
+
+  const whereClause = {};
+  if (search) {
+    whereClause[Op.or] = [
+      { code: { [Op.iLike]: `%${search}%` } },
+      { description: { [Op.iLike]: `%${search}%` } }
+    ];
+  }
+
+  switch (status) {
+    case 'active':
+      whereClause.isActive = true;
+      whereClause[Op.and] = [
+        { [Op.or]: [{ startsAt: null }, { startsAt: { [Op.lte]: now } }] },
+        { [Op.or]: [{ expiresAt: null }, { expiresAt: { [Op.gt]: now } }] }
+      ];
+      break;
+    case 'scheduled':
+      whereClause.isActive = true;
+      whereClause.startsAt = { [Op.gt]: now };
+      break;
+    case 'expired':
+      whereClause.expiresAt = { [Op.lte]: now };
+      break;
+    case 'inactive':
+      whereClause.isActive = false;
+      break;
+  }
+
+  const { count, rows: promotions } = await Promotion.findAndCountAll({
+    where: whereClause,
+    order: [['createdAt', 'DESC']],
+    limit: parseInt(limit),
+    offset: parseInt(offset)
+  });
+
+  const totalPages = Math.ceil(count / limit);
+
+  res.json({
+    success: true,
+    data: {
+      promotions,
+      pagination: {
+        currentPage: parseInt(page),
+        totalPages,
+        totalItems: count,
+        itemsPerPage: parseInt(limit)
+      }
+    }
+  });
+}));
+
+// Get single promotion
+router.get('/:id', asyncHandler(async (req, res) => {
+  const promotion = await Promotion.findByPk(req.params.id);
+  if (!promotion) {
+    throw new AppError('Promotion not found', 404);
+  }
+
+  const totalDiscount = await PromotionRedemption.sum('discountAmount', {
+    where: { promotionId: promotion.id }
+  });
+
+  res.json({
+    success: true,
+    data: {
+      promotion,
+      totalDiscount: parseFloat(totalDiscount || 0)
+    }
+  });
+}));
+
+// Create promotion
+router.post('/', promotionValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const existingPromotion = await Promotion.findOne({
+    where: { code: req.body.code.toUpperCase() }
+  });
+  if (existingPromotion) {
+    throw new AppError('A promotion with this code already exists', 400);
+  }
+
+  const promotion = await Promotion.create(pickPromotionFields(req.body));
+
+  // Log activity
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'promotion.create',
+    entityType: 'promotion',
+    entityId: promotion.id,
+    description: `Created promotion: ${promotion.code}`,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.status(201).json({
+    success: true,
+    message: 'Promotion created successfully',
+    data: { promotion }
+  });
+}));
+
+// Update promotion
+router.put('/:id', promotionValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const promotion = await Promotion.findByPk(req.params.id);
+  if (!promotion) {
+    throw new AppError('Promotion not found', 404);
+  }
+
+  const existingPromotion = await Promotion.findOne({
+    where: {
+      code: req.body.code.toUpperCase(),
+      id: { [Op.ne]: promotion.id }
+    }
+  });
+  if (existingPromotion) {
+    throw new AppError('A promotion with this code already exists', 400);
+  }
+
+  const oldValues = promotion.toJSON();
+  await promotion.update(pickPromotionFields(req.body));
+
+  // Log activity
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'promotion.update',
+    entityType: 'promotion',
+    entityId: promotion.id,
+    description: `Updated promotion: ${promotion.code}`,
+    oldValues,
+    newValues: promotion.toJSON(),
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.json({
+    success: true,
+    message: 'Promotion updated successfully',
+    data: { promotion }
+  });
+}));
+
+// Delete promotion
+router.delete('/:id', asyncHandler(async (req, res) => {
+  const promotion = await Promotion.findByPk(req.params.id);
+  if (!promotion) {
+    throw new AppError('Promotion not found', 404);
+  }
+
+  // Redeemed promotions are kept for order history and only deactivated
+  const redemptionCount = await PromotionRedemption.count({
+    where: { promotionId: promotion.id }
+  });
+
+  if (redemptionCount > 0) {
+    await promotion.update({ isActive: false });
+  } else {
+    await promotion.destroy();
+  }
+
+  // Log activity
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'promotion.delete',
+    entityType: 'promotion',
+    entityId: promotion.id,
+    description: `${redemptionCount > 0 ? 'Deactivated' : 'Deleted'} promotion: ${promotion.code}`,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.json({
+    success: true,
+    message: redemptionCount > 0
+      ? 'Promotion has been used and was deactivated instead of deleted'
+      : 'Promotion deleted successfully'
+  });
+}));
+
+module.exports = router;
@@ -0,0 +1,339 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const { authenticate, requireBuyer, requireAdmin } = require('../middleware/auth');
+const { asyncHandler, AppError } = require('../middleware/errorHandler');
+const { logManualActivity } = require('../middleware/activityLogger');
+const { ReturnRequest, Order, OrderItem, User } = require('../models');
+const { Op } = require('sequelize');
+const { adjustStock } = require('../utils/inventory');
+const {
+  RETURN_WINDOW_DAYS,
+  RETURN_REASONS,
+  getReturnDeadline,
+  isWithinReturnWindow,
+  isReturnableItem,
+  getItemRefundAmount,
+  getReturnableQuantity,
+  generateRmaNumber
+} = require('../utils/returns');
+
+const router = express.Router();
+
+const returnIncludes = [
+  {
+    model: Order,
+    as: 'order',
+    attributes: ['id', 'orderNumber', 'paymentStatus', 'paymentMethod', 'deliveredAt', 'currency']
+  },
+  {
+    model: OrderItem,
+    as: 'orderItem',
+    attributes: ['id', 'productId', 'productSnapshot', 'quantity', 'unitPrice', 'status']
+  }
+];
+
+const findReturnForAdmin = async (id) => {
+  const returnRequest = await ReturnRequest.findByPk(id, {
+    include: returnIncludes
+  });
+
+  if (!returnRequest) {
+    throw new AppError('Return request not found', 404);
+  }
+
+  return returnRequest;
+};
+
+const validate = (req) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+};
+
+// Get returns for one of the user's orders, with the window they can still return in
+router.get('/order/:orderId', authenticate, requireBuyer, asyncHandler(async (req, res) => {
+  const order = await Order.findOne({
+    where: { id: req.params.orderId, userId: req.user.id }
+  });
+
+  if (!order) {
+    throw new AppError('Order not found', 404);
+  }
+
+  const returns = await ReturnRequest.findAll({
+    where: { orderId: order.id },
+    order: [['createdAt', 'DESC']]
+  });
+
+  res.json({
+    success: true,
+    data: {
+      returns,
+      returnDeadline: getReturnDeadline(order),
+      returnWindowDays: RETURN_WINDOW_DAYS
+    }
+  });
+}));
+
+// Request a return for an order item
+router.post('/', authenticate, requireBuyer, [
+  body('orderItemId').isUUID().withMessage('Valid order item is required'),
+  body('quantity').isInt({ min: 1 }).withMessage('Quantity must be at least 1'),
+  body('reason').isIn(RETURN_REASONS).withMessage('Valid return reason is required'),
+  body('notes').optional({ values: 'null' }).isString().trim().isLength({ max: 1000 }).withMessage('Notes must be under 1000 characters')
+], asyncHandler(async (req, res) => {
+  validate(req);
+
+  const { orderItemId, quantity, reason, notes } = req.body;
+
+  const item = await OrderItem.findByPk(orderItemId, {
+    include: [
+      {
+        model: Order,
+        as: 'order',
+        where: { userId: req.user.id }
+      }
+    ]
+  });
+
+  if (!item) {
+    throw new AppError('Order item not found', 404);
+  }
+
+  if (item.order.status !== 'delivered') {
+    throw new AppError('Returns can be requested once the order has been delivered', 400);
+  }
+
+  if (!isWithinReturnWindow(item.order)) {
+    throw new AppError(`Returns must be requested within ${RETURN_WINDOW_DAYS} days of delivery`, 400);
+  }
+
+  if (!isReturnableItem(item)) {
+    throw new AppError('Digital items cannot be returned', 400);
+  }
+
+  const returnableQuantity = await getReturnableQuantity(item);
+  if (quantity > returnableQuantity) {
+    throw new AppError(
+      returnableQuantity > 0
+        ? `Only ${returnableQuantity} of this item can still be returned`
+        : 'This item has already been returned',
+      400
+    );
+  }
+
+  const returnRequest = await ReturnRequest.create({
+    rmaNumber: generateRmaNumber(),
+    orderId: item.orderId,
+    orderItemId: item.id,
+    userId: req.user.id,
+    quantity,
+    reason,
+    customerNotes: notes || null,
+    refundAmount: getItemRefundAmount(item, quantity, item.order)
+  });
+
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'return.request',
+    entityType: 'order',
+    entityId: item.orderId,
+    description: `Requested return ${returnRequest.rmaNumber} for order ${item.order.orderNumber}`,
+    metadata: { returnRequestId: returnRequest.id, orderItemId: item.id, quantity, reason },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.status(201).json({
+    success: true,
+    message: `Return ${returnRequest.rmaNumber} requested`,
+    data: { returnRequest }
+  });
+}));
+
+// Admin: Get the returns queue
+router.get('/admin/all', authenticate, requireAdmin, asyncHandler(async (req, res) => {
+  const { page = 1, limit = 20, status, search } = req.query;
+  const offset = (page - 1) * limit;
+
+  const whereClause = {};
+  if (status) whereClause.status = status;
+  if (search) {
+    whereClause[Op.or] = [
+      { rmaNumber: { [Op.iLike]: `%${search}%` } },
+      { '$order.order_number$': { [Op.iLike]: `%${search}%` } }
+    ];
+  }
+
+  const { count, rows: returns } = await ReturnRequest.findAndCountAll({
+    where: whereClause,
+    include: [
+      ...returnIncludes,
+      {
+        model: User,
+        as: 'user',
+        attributes: ['id', 'firstName', 'lastName', 'email']
+      }
+    ],
+    order: [['createdAt', 'ASC']],
+    limit: parseInt(limit),
+    offset: parseInt(offset)
+  });
+
+  const totalPages = Math.ceil(count / limit);
+
+  res.json({
+    success: true,
+    data: {
+      returns,
+      pagination: {
+        currentPage: parseInt(page),
+        totalPages,
+        totalItems: count,
+        itemsPerPage: parseInt(limit)
+      }
+    }
+  });
+}));
+
+// Admin: Approve a return so the customer can send it back
+router.put('/admin/:id/approve', authenticate, requireAdmin, [
+  body('note').optional({ values: 'null' }).isString().trim()
+], asyncHandler(async (req, res) => {
+  validate(req);
+
+  const returnRequest = await findReturnForAdmin(req.params.id);
+  if (returnRequest.status !== 'requested') {
+    throw new AppError(`Return is already ${returnRequest.status}`, 400);
+  }
+
+  await returnRequest.update({
+    status: 'approved',
+    adminNotes: req.body.note || returnRequest.adminNotes,
+    reviewedBy: req.user.id,
+    reviewedAt: new Date()
+  });
+
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'return.approve',
+    entityType: 'order',
+    entityId: returnRequest.orderId,
+    description: `Approved return ${returnRequest.rmaNumber}`,
+    metadata: { returnRequestId: returnRequest.id },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.json({
+    success: true,
+    message: 'Return approved',
+    data: { returnRequest }
+  });
+}));
+
+// Admin: Reject a return request
+router.put('/admin/:id/reject', authenticate, requireAdmin, [
+  body('note').isString().trim().notEmpty().withMessage('A reason for the rejection is required')
+], asyncHandler(async (req, res) => {
+  validate(req);
+
+  const returnRequest = await findReturnForAdmin(req.params.id);
+  if (!['requested', 'approved'].includes(returnRequest.status)) {
+    throw new AppError(`Return is already ${returnRequest.status}`, 400);
+  }
+
+  await returnRequest.update({
+    status: 'rejected',
+    adminNotes: req.body.note,
+    reviewedBy: req.user.id,
+    reviewedAt: new Date()
+  });
+
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'return.reject',
+    entityType: 'order',
+    entityId: returnRequest.orderId,
+    description: `Rejected return ${returnRequest.rmaNumber}`,
+    metadata: { returnRequestId: returnRequest.id, note: req.body.note },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.json({
+    success: true,
+    message: 'Return rejected',
+    data: { returnRequest }
+  });
+}));
+
+// Admin: Mark the returned goods as received, optionally putting them back in stock
+router.put('/admin/:id/receive', authenticate, requireAdmin, [
+  body('restock').isBoolean().withMessage('Restock must be true or false'),
+  body('note').optional({ values: 'null' }).isString().trim()
+], asyncHandler(async (req, res) => {
+  validate(req);
+
+  const returnRequest = await findReturnForAdmin(req.params.id);
+  if (returnRequest.status !== 'approved') {
+    throw new AppError('Only approved returns can be received', 400);
+  }
+
+  const { restock, note } = req.body;
+
+  if (restock) {
+    await adjustStock({
+      productId: returnRequest.orderItem.productId,
+      quantity: returnRequest.quantity,
+      transactionType: 'return',
+      userId: req.user.id,
+      orderId: returnRequest.orderId,
+      reason: `Return ${returnRequest.rmaNumber}`,
+      referenceType: 'return',
+      referenceNumber: returnRequest.rmaNumber
+    });
+  }
+
+  await returnRequest.update({
+    status: 'received',
+    receivedAt: new Date(),
+    restocked: restock,
+    adminNotes: note || returnRequest.adminNotes
+  });
+
+  // A line only counts as returned once all of its units are back
+  const receivedQuantity = await ReturnRequest.sum('quantity', {
+    where: {
+      orderItemId: returnRequest.orderItemId,
+      status: { [Op.in]: ['received', 'refunded'] }
+    }
+  });
+  if (receivedQuantity >= returnRequest.orderItem.quantity) {
+    await returnRequest.orderItem.update({
+      status: 'returned',
+      returnReason: returnRequest.reason,
+      returnDate: new Date()
+    });
+  }
+
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'return.receive',
+    entityType: 'order',
+    entityId: returnRequest.orderId,
+    description: `Received return ${returnRequest.rmaNumber}${restock ? ' and restocked it' : ''}`,
+    metadata: { returnRequestId: returnRequest.id, quantity: returnRequest.quantity, restock },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.json({
+    success: true,
+    message: restock ? 'Return received and restocked' : 'Return received',
+    data: { returnRequest }
+  });
+}));
+
+module.exports = router;
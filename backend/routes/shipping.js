@@ -0,0 +1,243 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const { authenticate, requireAdmin } = require('../middleware/auth');
+const { asyncHandler, AppError } = require('../middleware/errorHandler');
+const { logManualActivity } = require('../middleware/activityLogger');
+const { ShippingZone, ShippingRate } = require('../models');
+
+const router = express.Router();
+
+// All routes require admin authentication
+router.use(authenticate, requireAdmin);
+
+const ZONE_FIELDS = ['name', 'countries', 'regions', 'isActive'];
+
+const RATE_FIELDS = [
+  'name', 'description', 'rateType', 'price', 'tiers', 'freeShippingThreshold',
+  'minDays', 'maxDays', 'isExpress', 'isActive', 'sortOrder'
+];
+
+// Validation schemas
+const zoneValidation = [
+  body('name').trim().notEmpty().withMessage('Zone name is required'),
+  body('countries').isArray().withMessage('Countries must be a list'),
+  body('countries.*').isString().trim().notEmpty().withMessage('Country names cannot be blank'),
+  body('regions').optional().isArray().withMessage('Regions must be a list'),
+  body('regions.*').isString().trim().notEmpty().withMessage('Region names cannot be blank'),
+  body('regions').custom((regions, { req }) => !regions?.length || req.body.countries.length > 0)
+    .withMessage('Regions need the countries they belong to'),
+  body('isActive').optional().isBoolean()
+];
+
+const rateValidation = [
+  body('name').trim().notEmpty().withMessage('Rate name is required'),
+  body('description').optional({ values: 'null' }).isString().trim(),
+  body('rateType').isIn(['flat', 'weight', 'subtotal']).withMessage('Valid rate type is required'),
+  body('price').if(body('rateType').equals('flat'))
+    .isFloat({ min: 0 }).withMessage('Price cannot be negative'),
+  body('tiers').if(body('rateType').isIn(['weight', 'subtotal']))
+    .isArray({ min: 1 }).withMessage('Add at least one tier'),
+  body('tiers.*.upTo').optional({ values: 'null' }).isFloat({ gt: 0 }).withMessage('Tier limits must be greater than 0'),
+  body('tiers.*.price').isFloat({ min: 0 }).withMessage('Tier prices cannot be negative'),
+  body('tiers').optional().custom((tiers) => {
+    // Every tier but the last needs a limit above the one before it
+    return tiers.every((tier, index) => {
+      if (tier.upTo === null || tier.upTo === undefined) return index === tiers.length - 1;
+      return index === 0 || tier.upTo > tiers[index - 1].upTo;
+    });
+  }).withMessage('Tier limits must go up, with only the last tier open-ended'),
+  body('freeShippingThreshold').optional({ values: 'null' }).isFloat({ min: 0 }).withMessage('Free shipping threshold cannot be negative'),
+  body('minDays').isInt({ min: 0 }).withMessage('Minimum delivery days cannot be negative'),
+  body('maxDays').isInt({ min: 0 }).withMessage('Maximum delivery days cannot be negative')
+    .custom((maxDays, { req }) => parseInt(maxDays) >= parseInt(req.body.minDays))
+    .withMessage('Maximum delivery days cannot be less than the minimum'),
+  body('isExpress').optional().isBoolean(),
+  body('isActive').optional().isBoolean(),
+  body('sortOrder').optional().isInt().withMessage('Sort order must be a whole number')
+];
+
+const pickFields = (source, fields) => {
+  return fields.reduce((picked, key) => {
+    if (source[key] !== undefined) {
+      picked[key] = source[key];
+    }
+    return picked;
+  }, {});
+};
+
+const pickRateFields = (source) => {
+  const fields = pickFields(source, RATE_FIELDS);
+  // Tiers are stored as numbers so they compare correctly when quoting
+  if (fields.tiers) {
+    fields.tiers = fields.tiers.map(tier => ({
+      upTo: tier.upTo === null || tier.upTo === undefined ? null : parseFloat(tier.upTo),
+      price: parseFloat(tier.price)
+    }));
+  }
+  return fields;
+};
+
+const logShippingActivity = (req, action, entityId, description, values = {}) => {
+  return logManualActivity({
+    userId: req.user.id,
+    action,
+    entityType: 'shipping',
+    entityId,
+    description,
+    ...values,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+};
+
+// Get all zones with their rates
+router.get('/zones', asyncHandler(async (req, res) => {
+  const zones = await ShippingZone.findAll({
+    include: [{ model: ShippingRate, as: 'rates' }],
+    order: [
+      ['name', 'ASC'],
+      [{ model: ShippingRate, as: 'rates' }, 'sortOrder', 'ASC']
+    ]
+  });
+
+  res.json({
+    success: true,
+    data: { zones }
+  });
+}));
+
+// Create zone
+router.post('/zones', zoneValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const zone = await ShippingZone.create(pickFields(req.body, ZONE_FIELDS));
+
+  await logShippingActivity(req, 'shipping.zone.create', zone.id, `Created shipping zone: ${zone.name}`);
+
+  res.status(201).json({
+    success: true,
+    message: 'Shipping zone created successfully',
+    data: { zone }
+  });
+}));
+
+// Update zone
+router.put('/zones/:id', zoneValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const zone = await ShippingZone.findByPk(req.params.id);
+  if (!zone) {
+    throw new AppError('Shipping zone not found', 404);
+  }
+
+  const oldValues = zone.toJSON();
+  await zone.update(pickFields(req.body, ZONE_FIELDS));
+
+  await logShippingActivity(req, 'shipping.zone.update', zone.id, `Updated shipping zone: ${zone.name}`, {
+    oldValues,
+    newValues: zone.toJSON()
+  });
+
+  res.json({
+    success: true,
+    message: 'Shipping zone updated successfully',
+    data: { zone }
+  });
+}));
+
+// Delete zone and its rates
+router.delete('/zones/:id', asyncHandler(async (req, res) => {
+  const zone = await ShippingZone.findByPk(req.params.id);
+  if (!zone) {
+    throw new AppError('Shipping zone not found', 404);
+  }
+
+  // Orders keep the method name, so nothing else refers to the rates
+  await ShippingRate.destroy({ where: { zoneId: zone.id } });
+  await zone.destroy();
+
+  await logShippingActivity(req, 'shipping.zone.delete', zone.id, `Deleted shipping zone: ${zone.name}`);
+
+  res.json({
+    success: true,
+    message: 'Shipping zone deleted successfully'
+  });
+}));
+
+// Add a rate to a zone
+router.post('/zones/:id/rates', rateValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const zone = await ShippingZone.findByPk(req.params.id);
+  if (!zone) {
+    throw new AppError('Shipping zone not found', 404);
+  }
+
+  const rate = await ShippingRate.create({
+    ...pickRateFields(req.body),
+    zoneId: zone.id
+  });
+
+  await logShippingActivity(req, 'shipping.rate.create', rate.id, `Added ${rate.name} to shipping zone ${zone.name}`);
+
+  res.status(201).json({
+    success: true,
+    message: 'Shipping rate created successfully',
+    data: { rate }
+  });
+}));
+
+// Update rate
+router.put('/rates/:id', rateValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const rate = await ShippingRate.findByPk(req.params.id);
+  if (!rate) {
+    throw new AppError('Shipping rate not found', 404);
+  }
+
+  const oldValues = rate.toJSON();
+  await rate.update(pickRateFields(req.body));
+
+  await logShippingActivity(req, 'shipping.rate.update', rate.id, `Updated shipping rate: ${rate.name}`, {
+    oldValues,
+    newValues: rate.toJSON()
+  });
+
+  res.json({
+    success: true,
+    message: 'Shipping rate updated successfully',
+    data: { rate }
+  });
+}));
+
+// Delete rate
+router.delete('/rates/:id', asyncHandler(async (req, res) => {
+  const rate = await ShippingRate.findByPk(req.params.id);
+  if (!rate) {
+    throw new AppError('Shipping rate not found', 404);
+  }
+
+  await rate.destroy();
+
+  await logShippingActivity(req, 'shipping.rate.delete', rate.id, `Deleted shipping rate: ${rate.name}`);
+
+  res.json({
+    success: true,
+    message: 'Shipping rate deleted successfully'
+  });
+}));
+
+module.exports = router;
@@ -0,0 +1,301 @@
+const express = require('express');
+const { body, query, validationResult } = require('express-validator');
+const { Op } = require('sequelize');
+const { authenticate, requireAdmin } = require('../middleware/auth');
+const { asyncHandler, AppError } = require('../middleware/errorHandler');
+const { logManualActivity } = require('../middleware/activityLogger');
+const { TaxRate, Order, OrderItem, Refund } = require('../models');
+const { pricesIncludeTax } = require('../utils/taxEngine');
+const { BASE_CURRENCY, toBaseAmount, roundToCurrency } = require('../utils/currency');
+
+const router = express.Router();
+
+// All routes require admin authentication
+router.use(authenticate, requireAdmin);
+
+const TAX_RATE_FIELDS = ['name', 'country', 'state', 'postalCodes', 'taxClass', 'rate', 'isActive'];
+
+// Orders that money was actually taken for
+const TAXED_PAYMENT_STATUSES = ['paid', 'partially_refunded', 'refunded'];
+
+// Validation schemas
+const taxRateValidation = [
+  body('name').trim().notEmpty().withMessage('Rate name is required'),
+  body('country').trim().notEmpty().withMessage('Country is required'),
+  body('state').optional({ values: 'falsy' }).isString().trim(),
+  body('postalCodes').optional().isArray().withMessage('Postal codes must be a list'),
+  body('postalCodes.*').isString().trim().notEmpty().withMessage('Postal codes cannot be blank'),
+  body('taxClass').isIn(['standard', 'reduced', 'digital']).withMessage('Valid tax class is required'),
+  body('rate').isFloat({ min: 0, max: 100 }).withMessage('Rate must be a percentage between 0 and 100'),
+  body('isActive').optional().isBoolean()
+];
+
+const reportValidation = [
+  query('dateFrom').optional({ values: 'falsy' }).isISO8601().withMessage('Valid start date is required'),
+  query('dateTo').optional({ values: 'falsy' }).isISO8601().withMessage('Valid end date is required')
+];
+
+const pickTaxRateFields = (source) => {
+  const fields = TAX_RATE_FIELDS.reduce((picked, key) => {
+    if (source[key] !== undefined) {
+      picked[key] = source[key];
+    }
+    return picked;
+  }, {});
+  // An empty state means the rate covers the whole country
+  if (fields.state === '') fields.state = null;
+  return fields;
+};
+
+// Paid order lines in the date range, one row per rate charged on each line.
+// Amounts are in the base currency, whatever each order was paid in.
+const loadTaxLines = async ({ dateFrom, dateTo }) => {
+  const whereClause = { paymentStatus: { [Op.in]: TAXED_PAYMENT_STATUSES } };
+  if (dateFrom || dateTo) {
+    whereClause.createdAt = {};
+    if (dateFrom) whereClause.createdAt[Op.gte] = new Date(dateFrom);
+    // Dates are whole days, so the end date is included
+    if (dateTo) whereClause.createdAt[Op.lt] = new Date(new Date(dateTo).getTime() + 24 * 60 * 60 * 1000);
+  }
+
+  const orders = await Order.findAll({
+    where: whereClause,
+    include: [{ model: OrderItem, as: 'items' }],
+    order: [['createdAt', 'ASC']]
+  });
+
+  const rows = orders.flatMap(order => {
+    const address = order.shippingAddress || order.billingAddress || {};
+    return order.items.flatMap(item => {
+      const tax = parseFloat(item.taxAmount || 0);
+      const taxable = parseFloat(item.totalPrice) - parseFloat(item.discountAmount || 0) - (order.pricesIncludeTax ? tax : 0);
+      // Lines from before rates were recorded only have their total
+      const breakdown = item.taxBreakdown.length > 0
+        ? item.taxBreakdown
+        : [{ name: tax > 0 ? 'Unrecorded rate' : 'No tax', rate: taxable > 0 ? Math.round(tax / taxable * 10000) / 100 : 0, amount: tax }];
+
+      return breakdown.map(entry => ({
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        placedAt: order.createdAt,
+        currency: order.currency,
+        country: address.country,
+        state: address.state,
+        zipCode: address.zipCode,
+        item: item.productSnapshot.name,
+        jurisdiction: entry.name,
+        rate: entry.rate,
+        taxable: toBaseAmount(taxable, order.exchangeRate),
+        tax: toBaseAmount(entry.amount, order.exchangeRate)
+      }));
+    });
+  });
+
+  return { orders, rows };
+};
+
+// Get tax rates
+router.get('/rates', asyncHandler(async (req, res) => {
+  const taxRates = await TaxRate.findAll({
+    order: [['country', 'ASC'], ['state', 'ASC'], ['name', 'ASC']]
+  });
+
+  res.json({
+    success: true,
+    data: {
+      taxRates,
+      pricesIncludeTax: pricesIncludeTax()
+    }
+  });
+}));
+
+// Create tax rate
+router.post('/rates', taxRateValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const taxRate = await TaxRate.create(pickTaxRateFields(req.body));
+
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'tax.rate.create',
+    entityType: 'tax',
+    entityId: taxRate.id,
+    description: `Created tax rate: ${taxRate.name}`,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.status(201).json({
+    success: true,
+    message: 'Tax rate created successfully',
+    data: { taxRate }
+  });
+}));
+
+// Update tax rate
+router.put('/rates/:id', taxRateValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const taxRate = await TaxRate.findByPk(req.params.id);
+  if (!taxRate) {
+    throw new AppError('Tax rate not found', 404);
+  }
+
+  const oldValues = taxRate.toJSON();
+  await taxRate.update(pickTaxRateFields(req.body));
+
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'tax.rate.update',
+    entityType: 'tax',
+    entityId: taxRate.id,
+    description: `Updated tax rate: ${taxRate.name}`,
+    oldValues,
+    newValues: taxRate.toJSON(),
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.json({
+    success: true,
+    message: 'Tax rate updated successfully',
+    data: { taxRate }
+  });
+}));
+
+// Delete tax rate. Orders keep their own copy of the rates they were charged.
+router.delete('/rates/:id', asyncHandler(async (req, res) => {
+  const taxRate = await TaxRate.findByPk(req.params.id);
+  if (!taxRate) {
+    throw new AppError('Tax rate not found', 404);
+  }
+
+  await taxRate.destroy();
+
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'tax.rate.delete',
+    entityType: 'tax',
+    entityId: taxRate.id,
+    description: `Deleted tax rate: ${taxRate.name}`,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.json({
+    success: true,
+    message: 'Tax rate deleted successfully'
+  });
+}));
+
+// Get tax collected per rate for a date range
+router.get('/report', reportValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const { orders, rows } = await loadTaxLines(req.query);
+
+  const groups = new Map();
+  rows.forEach(row => {
+    const key = `${row.jurisdiction}|${row.rate}`;
+    const group = groups.get(key) || { jurisdiction: row.jurisdiction, rate: row.rate, taxable: 0, tax: 0 };
+    group.taxable += row.taxable;
+    group.tax += row.tax;
+    groups.set(key, group);
+  });
+
+  const refunds = orders.length > 0
+    ? await Refund.findAll({
+        where: { orderId: { [Op.in]: orders.map(order => order.id) } },
+        attributes: ['orderId', 'taxAmount']
+      })
+    : [];
+  const exchangeRates = new Map(orders.map(order => [order.id, order.exchangeRate]));
+  const taxRefunded = refunds.reduce((sum, refund) =>
+    sum + toBaseAmount(refund.taxAmount, exchangeRates.get(refund.orderId)), 0);
+  const taxCollected = orders.reduce((sum, order) => sum + toBaseAmount(order.taxAmount, order.exchangeRate), 0);
+
+  res.json({
+    success: true,
+    data: {
+      jurisdictions: [...groups.values()]
+        .map(group => ({
+          ...group,
+          taxable: roundToCurrency(group.taxable),
+          tax: roundToCurrency(group.tax)
+        }))
+        .sort((a, b) => b.tax - a.tax),
+      currency: BASE_CURRENCY,
+      totals: {
+        orders: orders.length,
+        taxCollected: roundToCurrency(taxCollected),
+        taxRefunded: roundToCurrency(taxRefunded),
+        netTax: roundToCurrency(taxCollected - taxRefunded)
+      }
+    }
+  });
+}));
+
+// Export the tax charged on each line as CSV
+router.get('/report/export', reportValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const { rows } = await loadTaxLines(req.query);
+
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'tax.report.export',
+    entityType: 'tax',
+    description: `Exported tax report${req.query.dateFrom ? ` from ${req.query.dateFrom}` : ''}${req.query.dateTo ? ` to ${req.query.dateTo}` : ''}`,
+    metadata: { dateFrom: req.query.dateFrom || null, dateTo: req.query.dateTo || null },
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.setHeader('Content-Type', 'text/csv');
+  res.setHeader('Content-Disposition', `attachment; filename="tax-report-${Date.now()}.csv"`);
+  res.send(taxLinesToCSV(rows));
+}));
+
+// Helper function to convert tax lines to CSV
+function taxLinesToCSV(rows) {
+  const columns = [
+    ['Order Number', row => row.orderNumber],
+    ['Placed', row => row.placedAt.toISOString()],
+    ['Country', row => row.country],
+    ['State', row => row.state],
+    ['ZIP Code', row => row.zipCode],
+    ['Item', row => row.item],
+    ['Paid In', row => row.currency],
+    ['Jurisdiction', row => row.jurisdiction],
+    ['Rate %', row => row.rate],
+    [`Taxable Amount (${BASE_CURRENCY})`, row => row.taxable.toFixed(2)],
+    [`Tax (${BASE_CURRENCY})`, row => row.tax.toFixed(2)]
+  ];
+
+  const escape = (value) => {
+    if (value === null || value === undefined) return '';
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const csvRows = [columns.map(([header]) => header).join(',')];
+  for (const row of rows) {
+    csvRows.push(columns.map(([, getValue]) => escape(getValue(row))).join(','));
+  }
+
+  return csvRows.join('\n');
+}
+
+module.exports = router;
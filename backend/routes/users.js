@@ -4,6 +4,7 @@ const { authenticate, requireAdmin } = require('../middleware/auth');
 const { asyncHandler, AppError } = require('../middleware/errorHandler');
 const { logManualActivity } = require('../middleware/activityLogger');
 const { User, Order, Review, CartItem } = require('../models');
+const { revokeUserSessions } = require('../utils/sessions');
 const { Op } = require('sequelize');
 
 const router = express.Router();
@@ -336,6 +337,36 @@ router.delete('/admin/:id', authenticate, requireAdmin, asyncHandler(async (req,
   });
 }));
 
+// Admin: Sign a user out of every device
+router.post('/admin/:id/logout', authenticate, requireAdmin, asyncHandler(async (req, res) => {
+  const { id } = req.params;
+
+  const user = await User.findByPk(id);
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  const revoked = await revokeUserSessions(user.id, 'admin');
+
+  // Log activity
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'user.session.admin_revoke',
+    entityType: 'user',
+    entityId: user.id,
+    description: `Admin signed ${user.email} out of ${revoked} session(s)`,
+    severity: 'medium',
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.json({
+    success: true,
+    message: 'User signed out of all devices',
+    data: { revoked }
+  });
+}));
+
 // Admin: Get user statistics
 router.get('/admin/stats/overview', authenticate, requireAdmin, asyncHandler(async (req, res) => {
   const totalUsers = await User.count();
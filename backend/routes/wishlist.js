@@ -0,0 +1,179 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const { authenticate, requireBuyer } = require('../middleware/auth');
+const { asyncHandler, AppError } = require('../middleware/errorHandler');
+const { logManualActivity } = require('../middleware/activityLogger');
+const { WishlistItem, CartItem, Product } = require('../models');
+
+const router = express.Router();
+
+// All routes require a signed in buyer
+router.use(authenticate, requireBuyer);
+
+const productAttributes = [
+  'id', 'name', 'slug', 'price', 'compareAtPrice', 'mainImage',
+  'stockQuantity', 'isDigital', 'isPhysical', 'platform'
+];
+
+// Attach the price drop and stock indicators shown on the wishlist
+const serializeWishlistItem = (item) => ({
+  ...item.toJSON(),
+  priceDrop: parseFloat(item.getPriceDrop().toFixed(2)),
+  isInStock: item.product.stockQuantity > 0,
+  isBackInStock: item.isBackInStock()
+});
+
+// Save a product, or return the existing entry if it is already saved
+const saveToWishlist = async (userId, product) => {
+  const [wishlistItem, created] = await WishlistItem.findOrCreate({
+    where: { userId, productId: product.id },
+    defaults: {
+      priceAtAdd: product.price,
+      inStockAtAdd: product.stockQuantity > 0
+    }
+  });
+
+  // Expose the product the same way an include would
+  wishlistItem.product = product;
+  wishlistItem.setDataValue('product', product);
+  return { wishlistItem, created };
+};
+
+// Get user's wishlist
+router.get('/', asyncHandler(async (req, res) => {
+  const wishlistItems = await WishlistItem.findAll({
+    where: { userId: req.user.id },
+    include: [
+      {
+        model: Product,
+        as: 'product',
+        where: { isActive: true },
+        attributes: productAttributes
+      }
+    ],
+    order: [['createdAt', 'DESC']]
+  });
+
+  res.json({
+    success: true,
+    data: {
+      items: wishlistItems.map(serializeWishlistItem)
+    }
+  });
+}));
+
+// Add product to wishlist
+router.post('/', [
+  body('productId').isUUID().withMessage('Valid product ID is required')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new AppError(errors.array()[0].msg, 400);
+  }
+
+  const product = await Product.findOne({
+    where: { id: req.body.productId, isActive: true },
+    attributes: productAttributes
+  });
+
+  if (!product) {
+    throw new AppError('Product not found or unavailable', 404);
+  }
+
+  const { wishlistItem, created } = await saveToWishlist(req.user.id, product);
+
+  if (created) {
+    // Log activity
+    await logManualActivity({
+      userId: req.user.id,
+      action: 'wishlist.add',
+      entityType: 'wishlist',
+      entityId: wishlistItem.id,
+      description: `Saved ${product.name} to wishlist`,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+  }
+
+  res.status(created ? 201 : 200).json({
+    success: true,
+    message: created ? 'Item saved to wishlist' : 'Item is already in your wishlist',
+    data: { wishlistItem: serializeWishlistItem(wishlistItem) }
+  });
+}));
+
+// Move a cart item to the wishlist (save for later)
+router.post('/from-cart/:cartItemId', asyncHandler(async (req, res) => {
+  const cartItem = await CartItem.findOne({
+    where: { id: req.params.cartItemId, userId: req.user.id },
+    include: [
+      {
+        model: Product,
+        as: 'product',
+        attributes: productAttributes
+      }
+    ]
+  });
+
+  if (!cartItem) {
+    throw new AppError('Cart item not found', 404);
+  }
+
+  const { wishlistItem, created } = await saveToWishlist(req.user.id, cartItem.product);
+  await cartItem.destroy();
+
+  // Log activity
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'wishlist.add',
+    entityType: 'wishlist',
+    entityId: wishlistItem.id,
+    description: `Moved ${cartItem.product.name} from cart to wishlist`,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  res.status(created ? 201 : 200).json({
+    success: true,
+    message: 'Item moved to wishlist',
+    data: { wishlistItem: serializeWishlistItem(wishlistItem) }
+  });
+}));
+
+// Remove product from wishlist
+router.delete('/:productId', asyncHandler(async (req, res) => {
+  const wishlistItem = await WishlistItem.findOne({
+    where: { userId: req.user.id, productId: req.params.productId },
+    include: [
+      {
+        model: Product,
+        as: 'product',
+        attributes: ['name']
+      }
+    ]
+  });
+
+  if (!wishlistItem) {
+    throw new AppError('Item not found in wishlist', 404);
+  }
+
+  // Log activity before deletion
+  await logManualActivity({
+    userId: req.user.id,
+    action: 'wishlist.remove',
+    entityType: 'wishlist',
+    entityId: wishlistItem.id,
+    description: `Removed ${wishlistItem.product.name} from wishlist`,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  await wishlistItem.destroy();
+
+  res.json({
+    success: true,
+    message: 'Item removed from wishlist'
+  });
+}));
+
+module.exports = router;
@@ -0,0 +1,96 @@
+'use strict';
+const { v4: uuidv4 } = require('uuid');
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const now = new Date();
+    const domesticZoneId = uuidv4();
+    const worldZoneId = uuidv4();
+
+    await queryInterface.bulkInsert('shipping_zones', [
+      {
+        id: domesticZoneId,
+        name: 'United States',
+        // Postgres array literals; an empty JS array has no type to insert as
+        countries: '{US,USA,"United States"}',
+        regions: '{}',
+        is_active: true,
+        created_at: now,
+        updated_at: now
+      },
+      {
+        id: worldZoneId,
+        name: 'Rest of World',
+        countries: '{}',
+        regions: '{}',
+        is_active: true,
+        created_at: now,
+        updated_at: now
+      }
+    ], {});
+
+    const rate = (zoneId, sortOrder, fields) => ({
+      id: uuidv4(),
+      zone_id: zoneId,
+      description: null,
+      rate_type: 'flat',
+      price: 0,
+      tiers: JSON.stringify([]),
+      free_shipping_threshold: null,
+      is_express: false,
+      is_active: true,
+      sort_order: sortOrder,
+      created_at: now,
+      updated_at: now,
+      ...fields
+    });
+
+    await queryInterface.bulkInsert('shipping_rates', [
+      rate(domesticZoneId, 0, {
+        name: 'Standard Shipping',
+        description: 'Ground delivery with tracking',
+        rate_type: 'weight',
+        tiers: JSON.stringify([
+          { upTo: 2, price: 10 },
+          { upTo: 10, price: 15 },
+          { upTo: null, price: 25 }
+        ]),
+        free_shipping_threshold: 75,
+        min_days: 5,
+        max_days: 7
+      }),
+      rate(domesticZoneId, 1, {
+        name: 'Express Shipping',
+        description: 'Priority handling and faster delivery',
+        price: 20,
+        is_express: true,
+        min_days: 2,
+        max_days: 3
+      }),
+      rate(domesticZoneId, 2, {
+        name: 'Overnight Shipping',
+        description: 'Next business day delivery',
+        price: 35,
+        is_express: true,
+        min_days: 1,
+        max_days: 1
+      }),
+      rate(worldZoneId, 0, {
+        name: 'International Shipping',
+        description: 'Tracked international delivery',
+        rate_type: 'subtotal',
+        tiers: JSON.stringify([
+          { upTo: 100, price: 25 },
+          { upTo: null, price: 40 }
+        ]),
+        min_days: 7,
+        max_days: 14
+      })
+    ], {});
+  },
+
+  down: async (queryInterface, Sequelize) => {
+    await queryInterface.bulkDelete('shipping_rates', null, {});
+    await queryInterface.bulkDelete('shipping_zones', null, {});
+  }
+};
@@ -0,0 +1,31 @@
+'use strict';
+const { v4: uuidv4 } = require('uuid');
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const now = new Date();
+
+    const taxRate = (fields) => ({
+      id: uuidv4(),
+      state: null,
+      // Postgres array literal; an empty JS array has no type to insert as
+      postal_codes: '{}',
+      tax_class: 'standard',
+      is_active: true,
+      created_at: now,
+      updated_at: now,
+      ...fields
+    });
+
+    await queryInterface.bulkInsert('tax_rates', [
+      taxRate({ name: 'NY State Sales Tax', country: 'USA', state: 'NY', rate: 4 }),
+      taxRate({ name: 'NY State Sales Tax', country: 'USA', state: 'NY', tax_class: 'digital', rate: 4 }),
+      taxRate({ name: 'New York City Sales Tax', country: 'USA', state: 'NY', postal_codes: '{100,101,102,103,104}', rate: 4.875 }),
+      taxRate({ name: 'California Sales Tax', country: 'USA', state: 'CA', rate: 7.25 })
+    ], {});
+  },
+
+  down: async (queryInterface, Sequelize) => {
+    await queryInterface.bulkDelete('tax_rates', null, {});
+  }
+};
@@ -0,0 +1,31 @@
+'use strict';
+const { v4: uuidv4 } = require('uuid');
+
+module.exports = {
+  up: async (queryInterface, Sequelize) => {
+    const now = new Date();
+
+    // Rates against the USD base currency; keep them up to date from the admin
+    const currency = (code, name, exchangeRate, sortOrder) => ({
+      id: uuidv4(),
+      code,
+      name,
+      exchange_rate: exchangeRate,
+      is_active: true,
+      sort_order: sortOrder,
+      created_at: now,
+      updated_at: now
+    });
+
+    await queryInterface.bulkInsert('currencies', [
+      currency('EUR', 'Euro', 0.92, 1),
+      currency('GBP', 'British Pound', 0.79, 2),
+      currency('CAD', 'Canadian Dollar', 1.36, 3),
+      currency('JPY', 'Japanese Yen', 149.5, 4)
+    ], {});
+  },
+
+  down: async (queryInterface, Sequelize) => {
+    await queryInterface.bulkDelete('currencies', null, {});
+  }
+};
@@ -22,10 +22,19 @@ const reviewRoutes = require('./routes/reviews');
 const adminRoutes = require('./routes/admin');
 const paymentRoutes = require('./routes/payments');
 const uploadRoutes = require('./routes/upload');
+const promotionRoutes = require('./routes/promotions');
+const wishlistRoutes = require('./routes/wishlist');
+const alertRoutes = require('./routes/alerts');
+const returnRoutes = require('./routes/returns');
+const shippingRoutes = require('./routes/shipping');
+const taxRoutes = require('./routes/tax');
+const currencyRoutes = require('./routes/currencies');
+const addressRoutes = require('./routes/addresses');
 
 // Import middleware
 const { errorHandler, notFound } = require('./middleware/errorHandler');
 const { logActivity } = require('./middleware/activityLogger');
+const { csrfProtection } = require('./middleware/csrf');
 
 const app = express();
 const PORT = process.env.PORT || 5000;
@@ -54,7 +63,9 @@ const limiter = rateLimit({
 });
 app.use('/api/', limiter);
 
-// Body parsing middleware
+// Body parsing middleware. Stripe signs the webhook's raw body, so that route
+// keeps it unparsed; the JSON parser skips bodies that were already read.
+app.use('/api/payments/webhook', express.raw({ type: 'application/json' }));
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 app.use(cookieParser());
@@ -64,9 +75,12 @@ app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:5173',
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-CSRF-Token']
 }));
 
+// CSRF protection for cookie-authenticated requests
+app.use('/api/', csrfProtection);
+
 // Compression middleware
 app.use(compression());
 
@@ -104,6 +118,14 @@ app.use('/api/reviews', reviewRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/payments', paymentRoutes);
 app.use('/api/upload', uploadRoutes);
+app.use('/api/promotions', promotionRoutes);
+app.use('/api/wishlist', wishlistRoutes);
+app.use('/api/alerts', alertRoutes);
+app.use('/api/returns', returnRoutes);
+app.use('/api/shipping', shippingRoutes);
+app.use('/api/tax', taxRoutes);
+app.use('/api/currencies', currencyRoutes);
+app.use('/api/addresses', addressRoutes);
 
 // Error handling middleware
 app.use(notFound);
@@ -0,0 +1,172 @@
+const { Address } = require('../models');
+const { AppError } = require('../middleware/errorHandler');
+
+const ADDRESS_FIELDS = ['street', 'city', 'state', 'zipCode', 'country'];
+
+// Countries are stored as typed (shipping zones and tax rates match on that),
+// so common names are mapped to ISO codes only to pick a postal code format
+const COUNTRY_ALIASES = {
+  'united states': 'US',
+  'united states of america': 'US',
+  usa: 'US',
+  canada: 'CA',
+  'united kingdom': 'GB',
+  'great britain': 'GB',
+  uk: 'GB',
+  germany: 'DE',
+  france: 'FR',
+  spain: 'ES',
+  italy: 'IT',
+  netherlands: 'NL',
+  australia: 'AU',
+  japan: 'JP',
+  india: 'IN',
+  brazil: 'BR',
+  mexico: 'MX'
+};
+
+const fiveDigits = { pattern: /^(\d{5})$/, format: ([, code]) => code, example: '12345' };
+
+// Each format matches the code with spaces and dashes made optional, and
+// rebuilds it in the way the country's post office writes it
+const POSTAL_CODE_FORMATS = {
+  US: {
+    pattern: /^(\d{5})(?:[ -]?(\d{4}))?$/,
+    format: ([, zip, plus4]) => (plus4 ? `${zip}-${plus4}` : zip),
+    example: '12345 or 12345-6789'
+  },
+  CA: {
+    pattern: /^([A-Z]\d[A-Z]) ?(\d[A-Z]\d)$/,
+    format: ([, fsa, ldu]) => `${fsa} ${ldu}`,
+    example: 'K1A 0B1'
+  },
+  GB: {
+    pattern: /^([A-Z]{1,2}\d[A-Z\d]?) ?(\d[A-Z]{2})$/,
+    format: ([, outward, inward]) => `${outward} ${inward}`,
+    example: 'SW1A 1AA'
+  },
+  NL: {
+    pattern: /^(\d{4}) ?([A-Z]{2})$/,
+    format: ([, digits, letters]) => `${digits} ${letters}`,
+    example: '1234 AB'
+  },
+  JP: {
+    pattern: /^(\d{3})[ -]?(\d{4})$/,
+    format: ([, first, second]) => `${first}-${second}`,
+    example: '123-4567'
+  },
+  BR: {
+    pattern: /^(\d{5})[ -]?(\d{3})$/,
+    format: ([, first, second]) => `${first}-${second}`,
+    example: '12345-678'
+  },
+  AU: { pattern: /^(\d{4})$/, format: ([, code]) => code, example: '2000' },
+  IN: { pattern: /^(\d{3}) ?(\d{3})$/, format: ([, first, second]) => `${first}${second}`, example: '110001' },
+  DE: fiveDigits,
+  FR: fiveDigits,
+  ES: fiveDigits,
+  IT: fiveDigits,
+  MX: fiveDigits
+};
+
+const toCountryCode = (country) => {
+  const value = String(country || '').trim();
+  if (COUNTRY_ALIASES[value.toLowerCase()]) return COUNTRY_ALIASES[value.toLowerCase()];
+  return /^[A-Za-z]{2}$/.test(value) ? value.toUpperCase() : null;
+};
+
+/**
+ * The postal code in its country's canonical format. Countries without a
+ * known format only have their whitespace and case tidied.
+ * Throws a 400 when the code doesn't fit the country's format.
+ */
+const normalizePostalCode = (postalCode, country) => {
+  const value = String(postalCode || '').trim().toUpperCase().replace(/\s+/g, ' ');
+  if (!value) {
+    throw new AppError('Postal code is required', 400);
+  }
+
+  const format = POSTAL_CODE_FORMATS[toCountryCode(country)];
+  if (!format) {
+    return value;
+  }
+
+  const match = value.replace(/ ?- ?/g, '-').match(format.pattern);
+  if (!match) {
+    throw new AppError(`Postal code "${value}" is not valid for ${String(country).trim()}, e.g. ${format.example}`, 400);
+  }
+  return format.format(match);
+};
+
+// Trim every field and put the postal code in its canonical format
+const normalizeAddress = (address) => {
+  const normalized = Object.entries(address || {}).reduce((result, [field, value]) => {
+    result[field] = typeof value === 'string' ? value.trim() : value;
+    return result;
+  }, {});
+
+  const missing = ADDRESS_FIELDS.filter(field => field !== 'zipCode' && !normalized[field]);
+  if (missing.length > 0) {
+    throw new AppError(`Address is missing ${missing.join(', ')}`, 400);
+  }
+
+  normalized.zipCode = normalizePostalCode(normalized.zipCode, normalized.country);
+  return normalized;
+};
+
+// The fields an order records for an address book entry or checkout form
+const toOrderAddress = (address) => ADDRESS_FIELDS.reduce((result, field) => {
+  result[field] = address[field];
+  return result;
+}, {});
+
+// Make one address the default, clearing the flag on the user's others
+const setDefaultAddress = async (address) => {
+  await Address.update(
+    { isDefault: false },
+    { where: { userId: address.userId, isDefault: true } }
+  );
+  await address.update({ isDefault: true });
+};
+
+/**
+ * Users who registered before the address book existed have their address on
+ * the user record; move it over the first time they open the book.
+ */
+const importLegacyAddress = async (user) => {
+  const legacy = user.shippingAddress;
+  if (!legacy || !ADDRESS_FIELDS.every(field => legacy[field])) {
+    return null;
+  }
+
+  let address;
+  try {
+    address = normalizeAddress(toOrderAddress(legacy));
+  } catch (error) {
+    // An old address that no longer validates is left for the user to re-enter
+    return null;
+  }
+
+  const imported = await Address.create({
+    ...address,
+    userId: user.id,
+    label: 'Home',
+    firstName: user.firstName,
+    lastName: user.lastName,
+    phone: user.phone,
+    isDefault: true
+  });
+
+  // Cleared so an address the user later deletes isn't imported again
+  await user.update({ shippingAddress: null });
+  return imported;
+};
+
+module.exports = {
+  ADDRESS_FIELDS,
+  normalizePostalCode,
+  normalizeAddress,
+  toOrderAddress,
+  setDefaultAddress,
+  importLegacyAddress
+};
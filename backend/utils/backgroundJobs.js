@@ -1,7 +1,12 @@
 const cron = require('cron');
-const { Order, User, Product, Review } = require('../models');
+const { Order, User, Product, Review, ProductAlert, InventoryTransaction } = require('../models');
 const { logManualActivity } = require('../middleware/activityLogger');
-const { sendOrderShippedEmail, sendReviewRequestEmail } = require('./emailService');
+const { transitionOrderStatus } = require('./orderStatus');
+const {
+  sendReviewRequestEmail,
+  sendBackInStockEmail,
+  sendPriceDropEmail
+} = require('./emailService');
 const { Op } = require('sequelize');
 
 // Background job manager
@@ -32,6 +37,9 @@ class BackgroundJobManager {
     // Inventory alerts
     this.startInventoryAlertJob();
 
+    // Shopper back in stock and price drop alerts
+    this.startProductAlertJob();
+
     // Analytics aggregation
     this.startAnalyticsJob();
 
@@ -141,6 +149,28 @@ class BackgroundJobManager {
     console.log('Inventory alert job started');
   }
 
+  // Product alert job
+  startProductAlertJob() {
+    const job = new cron.CronJob('*/15 * * * *', async () => { // Every 15 minutes
+      try {
+        await this.sendProductAlerts();
+      } catch (error) {
+        console.error('Product alert job error:', error);
+        await logManualActivity({
+          action: 'background.product_alert.error',
+          entityType: 'system',
+          description: 'Product alert job failed',
+          metadata: { error: error.message },
+          severity: 'medium'
+        });
+      }
+    });
+
+    this.jobs.set('productAlert', job);
+    job.start();
+    console.log('Product alert job started');
+  }
+
   // Analytics aggregation job
   startAnalyticsJob() {
     const job = new cron.CronJob('0 1 * * *', async () => { // Daily at 1 AM
@@ -169,15 +199,10 @@ class BackgroundJobManager {
       where: {
         status: 'confirmed',
         paymentStatus: 'paid',
-        shippedAt: null
+        shippedAt: null,
+        // All-digital orders are delivered as keys and never ship
+        shippingAddress: { [Op.ne]: null }
       },
-      include: [
-        {
-          model: User,
-          as: 'user',
-          attributes: ['id', 'firstName', 'lastName', 'email']
-        }
-      ],
       limit: 10
     });
 
@@ -193,19 +218,13 @@ class BackgroundJobManager {
         // Simulate shipping
         const trackingNumber = `TRK${Date.now()}${Math.floor(Math.random() * 1000)}`;
         
-        await order.update({
-          status: 'shipped',
-          shippedAt: new Date(),
+        // Sends the shipping email as well
+        await transitionOrderStatus(order, 'shipped', {
+          reason: 'Shipped automatically',
+          isSystemGenerated: true,
           trackingNumber
         });
 
-        // Send shipping email
-        try {
-          await sendOrderShippedEmail(order.user, order, trackingNumber);
-        } catch (error) {
-          console.error(`Failed to send shipping email for order ${order.id}:`, error);
-        }
-
         // Log activity
         await logManualActivity({
           userId: order.userId,
@@ -324,6 +343,75 @@ class BackgroundJobManager {
     }
   }
 
+  // Email shoppers whose back in stock or price drop alerts have been met
+  async sendProductAlerts() {
+    const pendingAlerts = await ProductAlert.findAll({
+      where: { notifiedAt: null },
+      include: [
+        {
+          model: Product,
+          as: 'product',
+          where: { isActive: true },
+          attributes: ['id', 'name', 'slug', 'price', 'stockQuantity']
+        },
+        {
+          model: User,
+          as: 'user',
+          where: { isActive: true },
+          attributes: ['id', 'firstName', 'lastName', 'email']
+        }
+      ],
+      limit: 200
+    });
+
+    let sentCount = 0;
+
+    for (const alert of pendingAlerts) {
+      const { product, user } = alert;
+
+      if (alert.type === 'back_in_stock') {
+        if (product.stockQuantity <= 0) continue;
+
+        // Only a restock or return after subscribing counts
+        const restock = await InventoryTransaction.findOne({
+          where: {
+            productId: product.id,
+            transactionType: { [Op.in]: ['purchase', 'return'] },
+            newStock: { [Op.gt]: 0 },
+            createdAt: { [Op.gte]: alert.subscribedAt }
+          }
+        });
+        if (!restock) continue;
+      } else if (!alert.isPriceMet(product.price)) {
+        continue;
+      }
+
+      try {
+        if (alert.type === 'back_in_stock') {
+          await sendBackInStockEmail(user, product);
+        } else {
+          await sendPriceDropEmail(user, product);
+        }
+        await alert.update({ notifiedAt: new Date() });
+        sentCount++;
+      } catch (error) {
+        console.error(`Failed to send ${alert.type} alert ${alert.id}:`, error);
+      }
+    }
+
+    if (sentCount > 0) {
+      await logManualActivity({
+        action: 'background.product_alert',
+        entityType: 'system',
+        description: `Sent ${sentCount} product alert emails`,
+        metadata: { sentCount },
+        severity: 'low'
+      });
+
+      console.log(`Product alerts: ${sentCount} emails sent`);
+    }
+  }
+
   // Aggregate analytics
   async aggregateAnalytics() {
     const yesterday = new Date();
@@ -0,0 +1,156 @@
+const { literal } = require('sequelize');
+const { Currency } = require('../models');
+const { AppError } = require('../middleware/errorHandler');
+
+// Catalog prices, promotions, shipping and tax are all kept in this currency
+const BASE_CURRENCY = (process.env.BASE_CURRENCY || 'USD').toUpperCase();
+
+// Currencies without minor units. Stripe takes these as whole amounts.
+const ZERO_DECIMAL_CURRENCIES = [
+  'BIF', 'CLP', 'DJF', 'GNF', 'JPY', 'KMF', 'KRW', 'MGA',
+  'PYG', 'RWF', 'UGX', 'VND', 'VUV', 'XAF', 'XOF', 'XPF'
+];
+
+// Stripe takes these in thousandths but only charges whole tens of them,
+// so they are kept to two decimal places like everything else
+const THREE_DECIMAL_CURRENCIES = ['BHD', 'JOD', 'KWD', 'OMR', 'TND'];
+
+const getCurrencyDecimals = (code) => ZERO_DECIMAL_CURRENCIES.includes(code) ? 0 : 2;
+
+const roundToCurrency = (amount, code = BASE_CURRENCY) => {
+  const factor = 10 ** getCurrencyDecimals(code);
+  return Math.round(amount * factor) / factor;
+};
+
+// Amounts as Stripe expects them, in the currency's smallest unit
+const getMinorUnitFactor = (code) => {
+  if (ZERO_DECIMAL_CURRENCIES.includes(code)) return 1;
+  if (THREE_DECIMAL_CURRENCIES.includes(code)) return 1000;
+  return 100;
+};
+
+const toMinorUnits = (amount, code) => Math.round(parseFloat(amount) * getMinorUnitFactor(code));
+
+const fromMinorUnits = (amount, code) => amount / getMinorUnitFactor(code);
+
+const formatMoney = (amount, code = BASE_CURRENCY) => {
+  const decimals = getCurrencyDecimals(code);
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: code,
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals
+  }).format(parseFloat(amount || 0));
+};
+
+const toCurrencyJSON = (currency) => ({
+  code: currency.code,
+  name: currency.name,
+  exchangeRate: parseFloat(currency.exchangeRate),
+  decimals: getCurrencyDecimals(currency.code),
+  minorUnitFactor: getMinorUnitFactor(currency.code),
+  isBase: currency.code === BASE_CURRENCY
+});
+
+const getBaseCurrency = () => toCurrencyJSON({
+  code: BASE_CURRENCY,
+  name: process.env.BASE_CURRENCY_NAME || BASE_CURRENCY,
+  exchangeRate: 1
+});
+
+// The currencies shoppers can pick, base currency first
+const getActiveCurrencies = async () => {
+  const currencies = await Currency.findAll({
+    where: { isActive: true },
+    order: [['sortOrder', 'ASC'], ['code', 'ASC']]
+  });
+
+  return [
+    getBaseCurrency(),
+    ...currencies.filter(currency => currency.code !== BASE_CURRENCY).map(toCurrencyJSON)
+  ];
+};
+
+const getCurrency = async (code) => {
+  const currencyCode = (code || BASE_CURRENCY).toUpperCase();
+  if (currencyCode === BASE_CURRENCY) {
+    return getBaseCurrency();
+  }
+
+  const currency = await Currency.findOne({ where: { code: currencyCode, isActive: true } });
+  if (!currency) {
+    throw new AppError(`${currencyCode} is not an accepted currency`, 400);
+  }
+  return toCurrencyJSON(currency);
+};
+
+const convertAmount = (amount, currency) => roundToCurrency(parseFloat(amount || 0) * currency.exchangeRate, currency.code);
+
+/**
+ * Turn an order priced in the base currency into the shopper's currency.
+ * Unit prices are converted and rounded first and everything else is built
+ * back up from them, so the order's parts always add up to what is charged.
+ */
+const convertOrderAmounts = ({ items, shippingAmount, shippingDiscount, pricesIncludeTax }, currency) => {
+  const convertedItems = items.map(item => {
+    const unitPrice = convertAmount(item.unitPrice, currency);
+    const taxBreakdown = (item.taxBreakdown || []).map(entry => ({
+      ...entry,
+      amount: convertAmount(entry.amount, currency)
+    }));
+    return {
+      ...item,
+      unitPrice,
+      totalPrice: roundToCurrency(unitPrice * item.quantity, currency.code),
+      discountAmount: convertAmount(item.discountAmount, currency),
+      taxAmount: taxBreakdown.length > 0
+        ? roundToCurrency(taxBreakdown.reduce((sum, entry) => sum + entry.amount, 0), currency.code)
+        : convertAmount(item.taxAmount, currency),
+      taxBreakdown
+    };
+  });
+
+  const sum = (key) => roundToCurrency(convertedItems.reduce((total, item) => total + item[key], 0), currency.code);
+  const subtotal = sum('totalPrice');
+  const taxAmount = sum('taxAmount');
+  const convertedShipping = convertAmount(shippingAmount, currency);
+  const discountAmount = roundToCurrency(
+    sum('discountAmount') + Math.min(convertAmount(shippingDiscount, currency), convertedShipping),
+    currency.code
+  );
+
+  return {
+    items: convertedItems,
+    subtotal,
+    taxAmount,
+    shippingAmount: convertedShipping,
+    discountAmount,
+    total: roundToCurrency(subtotal + (pricesIncludeTax ? 0 : taxAmount) + convertedShipping - discountAmount, currency.code)
+  };
+};
+
+// Orders are kept in the currency they were placed in. Reports add them up
+// in the base currency by undoing the rate each order was placed at.
+const toBaseAmount = (amount, exchangeRate) => roundToCurrency(parseFloat(amount || 0) / (parseFloat(exchangeRate) || 1));
+
+const baseAmountSql = (column, table, orderTable = table) => {
+  const prefix = table ? `"${table}".` : '';
+  const orderPrefix = orderTable ? `"${orderTable}".` : '';
+  return literal(`${prefix}"${column}" / COALESCE(NULLIF(${orderPrefix}"exchange_rate", 0), 1)`);
+};
+
+module.exports = {
+  BASE_CURRENCY,
+  getCurrencyDecimals,
+  roundToCurrency,
+  toMinorUnits,
+  fromMinorUnits,
+  formatMoney,
+  toCurrencyJSON,
+  getActiveCurrencies,
+  getCurrency,
+  convertAmount,
+  convertOrderAmounts,
+  toBaseAmount,
+  baseAmountSql
+};
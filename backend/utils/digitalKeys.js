@@ -0,0 +1,201 @@
+const crypto = require('crypto');
+const { DigitalKey, OrderItem, Product } = require('../models');
+const { logManualActivity } = require('../middleware/activityLogger');
+const { adjustStock } = require('./inventory');
+
+const CIPHER = 'aes-256-gcm';
+
+const getSecret = () => {
+  const secret = process.env.DIGITAL_KEY_SECRET;
+  if (!secret) {
+    throw new Error('DIGITAL_KEY_SECRET is not configured');
+  }
+  return crypto.createHash('sha256').update(secret).digest();
+};
+
+// Stored as iv:authTag:ciphertext, all base64
+const encryptKey = (plainKey) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(CIPHER, getSecret(), iv);
+  const encrypted = Buffer.concat([cipher.update(plainKey, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join(':');
+};
+
+const decryptKey = (encryptedKey) => {
+  const [iv, authTag, encrypted] = encryptedKey.split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv(CIPHER, getSecret(), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
+
+const hashKey = (plainKey) => {
+  return crypto.createHmac('sha256', getSecret()).update(plainKey).digest('hex');
+};
+
+/**
+ * Add license keys to a digital product's inventory. Blank entries and keys
+ * already on file for the product are skipped. Stock goes up by the number
+ * of keys imported, so a digital product's stock is its available keys.
+ */
+const importKeys = async ({ product, keys, userId }) => {
+  const uniqueKeys = [...new Set(keys.map(key => key.trim()).filter(Boolean))];
+  const hashed = uniqueKeys.map(key => ({ key, keyHash: hashKey(key) }));
+
+  const existing = await DigitalKey.findAll({
+    where: { productId: product.id, keyHash: hashed.map(entry => entry.keyHash) },
+    attributes: ['keyHash']
+  });
+  const existingHashes = new Set(existing.map(key => key.keyHash));
+  const newKeys = hashed.filter(entry => !existingHashes.has(entry.keyHash));
+
+  if (newKeys.length > 0) {
+    await DigitalKey.bulkCreate(newKeys.map(entry => ({
+      productId: product.id,
+      encryptedKey: encryptKey(entry.key),
+      keyHash: entry.keyHash,
+      importedBy: userId
+    })));
+
+    await adjustStock({
+      productId: product.id,
+      quantity: newKeys.length,
+      transactionType: 'purchase',
+      userId,
+      reason: 'Digital keys imported'
+    });
+  }
+
+  return {
+    imported: newKeys.length,
+    duplicates: uniqueKeys.length - newKeys.length
+  };
+};
+
+// Key inventory counts for a product, by status
+const getKeyCounts = async (productId) => {
+  const rows = await DigitalKey.count({
+    where: { productId },
+    group: ['status']
+  });
+
+  const counts = { available: 0, assigned: 0, revoked: 0 };
+  for (const row of rows) {
+    counts[row.status] = parseInt(row.count);
+  }
+  return counts;
+};
+
+// Decrypted keys assigned to an order, oldest first
+const getOrderKeys = async (orderId) => {
+  const keys = await DigitalKey.findAll({
+    where: { orderId, status: 'assigned' },
+    include: [
+      {
+        model: Product,
+        as: 'product',
+        attributes: ['id', 'name', 'slug', 'platform']
+      }
+    ],
+    order: [['assignedAt', 'ASC']]
+  });
+
+  return keys.map(key => ({
+    id: key.id,
+    orderItemId: key.orderItemId,
+    productId: key.productId,
+    productName: key.product ? key.product.name : null,
+    platform: key.product ? key.product.platform : null,
+    key: decryptKey(key.encryptedKey),
+    assignedAt: key.assignedAt
+  }));
+};
+
+/**
+ * Hand out keys for every digital line on a paid order. Safe to call more
+ * than once: lines that already have their keys are left alone. A shortage
+ * is logged for staff rather than failing the payment.
+ */
+const assignOrderKeys = async (order) => {
+  const items = await OrderItem.findAll({
+    where: { orderId: order.id },
+    include: [
+      {
+        model: Product,
+        as: 'product',
+        where: { isDigital: true },
+        attributes: ['id', 'name']
+      }
+    ]
+  });
+
+  let assignedCount = 0;
+  const shortages = [];
+
+  for (const item of items) {
+    const alreadyAssigned = await DigitalKey.count({
+      where: { orderItemId: item.id, status: 'assigned' }
+    });
+    let needed = item.quantity - alreadyAssigned;
+
+    while (needed > 0) {
+      const candidates = await DigitalKey.findAll({
+        where: { productId: item.productId, status: 'available' },
+        attributes: ['id'],
+        order: [['createdAt', 'ASC']],
+        limit: needed
+      });
+      if (candidates.length === 0) break;
+
+      for (const candidate of candidates) {
+        // Only claim keys nobody else took in the meantime
+        const [claimed] = await DigitalKey.update({
+          status: 'assigned',
+          orderId: order.id,
+          orderItemId: item.id,
+          assignedAt: new Date()
+        }, {
+          where: { id: candidate.id, status: 'available' }
+        });
+        if (claimed > 0) {
+          needed -= 1;
+          assignedCount += 1;
+        }
+      }
+    }
+
+    if (needed > 0) {
+      shortages.push({ productId: item.productId, productName: item.product.name, missing: needed });
+    }
+  }
+
+  if (assignedCount > 0) {
+    await logManualActivity({
+      userId: order.userId,
+      action: 'order.keys.assign',
+      entityType: 'order',
+      entityId: order.id,
+      description: `Assigned ${assignedCount} digital key(s) to order ${order.orderNumber}`
+    });
+  }
+
+  if (shortages.length > 0) {
+    await logManualActivity({
+      userId: order.userId,
+      action: 'order.keys.shortage',
+      entityType: 'order',
+      entityId: order.id,
+      description: `Not enough digital keys for order ${order.orderNumber}`,
+      metadata: { shortages },
+      severity: 'high'
+    });
+  }
+
+  return getOrderKeys(order.id);
+};
+
+module.exports = {
+  importKeys,
+  getKeyCounts,
+  getOrderKeys,
+  assignOrderKeys
+};
@@ -1,5 +1,6 @@
 const nodemailer = require('nodemailer');
 const { logManualActivity } = require('../middleware/activityLogger');
+const { formatMoney } = require('./currency');
 
 // Create transporter
 const createTransporter = () => {
@@ -36,6 +37,25 @@ const emailTemplates = {
     `
   }),
 
+  emailVerification: (user, verificationUrl) => ({
+    subject: 'Confirm your email address - GameStore',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">Confirm your email address</h2>
+        <p>Hello ${user.firstName},</p>
+        <p>Please confirm this is the email address you want to use for your GameStore account:</p>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${verificationUrl}" style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">Confirm Email</a>
+        </div>
+        <p>If the button doesn't work, you can copy and paste this link into your browser:</p>
+        <p style="word-break: break-all; color: #666;">${verificationUrl}</p>
+        <p>If you didn't ask for this, please ignore this email. Your account won't change.</p>
+        <hr style="margin: 30px 0; border: none; border-top: 1px solid #eee;">
+        <p style="color: #666; font-size: 12px;">GameStore Team</p>
+      </div>
+    `
+  }),
+
   passwordReset: (user, resetUrl) => ({
     subject: 'Password Reset Request - GameStore',
     html: `
@@ -57,7 +77,7 @@ const emailTemplates = {
     `
   }),
 
-  orderConfirmation: (user, order) => ({
+  orderConfirmation: (user, orderUrl, order, product, trackingNumber, digitalKeys = []) => ({
     subject: `Order Confirmation - ${order.orderNumber}`,
     html: `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
@@ -68,10 +88,19 @@ const emailTemplates = {
           <h3 style="margin-top: 0;">Order Details</h3>
           <p><strong>Order Number:</strong> ${order.orderNumber}</p>
           <p><strong>Order Date:</strong> ${new Date(order.createdAt).toLocaleDateString()}</p>
-          <p><strong>Total Amount:</strong> $${order.total.toFixed(2)}</p>
+          <p><strong>Total Amount:</strong> ${formatMoney(order.total, order.currency)}</p>
           <p><strong>Status:</strong> ${order.status}</p>
         </div>
-        <p>We'll send you another email when your order ships.</p>
+        ${digitalKeys.length > 0 ? `
+        <div style="background-color: #f8f9fa; padding: 20px; border-radius: 5px; margin: 20px 0;">
+          <h3 style="margin-top: 0;">Your Game Keys</h3>
+          ${digitalKeys.map(digitalKey => `
+          <p><strong>${digitalKey.productName}${digitalKey.platform ? ` (${digitalKey.platform})` : ''}:</strong><br>
+            <span style="font-family: monospace; font-size: 16px;">${digitalKey.key}</span>
+          </p>`).join('')}
+          <p style="color: #666; font-size: 12px;">Keep your keys private. You can also find them on your <a href="${orderUrl}">order page</a>.</p>
+        </div>` : ''}
+        ${order.shippingAddress ? "<p>We'll send you another email when your order ships.</p>" : ''}
         <p>If you have any questions, please don't hesitate to contact our support team.</p>
         <hr style="margin: 30px 0; border: none; border-top: 1px solid #eee;">
         <p style="color: #666; font-size: 12px;">GameStore Team</p>
@@ -79,7 +108,7 @@ const emailTemplates = {
     `
   }),
 
-  orderShipped: (user, order, trackingNumber) => ({
+  orderShipped: (user, orderUrl, order, product, trackingNumber) => ({
     subject: `Your Order Has Shipped - ${order.orderNumber}`,
     html: `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
@@ -97,7 +126,28 @@ const emailTemplates = {
             ${order.shippingAddress.country}
           </p>
         </div>
-        <p>You can track your package using the tracking number above.</p>
+        <p>You can track your package using the tracking number above${order.trackingUrl ? ` or <a href="${order.trackingUrl}">follow it online</a>` : ''}.</p>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${orderUrl}" style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">View Order</a>
+        </div>
+        <p>Thank you for shopping with GameStore!</p>
+        <hr style="margin: 30px 0; border: none; border-top: 1px solid #eee;">
+        <p style="color: #666; font-size: 12px;">GameStore Team</p>
+      </div>
+    `
+  }),
+
+  orderDelivered: (user, orderUrl, order) => ({
+    subject: `Your Order Has Been Delivered - ${order.orderNumber}`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">Your Order Has Been Delivered</h2>
+        <p>Hello ${user.firstName},</p>
+        <p>Your order ${order.orderNumber} has been delivered. We hope you enjoy it!</p>
+        <p>If something isn't right, you can request a return from your order page.</p>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${orderUrl}" style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">View Order</a>
+        </div>
         <p>Thank you for shopping with GameStore!</p>
         <hr style="margin: 30px 0; border: none; border-top: 1px solid #eee;">
         <p style="color: #666; font-size: 12px;">GameStore Team</p>
@@ -127,6 +177,48 @@ const emailTemplates = {
         <p style="color: #666; font-size: 12px;">GameStore Team</p>
       </div>
     `
+  }),
+
+  backInStock: (user, productUrl, order, product) => ({
+    subject: `Back in stock - ${product.name}`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">It's back!</h2>
+        <p>Hello ${user.firstName},</p>
+        <p>${product.name} is back in stock. Stock can run out quickly, so grab yours while it lasts.</p>
+        <div style="background-color: #f8f9fa; padding: 20px; border-radius: 5px; margin: 20px 0;">
+          <p><strong>Product:</strong> ${product.name}</p>
+          <p><strong>Price:</strong> ${formatMoney(product.price)}</p>
+        </div>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${productUrl}" style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">Shop Now</a>
+        </div>
+        <p>You're receiving this email because you asked to be notified when this product was available again.</p>
+        <hr style="margin: 30px 0; border: none; border-top: 1px solid #eee;">
+        <p style="color: #666; font-size: 12px;">GameStore Team</p>
+      </div>
+    `
+  }),
+
+  priceDrop: (user, productUrl, order, product) => ({
+    subject: `Price drop - ${product.name}`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">The price just dropped!</h2>
+        <p>Hello ${user.firstName},</p>
+        <p>A product you're watching is now cheaper.</p>
+        <div style="background-color: #f8f9fa; padding: 20px; border-radius: 5px; margin: 20px 0;">
+          <p><strong>Product:</strong> ${product.name}</p>
+          <p><strong>Now:</strong> ${formatMoney(product.price)}</p>
+        </div>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${productUrl}" style="background-color: #28a745; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">View Product</a>
+        </div>
+        <p>You're receiving this email because you set up a price alert for this product.</p>
+        <hr style="margin: 30px 0; border: none; border-top: 1px solid #eee;">
+        <p style="color: #666; font-size: 12px;">GameStore Team</p>
+      </div>
+    `
   })
 };
 
@@ -134,13 +226,14 @@ const emailTemplates = {
 const sendEmail = async (to, template, data = {}) => {
   try {
     const transporter = createTransporter();
-    const emailContent = emailTemplates[template](data.user, data.url, data.order, data.product, data.trackingNumber);
+    const emailContent = emailTemplates[template](data.user, data.url, data.order, data.product, data.trackingNumber, data.digitalKeys);
 
     const mailOptions = {
       from: `"GameStore" <${process.env.EMAIL_USER}>`,
       to: to,
       subject: emailContent.subject,
-      html: emailContent.html
+      html: emailContent.html,
+      attachments: data.attachments
     };
 
     const result = await transporter.sendMail(mailOptions);
@@ -185,22 +278,44 @@ const sendWelcomeEmail = async (user, verificationUrl) => {
   return sendEmail(user.email, 'welcome', { user, url: verificationUrl });
 };
 
+// Goes to `to` rather than the account's address when confirming a new email
+const sendVerificationEmail = async (user, verificationUrl, to = user.email) => {
+  return sendEmail(to, 'emailVerification', { user, url: verificationUrl });
+};
+
 const sendPasswordResetEmail = async (user, resetUrl) => {
   return sendEmail(user.email, 'passwordReset', { user, url: resetUrl });
 };
 
-const sendOrderConfirmationEmail = async (user, order) => {
-  return sendEmail(user.email, 'orderConfirmation', { user, order });
+const sendOrderConfirmationEmail = async (user, order, digitalKeys = [], attachments = []) => {
+  const orderUrl = `${process.env.FRONTEND_URL}/orders/${order.id}`;
+  return sendEmail(user.email, 'orderConfirmation', { user, url: orderUrl, order, digitalKeys, attachments });
 };
 
 const sendOrderShippedEmail = async (user, order, trackingNumber) => {
-  return sendEmail(user.email, 'orderShipped', { user, order, trackingNumber });
+  const orderUrl = `${process.env.FRONTEND_URL}/orders/${order.id}`;
+  return sendEmail(user.email, 'orderShipped', { user, url: orderUrl, order, trackingNumber });
+};
+
+const sendOrderDeliveredEmail = async (user, order) => {
+  const orderUrl = `${process.env.FRONTEND_URL}/orders/${order.id}`;
+  return sendEmail(user.email, 'orderDelivered', { user, url: orderUrl, order });
 };
 
 const sendReviewRequestEmail = async (user, order, product) => {
   return sendEmail(user.email, 'reviewRequest', { user, order, product });
 };
 
+const sendBackInStockEmail = async (user, product) => {
+  const productUrl = `${process.env.FRONTEND_URL}/products/${product.slug}`;
+  return sendEmail(user.email, 'backInStock', { user, url: productUrl, product });
+};
+
+const sendPriceDropEmail = async (user, product) => {
+  const productUrl = `${process.env.FRONTEND_URL}/products/${product.slug}`;
+  return sendEmail(user.email, 'priceDrop', { user, url: productUrl, product });
+};
+
 // Test email configuration
 const testEmailConfig = async () => {
   try {
@@ -215,10 +330,14 @@ const testEmailConfig = async () => {
 module.exports = {
   sendEmail,
   sendWelcomeEmail,
+  sendVerificationEmail,
   sendPasswordResetEmail,
   sendOrderConfirmationEmail,
   sendOrderShippedEmail,
+  sendOrderDeliveredEmail,
   sendReviewRequestEmail,
+  sendBackInStockEmail,
+  sendPriceDropEmail,
   testEmailConfig,
   emailTemplates
 }; 
\ No newline at end of file
@@ -0,0 +1,85 @@
+// Product copy is written in this locale; translations are kept alongside it
+const DEFAULT_LOCALE = (process.env.DEFAULT_LOCALE || 'en').toLowerCase();
+
+const SUPPORTED_LOCALES = (process.env.SUPPORTED_LOCALES || 'en,es,ar')
+  .split(',')
+  .map(locale => locale.trim().toLowerCase())
+  .filter(Boolean);
+
+const TRANSLATABLE_PRODUCT_FIELDS = ['name', 'description', 'shortDescription'];
+
+const isSupportedLocale = (locale) => SUPPORTED_LOCALES.includes(locale);
+
+/**
+ * The locale to answer in. An explicit ?locale= wins, then the first
+ * Accept-Language entry we support (matching "es-MX" to "es"), then the default.
+ */
+const resolveLocale = (req) => {
+  const requested = [
+    req.query.locale,
+    ...(req.get('Accept-Language') || '')
+      .split(',')
+      .map(entry => entry.split(';')[0].trim())
+  ];
+
+  for (const candidate of requested) {
+    if (!candidate || typeof candidate !== 'string') continue;
+    const locale = candidate.toLowerCase();
+    if (isSupportedLocale(locale)) return locale;
+    const language = locale.split('-')[0];
+    if (isSupportedLocale(language)) return language;
+  }
+
+  return DEFAULT_LOCALE;
+};
+
+// Keep only supported locales and translatable fields, dropping blank entries
+const sanitizeProductTranslations = (translations) => {
+  if (!translations || typeof translations !== 'object') {
+    return {};
+  }
+
+  return Object.entries(translations).reduce((sanitized, [locale, fields]) => {
+    if (locale === DEFAULT_LOCALE || !isSupportedLocale(locale) || !fields || typeof fields !== 'object') {
+      return sanitized;
+    }
+
+    const entry = TRANSLATABLE_PRODUCT_FIELDS.reduce((picked, field) => {
+      const value = typeof fields[field] === 'string' ? fields[field].trim() : '';
+      if (value) {
+        picked[field] = value;
+      }
+      return picked;
+    }, {});
+
+    if (Object.keys(entry).length > 0) {
+      sanitized[locale] = entry;
+    }
+    return sanitized;
+  }, {});
+};
+
+// Product JSON with its copy in the given locale, falling back field by field
+const localizeProduct = (product, locale) => {
+  const json = typeof product.toJSON === 'function' ? product.toJSON() : { ...product };
+  const translation = locale !== DEFAULT_LOCALE && json.translations && json.translations[locale];
+
+  if (translation) {
+    TRANSLATABLE_PRODUCT_FIELDS.forEach(field => {
+      if (translation[field]) {
+        json[field] = translation[field];
+      }
+    });
+  }
+
+  return json;
+};
+
+module.exports = {
+  DEFAULT_LOCALE,
+  SUPPORTED_LOCALES,
+  TRANSLATABLE_PRODUCT_FIELDS,
+  resolveLocale,
+  sanitizeProductTranslations,
+  localizeProduct
+};
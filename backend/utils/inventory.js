@@ -0,0 +1,55 @@
+const { Product, InventoryTransaction } = require('../models');
+
+/**
+ * Record a stock change that has already been applied to a product.
+ * Back in stock alerts are driven by these records.
+ */
+const recordStockChange = async ({
+  productId,
+  transactionType,
+  previousStock,
+  newStock,
+  userId = null,
+  orderId = null,
+  reason = null,
+  referenceType = null,
+  referenceNumber = null,
+  isSystemGenerated = false
+}) => {
+  return InventoryTransaction.create({
+    productId,
+    userId,
+    orderId,
+    transactionType,
+    quantity: newStock - previousStock,
+    previousStock,
+    newStock,
+    reason,
+    referenceType,
+    referenceNumber,
+    isSystemGenerated
+  });
+};
+
+// Increment (or decrement, for a negative quantity) stock and record it
+const adjustStock = async ({ productId, quantity, ...details }) => {
+  const product = await Product.findByPk(productId, {
+    attributes: ['id', 'stockQuantity']
+  });
+  if (!product) return null;
+
+  const previousStock = product.stockQuantity;
+  await product.increment('stockQuantity', { by: quantity });
+
+  return recordStockChange({
+    productId,
+    previousStock,
+    newStock: previousStock + quantity,
+    ...details
+  });
+};
+
+module.exports = {
+  recordStockChange,
+  adjustStock
+};
@@ -0,0 +1,338 @@
+const PDFDocument = require('pdfkit');
+const { Order, OrderItem, Invoice } = require('../models');
+const { formatMoney } = require('./currency');
+
+const PAGE_MARGIN = 50;
+const CONTENT_RIGHT = 545; // A4 width less the margin
+
+// Seller details printed on customer documents
+const getSellerDetails = () => ({
+  name: process.env.SELLER_NAME || 'GameStore',
+  address: process.env.SELLER_ADDRESS || null,
+  email: process.env.SELLER_EMAIL || 'support@gamestore.com',
+  taxId: process.env.SELLER_TAX_ID || null
+});
+
+const formatDate = (date) => new Date(date).toLocaleDateString('en-US', {
+  year: 'numeric',
+  month: 'short',
+  day: 'numeric'
+});
+
+const formatAddressLines = (address) => {
+  if (!address) return [];
+  return [
+    address.street,
+    [address.city, address.state, address.zipCode].filter(Boolean).join(', '),
+    address.country
+  ].filter(Boolean);
+};
+
+// Mixed orders ship their physical lines only; snapshots from before the flag count as physical
+const isShippableItem = (item) => item.productSnapshot.isPhysical !== false;
+
+/**
+ * Issue the invoice for an order, or return the one already issued.
+ * Numbers come from the invoices sequence, so they are allocated in the
+ * order invoices are issued rather than the order orders were placed.
+ */
+const issueInvoice = async (order) => {
+  const [invoice] = await Invoice.findOrCreate({
+    where: { orderId: order.id },
+    defaults: { sellerDetails: getSellerDetails() }
+  });
+  return invoice;
+};
+
+// Load orders with everything the documents print, keeping the requested order
+const loadOrdersForDocuments = async (orderIds) => {
+  const orders = await Order.findAll({
+    where: { id: orderIds },
+    include: [
+      {
+        model: OrderItem,
+        as: 'items'
+      },
+      {
+        model: Invoice,
+        as: 'invoice'
+      }
+    ],
+    order: [[{ model: OrderItem, as: 'items' }, 'createdAt', 'ASC']]
+  });
+
+  return orderIds
+    .map(id => orders.find(order => order.id === id))
+    .filter(Boolean);
+};
+
+const createPdf = (draw) => new Promise((resolve, reject) => {
+  const doc = new PDFDocument({ size: 'A4', margin: PAGE_MARGIN });
+  const chunks = [];
+
+  doc.on('data', chunk => chunks.push(chunk));
+  doc.on('end', () => resolve(Buffer.concat(chunks)));
+  doc.on('error', reject);
+
+  try {
+    draw(doc);
+    doc.end();
+  } catch (error) {
+    reject(error);
+  }
+});
+
+// Start a new page when the next block would run off the bottom
+const ensureSpace = (doc, y, needed) => {
+  if (y + needed <= doc.page.height - PAGE_MARGIN) return y;
+  doc.addPage();
+  return PAGE_MARGIN;
+};
+
+// Draw a table row; columns are { text, x, width, align }
+const drawRow = (doc, y, columns, { bold = false } = {}) => {
+  doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+  const height = Math.max(...columns.map(column =>
+    doc.heightOfString(String(column.text), { width: column.width })
+  ));
+  columns.forEach(column => {
+    doc.text(String(column.text), column.x, y, { width: column.width, align: column.align || 'left' });
+  });
+  doc.moveTo(PAGE_MARGIN, y + height + 4).lineTo(CONTENT_RIGHT, y + height + 4)
+    .strokeColor('#dddddd').lineWidth(0.5).stroke();
+  return y + height + 8;
+};
+
+const drawAddressBlock = (doc, x, y, title, lines) => {
+  doc.font('Helvetica-Bold').fontSize(10).text(title, x, y);
+  doc.font('Helvetica').fontSize(9);
+  lines.forEach(line => doc.text(line, x, doc.y, { width: 220 }));
+  return doc.y;
+};
+
+const drawSellerHeader = (doc, seller, title) => {
+  doc.font('Helvetica-Bold').fontSize(20).text(title, PAGE_MARGIN, PAGE_MARGIN);
+  doc.font('Helvetica-Bold').fontSize(11).text(seller.name, PAGE_MARGIN, PAGE_MARGIN + 30);
+  doc.font('Helvetica').fontSize(9);
+  [seller.address, seller.email, seller.taxId && `Tax ID: ${seller.taxId}`]
+    .filter(Boolean)
+    .forEach(line => doc.text(line, PAGE_MARGIN, doc.y, { width: 250 }));
+  return doc.y;
+};
+
+const drawDetails = (doc, details) => {
+  let y = PAGE_MARGIN + 30;
+  details.forEach(([label, value]) => {
+    doc.font('Helvetica-Bold').fontSize(9).text(label, 330, y, { width: 90 });
+    doc.font('Helvetica').text(value, 420, y, { width: 125, align: 'right' });
+    y += 14;
+  });
+  return y;
+};
+
+const formatRate = (rate) => `${(rate * 100).toFixed(1)}%`;
+
+/**
+ * Group the tax by rate. Lines carry the rates that made up their tax;
+ * older orders only have each line's amount, or just the order-level total.
+ */
+const getTaxBreakdown = (order) => {
+  const lineTax = order.items.reduce((sum, item) => sum + parseFloat(item.taxAmount || 0), 0);
+  if (lineTax === 0 && parseFloat(order.taxAmount) > 0) {
+    const taxable = parseFloat(order.subtotal) - order.items.reduce((sum, item) => sum + parseFloat(item.discountAmount || 0), 0);
+    const rate = taxable > 0 ? parseFloat(order.taxAmount) / taxable : 0;
+    return [{
+      label: formatRate(rate),
+      rate,
+      taxable,
+      tax: parseFloat(order.taxAmount)
+    }];
+  }
+
+  const groups = new Map();
+  const addToGroup = (label, rate, taxable, tax) => {
+    const group = groups.get(label) || { label, rate, taxable: 0, tax: 0 };
+    group.taxable += taxable;
+    group.tax += tax;
+    groups.set(label, group);
+  };
+
+  order.items.forEach(item => {
+    const tax = parseFloat(item.taxAmount || 0);
+    const taxable = parseFloat(item.totalPrice) - parseFloat(item.discountAmount || 0) - (order.pricesIncludeTax ? tax : 0);
+    if (item.taxBreakdown && item.taxBreakdown.length > 0) {
+      item.taxBreakdown.forEach(entry => {
+        addToGroup(`${entry.name} ${formatRate(entry.rate / 100)}`, entry.rate / 100, taxable, entry.amount);
+      });
+    } else {
+      const rate = taxable > 0 ? Math.round((tax / taxable) * 1000) / 1000 : 0;
+      addToGroup(formatRate(rate), rate, taxable, tax);
+    }
+  });
+  return [...groups.values()].sort((a, b) => b.rate - a.rate);
+};
+
+const drawInvoice = (doc, order) => {
+  const { invoice } = order;
+  const seller = invoice.sellerDetails;
+
+  const headerBottom = drawSellerHeader(doc, seller, 'INVOICE');
+  const detailsBottom = drawDetails(doc, [
+    ['Invoice Number', invoice.invoiceNumber],
+    ['Invoice Date', formatDate(invoice.issuedAt)],
+    ['Order Number', order.orderNumber],
+    ['Order Date', formatDate(order.createdAt)],
+    ['Payment Status', order.paymentStatus.replace('_', ' ')]
+  ]);
+
+  let y = Math.max(headerBottom, detailsBottom) + 20;
+  const billToBottom = drawAddressBlock(doc, PAGE_MARGIN, y, 'Bill To', [
+    ...formatAddressLines(order.billingAddress),
+    order.customerEmail
+  ]);
+  const shipToBottom = order.shippingAddress
+    ? drawAddressBlock(doc, 300, y, 'Ship To', formatAddressLines(order.shippingAddress))
+    : drawAddressBlock(doc, 300, y, 'Delivery', ['Digital delivery by email']);
+  y = Math.max(billToBottom, shipToBottom) + 20;
+
+  const columns = (item, qty, unit, discount, tax, total) => [
+    { text: item, x: PAGE_MARGIN, width: 200 },
+    { text: qty, x: 250, width: 35, align: 'right' },
+    { text: unit, x: 290, width: 60, align: 'right' },
+    { text: discount, x: 355, width: 60, align: 'right' },
+    { text: tax, x: 420, width: 55, align: 'right' },
+    { text: total, x: 480, width: 65, align: 'right' }
+  ];
+
+  y = drawRow(doc, y, columns('Item', 'Qty', 'Unit Price', 'Discount', 'Tax', 'Amount'), { bold: true });
+  order.items.forEach(item => {
+    y = ensureSpace(doc, y, 30);
+    y = drawRow(doc, y, columns(
+      `${item.productSnapshot.name}\nSKU ${item.productSnapshot.sku}`,
+      item.quantity,
+      formatMoney(item.unitPrice, order.currency),
+      parseFloat(item.discountAmount) > 0 ? `-${formatMoney(item.discountAmount, order.currency)}` : '-',
+      formatMoney(item.taxAmount, order.currency),
+      formatMoney(item.totalPrice, order.currency)
+    ));
+  });
+
+  // Totals
+  const totals = [
+    ['Subtotal', formatMoney(order.subtotal, order.currency)],
+    ...(parseFloat(order.discountAmount) > 0
+      ? [[`Discount${order.promotionCode ? ` (${order.promotionCode})` : ''}`, `-${formatMoney(order.discountAmount, order.currency)}`]]
+      : []),
+    ['Shipping', formatMoney(order.shippingAmount, order.currency)],
+    [order.pricesIncludeTax ? 'Tax (included)' : 'Tax', formatMoney(order.taxAmount, order.currency)]
+  ];
+  y = ensureSpace(doc, y + 10, totals.length * 16 + 30);
+  totals.forEach(([label, value]) => {
+    doc.font('Helvetica').fontSize(9).text(label, 330, y, { width: 140 });
+    doc.text(value, 480, y, { width: 65, align: 'right' });
+    y += 16;
+  });
+  doc.font('Helvetica-Bold').fontSize(11).text('Total', 330, y, { width: 140 });
+  doc.text(formatMoney(order.total, order.currency), 450, y, { width: 95, align: 'right' });
+  y += 30;
+
+  // Tax breakdown
+  const breakdown = getTaxBreakdown(order);
+  if (breakdown.length > 0) {
+    y = ensureSpace(doc, y, breakdown.length * 20 + 40);
+    doc.font('Helvetica-Bold').fontSize(10).text('Tax Breakdown', PAGE_MARGIN, y);
+    y += 16;
+    const taxColumns = (rate, taxable, tax) => [
+      { text: rate, x: PAGE_MARGIN, width: 220 },
+      { text: taxable, x: 270, width: 100, align: 'right' },
+      { text: tax, x: 370, width: 100, align: 'right' }
+    ];
+    y = drawRow(doc, y, taxColumns('Rate', 'Taxable Amount', 'Tax'), { bold: true });
+    breakdown.forEach(group => {
+      y = drawRow(doc, y, taxColumns(
+        group.label,
+        formatMoney(group.taxable, order.currency),
+        formatMoney(group.tax, order.currency)
+      ));
+    });
+    doc.font('Helvetica').fontSize(8).fillColor('#666666')
+      .text('Shipping is not taxed.', PAGE_MARGIN, y + 4)
+      .fillColor('#000000');
+  }
+};
+
+const drawPackingSlip = (doc, order) => {
+  const headerBottom = drawSellerHeader(doc, getSellerDetails(), 'PACKING SLIP');
+  const detailsBottom = drawDetails(doc, [
+    ['Order Number', order.orderNumber],
+    ['Order Date', formatDate(order.createdAt)],
+    ['Shipping Method', order.shippingMethod || '-']
+  ]);
+
+  let y = Math.max(headerBottom, detailsBottom) + 20;
+  y = drawAddressBlock(doc, PAGE_MARGIN, y, 'Ship To', [
+    ...formatAddressLines(order.shippingAddress),
+    order.customerPhone
+  ].filter(Boolean)) + 20;
+
+  const columns = (sku, item, qty, packed) => [
+    { text: sku, x: PAGE_MARGIN, width: 110 },
+    { text: item, x: 165, width: 260 },
+    { text: qty, x: 430, width: 50, align: 'right' },
+    { text: packed, x: 490, width: 55, align: 'center' }
+  ];
+
+  y = drawRow(doc, y, columns('SKU', 'Item', 'Qty', 'Packed'), { bold: true });
+  order.items.filter(isShippableItem).forEach(item => {
+    y = ensureSpace(doc, y, 24);
+    y = drawRow(doc, y, columns(item.productSnapshot.sku, item.productSnapshot.name, item.quantity, '[   ]'));
+  });
+
+  if (order.notes) {
+    y = ensureSpace(doc, y + 10, 40);
+    doc.font('Helvetica-Bold').fontSize(10).text('Order Notes', PAGE_MARGIN, y);
+    doc.font('Helvetica').fontSize(9).text(order.notes, PAGE_MARGIN, doc.y, { width: 495 });
+  }
+};
+
+// Each order gets its own page(s), so one file prints a whole batch
+const renderPages = (orders, drawPage) => createPdf(doc => {
+  orders.forEach((order, index) => {
+    if (index > 0) doc.addPage();
+    drawPage(doc, order);
+  });
+});
+
+/**
+ * Render invoices for orders loaded with their items. Orders paid before
+ * invoices were issued get theirs on first download.
+ */
+const renderInvoicesPdf = async (orders) => {
+  for (const order of orders) {
+    if (!order.invoice) {
+      order.invoice = await issueInvoice(order);
+    }
+  }
+  return renderPages(orders, drawInvoice);
+};
+
+/**
+ * Render packing slips for orders loaded with their items. Only orders
+ * with a shipping address have anything to pack.
+ */
+const renderPackingSlipsPdf = (orders) => renderPages(orders, drawPackingSlip);
+
+// Only paid orders are invoiced; refunded ones keep the invoice they were issued
+const isInvoiceable = (order) => ['paid', 'partially_refunded', 'refunded'].includes(order.paymentStatus);
+
+const hasItemsToPack = (order) => !!order.shippingAddress && order.items.some(isShippableItem);
+
+module.exports = {
+  issueInvoice,
+  loadOrdersForDocuments,
+  renderInvoicesPdf,
+  renderPackingSlipsPdf,
+  isInvoiceable,
+  isShippableItem,
+  hasItemsToPack
+};
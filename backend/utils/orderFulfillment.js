@@ -0,0 +1,79 @@
+const { Op } = require('sequelize');
+const { Order, User } = require('../models');
+const { assignOrderKeys } = require('./digitalKeys');
+const { sendOrderConfirmationEmail } = require('./emailService');
+const { issueInvoice, loadOrdersForDocuments, renderInvoicesPdf } = require('./invoice');
+
+/**
+ * Email the customer their order confirmation, with any digital keys and
+ * the invoice PDF. Throws if the email itself can't be sent.
+ */
+const sendOrderConfirmation = async (order, digitalKeys = []) => {
+  const user = await User.findByPk(order.userId, {
+    attributes: ['id', 'firstName', 'email']
+  });
+  if (!user) return;
+
+  // The invoice number is taken at payment; the PDF rides along with the confirmation
+  let attachments = [];
+  try {
+    await issueInvoice(order);
+    const pdf = await renderInvoicesPdf(await loadOrdersForDocuments([order.id]));
+    attachments = [{
+      filename: `invoice-${order.orderNumber}.pdf`,
+      content: pdf,
+      contentType: 'application/pdf'
+    }];
+  } catch (error) {
+    console.error(`Failed to issue invoice for order ${order.id}:`, error);
+  }
+
+  await sendOrderConfirmationEmail(user, order, digitalKeys, attachments);
+};
+
+/**
+ * Run once an order has been marked as paid, whichever path confirmed it
+ * (client confirmation, webhook or the legacy pay route). Digital lines get
+ * their keys, the invoice is issued, and the confirmation email carries both
+ * to the customer.
+ */
+const handleOrderPaid = async (order) => {
+  // Neither a key problem nor a failed email should undo a successful payment
+  let digitalKeys = [];
+  try {
+    digitalKeys = await assignOrderKeys(order);
+  } catch (error) {
+    console.error(`Failed to assign digital keys for order ${order.id}:`, error);
+  }
+
+  try {
+    await sendOrderConfirmation(order, digitalKeys);
+  } catch (error) {
+    console.error(`Failed to send confirmation email for order ${order.id}:`, error);
+  }
+};
+
+/**
+ * Record a successful payment on an order. The client's confirmation and the
+ * webhook can arrive together, so the update only applies to an order not
+ * paid yet and resolves true for the one caller that made it. Only that
+ * caller goes on to fulfil the order.
+ */
+const markOrderPaid = async (order, paymentIntent) => {
+  const [updated] = await Order.update({
+    paymentStatus: 'paid',
+    stripePaymentIntentId: paymentIntent.id,
+    stripeChargeId: paymentIntent.latest_charge
+  }, {
+    where: { id: order.id, paymentStatus: { [Op.in]: ['pending', 'failed'] } }
+  });
+
+  await order.reload();
+  return updated > 0;
+};
+
+module.exports = {
+  sendOrderConfirmation,
+  handleOrderPaid,
+  markOrderPaid
+};
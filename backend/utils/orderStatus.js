@@ -0,0 +1,158 @@
+const { OrderItem, OrderStatusHistory, Product, User, DigitalKey } = require('../models');
+const { AppError } = require('../middleware/errorHandler');
+const { adjustStock } = require('./inventory');
+const { releasePromotion } = require('./promotionEngine');
+const { sendOrderShippedEmail, sendOrderDeliveredEmail } = require('./emailService');
+
+// Where an order can go from each status. The admin UI reads this too, so
+// it only ever offers moves the server will accept.
+const ORDER_STATUS_TRANSITIONS = {
+  pending: ['confirmed', 'cancelled', 'failed'],
+  confirmed: ['processing', 'shipped', 'cancelled', 'refunded'],
+  processing: ['shipped', 'cancelled', 'refunded'],
+  shipped: ['delivered', 'refunded'],
+  delivered: ['refunded'],
+  failed: ['confirmed', 'cancelled'],
+  cancelled: ['refunded'],
+  refunded: []
+};
+
+// Statuses staff can set by hand; payment results and refunds set the rest
+const ADMIN_STATUSES = ['confirmed', 'processing', 'shipped', 'delivered', 'cancelled'];
+
+const canTransition = (fromStatus, toStatus) => {
+  return (ORDER_STATUS_TRANSITIONS[fromStatus] || []).includes(toStatus);
+};
+
+// Put everything on a cancelled order back on the shelf
+const restoreStock = async (order, { userId, reason }) => {
+  const items = await OrderItem.findAll({ where: { orderId: order.id } });
+
+  for (const item of items) {
+    await adjustStock({
+      productId: item.productId,
+      quantity: item.quantity,
+      transactionType: 'return',
+      userId,
+      orderId: order.id,
+      reason: reason || 'Order cancelled',
+      referenceType: 'return',
+      referenceNumber: order.orderNumber,
+      isSystemGenerated: true
+    });
+    await Product.decrement('soldCount', {
+      by: item.quantity,
+      where: { id: item.productId }
+    });
+  }
+};
+
+const sendStatusEmail = async (order, status) => {
+  try {
+    const user = await User.findByPk(order.userId, {
+      attributes: ['id', 'firstName', 'email']
+    });
+    if (!user) return;
+
+    if (status === 'shipped') {
+      await sendOrderShippedEmail(user, order, order.trackingNumber);
+    } else {
+      await sendOrderDeliveredEmail(user, order);
+    }
+  } catch (error) {
+    console.error(`Failed to send ${status} email for order ${order.id}:`, error);
+  }
+};
+
+/**
+ * Move an order to a new status. Every status change goes through here so
+ * the move is checked against the transition graph, its side effects run
+ * and it lands in the order's status history.
+ */
+const transitionOrderStatus = async (order, toStatus, {
+  userId = null,
+  reason = null,
+  notes = null,
+  isSystemGenerated = false,
+  trackingNumber,
+  trackingUrl,
+  metadata = {}
+} = {}) => {
+  const fromStatus = order.status;
+
+  if (!canTransition(fromStatus, toStatus)) {
+    throw new AppError(`Cannot move order from ${fromStatus} to ${toStatus}`, 400);
+  }
+
+  const updateData = { status: toStatus };
+
+  switch (toStatus) {
+    case 'confirmed':
+      updateData.confirmedAt = new Date();
+      break;
+    case 'processing':
+      updateData.processedAt = new Date();
+      break;
+    case 'shipped':
+      if (!order.shippingAddress) {
+        throw new AppError('Orders without a shipping address cannot be shipped', 400);
+      }
+      if (!trackingNumber && !order.trackingNumber) {
+        throw new AppError('A tracking number is required to ship an order', 400);
+      }
+      updateData.shippedAt = new Date();
+      if (trackingNumber) updateData.trackingNumber = trackingNumber;
+      if (trackingUrl) updateData.trackingUrl = trackingUrl;
+      break;
+    case 'delivered':
+      updateData.deliveredAt = new Date();
+      break;
+    case 'cancelled': {
+      // Delivered keys can't be taken back, so those orders go through support
+      const deliveredKeys = await DigitalKey.count({
+        where: { orderId: order.id, status: 'assigned' }
+      });
+      if (deliveredKeys > 0) {
+        throw new AppError('Orders with delivered digital keys cannot be cancelled', 400);
+      }
+      updateData.cancelledAt = new Date();
+      updateData.cancelReason = reason;
+      break;
+    }
+  }
+
+  await order.update(updateData);
+
+  await OrderStatusHistory.create({
+    orderId: order.id,
+    userId,
+    fromStatus,
+    toStatus,
+    reason,
+    notes,
+    isSystemGenerated,
+    metadata
+  });
+
+  switch (toStatus) {
+    case 'cancelled':
+      // Any payment is refunded by cancelOrder in refunds.js, which paid orders are cancelled through
+      await restoreStock(order, { userId, reason });
+      // Free up the promotion so it can be used again
+      await releasePromotion(order);
+      break;
+    case 'shipped':
+    case 'delivered':
+      await sendStatusEmail(order, toStatus);
+      break;
+  }
+
+  return order;
+};
+
+module.exports = {
+  ORDER_STATUS_TRANSITIONS,
+  ADMIN_STATUSES,
+  canTransition,
+  transitionOrderStatus
+};
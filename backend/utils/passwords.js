@@ -0,0 +1,56 @@
+const fs = require('fs');
+const path = require('path');
+
+const MIN_PASSWORD_LENGTH = 8;
+// bcrypt ignores everything past 72 bytes, so longer passwords give a false sense of security
+const MAX_PASSWORD_LENGTH = 72;
+
+const DEFAULT_BREACHED_LIST = path.join(__dirname, '..', 'data', 'breached-passwords.txt');
+
+let breachedPasswords = null;
+
+// Read once on first use. Blank lines and # comments are skipped.
+const loadBreachedPasswords = () => {
+  if (!breachedPasswords) {
+    const file = process.env.BREACHED_PASSWORDS_FILE || DEFAULT_BREACHED_LIST;
+    breachedPasswords = new Set(
+      fs.readFileSync(file, 'utf8')
+        .split(/\r?\n/)
+        .map(line => line.trim().toLowerCase())
+        .filter(line => line && !line.startsWith('#'))
+    );
+  }
+  return breachedPasswords;
+};
+
+const isBreachedPassword = (password) => loadBreachedPasswords().has(password.toLowerCase());
+
+/**
+ * Why a password can't be set on an account, or null when it is acceptable.
+ * Used everywhere a password is chosen: sign up, reset and change.
+ */
+const checkNewPassword = (password, { email } = {}) => {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`;
+  }
+
+  if (Buffer.byteLength(password) > MAX_PASSWORD_LENGTH) {
+    return `Password must be at most ${MAX_PASSWORD_LENGTH} characters long`;
+  }
+
+  const emailName = email ? email.split('@')[0].toLowerCase() : '';
+  if (emailName.length >= 4 && password.toLowerCase().includes(emailName)) {
+    return 'Password must not contain your email address';
+  }
+
+  if (isBreachedPassword(password)) {
+    return 'This password has appeared in a data breach. Please choose a different one.';
+  }
+
+  return null;
+};
+
+module.exports = {
+  isBreachedPassword,
+  checkNewPassword
+};
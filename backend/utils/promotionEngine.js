@@ -0,0 +1,213 @@
+const { Op } = require('sequelize');
+const { Promotion, PromotionRedemption, Order } = require('../models');
+const { AppError } = require('../middleware/errorHandler');
+const { convertAmount, formatMoney } = require('./currency');
+
+const roundCurrency = (amount) => Math.round(amount * 100) / 100;
+
+// Flatten a cart item (with its product loaded) into what the engine needs
+const toPromotionLine = (cartItem) => ({
+  productId: cartItem.product.id,
+  quantity: cartItem.quantity,
+  unitPrice: parseFloat(cartItem.priceAtAdd),
+  categoryId: cartItem.product.categoryId,
+  subcategoryId: cartItem.product.subcategoryId,
+  platform: cartItem.product.platform
+});
+
+const isLineEligible = (promotion, line) => {
+  const { categoryIds = [], platforms = [] } = promotion;
+
+  if (categoryIds.length > 0 &&
+      !categoryIds.includes(line.categoryId) &&
+      !categoryIds.includes(line.subcategoryId)) {
+    return false;
+  }
+
+  if (platforms.length > 0 && !platforms.includes(line.platform)) {
+    return false;
+  }
+
+  return true;
+};
+
+// Buy X get Y: units are ranked by price and grouped into sets of X + Y, with
+// the cheapest Y units of every complete set free
+const calculateBuyXGetYDiscount = (promotion, lines) => {
+  const setSize = promotion.buyQuantity + promotion.getQuantity;
+  const unitPrices = lines
+    .flatMap(line => Array(line.quantity).fill(line.unitPrice))
+    .sort((a, b) => b - a);
+
+  let discount = 0;
+  for (let start = 0; start + setSize <= unitPrices.length; start += setSize) {
+    const set = unitPrices.slice(start, start + setSize);
+    discount += set.slice(promotion.buyQuantity).reduce((sum, price) => sum + price, 0);
+  }
+  return discount;
+};
+
+const calculateDiscount = (promotion, eligibleLines, eligibleSubtotal) => {
+  switch (promotion.type) {
+    case 'percentage': {
+      const discount = eligibleSubtotal * parseFloat(promotion.value) / 100;
+      return promotion.maxDiscountAmount
+        ? Math.min(discount, parseFloat(promotion.maxDiscountAmount))
+        : discount;
+    }
+    case 'fixed_amount':
+      return Math.min(parseFloat(promotion.value), eligibleSubtotal);
+    case 'free_shipping':
+      return 0;
+    case 'buy_x_get_y':
+      return calculateBuyXGetYDiscount(promotion, eligibleLines);
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Validate a promotion code for a user's cart and work out its discount.
+ * Throws an AppError explaining why the code cannot be used, with amounts
+ * quoted in `currency` when given.
+ *
+ * `discountAmount` is taken off the items and `shippingDiscount` off shipping.
+ */
+const evaluatePromotion = async ({ code, userId, lines, shippingAmount = 0, currency }) => {
+  const promotion = await Promotion.findOne({
+    where: { code: code.trim().toUpperCase() }
+  });
+
+  if (!promotion || !promotion.isActive) {
+    throw new AppError('Promo code is not valid', 400);
+  }
+
+  if (!promotion.hasStarted()) {
+    throw new AppError('Promo code is not active yet', 400);
+  }
+
+  if (promotion.isExpired()) {
+    throw new AppError('Promo code has expired', 400);
+  }
+
+  if (promotion.isExhausted()) {
+    throw new AppError('Promo code has reached its usage limit', 400);
+  }
+
+  if (promotion.perUserLimit) {
+    const userRedemptions = await PromotionRedemption.count({
+      where: { promotionId: promotion.id, userId }
+    });
+    if (userRedemptions >= promotion.perUserLimit) {
+      throw new AppError('You have already used this promo code', 400);
+    }
+  }
+
+  if (promotion.firstOrderOnly) {
+    // Checkouts that were abandoned or never paid don't use up the offer
+    const previousOrders = await Order.count({
+      where: {
+        userId,
+        [Op.or]: [
+          { paymentStatus: { [Op.in]: ['paid', 'partially_refunded'] } },
+          { status: { [Op.in]: ['confirmed', 'processing', 'shipped', 'delivered'] } }
+        ]
+      }
+    });
+    if (previousOrders > 0) {
+      throw new AppError('Promo code is only valid on your first order', 400);
+    }
+  }
+
+  const subtotal = lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+  if (promotion.minSubtotal && subtotal < parseFloat(promotion.minSubtotal)) {
+    // Minimums are kept in the base currency but quoted in the shopper's
+    const minimum = currency ? convertAmount(promotion.minSubtotal, currency) : parseFloat(promotion.minSubtotal);
+    throw new AppError(`Promo code requires a minimum order of ${formatMoney(minimum, currency?.code)}`, 400);
+  }
+
+  const eligibleLines = lines.filter(line => isLineEligible(promotion, line));
+  if (eligibleLines.length === 0) {
+    throw new AppError('Promo code does not apply to any items in your cart', 400);
+  }
+
+  const eligibleSubtotal = eligibleLines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+  const discountAmount = roundCurrency(calculateDiscount(promotion, eligibleLines, eligibleSubtotal));
+  const shippingDiscount = promotion.type === 'free_shipping' ? roundCurrency(shippingAmount) : 0;
+
+  if (discountAmount === 0 && shippingDiscount === 0) {
+    throw new AppError('Add more eligible items to use this promo code', 400);
+  }
+
+  return { promotion, discountAmount, shippingDiscount };
+};
+
+/**
+ * Spread an item discount over lines in proportion to their totals, so
+ * invoices and tax can break it down. Rounding is left on the last line.
+ */
+const allocateDiscount = (lineTotals, discount) => {
+  const subtotal = lineTotals.reduce((sum, total) => sum + total, 0);
+  let remaining = discount;
+
+  return lineTotals.map((total, index) => {
+    const isLast = index === lineTotals.length - 1;
+    const share = roundCurrency(isLast || subtotal === 0 ? remaining : discount * total / subtotal);
+    remaining -= share;
+    return share;
+  });
+};
+
+/**
+ * Record a promotion against an order. The usage counter is bumped with a
+ * conditional update so concurrent checkouts cannot exceed the usage limit.
+ */
+const redeemPromotion = async ({ promotion, userId, orderId, discountAmount }) => {
+  const [updatedCount] = await Promotion.update(
+    { usageCount: Promotion.sequelize.literal('usage_count + 1') },
+    {
+      where: {
+        id: promotion.id,
+        [Op.or]: [
+          { usageLimit: null },
+          { usageCount: { [Op.lt]: Promotion.sequelize.col('usage_limit') } }
+        ]
+      }
+    }
+  );
+
+  if (updatedCount === 0) {
+    throw new AppError('Promo code has reached its usage limit', 400);
+  }
+
+  return PromotionRedemption.create({
+    promotionId: promotion.id,
+    userId,
+    orderId,
+    discountAmount
+  });
+};
+
+// Give a redemption back when its order is cancelled
+const releasePromotion = async (order) => {
+  if (!order.promotionId) return;
+
+  const deleted = await PromotionRedemption.destroy({
+    where: { orderId: order.id }
+  });
+
+  if (deleted > 0) {
+    await Promotion.decrement('usageCount', {
+      by: 1,
+      where: { id: order.promotionId }
+    });
+  }
+};
+
+module.exports = {
+  toPromotionLine,
+  evaluatePromotion,
+  allocateDiscount,
+  redeemPromotion,
+  releasePromotion
+};
@@ -0,0 +1,269 @@
+const { Refund, OrderItem } = require('../models');
+const { AppError } = require('../middleware/errorHandler');
+const { canTransition, transitionOrderStatus } = require('./orderStatus');
+const { roundToCurrency, toMinorUnits, formatMoney } = require('./currency');
+const stripe = require('stripe')(process.env.STRIPE_SECRET_KEY);
+
+// Orders that still have money on them to give back
+const REFUNDABLE_PAYMENT_STATUSES = ['paid', 'partially_refunded'];
+
+const sum = (values) => values.reduce((total, value) => total + parseFloat(value || 0), 0);
+
+// What one unit of a line cost after its share of the discount, without tax.
+// Tax-inclusive lines have their tax taken back out.
+const getUnitAmount = (item, pricesIncludeTax) => {
+  const includedTax = pricesIncludeTax ? parseFloat(item.taxAmount || 0) : 0;
+  return (parseFloat(item.totalPrice) - parseFloat(item.discountAmount || 0) - includedTax) / item.quantity;
+};
+
+const getUnitTaxAmount = (item) => parseFloat(item.taxAmount || 0) / item.quantity;
+
+/**
+ * Work out what is left to refund on an order from the refunds recorded
+ * against it. Expects the order with its items and refunds loaded.
+ */
+const getRefundSummary = (order) => {
+  const roundMoney = (amount) => roundToCurrency(amount, order.currency);
+  const refunds = order.refunds || [];
+  const lines = refunds.flatMap(refund => refund.lines);
+
+  // Shipping discounts are whatever of the order discount the lines don't carry
+  const shippingDiscount = parseFloat(order.discountAmount) - sum(order.items.map(item => item.discountAmount));
+  const shippingPaid = Math.max(0, parseFloat(order.shippingAmount) - Math.max(0, shippingDiscount));
+  const refundedAmount = sum(refunds.map(refund => refund.amount));
+
+  return {
+    currency: order.currency,
+    total: parseFloat(order.total),
+    refundedAmount: roundMoney(refundedAmount),
+    balance: roundMoney(Math.max(0, parseFloat(order.total) - refundedAmount)),
+    shipping: roundMoney(Math.max(0, shippingPaid - sum(refunds.map(refund => refund.shippingAmount)))),
+    tax: roundMoney(Math.max(0, parseFloat(order.taxAmount) - sum(refunds.map(refund => refund.taxAmount)))),
+    items: order.items.map(item => {
+      const refundedQuantity = lines
+        .filter(line => line.orderItemId === item.id)
+        .reduce((total, line) => total + line.quantity, 0);
+      return {
+        orderItemId: item.id,
+        name: item.productSnapshot.name,
+        sku: item.productSnapshot.sku,
+        quantity: item.quantity,
+        refundedQuantity,
+        refundableQuantity: Math.max(0, item.quantity - refundedQuantity),
+        unitAmount: roundMoney(getUnitAmount(item, order.pricesIncludeTax)),
+        unitTaxAmount: roundMoney(getUnitTaxAmount(item))
+      };
+    })
+  };
+};
+
+/**
+ * Turn a refund request into the amount to send to Stripe and the breakdown
+ * to record. Items, shipping and tax are each capped at what is left; when
+ * none of them are given and there is no amount, the whole balance is refunded.
+ */
+const buildRefund = (order, { items, shippingAmount = 0, taxAmount = 0, amount } = {}) => {
+  const roundMoney = (amount) => roundToCurrency(amount, order.currency);
+  const summary = getRefundSummary(order);
+
+  if (summary.balance <= 0) {
+    throw new AppError('This order has been fully refunded', 400);
+  }
+
+  const isItemised = items !== undefined || shippingAmount > 0 || taxAmount > 0;
+
+  // A plain amount, as customers and older clients send it
+  if (!isItemised && amount) {
+    if (amount > summary.balance) {
+      throw new AppError(`At most ${formatMoney(summary.balance, order.currency)} can be refunded`, 400);
+    }
+    return { amount: roundMoney(amount), lines: [], shippingAmount: 0, taxAmount: 0 };
+  }
+
+  // Everything that is left
+  if (!isItemised) {
+    return {
+      amount: summary.balance,
+      lines: summary.items
+        .filter(item => item.refundableQuantity > 0)
+        .map(item => ({
+          orderItemId: item.orderItemId,
+          quantity: item.refundableQuantity,
+          amount: roundMoney(item.unitAmount * item.refundableQuantity)
+        })),
+      shippingAmount: summary.shipping,
+      taxAmount: summary.tax
+    };
+  }
+
+  const lines = (items || []).filter(line => line.quantity > 0).map(line => {
+    const item = summary.items.find(summaryItem => summaryItem.orderItemId === line.orderItemId);
+    if (!item) {
+      throw new AppError('Item is not part of this order', 400);
+    }
+    if (line.quantity > item.refundableQuantity) {
+      throw new AppError(`Only ${item.refundableQuantity} of ${item.name} can still be refunded`, 400);
+    }
+    return {
+      orderItemId: item.orderItemId,
+      quantity: line.quantity,
+      amount: roundMoney(item.unitAmount * line.quantity)
+    };
+  });
+
+  if (shippingAmount > summary.shipping) {
+    throw new AppError(`At most ${formatMoney(summary.shipping, order.currency)} of shipping can be refunded`, 400);
+  }
+  if (taxAmount > summary.tax) {
+    throw new AppError(`At most ${formatMoney(summary.tax, order.currency)} of tax can be refunded`, 400);
+  }
+
+  const total = roundMoney(sum(lines.map(line => line.amount)) + shippingAmount + taxAmount);
+  if (total <= 0) {
+    throw new AppError('Nothing has been selected to refund', 400);
+  }
+
+  return {
+    // Rounding per line can leave the total a cent over what was charged
+    amount: Math.min(total, summary.balance),
+    lines,
+    shippingAmount: roundMoney(shippingAmount),
+    taxAmount: roundMoney(taxAmount)
+  };
+};
+
+/**
+ * Bring the order and its items in line with the refunds recorded against
+ * it. Run after every refund, however it was issued.
+ */
+const syncOrderRefunds = async (order, { userId = null } = {}) => {
+  const roundMoney = (amount) => roundToCurrency(amount, order.currency);
+  const refunds = await Refund.findAll({ where: { orderId: order.id } });
+  const items = await OrderItem.findAll({ where: { orderId: order.id } });
+  const lines = refunds.flatMap(refund => refund.lines.map(line => ({ ...line, refundedAt: refund.createdAt })));
+
+  for (const item of items) {
+    const itemLines = lines.filter(line => line.orderItemId === item.id);
+    if (itemLines.length === 0) continue;
+
+    const refundedQuantity = itemLines.reduce((total, line) => total + line.quantity, 0);
+    await item.update({
+      refundAmount: roundMoney(sum(itemLines.map(line => line.amount))),
+      refundDate: itemLines[itemLines.length - 1].refundedAt,
+      ...(refundedQuantity >= item.quantity && { status: 'refunded' })
+    });
+  }
+
+  const refundedAmount = roundMoney(sum(refunds.map(refund => refund.amount)));
+  const isFullyRefunded = refundedAmount >= roundMoney(parseFloat(order.total));
+
+  await order.update({
+    refundedAmount,
+    ...(refundedAmount > 0 && { paymentStatus: isFullyRefunded ? 'refunded' : 'partially_refunded' })
+  });
+
+  if (isFullyRefunded && canTransition(order.status, 'refunded')) {
+    await transitionOrderStatus(order, 'refunded', {
+      userId,
+      reason: 'Order fully refunded',
+      isSystemGenerated: true
+    });
+  }
+
+  return order;
+};
+
+/**
+ * Record a refund issued through Stripe. The charge.refunded webhook can
+ * get there first, in which case its bare record is filled in instead.
+ */
+const recordRefund = async (order, { stripeRefundId, ...details }) => {
+  const existing = stripeRefundId
+    ? await Refund.findOne({ where: { stripeRefundId } })
+    : null;
+
+  const refund = existing
+    ? await existing.update(details)
+    : await Refund.create({ orderId: order.id, stripeRefundId, ...details });
+
+  await syncOrderRefunds(order, { userId: details.createdBy });
+  return refund;
+};
+
+/**
+ * Refund whatever is left of an order's payment through Stripe and record it.
+ * Once fully refunded the order moves on to refunded.
+ */
+const refundOrderBalance = async (order, { userId = null, reason = null, source }) => {
+  await order.reload({
+    include: [
+      { model: OrderItem, as: 'items' },
+      { model: Refund, as: 'refunds' }
+    ]
+  });
+  const breakdown = buildRefund(order);
+
+  let stripeRefund;
+  try {
+    stripeRefund = await stripe.refunds.create({
+      charge: order.stripeChargeId,
+      amount: toMinorUnits(breakdown.amount, order.currency),
+      reason: 'requested_by_customer',
+      metadata: {
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        userId
+      }
+    });
+  } catch (error) {
+    throw new AppError(`Order ${order.orderNumber} was cancelled but its refund failed: ${error.message}`, 400);
+  }
+
+  return recordRefund(order, {
+    stripeRefundId: stripeRefund.id,
+    ...breakdown,
+    reason,
+    source,
+    createdBy: userId
+  });
+};
+
+/**
+ * Cancel an order so it can neither keep nor take the customer's money: an
+ * open payment intent is cancelled with it, and whatever was already paid is
+ * refunded. The cancel goes first as it is the step that can be refused.
+ */
+const cancelOrder = async (order, { userId = null, reason = null, source, ...options } = {}) => {
+  // Cancelling the intent stops the shopper paying for an order that is gone.
+  // One already going through is left to finish; it is refunded when it lands.
+  let paymentIntent = null;
+  if (order.stripePaymentIntentId && !REFUNDABLE_PAYMENT_STATUSES.includes(order.paymentStatus)) {
+    paymentIntent = await stripe.paymentIntents.retrieve(order.stripePaymentIntentId);
+    if (['processing', 'succeeded'].includes(paymentIntent.status)) {
+      throw new AppError('Payment for this order is already being processed', 400);
+    }
+  }
+
+  await transitionOrderStatus(order, 'cancelled', { userId, reason, ...options });
+
+  if (paymentIntent && paymentIntent.status !== 'canceled') {
+    await stripe.paymentIntents.cancel(paymentIntent.id);
+  }
+
+  if (REFUNDABLE_PAYMENT_STATUSES.includes(order.paymentStatus) && order.stripeChargeId) {
+    await refundOrderBalance(order, { userId, reason, source });
+  }
+
+  return order;
+};
+
+module.exports = {
+  REFUNDABLE_PAYMENT_STATUSES,
+  getUnitTaxAmount,
+  getRefundSummary,
+  buildRefund,
+  syncOrderRefunds,
+  recordRefund,
+  refundOrderBalance,
+  cancelOrder
+};
@@ -0,0 +1,74 @@
+const { ReturnRequest, Refund } = require('../models');
+const { Op } = require('sequelize');
+const { roundToCurrency } = require('./currency');
+
+// Days after delivery a customer can open a return
+const RETURN_WINDOW_DAYS = parseInt(process.env.RETURN_WINDOW_DAYS || '30', 10);
+
+const RETURN_REASONS = ['damaged', 'defective', 'wrong_item', 'not_as_described', 'no_longer_needed', 'other'];
+
+// Rejected requests don't hold on to the units they asked for
+const OPEN_RETURN_STATUSES = ['requested', 'approved', 'received', 'refunded'];
+
+const getReturnDeadline = (order) => {
+  if (!order.deliveredAt) return null;
+  const deadline = new Date(order.deliveredAt);
+  deadline.setDate(deadline.getDate() + RETURN_WINDOW_DAYS);
+  return deadline;
+};
+
+const isWithinReturnWindow = (order) => {
+  const deadline = getReturnDeadline(order);
+  return !!deadline && deadline > new Date();
+};
+
+// Keys can't be taken back once revealed, so only physical lines are returnable
+const isReturnableItem = (item) => item.productSnapshot.isPhysical !== false;
+
+/**
+ * What the customer paid for some units of a line: their share of the
+ * line total less its discount, plus the tax charged on them unless the
+ * prices already included it. In the currency the order was placed in.
+ */
+const getItemRefundAmount = (item, quantity, order) => {
+  const linePaid = parseFloat(item.totalPrice) - parseFloat(item.discountAmount || 0) +
+    (order.pricesIncludeTax ? 0 : parseFloat(item.taxAmount || 0));
+  return roundToCurrency(linePaid * quantity / item.quantity, order.currency);
+};
+
+// Units of a line not already covered by an open return or refunded directly.
+// Refunds for a return are left out as the return already holds their units.
+const getReturnableQuantity = async (item) => {
+  const claimed = await ReturnRequest.sum('quantity', {
+    where: {
+      orderItemId: item.id,
+      status: { [Op.in]: OPEN_RETURN_STATUSES }
+    }
+  });
+
+  const directRefunds = await Refund.findAll({
+    where: { orderId: item.orderId, returnRequestId: null },
+    attributes: ['lines']
+  });
+  const refunded = directRefunds
+    .flatMap(refund => refund.lines || [])
+    .filter(line => line.orderItemId === item.id)
+    .reduce((total, line) => total + line.quantity, 0);
+
+  return Math.max(0, item.quantity - (claimed || 0) - refunded);
+};
+
+const generateRmaNumber = () => {
+  return `RMA-${Date.now()}-${Math.random().toString(36).substr(2, 6).toUpperCase()}`;
+};
+
+module.exports = {
+  RETURN_WINDOW_DAYS,
+  RETURN_REASONS,
+  getReturnDeadline,
+  isWithinReturnWindow,
+  isReturnableItem,
+  getItemRefundAmount,
+  getReturnableQuantity,
+  generateRmaNumber
+};
@@ -0,0 +1,192 @@
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const { Op } = require('sequelize');
+const { User, UserSession } = require('../models');
+const { generateToken, verifyRefreshToken } = require('../middleware/auth');
+const { AppError } = require('../middleware/errorHandler');
+const { logManualActivity } = require('../middleware/activityLogger');
+
+// How long the token a rotation replaced keeps working for refreshes that
+// were already in flight, e.g. from another tab
+const ROTATION_GRACE_MS = 30 * 1000;
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+const tokenExpiry = (token) => new Date(jwt.decode(token).exp * 1000);
+
+const BROWSERS = [
+  ['Edge', /Edg\//],
+  ['Opera', /OPR\//],
+  ['Chrome', /Chrome\//],
+  ['Firefox', /Firefox\//],
+  ['Safari', /Safari\//]
+];
+
+const OPERATING_SYSTEMS = [
+  ['iOS', /iPhone|iPad|iPod/],
+  ['Android', /Android/],
+  ['Windows', /Windows/],
+  ['macOS', /Mac OS X|Macintosh/],
+  ['Linux', /Linux/]
+];
+
+// A readable name for the device, good enough to tell sessions apart
+const describeDevice = (userAgent) => {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser = BROWSERS.find(([, pattern]) => pattern.test(userAgent));
+  const os = OPERATING_SYSTEMS.find(([, pattern]) => pattern.test(userAgent));
+  if (!browser && !os) {
+    return 'Unknown device';
+  }
+  return [browser?.[0] || 'Browser', os && `on ${os[0]}`].filter(Boolean).join(' ');
+};
+
+/**
+ * Sign a user in on the requesting device: records the session and issues
+ * tokens bound to it.
+ */
+const startSession = async (user, req) => {
+  const sessionId = crypto.randomUUID();
+  const tokens = generateToken(user.id, user.role, sessionId);
+  const userAgent = req.get('User-Agent');
+
+  const session = await UserSession.create({
+    id: sessionId,
+    userId: user.id,
+    refreshTokenHash: hashToken(tokens.refreshToken),
+    device: describeDevice(userAgent),
+    userAgent,
+    ipAddress: req.ip,
+    lastSeenAt: new Date(),
+    expiresAt: tokenExpiry(tokens.refreshToken)
+  });
+
+  return { ...tokens, session };
+};
+
+const wasJustRotated = (session, presentedHash) => (
+  session.previousRefreshTokenHash === presentedHash
+  && session.rotatedAt
+  && Date.now() - session.rotatedAt.getTime() < ROTATION_GRACE_MS
+);
+
+/**
+ * Exchange a refresh token for a new pair. Each refresh token works once:
+ * presenting one that has already been rotated means someone else holds a
+ * copy, so the whole session is revoked. The exception is the token rotated
+ * moments ago, which gets a new access token only since the refresh that
+ * rotated it has already set the new refresh cookie.
+ */
+const rotateSession = async (refreshToken, req) => {
+  let decoded;
+  try {
+    decoded = verifyRefreshToken(refreshToken);
+  } catch (error) {
+    throw new AppError('Invalid refresh token', 401);
+  }
+
+  const session = decoded.sessionId ? await UserSession.findByPk(decoded.sessionId) : null;
+  if (!session || !session.isActive() || session.userId !== decoded.userId) {
+    throw new AppError('Invalid refresh token', 401);
+  }
+
+  const presentedHash = hashToken(refreshToken);
+  const user = await User.findByPk(session.userId);
+  if (!user || !user.isActive) {
+    throw new AppError('Invalid refresh token', 401);
+  }
+
+  const tokens = generateToken(user.id, user.role, session.id);
+  const userAgent = req.get('User-Agent');
+
+  if (wasJustRotated(session, presentedHash)) {
+    return { accessToken: tokens.accessToken, refreshToken: null, user };
+  }
+
+  // Only swaps the token if it is still the current one, so two refreshes
+  // racing with the same token can't both rotate it
+  const [rotated] = await UserSession.update({
+    refreshTokenHash: hashToken(tokens.refreshToken),
+    previousRefreshTokenHash: presentedHash,
+    rotatedAt: new Date(),
+    expiresAt: tokenExpiry(tokens.refreshToken),
+    lastSeenAt: new Date(),
+    ipAddress: req.ip,
+    device: describeDevice(userAgent),
+    userAgent
+  }, {
+    where: { id: session.id, refreshTokenHash: presentedHash, revokedAt: null }
+  });
+
+  if (rotated === 0) {
+    // Lost the race to a refresh with the same token
+    await session.reload();
+    if (session.isActive() && wasJustRotated(session, presentedHash)) {
+      return { accessToken: tokens.accessToken, refreshToken: null, user };
+    }
+
+    await session.update({ revokedAt: new Date(), revokedReason: 'reuse' });
+    await logManualActivity({
+      userId: user.id,
+      action: 'user.session.reuse',
+      entityType: 'user',
+      entityId: user.id,
+      description: `Refresh token reused, signed out ${session.device}`,
+      severity: 'high',
+      sessionId: session.id,
+      ipAddress: req.ip,
+      userAgent
+    });
+    throw new AppError('Your session is no longer valid. Please sign in again.', 401);
+  }
+
+  return { ...tokens, user };
+};
+
+const revokeSession = (session, reason) => {
+  return session.update({ revokedAt: new Date(), revokedReason: reason });
+};
+
+// Revoke every active session of a user, optionally keeping one (the current device)
+const revokeUserSessions = async (userId, reason, { exceptSessionId } = {}) => {
+  const where = { userId, revokedAt: null };
+  if (exceptSessionId) {
+    where.id = { [Op.ne]: exceptSessionId };
+  }
+
+  const [revoked] = await UserSession.update({ revokedAt: new Date(), revokedReason: reason }, { where });
+  return revoked;
+};
+
+const listActiveSessions = (userId) => {
+  return UserSession.findAll({
+    where: {
+      userId,
+      revokedAt: null,
+      expiresAt: { [Op.gt]: new Date() }
+    },
+    order: [['lastSeenAt', 'DESC']]
+  });
+};
+
+const serializeSession = (session, currentSessionId) => ({
+  id: session.id,
+  device: session.device,
+  ipAddress: session.ipAddress,
+  lastSeenAt: session.lastSeenAt,
+  createdAt: session.createdAt,
+  isCurrent: session.id === currentSessionId
+});
+
+module.exports = {
+  describeDevice,
+  startSession,
+  rotateSession,
+  revokeSession,
+  revokeUserSessions,
+  listActiveSessions,
+  serializeSession
+};
@@ -0,0 +1,113 @@
+const { Shipment, User } = require('../models');
+const { AppError } = require('../middleware/errorHandler');
+const { isShippableItem } = require('./invoice');
+const { canTransition, transitionOrderStatus } = require('./orderStatus');
+const { sendOrderShippedEmail } = require('./emailService');
+
+/**
+ * How much of each physical line has gone out and how much is still to
+ * ship. Expects the order with its items and shipments loaded.
+ */
+const getShippingSummary = (order) => {
+  const lines = (order.shipments || []).flatMap(shipment => shipment.lines);
+
+  return order.items.filter(isShippableItem).map(item => {
+    const shippedQuantity = lines
+      .filter(line => line.orderItemId === item.id)
+      .reduce((total, line) => total + line.quantity, 0);
+    return {
+      orderItemId: item.id,
+      name: item.productSnapshot.name,
+      sku: item.productSnapshot.sku,
+      quantity: item.quantity,
+      shippedQuantity,
+      remainingQuantity: Math.max(0, item.quantity - shippedQuantity)
+    };
+  });
+};
+
+/**
+ * Send some or all of what is left on an order as one parcel. The order
+ * moves to processing while parcels are still to go and to shipped with
+ * the last one; the customer gets a shipping email for each parcel.
+ */
+const createShipment = async (order, { lines, trackingNumber, trackingUrl, notes, userId = null }) => {
+  if (!order.shippingAddress) {
+    throw new AppError('Orders without a shipping address cannot be shipped', 400);
+  }
+  if (!canTransition(order.status, 'shipped')) {
+    throw new AppError(`A ${order.status} order cannot be shipped`, 400);
+  }
+
+  const summary = getShippingSummary(order);
+
+  // Nothing picked means everything that is left
+  const shipmentLines = (lines || summary.map(item => ({ orderItemId: item.orderItemId, quantity: item.remainingQuantity })))
+    .filter(line => line.quantity > 0)
+    .map(line => {
+      const item = summary.find(summaryItem => summaryItem.orderItemId === line.orderItemId);
+      if (!item) {
+        throw new AppError('Item is not a shippable part of this order', 400);
+      }
+      if (line.quantity > item.remainingQuantity) {
+        throw new AppError(`Only ${item.remainingQuantity} of ${item.name} are left to ship`, 400);
+      }
+      return { orderItemId: item.orderItemId, quantity: line.quantity };
+    });
+
+  if (shipmentLines.length === 0) {
+    throw new AppError('Nothing has been selected to ship', 400);
+  }
+
+  const shipment = await Shipment.create({
+    orderId: order.id,
+    lines: shipmentLines,
+    trackingNumber,
+    trackingUrl,
+    notes,
+    createdBy: userId
+  });
+
+  const isComplete = summary.every(item => {
+    const line = shipmentLines.find(shipmentLine => shipmentLine.orderItemId === item.orderItemId);
+    return item.remainingQuantity - (line ? line.quantity : 0) === 0;
+  });
+
+  // The shipped transition sends its own email
+  if (isComplete) {
+    await transitionOrderStatus(order, 'shipped', {
+      userId,
+      reason: 'All items shipped',
+      trackingNumber,
+      trackingUrl,
+      metadata: { shipmentId: shipment.id }
+    });
+    return shipment;
+  }
+
+  if (order.status !== 'processing') {
+    await transitionOrderStatus(order, 'processing', {
+      userId,
+      reason: 'Partially shipped',
+      metadata: { shipmentId: shipment.id }
+    });
+  }
+
+  try {
+    const user = await User.findByPk(order.userId, {
+      attributes: ['id', 'firstName', 'email']
+    });
+    if (user) {
+      await sendOrderShippedEmail(user, { ...order.toJSON(), trackingUrl }, trackingNumber);
+    }
+  } catch (error) {
+    console.error(`Failed to send shipping email for order ${order.id}:`, error);
+  }
+
+  return shipment;
+};
+
+module.exports = {
+  getShippingSummary,
+  createShipment
+};
@@ -0,0 +1,128 @@
+const { ShippingZone, ShippingRate } = require('../models');
+const { AppError } = require('../middleware/errorHandler');
+
+// Carriers bill bulky parcels by volume: dimensions in cm over this gives kg
+const DIMENSIONAL_WEIGHT_DIVISOR = 5000;
+
+const roundCurrency = (amount) => Math.round(amount * 100) / 100;
+
+const normalize = (value) => String(value || '').trim().toLowerCase();
+
+// Flatten a cart item (with its product loaded) into what the engine needs
+const toShippingLine = (cartItem) => ({
+  quantity: cartItem.quantity,
+  unitPrice: parseFloat(cartItem.priceAtAdd),
+  isPhysical: cartItem.product.isPhysical,
+  weight: parseFloat(cartItem.product.weight || 0),
+  dimensions: cartItem.product.dimensions
+});
+
+// The greater of a unit's actual and dimensional weight
+const getBillableWeight = ({ weight, dimensions }) => {
+  if (!dimensions || !dimensions.length || !dimensions.width || !dimensions.height) {
+    return weight;
+  }
+  const dimensionalWeight = dimensions.length * dimensions.width * dimensions.height / DIMENSIONAL_WEIGHT_DIVISOR;
+  return Math.max(weight, dimensionalWeight);
+};
+
+// How closely a zone fits an address: a listed region beats a whole country,
+// which beats the catch-all zone. -1 when the zone doesn't cover the address.
+const getZoneMatch = (zone, address) => {
+  if (zone.countries.length === 0) return 0;
+
+  const countries = zone.countries.map(normalize);
+  if (!countries.includes(normalize(address.country))) return -1;
+  if (zone.regions.length === 0) return 1;
+
+  const regions = zone.regions.map(normalize);
+  return regions.includes(normalize(address.state)) ? 2 : -1;
+};
+
+const findShippingZone = async (address) => {
+  const zones = await ShippingZone.findAll({
+    where: { isActive: true },
+    include: [{
+      model: ShippingRate,
+      as: 'rates',
+      where: { isActive: true },
+      required: false
+    }],
+    order: [[{ model: ShippingRate, as: 'rates' }, 'sortOrder', 'ASC']]
+  });
+
+  return zones.reduce((best, zone) => {
+    const match = getZoneMatch(zone, address);
+    if (match < 0 || (best && best.match >= match)) return best;
+    return { zone, match };
+  }, null)?.zone || null;
+};
+
+// What a rate charges for a parcel, or null when the parcel is outside its tiers
+const getRatePrice = (rate, { weight, subtotal }) => {
+  if (rate.freeShippingThreshold !== null && subtotal >= parseFloat(rate.freeShippingThreshold)) {
+    return 0;
+  }
+
+  if (rate.rateType === 'flat') {
+    return parseFloat(rate.price);
+  }
+
+  const value = rate.rateType === 'weight' ? weight : subtotal;
+  const tier = rate.tiers.find(candidate => candidate.upTo === null || value <= candidate.upTo);
+  return tier ? parseFloat(tier.price) : null;
+};
+
+/**
+ * List the shipping methods that can deliver the physical lines of a cart
+ * to an address, in the order the zone lists them. Digital lines are
+ * delivered as keys, so a cart without physical lines gets none.
+ */
+const getShippingOptions = async ({ address, lines }) => {
+  const physicalLines = lines.filter(line => line.isPhysical);
+  if (physicalLines.length === 0 || !address || !address.country) {
+    return [];
+  }
+
+  const zone = await findShippingZone(address);
+  if (!zone) {
+    return [];
+  }
+
+  const parcel = {
+    weight: physicalLines.reduce((total, line) => total + getBillableWeight(line) * line.quantity, 0),
+    subtotal: lines.reduce((total, line) => total + line.unitPrice * line.quantity, 0)
+  };
+
+  return zone.rates
+    .map(rate => ({ rate, price: getRatePrice(rate, parcel) }))
+    .filter(({ price }) => price !== null)
+    .map(({ rate, price }) => ({
+      id: rate.id,
+      name: rate.name,
+      description: rate.description,
+      price: roundCurrency(price),
+      minDays: rate.minDays,
+      maxDays: rate.maxDays,
+      isExpress: rate.isExpress
+    }));
+};
+
+/**
+ * Quote one shipping method for a cart. Throws when the method can't deliver
+ * this cart to the address, e.g. because the address moved to another zone.
+ */
+const getShippingOption = async (methodId, { address, lines }) => {
+  const options = await getShippingOptions({ address, lines });
+  const option = options.find(candidate => candidate.id === methodId);
+  if (!option) {
+    throw new AppError('The selected shipping method is not available for this address', 400);
+  }
+  return option;
+};
+
+module.exports = {
+  toShippingLine,
+  getShippingOptions,
+  getShippingOption
+};
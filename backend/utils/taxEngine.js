@@ -0,0 +1,116 @@
+const { Op } = require('sequelize');
+const { TaxRate, Category } = require('../models');
+
+const TAX_CLASSES = ['standard', 'reduced', 'digital', 'exempt'];
+
+const roundCurrency = (amount) => Math.round(amount * 100) / 100;
+
+const normalize = (value) => String(value || '').trim().toLowerCase();
+
+// Shelf prices either include tax, as VAT prices do, or have it added at checkout
+const pricesIncludeTax = () => process.env.PRICES_INCLUDE_TAX === 'true';
+
+// Flatten a cart item (with its product loaded) into what the engine needs.
+// taxableAmount is the line total after its share of any discount.
+const toTaxLine = (cartItem, discountAmount = 0) => ({
+  categoryId: cartItem.product.categoryId,
+  subcategoryId: cartItem.product.subcategoryId,
+  isDigital: cartItem.product.isDigital,
+  isPhysical: cartItem.product.isPhysical,
+  taxableAmount: parseFloat(cartItem.priceAtAdd) * cartItem.quantity - discountAmount
+});
+
+const getTaxClass = (line, categoryClasses) => {
+  const categoryClass = categoryClasses.get(line.subcategoryId) || categoryClasses.get(line.categoryId);
+  if (categoryClass) return categoryClass;
+  return line.isDigital && !line.isPhysical ? 'digital' : 'standard';
+};
+
+const matchesAddress = (taxRate, address) => {
+  if (normalize(taxRate.country) !== normalize(address.country)) return false;
+  if (taxRate.state && normalize(taxRate.state) !== normalize(address.state)) return false;
+  if (taxRate.postalCodes.length === 0) return true;
+
+  const postalCode = normalize(address.zipCode).replace(/\s/g, '');
+  return taxRate.postalCodes.some(prefix => postalCode.startsWith(normalize(prefix).replace(/\s/g, '')));
+};
+
+/**
+ * Work out the tax on each line for an address. Every active rate matching
+ * the address and the line's tax class applies, so a state rate and a city
+ * rate for ZIPs inside that state add up.
+ *
+ * Returns the lines' tax in the order given, each with the rates that made
+ * it up, and the total. With tax-inclusive prices the tax is the part of
+ * the taxable amount that was tax rather than an amount on top.
+ */
+const calculateTax = async ({ address, lines }) => {
+  const includesTax = pricesIncludeTax();
+  const untaxed = {
+    pricesIncludeTax: includesTax,
+    taxAmount: 0,
+    lines: lines.map(() => ({ taxAmount: 0, taxBreakdown: [] }))
+  };
+
+  if (!address || !address.country || lines.length === 0) {
+    return untaxed;
+  }
+
+  const categoryIds = [...new Set(lines.flatMap(line => [line.categoryId, line.subcategoryId]).filter(Boolean))];
+  const categories = await Category.findAll({
+    where: { id: { [Op.in]: categoryIds }, taxClass: { [Op.ne]: null } },
+    attributes: ['id', 'taxClass']
+  });
+  const categoryClasses = new Map(categories.map(category => [category.id, category.taxClass]));
+
+  const taxRates = (await TaxRate.findAll({ where: { isActive: true } }))
+    .filter(taxRate => matchesAddress(taxRate, address));
+  if (taxRates.length === 0) {
+    return untaxed;
+  }
+
+  const taxedLines = lines.map(line => {
+    const taxClass = getTaxClass(line, categoryClasses);
+    const applicable = taxClass === 'exempt'
+      ? []
+      : taxRates.filter(taxRate => taxRate.taxClass === taxClass);
+    const combinedRate = applicable.reduce((sum, taxRate) => sum + parseFloat(taxRate.rate), 0) / 100;
+    if (combinedRate === 0 || line.taxableAmount <= 0) {
+      return { taxAmount: 0, taxBreakdown: [] };
+    }
+
+    const lineTax = includesTax
+      ? line.taxableAmount - line.taxableAmount / (1 + combinedRate)
+      : line.taxableAmount * combinedRate;
+
+    // Split the line's tax between its rates, with rounding left on the last
+    let remaining = roundCurrency(lineTax);
+    const taxBreakdown = applicable.map((taxRate, index) => {
+      const share = index === applicable.length - 1
+        ? remaining
+        : roundCurrency(lineTax * parseFloat(taxRate.rate) / 100 / combinedRate);
+      remaining = roundCurrency(remaining - share);
+      return {
+        taxRateId: taxRate.id,
+        name: taxRate.name,
+        rate: parseFloat(taxRate.rate),
+        amount: share
+      };
+    });
+
+    return { taxAmount: roundCurrency(lineTax), taxBreakdown };
+  });
+
+  return {
+    pricesIncludeTax: includesTax,
+    taxAmount: roundCurrency(taxedLines.reduce((sum, line) => sum + line.taxAmount, 0)),
+    lines: taxedLines
+  };
+};
+
+module.exports = {
+  TAX_CLASSES,
+  pricesIncludeTax,
+  toTaxLine,
+  calculateTax
+};
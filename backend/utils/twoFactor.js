@@ -0,0 +1,228 @@
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const QRCode = require('qrcode');
+const { Op } = require('sequelize');
+const { User } = require('../models');
+
+const CIPHER = 'aes-256-gcm';
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// RFC 6238 defaults, which every authenticator app supports
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+// Codes from the neighbouring periods are accepted to allow for clock drift
+const TOTP_WINDOW = 1;
+
+const RECOVERY_CODE_COUNT = 10;
+// How long the shopper has to enter their code after their password
+const LOGIN_CHALLENGE_EXPIRES_IN = '5m';
+
+const getSecret = () => {
+  const secret = process.env.TWO_FACTOR_SECRET;
+  if (!secret) {
+    throw new Error('TWO_FACTOR_SECRET is not configured');
+  }
+  return crypto.createHash('sha256').update(secret).digest();
+};
+
+// Stored as iv:authTag:ciphertext, all base64
+const encryptSecret = (plainSecret) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(CIPHER, getSecret(), iv);
+  const encrypted = Buffer.concat([cipher.update(plainSecret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join(':');
+};
+
+const decryptSecret = (encryptedSecret) => {
+  const [iv, authTag, encrypted] = encryptedSecret.split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv(CIPHER, getSecret(), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
+
+const base32Encode = (buffer) => {
+  let bits = '';
+  for (const byte of buffer) {
+    bits += byte.toString(2).padStart(8, '0');
+  }
+
+  let encoded = '';
+  for (let i = 0; i < bits.length; i += 5) {
+    encoded += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+  }
+  return encoded;
+};
+
+const base32Decode = (encoded) => {
+  let bits = '';
+  for (const char of encoded.replace(/=+$/, '').toUpperCase()) {
+    bits += BASE32_ALPHABET.indexOf(char).toString(2).padStart(5, '0');
+  }
+
+  const bytes = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    bytes.push(parseInt(bits.slice(i, i + 8), 2));
+  }
+  return Buffer.from(bytes);
+};
+
+// A new shared secret, base32 encoded as authenticator apps expect
+const generateSecret = () => base32Encode(crypto.randomBytes(20));
+
+// The HOTP code (RFC 4226) for one time step
+const generateCode = (secret, timeStep) => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(timeStep));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+const currentTimeStep = () => Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+
+/**
+ * Check a code from the user's authenticator app. Returns the time step it
+ * belongs to, or null when it doesn't match. Steps at or before lastUsedStep
+ * are refused so an observed code can't be replayed.
+ */
+const verifyCode = (secret, code, lastUsedStep = null) => {
+  const normalized = String(code || '').replace(/\s+/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+    return null;
+  }
+
+  const now = currentTimeStep();
+  for (let step = now - TOTP_WINDOW; step <= now + TOTP_WINDOW; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) {
+      continue;
+    }
+    const expected = generateCode(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+};
+
+// The otpauth:// URI authenticator apps read from the enrollment QR code
+const buildOtpauthUrl = (secret, accountName) => {
+  const issuer = process.env.TWO_FACTOR_ISSUER || 'GameStore';
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS)
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+const generateQrCode = (otpauthUrl) => QRCode.toDataURL(otpauthUrl);
+
+const normalizeRecoveryCode = (code) => String(code || '').replace(/[\s-]/g, '').toLowerCase();
+
+const hashRecoveryCode = (code) => {
+  return crypto.createHmac('sha256', getSecret()).update(normalizeRecoveryCode(code)).digest('hex');
+};
+
+/**
+ * Single-use codes for when the authenticator app is lost. The plain codes
+ * are shown to the user once; only their hashes are stored.
+ */
+const generateRecoveryCodes = () => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+};
+
+/**
+ * Check a code against the user's second factor, either an authenticator
+ * code or an unused recovery code. Consumed codes are saved on the user.
+ * Returns 'totp', 'recovery' or null.
+ *
+ * Codes are consumed with conditional updates, so when the same code is
+ * sent twice at once only one of the requests gets to use it.
+ */
+const verifySecondFactor = async (user, code) => {
+  if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+    return null;
+  }
+
+  const step = verifyCode(decryptSecret(user.twoFactorSecret), code, user.twoFactorLastUsedStep);
+  if (step !== null) {
+    const [updated] = await User.update({ twoFactorLastUsedStep: step }, {
+      where: {
+        id: user.id,
+        [Op.or]: [
+          { twoFactorLastUsedStep: null },
+          { twoFactorLastUsedStep: { [Op.lt]: step } }
+        ]
+      }
+    });
+    if (updated === 0) {
+      return null;
+    }
+    user.twoFactorLastUsedStep = step;
+    return 'totp';
+  }
+
+  const hash = hashRecoveryCode(code);
+  const recoveryCodes = user.twoFactorRecoveryCodes || [];
+  if (normalizeRecoveryCode(code) && recoveryCodes.includes(hash)) {
+    const [updated] = await User.update({
+      twoFactorRecoveryCodes: User.sequelize.literal(`two_factor_recovery_codes - ${User.sequelize.escape(hash)}`)
+    }, {
+      where: { id: user.id, twoFactorRecoveryCodes: { [Op.contains]: [hash] } }
+    });
+    if (updated === 0) {
+      return null;
+    }
+    await user.reload({ attributes: ['twoFactorRecoveryCodes'] });
+    return 'recovery';
+  }
+
+  return null;
+};
+
+// Admins must use two-factor sign in when the store enforces it
+const isTwoFactorRequired = (user) => {
+  return user.role === 'admin' && process.env.REQUIRE_ADMIN_2FA === 'true';
+};
+
+// Proves the password was checked, so the second step doesn't ask for it again.
+// Signed with its own secret so it can never pass as an access token.
+const createLoginChallenge = (user) => {
+  return jwt.sign(
+    { userId: user.id, purpose: '2fa' },
+    getSecret(),
+    { expiresIn: LOGIN_CHALLENGE_EXPIRES_IN }
+  );
+};
+
+const verifyLoginChallenge = (token) => {
+  try {
+    const decoded = jwt.verify(token, getSecret());
+    return decoded.purpose === '2fa' ? decoded.userId : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+module.exports = {
+  encryptSecret,
+  decryptSecret,
+  generateSecret,
+  verifyCode,
+  buildOtpauthUrl,
+  generateQrCode,
+  generateRecoveryCodes,
+  verifySecondFactor,
+  isTwoFactorRequired,
+  createLoginChallenge,
+  verifyLoginChallenge
+};
@@ -3,8 +3,10 @@ import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { Toaster } from '@/components/ui/toaster';
 import { ThemeProvider } from '@/components/theme-provider';
+import { I18nProvider } from '@/components/i18n-provider';
 import { AuthProvider } from '@/contexts/auth-context';
 import { CartProvider } from '@/contexts/cart-context';
+import { WishlistProvider } from '@/contexts/wishlist-context';
 import { StripeProvider } from '@/contexts/stripe-context';
 
 // Layout Components
@@ -16,6 +18,8 @@ import { HomePage } from '@/pages/home';
 import { LoginPage } from '@/pages/auth/login';
 import { RegisterPage } from '@/pages/auth/register';
 import { ForgotPasswordPage } from '@/pages/auth/forgot-password';
+import { ResetPasswordPage } from '@/pages/auth/reset-password';
+import { VerifyEmailPage } from '@/pages/auth/verify-email';
 import { ProductListPage } from '@/pages/products/product-list';
 import { ProductDetailPage } from '@/pages/products/product-detail';
 import { SearchPage } from '@/pages/search';
@@ -23,8 +27,11 @@ import { SearchPage } from '@/pages/search';
 // Protected Pages (Buyer)
 import { ProfilePage } from '@/pages/profile';
 import { OrdersPage } from '@/pages/orders';
+import { OrderDetailPage } from '@/pages/order-detail';
 import { CartPage } from '@/pages/cart';
+import { WishlistPage } from '@/pages/wishlist';
 import { CheckoutPage } from '@/pages/checkout';
+import { CheckoutSuccessPage } from '@/pages/checkout/success';
 
 // Admin Pages
 import { AdminDashboardPage } from '@/pages/admin/dashboard';
@@ -32,8 +39,14 @@ import { AdminProductsPage } from '@/pages/admin/products';
 import { AdminProductFormPage } from '@/pages/admin/product-form';
 import { AdminCategoriesPage } from '@/pages/admin/categories';
 import { AdminOrdersPage } from '@/pages/admin/orders';
+import { AdminOrderDetailPage } from '@/pages/admin/order-detail';
 import { AdminUsersPage } from '@/pages/admin/users';
 import { AdminReviewsPage } from '@/pages/admin/reviews';
+import { AdminPromotionsPage } from '@/pages/admin/promotions';
+import { AdminShippingPage } from '@/pages/admin/shipping';
+import { AdminTaxesPage } from '@/pages/admin/taxes';
+import { AdminCurrenciesPage } from '@/pages/admin/currencies';
+import { AdminReturnsPage } from '@/pages/admin/returns';
 
 // Error Pages
 import { NotFoundPage } from '@/pages/errors/not-found';
@@ -58,73 +71,96 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <ThemeProvider defaultTheme="system" storageKey="gamestore-theme">
-        <StripeProvider>
-          <AuthProvider>
-            <CartProvider>
-              <Router>
-                <div className="min-h-screen bg-background">
-                  <Routes>
-                    {/* Public Routes */}
-                    <Route path="/" element={<RootLayout />}>
-                      <Route index element={<HomePage />} />
-                      <Route path="products" element={<ProductListPage />} />
-                      <Route path="products/:slug" element={<ProductDetailPage />} />
-                      <Route path="search" element={<SearchPage />} />
+        <I18nProvider>
+          <StripeProvider>
+            <AuthProvider>
+              <CartProvider>
+                <WishlistProvider>
+                  <Router>
+                    <div className="min-h-screen bg-background">
+                      <Routes>
+                        {/* Public Routes */}
+                        <Route path="/" element={<RootLayout />}>
+                          <Route index element={<HomePage />} />
+                          <Route path="products" element={<ProductListPage />} />
+                          <Route path="products/:slug" element={<ProductDetailPage />} />
+                          <Route path="search" element={<SearchPage />} />
+                          <Route path="cart" element={<CartPage />} />
                       
-                      {/* Auth Routes */}
-                      <Route path="login" element={<LoginPage />} />
-                      <Route path="register" element={<RegisterPage />} />
-                      <Route path="forgot-password" element={<ForgotPasswordPage />} />
+                          {/* Auth Routes */}
+                          <Route path="login" element={<LoginPage />} />
+                          <Route path="register" element={<RegisterPage />} />
+                          <Route path="forgot-password" element={<ForgotPasswordPage />} />
+                          <Route path="reset-password" element={<ResetPasswordPage />} />
+                          <Route path="verify-email" element={<VerifyEmailPage />} />
                       
-                      {/* Protected Routes (Buyer) */}
-                      <Route path="profile" element={
-                        <ProtectedRoute>
-                          <ProfilePage />
-                        </ProtectedRoute>
-                      } />
-                      <Route path="orders" element={
-                        <ProtectedRoute>
-                          <OrdersPage />
-                        </ProtectedRoute>
-                      } />
-                      <Route path="cart" element={
-                        <ProtectedRoute>
-                          <CartPage />
-                        </ProtectedRoute>
-                      } />
-                      <Route path="checkout" element={
-                        <ProtectedRoute>
-                          <CheckoutPage />
-                        </ProtectedRoute>
-                      } />
+                          {/* Protected Routes (Buyer) */}
+                          <Route path="profile" element={
+                            <ProtectedRoute>
+                              <ProfilePage />
+                            </ProtectedRoute>
+                          } />
+                          <Route path="orders" element={
+                            <ProtectedRoute>
+                              <OrdersPage />
+                            </ProtectedRoute>
+                          } />
+                          <Route path="orders/:id" element={
+                            <ProtectedRoute>
+                              <OrderDetailPage />
+                            </ProtectedRoute>
+                          } />
+                          <Route path="wishlist" element={
+                            <ProtectedRoute>
+                              <WishlistPage />
+                            </ProtectedRoute>
+                          } />
+                          <Route path="checkout/:step?" element={
+                            <ProtectedRoute>
+                              <CheckoutPage />
+                            </ProtectedRoute>
+                          } />
+                          <Route path="checkout/success" element={
+                            <ProtectedRoute>
+                              <CheckoutSuccessPage />
+                            </ProtectedRoute>
+                          } />
                       
-                      {/* Error Routes */}
-                      <Route path="403" element={<ForbiddenPage />} />
-                      <Route path="*" element={<NotFoundPage />} />
-                    </Route>
+                          {/* Error Routes */}
+                          <Route path="403" element={<ForbiddenPage />} />
+                          <Route path="*" element={<NotFoundPage />} />
+                        </Route>
 
-                    {/* Admin Routes */}
-                    <Route path="/admin" element={
-                      <AdminRoute>
-                        <AdminLayout />
-                      </AdminRoute>
-                    }>
-                      <Route index element={<AdminDashboardPage />} />
-                      <Route path="products" element={<AdminProductsPage />} />
-                      <Route path="products/new" element={<AdminProductFormPage />} />
-                      <Route path="products/:id/edit" element={<AdminProductFormPage />} />
-                      <Route path="categories" element={<AdminCategoriesPage />} />
-                      <Route path="orders" element={<AdminOrdersPage />} />
-                      <Route path="users" element={<AdminUsersPage />} />
-                      <Route path="reviews" element={<AdminReviewsPage />} />
-                    </Route>
-                  </Routes>
-                  <Toaster />
-                </div>
-              </Router>
-            </CartProvider>
-          </AuthProvider>
-        </StripeProvider>
+                        {/* Admin Routes */}
+                        <Route path="/admin" element={
+                          <AdminRoute>
+                            <AdminLayout />
+                          </AdminRoute>
+                        }>
+                          <Route index element={<AdminDashboardPage />} />
+                          <Route path="products" element={<AdminProductsPage />} />
+                          <Route path="products/new" element={<AdminProductFormPage />} />
+                          <Route path="products/:id/edit" element={<AdminProductFormPage />} />
+                          <Route path="categories" element={<AdminCategoriesPage />} />
+                          <Route path="orders" element={<AdminOrdersPage />} />
+                          <Route path="orders/:id" element={<AdminOrderDetailPage />} />
+                          <Route path="returns" element={<AdminReturnsPage />} />
+                          <Route path="users" element={<AdminUsersPage />} />
+                          <Route path="reviews" element={<AdminReviewsPage />} />
+                          <Route path="promotions" element={<AdminPromotionsPage />} />
+                          <Route path="shipping" element={<AdminShippingPage />} />
+                          <Route path="taxes" element={<AdminTaxesPage />} />
+                          <Route path="currencies" element={<AdminCurrenciesPage />} />
+                        </Route>
+                      </Routes>
+                      <Toaster />
+                    </div>
+                  </Router>
+                </WishlistProvider>
+              </CartProvider>
+            </AuthProvider>
+          </StripeProvider>
+        </I18nProvider>
       </ThemeProvider>
     </QueryClientProvider>
   );
@@ -0,0 +1,309 @@
+import React, { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { MapPin, Pencil, Plus, Star, Trash2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { addressesAPI } from '@/lib/api';
+import { AddressForm, SavedAddress } from '@/types';
+import { toast } from '@/store';
+import { useTranslation } from '@/hooks/use-translation';
+
+// Postal codes are checked against the country's format by the server
+const addressSchema = z.object({
+  label: z.string().min(1, 'validation.labelRequired').max(50),
+  firstName: z.string().min(1, 'validation.firstNameRequired'),
+  lastName: z.string().min(1, 'validation.lastNameRequired'),
+  phone: z.string().optional(),
+  street: z.string().min(5, 'validation.addressRequired'),
+  city: z.string().min(2, 'validation.cityRequired'),
+  state: z.string().min(2, 'validation.stateRequired'),
+  zipCode: z.string().min(3, 'validation.zipCodeRequired'),
+  country: z.string().min(2, 'validation.countryRequired'),
+  isDefault: z.boolean().optional(),
+});
+
+type AddressFormData = z.infer<typeof addressSchema>;
+
+const emptyAddress: AddressFormData = {
+  label: '',
+  firstName: '',
+  lastName: '',
+  phone: '',
+  street: '',
+  city: '',
+  state: '',
+  zipCode: '',
+  country: '',
+  isDefault: false,
+};
+
+export const AddressBook: React.FC = () => {
+  const { translateError } = useTranslation();
+  const [addresses, setAddresses] = useState<SavedAddress[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // The address being edited, 'new' while adding one
+  const [editing, setEditing] = useState<SavedAddress | 'new' | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<AddressFormData>({
+    resolver: zodResolver(addressSchema),
+    defaultValues: emptyAddress,
+  });
+
+  useEffect(() => {
+    loadAddresses();
+  }, []);
+
+  const loadAddresses = async () => {
+    try {
+      setIsLoading(true);
+      const response = await addressesAPI.getAddresses();
+      if (response.success && response.data) {
+        setAddresses(response.data.addresses);
+      }
+    } catch (error) {
+      console.error('Failed to load addresses:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openForm = (address: SavedAddress | 'new') => {
+    setEditing(address);
+    setFormError(null);
+    reset(address === 'new'
+      ? { ...emptyAddress, isDefault: addresses.length === 0 }
+      : { ...address, phone: address.phone || '' });
+  };
+
+  const closeForm = () => {
+    setEditing(null);
+    setFormError(null);
+  };
+
+  const onSubmit = async (data: AddressFormData) => {
+    try {
+      setIsSaving(true);
+      setFormError(null);
+      const payload: AddressForm = { ...data, phone: data.phone || undefined };
+      const response = editing && editing !== 'new'
+        ? await addressesAPI.updateAddress(editing.id, payload)
+        : await addressesAPI.createAddress(payload);
+
+      if (response.success) {
+        toast.success(response.message || 'Address saved');
+        closeForm();
+        // Making one address the default changes the others too
+        await loadAddresses();
+      }
+    } catch (error: any) {
+      // Most often a postal code that doesn't fit the country
+      setFormError(error.response?.data?.message || 'Failed to save address');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSetDefault = async (addressId: string) => {
+    try {
+      const response = await addressesAPI.setDefaultAddress(addressId);
+      if (response.success) {
+        setAddresses(current => current
+          .map(address => ({ ...address, isDefault: address.id === addressId }))
+          .sort((a, b) => Number(b.isDefault) - Number(a.isDefault)));
+      }
+    } catch (error: any) {
+      toast.error('Failed to update default address', error.response?.data?.message);
+    }
+  };
+
+  const handleDelete = async (address: SavedAddress) => {
+    if (!window.confirm(`Delete the address "${address.label}"?`)) {
+      return;
+    }
+
+    try {
+      const response = await addressesAPI.deleteAddress(address.id);
+      if (response.success) {
+        toast.success('Address deleted');
+        // Another address may have become the default
+        await loadAddresses();
+      }
+    } catch (error: any) {
+      toast.error('Failed to delete address', error.response?.data?.message);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <MapPin className="w-5 h-5" />
+            <span>Addresses</span>
+          </CardTitle>
+          {!editing && (
+            <Button variant="outline" size="sm" onClick={() => openForm('new')}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Address
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {editing ? (
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            {formError && (
+              <div className="bg-destructive/10 border border-destructive/20 rounded-md p-3">
+                <p className="text-destructive text-sm">{formError}</p>
+              </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Label</label>
+                <Input {...register('label')} placeholder="Home, Work..." />
+                {errors.label && (
+                  <p className="text-sm text-red-600 mt-1">{translateError(errors.label.message)}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">First Name</label>
+                <Input {...register('firstName')} placeholder="Enter first name" />
+                {errors.firstName && (
+                  <p className="text-sm text-red-600 mt-1">{translateError(errors.firstName.message)}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Last Name</label>
+                <Input {...register('lastName')} placeholder="Enter last name" />
+                {errors.lastName && (
+                  <p className="text-sm text-red-600 mt-1">{translateError(errors.lastName.message)}</p>
+                )}
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Street Address</label>
+                <Input {...register('street')} placeholder="Enter street address" />
+                {errors.street && (
+                  <p className="text-sm text-red-600 mt-1">{translateError(errors.street.message)}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Phone (Optional)</label>
+                <Input {...register('phone')} placeholder="Enter phone number" />
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">City</label>
+                <Input {...register('city')} placeholder="Enter city" />
+                {errors.city && (
+                  <p className="text-sm text-red-600 mt-1">{translateError(errors.city.message)}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">State</label>
+                <Input {...register('state')} placeholder="Enter state" />
+                {errors.state && (
+                  <p className="text-sm text-red-600 mt-1">{translateError(errors.state.message)}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Postal Code</label>
+                <Input {...register('zipCode')} placeholder="Enter postal code" />
+                {errors.zipCode && (
+                  <p className="text-sm text-red-600 mt-1">{translateError(errors.zipCode.message)}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Country</label>
+                <Input {...register('country')} placeholder="Enter country" />
+                {errors.country && (
+                  <p className="text-sm text-red-600 mt-1">{translateError(errors.country.message)}</p>
+                )}
+              </div>
+            </div>
+            {/* The default can be moved to another address, but not cleared */}
+            {!(editing !== 'new' && editing.isDefault) && (
+              <label className="flex items-center space-x-2">
+                <input type="checkbox" className="rounded" {...register('isDefault')} />
+                <span className="text-sm">Use as my default address</span>
+              </label>
+            )}
+            <div className="flex space-x-2">
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save Address'}
+              </Button>
+              <Button type="button" variant="outline" onClick={closeForm}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading addresses...</p>
+        ) : addresses.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            You have no saved addresses. Add one to pick it at checkout.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {addresses.map(address => (
+              <div key={address.id} className="p-4 border rounded-lg">
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="font-medium flex items-center gap-2">
+                    {address.label}
+                    {address.isDefault && <Badge variant="secondary">Default</Badge>}
+                  </h4>
+                  <div className="flex">
+                    {!address.isDefault && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleSetDefault(address.id)}
+                        aria-label="Make default"
+                        title="Make default"
+                      >
+                        <Star className="w-4 h-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => openForm(address)}
+                      aria-label="Edit address"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDelete(address)}
+                      className="text-destructive hover:text-destructive"
+                      aria-label="Delete address"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  <p>{address.firstName} {address.lastName}</p>
+                  <p>{address.street}</p>
+                  <p>{address.city}, {address.state} {address.zipCode}</p>
+                  <p>{address.country}</p>
+                  {address.phone && <p>{address.phone}</p>}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
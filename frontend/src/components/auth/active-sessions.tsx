@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { LogOut, Monitor, Smartphone } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/contexts/auth-context';
+import { authAPI } from '@/lib/api';
+import { UserSession } from '@/types';
+import { toast } from '@/store';
+import { formatDateTime, getErrorMessage } from '@/lib/utils';
+import { useTranslation } from '@/hooks/use-translation';
+
+const isMobileDevice = (device: string) => /iOS|Android/.test(device);
+
+export const ActiveSessions: React.FC = () => {
+  const { logout } = useAuth();
+  const { t } = useTranslation();
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRevokingAll, setIsRevokingAll] = useState(false);
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const loadSessions = async () => {
+    try {
+      setIsLoading(true);
+      const response = await authAPI.getSessions();
+      if (response.success && response.data) {
+        setSessions(response.data.sessions);
+      }
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevoke = async (session: UserSession) => {
+    // Signing out this device goes through the normal logout
+    if (session.isCurrent) {
+      await logout();
+      return;
+    }
+
+    try {
+      const response = await authAPI.revokeSession(session.id);
+      if (response.success) {
+        setSessions(current => current.filter(entry => entry.id !== session.id));
+        toast.success(t('profile.sessions.signedOutOf', { device: session.device }));
+      }
+    } catch (error: any) {
+      toast.error(t('profile.sessions.signOutFailed'), getErrorMessage(error));
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    if (!window.confirm(t('profile.sessions.signOutOthersConfirm'))) {
+      return;
+    }
+
+    try {
+      setIsRevokingAll(true);
+      const response = await authAPI.revokeOtherSessions();
+      if (response.success) {
+        setSessions(current => current.filter(session => session.isCurrent));
+        toast.success(t('profile.sessions.signedOutOthers'));
+      }
+    } catch (error: any) {
+      toast.error(t('profile.sessions.signOutOthersFailed'), getErrorMessage(error));
+    } finally {
+      setIsRevokingAll(false);
+    }
+  };
+
+  const hasOtherSessions = sessions.some(session => !session.isCurrent);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Monitor className="w-5 h-5" />
+            <span>{t('profile.sessions.title')}</span>
+          </CardTitle>
+          {hasOtherSessions && (
+            <Button variant="outline" size="sm" onClick={handleRevokeOthers} disabled={isRevokingAll}>
+              <LogOut className="w-4 h-4 mr-2" />
+              {t('profile.sessions.signOutOthers')}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">{t('profile.sessions.loading')}</p>
+        ) : (
+          <div className="divide-y">
+            {sessions.map(session => {
+              const DeviceIcon = isMobileDevice(session.device) ? Smartphone : Monitor;
+
+              return (
+                <div key={session.id} className="flex items-center justify-between py-3">
+                  <div className="flex items-center space-x-3">
+                    <DeviceIcon className="w-5 h-5 text-muted-foreground" />
+                    <div>
+                      <p className="font-medium flex items-center gap-2">
+                        {session.device}
+                        {session.isCurrent && <Badge variant="secondary">{t('profile.sessions.thisDevice')}</Badge>}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {session.ipAddress && `${session.ipAddress} · `}
+                        {session.isCurrent ? t('profile.sessions.activeNow') : t('profile.sessions.lastActive', { date: formatDateTime(session.lastSeenAt) })}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {t('profile.sessions.signedIn', { date: formatDateTime(session.createdAt) })}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRevoke(session)}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    {t('profile.sessions.signOut')}
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -31,5 +31,10 @@ export const AdminRoute: React.FC<AdminRouteProps> = ({ children }) => {
     return <Navigate to="/403" replace />;
   }
 
+  if (user.twoFactorRequired && !user.twoFactorEnabled) {
+    // The admin API refuses admins without 2FA, so send them to set it up
+    return <Navigate to="/profile" state={{ twoFactorRequired: true }} replace />;
+  }
+
   return <>{children}</>;
 }; 
\ No newline at end of file
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Mail } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/contexts/auth-context';
+import { authAPI } from '@/lib/api';
+import { User } from '@/types';
+import { toast, useAuthStore } from '@/store';
+import { getErrorMessage, isValidEmail } from '@/lib/utils';
+import { useTranslation } from '@/hooks/use-translation';
+
+interface EmailSettingsProps {
+  user: User;
+}
+
+export const EmailSettings: React.FC<EmailSettingsProps> = ({ user }) => {
+  const { resendVerification } = useAuth();
+  const { t } = useTranslation();
+  const setUser = useAuthStore(state => state.setUser);
+  const [isChanging, setIsChanging] = useState(false);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const closeForm = () => {
+    setIsChanging(false);
+    setEmail('');
+    setPassword('');
+    setFormError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidEmail(email)) {
+      setFormError(t('validation.email'));
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setFormError(null);
+      const response = await authAPI.changeEmail(email, password);
+      if (response.success && response.data) {
+        setUser(response.data.user);
+        toast.success(t('profile.email.confirmTitle'), t('profile.email.confirmText', { email }));
+        closeForm();
+      }
+    } catch (error: any) {
+      setFormError(getErrorMessage(error, t('profile.email.changeFailed')));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancelChange = async () => {
+    try {
+      const response = await authAPI.cancelEmailChange();
+      if (response.success && response.data) {
+        setUser(response.data.user);
+        toast.success(t('profile.email.changeCancelled'));
+      }
+    } catch (error: any) {
+      toast.error(t('profile.email.cancelFailed'), getErrorMessage(error));
+    }
+  };
+
+  const handleResend = async () => {
+    try {
+      await resendVerification();
+    } catch (error) {
+      // resendVerification already shows the error
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Mail className="w-5 h-5" />
+          <span>{t('auth.emailAddress')}</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <span className="text-lg">{user.email}</span>
+          {user.isEmailVerified ? (
+            <Badge variant="secondary">{t('profile.email.verified')}</Badge>
+          ) : (
+            <Badge variant="destructive">{t('profile.email.notVerified')}</Badge>
+          )}
+        </div>
+
+        {user.pendingEmail ? (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm text-yellow-800 space-y-2">
+            <p>
+              {t('profile.email.pending', { email: user.pendingEmail })}
+            </p>
+            <div className="flex space-x-2">
+              <Button size="sm" variant="outline" onClick={handleResend}>
+                {t('profile.email.resendLink')}
+              </Button>
+              <Button size="sm" variant="ghost" onClick={handleCancelChange}>
+                {t('profile.email.cancelChange')}
+              </Button>
+            </div>
+          </div>
+        ) : !user.isEmailVerified && (
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <p className="text-muted-foreground">{t('profile.email.verifyPrompt')}</p>
+            <Button size="sm" variant="outline" onClick={handleResend}>
+              {t('profile.email.resendVerification')}
+            </Button>
+          </div>
+        )}
+
+        {isChanging ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {formError && (
+              <div className="bg-destructive/10 border border-destructive/20 rounded-md p-3">
+                <p className="text-destructive text-sm">{formError}</p>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium mb-2">{t('profile.email.newEmail')}</label>
+              <Input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder={t('profile.email.newEmailPlaceholder')}
+                autoComplete="email"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">{t('auth.password')}</label>
+              <Input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder={t('auth.passwordPlaceholder')}
+                autoComplete="current-password"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                {t('profile.email.confirmHint')}
+              </p>
+            </div>
+            <div className="flex space-x-2">
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? t('auth.sendingLink') : t('profile.email.sendConfirmation')}
+              </Button>
+              <Button type="button" variant="outline" onClick={closeForm} disabled={isSubmitting}>
+                {t('common.cancel')}
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <Button variant="outline" onClick={() => setIsChanging(true)}>
+            {t('profile.email.change')}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,42 @@
+import React from 'react';
+import { MailWarning } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/auth-context';
+import { useTranslation } from '@/hooks/use-translation';
+import { cn } from '@/lib/utils';
+
+interface EmailVerificationBannerProps {
+  className?: string;
+}
+
+// Asks signed in shoppers with an unverified email to confirm it; renders nothing otherwise
+export const EmailVerificationBanner: React.FC<EmailVerificationBannerProps> = ({ className }) => {
+  const { user, resendVerification, isLoading } = useAuth();
+  const { t } = useTranslation();
+
+  if (!user || user.isEmailVerified) {
+    return null;
+  }
+
+  const handleResend = async () => {
+    try {
+      await resendVerification();
+    } catch (error) {
+      // resendVerification already shows the error
+    }
+  };
+
+  return (
+    <div className={cn('bg-yellow-50 border border-yellow-200 rounded-md p-4 flex flex-col sm:flex-row sm:items-center gap-3', className)}>
+      <MailWarning className="w-5 h-5 text-yellow-700 shrink-0" />
+      <div className="flex-1 text-sm text-yellow-800">
+        <p className="font-medium">{t('auth.verifyEmailBannerTitle')}</p>
+        <p>{t('auth.verifyEmailBannerText', { email: user.email })}</p>
+      </div>
+      <Button size="sm" variant="outline" onClick={handleResend} disabled={isLoading}>
+        {isLoading ? t('auth.sendingLink') : t('auth.sendNewLink')}
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Key } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { PasswordStrengthMeter } from '@/components/auth/password-strength-meter';
+import { authAPI } from '@/lib/api';
+import { toast } from '@/store';
+import { getErrorMessage, isStrongEnoughPassword } from '@/lib/utils';
+import { useTranslation } from '@/hooks/use-translation';
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'validation.passwordRequired'),
+  newPassword: z.string()
+    .min(8, 'validation.passwordMin')
+    .refine(isStrongEnoughPassword, 'validation.passwordWeak'),
+  confirmPassword: z.string(),
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: 'validation.passwordsMismatch',
+  path: ['confirmPassword'],
+});
+
+type ChangePasswordFormData = z.infer<typeof changePasswordSchema>;
+
+// Rendered with id="password-settings" so the profile's quick action can jump here
+export const PasswordSettings: React.FC = () => {
+  const { t, translateError } = useTranslation();
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    reset,
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm<ChangePasswordFormData>({
+    resolver: zodResolver(changePasswordSchema),
+  });
+
+  const onSubmit = async (data: ChangePasswordFormData) => {
+    try {
+      const response = await authAPI.changePassword(data.currentPassword, data.newPassword);
+      if (response.success) {
+        reset();
+        toast.success(t('profile.password.changed'), t('profile.password.otherDevicesSignedOut'));
+      }
+    } catch (error: any) {
+      setError('root', { message: getErrorMessage(error, t('profile.password.changeFailed')) });
+    }
+  };
+
+  return (
+    <Card id="password-settings">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Key className="w-5 h-5" />
+          <span>{t('profile.password.title')}</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          {errors.root && (
+            <div className="bg-destructive/10 border border-destructive/20 rounded-md p-3">
+              <p className="text-destructive text-sm">{errors.root.message}</p>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium mb-2">{t('profile.password.current')}</label>
+            <Input
+              {...register('currentPassword')}
+              type="password"
+              placeholder={t('profile.password.currentPlaceholder')}
+              autoComplete="current-password"
+            />
+            {errors.currentPassword && (
+              <p className="text-sm text-red-600 mt-1">{translateError(errors.currentPassword.message)}</p>
+            )}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="block text-sm font-medium">{t('auth.newPassword')}</label>
+              <Input
+                {...register('newPassword')}
+                type="password"
+                placeholder={t('auth.newPasswordPlaceholder')}
+                autoComplete="new-password"
+              />
+              <PasswordStrengthMeter password={watch('newPassword') || ''} />
+              {errors.newPassword && (
+                <p className="text-sm text-red-600">{translateError(errors.newPassword.message)}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <label className="block text-sm font-medium">{t('profile.password.confirm')}</label>
+              <Input
+                {...register('confirmPassword')}
+                type="password"
+                placeholder={t('profile.password.confirmPlaceholder')}
+                autoComplete="new-password"
+              />
+              {errors.confirmPassword && (
+                <p className="text-sm text-red-600">{translateError(errors.confirmPassword.message)}</p>
+              )}
+            </div>
+          </div>
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? t('common.saving') : t('profile.password.title')}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+
+import { useTranslation } from '@/hooks/use-translation';
+import { MessageKey } from '@/lib/i18n';
+import { getPasswordStrength } from '@/lib/utils';
+
+// Indexed by strength score
+const LEVELS: { label: MessageKey; color: string }[] = [
+  { label: 'auth.strengthTooShort', color: 'bg-destructive' },
+  { label: 'auth.strengthWeak', color: 'bg-destructive' },
+  { label: 'auth.strengthFair', color: 'bg-yellow-500' },
+  { label: 'auth.strengthGood', color: 'bg-green-500' },
+  { label: 'auth.strengthStrong', color: 'bg-green-600' },
+];
+
+interface PasswordStrengthMeterProps {
+  password: string;
+}
+
+export const PasswordStrengthMeter: React.FC<PasswordStrengthMeterProps> = ({ password }) => {
+  const { t } = useTranslation();
+
+  if (!password) {
+    return null;
+  }
+
+  const strength = getPasswordStrength(password);
+  const level = LEVELS[strength];
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-1" aria-hidden="true">
+        {[1, 2, 3, 4].map(step => (
+          <div
+            key={step}
+            className={`h-1.5 flex-1 rounded-full ${step <= strength ? level.color : 'bg-muted'}`}
+          />
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {t('auth.passwordStrength', { level: t(level.label) })}
+      </p>
+      {strength < 3 && (
+        <p className="text-xs text-muted-foreground">{t('auth.passwordHint')}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,264 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Copy, Download, ShieldCheck } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { authAPI } from '@/lib/api';
+import { TwoFactorSetup, User } from '@/types';
+import { toast, useAuthStore } from '@/store';
+import { copyToClipboard, formatDate, getErrorMessage, saveBlob } from '@/lib/utils';
+import { useTranslation } from '@/hooks/use-translation';
+
+// Which form the card is showing; 'overview' is the plain status
+type Mode = 'overview' | 'setup' | 'disable' | 'regenerate';
+
+interface RecoveryCodesProps {
+  codes: string[];
+  onDone: () => void;
+}
+
+// Shown once, right after the codes are generated
+const RecoveryCodes: React.FC<RecoveryCodesProps> = ({ codes, onDone }) => {
+  const { t } = useTranslation();
+
+  const handleCopy = async () => {
+    try {
+      await copyToClipboard(codes.join('\n'));
+      toast.success(t('profile.twoFactor.codesCopied'));
+    } catch (error) {
+      toast.error(t('profile.twoFactor.copyFailed'));
+    }
+  };
+
+  const handleDownload = () => {
+    saveBlob(new Blob([`${codes.join('\n')}\n`], { type: 'text/plain' }), 'gamestore-recovery-codes.txt');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm text-yellow-800">
+        {t('profile.twoFactor.saveCodesWarning')}
+      </div>
+      <div className="grid grid-cols-2 gap-2 font-mono text-sm bg-muted/50 rounded-md p-4">
+        {codes.map(code => <span key={code}>{code}</span>)}
+      </div>
+      <div className="flex space-x-2">
+        <Button type="button" variant="outline" onClick={handleCopy}>
+          <Copy className="w-4 h-4 mr-2" />
+          {t('profile.twoFactor.copy')}
+        </Button>
+        <Button type="button" variant="outline" onClick={handleDownload}>
+          <Download className="w-4 h-4 mr-2" />
+          {t('profile.twoFactor.download')}
+        </Button>
+        <Button type="button" onClick={onDone}>
+          {t('profile.twoFactor.savedThem')}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+interface TwoFactorSettingsProps {
+  user: User;
+}
+
+export const TwoFactorSettings: React.FC<TwoFactorSettingsProps> = ({ user }) => {
+  const { t } = useTranslation();
+  const setUser = useAuthStore(state => state.setUser);
+  const [mode, setMode] = useState<Mode>('overview');
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const openMode = (next: Mode) => {
+    setMode(next);
+    setCode('');
+    setPassword('');
+    setFormError(null);
+  };
+
+  const handleStartSetup = async () => {
+    try {
+      setIsSubmitting(true);
+      const response = await authAPI.setupTwoFactor();
+      if (response.success && response.data) {
+        setSetup(response.data);
+        openMode('setup');
+      }
+    } catch (error: any) {
+      toast.error(t('profile.twoFactor.setupFailed'), getErrorMessage(error));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) {
+      setFormError(t('profile.twoFactor.codeRequired'));
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setFormError(null);
+
+      if (mode === 'setup') {
+        const response = await authAPI.enableTwoFactor(code);
+        if (response.success && response.data) {
+          setUser(response.data.user);
+          setRecoveryCodes(response.data.recoveryCodes);
+          setSetup(null);
+          toast.success(t('profile.twoFactor.enabled'));
+        }
+      } else if (mode === 'regenerate') {
+        const response = await authAPI.regenerateRecoveryCodes(code);
+        if (response.success && response.data) {
+          setUser(response.data.user);
+          setRecoveryCodes(response.data.recoveryCodes);
+          toast.success(t('profile.twoFactor.codesRegenerated'));
+        }
+      } else if (mode === 'disable') {
+        const response = await authAPI.disableTwoFactor(password, code);
+        if (response.success && response.data) {
+          setUser(response.data.user);
+          toast.success(t('profile.twoFactor.disabled'));
+        }
+      }
+      openMode('overview');
+    } catch (error: any) {
+      setFormError(getErrorMessage(error, t('profile.twoFactor.genericError')));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderCodeForm = (submitLabel: string, hint: string) => (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {formError && (
+        <div className="bg-destructive/10 border border-destructive/20 rounded-md p-3">
+          <p className="text-destructive text-sm">{formError}</p>
+        </div>
+      )}
+      {mode === 'disable' && (
+        <div>
+          <label className="block text-sm font-medium mb-2">{t('auth.password')}</label>
+          <Input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder={t('auth.passwordPlaceholder')}
+            autoComplete="current-password"
+          />
+        </div>
+      )}
+      <div>
+        <label className="block text-sm font-medium mb-2">{t('auth.authenticationCode')}</label>
+        <Input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="123456"
+          autoComplete="one-time-code"
+          className="tracking-widest"
+        />
+        <p className="text-xs text-muted-foreground mt-1">{hint}</p>
+      </div>
+      <div className="flex space-x-2">
+        <Button
+          type="submit"
+          variant={mode === 'disable' ? 'destructive' : 'default'}
+          disabled={isSubmitting}
+        >
+          {isSubmitting ? t('common.saving') : submitLabel}
+        </Button>
+        <Button type="button" variant="outline" onClick={() => openMode('overview')} disabled={isSubmitting}>
+          {t('common.cancel')}
+        </Button>
+      </div>
+    </form>
+  );
+
+  const mustEnable = user.twoFactorRequired && !user.twoFactorEnabled;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ShieldCheck className="w-5 h-5" />
+          <span>{t('auth.twoFactorTitle')}</span>
+          {user.twoFactorEnabled && <Badge variant="secondary">{t('profile.twoFactor.on')}</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {recoveryCodes ? (
+          <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+        ) : mode === 'setup' && setup ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {t('profile.twoFactor.scanInstructions')}
+            </p>
+            <div className="flex flex-col sm:flex-row items-center gap-4">
+              <img src={setup.qrCode} alt={t('profile.twoFactor.qrAlt')} className="w-40 h-40 border rounded-md" />
+              <div className="text-sm">
+                <p className="text-muted-foreground">{t('profile.twoFactor.manualKey')}</p>
+                <p className="font-mono break-all mt-1">{setup.secret}</p>
+              </div>
+            </div>
+            {renderCodeForm(t('profile.twoFactor.enable'), t('profile.twoFactor.setupHint'))}
+          </div>
+        ) : mode === 'disable' ? (
+          renderCodeForm(t('profile.twoFactor.disableSubmit'), t('profile.twoFactor.disableHint'))
+        ) : mode === 'regenerate' ? (
+          renderCodeForm(t('profile.twoFactor.regenerateSubmit'), t('profile.twoFactor.regenerateHint'))
+        ) : user.twoFactorEnabled ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {user.twoFactorEnabledAt
+                ? t('profile.twoFactor.activeSince', { date: formatDate(user.twoFactorEnabledAt) })
+                : t('profile.twoFactor.active')}
+            </p>
+            <p className={`text-sm flex items-center gap-1 ${
+              user.twoFactorRecoveryCodesRemaining <= 2 ? 'text-yellow-600' : 'text-muted-foreground'
+            }`}>
+              {user.twoFactorRecoveryCodesRemaining <= 2 && <AlertTriangle className="w-4 h-4" />}
+              {t('profile.twoFactor.codesLeft', { count: user.twoFactorRecoveryCodesRemaining })}
+            </p>
+            <div className="flex space-x-2">
+              <Button variant="outline" onClick={() => openMode('regenerate')}>
+                {t('profile.twoFactor.newCodes')}
+              </Button>
+              {!user.twoFactorRequired && (
+                <Button variant="outline" className="text-destructive" onClick={() => openMode('disable')}>
+                  {t('profile.twoFactor.disable')}
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {mustEnable && (
+              <div className="bg-destructive/10 border border-destructive/20 rounded-md p-3 flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 text-destructive mt-0.5" />
+                <p className="text-destructive text-sm">
+                  {t('profile.twoFactor.adminRequired')}
+                </p>
+              </div>
+            )}
+            <p className="text-sm text-muted-foreground">
+              {t('profile.twoFactor.intro')}
+            </p>
+            <Button onClick={handleStartSetup} disabled={isSubmitting}>
+              {isSubmitting ? t('profile.twoFactor.starting') : t('profile.twoFactor.setUp')}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
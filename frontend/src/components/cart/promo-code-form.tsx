@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { Tag, X } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useCart } from '@/contexts/cart-context';
+import { useAuthStore } from '@/store';
+import { getErrorMessage } from '@/lib/utils';
+import { useTranslation } from '@/hooks/use-translation';
+
+interface PromoCodeFormProps {
+  // Awaited before a code is applied or removed; throwing stops the change
+  beforeChange?: () => Promise<void>;
+}
+
+export const PromoCodeForm: React.FC<PromoCodeFormProps> = ({ beforeChange }) => {
+  const location = useLocation();
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+  const { promotion, applyPromoCode, removePromoCode } = useCart();
+  const { t } = useTranslation();
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const handleApply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    setIsApplying(true);
+    setError(null);
+    try {
+      await beforeChange?.();
+      await applyPromoCode(code);
+      setCode('');
+    } catch (err: any) {
+      setError(getErrorMessage(err, t('promo.failed')));
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setError(null);
+    try {
+      await beforeChange?.();
+      removePromoCode();
+    } catch (err: any) {
+      setError(getErrorMessage(err, t('promo.failed')));
+    }
+  };
+
+  if (promotion) {
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center justify-between p-3 border border-green-200 bg-green-50 rounded-md">
+          <div className="flex items-center text-sm">
+            <Tag className="w-4 h-4 me-2 text-green-600" />
+            <div>
+              <p className="font-medium text-green-700">{promotion.code}</p>
+              {promotion.description && (
+                <p className="text-muted-foreground">{promotion.description}</p>
+              )}
+            </div>
+          </div>
+          <button
+            type="button"
+            className="text-muted-foreground hover:text-destructive"
+            onClick={handleRemove}
+            aria-label={t('promo.remove')}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        {error && <p className="text-destructive text-sm">{error}</p>}
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {t('promo.signInPrompt')}{' '}
+        <Link to="/login" state={{ from: location }} className="text-primary hover:underline">
+          {t('promo.signIn')}
+        </Link>{' '}
+        {t('promo.signInSuffix')}
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleApply} className="space-y-2">
+      <div className="flex space-x-2 rtl:space-x-reverse">
+        <Input
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          placeholder={t('promo.placeholder')}
+          aria-label={t('promo.placeholder')}
+        />
+        <Button type="submit" variant="outline" disabled={isApplying || !code.trim()}>
+          {isApplying ? t('promo.applying') : t('promo.apply')}
+        </Button>
+      </div>
+      {error && <p className="text-destructive text-sm">{error}</p>}
+    </form>
+  );
+};
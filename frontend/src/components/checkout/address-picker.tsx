@@ -0,0 +1,65 @@
+import React from 'react';
+
+import { SavedAddress } from '@/types';
+import { useTranslation } from '@/hooks/use-translation';
+
+interface AddressPickerProps {
+  name: string;
+  addresses: SavedAddress[];
+  // Null while the shopper is entering a new address
+  selectedId: string | null;
+  onSelect: (address: SavedAddress | null) => void;
+}
+
+export const AddressPicker: React.FC<AddressPickerProps> = ({
+  name,
+  addresses,
+  selectedId,
+  onSelect,
+}) => {
+  const { t } = useTranslation();
+
+  const optionClassName = (isSelected: boolean) =>
+    `flex items-start gap-3 p-3 border rounded-lg cursor-pointer transition-colors ${
+      isSelected ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+    }`;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">{t('address.savedAddresses')}</p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {addresses.map(address => (
+          <label key={address.id} className={optionClassName(selectedId === address.id)}>
+            <input
+              type="radio"
+              name={name}
+              className="mt-1"
+              checked={selectedId === address.id}
+              onChange={() => onSelect(address)}
+            />
+            <div className="text-sm">
+              <p className="font-medium">
+                {address.label}
+                {address.isDefault && (
+                  <span className="ms-2 text-xs text-muted-foreground">{t('address.default')}</span>
+                )}
+              </p>
+              <p className="text-muted-foreground">{address.firstName} {address.lastName}</p>
+              <p className="text-muted-foreground">{address.street}, {address.city} {address.zipCode}</p>
+            </div>
+          </label>
+        ))}
+        <label className={optionClassName(selectedId === null)}>
+          <input
+            type="radio"
+            name={name}
+            className="mt-1"
+            checked={selectedId === null}
+            onChange={() => onSelect(null)}
+          />
+          <span className="text-sm font-medium">{t('address.newAddress')}</span>
+        </label>
+      </div>
+    </div>
+  );
+};
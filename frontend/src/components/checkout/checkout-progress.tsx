@@ -0,0 +1,66 @@
+import React from 'react';
+import { CheckCircle, LucideIcon } from 'lucide-react';
+import { CheckoutStep } from '@/types';
+
+export interface CheckoutStepConfig {
+  id: CheckoutStep;
+  title: string;
+  icon: LucideIcon;
+}
+
+interface CheckoutProgressProps {
+  steps: CheckoutStepConfig[];
+  currentStep: CheckoutStep;
+  completedSteps: CheckoutStep[];
+  onStepClick: (step: CheckoutStep) => void;
+}
+
+export const CheckoutProgress: React.FC<CheckoutProgressProps> = ({
+  steps,
+  currentStep,
+  completedSteps,
+  onStepClick,
+}) => {
+  return (
+    <div className="flex items-center justify-center space-x-8 rtl:space-x-reverse">
+      {steps.map((step, index) => {
+        const Icon = step.icon;
+        const isActive = currentStep === step.id;
+        const isCompleted = !isActive && completedSteps.includes(step.id);
+
+        return (
+          <div key={step.id} className="flex items-center">
+            <button
+              type="button"
+              className="flex items-center disabled:cursor-default"
+              onClick={() => onStepClick(step.id)}
+              disabled={!isCompleted}
+            >
+              <div className={`flex items-center justify-center w-10 h-10 rounded-full border-2 ${
+                isActive || isCompleted
+                  ? 'border-primary bg-primary text-primary-foreground'
+                  : 'border-muted-foreground text-muted-foreground'
+              }`}>
+                {isCompleted ? (
+                  <CheckCircle className="w-5 h-5" />
+                ) : (
+                  <Icon className="w-5 h-5" />
+                )}
+              </div>
+              <span className={`ms-2 text-sm font-medium ${
+                isActive ? 'text-primary' : 'text-muted-foreground'
+              }`}>
+                {step.title}
+              </span>
+            </button>
+            {index < steps.length - 1 && (
+              <div className={`w-16 h-0.5 mx-4 ${
+                isCompleted ? 'bg-primary' : 'bg-muted-foreground'
+              }`} />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
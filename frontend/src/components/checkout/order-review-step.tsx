@@ -0,0 +1,174 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { ArrowLeft, CreditCard, MapPin, Truck } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Address, CheckoutAddress, CheckoutStep, ShippingMethod, StripePaymentMethod } from '@/types';
+import { formatCardBrand } from '@/lib/utils';
+import { useCurrency } from '@/hooks/use-currency';
+import { useTranslation } from '@/hooks/use-translation';
+
+const orderReviewSchema = z.object({
+  notes: z.string().max(500, 'validation.notesMax'),
+  acceptTerms: z.literal(true, {
+    errorMap: () => ({ message: 'validation.acceptTerms' }),
+  }),
+});
+
+type OrderReviewFormData = z.infer<typeof orderReviewSchema>;
+
+interface OrderReviewStepProps {
+  shippingAddress: CheckoutAddress;
+  // Only set when billing goes somewhere other than the shipping address
+  billingAddress: Address | null;
+  shippingMethod?: ShippingMethod;
+  // The saved card being charged, if any
+  paymentMethod?: StripePaymentMethod;
+  // False for all-digital orders, which are delivered as keys
+  requiresShipping: boolean;
+  notes: string;
+  isSubmitting: boolean;
+  isRetry: boolean;
+  onEdit: (step: CheckoutStep) => void;
+  onBack: () => void;
+  onSubmit: (notes: string) => void;
+}
+
+export const OrderReviewStep: React.FC<OrderReviewStepProps> = ({
+  shippingAddress,
+  billingAddress,
+  shippingMethod,
+  paymentMethod,
+  requiresShipping,
+  notes,
+  isSubmitting,
+  isRetry,
+  onEdit,
+  onBack,
+  onSubmit,
+}) => {
+  const { formatPrice } = useCurrency();
+  const { t, translateError } = useTranslation();
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<OrderReviewFormData>({
+    resolver: zodResolver(orderReviewSchema),
+    defaultValues: { notes },
+  });
+
+  return (
+    <form
+      onSubmit={handleSubmit((data) => onSubmit(data.notes))}
+      className="space-y-6"
+    >
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="p-4 border rounded-lg">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="font-medium flex items-center">
+              <MapPin className="w-4 h-4 me-2" />
+              {requiresShipping ? t('checkout.shipTo') : t('checkout.billTo')}
+            </h4>
+            <button type="button" className="text-sm text-primary hover:underline" onClick={() => onEdit('shipping')}>
+              {t('common.edit')}
+            </button>
+          </div>
+          <div className="text-sm text-muted-foreground">
+            <p>{shippingAddress.firstName} {shippingAddress.lastName}</p>
+            <p>{shippingAddress.street}</p>
+            <p>{shippingAddress.city}, {shippingAddress.state} {shippingAddress.zipCode}</p>
+            <p>{shippingAddress.country}</p>
+            <p>{shippingAddress.email}</p>
+          </div>
+          {billingAddress && (
+            <div className="text-sm text-muted-foreground mt-3">
+              <p className="font-medium text-foreground">{t('checkout.billTo')}</p>
+              <p>{billingAddress.street}</p>
+              <p>{billingAddress.city}, {billingAddress.state} {billingAddress.zipCode}</p>
+              <p>{billingAddress.country}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border rounded-lg">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="font-medium flex items-center">
+              <Truck className="w-4 h-4 me-2" />
+              {t('checkout.delivery')}
+            </h4>
+            {requiresShipping && (
+              <button type="button" className="text-sm text-primary hover:underline" onClick={() => onEdit('delivery')}>
+                {t('common.edit')}
+              </button>
+            )}
+          </div>
+          {!requiresShipping ? (
+            <div className="text-sm text-muted-foreground">
+              <p>{t('checkout.digitalDelivery')}</p>
+              <p>{t('checkout.keysEmailed')}</p>
+            </div>
+          ) : shippingMethod && (
+            <div className="text-sm text-muted-foreground">
+              <p>{shippingMethod.name}</p>
+              <p>{formatPrice(shippingMethod.price)}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border rounded-lg">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="font-medium flex items-center">
+              <CreditCard className="w-4 h-4 me-2" />
+              {t('checkout.payment')}
+            </h4>
+            <button type="button" className="text-sm text-primary hover:underline" onClick={() => onEdit('payment')}>
+              {t('common.edit')}
+            </button>
+          </div>
+          <div className="text-sm text-muted-foreground">
+            {paymentMethod?.card && (
+              <p>{t('checkout.cardEnding', { brand: formatCardBrand(paymentMethod.card.brand), last4: paymentMethod.card.last4 })}</p>
+            )}
+            <p>{t('checkout.chargedViaStripe')}</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">{t('checkout.notes')}</label>
+        <textarea
+          rows={3}
+          placeholder={t('checkout.notesPlaceholder')}
+          className="w-full px-3 py-2 border rounded-md"
+          {...register('notes')}
+        />
+        {errors.notes && (
+          <p className="text-destructive text-sm">{translateError(errors.notes.message)}</p>
+        )}
+      </div>
+
+      <div>
+        <label className="flex items-center space-x-2 rtl:space-x-reverse">
+          <input type="checkbox" className="rounded" {...register('acceptTerms')} />
+          <span className="text-sm">{t('checkout.acceptTerms')}</span>
+        </label>
+        {errors.acceptTerms && (
+          <p className="text-destructive text-sm mt-1">{translateError(errors.acceptTerms.message)}</p>
+        )}
+      </div>
+
+      <div className="flex justify-between">
+        <Button type="button" variant="outline" onClick={onBack} disabled={isSubmitting}>
+          <ArrowLeft className="rtl:rotate-180 w-4 h-4 me-2" />
+          {t('common.back')}
+        </Button>
+        <Button type="submit" size="lg" disabled={isSubmitting}>
+          {isSubmitting ? t('common.processing') : isRetry ? t('checkout.retryPayment') : t('checkout.placeOrder')}
+        </Button>
+      </div>
+    </form>
+  );
+};
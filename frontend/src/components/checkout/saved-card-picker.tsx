@@ -0,0 +1,86 @@
+import React from 'react';
+
+import { StripePaymentMethod } from '@/types';
+import { formatCardBrand } from '@/lib/utils';
+import { useTranslation } from '@/hooks/use-translation';
+
+interface SavedCardPickerProps {
+  paymentMethods: StripePaymentMethod[];
+  // Null while the shopper is entering a new card
+  selectedId: string | null;
+  onSelect: (paymentMethodId: string | null) => void;
+}
+
+export const SavedCardPicker: React.FC<SavedCardPickerProps> = ({
+  paymentMethods,
+  selectedId,
+  onSelect,
+}) => {
+  const { t } = useTranslation();
+
+  const optionClassName = (isSelected: boolean, isDisabled = false) =>
+    `flex items-start gap-3 p-3 border rounded-lg transition-colors ${
+      isDisabled
+        ? 'opacity-60 cursor-not-allowed'
+        : isSelected ? 'border-primary bg-primary/5 cursor-pointer' : 'hover:bg-muted/50 cursor-pointer'
+    }`;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">{t('checkout.savedCards')}</p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {paymentMethods.filter(paymentMethod => paymentMethod.card).map(paymentMethod => {
+          const card = paymentMethod.card!;
+          const expiry = t('checkout.cardExpires', {
+            month: String(card.expMonth).padStart(2, '0'),
+            year: card.expYear,
+          });
+
+          return (
+            <label
+              key={paymentMethod.id}
+              className={optionClassName(selectedId === paymentMethod.id, paymentMethod.isExpired)}
+            >
+              <input
+                type="radio"
+                name="saved-card"
+                className="mt-1"
+                checked={selectedId === paymentMethod.id}
+                // Stripe declines expired cards, so they can't be picked
+                disabled={paymentMethod.isExpired}
+                onChange={() => onSelect(paymentMethod.id)}
+              />
+              <div className="text-sm">
+                <p className="font-medium">
+                  {t('checkout.cardEnding', { brand: formatCardBrand(card.brand), last4: card.last4 })}
+                  {paymentMethod.isDefault && (
+                    <span className="ms-2 text-xs text-muted-foreground">{t('address.default')}</span>
+                  )}
+                </p>
+                <p className={
+                  paymentMethod.isExpired
+                    ? 'text-destructive'
+                    : paymentMethod.isExpiringSoon ? 'text-yellow-600' : 'text-muted-foreground'
+                }>
+                  {expiry}
+                  {paymentMethod.isExpired && ` · ${t('checkout.cardExpired')}`}
+                  {paymentMethod.isExpiringSoon && ` · ${t('checkout.cardExpiringSoon')}`}
+                </p>
+              </div>
+            </label>
+          );
+        })}
+        <label className={optionClassName(selectedId === null)}>
+          <input
+            type="radio"
+            name="saved-card"
+            className="mt-1"
+            checked={selectedId === null}
+            onChange={() => onSelect(null)}
+          />
+          <span className="text-sm font-medium">{t('checkout.newCard')}</span>
+        </label>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,334 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { ArrowLeft } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { AddressPicker } from '@/components/checkout/address-picker';
+import { Address, CheckoutAddress, SavedAddress } from '@/types';
+import { useTranslation } from '@/hooks/use-translation';
+
+// Postal codes are checked against the country's format by the server
+const billingAddressSchema = z.object({
+  street: z.string().min(5, 'validation.addressRequired'),
+  city: z.string().min(2, 'validation.cityRequired'),
+  state: z.string().min(2, 'validation.stateRequired'),
+  zipCode: z.string().min(3, 'validation.zipCodeRequired'),
+  country: z.string().min(2, 'validation.countryRequired'),
+});
+
+const shippingAddressSchema = billingAddressSchema.extend({
+  firstName: z.string().min(2, 'validation.firstNameRequired'),
+  lastName: z.string().min(2, 'validation.lastNameRequired'),
+  email: z.string().email('validation.email'),
+  phone: z.string().min(10, 'validation.phoneRequired'),
+  saveAddress: z.boolean().optional(),
+  billingDiffers: z.boolean().optional(),
+  // Only registered while billingDiffers is ticked
+  billing: billingAddressSchema.optional(),
+});
+
+type ShippingAddressFormData = z.infer<typeof shippingAddressSchema>;
+
+const addressFields = ['street', 'city', 'state', 'zipCode', 'country'] as const;
+
+const isSameAddress = (saved: Address, address: Partial<Address> | null | undefined) =>
+  !!address && addressFields.every(field => saved[field] === address[field]);
+
+export interface AddressStepSubmission {
+  address: CheckoutAddress;
+  // Null when billing goes to the shipping address
+  billingAddress: Address | null;
+  // Add the entered address to the shopper's address book
+  saveAddress: boolean;
+}
+
+interface ShippingAddressStepProps {
+  defaultValues: Partial<CheckoutAddress>;
+  defaultBillingAddress: Address | null;
+  savedAddresses: SavedAddress[];
+  // False for all-digital orders, where this is the billing address
+  requiresShipping: boolean;
+  isSubmitting: boolean;
+  onBack: () => void;
+  onSubmit: (submission: AddressStepSubmission) => void;
+}
+
+export const ShippingAddressStep: React.FC<ShippingAddressStepProps> = ({
+  defaultValues,
+  defaultBillingAddress,
+  savedAddresses,
+  requiresShipping,
+  isSubmitting,
+  onBack,
+  onSubmit,
+}) => {
+  const { t, translateError } = useTranslation();
+  const [selectedId, setSelectedId] = useState<string | null>(
+    () => savedAddresses.find(saved => isSameAddress(saved, defaultValues))?.id ?? null
+  );
+  const [billingSelectedId, setBillingSelectedId] = useState<string | null>(
+    () => savedAddresses.find(saved => isSameAddress(saved, defaultBillingAddress))?.id ?? null
+  );
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useForm<ShippingAddressFormData>({
+    resolver: zodResolver(shippingAddressSchema),
+    defaultValues: {
+      ...defaultValues,
+      billingDiffers: !!defaultBillingAddress,
+      billing: defaultBillingAddress ?? undefined,
+    },
+    // Hidden billing fields drop out of the submitted values and validation
+    shouldUnregister: true,
+  });
+  const billingDiffers = watch('billingDiffers');
+
+  const selectAddress = (address: SavedAddress | null) => {
+    setSelectedId(address?.id ?? null);
+    if (address) {
+      setValue('firstName', address.firstName);
+      setValue('lastName', address.lastName);
+      if (address.phone) setValue('phone', address.phone);
+    }
+    addressFields.forEach(field => setValue(field, address?.[field] ?? ''));
+  };
+
+  const selectBillingAddress = (address: SavedAddress | null) => {
+    setBillingSelectedId(address?.id ?? null);
+    addressFields.forEach(field => setValue(`billing.${field}`, address?.[field] ?? ''));
+  };
+
+  const submit = ({ saveAddress, billingDiffers, billing, ...address }: ShippingAddressFormData) => {
+    onSubmit({
+      address,
+      billingAddress: billingDiffers && billing ? billing : null,
+      saveAddress: !selectedId && !!saveAddress,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit(submit)} className="space-y-4">
+      {savedAddresses.length > 0 && (
+        <AddressPicker
+          name="savedAddress"
+          addresses={savedAddresses}
+          selectedId={selectedId}
+          onSelect={selectAddress}
+        />
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">{t('address.firstName')} *</label>
+          <Input
+            placeholder={t('address.firstNamePlaceholder')}
+            {...register('firstName')}
+          />
+          {errors.firstName && (
+            <p className="text-destructive text-sm">{translateError(errors.firstName.message)}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">{t('address.lastName')} *</label>
+          <Input
+            placeholder={t('address.lastNamePlaceholder')}
+            {...register('lastName')}
+          />
+          {errors.lastName && (
+            <p className="text-destructive text-sm">{translateError(errors.lastName.message)}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">{t('address.email')} *</label>
+          <Input
+            type="email"
+            placeholder={t('address.emailPlaceholder')}
+            {...register('email')}
+          />
+          {errors.email && (
+            <p className="text-destructive text-sm">{translateError(errors.email.message)}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">{t('address.phone')} *</label>
+          <Input
+            type="tel"
+            placeholder={t('address.phonePlaceholder')}
+            {...register('phone')}
+          />
+          {errors.phone && (
+            <p className="text-destructive text-sm">{translateError(errors.phone.message)}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">{t('address.street')} *</label>
+        <Input
+          placeholder={t('address.streetPlaceholder')}
+          {...register('street')}
+        />
+        {errors.street && (
+          <p className="text-destructive text-sm">{translateError(errors.street.message)}</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">{t('address.city')} *</label>
+          <Input
+            placeholder={t('address.cityPlaceholder')}
+            {...register('city')}
+          />
+          {errors.city && (
+            <p className="text-destructive text-sm">{translateError(errors.city.message)}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">{t('address.state')} *</label>
+          <Input
+            placeholder={t('address.statePlaceholder')}
+            {...register('state')}
+          />
+          {errors.state && (
+            <p className="text-destructive text-sm">{translateError(errors.state.message)}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">{t('address.zipCode')} *</label>
+          <Input
+            placeholder={t('address.zipCodePlaceholder')}
+            {...register('zipCode')}
+          />
+          {errors.zipCode && (
+            <p className="text-destructive text-sm">{translateError(errors.zipCode.message)}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">{t('address.country')} *</label>
+        <Input
+          placeholder={t('address.countryPlaceholder')}
+          {...register('country')}
+        />
+        {errors.country && (
+          <p className="text-destructive text-sm">{translateError(errors.country.message)}</p>
+        )}
+      </div>
+
+      {!selectedId && (
+        <label className="flex items-center space-x-2 rtl:space-x-reverse">
+          <input type="checkbox" className="rounded" {...register('saveAddress')} />
+          <span className="text-sm">{t('address.saveToBook')}</span>
+        </label>
+      )}
+
+      {/* For all-digital orders the address above is already the billing address */}
+      {requiresShipping && (
+        <label className="flex items-center space-x-2 rtl:space-x-reverse">
+          <input type="checkbox" className="rounded" {...register('billingDiffers')} />
+          <span className="text-sm">{t('address.billingDiffers')}</span>
+        </label>
+      )}
+
+      {requiresShipping && billingDiffers && (
+        <div className="space-y-4 border-t pt-4">
+          <h3 className="font-medium">{t('address.billingAddress')}</h3>
+
+          {savedAddresses.length > 0 && (
+            <AddressPicker
+              name="savedBillingAddress"
+              addresses={savedAddresses}
+              selectedId={billingSelectedId}
+              onSelect={selectBillingAddress}
+            />
+          )}
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">{t('address.street')} *</label>
+            <Input
+              placeholder={t('address.streetPlaceholder')}
+              {...register('billing.street')}
+            />
+            {errors.billing?.street && (
+              <p className="text-destructive text-sm">{translateError(errors.billing.street.message)}</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">{t('address.city')} *</label>
+              <Input
+                placeholder={t('address.cityPlaceholder')}
+                {...register('billing.city')}
+              />
+              {errors.billing?.city && (
+                <p className="text-destructive text-sm">{translateError(errors.billing.city.message)}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">{t('address.state')} *</label>
+              <Input
+                placeholder={t('address.statePlaceholder')}
+                {...register('billing.state')}
+              />
+              {errors.billing?.state && (
+                <p className="text-destructive text-sm">{translateError(errors.billing.state.message)}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">{t('address.zipCode')} *</label>
+              <Input
+                placeholder={t('address.zipCodePlaceholder')}
+                {...register('billing.zipCode')}
+              />
+              {errors.billing?.zipCode && (
+                <p className="text-destructive text-sm">{translateError(errors.billing.zipCode.message)}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">{t('address.country')} *</label>
+            <Input
+              placeholder={t('address.countryPlaceholder')}
+              {...register('billing.country')}
+            />
+            {errors.billing?.country && (
+              <p className="text-destructive text-sm">{translateError(errors.billing.country.message)}</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-between pt-2">
+        <Button type="button" variant="outline" onClick={onBack}>
+          <ArrowLeft className="rtl:rotate-180 w-4 h-4 me-2" />
+          {t('checkout.backToCart')}
+        </Button>
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting
+            ? t('common.processing')
+            : requiresShipping ? t('checkout.continueToDelivery') : t('checkout.continueToPayment')}
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,130 @@
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { addBusinessDays } from 'date-fns';
+import { ArrowLeft } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { ShippingMethod } from '@/types';
+import { useCurrency } from '@/hooks/use-currency';
+import { useTranslation } from '@/hooks/use-translation';
+import { MessageKey, MessageParams } from '@/lib/i18n';
+import { formatDate } from '@/lib/utils';
+
+const shippingMethodSchema = z.object({
+  shippingMethodId: z.string({ required_error: 'validation.shippingMethodRequired' }).min(1, 'validation.shippingMethodRequired'),
+});
+
+type ShippingMethodFormData = z.infer<typeof shippingMethodSchema>;
+
+const deliveryDateFormat: Intl.DateTimeFormatOptions = { weekday: 'short', month: 'short', day: 'numeric' };
+
+const getDeliveryEstimate = (
+  method: ShippingMethod,
+  t: (key: MessageKey, params?: MessageParams) => string
+): string => {
+  const today = new Date();
+  const earliest = formatDate(addBusinessDays(today, method.minDays), deliveryDateFormat);
+  if (method.minDays === method.maxDays) {
+    return t('checkout.arrives', { date: earliest });
+  }
+  const latest = formatDate(addBusinessDays(today, method.maxDays), deliveryDateFormat);
+  return t('checkout.arrivesBetween', { from: earliest, to: latest });
+};
+
+interface ShippingMethodStepProps {
+  methods: ShippingMethod[];
+  isLoading: boolean;
+  defaultMethodId: string | null;
+  onBack: () => void;
+  onSubmit: (methodId: string) => void;
+}
+
+export const ShippingMethodStep: React.FC<ShippingMethodStepProps> = ({
+  methods,
+  isLoading,
+  defaultMethodId,
+  onBack,
+  onSubmit,
+}) => {
+  const { formatPrice } = useCurrency();
+  const { t, translateError } = useTranslation();
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<ShippingMethodFormData>({
+    resolver: zodResolver(shippingMethodSchema),
+    defaultValues: { shippingMethodId: defaultMethodId || undefined },
+  });
+
+  // Methods are quoted after the form mounts, so pick up the saved choice once it's known
+  useEffect(() => {
+    reset({ shippingMethodId: defaultMethodId || undefined });
+  }, [defaultMethodId, reset]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit((data) => onSubmit(data.shippingMethodId))}
+      className="space-y-4"
+    >
+      {methods.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          {t('checkout.noShippingMethods')}
+        </p>
+      )}
+      <div className="space-y-3">
+        {methods.map((method) => (
+          <label
+            key={method.id}
+            className="flex items-center justify-between p-4 border rounded-lg cursor-pointer hover:bg-muted/50 has-[:checked]:border-primary"
+          >
+            <div className="flex items-center space-x-3 rtl:space-x-reverse">
+              <input
+                type="radio"
+                value={method.id}
+                {...register('shippingMethodId')}
+              />
+              <div>
+                <p className="font-medium">
+                  {method.name}
+                  {method.isExpress && (
+                    <span className="ms-2 px-2 py-0.5 rounded text-xs bg-primary/10 text-primary">{t('checkout.express')}</span>
+                  )}
+                </p>
+                {method.description && (
+                  <p className="text-sm text-muted-foreground">{method.description}</p>
+                )}
+                <p className="text-sm text-muted-foreground">{getDeliveryEstimate(method, t)}</p>
+              </div>
+            </div>
+            <span className="font-medium">{method.price === 0 ? t('common.free') : formatPrice(method.price)}</span>
+          </label>
+        ))}
+      </div>
+      {errors.shippingMethodId && (
+        <p className="text-destructive text-sm">{translateError(errors.shippingMethodId.message)}</p>
+      )}
+
+      <div className="flex justify-between pt-2">
+        <Button type="button" variant="outline" onClick={onBack}>
+          <ArrowLeft className="rtl:rotate-180 w-4 h-4 me-2" />
+          {t('common.back')}
+        </Button>
+        <Button type="submit" disabled={methods.length === 0}>
+          {t('checkout.continueToPayment')}
+        </Button>
+      </div>
+    </form>
+  );
+};
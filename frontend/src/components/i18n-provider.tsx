@@ -0,0 +1,23 @@
+import React, { useEffect } from "react"
+import { z } from "zod"
+import { useUIStore } from "@/store"
+import { createZodErrorMap, getDirection } from "@/lib/i18n"
+
+type I18nProviderProps = {
+  children: React.ReactNode
+}
+
+// Keeps the document language, text direction and zod's messages in step with the chosen locale
+export function I18nProvider({ children }: I18nProviderProps) {
+  const locale = useUIStore(state => state.locale)
+
+  useEffect(() => {
+    const root = window.document.documentElement
+
+    root.lang = locale
+    root.dir = getDirection(locale)
+    z.setErrorMap(createZodErrorMap(locale))
+  }, [locale])
+
+  return <>{children}</>
+}
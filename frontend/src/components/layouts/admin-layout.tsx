@@ -7,52 +7,86 @@ import {
   Users, 
   ShoppingCart, 
   Star, 
+  Tag,
+  Truck,
+  Percent,
+  Coins,
+  RotateCcw,
   BarChart3, 
   Settings,
   Menu,
   X,
-  LogOut
+  LogOut,
+  LucideIcon
 } from 'lucide-react';
 import { useAuth } from '@/contexts/auth-context';
+import { LocaleSelector } from '@/components/layouts/locale-selector';
+import { useTranslation } from '@/hooks/use-translation';
+import { MessageKey } from '@/lib/i18n';
 
-const adminNavItems = [
+const adminNavItems: { titleKey: MessageKey; href: string; icon: LucideIcon }[] = [
   {
-    title: 'Dashboard',
+    titleKey: 'admin.nav.dashboard',
     href: '/admin/dashboard',
     icon: LayoutDashboard,
   },
   {
-    title: 'Products',
+    titleKey: 'admin.nav.products',
     href: '/admin/products',
     icon: Package,
   },
   {
-    title: 'Categories',
+    titleKey: 'admin.nav.categories',
     href: '/admin/categories',
     icon: Package,
   },
   {
-    title: 'Orders',
+    titleKey: 'admin.nav.orders',
     href: '/admin/orders',
     icon: ShoppingCart,
   },
   {
-    title: 'Users',
+    titleKey: 'admin.nav.returns',
+    href: '/admin/returns',
+    icon: RotateCcw,
+  },
+  {
+    titleKey: 'admin.nav.users',
     href: '/admin/users',
     icon: Users,
   },
   {
-    title: 'Reviews',
+    titleKey: 'admin.nav.reviews',
     href: '/admin/reviews',
     icon: Star,
   },
   {
-    title: 'Analytics',
+    titleKey: 'admin.nav.promotions',
+    href: '/admin/promotions',
+    icon: Tag,
+  },
+  {
+    titleKey: 'admin.nav.shipping',
+    href: '/admin/shipping',
+    icon: Truck,
+  },
+  {
+    titleKey: 'admin.nav.taxes',
+    href: '/admin/taxes',
+    icon: Percent,
+  },
+  {
+    titleKey: 'admin.nav.currencies',
+    href: '/admin/currencies',
+    icon: Coins,
+  },
+  {
+    titleKey: 'admin.nav.analytics',
     href: '/admin/analytics',
     icon: BarChart3,
   },
   {
-    title: 'Settings',
+    titleKey: 'admin.nav.settings',
     href: '/admin/settings',
     icon: Settings,
   },
@@ -61,6 +95,7 @@ const adminNavItems = [
 export const AdminLayout: React.FC = () => {
   const location = useLocation();
   const { user, logout } = useAuth();
+  const { t } = useTranslation();
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
 
   const handleLogout = async () => {
@@ -79,13 +114,13 @@ export const AdminLayout: React.FC = () => {
 
       {/* Sidebar */}
       <aside className={`
-        fixed top-0 left-0 z-50 h-full w-64 bg-card border-r transform transition-transform duration-300 ease-in-out
-        ${isSidebarOpen ? 'translate-x-0' : '-translate-x-full lg:translate-x-0'}
+        fixed top-0 start-0 z-50 h-full w-64 bg-card border-e transform transition-transform duration-300 ease-in-out
+        ${isSidebarOpen ? 'translate-x-0' : '-translate-x-full rtl:translate-x-full lg:translate-x-0 rtl:lg:translate-x-0'}
       `}>
         <div className="flex flex-col h-full">
           {/* Header */}
           <div className="flex items-center justify-between p-4 border-b">
-            <div className="flex items-center space-x-2">
+            <div className="flex items-center space-x-2 rtl:space-x-reverse">
               <div className="w-8 h-8 bg-primary rounded-lg flex items-center justify-center">
                 <span className="text-primary-foreground font-bold text-lg">G</span>
               </div>
@@ -103,7 +138,7 @@ export const AdminLayout: React.FC = () => {
 
           {/* User Info */}
           <div className="p-4 border-b">
-            <div className="flex items-center space-x-3">
+            <div className="flex items-center space-x-3 rtl:space-x-reverse">
               <div className="w-10 h-10 bg-primary rounded-full flex items-center justify-center">
                 <span className="text-primary-foreground font-semibold">
                   {user?.firstName?.charAt(0)}{user?.lastName?.charAt(0)}
@@ -111,7 +146,7 @@ export const AdminLayout: React.FC = () => {
               </div>
               <div>
                 <p className="font-medium text-sm">{user?.firstName} {user?.lastName}</p>
-                <p className="text-xs text-muted-foreground">Administrator</p>
+                <p className="text-xs text-muted-foreground">{t('admin.administrator')}</p>
               </div>
             </div>
           </div>
@@ -127,7 +162,7 @@ export const AdminLayout: React.FC = () => {
                   key={item.href}
                   to={item.href}
                   className={`
-                    flex items-center space-x-3 px-3 py-2 rounded-md text-sm font-medium transition-colors
+                    flex items-center space-x-3 rtl:space-x-reverse px-3 py-2 rounded-md text-sm font-medium transition-colors
                     ${isActive 
                       ? 'bg-primary text-primary-foreground' 
                       : 'text-muted-foreground hover:text-foreground hover:bg-accent'
@@ -136,7 +171,7 @@ export const AdminLayout: React.FC = () => {
                   onClick={() => setIsSidebarOpen(false)}
                 >
                   <Icon className="w-5 h-5" />
-                  <span>{item.title}</span>
+                  <span>{t(item.titleKey)}</span>
                 </Link>
               );
             })}
@@ -149,15 +184,15 @@ export const AdminLayout: React.FC = () => {
               className="w-full justify-start"
               onClick={handleLogout}
             >
-              <LogOut className="w-5 h-5 mr-3" />
-              Logout
+              <LogOut className="w-5 h-5 me-3" />
+              {t('nav.logout')}
             </Button>
           </div>
         </div>
       </aside>
 
       {/* Main Content */}
-      <div className="lg:ml-64">
+      <div className="lg:ms-64">
         {/* Top Bar */}
         <header className="bg-background border-b sticky top-0 z-30">
           <div className="flex items-center justify-between p-4">
@@ -170,9 +205,11 @@ export const AdminLayout: React.FC = () => {
               <Menu className="w-5 h-5" />
             </Button>
             
-            <div className="flex items-center space-x-4">
-              <h1 className="text-lg font-semibold">Admin Dashboard</h1>
+            <div className="flex items-center space-x-4 rtl:space-x-reverse">
+              <h1 className="text-lg font-semibold">{t('admin.title')}</h1>
             </div>
+
+            <LocaleSelector />
           </div>
         </header>
 
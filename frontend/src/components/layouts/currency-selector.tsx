@@ -0,0 +1,50 @@
+import React, { useEffect } from 'react';
+import { currenciesAPI } from '@/lib/api';
+import { useUIStore } from '@/store';
+import { useCurrency } from '@/hooks/use-currency';
+import { useTranslation } from '@/hooks/use-translation';
+
+interface CurrencySelectorProps {
+  className?: string;
+}
+
+export const CurrencySelector: React.FC<CurrencySelectorProps> = ({ className }) => {
+  const { currencyCode, currencies, setCurrency } = useCurrency();
+  const setCurrencies = useUIStore(state => state.setCurrencies);
+  const { t } = useTranslation();
+
+  // Rates change, so refresh them on every visit rather than trusting the stored copy
+  useEffect(() => {
+    const loadCurrencies = async () => {
+      try {
+        const response = await currenciesAPI.getCurrencies();
+        if (response.success && response.data) {
+          setCurrencies(response.data.currencies);
+        }
+      } catch (error) {
+        console.error('Failed to load currencies:', error);
+      }
+    };
+
+    loadCurrencies();
+  }, [setCurrencies]);
+
+  if (currencies.length < 2) {
+    return null;
+  }
+
+  return (
+    <select
+      value={currencyCode}
+      onChange={(e) => setCurrency(e.target.value)}
+      className={`h-9 px-2 border rounded-md bg-background text-sm ${className || ''}`}
+      aria-label={t('common.currency')}
+    >
+      {currencies.map(currency => (
+        <option key={currency.code} value={currency.code} title={currency.name}>
+          {currency.code}
+        </option>
+      ))}
+    </select>
+  );
+};
@@ -1,24 +1,27 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
 import { Facebook, Twitter, Instagram, Mail, Phone, MapPin } from 'lucide-react';
+import { useTranslation } from '@/hooks/use-translation';
 
 export const Footer: React.FC = () => {
+  const { t } = useTranslation();
+
   return (
     <footer className="bg-background border-t">
       <div className="container mx-auto px-4 py-12">
         <div className="grid grid-cols-1 md:grid-cols-4 gap-8">
           {/* Company Info */}
           <div className="space-y-4">
-            <div className="flex items-center space-x-2">
+            <div className="flex items-center space-x-2 rtl:space-x-reverse">
               <div className="w-8 h-8 bg-primary rounded-lg flex items-center justify-center">
                 <span className="text-primary-foreground font-bold text-lg">G</span>
               </div>
               <span className="text-xl font-bold">GameStore</span>
             </div>
             <p className="text-muted-foreground text-sm">
-              Your ultimate destination for gaming products. Quality games, consoles, and accessories for every gamer.
+              {t('footer.tagline')}
             </p>
-            <div className="flex space-x-4">
+            <div className="flex space-x-4 rtl:space-x-reverse">
               <a href="#" className="text-muted-foreground hover:text-primary transition-colors">
                 <Facebook className="w-5 h-5" />
               </a>
@@ -33,26 +36,26 @@ export const Footer: React.FC = () => {
 
           {/* Quick Links */}
           <div className="space-y-4">
-            <h3 className="font-semibold">Quick Links</h3>
+            <h3 className="font-semibold">{t('footer.quickLinks')}</h3>
             <ul className="space-y-2">
               <li>
                 <Link to="/" className="text-muted-foreground hover:text-primary transition-colors text-sm">
-                  Home
+                  {t('nav.home')}
                 </Link>
               </li>
               <li>
                 <Link to="/products" className="text-muted-foreground hover:text-primary transition-colors text-sm">
-                  Products
+                  {t('nav.products')}
                 </Link>
               </li>
               <li>
                 <Link to="/categories" className="text-muted-foreground hover:text-primary transition-colors text-sm">
-                  Categories
+                  {t('nav.categories')}
                 </Link>
               </li>
               <li>
                 <Link to="/about" className="text-muted-foreground hover:text-primary transition-colors text-sm">
-                  About Us
+                  {t('footer.aboutUs')}
                 </Link>
               </li>
             </ul>
@@ -60,26 +63,26 @@ export const Footer: React.FC = () => {
 
           {/* Customer Service */}
           <div className="space-y-4">
-            <h3 className="font-semibold">Customer Service</h3>
+            <h3 className="font-semibold">{t('footer.customerService')}</h3>
             <ul className="space-y-2">
               <li>
                 <Link to="/contact" className="text-muted-foreground hover:text-primary transition-colors text-sm">
-                  Contact Us
+                  {t('footer.contactUs')}
                 </Link>
               </li>
               <li>
                 <Link to="/shipping" className="text-muted-foreground hover:text-primary transition-colors text-sm">
-                  Shipping Info
+                  {t('footer.shippingInfo')}
                 </Link>
               </li>
               <li>
                 <Link to="/returns" className="text-muted-foreground hover:text-primary transition-colors text-sm">
-                  Returns & Exchanges
+                  {t('footer.returns')}
                 </Link>
               </li>
               <li>
                 <Link to="/faq" className="text-muted-foreground hover:text-primary transition-colors text-sm">
-                  FAQ
+                  {t('footer.faq')}
                 </Link>
               </li>
             </ul>
@@ -87,17 +90,17 @@ export const Footer: React.FC = () => {
 
           {/* Contact Info */}
           <div className="space-y-4">
-            <h3 className="font-semibold">Contact Info</h3>
+            <h3 className="font-semibold">{t('footer.contactInfo')}</h3>
             <div className="space-y-2">
-              <div className="flex items-center space-x-2">
+              <div className="flex items-center space-x-2 rtl:space-x-reverse">
                 <Mail className="w-4 h-4 text-muted-foreground" />
                 <span className="text-muted-foreground text-sm">support@gamestore.com</span>
               </div>
-              <div className="flex items-center space-x-2">
+              <div className="flex items-center space-x-2 rtl:space-x-reverse">
                 <Phone className="w-4 h-4 text-muted-foreground" />
                 <span className="text-muted-foreground text-sm">+1 (555) 123-4567</span>
               </div>
-              <div className="flex items-center space-x-2">
+              <div className="flex items-center space-x-2 rtl:space-x-reverse">
                 <MapPin className="w-4 h-4 text-muted-foreground" />
                 <span className="text-muted-foreground text-sm">123 Gaming St, Game City, GC 12345</span>
               </div>
@@ -108,14 +111,14 @@ export const Footer: React.FC = () => {
         <div className="border-t mt-8 pt-8">
           <div className="flex flex-col md:flex-row justify-between items-center space-y-4 md:space-y-0">
             <p className="text-muted-foreground text-sm">
-              © 2024 GameStore. All rights reserved.
+              {t('footer.copyright', { year: String(new Date().getFullYear()) })}
             </p>
-            <div className="flex space-x-6">
+            <div className="flex space-x-6 rtl:space-x-reverse">
               <Link to="/privacy" className="text-muted-foreground hover:text-primary transition-colors text-sm">
-                Privacy Policy
+                {t('footer.privacy')}
               </Link>
               <Link to="/terms" className="text-muted-foreground hover:text-primary transition-colors text-sm">
-                Terms of Service
+                {t('footer.terms')}
               </Link>
             </div>
           </div>
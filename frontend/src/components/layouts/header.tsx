@@ -4,6 +4,9 @@ import { useAuth } from '@/contexts/auth-context';
 import { useCart } from '@/contexts/cart-context';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { CurrencySelector } from '@/components/layouts/currency-selector';
+import { LocaleSelector } from '@/components/layouts/locale-selector';
+import { useTranslation } from '@/hooks/use-translation';
 import { 
   ShoppingCart, 
   Search, 
@@ -13,13 +16,15 @@ import {
   LogOut,
   Settings,
   Package,
-  Star
+  Star,
+  Heart
 } from 'lucide-react';
 
 export const Header: React.FC = () => {
   const navigate = useNavigate();
   const { user, isAuthenticated, logout } = useAuth();
   const { items } = useCart();
+  const { t } = useTranslation();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
 
@@ -42,7 +47,7 @@ export const Header: React.FC = () => {
       <div className="container mx-auto px-4">
         <div className="flex items-center justify-between h-16">
           {/* Logo */}
-          <Link to="/" className="flex items-center space-x-2">
+          <Link to="/" className="flex items-center space-x-2 rtl:space-x-reverse">
             <div className="w-8 h-8 bg-primary rounded-lg flex items-center justify-center">
               <span className="text-primary-foreground font-bold text-lg">G</span>
             </div>
@@ -50,40 +55,43 @@ export const Header: React.FC = () => {
           </Link>
 
           {/* Desktop Navigation */}
-          <nav className="hidden md:flex items-center space-x-6">
+          <nav className="hidden md:flex items-center space-x-6 rtl:space-x-reverse">
             <Link to="/" className="text-foreground hover:text-primary transition-colors">
-              Home
+              {t('nav.home')}
             </Link>
             <Link to="/products" className="text-foreground hover:text-primary transition-colors">
-              Products
+              {t('nav.products')}
             </Link>
             <Link to="/categories" className="text-foreground hover:text-primary transition-colors">
-              Categories
+              {t('nav.categories')}
             </Link>
           </nav>
 
           {/* Search Bar */}
           <form onSubmit={handleSearch} className="hidden md:flex flex-1 max-w-md mx-8">
             <div className="relative w-full">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+              <Search className="absolute start-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
               <Input
                 type="text"
-                placeholder="Search products..."
+                placeholder={t('nav.searchPlaceholder')}
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-10"
+                className="ps-10"
               />
             </div>
           </form>
 
           {/* Right Side Actions */}
-          <div className="flex items-center space-x-4">
+          <div className="flex items-center space-x-4 rtl:space-x-reverse">
+            <LocaleSelector className="hidden sm:block" />
+            <CurrencySelector className="hidden sm:block" />
+
             {/* Cart */}
             <Link to="/cart" className="relative">
-              <Button variant="ghost" size="icon">
+              <Button variant="ghost" size="icon" aria-label={t('nav.cart')}>
                 <ShoppingCart className="w-5 h-5" />
                 {cartItemCount > 0 && (
-                  <span className="absolute -top-1 -right-1 bg-primary text-primary-foreground text-xs rounded-full w-5 h-5 flex items-center justify-center">
+                  <span className="absolute -top-1 -end-1 bg-primary text-primary-foreground text-xs rounded-full w-5 h-5 flex items-center justify-center">
                     {cartItemCount}
                   </span>
                 )}
@@ -103,7 +111,7 @@ export const Header: React.FC = () => {
 
                 {/* Dropdown Menu */}
                 {isMenuOpen && (
-                  <div className="absolute right-0 mt-2 w-48 bg-background border rounded-md shadow-lg py-1 z-50">
+                  <div className="absolute end-0 mt-2 w-48 bg-background border rounded-md shadow-lg py-1 z-50">
                     <div className="px-4 py-2 border-b">
                       <p className="text-sm font-medium">{user?.firstName} {user?.lastName}</p>
                       <p className="text-xs text-muted-foreground">{user?.email}</p>
@@ -114,8 +122,8 @@ export const Header: React.FC = () => {
                       className="flex items-center px-4 py-2 text-sm hover:bg-accent"
                       onClick={() => setIsMenuOpen(false)}
                     >
-                      <User className="w-4 h-4 mr-2" />
-                      Profile
+                      <User className="w-4 h-4 me-2" />
+                      {t('nav.profile')}
                     </Link>
                     
                     <Link
@@ -123,8 +131,17 @@ export const Header: React.FC = () => {
                       className="flex items-center px-4 py-2 text-sm hover:bg-accent"
                       onClick={() => setIsMenuOpen(false)}
                     >
-                      <Package className="w-4 h-4 mr-2" />
-                      Orders
+                      <Package className="w-4 h-4 me-2" />
+                      {t('nav.orders')}
+                    </Link>
+                    
+                    <Link
+                      to="/wishlist"
+                      className="flex items-center px-4 py-2 text-sm hover:bg-accent"
+                      onClick={() => setIsMenuOpen(false)}
+                    >
+                      <Heart className="w-4 h-4 me-2" />
+                      {t('nav.wishlist')}
                     </Link>
                     
                     <Link
@@ -132,8 +149,8 @@ export const Header: React.FC = () => {
                       className="flex items-center px-4 py-2 text-sm hover:bg-accent"
                       onClick={() => setIsMenuOpen(false)}
                     >
-                      <Star className="w-4 h-4 mr-2" />
-                      Reviews
+                      <Star className="w-4 h-4 me-2" />
+                      {t('nav.reviews')}
                     </Link>
 
                     {user?.role === 'admin' && (
@@ -142,28 +159,28 @@ export const Header: React.FC = () => {
                         className="flex items-center px-4 py-2 text-sm hover:bg-accent border-t"
                         onClick={() => setIsMenuOpen(false)}
                       >
-                        <Settings className="w-4 h-4 mr-2" />
-                        Admin Dashboard
+                        <Settings className="w-4 h-4 me-2" />
+                        {t('nav.adminDashboard')}
                       </Link>
                     )}
 
                     <button
                       onClick={handleLogout}
-                      className="flex items-center w-full px-4 py-2 text-sm hover:bg-accent text-left"
+                      className="flex items-center w-full px-4 py-2 text-sm hover:bg-accent text-start"
                     >
-                      <LogOut className="w-4 h-4 mr-2" />
-                      Logout
+                      <LogOut className="w-4 h-4 me-2" />
+                      {t('nav.logout')}
                     </button>
                   </div>
                 )}
               </div>
             ) : (
-              <div className="flex items-center space-x-2">
+              <div className="flex items-center space-x-2 rtl:space-x-reverse">
                 <Link to="/login">
-                  <Button variant="ghost">Login</Button>
+                  <Button variant="ghost">{t('nav.login')}</Button>
                 </Link>
                 <Link to="/register">
-                  <Button>Sign Up</Button>
+                  <Button>{t('nav.signUp')}</Button>
                 </Link>
               </div>
             )}
@@ -174,6 +191,7 @@ export const Header: React.FC = () => {
               size="icon"
               className="md:hidden"
               onClick={() => setIsMenuOpen(!isMenuOpen)}
+              aria-label={t('nav.openMenu')}
             >
               {isMenuOpen ? <X className="w-5 h-5" /> : <Menu className="w-5 h-5" />}
             </Button>
@@ -189,33 +207,38 @@ export const Header: React.FC = () => {
                 className="px-4 py-2 hover:bg-accent rounded-md"
                 onClick={() => setIsMenuOpen(false)}
               >
-                Home
+                {t('nav.home')}
               </Link>
               <Link
                 to="/products"
                 className="px-4 py-2 hover:bg-accent rounded-md"
                 onClick={() => setIsMenuOpen(false)}
               >
-                Products
+                {t('nav.products')}
               </Link>
               <Link
                 to="/categories"
                 className="px-4 py-2 hover:bg-accent rounded-md"
                 onClick={() => setIsMenuOpen(false)}
               >
-                Categories
+                {t('nav.categories')}
               </Link>
               
+              <div className="px-4 sm:hidden flex gap-2">
+                <LocaleSelector className="flex-1" />
+                <CurrencySelector className="flex-1" />
+              </div>
+
               {/* Mobile Search */}
               <form onSubmit={handleSearch} className="px-4">
                 <div className="relative">
-                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                  <Search className="absolute start-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
                   <Input
                     type="text"
-                    placeholder="Search products..."
+                    placeholder={t('nav.searchPlaceholder')}
                     value={searchQuery}
                     onChange={(e) => setSearchQuery(e.target.value)}
-                    className="pl-10"
+                    className="ps-10"
                   />
                 </div>
               </form>
@@ -227,21 +250,21 @@ export const Header: React.FC = () => {
                     className="px-4 py-2 hover:bg-accent rounded-md"
                     onClick={() => setIsMenuOpen(false)}
                   >
-                    Profile
+                    {t('nav.profile')}
                   </Link>
                   <Link
                     to="/orders"
                     className="px-4 py-2 hover:bg-accent rounded-md"
                     onClick={() => setIsMenuOpen(false)}
                   >
-                    Orders
+                    {t('nav.orders')}
                   </Link>
                   <Link
                     to="/reviews"
                     className="px-4 py-2 hover:bg-accent rounded-md"
                     onClick={() => setIsMenuOpen(false)}
                   >
-                    Reviews
+                    {t('nav.reviews')}
                   </Link>
                   {user?.role === 'admin' && (
                     <Link
@@ -249,14 +272,14 @@ export const Header: React.FC = () => {
                       className="px-4 py-2 hover:bg-accent rounded-md"
                       onClick={() => setIsMenuOpen(false)}
                     >
-                      Admin Dashboard
+                      {t('nav.adminDashboard')}
                     </Link>
                   )}
                   <button
                     onClick={handleLogout}
-                    className="px-4 py-2 hover:bg-accent rounded-md text-left"
+                    className="px-4 py-2 hover:bg-accent rounded-md text-start"
                   >
-                    Logout
+                    {t('nav.logout')}
                   </button>
                 </>
               )}
@@ -0,0 +1,26 @@
+import React from 'react';
+import { useTranslation } from '@/hooks/use-translation';
+import { isLocale } from '@/lib/i18n';
+
+interface LocaleSelectorProps {
+  className?: string;
+}
+
+export const LocaleSelector: React.FC<LocaleSelectorProps> = ({ className }) => {
+  const { locale, locales, setLocale, t } = useTranslation();
+
+  return (
+    <select
+      value={locale}
+      onChange={(e) => isLocale(e.target.value) && setLocale(e.target.value)}
+      className={`h-9 px-2 border rounded-md bg-background text-sm ${className || ''}`}
+      aria-label={t('common.language')}
+    >
+      {locales.map(option => (
+        <option key={option.code} value={option.code} lang={option.code}>
+          {option.name}
+        </option>
+      ))}
+    </select>
+  );
+};
@@ -0,0 +1,11 @@
+import React from 'react';
+
+import { Address } from '@/types';
+
+export const AddressBlock: React.FC<{ address: Address }> = ({ address }) => (
+  <div className="text-sm text-muted-foreground">
+    <p>{address.street}</p>
+    <p>{address.city}, {address.state} {address.zipCode}</p>
+    <p>{address.country}</p>
+  </div>
+);
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { Copy, Eye, EyeOff, KeyRound } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ordersAPI } from '@/lib/api';
+import { DigitalKey } from '@/types';
+import { toast } from '@/store';
+import { copyToClipboard } from '@/lib/utils';
+
+const maskKey = (key: string) => key.replace(/[A-Za-z0-9]/g, '•');
+
+interface DigitalKeysCardProps {
+  orderId: string;
+}
+
+// Keys stay masked until the customer asks to see them, in case the screen is shared
+export const DigitalKeysCard: React.FC<DigitalKeysCardProps> = ({ orderId }) => {
+  const [digitalKeys, setDigitalKeys] = useState<DigitalKey[]>([]);
+  const [revealedIds, setRevealedIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    const loadKeys = async () => {
+      try {
+        const response = await ordersAPI.getOrderKeys(orderId);
+        if (response.success && response.data) {
+          setDigitalKeys(response.data.digitalKeys);
+        }
+      } catch (error) {
+        console.error('Failed to load digital keys:', error);
+      }
+    };
+
+    loadKeys();
+  }, [orderId]);
+
+  const toggleReveal = (keyId: string) => {
+    setRevealedIds(current =>
+      current.includes(keyId) ? current.filter(id => id !== keyId) : [...current, keyId]
+    );
+  };
+
+  const handleCopy = async (digitalKey: DigitalKey) => {
+    await copyToClipboard(digitalKey.key);
+    toast.success('Key copied', digitalKey.productName || undefined);
+  };
+
+  if (digitalKeys.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <KeyRound className="w-5 h-5" />
+          <span>Your Game Keys</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {digitalKeys.map(digitalKey => {
+          const isRevealed = revealedIds.includes(digitalKey.id);
+          return (
+            <div key={digitalKey.id} className="flex items-center justify-between p-3 border rounded-lg">
+              <div className="min-w-0">
+                <p className="font-medium text-sm">
+                  {digitalKey.productName}
+                  {digitalKey.platform && (
+                    <span className="text-muted-foreground"> · {digitalKey.platform}</span>
+                  )}
+                </p>
+                <p className="font-mono text-sm break-all">
+                  {isRevealed ? digitalKey.key : maskKey(digitalKey.key)}
+                </p>
+              </div>
+              <div className="flex space-x-1 flex-shrink-0">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => toggleReveal(digitalKey.id)}
+                  aria-label={isRevealed ? 'Hide key' : 'Reveal key'}
+                >
+                  {isRevealed ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleCopy(digitalKey)}
+                  aria-label="Copy key"
+                >
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+        <p className="text-xs text-muted-foreground">
+          Keys are also in your order confirmation email. Keep them private; a redeemed key can't be replaced.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { ordersAPI } from '@/lib/api';
+import { Order, OrderStatus, OrderStatusTransitions } from '@/types';
+import { toast } from '@/store';
+
+// Only the moves the server will accept from here; digital-only orders never ship
+const getStatusOptions = (order: Order, statusTransitions: OrderStatusTransitions | null): OrderStatus[] => {
+  if (!statusTransitions) return [];
+
+  return (statusTransitions.transitions[order.status] || []).filter(status =>
+    statusTransitions.adminStatuses.includes(status) && (status !== 'shipped' || !!order.shippingAddress)
+  );
+};
+
+interface OrderStatusActionsProps {
+  order: Order;
+  statusTransitions: OrderStatusTransitions | null;
+  onUpdated: () => void;
+}
+
+export const OrderStatusActions: React.FC<OrderStatusActionsProps> = ({ order, statusTransitions, onUpdated }) => {
+  const [isUpdating, setIsUpdating] = useState(false);
+  const options = getStatusOptions(order, statusTransitions);
+
+  const updateOrderStatus = async (newStatus: OrderStatus) => {
+    let details: { notes?: string; trackingNumber?: string } = {};
+
+    if (newStatus === 'shipped') {
+      const trackingNumber = window.prompt(`Tracking number for order #${order.orderNumber}:`, order.trackingNumber || '');
+      if (!trackingNumber?.trim()) return;
+      details = { trackingNumber: trackingNumber.trim() };
+    } else {
+      const message = newStatus === 'cancelled'
+        ? `Cancel order #${order.orderNumber}? Its stock will be put back.\n\nReason (optional):`
+        : `Mark order #${order.orderNumber} as ${newStatus}?\n\nNote for the order history (optional):`;
+      const notes = window.prompt(message);
+      if (notes === null) return;
+      details = { notes: notes.trim() || undefined };
+    }
+
+    try {
+      setIsUpdating(true);
+      const response = await ordersAPI.updateOrderStatus(order.id, newStatus, details);
+      if (response.success) {
+        toast.success('Order status updated', `Order #${order.orderNumber} is now ${newStatus}`);
+        onUpdated();
+      }
+    } catch (error: any) {
+      toast.error('Failed to update order status', error.response?.data?.message);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  if (options.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-muted-foreground">Update Status:</p>
+      {options.map((status) => (
+        <Button
+          key={status}
+          variant="outline"
+          size="sm"
+          onClick={() => updateOrderStatus(status)}
+          disabled={isUpdating}
+          className="w-full text-xs"
+        >
+          Mark as {status}
+        </Button>
+      ))}
+    </div>
+  );
+};
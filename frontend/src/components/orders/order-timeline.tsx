@@ -0,0 +1,74 @@
+import React from 'react';
+import { CheckCircle, Circle } from 'lucide-react';
+
+import { Order, OrderStatus } from '@/types';
+import { formatDateTime } from '@/lib/utils';
+
+interface TimelineEntry {
+  key: string;
+  status: OrderStatus;
+  date: string;
+  note?: string;
+}
+
+// Statuses an order moves through, used to show what is still to come.
+// All-digital orders are complete once confirmed, as the keys are sent then.
+const FULFILLMENT_FLOW: OrderStatus[] = ['pending', 'confirmed', 'processing', 'shipped', 'delivered'];
+const DIGITAL_FLOW: OrderStatus[] = ['pending', 'confirmed'];
+
+// Orders placed before status history was recorded only have the timestamps
+const getEntriesFromTimestamps = (order: Order): TimelineEntry[] => {
+  const timestamps: Array<[OrderStatus, string | undefined]> = [
+    ['pending', order.createdAt],
+    ['confirmed', order.confirmedAt],
+    ['processing', order.processedAt],
+    ['shipped', order.shippedAt],
+    ['delivered', order.deliveredAt],
+    ['cancelled', order.cancelledAt],
+  ];
+
+  return timestamps
+    .filter((entry): entry is [OrderStatus, string] => !!entry[1])
+    .map(([status, date]) => ({ key: status, status, date }));
+};
+
+interface OrderTimelineProps {
+  order: Order;
+}
+
+export const OrderTimeline: React.FC<OrderTimelineProps> = ({ order }) => {
+  const entries: TimelineEntry[] = order.statusHistory && order.statusHistory.length > 0
+    ? order.statusHistory.map(history => ({
+        key: history.id,
+        status: history.toStatus,
+        date: history.createdAt,
+        note: history.reason,
+      }))
+    : getEntriesFromTimestamps(order);
+
+  // Cancelled and refunded orders are off the flow and have nothing upcoming
+  const flow = order.shippingAddress ? FULFILLMENT_FLOW : DIGITAL_FLOW;
+  const currentIndex = flow.indexOf(order.status);
+  const upcoming = currentIndex === -1 ? [] : flow.slice(currentIndex + 1);
+
+  return (
+    <ol className="space-y-4">
+      {entries.map(entry => (
+        <li key={entry.key} className="flex items-start space-x-3">
+          <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="font-medium capitalize">{entry.status}</p>
+            <p className="text-sm text-muted-foreground">{formatDateTime(entry.date)}</p>
+            {entry.note && <p className="text-sm text-muted-foreground">{entry.note}</p>}
+          </div>
+        </li>
+      ))}
+      {upcoming.map(status => (
+        <li key={status} className="flex items-start space-x-3">
+          <Circle className="w-5 h-5 text-muted-foreground flex-shrink-0 mt-0.5" />
+          <p className="font-medium capitalize text-muted-foreground">{status}</p>
+        </li>
+      ))}
+    </ol>
+  );
+};
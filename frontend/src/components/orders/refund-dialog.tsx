@@ -0,0 +1,254 @@
+import React, { useEffect, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/modal';
+import { ordersAPI, paymentsAPI } from '@/lib/api';
+import { Order, Refund, RefundSummary } from '@/types';
+import { toast } from '@/store';
+import { formatDateTime, formatPrice, getErrorMessage } from '@/lib/utils';
+import { useTranslation } from '@/hooks/use-translation';
+import { MessageKey } from '@/lib/i18n';
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+const REFUND_SOURCE_KEYS: Record<Refund['source'], MessageKey> = {
+  admin: 'admin.refund.sources.admin',
+  customer: 'admin.refund.sources.customer',
+  return: 'admin.refund.sources.return',
+  stripe: 'admin.refund.sources.stripe',
+};
+
+interface RefundDialogProps {
+  order: Order | null;
+  onClose: () => void;
+  onRefunded: () => void;
+}
+
+export const RefundDialog: React.FC<RefundDialogProps> = ({ order, onClose, onRefunded }) => {
+  const { t } = useTranslation();
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [summary, setSummary] = useState<RefundSummary | null>(null);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [shippingAmount, setShippingAmount] = useState('');
+  const [taxAmount, setTaxAmount] = useState('');
+  // Tax follows the picked items until staff type their own figure
+  const [isTaxEdited, setIsTaxEdited] = useState(false);
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!order) return;
+
+    setQuantities({});
+    setShippingAmount('');
+    setTaxAmount('');
+    setIsTaxEdited(false);
+    setReason('');
+    loadRefunds(order.id);
+  }, [order?.id]);
+
+  const loadRefunds = async (orderId: string) => {
+    try {
+      setSummary(null);
+      const response = await ordersAPI.getOrderRefunds(orderId);
+      if (response.success && response.data) {
+        setRefunds(response.data.refunds);
+        setSummary(response.data.summary);
+      }
+    } catch (error) {
+      console.error('Failed to load refunds:', error);
+      toast.error(t('admin.refund.loadFailed'));
+    }
+  };
+
+  const itemsAmount = summary
+    ? summary.items.reduce((sum, item) => sum + item.unitAmount * (quantities[item.orderItemId] || 0), 0)
+    : 0;
+  const itemsTax = summary
+    ? Math.min(summary.tax, summary.items.reduce((sum, item) => sum + item.unitTaxAmount * (quantities[item.orderItemId] || 0), 0))
+    : 0;
+  const tax = isTaxEdited ? Number(taxAmount) || 0 : roundMoney(itemsTax);
+  const shipping = Number(shippingAmount) || 0;
+  const refundTotal = roundMoney(itemsAmount + shipping + tax);
+
+  const exceedsBalance = !!summary && refundTotal > summary.balance + 0.01;
+  const canSubmit = !!summary && refundTotal > 0 && !exceedsBalance && !isSubmitting;
+
+  const setQuantity = (orderItemId: string, quantity: number) => {
+    setQuantities(current => ({ ...current, [orderItemId]: quantity }));
+  };
+
+  const handleSubmit = async () => {
+    if (!order || !canSubmit) return;
+
+    try {
+      setIsSubmitting(true);
+      const response = await paymentsAPI.processRefund({
+        orderId: order.id,
+        items: Object.entries(quantities)
+          .filter(([, quantity]) => quantity > 0)
+          .map(([orderItemId, quantity]) => ({ orderItemId, quantity })),
+        shippingAmount: shipping,
+        taxAmount: tax,
+        reason: reason.trim() || undefined,
+      });
+      if (response.success) {
+        toast.success(response.message || t('admin.refund.processed'), t('admin.orderDetail.amountRefunded', { amount: formatPrice(refundTotal, order?.currency) }));
+        onRefunded();
+      }
+    } catch (error: any) {
+      toast.error(t('admin.refund.failed'), getErrorMessage(error));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!order} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('admin.refund.title', { number: order?.orderNumber ?? '' })}</DialogTitle>
+          <DialogDescription>
+            {t('admin.refund.description')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!summary ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div className="p-3 border rounded-lg">
+                <p className="text-lg font-bold">{formatPrice(summary.total, order?.currency)}</p>
+                <p className="text-xs text-muted-foreground">{t('admin.refund.orderTotal')}</p>
+              </div>
+              <div className="p-3 border rounded-lg">
+                <p className="text-lg font-bold">{formatPrice(summary.refundedAmount, order?.currency)}</p>
+                <p className="text-xs text-muted-foreground">{t('orderDetail.refunded')}</p>
+              </div>
+              <div className="p-3 border rounded-lg">
+                <p className="text-lg font-bold">{formatPrice(summary.balance, order?.currency)}</p>
+                <p className="text-xs text-muted-foreground">{t('admin.refund.refundable')}</p>
+              </div>
+            </div>
+
+            {/* Items */}
+            <div className="space-y-2">
+              {summary.items.map(item => (
+                <div key={item.orderItemId} className="flex items-center justify-between p-2 border rounded-lg text-sm">
+                  <div>
+                    <p className="font-medium">{item.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {t('admin.refund.each', { price: formatPrice(item.unitAmount, order?.currency) })}
+                      {item.refundedQuantity > 0 && ` • ${t('admin.refund.refundedOf', { refunded: item.refundedQuantity, total: item.quantity })}`}
+                    </p>
+                  </div>
+                  <select
+                    value={quantities[item.orderItemId] || 0}
+                    onChange={(e) => setQuantity(item.orderItemId, Number(e.target.value))}
+                    disabled={item.refundableQuantity === 0}
+                    className="px-2 py-1 border rounded-md"
+                    aria-label={t('admin.refund.quantityLabel', { name: item.name })}
+                  >
+                    {Array.from({ length: item.refundableQuantity + 1 }, (_, index) => index).map(value => (
+                      <option key={value} value={value}>{value}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">
+                  {t('checkout.shipping')} <span className="text-muted-foreground font-normal">{t('admin.refund.upTo', { amount: formatPrice(summary.shipping, order?.currency) })}</span>
+                </label>
+                <Input
+                  type="number"
+                  min="0"
+                  max={summary.shipping}
+                  step="0.01"
+                  value={shippingAmount}
+                  onChange={(e) => setShippingAmount(e.target.value)}
+                  placeholder="0.00"
+                  disabled={summary.shipping === 0}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">
+                  {t('checkout.tax')} <span className="text-muted-foreground font-normal">{t('admin.refund.upTo', { amount: formatPrice(summary.tax, order?.currency) })}</span>
+                </label>
+                <Input
+                  type="number"
+                  min="0"
+                  max={summary.tax}
+                  step="0.01"
+                  value={isTaxEdited ? taxAmount : tax.toFixed(2)}
+                  onChange={(e) => {
+                    setIsTaxEdited(true);
+                    setTaxAmount(e.target.value);
+                  }}
+                  disabled={summary.tax === 0}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">{t('returnForm.reason')}</label>
+              <Input
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder={t('admin.refund.reasonPlaceholder')}
+              />
+            </div>
+
+            {refunds.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">{t('admin.refund.previous')}</p>
+                {refunds.map(refund => (
+                  <div key={refund.id} className="flex justify-between text-xs text-muted-foreground">
+                    <span>
+                      {formatDateTime(refund.createdAt)} • {t(REFUND_SOURCE_KEYS[refund.source])}
+                      {refund.creator && ` (${refund.creator.firstName} ${refund.creator.lastName})`}
+                      {refund.reason && ` • ${refund.reason}`}
+                    </span>
+                    <span>{formatPrice(Number(refund.amount), order?.currency)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex justify-between border-t pt-3 font-semibold">
+              <span>{t('admin.refund.total')}</span>
+              <span className={exceedsBalance ? 'text-red-600' : undefined}>{formatPrice(refundTotal, order?.currency)}</span>
+            </div>
+            {exceedsBalance && (
+              <p className="text-sm text-red-600">
+                {t('admin.refund.exceedsBalance', { amount: formatPrice(summary.balance, order?.currency) })}
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit}>
+            {isSubmitting ? t('admin.refund.refunding') : t('admin.refund.submit', { amount: formatPrice(refundTotal, order?.currency) })}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { returnsAPI } from '@/lib/api';
+import { OrderItem, ReturnReason } from '@/types';
+import { toast } from '@/store';
+import { getErrorMessage } from '@/lib/utils';
+import { useTranslation } from '@/hooks/use-translation';
+import { MessageKey } from '@/lib/i18n';
+
+// A catalog entry named "other" would be read as a plural message
+export const RETURN_REASON_KEYS: Record<ReturnReason, MessageKey> = {
+  damaged: 'returnReason.damaged',
+  defective: 'returnReason.defective',
+  wrong_item: 'returnReason.wrongItem',
+  not_as_described: 'returnReason.notAsDescribed',
+  no_longer_needed: 'returnReason.noLongerNeeded',
+  other: 'returnReason.otherReason',
+};
+
+interface ReturnRequestFormProps {
+  item: OrderItem;
+  // Units not already covered by an open return
+  maxQuantity: number;
+  onSubmitted: () => void;
+  onCancel: () => void;
+}
+
+export const ReturnRequestForm: React.FC<ReturnRequestFormProps> = ({ item, maxQuantity, onSubmitted, onCancel }) => {
+  const { t } = useTranslation();
+  const [quantity, setQuantity] = useState(maxQuantity);
+  const [reason, setReason] = useState<ReturnReason>('damaged');
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSubmitting(true);
+      const response = await returnsAPI.createReturn({
+        orderItemId: item.id,
+        quantity,
+        reason,
+        notes: notes.trim() || undefined,
+      });
+      if (response.success) {
+        toast.success(t('returnForm.requested'), response.message);
+        onSubmitted();
+      }
+    } catch (error: any) {
+      toast.error(t('returnForm.failed'), getErrorMessage(error));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 p-3 border rounded-lg bg-muted/30">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="text-sm font-medium">{t('returnForm.quantity')}</label>
+          <select
+            value={quantity}
+            onChange={(e) => setQuantity(Number(e.target.value))}
+            className="w-full px-3 py-2 border rounded-md"
+          >
+            {Array.from({ length: maxQuantity }, (_, index) => index + 1).map(value => (
+              <option key={value} value={value}>{value}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="text-sm font-medium">{t('returnForm.reason')}</label>
+          <select
+            value={reason}
+            onChange={(e) => setReason(e.target.value as ReturnReason)}
+            className="w-full px-3 py-2 border rounded-md"
+          >
+            {Object.entries(RETURN_REASON_KEYS).map(([value, key]) => (
+              <option key={value} value={value}>{t(key)}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div>
+        <label className="text-sm font-medium">{t('returnForm.details')}</label>
+        <textarea
+          rows={3}
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          maxLength={1000}
+          className="w-full px-3 py-2 border rounded-md text-sm"
+        />
+      </div>
+      <div className="flex justify-end space-x-2">
+        <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+          {t('returnForm.cancel')}
+        </Button>
+        <Button type="submit" size="sm" disabled={isSubmitting}>
+          {isSubmitting ? t('returnForm.submitting') : t('returnForm.submit')}
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ordersAPI } from '@/lib/api';
+import { ShippingSummaryLine } from '@/types';
+import { toast } from '@/store';
+
+interface ShipmentFormProps {
+  orderId: string;
+  shipping: ShippingSummaryLine[];
+  onShipped: () => void;
+  onCancel: () => void;
+}
+
+export const ShipmentForm: React.FC<ShipmentFormProps> = ({ orderId, shipping, onShipped, onCancel }) => {
+  // Starts with everything that is left, so a single parcel needs no picking
+  const [quantities, setQuantities] = useState<Record<string, number>>(() =>
+    Object.fromEntries(shipping.map(line => [line.orderItemId, line.remainingQuantity]))
+  );
+  const [trackingNumber, setTrackingNumber] = useState('');
+  const [trackingUrl, setTrackingUrl] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const lines = Object.entries(quantities)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([orderItemId, quantity]) => ({ orderItemId, quantity }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (lines.length === 0 || !trackingNumber.trim()) return;
+
+    try {
+      setIsSubmitting(true);
+      const response = await ordersAPI.createShipment(orderId, {
+        lines,
+        trackingNumber: trackingNumber.trim(),
+        trackingUrl: trackingUrl.trim() || undefined,
+        notes: notes.trim() || undefined,
+      });
+      if (response.success) {
+        toast.success(response.message || 'Shipment created', `Tracking ${trackingNumber.trim()}`);
+        onShipped();
+      }
+    } catch (error: any) {
+      toast.error('Failed to create shipment', error.response?.data?.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 p-3 border rounded-lg bg-muted/30">
+      <div className="space-y-2">
+        {shipping.filter(line => line.remainingQuantity > 0).map(line => (
+          <div key={line.orderItemId} className="flex items-center justify-between text-sm">
+            <div>
+              <p className="font-medium">{line.name}</p>
+              <p className="text-xs text-muted-foreground">SKU {line.sku} • {line.remainingQuantity} left to ship</p>
+            </div>
+            <select
+              value={quantities[line.orderItemId] || 0}
+              onChange={(e) => setQuantities(current => ({ ...current, [line.orderItemId]: Number(e.target.value) }))}
+              className="px-2 py-1 border rounded-md"
+              aria-label={`Quantity of ${line.name} in this shipment`}
+            >
+              {Array.from({ length: line.remainingQuantity + 1 }, (_, index) => index).map(value => (
+                <option key={value} value={value}>{value}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="text-sm font-medium">Tracking Number</label>
+          <Input value={trackingNumber} onChange={(e) => setTrackingNumber(e.target.value)} required />
+        </div>
+        <div>
+          <label className="text-sm font-medium">Tracking URL (optional)</label>
+          <Input type="url" value={trackingUrl} onChange={(e) => setTrackingUrl(e.target.value)} placeholder="https://" />
+        </div>
+      </div>
+      <div>
+        <label className="text-sm font-medium">Notes (optional)</label>
+        <Input value={notes} onChange={(e) => setNotes(e.target.value)} maxLength={1000} />
+      </div>
+      <div className="flex justify-end space-x-2">
+        <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={isSubmitting || lines.length === 0 || !trackingNumber.trim()}>
+          {isSubmitting ? 'Shipping...' : 'Create Shipment'}
+        </Button>
+      </div>
+    </form>
+  );
+};
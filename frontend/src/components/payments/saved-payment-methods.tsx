@@ -0,0 +1,269 @@
+import React, { useEffect, useState } from 'react';
+import { Elements, PaymentElement, useElements, useStripe } from '@stripe/react-stripe-js';
+import { AlertTriangle, CreditCard, Plus, Star, Trash2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useStripe as useStripeContext } from '@/contexts/stripe-context';
+import { paymentsAPI } from '@/lib/api';
+import { StripePaymentMethod } from '@/types';
+import { toast } from '@/store';
+import { formatCardBrand, getErrorMessage } from '@/lib/utils';
+import { useTranslation } from '@/hooks/use-translation';
+
+interface AddCardFormProps {
+  // New cards become the default when there is no other card to prefer
+  makeDefaultByDefault: boolean;
+  onSaved: (paymentMethodId: string, makeDefault: boolean) => void;
+  onCancel: () => void;
+}
+
+// Rendered inside its own Elements, bound to the SetupIntent being confirmed
+const AddCardForm: React.FC<AddCardFormProps> = ({ makeDefaultByDefault, onSaved, onCancel }) => {
+  const stripe = useStripe();
+  const elements = useElements();
+  const { t } = useTranslation();
+  const [makeDefault, setMakeDefault] = useState(makeDefaultByDefault);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!stripe || !elements) return;
+
+    setIsSaving(true);
+    setError(null);
+    // Cards that need 3D Secure are verified here, so checkout can use them in one click
+    const { error: setupError, setupIntent } = await stripe.confirmSetup({
+      elements,
+      confirmParams: {
+        return_url: window.location.href,
+      },
+      redirect: 'if_required',
+    });
+    setIsSaving(false);
+
+    if (setupError) {
+      setError(setupError.message || t('profile.paymentMethods.saveFailed'));
+      return;
+    }
+
+    const paymentMethodId = typeof setupIntent?.payment_method === 'string'
+      ? setupIntent.payment_method
+      : setupIntent?.payment_method?.id;
+    if (setupIntent?.status === 'succeeded' && paymentMethodId) {
+      onSaved(paymentMethodId, makeDefault);
+    } else {
+      setError(t('profile.paymentMethods.saveFailed'));
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="bg-destructive/10 border border-destructive/20 rounded-md p-3">
+          <p className="text-destructive text-sm">{error}</p>
+        </div>
+      )}
+      <PaymentElement />
+      <label className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          className="rounded"
+          checked={makeDefault}
+          onChange={(e) => setMakeDefault(e.target.checked)}
+        />
+        <span className="text-sm">{t('profile.paymentMethods.useAsDefault')}</span>
+      </label>
+      <div className="flex space-x-2">
+        <Button type="submit" disabled={!stripe || !elements || isSaving}>
+          {isSaving ? t('common.saving') : t('profile.paymentMethods.saveCard')}
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSaving}>
+          {t('common.cancel')}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export const SavedPaymentMethods: React.FC = () => {
+  const { stripe } = useStripeContext();
+  const { t } = useTranslation();
+  const [paymentMethods, setPaymentMethods] = useState<StripePaymentMethod[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Secret of the SetupIntent while a card is being added
+  const [setupSecret, setSetupSecret] = useState<string | null>(null);
+  const [isStartingSetup, setIsStartingSetup] = useState(false);
+
+  useEffect(() => {
+    loadPaymentMethods();
+  }, []);
+
+  const loadPaymentMethods = async () => {
+    try {
+      setIsLoading(true);
+      const response = await paymentsAPI.getPaymentMethods();
+      if (response.success && response.data) {
+        setPaymentMethods(response.data.paymentMethods);
+      }
+    } catch (error) {
+      console.error('Failed to load payment methods:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAddCard = async () => {
+    try {
+      setIsStartingSetup(true);
+      const response = await paymentsAPI.createSetupIntent();
+      if (response.success && response.data) {
+        setSetupSecret(response.data.clientSecret);
+      }
+    } catch (error: any) {
+      toast.error(t('profile.paymentMethods.addFailed'), getErrorMessage(error));
+    } finally {
+      setIsStartingSetup(false);
+    }
+  };
+
+  const describeExpiry = (paymentMethod: StripePaymentMethod) => {
+    const { card } = paymentMethod;
+    if (!card) return '';
+    const expiry = { month: String(card.expMonth).padStart(2, '0'), year: card.expYear };
+    return paymentMethod.isExpired ? t('profile.paymentMethods.expired', expiry) : t('checkout.cardExpires', expiry);
+  };
+
+  const handleCardSaved = async (paymentMethodId: string, makeDefault: boolean) => {
+    setSetupSecret(null);
+    try {
+      if (makeDefault) {
+        await paymentsAPI.setDefaultPaymentMethod(paymentMethodId);
+      }
+      toast.success(t('profile.paymentMethods.saved'));
+    } catch (error: any) {
+      toast.error(t('profile.paymentMethods.savedNotDefault'), getErrorMessage(error));
+    }
+    await loadPaymentMethods();
+  };
+
+  const handleSetDefault = async (paymentMethodId: string) => {
+    try {
+      const response = await paymentsAPI.setDefaultPaymentMethod(paymentMethodId);
+      if (response.success) {
+        setPaymentMethods(current => current.map(method => ({
+          ...method,
+          isDefault: method.id === paymentMethodId,
+        })));
+      }
+    } catch (error: any) {
+      toast.error(t('profile.paymentMethods.defaultFailed'), getErrorMessage(error));
+    }
+  };
+
+  const handleRemove = async (paymentMethod: StripePaymentMethod) => {
+    if (!window.confirm(t('profile.paymentMethods.removeConfirm', { last4: paymentMethod.card?.last4 ?? '' }))) {
+      return;
+    }
+
+    try {
+      const response = await paymentsAPI.removePaymentMethod(paymentMethod.id);
+      if (response.success) {
+        setPaymentMethods(current => current.filter(method => method.id !== paymentMethod.id));
+        toast.success(t('profile.paymentMethods.removed'));
+      }
+    } catch (error: any) {
+      toast.error(t('profile.paymentMethods.removeFailed'), getErrorMessage(error));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <CreditCard className="w-5 h-5" />
+            <span>{t('profile.paymentMethods.title')}</span>
+          </CardTitle>
+          {!setupSecret && (
+            <Button variant="outline" size="sm" onClick={handleAddCard} disabled={isStartingSetup}>
+              <Plus className="w-4 h-4 mr-2" />
+              {t('profile.paymentMethods.addCard')}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {setupSecret && stripe && (
+          <Elements stripe={stripe} options={{ clientSecret: setupSecret, appearance: { theme: 'stripe' } }}>
+            <AddCardForm
+              makeDefaultByDefault={!paymentMethods.some(method => method.isDefault)}
+              onSaved={handleCardSaved}
+              onCancel={() => setSetupSecret(null)}
+            />
+          </Elements>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">{t('profile.paymentMethods.loading')}</p>
+        ) : paymentMethods.length === 0 ? (
+          !setupSecret && (
+            <p className="text-sm text-muted-foreground">
+              {t('profile.paymentMethods.empty')}
+            </p>
+          )
+        ) : (
+          <div className="divide-y">
+            {paymentMethods.map(paymentMethod => (
+              <div key={paymentMethod.id} className="flex items-center justify-between py-3">
+                <div>
+                  <p className="font-medium flex items-center gap-2">
+                    {paymentMethod.card
+                      ? t('checkout.cardEnding', { brand: formatCardBrand(paymentMethod.card.brand), last4: paymentMethod.card.last4 })
+                      : paymentMethod.type}
+                    {paymentMethod.isDefault && <Badge variant="secondary">{t('address.default')}</Badge>}
+                  </p>
+                  <p className={`text-sm flex items-center gap-1 ${
+                    paymentMethod.isExpired
+                      ? 'text-destructive'
+                      : paymentMethod.isExpiringSoon ? 'text-yellow-600' : 'text-muted-foreground'
+                  }`}>
+                    {(paymentMethod.isExpired || paymentMethod.isExpiringSoon) && (
+                      <AlertTriangle className="w-4 h-4" />
+                    )}
+                    {describeExpiry(paymentMethod)}
+                    {paymentMethod.isExpiringSoon && ` · ${t('profile.paymentMethods.expiringSoon')}`}
+                  </p>
+                </div>
+                <div className="flex">
+                  {!paymentMethod.isDefault && !paymentMethod.isExpired && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleSetDefault(paymentMethod.id)}
+                      aria-label={t('profile.paymentMethods.makeDefault')}
+                      title={t('profile.paymentMethods.makeDefault')}
+                    >
+                      <Star className="w-4 h-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleRemove(paymentMethod)}
+                    className="text-destructive hover:text-destructive"
+                    aria-label={t('profile.paymentMethods.remove')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Bell, Trash2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { alertsAPI } from '@/lib/api';
+import { ProductAlert } from '@/types';
+import { toast } from '@/store';
+import { formatDate, formatPrice } from '@/lib/utils';
+
+const describeAlert = (alert: ProductAlert) => {
+  if (alert.type === 'back_in_stock') {
+    return 'Back in stock';
+  }
+  return alert.targetPrice
+    ? `Price at or below ${formatPrice(Number(alert.targetPrice))}`
+    : `Price below ${formatPrice(Number(alert.priceAtSubscribe))}`;
+};
+
+export const AlertSubscriptions: React.FC = () => {
+  const [alerts, setAlerts] = useState<ProductAlert[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadAlerts();
+  }, []);
+
+  const loadAlerts = async () => {
+    try {
+      setIsLoading(true);
+      const response = await alertsAPI.getAlerts();
+      if (response.success && response.data) {
+        setAlerts(response.data.alerts);
+      }
+    } catch (error) {
+      console.error('Failed to load alerts:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRemove = async (alertId: string) => {
+    try {
+      const response = await alertsAPI.deleteAlert(alertId);
+      if (response.success) {
+        setAlerts(current => current.filter(alert => alert.id !== alertId));
+        toast.success('Alert removed');
+      }
+    } catch (error: any) {
+      toast.error('Failed to remove alert', error.response?.data?.message);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Bell className="w-5 h-5" />
+          <span>Product Alerts</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading alerts...</p>
+        ) : alerts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            You have no alerts. Use "Notify me" or a price alert on a product page to get an email when it's back in stock or cheaper.
+          </p>
+        ) : (
+          <div className="divide-y">
+            {alerts.map(alert => (
+              <div key={alert.id} className="flex items-center justify-between py-3">
+                <div>
+                  {alert.product ? (
+                    <Link to={`/products/${alert.product.slug}`} className="font-medium hover:text-primary">
+                      {alert.product.name}
+                    </Link>
+                  ) : (
+                    <span className="font-medium">Unavailable product</span>
+                  )}
+                  <p className="text-sm text-muted-foreground">
+                    {describeAlert(alert)}
+                    {' · '}
+                    {alert.notifiedAt
+                      ? `Notified ${formatDate(alert.notifiedAt)}`
+                      : `Since ${formatDate(alert.subscribedAt)}`}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleRemove(alert.id)}
+                  className="text-destructive hover:text-destructive"
+                  aria-label="Remove alert"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
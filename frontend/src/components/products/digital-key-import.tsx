@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { KeyRound, Upload } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { productsAPI } from '@/lib/api';
+import { DigitalKeyCounts } from '@/types';
+import { toast } from '@/store';
+
+interface DigitalKeyImportProps {
+  productId: string;
+  // Importing raises the product's stock by the number of keys added
+  onImported: (imported: number) => void;
+}
+
+export const DigitalKeyImport: React.FC<DigitalKeyImportProps> = ({ productId, onImported }) => {
+  const [counts, setCounts] = useState<DigitalKeyCounts | null>(null);
+  const [keysText, setKeysText] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+
+  const keys = keysText.split(/\r?\n/).map(key => key.trim()).filter(Boolean);
+
+  useEffect(() => {
+    const loadCounts = async () => {
+      try {
+        const response = await productsAPI.getProductKeys(productId);
+        if (response.success && response.data) {
+          setCounts(response.data.counts);
+        }
+      } catch (error) {
+        console.error('Failed to load key inventory:', error);
+      }
+    };
+
+    loadCounts();
+  }, [productId]);
+
+  const handleImport = async () => {
+    if (keys.length === 0) return;
+
+    try {
+      setIsImporting(true);
+      const response = await productsAPI.importProductKeys(productId, keys);
+      if (response.success && response.data) {
+        setCounts(response.data.counts);
+        setKeysText('');
+        onImported(response.data.imported);
+        toast.success('Keys imported', response.message);
+      }
+    } catch (error: any) {
+      toast.error('Failed to import keys', error.response?.data?.message);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <KeyRound className="w-5 h-5" />
+          <span>Digital Keys</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {counts && (
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div className="p-3 border rounded-lg">
+              <p className="text-2xl font-bold">{counts.available}</p>
+              <p className="text-sm text-muted-foreground">Available</p>
+            </div>
+            <div className="p-3 border rounded-lg">
+              <p className="text-2xl font-bold">{counts.assigned}</p>
+              <p className="text-sm text-muted-foreground">Delivered</p>
+            </div>
+            <div className="p-3 border rounded-lg">
+              <p className="text-2xl font-bold">{counts.revoked}</p>
+              <p className="text-sm text-muted-foreground">Revoked</p>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Import Keys</label>
+          <textarea
+            rows={6}
+            value={keysText}
+            onChange={(e) => setKeysText(e.target.value)}
+            placeholder="One key per line"
+            className="w-full px-3 py-2 border rounded-md font-mono text-sm"
+          />
+          <p className="text-xs text-muted-foreground">
+            Keys are encrypted when stored. Duplicates are skipped and stock goes up by the number of keys imported.
+          </p>
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="button" onClick={handleImport} disabled={isImporting || keys.length === 0}>
+            <Upload className="w-4 h-4 mr-2" />
+            {isImporting ? 'Importing...' : `Import ${keys.length} Key${keys.length === 1 ? '' : 's'}`}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
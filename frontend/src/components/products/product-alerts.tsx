@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { Bell, BellOff, TrendingDown } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { alertsAPI } from '@/lib/api';
+import { Product, ProductAlert, ProductAlertType } from '@/types';
+import { useAuthStore } from '@/store';
+import { toast } from '@/store';
+import { formatPrice, getErrorMessage } from '@/lib/utils';
+
+interface ProductAlertsProps {
+  product: Product;
+}
+
+export const ProductAlerts: React.FC<ProductAlertsProps> = ({ product }) => {
+  const location = useLocation();
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+  const [alerts, setAlerts] = useState<ProductAlert[]>([]);
+  const [targetPrice, setTargetPrice] = useState('');
+  const [showPriceForm, setShowPriceForm] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isOutOfStock = product.stockQuantity === 0;
+  const findPendingAlert = (type: ProductAlertType) =>
+    alerts.find(alert => alert.type === type && !alert.notifiedAt);
+  const stockAlert = findPendingAlert('back_in_stock');
+  const priceAlert = findPendingAlert('price_drop');
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setAlerts([]);
+      return;
+    }
+
+    const loadAlerts = async () => {
+      try {
+        const response = await alertsAPI.getAlerts({ productId: product.id });
+        if (response.success && response.data) {
+          setAlerts(response.data.alerts);
+        }
+      } catch (error) {
+        console.error('Failed to load product alerts:', error);
+      }
+    };
+
+    loadAlerts();
+  }, [product.id, isAuthenticated]);
+
+  const subscribe = async (type: ProductAlertType, price?: number) => {
+    setIsSaving(true);
+    try {
+      const response = await alertsAPI.createAlert({
+        productId: product.id,
+        type,
+        targetPrice: price ?? null,
+      });
+      if (response.success && response.data) {
+        const saved = response.data.alert;
+        setAlerts(current => [saved, ...current.filter(alert => alert.id !== saved.id)]);
+        toast.success('Alert saved', response.message);
+        setShowPriceForm(false);
+        setTargetPrice('');
+      }
+    } catch (error: any) {
+      toast.error('Failed to save alert', getErrorMessage(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const unsubscribe = async (alert: ProductAlert) => {
+    setIsSaving(true);
+    try {
+      const response = await alertsAPI.deleteAlert(alert.id);
+      if (response.success) {
+        setAlerts(current => current.filter(a => a.id !== alert.id));
+        toast.success('Alert removed');
+      }
+    } catch (error: any) {
+      toast.error('Failed to remove alert', getErrorMessage(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePriceSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    subscribe('price_drop', targetPrice ? parseFloat(targetPrice) : undefined);
+  };
+
+  if (!isAuthenticated) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        <Link to="/login" state={{ from: location }} className="text-primary hover:underline">
+          Sign in
+        </Link>{' '}
+        to get notified {isOutOfStock ? 'when this is back in stock' : 'about price drops'}.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {isOutOfStock && (
+        stockAlert ? (
+          <div className="flex items-center justify-between p-3 border rounded-md text-sm">
+            <span className="flex items-center">
+              <Bell className="w-4 h-4 mr-2 text-primary" />
+              We'll email you when this is back in stock
+            </span>
+            <Button variant="ghost" size="sm" onClick={() => unsubscribe(stockAlert)} disabled={isSaving}>
+              <BellOff className="w-4 h-4 mr-1" />
+              Cancel
+            </Button>
+          </div>
+        ) : (
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => subscribe('back_in_stock')}
+            disabled={isSaving}
+          >
+            <Bell className="w-4 h-4 mr-2" />
+            Notify me when available
+          </Button>
+        )
+      )}
+
+      {priceAlert ? (
+        <div className="flex items-center justify-between p-3 border rounded-md text-sm">
+          <span className="flex items-center">
+            <TrendingDown className="w-4 h-4 mr-2 text-green-600" />
+            {priceAlert.targetPrice
+              ? `We'll email you when the price reaches ${formatPrice(Number(priceAlert.targetPrice))}`
+              : "We'll email you when the price drops"}
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => unsubscribe(priceAlert)} disabled={isSaving}>
+            <BellOff className="w-4 h-4 mr-1" />
+            Cancel
+          </Button>
+        </div>
+      ) : showPriceForm ? (
+        <form onSubmit={handlePriceSubmit} className="flex items-center space-x-2">
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            max={Number(product.price) - 0.01}
+            value={targetPrice}
+            onChange={(e) => setTargetPrice(e.target.value)}
+            placeholder="Any price drop"
+            aria-label="Target price"
+          />
+          <Button type="submit" disabled={isSaving}>
+            Set Alert
+          </Button>
+          <Button type="button" variant="ghost" onClick={() => setShowPriceForm(false)}>
+            Cancel
+          </Button>
+        </form>
+      ) : (
+        <button
+          type="button"
+          className="flex items-center text-sm text-primary hover:underline"
+          onClick={() => setShowPriceForm(true)}
+        >
+          <TrendingDown className="w-4 h-4 mr-1" />
+          Alert me when the price drops
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Heart } from 'lucide-react';
+
+import { Button, ButtonProps } from '@/components/ui/button';
+import { useWishlist } from '@/contexts/wishlist-context';
+import { useAuthStore } from '@/store';
+import { cn } from '@/lib/utils';
+
+interface WishlistButtonProps {
+  productId: string;
+  variant?: ButtonProps['variant'];
+  className?: string;
+}
+
+export const WishlistButton: React.FC<WishlistButtonProps> = ({
+  productId,
+  variant = 'outline',
+  className,
+}) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+  const { isInWishlist, toggleWishlist } = useWishlist();
+  const [isToggling, setIsToggling] = useState(false);
+
+  const isSaved = isInWishlist(productId);
+
+  const handleClick = async (e: React.MouseEvent) => {
+    // Cards are often wrapped in links
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (!isAuthenticated) {
+      navigate('/login', { state: { from: location } });
+      return;
+    }
+
+    setIsToggling(true);
+    try {
+      await toggleWishlist(productId);
+    } catch (error) {
+      // Already reported by the wishlist context
+    } finally {
+      setIsToggling(false);
+    }
+  };
+
+  return (
+    <Button
+      type="button"
+      variant={variant}
+      size="icon"
+      onClick={handleClick}
+      disabled={isToggling}
+      className={cn('flex-shrink-0', className)}
+      aria-label={isSaved ? 'Remove from wishlist' : 'Save to wishlist'}
+      aria-pressed={isSaved}
+    >
+      <Heart className={cn('w-4 h-4', isSaved && 'fill-red-500 text-red-500')} />
+    </Button>
+  );
+};
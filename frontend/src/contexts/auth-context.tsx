@@ -1,21 +1,28 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { authAPI, usersAPI } from '@/lib/api';
-import { User } from '@/types';
-import { useAuthStore } from '@/store';
+import { authAPI, cartAPI, initCsrfToken, usersAPI } from '@/lib/api';
+import { AuthSuccess, User } from '@/types';
+import { useAuthStore, useCartStore } from '@/store';
 import { toast } from '@/store';
+import { isGuestCartItem } from '@/contexts/cart-context';
+import { describeCartIssue, getErrorMessage } from '@/lib/utils';
 
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
+  // True until the session has been restored from its cookies
+  isInitializing: boolean;
   isLoading: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  // Resolves with a challenge token when the account needs a two-factor code
+  login: (email: string, password: string) => Promise<string | null>;
+  verifyTwoFactor: (challengeToken: string, code: string) => Promise<void>;
   register: (data: any) => Promise<void>;
   logout: () => Promise<void>;
   googleAuth: () => void;
   forgotPassword: (email: string) => Promise<void>;
   resetPassword: (token: string, password: string) => Promise<void>;
-  verifyEmail: (token: string) => Promise<void>;
+  // Resolves with the address that was verified
+  verifyEmail: (token: string) => Promise<string>;
   resendVerification: () => Promise<void>;
   updateProfile: (data: Partial<User>) => Promise<void>;
 }
@@ -30,31 +37,60 @@ export const useAuth = () => {
   return context;
 };
 
+// Moves items collected while signed out into the freshly authenticated
+// user's server cart. Must run before the user is set so the cart reload
+// triggered by signing in already sees the merged items. Only buyers have a
+// server cart; that reload reports any items that could not be moved.
+const mergeGuestCart = async (user: User) => {
+  const guestItems = useCartStore.getState().items.filter(isGuestCartItem);
+  if (guestItems.length === 0 || user.role !== 'buyer') {
+    return;
+  }
+
+  try {
+    const response = await cartAPI.mergeCart(
+      guestItems.map(({ productId, quantity }) => ({ productId, quantity }))
+    );
+
+    if (response.success && response.data) {
+      const issues = [...response.data.adjustedItems, ...response.data.failedItems];
+      if (issues.length > 0) {
+        toast.warning('Some cart items could not be moved to your account', issues.map(describeCartIssue).join('. '));
+      }
+      useCartStore.getState().clearCart();
+    }
+  } catch (error) {
+    console.error('Failed to merge guest cart:', error);
+  }
+};
+
 interface AuthProviderProps {
   children: React.ReactNode;
 }
 
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const navigate = useNavigate();
-  const { user, isAuthenticated, setUser, setTokens, clearAuth, setLoading } = useAuthStore();
+  const { user, isAuthenticated, setUser, clearAuth, setLoading } = useAuthStore();
   const [isInitializing, setIsInitializing] = useState(true);
 
-  // Check for existing tokens and validate them on mount
+  // Restore the session from its cookies on mount. The interceptor refreshes
+  // an expired access token, so a 401 here means the user is signed out.
   useEffect(() => {
     const initializeAuth = async () => {
+      // Earlier versions kept tokens in localStorage; don't leave them there
+      localStorage.removeItem('auth-storage');
+      localStorage.removeItem('accessToken');
+      localStorage.removeItem('refreshToken');
+
       try {
-        const accessToken = localStorage.getItem('accessToken');
-        if (accessToken) {
-          const response = await authAPI.getCurrentUser();
-          if (response.success && response.data) {
-            setUser(response.data);
-          } else {
-            // Token is invalid, clear auth
-            clearAuth();
-          }
+        await initCsrfToken();
+        const response = await authAPI.getCurrentUser();
+        if (response.success && response.data) {
+          setUser(response.data.user);
+        } else {
+          clearAuth();
         }
       } catch (error) {
-        console.error('Auth initialization error:', error);
         clearAuth();
       } finally {
         setIsInitializing(false);
@@ -64,19 +100,24 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     initializeAuth();
   }, [setUser, clearAuth]);
 
+  const completeLogin = async ({ user }: AuthSuccess) => {
+    await mergeGuestCart(user);
+    setUser(user);
+    toast.success('Login successful!');
+    navigate('/');
+  };
+
   const login = async (email: string, password: string) => {
     try {
       setLoading(true);
       const response = await authAPI.login({ email, password });
       
       if (response.success && response.data) {
-        const { user, accessToken, refreshToken } = response.data;
-        setUser(user);
-        setTokens(accessToken, refreshToken);
-        localStorage.setItem('accessToken', accessToken);
-        localStorage.setItem('refreshToken', refreshToken);
-        toast.success('Login successful!');
-        navigate('/');
+        if ('requiresTwoFactor' in response.data) {
+          return response.data.challengeToken;
+        }
+        await completeLogin(response.data);
+        return null;
       } else {
         throw new Error(response.message || 'Login failed');
       }
@@ -88,25 +129,42 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  const verifyTwoFactor = async (challengeToken: string, code: string) => {
+    try {
+      setLoading(true);
+      const response = await authAPI.verifyTwoFactorLogin(challengeToken, code);
+
+      if (response.success && response.data) {
+        await completeLogin(response.data);
+      } else {
+        throw new Error(response.message || 'Login failed');
+      }
+    } catch (error: any) {
+      const message = getErrorMessage(error);
+      toast.error('Login failed', message);
+      throw new Error(message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const register = async (data: any) => {
     try {
       setLoading(true);
       const response = await authAPI.register(data);
       
       if (response.success && response.data) {
-        const { user, accessToken, refreshToken } = response.data;
-        setUser(user);
-        setTokens(accessToken, refreshToken);
-        localStorage.setItem('accessToken', accessToken);
-        localStorage.setItem('refreshToken', refreshToken);
+        await mergeGuestCart(response.data.user);
+        setUser(response.data.user);
         toast.success('Registration successful! Please check your email for verification.');
         navigate('/');
       } else {
         throw new Error(response.message || 'Registration failed');
       }
     } catch (error: any) {
-      toast.error('Registration failed', error.message);
-      throw error;
+      const message = getErrorMessage(error);
+      toast.error('Registration failed', message);
+      throw new Error(message);
     } finally {
       setLoading(false);
     }
@@ -119,8 +177,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       console.error('Logout error:', error);
     } finally {
       clearAuth();
-      localStorage.removeItem('accessToken');
-      localStorage.removeItem('refreshToken');
+      // The server cart stays with the account; don't leave it behind as a guest cart
+      useCartStore.getState().clearCart();
       toast.success('Logged out successfully');
       navigate('/login');
     }
@@ -160,8 +218,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         throw new Error(response.message || 'Password reset failed');
       }
     } catch (error: any) {
-      toast.error('Password reset failed', error.message);
-      throw error;
+      const message = getErrorMessage(error);
+      toast.error('Password reset failed', message);
+      throw new Error(message);
     } finally {
       setLoading(false);
     }
@@ -172,19 +231,23 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       setLoading(true);
       const response = await authAPI.verifyEmail(token);
       
-      if (response.success) {
+      if (response.success && response.data) {
         toast.success('Email verified successfully!');
-        // Refresh user data to update verification status
-        const userResponse = await authAPI.getCurrentUser();
-        if (userResponse.success && userResponse.data) {
-          setUser(userResponse.data);
+        // The link can be opened while signed out; only a signed in user needs refreshing
+        if (useAuthStore.getState().isAuthenticated) {
+          const userResponse = await authAPI.getCurrentUser();
+          if (userResponse.success && userResponse.data) {
+            setUser(userResponse.data.user);
+          }
         }
+        return response.data.email;
       } else {
         throw new Error(response.message || 'Email verification failed');
       }
     } catch (error: any) {
-      toast.error('Email verification failed', error.message);
-      throw error;
+      const message = getErrorMessage(error);
+      toast.error('Email verification failed', message);
+      throw new Error(message);
     } finally {
       setLoading(false);
     }
@@ -201,7 +264,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         throw new Error(response.message || 'Failed to send verification email');
       }
     } catch (error: any) {
-      toast.error('Failed to send verification email', error.message);
+      toast.error('Failed to send verification email', getErrorMessage(error));
       throw error;
     } finally {
       setLoading(false);
@@ -230,8 +293,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const value: AuthContextType = {
     user,
     isAuthenticated,
+    isInitializing,
     isLoading: isInitializing || useAuthStore.getState().isLoading,
     login,
+    verifyTwoFactor,
     register,
     logout,
     googleAuth,
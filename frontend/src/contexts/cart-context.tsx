@@ -1,20 +1,96 @@
-import React, { createContext, useContext, useEffect } from 'react';
-import { cartAPI } from '@/lib/api';
-import { CartItem, CartSummary } from '@/types';
-import { useCartStore } from '@/store';
+import React, { createContext, useContext, useEffect, useRef } from 'react';
+import { cartAPI, wishlistAPI } from '@/lib/api';
+import { AppliedPromotion, CartItem, CartSummary, GuestCartValidation, Product, WishlistItem } from '@/types';
+import { useAuthStore, useCartStore } from '@/store';
 import { toast } from '@/store';
+import { useAuth } from '@/contexts/auth-context';
+import { describeCartIssue, getErrorMessage } from '@/lib/utils';
+
+// Items added while signed out only live in the persisted store until they are
+// merged into the server cart on login
+const GUEST_ITEM_PREFIX = 'guest-';
+// Optimistically added items keep this id until the server assigns a real one
+const PENDING_ITEM_PREFIX = 'pending-';
+// Rapid quantity changes to the same item are sent as a single request
+const QUANTITY_UPDATE_DELAY = 400;
+// An applied promo code is re-checked this long after the cart stops changing
+const PROMOTION_REFRESH_DELAY = 600;
+
+export const isGuestCartItem = (item: CartItem) => item.id.startsWith(GUEST_ITEM_PREFIX);
+
+const toGuestCartItem = (
+  line: GuestCartValidation['items'][number],
+  existing?: CartItem
+): CartItem => {
+  const now = new Date().toISOString();
+  return {
+    id: `${GUEST_ITEM_PREFIX}${line.productId}`,
+    userId: '',
+    productId: line.productId,
+    product: line.product,
+    quantity: line.quantity,
+    price: line.price,
+    notes: existing?.notes,
+    isSelected: existing?.isSelected ?? true,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+};
+
+// Server rows price items by `priceAtAdd` and only include part of the product,
+// so the product already shown in the cart is kept when there is one
+const normalizeCartItem = (item: CartItem, previous?: CartItem): CartItem => ({
+  ...previous,
+  ...item,
+  product: previous?.product ?? item.product,
+  price: Number(item.priceAtAdd ?? item.price),
+  isSelected: item.isSelected ?? previous?.isSelected ?? true,
+});
+
+// Tax and shipping depend on the destination and shipping method, so they are
+// only quoted at checkout. Free shipping codes are applied there for the same reason.
+const calculateCartSummary = (items: CartItem[], promotion: AppliedPromotion | null): CartSummary => {
+  const selected = items.filter(item => item.isSelected);
+  const subtotal = selected.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const discount = promotion && promotion.type !== 'free_shipping'
+    ? Math.min(promotion.discountAmount, subtotal)
+    : 0;
+  return {
+    items,
+    subtotal,
+    tax: 0,
+    shipping: 0,
+    discount,
+    total: subtotal - discount,
+    itemCount: selected.reduce((sum, item) => sum + item.quantity, 0),
+    selectedCount: selected.length,
+  };
+};
+
+interface PendingQuantityUpdate {
+  timer?: ReturnType<typeof setTimeout>;
+  inFlight: boolean;
+  quantity: number;
+  notes?: string;
+  // Last state the server agreed to, restored if the change is rejected
+  confirmed: CartItem;
+  waiters: Array<() => void>;
+}
 
 interface CartContextType {
   items: CartItem[];
   summary: CartSummary | null;
+  promotion: AppliedPromotion | null;
   isLoading: boolean;
-  addToCart: (productId: string, quantity: number, notes?: string) => Promise<void>;
+  addToCart: (product: Product, quantity: number, notes?: string) => Promise<void>;
   updateCartItem: (itemId: string, quantity: number, notes?: string) => Promise<void>;
   removeFromCart: (itemId: string) => Promise<void>;
+  moveToWishlist: (itemId: string) => Promise<WishlistItem>;
   clearCart: () => Promise<void>;
   updateItemSelection: (itemId: string, isSelected: boolean) => Promise<void>;
   loadCart: () => Promise<void>;
-  loadCartSummary: () => Promise<void>;
+  applyPromoCode: (code: string) => Promise<void>;
+  removePromoCode: () => void;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
@@ -32,32 +108,162 @@ interface CartProviderProps {
 }
 
 export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
-  const { 
-    items, 
-    summary, 
-    isLoading, 
-    setItems, 
-    setSummary, 
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+  const { isInitializing } = useAuth();
+  const {
+    items,
+    summary,
+    promotion,
+    isLoading,
+    setItems,
+    setSummary,
+    setPromotion,
     setLoading,
-    addItem: addItemToStore,
-    updateItem: updateItemInStore,
-    removeItem: removeItemFromStore,
-    clearCart: clearCartStore,
-    updateItemSelection: updateItemSelectionInStore
   } = useCartStore();
+  const pendingQuantities = useRef(new Map<string, PendingQuantityUpdate>());
 
-  // Load cart on mount
+  // Load cart once the session is restored and whenever the user signs in or
+  // out. Until then a signed in shopper looks like a guest.
   useEffect(() => {
+    if (isInitializing) return;
     loadCart();
-  }, []);
+  }, [isAuthenticated, isInitializing]);
+
+  // Discounts depend on what is in the cart, so an applied code is re-quoted
+  // once the cart settles and dropped if it no longer applies
+  useEffect(() => {
+    if (!promotion || isInitializing) return;
+
+    if (!isAuthenticated || items.filter(item => item.isSelected).length === 0) {
+      commitPromotion(null);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      refreshPromotion(promotion.code);
+    }, PROMOTION_REFRESH_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [items, isAuthenticated, isInitializing]);
+
+  // Every change goes through here so the summary never drifts from the items
+  const commitItems = (nextItems: CartItem[]) => {
+    setItems(nextItems);
+    setSummary(calculateCartSummary(nextItems, useCartStore.getState().promotion));
+  };
+
+  const commitPromotion = (nextPromotion: AppliedPromotion | null) => {
+    setPromotion(nextPromotion);
+    setSummary(calculateCartSummary(useCartStore.getState().items, nextPromotion));
+  };
+
+  const quotePromotion = async (code: string): Promise<AppliedPromotion> => {
+    const response = await cartAPI.getCartSummary({ promoCode: code });
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Failed to apply promo code');
+    }
+    if (!response.data.promotion) {
+      throw new Error(response.data.promotionError || 'Promo code is not valid');
+    }
+    return response.data.promotion;
+  };
+
+  const refreshPromotion = async (code: string) => {
+    try {
+      const refreshed = await quotePromotion(code);
+      // The code may have been removed or replaced while the quote was loading
+      if (useCartStore.getState().promotion?.code === code) {
+        commitPromotion(refreshed);
+      }
+    } catch (error: any) {
+      if (useCartStore.getState().promotion?.code === code) {
+        commitPromotion(null);
+        toast.warning(`Promo code ${code} was removed`, getErrorMessage(error));
+      }
+    }
+  };
+
+  // Optimistic changes and server responses interleave, so updates are always
+  // applied to the latest store state rather than a render-time snapshot
+  const updateItems = (updater: (current: CartItem[]) => CartItem[]) => {
+    commitItems(updater(useCartStore.getState().items));
+  };
+
+  const replaceItem = (itemId: string, next: CartItem | null) => {
+    updateItems(current => next
+      ? current.map(item => item.id === itemId ? next : item)
+      : current.filter(item => item.id !== itemId)
+    );
+  };
+
+  // Guests have no server cart, so their changes are checked against current
+  // prices and stock instead
+  const validateGuestLine = async (productId: string, quantity: number, existing?: CartItem) => {
+    const response = await cartAPI.validateGuestCart([{ productId, quantity }]);
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Failed to validate cart');
+    }
+
+    const [line] = response.data.items;
+    const [issue] = response.data.issues;
+    if (!line || issue) {
+      throw new Error(issue ? describeCartIssue(issue) : 'Product is unavailable');
+    }
+
+    return toGuestCartItem(line, existing);
+  };
+
+  // Re-checks prices and stock for the local cart, dropping or trimming lines
+  // that can no longer be bought as they were added
+  const revalidateGuestCart = async () => {
+    const { items: currentItems } = useCartStore.getState();
+    const guestItems = currentItems.filter(isGuestCartItem);
+    // Items from the account's server cart don't outlive its session, however it ended
+    if (guestItems.length === 0) {
+      if (currentItems.length > 0) {
+        commitItems([]);
+      }
+      return;
+    }
+
+    const response = await cartAPI.validateGuestCart(
+      guestItems.map(({ productId, quantity }) => ({ productId, quantity }))
+    );
+
+    if (response.success && response.data) {
+      const { items: validItems, issues } = response.data;
+      commitItems(validItems.map(line =>
+        toGuestCartItem(line, guestItems.find(item => item.productId === line.productId))
+      ));
+
+      if (issues.length > 0) {
+        toast.warning('Your cart was updated', issues.map(describeCartIssue).join('. '));
+      }
+    }
+  };
 
   const loadCart = async () => {
     try {
       setLoading(true);
+
+      if (!isAuthenticated) {
+        await revalidateGuestCart();
+        return;
+      }
+
       const response = await cartAPI.getCart();
-      
+
       if (response.success && response.data) {
-        setItems(response.data);
+        // Orders are placed from the server cart, so guest items that failed
+        // to merge on sign in can't be bought and are dropped
+        const unmerged = useCartStore.getState().items.filter(isGuestCartItem);
+        commitItems(response.data.items.map(item => normalizeCartItem(item)));
+        if (unmerged.length > 0) {
+          toast.warning(
+            'Some items could not be moved to your account',
+            `${unmerged.map(item => item.product.name).join(', ')} ${unmerged.length === 1 ? 'was' : 'were'} removed from your cart.`
+          );
+        }
       }
     } catch (error) {
       console.error('Failed to load cart:', error);
@@ -66,136 +272,285 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     }
   };
 
-  const loadCartSummary = async () => {
-    try {
-      const response = await cartAPI.getCartSummary();
-      
-      if (response.success && response.data) {
-        setSummary(response.data);
-      }
-    } catch (error) {
-      console.error('Failed to load cart summary:', error);
-    }
-  };
+  const addToCart = async (product: Product, quantity: number, notes?: string) => {
+    const existing = useCartStore.getState().items.find(item => item.productId === product.id);
+    const now = new Date().toISOString();
+    const optimisticItem: CartItem = existing
+      ? { ...existing, quantity: existing.quantity + quantity, notes: notes || existing.notes }
+      : {
+          id: `${isAuthenticated ? PENDING_ITEM_PREFIX : GUEST_ITEM_PREFIX}${product.id}`,
+          userId: '',
+          productId: product.id,
+          product,
+          quantity,
+          price: Number(product.price),
+          notes,
+          isSelected: true,
+          createdAt: now,
+          updatedAt: now,
+        };
+
+    updateItems(current => existing
+      ? current.map(item => item.id === existing.id ? optimisticItem : item)
+      : [...current, optimisticItem]
+    );
 
-  const addToCart = async (productId: string, quantity: number, notes?: string) => {
     try {
-      setLoading(true);
-      const response = await cartAPI.addToCart({ productId, quantity, notes });
-      
-      if (response.success && response.data) {
-        // Update local store
-        addItemToStore(response.data);
-        // Reload cart to get updated data
-        await loadCart();
-        await loadCartSummary();
-        toast.success('Item added to cart!');
+      let confirmedItem: CartItem;
+
+      if (isAuthenticated) {
+        const response = await cartAPI.addToCart({ productId: product.id, quantity, notes });
+        if (!response.success || !response.data) {
+          throw new Error(response.message || 'Failed to add item to cart');
+        }
+        confirmedItem = normalizeCartItem(response.data.cartItem, optimisticItem);
       } else {
-        throw new Error(response.message || 'Failed to add item to cart');
+        confirmedItem = await validateGuestLine(product.id, optimisticItem.quantity, optimisticItem);
       }
+
+      replaceItem(optimisticItem.id, confirmedItem);
+      toast.success('Item added to cart!');
     } catch (error: any) {
-      toast.error('Failed to add item to cart', error.message);
+      replaceItem(optimisticItem.id, existing ?? null);
+      toast.error('Failed to add item to cart', getErrorMessage(error));
       throw error;
-    } finally {
-      setLoading(false);
     }
   };
 
-  const updateCartItem = async (itemId: string, quantity: number, notes?: string) => {
+  const sendQuantityUpdate = async (item: CartItem, quantity: number, notes?: string) => {
+    if (isGuestCartItem(item)) {
+      return validateGuestLine(item.productId, quantity, { ...item, notes: notes ?? item.notes });
+    }
+
+    const response = await cartAPI.updateCartItem(item.id, { quantity, notes });
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Failed to update cart item');
+    }
+    return normalizeCartItem(response.data.cartItem, item);
+  };
+
+  const flushQuantityUpdate = async (itemId: string) => {
+    const pending = pendingQuantities.current.get(itemId);
+    if (!pending) return;
+
+    pending.timer = undefined;
+    // Requests for the same item are kept in order; try again once this one settles
+    if (pending.inFlight) {
+      pending.timer = setTimeout(() => flushQuantityUpdate(itemId), QUANTITY_UPDATE_DELAY);
+      return;
+    }
+
+    const { quantity, notes } = pending;
+    const waiters = pending.waiters.splice(0);
+    pending.inFlight = true;
+
     try {
-      setLoading(true);
-      const response = await cartAPI.updateCartItem(itemId, { quantity, notes });
-      
-      if (response.success && response.data) {
-        // Update local store
-        updateItemInStore(itemId, { quantity, notes });
-        // Reload cart to get updated data
-        await loadCart();
-        await loadCartSummary();
-        toast.success('Cart updated!');
-      } else {
-        throw new Error(response.message || 'Failed to update cart item');
+      pending.confirmed = await sendQuantityUpdate(pending.confirmed, quantity, notes);
+      pending.inFlight = false;
+
+      // A newer change is already queued; leave its optimistic value on screen
+      if (!pending.timer) {
+        pendingQuantities.current.delete(itemId);
+        replaceItem(itemId, pending.confirmed);
       }
     } catch (error: any) {
-      toast.error('Failed to update cart item', error.message);
-      throw error;
+      // Later changes would most likely be rejected for the same reason
+      if (pending.timer) {
+        clearTimeout(pending.timer);
+      }
+      waiters.push(...pending.waiters);
+      pendingQuantities.current.delete(itemId);
+      replaceItem(itemId, pending.confirmed);
+      toast.error('Failed to update cart item', getErrorMessage(error));
     } finally {
-      setLoading(false);
+      waiters.forEach(resolve => resolve());
+    }
+  };
+
+  const cancelQuantityUpdate = (itemId: string) => {
+    const pending = pendingQuantities.current.get(itemId);
+    if (!pending) return;
+
+    if (pending.timer) {
+      clearTimeout(pending.timer);
+    }
+    pendingQuantities.current.delete(itemId);
+    pending.waiters.forEach(resolve => resolve());
+  };
+
+  // Resolves once the coalesced request for this item has settled. Rejected
+  // changes are rolled back and reported with a toast rather than thrown.
+  const updateCartItem = (itemId: string, quantity: number, notes?: string) => {
+    const item = useCartStore.getState().items.find(i => i.id === itemId);
+    if (!item) {
+      return Promise.resolve();
+    }
+
+    let pending = pendingQuantities.current.get(itemId);
+    if (!pending) {
+      pending = { inFlight: false, quantity, confirmed: item, waiters: [] };
+      pendingQuantities.current.set(itemId, pending);
+    }
+
+    pending.quantity = quantity;
+    if (notes !== undefined) {
+      pending.notes = notes;
     }
+    replaceItem(itemId, { ...item, quantity, notes: notes ?? item.notes });
+
+    if (pending.timer) {
+      clearTimeout(pending.timer);
+    }
+    pending.timer = setTimeout(() => flushQuantityUpdate(itemId), QUANTITY_UPDATE_DELAY);
+
+    const entry = pending;
+    return new Promise<void>(resolve => {
+      entry.waiters.push(resolve);
+    });
   };
 
   const removeFromCart = async (itemId: string) => {
+    const currentItems = useCartStore.getState().items;
+    const index = currentItems.findIndex(item => item.id === itemId);
+    if (index === -1) return;
+
+    const removedItem = currentItems[index];
+    cancelQuantityUpdate(itemId);
+    replaceItem(itemId, null);
+
+    if (isGuestCartItem(removedItem)) {
+      toast.success('Item removed from cart!');
+      return;
+    }
+
     try {
-      setLoading(true);
       const response = await cartAPI.removeCartItem(itemId);
-      
-      if (response.success) {
-        // Update local store
-        removeItemFromStore(itemId);
-        // Reload cart to get updated data
-        await loadCart();
-        await loadCartSummary();
-        toast.success('Item removed from cart!');
-      } else {
+
+      if (!response.success) {
         throw new Error(response.message || 'Failed to remove item from cart');
       }
+      toast.success('Item removed from cart!');
     } catch (error: any) {
-      toast.error('Failed to remove item from cart', error.message);
+      updateItems(current => {
+        const restored = [...current];
+        restored.splice(Math.min(index, restored.length), 0, removedItem);
+        return restored;
+      });
+      toast.error('Failed to remove item from cart', getErrorMessage(error));
+      throw error;
+    }
+  };
+
+  // Saves the item for later; the server removes it from the cart in the same request
+  const moveToWishlist = async (itemId: string) => {
+    const currentItems = useCartStore.getState().items;
+    const index = currentItems.findIndex(item => item.id === itemId);
+    if (index === -1 || isGuestCartItem(currentItems[index])) {
+      throw new Error('Sign in to save items for later');
+    }
+
+    const movedItem = currentItems[index];
+    cancelQuantityUpdate(itemId);
+    replaceItem(itemId, null);
+
+    try {
+      const response = await wishlistAPI.moveFromCart(itemId);
+
+      if (!response.success || !response.data) {
+        throw new Error(response.message || 'Failed to move item to wishlist');
+      }
+      toast.success('Item moved to wishlist!');
+      return response.data.wishlistItem;
+    } catch (error: any) {
+      updateItems(current => {
+        const restored = [...current];
+        restored.splice(Math.min(index, restored.length), 0, movedItem);
+        return restored;
+      });
+      toast.error('Failed to move item to wishlist', getErrorMessage(error));
       throw error;
-    } finally {
-      setLoading(false);
     }
   };
 
   const clearCart = async () => {
+    const previousItems = useCartStore.getState().items;
+    previousItems.forEach(item => cancelQuantityUpdate(item.id));
+    commitItems([]);
+
+    if (!isAuthenticated) {
+      toast.success('Cart cleared!');
+      return;
+    }
+
     try {
-      setLoading(true);
       const response = await cartAPI.clearCart();
-      
-      if (response.success) {
-        // Update local store
-        clearCartStore();
-        toast.success('Cart cleared!');
-      } else {
+
+      if (!response.success) {
         throw new Error(response.message || 'Failed to clear cart');
       }
+      toast.success('Cart cleared!');
     } catch (error: any) {
-      toast.error('Failed to clear cart', error.message);
+      commitItems(previousItems);
+      toast.error('Failed to clear cart', getErrorMessage(error));
       throw error;
-    } finally {
-      setLoading(false);
     }
   };
 
   const updateItemSelection = async (itemId: string, isSelected: boolean) => {
+    const setSelected = (selected: boolean) => {
+      updateItems(current => current.map(item =>
+        item.id === itemId ? { ...item, isSelected: selected } : item
+      ));
+    };
+
+    const item = useCartStore.getState().items.find(i => i.id === itemId);
+    if (!item) return;
+
+    setSelected(isSelected);
+    if (isGuestCartItem(item)) return;
+
     try {
       const response = await cartAPI.updateItemSelection(itemId, isSelected);
-      
-      if (response.success && response.data) {
-        // Update local store
-        updateItemSelectionInStore(itemId, isSelected);
-        // Reload cart summary to get updated totals
-        await loadCartSummary();
-      } else {
+
+      if (!response.success) {
         throw new Error(response.message || 'Failed to update item selection');
       }
     } catch (error: any) {
-      toast.error('Failed to update item selection', error.message);
+      setSelected(!isSelected);
+      toast.error('Failed to update item selection', getErrorMessage(error));
       throw error;
     }
   };
 
+  // Throws with the reason when the code cannot be used on the current cart
+  const applyPromoCode = async (code: string) => {
+    if (!isAuthenticated) {
+      throw new Error('Sign in to use promo codes');
+    }
+
+    const applied = await quotePromotion(code.trim());
+    commitPromotion(applied);
+    toast.success(`Promo code ${applied.code} applied`);
+  };
+
+  const removePromoCode = () => {
+    commitPromotion(null);
+  };
+
   const value: CartContextType = {
     items,
     summary,
+    promotion,
     isLoading,
     addToCart,
     updateCartItem,
     removeFromCart,
+    moveToWishlist,
     clearCart,
     updateItemSelection,
     loadCart,
-    loadCartSummary,
+    applyPromoCode,
+    removePromoCode,
   };
 
   return (
@@ -203,4 +558,4 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
       {children}
     </CartContext.Provider>
   );
-}; 
\ No newline at end of file
+};
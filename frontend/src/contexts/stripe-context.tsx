@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
-import { loadStripe, Stripe } from '@stripe/stripe-js';
+import { loadStripe, Stripe, StripeElementsOptionsMode } from '@stripe/stripe-js';
 import { Elements } from '@stripe/react-stripe-js';
 
 interface StripeContextType {
@@ -8,6 +8,17 @@ interface StripeContextType {
   error: string | null;
 }
 
+// Elements is created in deferred-intent mode so the PaymentElement can render
+// before an order exists; checkout updates the amount once the total is known.
+const elementsOptions: StripeElementsOptionsMode = {
+  mode: 'payment',
+  amount: 50,
+  currency: 'usd',
+  appearance: {
+    theme: 'stripe',
+  },
+};
+
 const StripeContext = createContext<StripeContextType | undefined>(undefined);
 
 export const useStripe = () => {
@@ -98,7 +109,7 @@ export const StripeProvider: React.FC<StripeProviderProps> = ({ children }) => {
 
   return (
     <StripeContext.Provider value={value}>
-      <Elements stripe={stripe}>
+      <Elements stripe={stripe} options={elementsOptions}>
         {children}
       </Elements>
     </StripeContext.Provider>
@@ -0,0 +1,155 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { wishlistAPI } from '@/lib/api';
+import { CartItem, WishlistItem } from '@/types';
+import { useAuthStore } from '@/store';
+import { toast } from '@/store';
+import { useCart } from '@/contexts/cart-context';
+import { getErrorMessage } from '@/lib/utils';
+
+interface WishlistContextType {
+  items: WishlistItem[];
+  isLoading: boolean;
+  isInWishlist: (productId: string) => boolean;
+  addToWishlist: (productId: string) => Promise<void>;
+  removeFromWishlist: (productId: string) => Promise<void>;
+  toggleWishlist: (productId: string) => Promise<void>;
+  moveFromCart: (item: CartItem) => Promise<void>;
+  moveToCart: (item: WishlistItem) => Promise<void>;
+  loadWishlist: () => Promise<void>;
+}
+
+const WishlistContext = createContext<WishlistContextType | undefined>(undefined);
+
+export const useWishlist = () => {
+  const context = useContext(WishlistContext);
+  if (context === undefined) {
+    throw new Error('useWishlist must be used within a WishlistProvider');
+  }
+  return context;
+};
+
+interface WishlistProviderProps {
+  children: React.ReactNode;
+}
+
+export const WishlistProvider: React.FC<WishlistProviderProps> = ({ children }) => {
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+  const { addToCart, moveToWishlist } = useCart();
+  const [items, setItems] = useState<WishlistItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // The wishlist only exists on the server, so it follows the signed in user
+  useEffect(() => {
+    if (isAuthenticated) {
+      loadWishlist();
+    } else {
+      setItems([]);
+    }
+  }, [isAuthenticated]);
+
+  const upsertItem = (wishlistItem: WishlistItem) => {
+    setItems(current => [
+      wishlistItem,
+      ...current.filter(item => item.productId !== wishlistItem.productId),
+    ]);
+  };
+
+  const loadWishlist = async () => {
+    try {
+      setIsLoading(true);
+      const response = await wishlistAPI.getWishlist();
+
+      if (response.success && response.data) {
+        setItems(response.data.items);
+      }
+    } catch (error) {
+      console.error('Failed to load wishlist:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const isInWishlist = (productId: string) => items.some(item => item.productId === productId);
+
+  const addToWishlist = async (productId: string) => {
+    try {
+      const response = await wishlistAPI.addToWishlist(productId);
+
+      if (!response.success || !response.data) {
+        throw new Error(response.message || 'Failed to save item');
+      }
+      upsertItem(response.data.wishlistItem);
+      toast.success('Saved to wishlist!');
+    } catch (error: any) {
+      toast.error('Failed to save item', getErrorMessage(error));
+      throw error;
+    }
+  };
+
+  const deleteItem = async (productId: string) => {
+    const previousItems = items;
+    setItems(current => current.filter(item => item.productId !== productId));
+
+    try {
+      const response = await wishlistAPI.removeFromWishlist(productId);
+
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to remove item from wishlist');
+      }
+    } catch (error) {
+      setItems(previousItems);
+      throw error;
+    }
+  };
+
+  const removeFromWishlist = async (productId: string) => {
+    try {
+      await deleteItem(productId);
+      toast.success('Removed from wishlist');
+    } catch (error: any) {
+      toast.error('Failed to remove item from wishlist', getErrorMessage(error));
+      throw error;
+    }
+  };
+
+  const toggleWishlist = (productId: string) => {
+    return isInWishlist(productId)
+      ? removeFromWishlist(productId)
+      : addToWishlist(productId);
+  };
+
+  // The cart handles the optimistic removal and its rollback
+  const moveFromCart = async (item: CartItem) => {
+    const wishlistItem = await moveToWishlist(item.id);
+    upsertItem(wishlistItem);
+  };
+
+  // Adding to the cart reports its own outcome, so the item leaves the
+  // wishlist quietly once it is in the cart
+  const moveToCart = async (item: WishlistItem) => {
+    await addToCart(item.product, 1);
+    try {
+      await deleteItem(item.productId);
+    } catch (error) {
+      console.error('Failed to remove moved item from wishlist:', error);
+    }
+  };
+
+  const value: WishlistContextType = {
+    items,
+    isLoading,
+    isInWishlist,
+    addToWishlist,
+    removeFromWishlist,
+    toggleWishlist,
+    moveFromCart,
+    moveToCart,
+    loadWishlist,
+  };
+
+  return (
+    <WishlistContext.Provider value={value}>
+      {children}
+    </WishlistContext.Provider>
+  );
+};
@@ -0,0 +1,30 @@
+import { useUIStore } from '@/store';
+import { convertPrice, formatPrice } from '@/lib/utils';
+
+/**
+ * Catalog prices are in the store's base currency. This converts and formats
+ * them in the currency the shopper picked. Amounts the server has already
+ * quoted in a currency, like order totals, go straight to formatPrice instead.
+ */
+export function useCurrency() {
+  const code = useUIStore(state => state.currency);
+  const currencies = useUIStore(state => state.currencies);
+  const setCurrency = useUIStore(state => state.setCurrency);
+
+  const currency = currencies.find(option => option.code === code)
+    || currencies.find(option => option.isBase)
+    || null;
+
+  const convert = (price: number) => currency ? convertPrice(price, currency) : price;
+
+  return {
+    currency,
+    currencyCode: currency?.code ?? code,
+    currencies,
+    setCurrency,
+    convertPrice: convert,
+    // Lines are converted per unit, as orders are, so totals match to the cent
+    formatPrice: (price: number, quantity: number = 1) =>
+      formatPrice(convert(price) * quantity, currency?.code ?? code),
+  };
+}
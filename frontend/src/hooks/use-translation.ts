@@ -0,0 +1,21 @@
+import { useUIStore } from '@/store';
+import { LOCALES, MessageKey, MessageParams, getDirection, isMessageKey, translate } from '@/lib/i18n';
+
+/**
+ * Messages in the shopper's language. Validation schemas carry message keys,
+ * so form errors go through translateError, which passes other text through.
+ */
+export function useTranslation() {
+  const locale = useUIStore(state => state.locale);
+  const setLocale = useUIStore(state => state.setLocale);
+
+  return {
+    locale,
+    locales: LOCALES,
+    setLocale,
+    dir: getDirection(locale),
+    t: (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+    translateError: (message?: string) =>
+      message && isMessageKey(message) ? translate(locale, message) : message,
+  };
+}
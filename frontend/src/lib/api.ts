@@ -1,15 +1,27 @@
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import axios, { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
 import { 
   ApiResponse, 
   User, 
   Product, 
   Category, 
   CartItem, 
-  CartSummary, 
+  CartQuote, 
   Order, 
+  OrderStatus,
+  OrderStatusTransitions,
+  AdminOrderDetail,
+  AdminOrderFilters,
+  AdminOrderSortField,
+  AdminOrderStats,
+  BulkStatusResult,
+  Shipment,
   Review, 
   ProductFilters,
   LoginForm,
+  LoginResult,
+  AuthSuccess,
+  TwoFactorSetup,
+  UserSession,
   RegisterForm,
   ProductForm,
   CategoryForm,
@@ -19,8 +31,39 @@ import {
   SalesAnalytics,
   InventoryAnalytics,
   UserAnalytics,
-  PaginatedResponse
+  PaginatedResponse,
+  ShippingMethod,
+  ShippingRate,
+  ShippingRateForm,
+  ShippingZone,
+  ShippingZoneForm,
+  TaxRate,
+  TaxRateForm,
+  TaxReport,
+  Currency,
+  AdminCurrency,
+  CurrencyForm,
+  GuestCartLine,
+  GuestCartValidation,
+  CartMergeResult,
+  Promotion,
+  PromotionForm,
+  WishlistItem,
+  ProductAlert,
+  ProductAlertType,
+  DigitalKey,
+  DigitalKeyCounts,
+  OrderDocumentType,
+  ReturnRequest,
+  ReturnReason,
+  Refund,
+  RefundSummary,
+  Address,
+  SavedAddress,
+  AddressForm
 } from '@/types';
+import { useAuthStore, useUIStore } from '@/store';
+import type { Locale } from '@/lib/i18n';
 
 // Create axios instance
 const api: AxiosInstance = axios.create({
@@ -31,13 +74,40 @@ const api: AxiosInstance = axios.create({
   },
 });
 
-// Request interceptor to add auth token
+interface RetryableRequest extends InternalAxiosRequestConfig {
+  _retry?: boolean;
+  _csrfRetry?: boolean;
+}
+
+const SAFE_METHODS = ['get', 'head', 'options'];
+
+// Requests whose 401 means bad credentials rather than an expired access token
+const NO_REFRESH_URLS = ['/auth/refresh', '/auth/login', '/auth/login/2fa', '/auth/register'];
+
+// Auth tokens live in httpOnly cookies the page can't read. The CSRF token is
+// kept in memory only and echoed back on every state-changing request.
+let csrfToken: string | null = null;
+let csrfPromise: Promise<string> | null = null;
+
+const fetchCsrfToken = (): Promise<string> => {
+  csrfPromise = csrfPromise || api.get<ApiResponse<{ csrfToken: string }>>('/auth/csrf')
+    .then(response => {
+      csrfToken = response.data.data!.csrfToken;
+      return csrfToken;
+    })
+    .finally(() => {
+      csrfPromise = null;
+    });
+  return csrfPromise;
+};
+
+// Request interceptor to add the CSRF token and the shopper's language
 api.interceptors.request.use(
-  (config) => {
-    const token = localStorage.getItem('accessToken');
-    if (token) {
-      config.headers.Authorization = `Bearer ${token}`;
+  async (config) => {
+    if (!SAFE_METHODS.includes((config.method || 'get').toLowerCase())) {
+      config.headers['X-CSRF-Token'] = csrfToken || await fetchCsrfToken();
     }
+    config.headers['Accept-Language'] = useUIStore.getState().locale;
     return config;
   },
   (error) => {
@@ -45,33 +115,54 @@ api.interceptors.request.use(
   }
 );
 
-// Response interceptor to handle token refresh
+// Refresh tokens are single use and the server revokes the whole session when
+// one is presented twice, so requests failing together share one refresh
+let refreshPromise: Promise<void> | null = null;
+
+const refreshSession = (): Promise<void> => {
+  refreshPromise = refreshPromise || api.post('/auth/refresh')
+    .then(() => undefined)
+    .finally(() => {
+      refreshPromise = null;
+    });
+  return refreshPromise;
+};
+
+// Response interceptor to handle token refresh and stale CSRF tokens
 api.interceptors.response.use(
   (response) => response,
-  async (error) => {
-    const originalRequest = error.config;
+  async (error: AxiosError<{ code?: string }>) => {
+    const originalRequest = error.config as RetryableRequest | undefined;
+    if (!originalRequest) {
+      return Promise.reject(error);
+    }
 
-    if (error.response?.status === 401 && !originalRequest._retry) {
+    // The CSRF cookie can expire or be cleared while the page is open
+    if (
+      error.response?.status === 403 &&
+      error.response.data?.code === 'CSRF_INVALID' &&
+      !originalRequest._csrfRetry
+    ) {
+      originalRequest._csrfRetry = true;
+      csrfToken = null;
+      originalRequest.headers['X-CSRF-Token'] = await fetchCsrfToken();
+      return api(originalRequest);
+    }
+
+    if (
+      error.response?.status === 401 &&
+      !originalRequest._retry &&
+      !NO_REFRESH_URLS.includes(originalRequest.url || '')
+    ) {
       originalRequest._retry = true;
 
       try {
-        const refreshToken = localStorage.getItem('refreshToken');
-        if (refreshToken) {
-          const response = await axios.post('/api/auth/refresh', {
-            refreshToken,
-          }, { withCredentials: true });
-
-          const { accessToken } = response.data.data;
-          localStorage.setItem('accessToken', accessToken);
-          
-          originalRequest.headers.Authorization = `Bearer ${accessToken}`;
-          return api(originalRequest);
-        }
+        await refreshSession();
+        return api(originalRequest);
       } catch (refreshError) {
-        // Refresh token failed, redirect to login
-        localStorage.removeItem('accessToken');
-        localStorage.removeItem('refreshToken');
-        window.location.href = '/login';
+        // The session expired or was revoked, possibly from another device.
+        // Protected routes send the user to the login page from here.
+        useAuthStore.getState().clearAuth();
       }
     }
 
@@ -79,17 +170,28 @@ api.interceptors.response.use(
   }
 );
 
+// Fetch a CSRF token up front so the first form submit doesn't wait for one
+export const initCsrfToken = async (): Promise<void> => {
+  await fetchCsrfToken();
+};
+
 // Auth API
 export const authAPI = {
   // Login
-  login: async (data: LoginForm): Promise<ApiResponse<{ user: User; accessToken: string; refreshToken: string }>> => {
-    const response: AxiosResponse<ApiResponse<{ user: User; accessToken: string; refreshToken: string }>> = await api.post('/auth/login', data);
+  login: async (data: LoginForm): Promise<ApiResponse<LoginResult>> => {
+    const response: AxiosResponse<ApiResponse<LoginResult>> = await api.post('/auth/login', data);
+    return response.data;
+  },
+
+  // Second login step for accounts with two-factor authentication
+  verifyTwoFactorLogin: async (challengeToken: string, code: string): Promise<ApiResponse<AuthSuccess>> => {
+    const response: AxiosResponse<ApiResponse<AuthSuccess>> = await api.post('/auth/login/2fa', { challengeToken, code });
     return response.data;
   },
 
   // Register
-  register: async (data: RegisterForm): Promise<ApiResponse<{ user: User; accessToken: string; refreshToken: string }>> => {
-    const response: AxiosResponse<ApiResponse<{ user: User; accessToken: string; refreshToken: string }>> = await api.post('/auth/register', data);
+  register: async (data: RegisterForm): Promise<ApiResponse<AuthSuccess>> => {
+    const response: AxiosResponse<ApiResponse<AuthSuccess>> = await api.post('/auth/register', data);
     return response.data;
   },
 
@@ -100,8 +202,8 @@ export const authAPI = {
   },
 
   // Get current user
-  getCurrentUser: async (): Promise<ApiResponse<User>> => {
-    const response: AxiosResponse<ApiResponse<User>> = await api.get('/auth/me');
+  getCurrentUser: async (): Promise<ApiResponse<{ user: User }>> => {
+    const response: AxiosResponse<ApiResponse<{ user: User }>> = await api.get('/auth/me');
     return response.data;
   },
 
@@ -123,8 +225,8 @@ export const authAPI = {
   },
 
   // Verify email
-  verifyEmail: async (token: string): Promise<ApiResponse> => {
-    const response: AxiosResponse<ApiResponse> = await api.post('/auth/verify-email', { token });
+  verifyEmail: async (token: string): Promise<ApiResponse<{ email: string }>> => {
+    const response: AxiosResponse<ApiResponse<{ email: string }>> = await api.post('/auth/verify-email', { token });
     return response.data;
   },
 
@@ -133,6 +235,66 @@ export const authAPI = {
     const response: AxiosResponse<ApiResponse> = await api.post('/auth/resend-verification');
     return response.data;
   },
+
+  // Change password; other devices are signed out
+  changePassword: async (currentPassword: string, newPassword: string): Promise<ApiResponse> => {
+    const response: AxiosResponse<ApiResponse> = await api.put('/auth/change-password', { currentPassword, newPassword });
+    return response.data;
+  },
+
+  // Start an email change, confirmed from a link sent to the new address
+  changeEmail: async (email: string, password: string): Promise<ApiResponse<{ user: User }>> => {
+    const response: AxiosResponse<ApiResponse<{ user: User }>> = await api.put('/auth/email', { email, password });
+    return response.data;
+  },
+
+  // Cancel a pending email change
+  cancelEmailChange: async (): Promise<ApiResponse<{ user: User }>> => {
+    const response: AxiosResponse<ApiResponse<{ user: User }>> = await api.delete('/auth/email');
+    return response.data;
+  },
+
+  // Devices the user is signed in on
+  getSessions: async (): Promise<ApiResponse<{ sessions: UserSession[] }>> => {
+    const response: AxiosResponse<ApiResponse<{ sessions: UserSession[] }>> = await api.get('/auth/sessions');
+    return response.data;
+  },
+
+  // Sign out one device
+  revokeSession: async (id: string): Promise<ApiResponse<{ isCurrent: boolean }>> => {
+    const response: AxiosResponse<ApiResponse<{ isCurrent: boolean }>> = await api.delete(`/auth/sessions/${id}`);
+    return response.data;
+  },
+
+  // Sign out every device except this one
+  revokeOtherSessions: async (): Promise<ApiResponse<{ revoked: number }>> => {
+    const response: AxiosResponse<ApiResponse<{ revoked: number }>> = await api.delete('/auth/sessions');
+    return response.data;
+  },
+
+  // Start two-factor enrollment
+  setupTwoFactor: async (): Promise<ApiResponse<TwoFactorSetup>> => {
+    const response: AxiosResponse<ApiResponse<TwoFactorSetup>> = await api.post('/auth/2fa/setup');
+    return response.data;
+  },
+
+  // Enable two-factor authentication with a code from the authenticator app
+  enableTwoFactor: async (code: string): Promise<ApiResponse<{ user: User; recoveryCodes: string[] }>> => {
+    const response: AxiosResponse<ApiResponse<{ user: User; recoveryCodes: string[] }>> = await api.post('/auth/2fa/enable', { code });
+    return response.data;
+  },
+
+  // Disable two-factor authentication
+  disableTwoFactor: async (password: string, code: string): Promise<ApiResponse<{ user: User }>> => {
+    const response: AxiosResponse<ApiResponse<{ user: User }>> = await api.post('/auth/2fa/disable', { password, code });
+    return response.data;
+  },
+
+  // Replace the recovery codes
+  regenerateRecoveryCodes: async (code: string): Promise<ApiResponse<{ user: User; recoveryCodes: string[] }>> => {
+    const response: AxiosResponse<ApiResponse<{ user: User; recoveryCodes: string[] }>> = await api.post('/auth/2fa/recovery-codes', { code });
+    return response.data;
+  },
 };
 
 // Users API
@@ -191,6 +353,12 @@ export const usersAPI = {
     return response.data;
   },
 
+  // Admin: Sign a user out of every device
+  forceLogout: async (id: string): Promise<ApiResponse<{ revoked: number }>> => {
+    const response: AxiosResponse<ApiResponse<{ revoked: number }>> = await api.post(`/users/admin/${id}/logout`);
+    return response.data;
+  },
+
   // Admin: Get user stats overview
   getStatsOverview: async (): Promise<ApiResponse<any>> => {
     const response: AxiosResponse<ApiResponse<any>> = await api.get('/users/stats/overview');
@@ -206,9 +374,9 @@ export const productsAPI = {
     return response.data;
   },
 
-  // Get product by ID
-  getProductById: async (id: string): Promise<ApiResponse<Product>> => {
-    const response: AxiosResponse<ApiResponse<Product>> = await api.get(`/products/${id}`);
+  // Get product by ID, optionally in a specific locale rather than the shopper's
+  getProductById: async (id: string, locale?: Locale): Promise<ApiResponse<Product>> => {
+    const response: AxiosResponse<ApiResponse<Product>> = await api.get(`/products/${id}`, { params: { locale } });
     return response.data;
   },
 
@@ -242,6 +410,18 @@ export const productsAPI = {
     return response.data;
   },
 
+  // Admin: Get digital key inventory counts
+  getProductKeys: async (id: string): Promise<ApiResponse<{ counts: DigitalKeyCounts }>> => {
+    const response: AxiosResponse<ApiResponse<{ counts: DigitalKeyCounts }>> = await api.get(`/products/${id}/keys`);
+    return response.data;
+  },
+
+  // Admin: Bulk import digital keys
+  importProductKeys: async (id: string, keys: string[]): Promise<ApiResponse<{ imported: number; duplicates: number; counts: DigitalKeyCounts }>> => {
+    const response: AxiosResponse<ApiResponse<{ imported: number; duplicates: number; counts: DigitalKeyCounts }>> = await api.post(`/products/${id}/keys`, { keys });
+    return response.data;
+  },
+
   // Get related products
   getRelatedProducts: async (id: string): Promise<ApiResponse<Product[]>> => {
     const response: AxiosResponse<ApiResponse<Product[]>> = await api.get(`/products/${id}/related`);
@@ -333,20 +513,20 @@ export const categoriesAPI = {
 // Cart API
 export const cartAPI = {
   // Get cart
-  getCart: async (): Promise<ApiResponse<CartItem[]>> => {
-    const response: AxiosResponse<ApiResponse<CartItem[]>> = await api.get('/cart');
+  getCart: async (): Promise<ApiResponse<{ items: CartItem[] }>> => {
+    const response: AxiosResponse<ApiResponse<{ items: CartItem[] }>> = await api.get('/cart');
     return response.data;
   },
 
   // Add item to cart
-  addToCart: async (data: { productId: string; quantity: number; notes?: string }): Promise<ApiResponse<CartItem>> => {
-    const response: AxiosResponse<ApiResponse<CartItem>> = await api.post('/cart/add', data);
+  addToCart: async (data: { productId: string; quantity: number; notes?: string }): Promise<ApiResponse<{ cartItem: CartItem }>> => {
+    const response: AxiosResponse<ApiResponse<{ cartItem: CartItem }>> = await api.post('/cart/add', data);
     return response.data;
   },
 
   // Update cart item
-  updateCartItem: async (itemId: string, data: { quantity: number; notes?: string }): Promise<ApiResponse<CartItem>> => {
-    const response: AxiosResponse<ApiResponse<CartItem>> = await api.put(`/cart/${itemId}`, data);
+  updateCartItem: async (itemId: string, data: { quantity: number; notes?: string }): Promise<ApiResponse<{ cartItem: CartItem }>> => {
+    const response: AxiosResponse<ApiResponse<{ cartItem: CartItem }>> = await api.put(`/cart/${itemId}`, data);
     return response.data;
   },
 
@@ -363,14 +543,266 @@ export const cartAPI = {
   },
 
   // Update item selection
-  updateItemSelection: async (itemId: string, isSelected: boolean): Promise<ApiResponse<CartItem>> => {
-    const response: AxiosResponse<ApiResponse<CartItem>> = await api.put('/cart/select', { itemId, isSelected });
+  updateItemSelection: async (itemId: string, isSelected: boolean): Promise<ApiResponse<{ cartItem: CartItem }>> => {
+    const response: AxiosResponse<ApiResponse<{ cartItem: CartItem }>> = await api.patch(`/cart/${itemId}/select`, { isSelected });
     return response.data;
   },
 
   // Get cart summary
-  getCartSummary: async (): Promise<ApiResponse<CartSummary>> => {
-    const response: AxiosResponse<ApiResponse<CartSummary>> = await api.get('/cart/summary');
+  getCartSummary: async (params?: { promoCode?: string; shippingMethod?: string; country?: string; state?: string; zipCode?: string; currency?: string }): Promise<ApiResponse<CartQuote>> => {
+    const response: AxiosResponse<ApiResponse<CartQuote>> = await api.get('/cart/summary', { params });
+    return response.data;
+  },
+
+  // Revalidate a guest cart against current prices and stock
+  validateGuestCart: async (items: GuestCartLine[]): Promise<ApiResponse<GuestCartValidation>> => {
+    const response: AxiosResponse<ApiResponse<GuestCartValidation>> = await api.post('/cart/validate', { items });
+    return response.data;
+  },
+
+  // Merge a guest cart into the signed-in user's cart
+  mergeCart: async (guestCartItems: GuestCartLine[]): Promise<ApiResponse<CartMergeResult>> => {
+    const response: AxiosResponse<ApiResponse<CartMergeResult>> = await api.post('/cart/merge', { guestCartItems });
+    return response.data;
+  },
+};
+
+// Wishlist API
+export const wishlistAPI = {
+  // Get wishlist
+  getWishlist: async (): Promise<ApiResponse<{ items: WishlistItem[] }>> => {
+    const response: AxiosResponse<ApiResponse<{ items: WishlistItem[] }>> = await api.get('/wishlist');
+    return response.data;
+  },
+
+  // Save product to wishlist
+  addToWishlist: async (productId: string): Promise<ApiResponse<{ wishlistItem: WishlistItem }>> => {
+    const response: AxiosResponse<ApiResponse<{ wishlistItem: WishlistItem }>> = await api.post('/wishlist', { productId });
+    return response.data;
+  },
+
+  // Move cart item to wishlist
+  moveFromCart: async (cartItemId: string): Promise<ApiResponse<{ wishlistItem: WishlistItem }>> => {
+    const response: AxiosResponse<ApiResponse<{ wishlistItem: WishlistItem }>> = await api.post(`/wishlist/from-cart/${cartItemId}`);
+    return response.data;
+  },
+
+  // Remove product from wishlist
+  removeFromWishlist: async (productId: string): Promise<ApiResponse> => {
+    const response: AxiosResponse<ApiResponse> = await api.delete(`/wishlist/${productId}`);
+    return response.data;
+  },
+};
+
+// Addresses API
+export const addressesAPI = {
+  // Get the address book, default first
+  getAddresses: async (): Promise<ApiResponse<{ addresses: SavedAddress[] }>> => {
+    const response: AxiosResponse<ApiResponse<{ addresses: SavedAddress[] }>> = await api.get('/addresses');
+    return response.data;
+  },
+
+  // Check an address and get it back with its postal code normalized
+  validateAddress: async (data: Address): Promise<ApiResponse<{ address: Address }>> => {
+    const response: AxiosResponse<ApiResponse<{ address: Address }>> = await api.post('/addresses/validate', data);
+    return response.data;
+  },
+
+  // Add address
+  createAddress: async (data: AddressForm): Promise<ApiResponse<{ address: SavedAddress }>> => {
+    const response: AxiosResponse<ApiResponse<{ address: SavedAddress }>> = await api.post('/addresses', data);
+    return response.data;
+  },
+
+  // Update address
+  updateAddress: async (id: string, data: AddressForm): Promise<ApiResponse<{ address: SavedAddress }>> => {
+    const response: AxiosResponse<ApiResponse<{ address: SavedAddress }>> = await api.put(`/addresses/${id}`, data);
+    return response.data;
+  },
+
+  // Make address the default
+  setDefaultAddress: async (id: string): Promise<ApiResponse<{ address: SavedAddress }>> => {
+    const response: AxiosResponse<ApiResponse<{ address: SavedAddress }>> = await api.patch(`/addresses/${id}/default`);
+    return response.data;
+  },
+
+  // Delete address
+  deleteAddress: async (id: string): Promise<ApiResponse> => {
+    const response: AxiosResponse<ApiResponse> = await api.delete(`/addresses/${id}`);
+    return response.data;
+  },
+};
+
+// Product Alerts API
+export const alertsAPI = {
+  // Get alerts, optionally for a single product
+  getAlerts: async (params?: { productId?: string }): Promise<ApiResponse<{ alerts: ProductAlert[] }>> => {
+    const response: AxiosResponse<ApiResponse<{ alerts: ProductAlert[] }>> = await api.get('/alerts', { params });
+    return response.data;
+  },
+
+  // Subscribe to an alert
+  createAlert: async (data: { productId: string; type: ProductAlertType; targetPrice?: number | null }): Promise<ApiResponse<{ alert: ProductAlert }>> => {
+    const response: AxiosResponse<ApiResponse<{ alert: ProductAlert }>> = await api.post('/alerts', data);
+    return response.data;
+  },
+
+  // Remove alert
+  deleteAlert: async (id: string): Promise<ApiResponse> => {
+    const response: AxiosResponse<ApiResponse> = await api.delete(`/alerts/${id}`);
+    return response.data;
+  },
+};
+
+// Promotions API (admin)
+export const promotionsAPI = {
+  // Get promotions
+  getPromotions: async (params?: { page?: number; limit?: number; search?: string; status?: string }): Promise<ApiResponse<{ promotions: Promotion[]; pagination: PaginatedResponse<Promotion>['pagination'] }>> => {
+    const response: AxiosResponse<ApiResponse<{ promotions: Promotion[]; pagination: PaginatedResponse<Promotion>['pagination'] }>> = await api.get('/promotions', { params });
+    return response.data;
+  },
+
+  // Get promotion by ID
+  getPromotionById: async (id: string): Promise<ApiResponse<{ promotion: Promotion; totalDiscount: number }>> => {
+    const response: AxiosResponse<ApiResponse<{ promotion: Promotion; totalDiscount: number }>> = await api.get(`/promotions/${id}`);
+    return response.data;
+  },
+
+  // Create promotion
+  createPromotion: async (data: PromotionForm): Promise<ApiResponse<{ promotion: Promotion }>> => {
+    const response: AxiosResponse<ApiResponse<{ promotion: Promotion }>> = await api.post('/promotions', data);
+    return response.data;
+  },
+
+  // Update promotion
+  updatePromotion: async (id: string, data: PromotionForm): Promise<ApiResponse<{ promotion: Promotion }>> => {
+    const response: AxiosResponse<ApiResponse<{ promotion: Promotion }>> = await api.put(`/promotions/${id}`, data);
+    return response.data;
+  },
+
+  // Delete promotion
+  deletePromotion: async (id: string): Promise<ApiResponse> => {
+    const response: AxiosResponse<ApiResponse> = await api.delete(`/promotions/${id}`);
+    return response.data;
+  },
+};
+
+// Shipping API
+export const shippingAPI = {
+  // Get shipping zones with their rates
+  getZones: async (): Promise<ApiResponse<{ zones: ShippingZone[] }>> => {
+    const response: AxiosResponse<ApiResponse<{ zones: ShippingZone[] }>> = await api.get('/shipping/zones');
+    return response.data;
+  },
+
+  // Create shipping zone
+  createZone: async (data: ShippingZoneForm): Promise<ApiResponse<{ zone: ShippingZone }>> => {
+    const response: AxiosResponse<ApiResponse<{ zone: ShippingZone }>> = await api.post('/shipping/zones', data);
+    return response.data;
+  },
+
+  // Update shipping zone
+  updateZone: async (id: string, data: ShippingZoneForm): Promise<ApiResponse<{ zone: ShippingZone }>> => {
+    const response: AxiosResponse<ApiResponse<{ zone: ShippingZone }>> = await api.put(`/shipping/zones/${id}`, data);
+    return response.data;
+  },
+
+  // Delete shipping zone and its rates
+  deleteZone: async (id: string): Promise<ApiResponse> => {
+    const response: AxiosResponse<ApiResponse> = await api.delete(`/shipping/zones/${id}`);
+    return response.data;
+  },
+
+  // Add a rate to a shipping zone
+  createRate: async (zoneId: string, data: ShippingRateForm): Promise<ApiResponse<{ rate: ShippingRate }>> => {
+    const response: AxiosResponse<ApiResponse<{ rate: ShippingRate }>> = await api.post(`/shipping/zones/${zoneId}/rates`, data);
+    return response.data;
+  },
+
+  // Update shipping rate
+  updateRate: async (id: string, data: ShippingRateForm): Promise<ApiResponse<{ rate: ShippingRate }>> => {
+    const response: AxiosResponse<ApiResponse<{ rate: ShippingRate }>> = await api.put(`/shipping/rates/${id}`, data);
+    return response.data;
+  },
+
+  // Delete shipping rate
+  deleteRate: async (id: string): Promise<ApiResponse> => {
+    const response: AxiosResponse<ApiResponse> = await api.delete(`/shipping/rates/${id}`);
+    return response.data;
+  },
+};
+
+// Tax API
+export const taxAPI = {
+  // Get tax rates and whether prices include tax
+  getRates: async (): Promise<ApiResponse<{ taxRates: TaxRate[]; pricesIncludeTax: boolean }>> => {
+    const response: AxiosResponse<ApiResponse<{ taxRates: TaxRate[]; pricesIncludeTax: boolean }>> = await api.get('/tax/rates');
+    return response.data;
+  },
+
+  // Create tax rate
+  createRate: async (data: TaxRateForm): Promise<ApiResponse<{ taxRate: TaxRate }>> => {
+    const response: AxiosResponse<ApiResponse<{ taxRate: TaxRate }>> = await api.post('/tax/rates', data);
+    return response.data;
+  },
+
+  // Update tax rate
+  updateRate: async (id: string, data: TaxRateForm): Promise<ApiResponse<{ taxRate: TaxRate }>> => {
+    const response: AxiosResponse<ApiResponse<{ taxRate: TaxRate }>> = await api.put(`/tax/rates/${id}`, data);
+    return response.data;
+  },
+
+  // Delete tax rate
+  deleteRate: async (id: string): Promise<ApiResponse> => {
+    const response: AxiosResponse<ApiResponse> = await api.delete(`/tax/rates/${id}`);
+    return response.data;
+  },
+
+  // Get tax collected per rate for a date range
+  getReport: async (params?: { dateFrom?: string; dateTo?: string }): Promise<ApiResponse<TaxReport>> => {
+    const response: AxiosResponse<ApiResponse<TaxReport>> = await api.get('/tax/report', { params });
+    return response.data;
+  },
+
+  // Download the tax charged on each order line as CSV
+  exportReport: async (params?: { dateFrom?: string; dateTo?: string }): Promise<Blob> => {
+    const response: AxiosResponse<Blob> = await api.get('/tax/report/export', {
+      params,
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+};
+
+// Currencies API
+export const currenciesAPI = {
+  // Get the currencies shoppers can pay in
+  getCurrencies: async (): Promise<ApiResponse<{ baseCurrency: string; currencies: Currency[] }>> => {
+    const response: AxiosResponse<ApiResponse<{ baseCurrency: string; currencies: Currency[] }>> = await api.get('/currencies');
+    return response.data;
+  },
+
+  // Get every currency, including inactive ones (Admin)
+  getAllCurrencies: async (): Promise<ApiResponse<{ baseCurrency: string; currencies: AdminCurrency[] }>> => {
+    const response: AxiosResponse<ApiResponse<{ baseCurrency: string; currencies: AdminCurrency[] }>> = await api.get('/currencies/admin/all');
+    return response.data;
+  },
+
+  // Create currency (Admin)
+  createCurrency: async (data: CurrencyForm): Promise<ApiResponse<{ currency: AdminCurrency }>> => {
+    const response: AxiosResponse<ApiResponse<{ currency: AdminCurrency }>> = await api.post('/currencies', data);
+    return response.data;
+  },
+
+  // Update currency (Admin)
+  updateCurrency: async (id: string, data: CurrencyForm): Promise<ApiResponse<{ currency: AdminCurrency }>> => {
+    const response: AxiosResponse<ApiResponse<{ currency: AdminCurrency }>> = await api.put(`/currencies/${id}`, data);
+    return response.data;
+  },
+
+  // Delete currency (Admin)
+  deleteCurrency: async (id: string): Promise<ApiResponse> => {
+    const response: AxiosResponse<ApiResponse> = await api.delete(`/currencies/${id}`);
     return response.data;
   },
 };
@@ -378,14 +810,40 @@ export const cartAPI = {
 // Orders API
 export const ordersAPI = {
   // Get user orders
-  getUserOrders: async (): Promise<ApiResponse<Order[]>> => {
-    const response: AxiosResponse<ApiResponse<Order[]>> = await api.get('/orders');
+  getUserOrders: async (params?: { page?: number; limit?: number; status?: string }): Promise<ApiResponse<{ orders: Order[]; pagination: PaginatedResponse<Order>['pagination'] }>> => {
+    const response: AxiosResponse<ApiResponse<{ orders: Order[]; pagination: PaginatedResponse<Order>['pagination'] }>> = await api.get('/orders', { params });
     return response.data;
   },
 
   // Get order by ID
-  getOrderById: async (id: string): Promise<ApiResponse<Order>> => {
-    const response: AxiosResponse<ApiResponse<Order>> = await api.get(`/orders/${id}`);
+  getOrderById: async (id: string): Promise<ApiResponse<{ order: Order }>> => {
+    const response: AxiosResponse<ApiResponse<{ order: Order }>> = await api.get(`/orders/${id}`);
+    return response.data;
+  },
+
+  // Download the invoice for a paid order
+  downloadInvoice: async (id: string): Promise<Blob> => {
+    const response: AxiosResponse<Blob> = await api.get(`/orders/${id}/invoice`, {
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
+  // Get digital keys delivered for an order
+  getOrderKeys: async (id: string): Promise<ApiResponse<{ digitalKeys: DigitalKey[] }>> => {
+    const response: AxiosResponse<ApiResponse<{ digitalKeys: DigitalKey[] }>> = await api.get(`/orders/${id}/keys`);
+    return response.data;
+  },
+
+  // Get the shipping methods that can deliver the cart to an address
+  getShippingMethods: async (params: { country: string; state?: string }): Promise<ApiResponse<{ shippingMethods: ShippingMethod[] }>> => {
+    const response: AxiosResponse<ApiResponse<{ shippingMethods: ShippingMethod[] }>> = await api.get('/orders/shipping-methods', { params });
+    return response.data;
+  },
+
+  // Get which statuses an order can move to from each status
+  getStatusTransitions: async (): Promise<ApiResponse<OrderStatusTransitions>> => {
+    const response: AxiosResponse<ApiResponse<OrderStatusTransitions>> = await api.get('/orders/status-transitions');
     return response.data;
   },
 
@@ -394,29 +852,172 @@ export const ordersAPI = {
     items: string[]; 
     shippingAddress: any; 
     billingAddress: any; 
+    paymentMethod: 'stripe' | 'paypal' | 'cash_on_delivery';
+    shippingMethod?: string;
+    promotionCode?: string;
+    currency?: string;
     notes?: string;
     customerEmail: string;
     customerPhone?: string;
-  }): Promise<ApiResponse<Order>> => {
-    const response: AxiosResponse<ApiResponse<Order>> = await api.post('/orders', data);
+  }): Promise<ApiResponse<{ order: Order }>> => {
+    const response: AxiosResponse<ApiResponse<{ order: Order }>> = await api.post('/orders', data);
     return response.data;
   },
 
   // Cancel order
-  cancelOrder: async (id: string, reason?: string): Promise<ApiResponse<Order>> => {
-    const response: AxiosResponse<ApiResponse<Order>> = await api.post(`/orders/${id}/cancel`, { reason });
+  cancelOrder: async (id: string, reason?: string): Promise<ApiResponse<{ order: Order }>> => {
+    const response: AxiosResponse<ApiResponse<{ order: Order }>> = await api.post(`/orders/${id}/cancel`, { reason });
+    return response.data;
+  },
+
+  // Cancel an unpaid checkout order and put its items back in the cart
+  reopenOrder: async (id: string): Promise<ApiResponse<{ order: Order }>> => {
+    const response: AxiosResponse<ApiResponse<{ order: Order }>> = await api.post(`/orders/${id}/reopen`);
     return response.data;
   },
 
   // Admin: Get all orders
-  getAllOrders: async (params?: { page?: number; limit?: number; status?: string; paymentStatus?: string }): Promise<ApiResponse<PaginatedResponse<Order>>> => {
-    const response: AxiosResponse<ApiResponse<PaginatedResponse<Order>>> = await api.get('/orders', { params });
+  getAllOrders: async (params?: Partial<AdminOrderFilters> & {
+    page?: number;
+    limit?: number;
+    sortBy?: AdminOrderSortField;
+    sortOrder?: 'asc' | 'desc';
+  }): Promise<ApiResponse<{ orders: Order[]; pagination: PaginatedResponse<Order>['pagination'] }>> => {
+    const response: AxiosResponse<ApiResponse<{ orders: Order[]; pagination: PaginatedResponse<Order>['pagination'] }>> = await api.get('/orders/admin/all', { params });
+    return response.data;
+  },
+
+  // Admin: Get order counts by status and revenue
+  getOrderStats: async (): Promise<ApiResponse<AdminOrderStats>> => {
+    const response: AxiosResponse<ApiResponse<AdminOrderStats>> = await api.get('/orders/admin/stats/overview');
+    return response.data;
+  },
+
+  // Admin: Move several orders to the same status; orders that can't move are reported back
+  bulkUpdateOrderStatus: async (orderIds: string[], status: OrderStatus, notes?: string): Promise<ApiResponse<BulkStatusResult>> => {
+    const response: AxiosResponse<ApiResponse<BulkStatusResult>> = await api.put('/orders/admin/bulk-status', { orderIds, status, notes });
+    return response.data;
+  },
+
+  // Admin: Export orders as CSV
+  exportOrders: async (orderIds: string[]): Promise<Blob> => {
+    const response: AxiosResponse<Blob> = await api.post('/orders/admin/export', { orderIds }, {
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
+  // Admin: Get an order with its shipments, history and activity
+  getAdminOrder: async (id: string): Promise<ApiResponse<AdminOrderDetail>> => {
+    const response: AxiosResponse<ApiResponse<AdminOrderDetail>> = await api.get(`/orders/admin/${id}`);
+    return response.data;
+  },
+
+  // Admin: Correct or add tracking details
+  updateTracking: async (id: string, data: { trackingNumber: string; trackingUrl?: string }): Promise<ApiResponse<{ order: Order }>> => {
+    const response: AxiosResponse<ApiResponse<{ order: Order }>> = await api.put(`/orders/admin/${id}/tracking`, data);
+    return response.data;
+  },
+
+  // Admin: Save internal notes
+  updateAdminNotes: async (id: string, adminNotes: string): Promise<ApiResponse<{ order: Order }>> => {
+    const response: AxiosResponse<ApiResponse<{ order: Order }>> = await api.put(`/orders/admin/${id}/notes`, { adminNotes });
+    return response.data;
+  },
+
+  // Admin: Resend the confirmation email
+  resendConfirmation: async (id: string): Promise<ApiResponse<void>> => {
+    const response: AxiosResponse<ApiResponse<void>> = await api.post(`/orders/admin/${id}/resend-confirmation`);
+    return response.data;
+  },
+
+  // Admin: Ship some or all of an order as one parcel; no lines ships everything left
+  createShipment: async (id: string, data: {
+    lines?: Array<{ orderItemId: string; quantity: number }>;
+    trackingNumber: string;
+    trackingUrl?: string;
+    notes?: string;
+  }): Promise<ApiResponse<{ shipment: Shipment; order: Order }>> => {
+    const response: AxiosResponse<ApiResponse<{ shipment: Shipment; order: Order }>> = await api.post(`/orders/admin/${id}/shipments`, data);
+    return response.data;
+  },
+
+  // Admin: Get refunds on an order and the refundable balance
+  getOrderRefunds: async (id: string): Promise<ApiResponse<{ refunds: Refund[]; summary: RefundSummary }>> => {
+    const response: AxiosResponse<ApiResponse<{ refunds: Refund[]; summary: RefundSummary }>> = await api.get(`/orders/admin/${id}/refunds`);
+    return response.data;
+  },
+
+  // Admin: Download the invoice for an order
+  downloadAdminInvoice: async (id: string): Promise<Blob> => {
+    const response: AxiosResponse<Blob> = await api.get(`/orders/admin/${id}/invoice`, {
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
+  // Admin: Download the packing slip for an order
+  downloadPackingSlip: async (id: string): Promise<Blob> => {
+    const response: AxiosResponse<Blob> = await api.get(`/orders/admin/${id}/packing-slip`, {
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
+  // Admin: Download invoices or packing slips for several orders as one PDF
+  downloadOrderDocuments: async (orderIds: string[], type: OrderDocumentType): Promise<Blob> => {
+    const response: AxiosResponse<Blob> = await api.post('/orders/admin/documents', { orderIds, type }, {
+      responseType: 'blob',
+    });
     return response.data;
   },
 
   // Admin: Update order status
-  updateOrderStatus: async (id: string, status: string, trackingNumber?: string): Promise<ApiResponse<Order>> => {
-    const response: AxiosResponse<ApiResponse<Order>> = await api.put(`/orders/${id}/status`, { status, trackingNumber });
+  updateOrderStatus: async (
+    id: string,
+    status: OrderStatus,
+    details?: { notes?: string; trackingNumber?: string; trackingUrl?: string }
+  ): Promise<ApiResponse<{ order: Order }>> => {
+    const response: AxiosResponse<ApiResponse<{ order: Order }>> = await api.put(`/orders/${id}/status`, { status, ...details });
+    return response.data;
+  },
+};
+
+// Returns API
+export const returnsAPI = {
+  // Get returns for an order and the deadline for new ones
+  getOrderReturns: async (orderId: string): Promise<ApiResponse<{ returns: ReturnRequest[]; returnDeadline: string | null; returnWindowDays: number }>> => {
+    const response: AxiosResponse<ApiResponse<{ returns: ReturnRequest[]; returnDeadline: string | null; returnWindowDays: number }>> = await api.get(`/returns/order/${orderId}`);
+    return response.data;
+  },
+
+  // Request a return for an order item
+  createReturn: async (data: { orderItemId: string; quantity: number; reason: ReturnReason; notes?: string }): Promise<ApiResponse<{ returnRequest: ReturnRequest }>> => {
+    const response: AxiosResponse<ApiResponse<{ returnRequest: ReturnRequest }>> = await api.post('/returns', data);
+    return response.data;
+  },
+
+  // Admin: Get the returns queue
+  getAllReturns: async (params?: { page?: number; limit?: number; status?: string; search?: string }): Promise<ApiResponse<{ returns: ReturnRequest[]; pagination: PaginatedResponse<ReturnRequest>['pagination'] }>> => {
+    const response: AxiosResponse<ApiResponse<{ returns: ReturnRequest[]; pagination: PaginatedResponse<ReturnRequest>['pagination'] }>> = await api.get('/returns/admin/all', { params });
+    return response.data;
+  },
+
+  // Admin: Approve a return
+  approveReturn: async (id: string, note?: string): Promise<ApiResponse<{ returnRequest: ReturnRequest }>> => {
+    const response: AxiosResponse<ApiResponse<{ returnRequest: ReturnRequest }>> = await api.put(`/returns/admin/${id}/approve`, { note });
+    return response.data;
+  },
+
+  // Admin: Reject a return
+  rejectReturn: async (id: string, note: string): Promise<ApiResponse<{ returnRequest: ReturnRequest }>> => {
+    const response: AxiosResponse<ApiResponse<{ returnRequest: ReturnRequest }>> = await api.put(`/returns/admin/${id}/reject`, { note });
+    return response.data;
+  },
+
+  // Admin: Mark returned goods as received
+  receiveReturn: async (id: string, restock: boolean, note?: string): Promise<ApiResponse<{ returnRequest: ReturnRequest }>> => {
+    const response: AxiosResponse<ApiResponse<{ returnRequest: ReturnRequest }>> = await api.put(`/returns/admin/${id}/receive`, { restock, note });
     return response.data;
   },
 };
@@ -481,7 +1082,7 @@ export const reviewsAPI = {
 // Payments API
 export const paymentsAPI = {
   // Create payment intent
-  createPaymentIntent: async (data: { orderId: string; amount: number }): Promise<ApiResponse<{ clientSecret: string; paymentIntentId: string }>> => {
+  createPaymentIntent: async (data: { orderId: string; amount: number; currency: string }): Promise<ApiResponse<{ clientSecret: string; paymentIntentId: string }>> => {
     const response: AxiosResponse<ApiResponse<{ clientSecret: string; paymentIntentId: string }>> = await api.post('/payments/create-intent', data);
     return response.data;
   },
@@ -498,6 +1099,18 @@ export const paymentsAPI = {
     return response.data;
   },
 
+  // Start saving a card; confirm the returned secret with Stripe
+  createSetupIntent: async (): Promise<ApiResponse<{ clientSecret: string; setupIntentId: string }>> => {
+    const response: AxiosResponse<ApiResponse<{ clientSecret: string; setupIntentId: string }>> = await api.post('/payments/setup-intent');
+    return response.data;
+  },
+
+  // Make payment method the default
+  setDefaultPaymentMethod: async (paymentMethodId: string): Promise<ApiResponse<{ paymentMethod: StripePaymentMethod }>> => {
+    const response: AxiosResponse<ApiResponse<{ paymentMethod: StripePaymentMethod }>> = await api.patch(`/payments/payment-methods/${paymentMethodId}/default`);
+    return response.data;
+  },
+
   // Add payment method
   addPaymentMethod: async (paymentMethodId: string): Promise<ApiResponse> => {
     const response: AxiosResponse<ApiResponse> = await api.post('/payments/payment-methods', { paymentMethodId });
@@ -511,8 +1124,16 @@ export const paymentsAPI = {
   },
 
   // Process refund
-  processRefund: async (data: { orderId: string; amount?: number; reason?: string }): Promise<ApiResponse<any>> => {
-    const response: AxiosResponse<ApiResponse<any>> = await api.post('/payments/refund', data);
+  processRefund: async (data: {
+    orderId: string;
+    amount?: number;
+    reason?: string;
+    returnRequestId?: string;
+    items?: Array<{ orderItemId: string; quantity: number }>;
+    shippingAmount?: number;
+    taxAmount?: number;
+  }): Promise<ApiResponse<{ refund: Refund; order: Order }>> => {
+    const response: AxiosResponse<ApiResponse<{ refund: Refund; order: Order }>> = await api.post('/payments/refund', data);
     return response.data;
   },
 };
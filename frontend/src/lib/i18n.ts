@@ -0,0 +1,103 @@
+import { z } from 'zod';
+import { en } from '@/locales/en';
+import { es } from '@/locales/es';
+import { ar } from '@/locales/ar';
+
+export const LOCALES = [
+  { code: 'en', name: 'English', dir: 'ltr' },
+  { code: 'es', name: 'Español', dir: 'ltr' },
+  { code: 'ar', name: 'العربية', dir: 'rtl' },
+] as const;
+
+export type Locale = typeof LOCALES[number]['code'];
+
+// Product copy is written in this locale on the server too
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// A message whose wording depends on a count, keyed by Intl.PluralRules category
+export type PluralMessage = { other: string } & Partial<Record<Exclude<Intl.LDMLPluralRule, 'other'>, string>>;
+
+// Every catalog has the same keys as the English one, with its own plural forms
+export type Catalog<T = typeof en> = {
+  [K in keyof T]: T[K] extends string ? string : T[K] extends PluralMessage ? PluralMessage : Catalog<T[K]>;
+};
+
+export type MessageKey<T = typeof en> = {
+  [K in keyof T & string]: T[K] extends string | PluralMessage ? K : `${K}.${MessageKey<T[K]>}`;
+}[keyof T & string];
+
+export type MessageParams = Record<string, string | number>;
+
+const catalogs: Record<Locale, Catalog> = { en, es, ar };
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.some(locale => locale.code === value);
+}
+
+// The first browser language we have a catalog for, matching "es-MX" to "es"
+export function detectLocale(): Locale {
+  const languages = typeof navigator === 'undefined' ? [] : navigator.languages || [navigator.language];
+  for (const language of languages) {
+    const code = language?.toLowerCase().split('-')[0];
+    if (isLocale(code)) return code;
+  }
+  return DEFAULT_LOCALE;
+}
+
+export function getDirection(locale: Locale): 'ltr' | 'rtl' {
+  return LOCALES.find(option => option.code === locale)?.dir ?? 'ltr';
+}
+
+const lookup = (catalog: Catalog, key: string): string | PluralMessage | undefined => {
+  const value = key.split('.').reduce<any>((node, part) => node?.[part], catalog);
+  return typeof value === 'string' || (value && typeof value.other === 'string') ? value : undefined;
+};
+
+export function isMessageKey(value: string): value is MessageKey {
+  return lookup(catalogs[DEFAULT_LOCALE], value) !== undefined;
+}
+
+/**
+ * Looks a message up in the locale's catalog, falling back to English, and
+ * fills in {placeholders}. Plural messages pick their form from params.count.
+ */
+export function translate(locale: Locale, key: MessageKey, params?: MessageParams): string {
+  let message = lookup(catalogs[locale], key) ?? lookup(catalogs[DEFAULT_LOCALE], key) ?? key;
+
+  if (typeof message !== 'string') {
+    const count = Number(params?.count ?? 0);
+    message = message[new Intl.PluralRules(locale).select(count)] ?? message.other;
+  }
+
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? new Intl.NumberFormat(locale).format(value) : value;
+  });
+}
+
+/**
+ * Zod's built-in messages in the given locale. Schemas that pass their own
+ * message pass a message key instead, which forms translate when rendering.
+ */
+export function createZodErrorMap(locale: Locale): z.ZodErrorMap {
+  return (issue, ctx) => {
+    if (issue.code === z.ZodIssueCode.invalid_type && issue.received === 'undefined') {
+      return { message: translate(locale, 'validation.required') };
+    }
+    if (issue.code === z.ZodIssueCode.invalid_string && issue.validation === 'email') {
+      return { message: translate(locale, 'validation.email') };
+    }
+    if (issue.code === z.ZodIssueCode.too_small && issue.type === 'string') {
+      return { message: translate(locale, 'validation.minLength', { count: Number(issue.minimum) }) };
+    }
+    if (issue.code === z.ZodIssueCode.too_big && issue.type === 'string') {
+      return { message: translate(locale, 'validation.maxLength', { count: Number(issue.maximum) }) };
+    }
+    if (issue.code === z.ZodIssueCode.too_small && issue.type === 'number') {
+      return { message: translate(locale, 'validation.minNumber', { min: Number(issue.minimum) }) };
+    }
+    return { message: ctx.defaultError };
+  };
+}
@@ -1,27 +1,48 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { CartItemIssue, Currency, Order } from "@/types"
+import { useUIStore } from "@/store"
+
+// Formatting follows the language the shopper picked
+const getLocale = () => useUIStore.getState().locale
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
+// Formats an amount that is already in the given currency
 export function formatPrice(price: number, currency: string = 'USD'): string {
-  return new Intl.NumberFormat('en-US', {
+  return new Intl.NumberFormat(getLocale(), {
     style: 'currency',
     currency,
   }).format(price);
 }
 
-export function formatDate(date: string | Date): string {
-  return new Intl.DateTimeFormat('en-US', {
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  }).format(new Date(date));
+// Converts a catalog price into another currency, rounded the way the
+// server rounds it so what the shopper sees is what they are charged
+export function convertPrice(price: number, currency: Currency): number {
+  const factor = 10 ** currency.decimals;
+  return Math.round(price * currency.exchangeRate * factor) / factor;
+}
+
+// The amount in the currency's smallest unit, as Stripe expects it
+export function toMinorUnits(amount: number, currency: Currency): number {
+  return Math.round(amount * currency.minorUnitFactor);
+}
+
+export function formatNumber(value: number, options?: Intl.NumberFormatOptions): string {
+  return new Intl.NumberFormat(getLocale(), options).format(value);
+}
+
+export function formatDate(
+  date: string | Date,
+  options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'long', day: 'numeric' }
+): string {
+  return new Intl.DateTimeFormat(getLocale(), options).format(new Date(date));
 }
 
 export function formatDateTime(date: string | Date): string {
-  return new Intl.DateTimeFormat('en-US', {
+  return new Intl.DateTimeFormat(getLocale(), {
     year: 'numeric',
     month: 'short',
     day: 'numeric',
@@ -72,10 +93,37 @@ export function isValidEmail(email: string): boolean {
   return emailRegex.test(email);
 }
 
-export function isValidPassword(password: string): boolean {
-  // At least 8 characters, 1 uppercase, 1 lowercase, 1 number
-  const passwordRegex = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)[a-zA-Z\d@$!%*?&]{8,}$/;
-  return passwordRegex.test(password);
+// 0 is too short to use; new passwords need at least MIN_PASSWORD_STRENGTH
+export type PasswordStrength = 0 | 1 | 2 | 3 | 4;
+
+const MIN_PASSWORD_STRENGTH: PasswordStrength = 2;
+
+/**
+ * Rough strength score for the password meter. Length counts most, then the
+ * mix of character types; repeats and keyboard or number runs count against
+ * it. Passwords from known breaches are rejected by the server.
+ */
+export function getPasswordStrength(password: string): PasswordStrength {
+  if (password.length < 8) {
+    return 0;
+  }
+
+  const characterTypes = [/[a-z]/, /[A-Z]/, /\d/, /[^a-zA-Z\d]/]
+    .filter(pattern => pattern.test(password)).length;
+
+  let score = [8, 12, 16].filter(length => password.length >= length).length + characterTypes - 1;
+  if (/(.)\1{2,}/.test(password)) {
+    score -= 1;
+  }
+  if (/0123|1234|2345|3456|4567|5678|6789|abcd|qwer|asdf|zxcv/i.test(password)) {
+    score -= 1;
+  }
+
+  return Math.max(1, Math.min(4, score)) as PasswordStrength;
+}
+
+export function isStrongEnoughPassword(password: string): boolean {
+  return getPasswordStrength(password) >= MIN_PASSWORD_STRENGTH;
 }
 
 export function getInitials(name: string): string {
@@ -114,6 +162,8 @@ export function getPaymentStatusColor(status: string): string {
       return 'bg-yellow-100 text-yellow-800';
     case 'paid':
       return 'bg-green-100 text-green-800';
+    case 'partially_refunded':
+      return 'bg-orange-100 text-orange-800';
     case 'failed':
       return 'bg-red-100 text-red-800';
     case 'refunded':
@@ -138,6 +188,23 @@ export function getReviewStatusColor(status: string): string {
   }
 }
 
+export function getReturnStatusColor(status: string): string {
+  switch (status) {
+    case 'requested':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'approved':
+      return 'bg-blue-100 text-blue-800';
+    case 'rejected':
+      return 'bg-red-100 text-red-800';
+    case 'received':
+      return 'bg-purple-100 text-purple-800';
+    case 'refunded':
+      return 'bg-green-100 text-green-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+}
+
 export function getSeverityColor(severity: string): string {
   switch (severity) {
     case 'low':
@@ -153,6 +220,39 @@ export function getSeverityColor(severity: string): string {
   }
 }
 
+// Mirrors the server: invoices exist once paid, packing slips only for physical lines
+export function isOrderInvoiceable(order: Order): boolean {
+  return ['paid', 'partially_refunded', 'refunded'].includes(order.paymentStatus);
+}
+
+export function hasItemsToPack(order: Order): boolean {
+  return !!order.shippingAddress && order.items.some(item => item.productSnapshot.isPhysical !== false);
+}
+
+// Refunds go back through Stripe, so other payment methods are settled by hand
+export function canRefundOrder(order: Order): boolean {
+  return order.paymentMethod === 'stripe' && ['paid', 'partially_refunded'].includes(order.paymentStatus);
+}
+
+export function describeCartIssue(issue: CartItemIssue): string {
+  const name = issue.productName || 'An item';
+  switch (issue.reason) {
+    case 'unavailable':
+      return `${name} is no longer available`;
+    case 'out_of_stock':
+      return `${name} is out of stock`;
+    case 'quantity_reduced':
+      return `Only ${issue.quantity} of ${name} available, quantity was reduced`;
+    default:
+      return `${name} could not be added to your cart`;
+  }
+}
+
+// The server's explanation of a failed request, for error toasts
+export function getErrorMessage(error: any, fallback = 'Please try again.'): string {
+  return error.response?.data?.message || error.message || fallback;
+}
+
 export function calculateDiscount(originalPrice: number, salePrice: number): number {
   if (originalPrice <= 0) return 0;
   return Math.round(((originalPrice - salePrice) / originalPrice) * 100);
@@ -227,6 +327,12 @@ export function downloadFile(url: string, filename: string): void {
   document.body.removeChild(link);
 }
 
+export function saveBlob(blob: Blob, filename: string): void {
+  const url = window.URL.createObjectURL(blob);
+  downloadFile(url, filename);
+  window.URL.revokeObjectURL(url);
+}
+
 export function generateOrderNumber(): string {
   const timestamp = Date.now().toString();
   const random = Math.random().toString(36).substr(2, 5).toUpperCase();
@@ -260,6 +366,21 @@ export function maskCreditCard(cardNumber: string): string {
   return '*'.repeat(cardNumber.length - 4) + cardNumber.slice(-4);
 }
 
+// Stripe's brand ids ("amex", "visa") as shoppers know them
+const cardBrandNames: Record<string, string> = {
+  amex: 'American Express',
+  diners: 'Diners Club',
+  discover: 'Discover',
+  jcb: 'JCB',
+  mastercard: 'Mastercard',
+  unionpay: 'UnionPay',
+  visa: 'Visa',
+};
+
+export function formatCardBrand(brand: string): string {
+  return cardBrandNames[brand] || brand.charAt(0).toUpperCase() + brand.slice(1);
+}
+
 export function formatPhoneNumber(phone: string): string {
   const cleaned = phone.replace(/\D/g, '');
   const match = cleaned.match(/^(\d{3})(\d{3})(\d{4})$/);
@@ -0,0 +1,1219 @@
+import type { Catalog } from '@/lib/i18n';
+
+export const ar: Catalog = {
+  common: {
+    loading: 'جارٍ التحميل...',
+    back: 'رجوع',
+    edit: 'تعديل',
+    free: 'مجاني',
+    language: 'اللغة',
+    currency: 'العملة',
+    backToHome: 'العودة إلى الرئيسية',
+    goHome: 'الذهاب إلى الرئيسية',
+    goBack: 'رجوع',
+    processing: 'جارٍ المعالجة...',
+    add: 'إضافة',
+    cancel: 'إلغاء',
+    saveChanges: 'حفظ التغييرات',
+    saving: 'جارٍ الحفظ...',
+    view: 'عرض',
+    active: 'نشط',
+    inactive: 'غير نشط',
+    export: 'تصدير',
+    import: 'استيراد',
+    previous: 'السابق',
+    next: 'التالي',
+    pageOf: 'الصفحة {page} من {total}',
+  },
+  nav: {
+    home: 'الرئيسية',
+    products: 'المنتجات',
+    categories: 'الفئات',
+    searchPlaceholder: 'ابحث عن المنتجات...',
+    profile: 'الملف الشخصي',
+    orders: 'الطلبات',
+    wishlist: 'قائمة الأمنيات',
+    reviews: 'المراجعات',
+    adminDashboard: 'لوحة الإدارة',
+    logout: 'تسجيل الخروج',
+    login: 'تسجيل الدخول',
+    signUp: 'إنشاء حساب',
+    cart: 'السلة',
+    openMenu: 'فتح القائمة',
+  },
+  footer: {
+    tagline: 'وجهتك المثالية لمنتجات الألعاب. ألعاب وأجهزة وملحقات عالية الجودة لكل لاعب.',
+    quickLinks: 'روابط سريعة',
+    aboutUs: 'من نحن',
+    customerService: 'خدمة العملاء',
+    contactUs: 'اتصل بنا',
+    shippingInfo: 'معلومات الشحن',
+    returns: 'الإرجاع والاستبدال',
+    faq: 'الأسئلة الشائعة',
+    contactInfo: 'معلومات الاتصال',
+    copyright: '© {year} GameStore. جميع الحقوق محفوظة.',
+    privacy: 'سياسة الخصوصية',
+    terms: 'شروط الخدمة',
+  },
+  home: {
+    heroTitle: 'وجهتك المثالية',
+    heroHighlight: 'لعالم الألعاب',
+    heroSubtitle: 'اكتشف أحدث الألعاب والأجهزة والملحقات. ارتقِ بتجربة اللعب مع منتجات مميزة.',
+    shopNow: 'تسوق الآن',
+    browseCategories: 'تصفح الفئات',
+    consoles: 'أجهزة الألعاب',
+    pcGaming: 'ألعاب الكمبيوتر',
+    accessories: 'الملحقات',
+    latestGames: 'أحدث الألعاب',
+    categoriesTitle: 'تسوق حسب الفئة',
+    categoriesSubtitle: 'اعثر على ما تبحث عنه بالضبط في فئاتنا المنظمة',
+    productCount: {
+      zero: 'لا توجد منتجات',
+      one: 'منتج واحد',
+      two: 'منتجان',
+      few: '{count} منتجات',
+      many: '{count} منتجًا',
+      other: '{count} منتج',
+    },
+    featuredTitle: 'منتجات مميزة',
+    featuredSubtitle: 'منتجات مختارة بعناية لأفضل تجربة لعب',
+    sale: 'تخفيض',
+    viewDetails: 'عرض التفاصيل',
+    viewAllProducts: 'عرض جميع المنتجات',
+    whyTitle: 'لماذا تختار GameStore؟',
+    whySubtitle: 'نقدم أفضل تجربة ألعاب مع منتجات عالية الجودة وخدمة ممتازة',
+    fastDelivery: 'توصيل سريع',
+    fastDeliveryText: 'احصل على معدات اللعب الخاصة بك بسرعة وأمان حتى باب منزلك',
+    qualityProducts: 'منتجات عالية الجودة',
+    qualityProductsText: 'تشكيلة مختارة من منتجات الألعاب المميزة من أفضل العلامات التجارية',
+    support: 'دعم على مدار الساعة',
+    supportText: 'فريق دعم العملاء لدينا جاهز دائمًا لمساعدتك',
+  },
+  products: {
+    loading: 'جارٍ تحميل المنتجات...',
+    title: 'جميع المنتجات',
+    subtitle: 'اكتشف مجموعتنا من منتجات الألعاب',
+    search: 'بحث',
+    filters: 'عوامل التصفية',
+    sortLatest: 'الأحدث',
+    sortName: 'الاسم',
+    sortPrice: 'السعر',
+    sortRating: 'التقييم',
+    noResultsTitle: 'لم يتم العثور على منتجات',
+    noResultsText: 'جرّب تعديل البحث أو عوامل التصفية',
+    sale: 'تخفيض',
+    viewDetails: 'عرض التفاصيل',
+  },
+  product: {
+    loading: 'جارٍ تحميل المنتج...',
+    notFound: 'المنتج غير موجود',
+    loadFailed: 'تعذّر تحميل المنتج',
+    notFoundTitle: 'المنتج غير موجود',
+    notFoundText: 'المنتج الذي تبحث عنه غير موجود أو تمت إزالته.',
+    browseProducts: 'تصفح المنتجات',
+    reviewCount: {
+      zero: '(لا توجد مراجعات)',
+      one: '(مراجعة واحدة)',
+      two: '(مراجعتان)',
+      few: '({count} مراجعات)',
+      many: '({count} مراجعة)',
+      other: '({count} مراجعة)',
+    },
+    sku: 'رمز المنتج: {sku}',
+    percentOff: 'خصم {percent}%',
+    inStock: '{count} متوفر في المخزون',
+    outOfStock: 'غير متوفر',
+    onlyLeft: 'بقي {count} فقط!',
+    quantity: 'الكمية:',
+    addToCart: 'أضف إلى السلة',
+    freeShipping: 'شحن مجاني',
+    freeShippingText: 'للطلبات التي تزيد عن 50 دولارًا',
+    securePayment: 'دفع آمن',
+    securePaymentText: 'دفع آمن بنسبة 100%',
+    easyReturns: 'إرجاع سهل',
+    easyReturnsText: 'سياسة إرجاع لمدة 30 يومًا',
+    tabDescription: 'الوصف',
+    tabSpecifications: 'المواصفات',
+    tabReviews: 'المراجعات ({count})',
+    descriptionTitle: 'وصف المنتج',
+    customerReviews: 'مراجعات العملاء',
+  },
+  search: {
+    title: 'البحث عن المنتجات',
+    prompt: 'أدخل كلمة للبحث عن المنتجات في متجرنا.',
+    placeholder: 'ابحث عن المنتجات...',
+    search: 'بحث',
+    popular: 'عمليات البحث الشائعة',
+    resultsFor: 'نتائج البحث عن "{query}"',
+    found: {
+      zero: 'لم يتم العثور على منتجات',
+      one: 'تم العثور على منتج واحد',
+      two: 'تم العثور على منتجين',
+      few: 'تم العثور على {count} منتجات',
+      many: 'تم العثور على {count} منتجًا',
+      other: 'تم العثور على {count} منتج',
+    },
+    category: 'الفئة',
+    allCategories: 'جميع الفئات',
+    allPrices: 'جميع الأسعار',
+    sortRelevance: 'الصلة',
+    sortName: 'الاسم',
+    sortPrice: 'السعر',
+    sortRating: 'التقييم',
+    sortNewest: 'الأحدث',
+    clear: 'مسح',
+    noResultsTitle: 'لم يتم العثور على منتجات',
+    noResultsText: 'جرّب تعديل كلمات البحث أو عوامل التصفية.',
+    clearFilters: 'مسح عوامل التصفية',
+    browseAll: 'تصفح جميع المنتجات',
+  },
+  wishlist: {
+    loading: 'جارٍ تحميل قائمة الأمنيات...',
+    emptyTitle: 'قائمة أمنياتك فارغة',
+    emptyText: 'احفظ الألعاب التي تهمك وسنُعلمك عندما ينخفض سعرها أو تعود إلى المخزون.',
+    browseGames: 'تصفح الألعاب',
+    title: 'قائمة الأمنيات',
+    savedCount: {
+      zero: 'لا توجد عناصر محفوظة',
+      one: 'عنصر محفوظ واحد',
+      two: 'عنصران محفوظان',
+      few: '{count} عناصر محفوظة',
+      many: '{count} عنصرًا محفوظًا',
+      other: '{count} عنصر محفوظ',
+    },
+    priceDropped: 'انخفض السعر بمقدار {amount}',
+    backInStock: 'عاد إلى المخزون',
+    savedOn: 'حُفظ في {date}',
+    moveToCart: 'نقل إلى السلة',
+    remove: 'إزالة من قائمة الأمنيات',
+  },
+  cart: {
+    loading: 'جارٍ تحميل السلة...',
+    emptyTitle: 'سلتك فارغة',
+    emptyText: 'يبدو أنك لم تضف أي منتجات إلى سلتك بعد.',
+    startShopping: 'ابدأ التسوق',
+    title: 'سلة التسوق',
+    subtitle: 'راجع منتجاتك وتابع إلى الدفع',
+    sku: 'رمز المنتج: {sku}',
+    moveToWishlist: 'نقل إلى قائمة الأمنيات',
+    remove: 'إزالة',
+    orderSummary: 'ملخص الطلب',
+    subtotal: {
+      zero: 'المجموع الفرعي (لا توجد عناصر)',
+      one: 'المجموع الفرعي (عنصر واحد)',
+      two: 'المجموع الفرعي (عنصران)',
+      few: 'المجموع الفرعي ({count} عناصر)',
+      many: 'المجموع الفرعي ({count} عنصرًا)',
+      other: 'المجموع الفرعي ({count} عنصر)',
+    },
+    tax: 'الضريبة',
+    taxIncluded: 'الضريبة (مشمولة)',
+    shipping: 'الشحن',
+    discount: 'الخصم',
+    calculatedAtCheckout: 'تُحسب عند الدفع',
+    estimatedTotal: 'الإجمالي التقديري',
+    proceedToCheckout: 'المتابعة إلى الدفع',
+    continueShopping: 'متابعة التسوق',
+  },
+  promo: {
+    placeholder: 'رمز الخصم',
+    apply: 'تطبيق',
+    applying: 'جارٍ التطبيق...',
+    remove: 'إزالة رمز الخصم',
+    failed: 'تعذر تطبيق رمز الخصم',
+    signInPrompt: 'لديك رمز خصم؟',
+    signIn: 'سجّل الدخول',
+    signInSuffix: 'لاستخدامه.',
+  },
+  checkout: {
+    title: 'الدفع',
+    backToCart: 'العودة إلى السلة',
+    steps: {
+      shipping: 'عنوان الشحن',
+      billing: 'عنوان الفوترة',
+      delivery: 'طريقة الشحن',
+      payment: 'طريقة الدفع',
+      review: 'المراجعة وتأكيد الطلب',
+    },
+    continueToDelivery: 'المتابعة إلى التوصيل',
+    continueToPayment: 'المتابعة إلى الدفع',
+    continueToReview: 'المتابعة إلى المراجعة',
+    orderSummary: 'ملخص الطلب',
+    quantity: 'الكمية: {count}',
+    subtotal: {
+      zero: 'المجموع الفرعي (لا توجد عناصر)',
+      one: 'المجموع الفرعي (عنصر واحد)',
+      two: 'المجموع الفرعي (عنصران)',
+      few: 'المجموع الفرعي ({count} عناصر)',
+      many: 'المجموع الفرعي ({count} عنصرًا)',
+      other: 'المجموع الفرعي ({count} عنصر)',
+    },
+    tax: 'الضريبة',
+    taxIncluded: 'الضريبة (مشمولة)',
+    taxFromAddress: 'تُحسب حسب عنوانك',
+    shipping: 'الشحن',
+    digitalDelivery: 'تسليم رقمي',
+    shippingNextStep: 'يُحسب في الخطوة التالية',
+    discount: 'الخصم',
+    discountWithCode: 'الخصم ({code})',
+    total: 'الإجمالي',
+    chargedIn: 'يتم الدفع بعملة {currency}',
+    secureTitle: 'دفع آمن',
+    secureText: 'معلومات الدفع الخاصة بك مشفرة وآمنة. نحن لا نحتفظ أبدًا ببيانات بطاقتك.',
+    noShippingMethods: 'لا يمكننا شحن هذا الطلب إلى العنوان الذي أدخلته. يرجى التحقق من العنوان أو التواصل معنا للمساعدة.',
+    express: 'سريع',
+    arrives: 'يصل في {date}',
+    arrivesBetween: 'يصل بين {from} و{to}',
+    shipTo: 'الشحن إلى',
+    billTo: 'الفوترة إلى',
+    delivery: 'التوصيل',
+    keysEmailed: 'تُرسل المفاتيح عبر البريد الإلكتروني بعد تأكيد الدفع',
+    payment: 'الدفع',
+    chargedViaStripe: 'دفع آمن عبر Stripe',
+    notes: 'ملاحظات الطلب',
+    notesPlaceholder: 'هل هناك ما يجب أن نعرفه عن طلبك؟',
+    acceptTerms: 'أوافق على الشروط والأحكام',
+    placeOrder: 'تأكيد الطلب',
+    retryPayment: 'إعادة محاولة الدفع',
+    savedCards: 'البطاقات المحفوظة',
+    newCard: 'استخدام بطاقة جديدة',
+    cardEnding: '{brand} المنتهية بـ {last4}',
+    cardExpires: 'تنتهي في {month}/{year}',
+    cardExpiringSoon: 'تنتهي قريبًا',
+    cardExpired: 'منتهية الصلاحية',
+    success: {
+      verifying: 'جارٍ تأكيد الدفع...',
+      failedTitle: 'فشل الدفع',
+      failedText: 'لم نتمكن من إتمام الدفع. لم يتم خصم أي مبلغ.',
+      pendingTitle: 'الدفع قيد المعالجة',
+      pendingText: 'لا يزال الدفع قيد المعالجة. سنرسل لك بريدًا إلكترونيًا فور تأكيده.',
+      viewOrders: 'عرض الطلبات',
+      title: 'تم تأكيد الطلب!',
+      thankYou: 'شكرًا لشرائك. تم تقديم طلبك بنجاح.',
+      orderNumber: 'رقم الطلب:',
+      nextTitle: 'ماذا بعد؟',
+      emailTitle: 'بريد التأكيد',
+      emailText: 'ستتلقى قريبًا بريدًا إلكترونيًا لتأكيد الطلب يتضمن جميع التفاصيل.',
+      processingTitle: 'تجهيز الطلب',
+      processingText: 'سنبدأ بتجهيز طلبك وإعداده للشحن.',
+      shippingTitle: 'تحديثات الشحن',
+      shippingText: 'ستتلقى معلومات التتبع بمجرد شحن طلبك.',
+      help: 'تحتاج إلى مساعدة؟ تواصل مع فريق الدعم على',
+    },
+    errors: {
+      loadShippingMethods: 'تعذر تحميل طرق الشحن. يرجى تحديث الصفحة.',
+      paymentLoading: 'نظام الدفع لا يزال قيد التحميل. يرجى المحاولة مرة أخرى بعد قليل.',
+      paymentDetails: 'تعذرت معالجة بيانات الدفع الخاصة بك.',
+      paymentUnexpected: 'حدث خطأ غير متوقع أثناء معالجة الدفع. يرجى المحاولة مرة أخرى.',
+      createOrder: 'تعذر إنشاء الطلب. يرجى المحاولة مرة أخرى.',
+      paymentFailed: 'فشلت معالجة الدفع. يرجى المحاولة مرة أخرى.',
+      declined: 'تم رفض الدفع. يرجى تجربة طريقة دفع أخرى.',
+      incomplete: 'تعذر إتمام الدفع. يرجى المحاولة مرة أخرى.',
+      checkoutFailed: 'فشل الدفع. يرجى المحاولة مرة أخرى.',
+      addressInvalid: 'تعذر التحقق من هذا العنوان. يرجى مراجعته والمحاولة مرة أخرى.',
+    },
+  },
+  orders: {
+    loading: 'جارٍ تحميل الطلبات...',
+    title: 'طلباتي',
+    subtitle: 'تتبّع طلباتك واطّلع على سجلها',
+    emptyTitle: 'لا توجد طلبات بعد',
+    emptyText: 'لم تقدّم أي طلبات بعد. ابدأ التسوق لترى طلباتك هنا.',
+    startShopping: 'ابدأ التسوق',
+    orderNumber: 'الطلب رقم {number}',
+    placedOn: 'تم الطلب في {date}',
+    quantityEach: 'الكمية: {count} • {price} للقطعة',
+    totalAmount: 'الإجمالي: {total}',
+    itemCount: {
+      zero: 'لا توجد عناصر',
+      one: 'عنصر واحد',
+      two: 'عنصران',
+      few: '{count} عناصر',
+      many: '{count} عنصرًا',
+      other: '{count} عنصر',
+    },
+    viewDetails: 'عرض التفاصيل',
+    cancelOrder: 'إلغاء الطلب',
+    shippingAddress: 'عنوان الشحن:',
+    trackingNumber: 'رقم التتبع:',
+  },
+  orderDetail: {
+    loading: 'جارٍ تحميل الطلب...',
+    notFoundTitle: 'الطلب غير موجود',
+    notFoundText: 'لم نتمكن من العثور على هذا الطلب في حسابك.',
+    backToOrders: 'العودة إلى الطلبات',
+    cancelConfirm: 'هل أنت متأكد من رغبتك في إلغاء هذا الطلب؟',
+    cancelled: 'تم إلغاء الطلب',
+    cancelFailed: 'تعذّر إلغاء الطلب',
+    invoiceFailed: 'تعذّر تنزيل الفاتورة',
+    invoice: 'الفاتورة',
+    downloading: 'جارٍ التنزيل...',
+    cancelling: 'جارٍ الإلغاء...',
+    items: 'العناصر',
+    return: 'إرجاع',
+    returnLine: 'الإرجاع {rma} • {count} × {reason}',
+    returnDeadline: 'يمكن إرجاع العناصر حتى {date}.',
+    subtotal: 'المجموع الفرعي',
+    refunded: 'المبلغ المسترد',
+    orderStatus: 'حالة الطلب',
+    tracking: 'التتبع',
+    trackPackage: 'تتبّع الشحنة',
+    shippingAddress: 'عنوان الشحن',
+    digitalDeliveryTo: 'تسليم رقمي إلى {email}',
+  },
+  orderStatus: {
+    pending: 'قيد الانتظار',
+    confirmed: 'مؤكد',
+    processing: 'قيد التجهيز',
+    shipped: 'تم الشحن',
+    delivered: 'تم التسليم',
+    cancelled: 'ملغى',
+    refunded: 'مسترد',
+    failed: 'فشل',
+  },
+  paymentStatus: {
+    pending: 'قيد الانتظار',
+    paid: 'مدفوع',
+    partially_refunded: 'مسترد جزئيًا',
+    failed: 'فشل',
+    refunded: 'مسترد',
+    cancelled: 'ملغى',
+  },
+  returnStatus: {
+    requested: 'مطلوب',
+    approved: 'مقبول',
+    rejected: 'مرفوض',
+    received: 'مستلم',
+    refunded: 'مسترد',
+  },
+  returnReason: {
+    damaged: 'وصل تالفًا',
+    defective: 'معيب أو لا يعمل',
+    wrongItem: 'أُرسل منتج خاطئ',
+    notAsDescribed: 'ليس كما هو موصوف',
+    noLongerNeeded: 'لم أعد بحاجة إليه',
+    otherReason: 'أخرى',
+  },
+  returnForm: {
+    quantity: 'الكمية',
+    reason: 'السبب',
+    details: 'التفاصيل (اختياري)',
+    cancel: 'إلغاء',
+    submit: 'طلب إرجاع',
+    submitting: 'جارٍ الإرسال...',
+    requested: 'تم طلب الإرجاع',
+    failed: 'تعذّر طلب الإرجاع',
+  },
+  address: {
+    firstName: 'الاسم الأول',
+    lastName: 'اسم العائلة',
+    email: 'البريد الإلكتروني',
+    phone: 'الهاتف',
+    street: 'العنوان',
+    city: 'المدينة',
+    state: 'الولاية/المنطقة',
+    zipCode: 'الرمز البريدي',
+    country: 'الدولة',
+    firstNamePlaceholder: 'أدخل الاسم الأول',
+    lastNamePlaceholder: 'أدخل اسم العائلة',
+    emailPlaceholder: 'أدخل البريد الإلكتروني',
+    phonePlaceholder: 'أدخل رقم الهاتف',
+    streetPlaceholder: 'أدخل عنوان الشارع',
+    cityPlaceholder: 'أدخل المدينة',
+    statePlaceholder: 'أدخل الولاية أو المنطقة',
+    zipCodePlaceholder: 'أدخل الرمز البريدي',
+    countryPlaceholder: 'أدخل الدولة',
+    savedAddresses: 'العناوين المحفوظة',
+    newAddress: 'استخدام عنوان جديد',
+    default: 'افتراضي',
+    saveToBook: 'حفظ هذا العنوان في دفتر العناوين',
+    billingDiffers: 'عنوان الفوترة مختلف عن عنوان الشحن',
+    billingAddress: 'عنوان الفوترة',
+  },
+  auth: {
+    welcomeBack: 'مرحبًا بعودتك',
+    signInSubtitle: 'سجّل الدخول إلى حسابك للمتابعة',
+    emailAddress: 'البريد الإلكتروني',
+    emailPlaceholder: 'أدخل بريدك الإلكتروني',
+    password: 'كلمة المرور',
+    passwordPlaceholder: 'أدخل كلمة المرور',
+    forgotPassword: 'هل نسيت كلمة المرور؟',
+    signIn: 'تسجيل الدخول',
+    signingIn: 'جارٍ تسجيل الدخول...',
+    orContinueWith: 'أو تابع باستخدام',
+    continueWithGoogle: 'المتابعة باستخدام Google',
+    noAccount: 'ليس لديك حساب؟',
+    signUp: 'أنشئ حسابًا',
+    loginFailed: 'فشل تسجيل الدخول. يرجى المحاولة مرة أخرى.',
+    showPassword: 'إظهار كلمة المرور',
+    hidePassword: 'إخفاء كلمة المرور',
+    twoFactorTitle: 'المصادقة الثنائية',
+    twoFactorSubtitle: 'أدخل الرمز المكوّن من 6 أرقام من تطبيق المصادقة',
+    recoveryCodeSubtitle: 'أدخل أحد رموز الاسترداد التي حفظتها عند إعداد المصادقة الثنائية',
+    authenticationCode: 'رمز المصادقة',
+    recoveryCode: 'رمز الاسترداد',
+    verify: 'تحقق',
+    verifying: 'جارٍ التحقق...',
+    useRecoveryCode: 'فقدت جهازك؟ استخدم رمز استرداد',
+    useAuthenticatorCode: 'استخدم تطبيق المصادقة بدلاً من ذلك',
+    startOver: 'تسجيل الدخول بحساب آخر',
+    createAccountTitle: 'أنشئ حسابك',
+    createAccountSubtitle: 'انضم إلى GameStore وابدأ رحلتك في عالم الألعاب',
+    basicInformation: 'المعلومات الأساسية',
+    firstName: 'الاسم الأول',
+    firstNamePlaceholder: 'أدخل اسمك الأول',
+    lastName: 'اسم العائلة',
+    lastNamePlaceholder: 'أدخل اسم عائلتك',
+    phoneOptional: 'رقم الهاتف (اختياري)',
+    phonePlaceholder: 'أدخل رقم هاتفك',
+    createPasswordPlaceholder: 'أنشئ كلمة مرور',
+    confirmPassword: 'تأكيد كلمة المرور',
+    confirmPasswordPlaceholder: 'أكّد كلمة المرور',
+    addPaymentDetails: 'إضافة بيانات الدفع الآن (اختياري)',
+    paymentInformation: 'معلومات الدفع',
+    cardNumber: 'رقم البطاقة',
+    expiryDate: 'تاريخ الانتهاء',
+    cvc: 'رمز التحقق',
+    addShippingAddress: 'إضافة عنوان الشحن الآن (اختياري)',
+    shippingAddress: 'عنوان الشحن',
+    streetAddress: 'عنوان الشارع',
+    streetAddressPlaceholder: 'أدخل عنوان الشارع',
+    city: 'المدينة',
+    cityPlaceholder: 'أدخل مدينتك',
+    state: 'الولاية/المنطقة',
+    statePlaceholder: 'أدخل الولاية أو المنطقة',
+    zipCode: 'الرمز البريدي',
+    zipCodePlaceholder: 'أدخل الرمز البريدي',
+    country: 'الدولة',
+    countryPlaceholder: 'أدخل دولتك',
+    createAccount: 'إنشاء حساب',
+    creatingAccount: 'جارٍ إنشاء الحساب...',
+    registrationFailed: 'فشل التسجيل. يرجى المحاولة مرة أخرى.',
+    haveAccount: 'لديك حساب بالفعل؟',
+    signInLink: 'سجّل الدخول',
+    passwordStrength: 'قوة كلمة المرور: {level}',
+    strengthTooShort: 'قصيرة جدًا',
+    strengthWeak: 'ضعيفة',
+    strengthFair: 'مقبولة',
+    strengthGood: 'جيدة',
+    strengthStrong: 'قوية',
+    passwordHint: 'كلما طالت كانت أقوى. امزج الكلمات والأرقام والرموز وتجنّب كلمات المرور الشائعة.',
+    resetPasswordTitle: 'إعادة تعيين كلمة المرور',
+    resetPasswordSubtitle: 'اختر كلمة مرور جديدة لحسابك',
+    newPassword: 'كلمة المرور الجديدة',
+    newPasswordPlaceholder: 'أدخل كلمة مرور جديدة',
+    resetPassword: 'إعادة تعيين كلمة المرور',
+    resettingPassword: 'جارٍ إعادة التعيين...',
+    resetLinkInvalidTitle: 'رابط غير صالح',
+    resetLinkInvalidText: 'رابط إعادة تعيين كلمة المرور غير صالح أو منتهي الصلاحية.',
+    requestNewLink: 'اطلب رابطًا جديدًا',
+    backToLogin: 'العودة إلى تسجيل الدخول',
+    verifyingEmailTitle: 'جارٍ التحقق من البريد',
+    verifyingEmailText: 'يرجى الانتظار بينما نتحقق من بريدك الإلكتروني...',
+    emailVerifiedTitle: 'تم التحقق من البريد!',
+    emailVerifiedText: 'تم التحقق من {email}.',
+    verificationFailedTitle: 'فشل التحقق',
+    verificationFailedText: 'رابط التحقق غير صالح أو منتهي الصلاحية.',
+    sendNewLink: 'أرسل رابطًا جديدًا',
+    sendingLink: 'جارٍ الإرسال...',
+    continue: 'متابعة',
+    verifyEmailBannerTitle: 'يرجى تأكيد بريدك الإلكتروني',
+    verifyEmailBannerText: 'أكّد {email} قبل إتمام الشراء حتى نتمكن من إرسال تأكيد الطلب ومفاتيح الألعاب.',
+  },
+  profile: {
+    paymentMethods: {
+      title: 'طرق الدفع',
+      addCard: 'إضافة بطاقة',
+      saveCard: 'حفظ البطاقة',
+      loading: 'جارٍ تحميل طرق الدفع...',
+      empty: 'ليست لديك بطاقات محفوظة. احفظ بطاقة للدفع بنقرة واحدة عند إتمام الشراء.',
+      useAsDefault: 'استخدامها كبطاقتي الافتراضية',
+      expired: 'انتهت في {month}/{year}',
+      expiringSoon: 'تنتهي قريبًا، أضف بطاقة جديدة لمواصلة الدفع بنقرة واحدة',
+      makeDefault: 'تعيين كافتراضية',
+      remove: 'إزالة البطاقة',
+      removeConfirm: 'هل تريد إزالة البطاقة المنتهية بـ {last4}؟',
+      saveFailed: 'تعذّر حفظ بطاقتك.',
+      addFailed: 'فشل إضافة البطاقة',
+      saved: 'تم حفظ البطاقة',
+      savedNotDefault: 'تم حفظ البطاقة، لكن تعذّر تعيينها كافتراضية',
+      defaultFailed: 'فشل تحديث البطاقة الافتراضية',
+      removed: 'تمت إزالة البطاقة',
+      removeFailed: 'فشل إزالة البطاقة',
+    },
+    twoFactor: {
+      on: 'مفعّلة',
+      intro: 'احمِ حسابك برمز من تطبيق مصادقة في كل مرة تسجّل فيها الدخول.',
+      adminRequired: 'يجب أن تستخدم حسابات المسؤولين المصادقة الثنائية. فعّلها للوصول إلى لوحة الإدارة.',
+      setUp: 'إعداد المصادقة الثنائية',
+      starting: 'جارٍ البدء...',
+      setupFailed: 'فشل بدء إعداد المصادقة الثنائية',
+      scanInstructions: 'امسح رمز QR هذا باستخدام تطبيق مصادقة مثل Google Authenticator أو 1Password أو Authy، ثم أدخل الرمز المكوّن من 6 أرقام الذي يظهره.',
+      qrAlt: 'رمز QR للمصادقة الثنائية',
+      manualKey: 'لا يمكنك مسحه؟ أدخل هذا المفتاح بدلًا من ذلك:',
+      enable: 'تفعيل',
+      setupHint: 'يتغيّر الرمز كل 30 ثانية.',
+      disable: 'تعطيل',
+      disableSubmit: 'تعطيل المصادقة الثنائية',
+      disableHint: 'أدخل رمزًا من تطبيق المصادقة أو رمز استرداد.',
+      newCodes: 'رموز استرداد جديدة',
+      regenerateSubmit: 'إنشاء رموز جديدة',
+      regenerateHint: 'ستتوقف رموز الاسترداد المتبقية عن العمل.',
+      active: 'يطلب تسجيل الدخول رمزًا من تطبيق المصادقة.',
+      activeSince: 'يطلب تسجيل الدخول رمزًا من تطبيق المصادقة (مفعّلة منذ {date}).',
+      codesLeft: {
+        zero: 'لم يتبقَّ أي رمز استرداد',
+        one: 'تبقّى رمز استرداد واحد',
+        two: 'تبقّى رمزا استرداد',
+        few: 'تبقّت {count} رموز استرداد',
+        many: 'تبقّى {count} رمزًا للاسترداد',
+        other: 'تبقّى {count} رمز استرداد',
+      },
+      codeRequired: 'أدخل رمزًا من تطبيق المصادقة',
+      genericError: 'حدث خطأ ما. يرجى المحاولة مرة أخرى.',
+      enabled: 'تم تفعيل المصادقة الثنائية',
+      disabled: 'تم تعطيل المصادقة الثنائية',
+      codesRegenerated: 'تم إنشاء رموز استرداد جديدة',
+      saveCodesWarning: 'احفظ رموز الاسترداد هذه في مكان آمن. يمكن استخدام كل رمز مرة واحدة لتسجيل الدخول إذا فقدت تطبيق المصادقة. لن تظهر مرة أخرى.',
+      copy: 'نسخ',
+      download: 'تنزيل',
+      savedThem: 'لقد حفظتها',
+      codesCopied: 'تم نسخ رموز الاسترداد',
+      copyFailed: 'فشل نسخ رموز الاسترداد',
+    },
+    sessions: {
+      title: 'الأجهزة التي سجّلت الدخول منها',
+      loading: 'جارٍ تحميل الجلسات...',
+      thisDevice: 'هذا الجهاز',
+      activeNow: 'نشط الآن',
+      lastActive: 'آخر نشاط {date}',
+      signedIn: 'تم تسجيل الدخول {date}',
+      signOut: 'تسجيل الخروج',
+      signOutOthers: 'تسجيل الخروج من الأجهزة الأخرى',
+      signOutOthersConfirm: 'هل تريد تسجيل الخروج من جميع الأجهزة الأخرى؟',
+      signedOutOf: 'تم تسجيل الخروج من {device}',
+      signedOutOthers: 'تم تسجيل الخروج من جميع الأجهزة الأخرى',
+      signOutFailed: 'فشل تسجيل الخروج من الجهاز',
+      signOutOthersFailed: 'فشل تسجيل الخروج من الأجهزة الأخرى',
+    },
+    email: {
+      verified: 'موثّق',
+      notVerified: 'غير موثّق',
+      pending: 'في انتظار تأكيدك لـ {email}. يبقى عنوانك الحالي قيد الاستخدام حتى تفتح الرابط الذي أرسلناه إليه.',
+      resendLink: 'إعادة إرسال الرابط',
+      cancelChange: 'إلغاء التغيير',
+      verifyPrompt: 'وثّق بريدك الإلكتروني لإتمام الشراء وتلقي تحديثات الطلبات.',
+      resendVerification: 'إعادة إرسال رسالة التوثيق',
+      change: 'تغيير البريد الإلكتروني',
+      newEmail: 'البريد الإلكتروني الجديد',
+      newEmailPlaceholder: 'أدخل بريدك الإلكتروني الجديد',
+      confirmHint: 'سنرسل رابط تأكيد إلى العنوان الجديد.',
+      sendConfirmation: 'إرسال التأكيد',
+      confirmTitle: 'أكّد بريدك الإلكتروني الجديد',
+      confirmText: 'أرسلنا رابطًا إلى {email}.',
+      changeFailed: 'فشل تغيير البريد الإلكتروني',
+      changeCancelled: 'تم إلغاء تغيير البريد الإلكتروني',
+      cancelFailed: 'فشل إلغاء تغيير البريد الإلكتروني',
+    },
+    password: {
+      title: 'تغيير كلمة المرور',
+      current: 'كلمة المرور الحالية',
+      currentPlaceholder: 'أدخل كلمة المرور الحالية',
+      confirm: 'تأكيد كلمة المرور الجديدة',
+      confirmPlaceholder: 'أعد إدخال كلمة المرور الجديدة',
+      changed: 'تم تغيير كلمة المرور',
+      otherDevicesSignedOut: 'تم تسجيل الخروج من الأجهزة الأخرى المتصلة بحسابك.',
+      changeFailed: 'فشل تغيير كلمة المرور',
+    },
+  },
+  admin: {
+    title: 'لوحة الإدارة',
+    administrator: 'مسؤول',
+    nav: {
+      dashboard: 'لوحة التحكم',
+      products: 'المنتجات',
+      categories: 'الفئات',
+      orders: 'الطلبات',
+      returns: 'المرتجعات',
+      users: 'المستخدمون',
+      reviews: 'المراجعات',
+      promotions: 'العروض',
+      shipping: 'الشحن',
+      taxes: 'الضرائب',
+      currencies: 'العملات',
+      analytics: 'التحليلات',
+      settings: 'الإعدادات',
+    },
+    allStatuses: 'كل الحالات',
+    noResultsSearch: 'جرّب تعديل معايير البحث.',
+    dateFrom: 'من',
+    dateTo: 'إلى',
+    exportCsv: 'تصدير CSV',
+    exporting: 'جارٍ التصدير...',
+    sortOrder: 'ترتيب العرض',
+    taxClass: {
+      label: 'فئة الضريبة',
+      standard: 'قياسية',
+      reduced: 'مخفّضة',
+      digital: 'رقمية',
+      exempt: 'معفاة',
+    },
+    dashboard: {
+      loading: 'جارٍ تحميل لوحة التحكم...',
+      welcome: 'مرحبًا بعودتك! إليك ما يحدث في متجرك اليوم.',
+      totalRevenue: 'إجمالي الإيرادات',
+      totalOrders: 'إجمالي الطلبات',
+      totalProducts: 'إجمالي المنتجات',
+      totalCustomers: 'إجمالي العملاء',
+      fromLastMonth: '{change} مقارنة بالشهر الماضي',
+      lowStockCount: {
+        zero: 'لا توجد منتجات منخفضة المخزون',
+        one: 'منتج واحد منخفض المخزون',
+        two: 'منتجان منخفضا المخزون',
+        few: '{count} منتجات منخفضة المخزون',
+        many: '{count} منتجًا منخفض المخزون',
+        other: '{count} منتج منخفض المخزون',
+      },
+      reviewsPending: {
+        zero: 'لا توجد مراجعات معلّقة',
+        one: 'مراجعة واحدة معلّقة',
+        two: 'مراجعتان معلّقتان',
+        few: '{count} مراجعات معلّقة',
+        many: '{count} مراجعةً معلّقة',
+        other: '{count} مراجعة معلّقة',
+      },
+      salesOverview: 'نظرة عامة على المبيعات',
+      salesChartPlaceholder: 'سيظهر مخطط المبيعات هنا',
+      salesChartRange: 'آخر {days} يومًا: {days} نقطة بيانات',
+      lowStockProducts: 'منتجات منخفضة المخزون',
+      wellStocked: 'كل المنتجات متوفرة بكميات كافية!',
+      recentOrders: 'أحدث الطلبات',
+      noRecentOrders: 'لا توجد طلبات حديثة',
+      alerts: 'التنبيهات والإشعارات',
+      lowStockAlert: 'تنبيه انخفاض المخزون',
+      lowStockAlertText: {
+        zero: 'لا توجد منتجات على وشك النفاد',
+        one: 'منتج واحد على وشك النفاد',
+        two: 'منتجان على وشك النفاد',
+        few: '{count} منتجات على وشك النفاد',
+        many: '{count} منتجًا على وشك النفاد',
+        other: '{count} منتج على وشك النفاد',
+      },
+      pendingOrders: 'الطلبات المعلّقة',
+      pendingOrdersText: {
+        zero: 'لا توجد طلبات بانتظار المعالجة',
+        one: 'طلب واحد بانتظار المعالجة',
+        two: 'طلبان بانتظار المعالجة',
+        few: '{count} طلبات بانتظار المعالجة',
+        many: '{count} طلبًا بانتظار المعالجة',
+        other: '{count} طلب بانتظار المعالجة',
+      },
+      noAlerts: 'لا توجد تنبيهات حاليًا',
+      quickActions: 'إجراءات سريعة',
+      addProduct: 'إضافة منتج',
+      addProductText: 'إنشاء منتج جديد',
+      viewOrders: 'عرض الطلبات',
+      viewOrdersText: 'إدارة طلبات العملاء',
+      manageUsers: 'إدارة المستخدمين',
+      manageUsersText: 'عرض العملاء وإدارتهم',
+      analyticsText: 'عرض التحليلات التفصيلية',
+    },
+    products: {
+      title: 'إدارة المنتجات',
+      subtitle: 'إدارة كتالوج المنتجات والمخزون',
+      deleteConfirm: 'هل أنت متأكد من حذف هذا المنتج؟',
+      applyFilters: 'تطبيق عوامل التصفية',
+      featured: 'مميّز',
+      inStock: 'متوفر',
+      lowStock: 'مخزون منخفض',
+      outOfStock: 'نفد المخزون',
+      stock: 'المخزون: {count}',
+      sold: 'المبيع: {count}',
+      views: 'المشاهدات: {count}',
+      rating: 'التقييم: {rating} ⭐',
+      noProducts: 'ابدأ بإضافة أول منتج.',
+      addFirst: 'أضف أول منتج',
+      activeProducts: 'المنتجات النشطة',
+    },
+    categories: {
+      loading: 'جارٍ تحميل الفئات...',
+      title: 'إدارة الفئات',
+      subtitle: 'إدارة فئات المنتجات والفئات الفرعية',
+      deleteConfirm: 'هل أنت متأكد من حذف هذه الفئة؟ سيؤدي ذلك أيضًا إلى حذف كل الفئات الفرعية.',
+      products: 'المنتجات: {count}',
+      subcategories: 'الفئات الفرعية: {count}',
+      add: 'إضافة فئة',
+      update: 'تحديث الفئة',
+      addTitle: 'إضافة فئة جديدة',
+      editTitle: 'تعديل الفئة',
+      name: 'الاسم',
+      namePlaceholder: 'اسم الفئة',
+      parent: 'الفئة الأم',
+      noParent: 'بدون فئة أم (فئة رئيسية)',
+      taxClassAutomatic: 'تلقائي (من الفئة الأم أو المنتجات)',
+      description: 'الوصف',
+      descriptionPlaceholder: 'وصف الفئة',
+      searchPlaceholder: 'ابحث في الفئات...',
+      emptyTitle: 'لم يتم العثور على فئات',
+      emptyText: 'ابدأ بإنشاء أول فئة.',
+      addFirst: 'أضف أول فئة',
+      total: 'إجمالي الفئات',
+      main: 'الفئات الرئيسية',
+    },
+    users: {
+      loading: 'جارٍ تحميل المستخدمين...',
+      title: 'إدارة المستخدمين',
+      subtitle: 'إدارة حسابات المستخدمين والصلاحيات',
+      searchPlaceholder: 'ابحث في المستخدمين...',
+      roles: {
+        buyer: 'مشترٍ',
+        admin: 'مسؤول',
+      },
+      joined: 'تاريخ الانضمام: {date}',
+      forceLogout: 'فرض تسجيل الخروج',
+      forceLogoutConfirm: 'هل تريد تسجيل خروج {email} من كل الأجهزة؟',
+      signedOut: 'تم تسجيل خروج {email}',
+      sessionsEnded: {
+        zero: 'لم تُنهَ أي جلسة',
+        one: 'أُنهيت جلسة واحدة',
+        two: 'أُنهيت جلستان',
+        few: 'أُنهيت {count} جلسات',
+        many: 'أُنهيت {count} جلسةً',
+        other: 'أُنهيت {count} جلسة',
+      },
+      forceLogoutFailed: 'تعذّر تسجيل خروج المستخدم',
+      total: 'إجمالي المستخدمين',
+      active: 'المستخدمون النشطون',
+      inactive: 'المستخدمون غير النشطين',
+    },
+    reviews: {
+      loading: 'جارٍ تحميل المراجعات...',
+      title: 'إدارة المراجعات',
+      subtitle: 'مراجعة تقييمات المنتجات وإدارتها',
+      status: {
+        pending: 'قيد المراجعة',
+        approved: 'مقبولة',
+        rejected: 'مرفوضة',
+      },
+      verifiedPurchase: 'شراء موثّق',
+      approve: 'قبول',
+      reject: 'رفض',
+      total: 'إجمالي المراجعات',
+    },
+    returns: {
+      subtitle: 'راجع طلبات الإرجاع واستلم البضائع المرتجعة وأصدر المبالغ المستردة',
+      searchPlaceholder: 'ابحث برقم RMA أو رقم الطلب...',
+      emptyTitle: 'لم يتم العثور على مرتجعات',
+      emptyText: 'لم يُطلب أي إرجاع بعد.',
+      updated: 'تم تحديث الإرجاع',
+      updateFailed: 'تعذّر تحديث الإرجاع',
+      rejectPrompt: 'لماذا يُرفض هذا الإرجاع؟ سيرى العميل هذا السبب.',
+      restockConfirm: 'هل تريد إعادة {count} × {name} إلى المخزون؟\n\nاختر إلغاء لاستلامه دون إعادته إلى المخزون، مثلًا إذا كان تالفًا.',
+      refundConfirm: 'هل تريد رد {amount} إلى العميل عن {rma}؟',
+      item: 'المنتج',
+      quantityOf: '{count} من {total}',
+      refund: 'المبلغ المسترد',
+      customerNotes: 'العميل:',
+      staffNotes: 'الموظفون:',
+      requestedOn: 'طُلب في {date}',
+      receivedOn: 'استُلم في {date}',
+      receivedRestockedOn: 'استُلم في {date} وأُعيد إلى المخزون',
+      refundedOn: 'رُدّ المبلغ في {date}',
+      markReceived: 'تعليم كمستلم',
+      issueRefund: 'إصدار استرداد',
+    },
+    currencies: {
+      subtitle: 'إدارة العملات التي يمكن للمتسوقين التصفح والدفع بها',
+      explanation: 'تُحدَّد أسعار الكتالوج وأسعار الشحن والعروض بعملة {base}. تُحوَّل العملات الأخرى بالأسعار أدناه، وتُحصَّل الطلبات بالعملة التي اختارها المتسوق وبسعر الصرف الساري وقت الطلب.',
+      add: 'إضافة عملة',
+      editTitle: 'تعديل العملة: {code}',
+      code: 'الرمز',
+      name: 'الاسم',
+      namePlaceholder: 'يورو',
+      rate: 'سعر الصرف',
+      perBase: '(لكل 1 {base})',
+      preview: 'لعبة بسعر {base} تظهر بسعر {converted}.',
+      offered: 'متاحة للمتسوقين',
+      saved: 'تم حفظ العملة',
+      saveFailed: 'تعذّر حفظ العملة',
+      deleteConfirm: 'هل تريد التوقف عن تقديم {code}؟ لن تتأثر الطلبات التي تمت بها.',
+      deleted: 'تم حذف العملة',
+      base: 'الأساسية',
+      baseSetting: 'تُحدَّد من إعداد الخادم BASE_CURRENCY',
+      onlyBase: 'لا تُقدَّم سوى {base}. أضف عملة ليتمكن المتسوقون من الدفع بها.',
+      wholeAmounts: 'مبالغ صحيحة فقط',
+      decimals: {
+        zero: 'بدون منازل عشرية',
+        one: 'منزلة عشرية واحدة',
+        two: 'منزلتان عشريتان',
+        few: '{count} منازل عشرية',
+        many: '{count} منزلةً عشرية',
+        other: '{count} منزلة عشرية',
+      },
+    },
+    taxes: {
+      subtitle: 'إدارة معدلات الضريبة الإقليمية والاطلاع على الضريبة المحصّلة',
+      add: 'إضافة معدل ضريبة',
+      editTitle: 'تعديل معدل الضريبة: {name}',
+      pricesIncludeTax: 'أسعار الكتالوج تشمل الضريبة. الضريبة الظاهرة في الطلبات هي الجزء من السعر الذي يذهب إلى الضريبة.',
+      pricesExcludeTax: 'أسعار الكتالوج لا تشمل الضريبة. تُضاف الضريبة عند الدفع.',
+      ratesStack: 'يُحتسب كل معدل نشط يطابق العنوان وفئة ضريبة المنتج، لذا تتراكم معدلات الولاية والمدينة.',
+      name: 'الاسم',
+      namePlaceholder: 'ضريبة مبيعات ولاية نيويورك',
+      country: 'الدولة',
+      state: 'الولاية',
+      optional: '(اختياري)',
+      wholeCountry: 'الدولة بالكامل',
+      zipPrefixes: 'بادئات الرمز البريدي',
+      commaSeparated: '(مفصولة بفواصل)',
+      ratePercent: 'المعدل (%)',
+      regionWithZip: '{region} (الرمز البريدي {codes})',
+      saved: 'تم حفظ معدل الضريبة',
+      saveFailed: 'تعذّر حفظ معدل الضريبة',
+      deleteConfirm: 'هل تريد حذف معدل الضريبة {name}؟ تحتفظ الطلبات السابقة بالضريبة التي حُصّلت عليها.',
+      deleted: 'تم حذف معدل الضريبة',
+      exportFailed: 'تعذّر تصدير تقرير الضرائب',
+      emptyTitle: 'لا توجد معدلات ضريبة',
+      emptyText: 'لا تُحصَّل أي ضريبة حتى يغطي أحد المعدلات عنوان العميل.',
+      collected: 'الضريبة المحصّلة',
+      refunded: 'الضريبة المستردة',
+      net: 'صافي الضريبة',
+      noneInPeriod: 'لم تُحصَّل أي ضريبة في هذه الفترة.',
+      jurisdiction: 'الجهة الضريبية',
+      rate: 'المعدل',
+      taxable: 'الخاضع للضريبة',
+      tax: 'الضريبة',
+    },
+    shipping: {
+      subtitle: 'إدارة مناطق الشحن والأسعار المعروضة عند الدفع',
+      addZone: 'إضافة منطقة',
+      addZoneTitle: 'إضافة منطقة شحن',
+      editZone: 'تعديل المنطقة: {name}',
+      addRate: 'إضافة سعر',
+      addRateTo: 'إضافة سعر إلى {name}',
+      editRate: 'تعديل السعر: {name}',
+      name: 'الاسم',
+      zonePlaceholder: 'محلي',
+      ratePlaceholder: 'الشحن القياسي',
+      countries: 'الدول',
+      countriesHint: '(مفصولة بفواصل، اتركها فارغة لبقية العالم)',
+      regions: 'الولايات / المناطق',
+      regionsHint: '(اتركها فارغة للدولة بالكامل)',
+      matchingHint: 'تُطابَق العناوين كما كُتبت دون مراعاة حالة الأحرف، لذا أدرج كل التهجئات التي يستخدمها العملاء. المنطقة التي تذكر ولاية العنوان لها الأولوية على منطقة الدولة بالكامل.',
+      everywhereElse: 'أي عنوان لا تغطيه منطقة أخرى',
+      pricing: 'التسعير',
+      rateTypes: {
+        flat: 'سعر ثابت',
+        weight: 'حسب وزن الطرد',
+        subtotal: 'حسب المجموع الفرعي للطلب',
+      },
+      description: 'الوصف',
+      descriptionPlaceholder: 'يظهر للعملاء عند الدفع',
+      price: 'السعر',
+      tiers: 'الشرائح',
+      tiersHintWeight: '(تُحتسب أول شريحة يقع وزن الطرد ضمنها؛ اترك الحد الأخير فارغًا لعدم وضع حد أقصى)',
+      tiersHintSubtotal: '(تُحتسب أول شريحة يقع المجموع الفرعي للطلب ضمنها؛ اترك الحد الأخير فارغًا لعدم وضع حد أقصى)',
+      upTo: 'حتى',
+      noLimit: 'بلا حد',
+      weightLimit: 'حد الوزن بالكيلوغرام',
+      subtotalLimit: 'حد المجموع الفرعي',
+      kgCosts: 'كغ بتكلفة',
+      costs: 'بتكلفة',
+      tierPrice: 'سعر الشريحة',
+      addTier: 'إضافة شريحة',
+      kg: '{weight} كغ',
+      tierUpTo: 'حتى {limit}: {price}',
+      tierOver: 'أكثر من {limit}: {price}',
+      freeOverLabel: 'مجاني فوق',
+      neverFree: 'غير مجاني أبدًا',
+      freeOver: 'مجاني للطلبات فوق {amount}',
+      minDays: 'الحد الأدنى لأيام العمل',
+      maxDays: 'الحد الأقصى لأيام العمل',
+      businessDays: {
+        zero: '{count} يوم عمل',
+        one: 'يوم عمل واحد',
+        two: 'يوما عمل',
+        few: '{count} أيام عمل',
+        many: '{count} يوم عمل',
+        other: '{count} يوم عمل',
+      },
+      businessDaysRange: '{min}-{max} أيام عمل',
+      express: 'سريع',
+      saved: 'تم حفظ الشحن',
+      saveFailed: 'تعذّر الحفظ',
+      deleteZoneConfirm: {
+        zero: 'هل تريد حذف المنطقة {name}؟',
+        one: 'هل تريد حذف المنطقة {name} وسعرها الوحيد؟',
+        two: 'هل تريد حذف المنطقة {name} وسعريها؟',
+        few: 'هل تريد حذف المنطقة {name} وأسعارها الـ{count}؟',
+        many: 'هل تريد حذف المنطقة {name} وأسعارها الـ{count}؟',
+        other: 'هل تريد حذف المنطقة {name} وأسعارها الـ{count}؟',
+      },
+      zoneDeleted: 'تم حذف منطقة الشحن',
+      deleteRateConfirm: 'هل تريد حذف السعر {name}؟',
+      rateDeleted: 'تم حذف سعر الشحن',
+      emptyTitle: 'لا توجد مناطق شحن',
+      emptyText: 'لا يمكن تقديم طلبات تحتوي على منتجات مادية حتى تغطي إحدى المناطق عنوان العميل.',
+      noRates: 'لا توجد أسعار بعد، لذا لا يمكن شحن أي شيء إلى هذه المنطقة.',
+    },
+    promotions: {
+      subtitle: 'إدارة القسائم ورموز الخصم',
+      add: 'إضافة عرض',
+      addTitle: 'إضافة عرض جديد',
+      editTitle: 'تعديل العرض',
+      update: 'تحديث العرض',
+      code: 'الرمز',
+      type: 'النوع',
+      types: {
+        percentage: 'خصم بنسبة مئوية',
+        fixedAmount: 'خصم بمبلغ ثابت',
+        freeShipping: 'شحن مجاني',
+        buyXGetY: 'اشترِ X واحصل على Y مجانًا',
+      },
+      description: 'الوصف',
+      descriptionPlaceholder: 'يظهر للعملاء عند تطبيق الرمز',
+      percentOffLabel: 'نسبة الخصم',
+      amountOffLabel: 'مبلغ الخصم',
+      maxDiscount: 'الحد الأقصى للخصم',
+      noMaximum: 'بلا حد أقصى',
+      buyQuantity: 'كمية الشراء',
+      freeQuantity: 'الكمية المجانية',
+      minSubtotal: 'الحد الأدنى للمجموع الفرعي',
+      noMinimum: 'بلا حد أدنى',
+      startsLabel: 'يبدأ',
+      expiresLabel: 'ينتهي',
+      totalUses: 'إجمالي مرات الاستخدام',
+      usesPerCustomer: 'مرات الاستخدام لكل عميل',
+      unlimited: 'غير محدود',
+      platforms: 'المنصات',
+      appliesToAll: '(عدم تحديد أي منها يطبّق العرض على الكل)',
+      firstOrderOnly: 'للطلب الأول فقط',
+      searchPlaceholder: 'ابحث في العروض...',
+      status: {
+        active: 'نشط',
+        scheduled: 'مجدول',
+        expired: 'منتهي',
+        inactive: 'غير نشط',
+        usedUp: 'مستنفد',
+      },
+      percentOff: 'خصم {percent}%',
+      percentOffUpTo: 'خصم {percent}% (حتى {amount})',
+      amountOff: 'خصم {amount}',
+      buyGet: 'اشترِ {buy} واحصل على {get} مجانًا',
+      used: {
+        zero: 'لم يُستخدم بعد',
+        one: 'استُخدم مرة واحدة',
+        two: 'استُخدم مرتين',
+        few: 'استُخدم {count} مرات',
+        many: 'استُخدم {count} مرةً',
+        other: 'استُخدم {count} مرة',
+      },
+      usedOfLimit: 'استُخدم {count} / {limit} مرة',
+      minimum: 'الحد الأدنى {amount}',
+      starts: 'يبدأ في {date}',
+      expires: 'ينتهي في {date}',
+      unknownCategory: 'فئة غير معروفة',
+      created: 'تم إنشاء العرض',
+      updated: 'تم تحديث العرض',
+      saveFailed: 'تعذّر حفظ العرض',
+      deleteConfirm: 'هل أنت متأكد من حذف {code}؟ الرموز التي استُخدمت تُعطَّل بدلًا من حذفها.',
+      deleted: 'تم حذف العرض',
+      emptyTitle: 'لم يتم العثور على عروض',
+      emptyText: 'أنشئ رمز خصم لتقديم تخفيضات عند الدفع.',
+    },
+    orders: {
+      title: 'إدارة الطلبات',
+      subtitle: 'معالجة طلبات العملاء وإدارتها',
+      loadFailed: 'تعذّر تحميل الطلبات',
+      savedViews: 'طرق العرض المحفوظة',
+      saveView: 'حفظ طريقة العرض',
+      nameView: 'اسم طريقة العرض:',
+      viewSaved: 'تم حفظ طريقة العرض',
+      deleteView: 'حذف طريقة العرض',
+      deleteViewConfirm: 'هل تريد حذف طريقة العرض "{name}"؟',
+      searchPlaceholder: 'ابحث برقم الطلب أو البريد الإلكتروني...',
+      orderStatus: 'حالة الطلب',
+      paymentStatus: 'حالة الدفع',
+      allPayments: 'كل حالات الدفع',
+      minTotal: 'الحد الأدنى للإجمالي',
+      maxTotal: 'الحد الأقصى للإجمالي',
+      applyFilters: 'تطبيق عوامل التصفية',
+      reset: 'إعادة تعيين',
+      selected: {
+        zero: 'لم يُحدَّد شيء',
+        one: 'تم تحديد طلب واحد',
+        two: 'تم تحديد طلبين',
+        few: 'تم تحديد {count} طلبات',
+        many: 'تم تحديد {count} طلبًا',
+        other: 'تم تحديد {count} طلب',
+      },
+      bulkStatus: 'الحالة للطلبات المحددة',
+      changeStatus: 'تغيير الحالة...',
+      markAs: 'تعيين كـ {status}',
+      apply: 'تطبيق',
+      bulkConfirm: {
+        zero: 'هل تريد تعيين {count} طلب كـ {status}؟',
+        one: 'هل تريد تعيين طلب واحد كـ {status}؟',
+        two: 'هل تريد تعيين طلبين كـ {status}؟',
+        few: 'هل تريد تعيين {count} طلبات كـ {status}؟',
+        many: 'هل تريد تعيين {count} طلبًا كـ {status}؟',
+        other: 'هل تريد تعيين {count} طلب كـ {status}؟',
+      },
+      historyNote: 'ملاحظة لسجل الطلب (اختياري):',
+      someNotUpdated: 'لم يتم تحديث بعض الطلبات',
+      updated: 'تم تحديث الطلبات',
+      updateFailed: 'تعذّر تحديث الطلبات',
+      printInvoices: 'طباعة الفواتير',
+      printPackingSlips: 'طباعة قسائم التعبئة',
+      printFailed: 'تعذّرت طباعة المستندات',
+      exportFailed: 'تعذّر تصدير الطلبات',
+      clear: 'مسح',
+      selectAll: 'تحديد كل الطلبات في هذه الصفحة',
+      selectOrder: 'تحديد الطلب {number}',
+      columns: {
+        order: 'الطلب',
+        date: 'التاريخ',
+        customer: 'العميل',
+        items: 'المنتجات',
+        total: 'الإجمالي',
+        status: 'الحالة',
+        payment: 'الدفع',
+      },
+      packingSlip: 'قسيمة التعبئة',
+      refund: 'استرداد',
+      invoiceFailed: 'تعذّر تنزيل الفاتورة',
+      packingSlipFailed: 'تعذّر تنزيل قسيمة التعبئة',
+      emptyTitle: 'لم يتم العثور على طلبات',
+      emptyText: 'لم يُقدَّم أي طلب بعد.',
+      count: {
+        zero: 'لا توجد طلبات',
+        one: 'طلب واحد',
+        two: 'طلبان',
+        few: '{count} طلبات',
+        many: '{count} طلبًا',
+        other: '{count} طلب',
+      },
+      perPageLabel: 'الطلبات في كل صفحة',
+      perPage: '{count} في كل صفحة',
+    },
+    orderDetail: {
+      notesSaved: 'تم حفظ الملاحظات',
+      notesFailed: 'تعذّر حفظ الملاحظات',
+      trackingUpdated: 'تم تحديث بيانات التتبع',
+      trackingFailed: 'تعذّر تحديث التتبع',
+      resendConfirm: 'هل تريد إرسال تأكيد الطلب إلى {email} مرة أخرى؟',
+      confirmationSent: 'تم إرسال رسالة التأكيد',
+      resendFailed: 'تعذّرت إعادة إرسال التأكيد',
+      packingSlip: 'قسيمة التعبئة',
+      resend: 'إعادة إرسال التأكيد',
+      sending: 'جارٍ الإرسال...',
+      digitalDelivery: 'تسليم رقمي',
+      shippedOf: 'شُحن {shipped} من {total}',
+      notShipped: 'لم يُشحن',
+      amountRefunded: 'تم رد {amount}',
+      shippingWithMethod: 'الشحن ({method})',
+      shipments: 'الشحنات',
+      createShipment: 'إنشاء شحنة',
+      singleParcel: 'شُحن في طرد واحد؛ راجع التتبع.',
+      nothingShipped: 'لم يُشحن أي شيء بعد.',
+      shipmentNumber: 'الشحنة {number}',
+      track: 'تتبع',
+      by: 'بواسطة {name}',
+      statusHistory: 'سجل الحالات',
+      system: 'النظام',
+      unknown: 'غير معروف',
+      activity: 'النشاط',
+      noActivity: 'لا يوجد نشاط مسجّل.',
+      cancelReason: 'أُلغي: {reason}',
+      customerNote: 'ملاحظة العميل:',
+      addresses: 'العناوين',
+      digitalOnly: 'تسليم رقمي فقط',
+      method: 'الطريقة',
+      paymentIntent: 'Payment Intent',
+      charge: 'عملية الدفع',
+      trackingNumber: 'رقم التتبع',
+      trackingUrl: 'رابط التتبع (اختياري)',
+      saveTracking: 'حفظ التتبع',
+      internalNotes: 'ملاحظات داخلية',
+      notesPlaceholder: 'لا يراها إلا الموظفون',
+      saveNotes: 'حفظ الملاحظات',
+    },
+    refund: {
+      title: 'استرداد الطلب #{number}',
+      description: 'اختر المنتجات والشحن والضريبة المراد ردّها. يُرد المبلغ إلى وسيلة الدفع الأصلية.',
+      loadFailed: 'تعذّر تحميل المبالغ المستردة',
+      processed: 'تمت معالجة الاسترداد',
+      failed: 'فشل الاسترداد',
+      orderTotal: 'إجمالي الطلب',
+      refundable: 'القابل للاسترداد',
+      each: '{price} للقطعة',
+      refundedOf: 'استُرد {refunded} من {total}',
+      quantityLabel: 'الكمية المراد استردادها من {name}',
+      upTo: '(حتى {amount})',
+      reasonPlaceholder: 'مثلًا: وصل المنتج تالفًا',
+      previous: 'المبالغ المستردة سابقًا',
+      sources: {
+        admin: 'الموظفون',
+        customer: 'العميل',
+        return: 'إرجاع',
+        stripe: 'لوحة تحكم Stripe',
+      },
+      total: 'إجمالي الاسترداد',
+      exceedsBalance: 'مبلغ الاسترداد أكبر من {amount} المتبقية في هذا الطلب.',
+      refunding: 'جارٍ الاسترداد...',
+      submit: 'استرداد {amount}',
+    },
+  },
+  errors: {
+    notFoundTitle: 'الصفحة غير موجودة',
+    notFoundText: 'الصفحة التي تبحث عنها غير موجودة أو تم نقلها إلى مكان آخر.',
+    forbiddenTitle: 'الوصول ممنوع',
+    forbiddenText: 'ليست لديك صلاحية الوصول إلى هذه الصفحة. يُرجى التواصل مع مسؤول إذا كنت تعتقد أن هذا خطأ.',
+  },
+  validation: {
+    required: 'هذا الحقل مطلوب',
+    email: 'يرجى إدخال بريد إلكتروني صالح',
+    minLength: {
+      one: 'يجب ألا يقل عن حرف واحد',
+      two: 'يجب ألا يقل عن حرفين',
+      few: 'يجب ألا يقل عن {count} أحرف',
+      many: 'يجب ألا يقل عن {count} حرفًا',
+      other: 'يجب ألا يقل عن {count} حرف',
+    },
+    maxLength: {
+      one: 'يجب ألا يزيد عن حرف واحد',
+      two: 'يجب ألا يزيد عن حرفين',
+      few: 'يجب ألا يزيد عن {count} أحرف',
+      many: 'يجب ألا يزيد عن {count} حرفًا',
+      other: 'يجب ألا يزيد عن {count} حرف',
+    },
+    minNumber: 'يجب ألا يقل عن {min}',
+    firstNameRequired: 'الاسم الأول مطلوب',
+    firstNameMin: 'يجب ألا يقل الاسم الأول عن حرفين',
+    lastNameRequired: 'اسم العائلة مطلوب',
+    lastNameMin: 'يجب ألا يقل اسم العائلة عن حرفين',
+    passwordRequired: 'كلمة المرور مطلوبة',
+    codeRequired: 'رمز المصادقة مطلوب',
+    passwordMin: 'يجب ألا تقل كلمة المرور عن 8 أحرف',
+    passwordsMismatch: 'كلمتا المرور غير متطابقتين',
+    passwordWeak: 'اختر كلمة مرور أقوى',
+    phoneRequired: 'رقم الهاتف مطلوب',
+    addressRequired: 'العنوان مطلوب',
+    cityRequired: 'المدينة مطلوبة',
+    stateRequired: 'الولاية أو المنطقة مطلوبة',
+    zipCodeRequired: 'الرمز البريدي مطلوب',
+    countryRequired: 'الدولة مطلوبة',
+    shippingMethodRequired: 'يرجى اختيار طريقة الشحن',
+    notesMax: 'يجب ألا تزيد الملاحظات عن 500 حرف',
+    acceptTerms: 'يجب الموافقة على الشروط والأحكام',
+    productNameRequired: 'الاسم مطلوب',
+    descriptionRequired: 'الوصف مطلوب',
+    priceMin: 'يجب أن يكون السعر موجبًا',
+    costPriceMin: 'يجب أن تكون التكلفة موجبة',
+    skuRequired: 'رمز المنتج مطلوب',
+    stockMin: 'يجب أن تكون كمية المخزون موجبة',
+    lowStockMin: 'يجب أن يكون حد انخفاض المخزون موجبًا',
+    categoryRequired: 'الفئة مطلوبة',
+    labelRequired: 'التسمية مطلوبة',
+  },
+};
@@ -0,0 +1,1065 @@
+export const en = {
+  common: {
+    loading: 'Loading...',
+    back: 'Back',
+    edit: 'Edit',
+    free: 'Free',
+    language: 'Language',
+    currency: 'Currency',
+    backToHome: 'Back to Home',
+    goHome: 'Go Home',
+    goBack: 'Go Back',
+    processing: 'Processing...',
+    add: 'Add',
+    cancel: 'Cancel',
+    saveChanges: 'Save Changes',
+    saving: 'Saving...',
+    view: 'View',
+    active: 'Active',
+    inactive: 'Inactive',
+    export: 'Export',
+    import: 'Import',
+    previous: 'Previous',
+    next: 'Next',
+    pageOf: 'Page {page} of {total}',
+  },
+  nav: {
+    home: 'Home',
+    products: 'Products',
+    categories: 'Categories',
+    searchPlaceholder: 'Search products...',
+    profile: 'Profile',
+    orders: 'Orders',
+    wishlist: 'Wishlist',
+    reviews: 'Reviews',
+    adminDashboard: 'Admin Dashboard',
+    logout: 'Logout',
+    login: 'Login',
+    signUp: 'Sign Up',
+    cart: 'Cart',
+    openMenu: 'Open menu',
+  },
+  footer: {
+    tagline: 'Your ultimate destination for gaming products. Quality games, consoles, and accessories for every gamer.',
+    quickLinks: 'Quick Links',
+    aboutUs: 'About Us',
+    customerService: 'Customer Service',
+    contactUs: 'Contact Us',
+    shippingInfo: 'Shipping Info',
+    returns: 'Returns & Exchanges',
+    faq: 'FAQ',
+    contactInfo: 'Contact Info',
+    copyright: '© {year} GameStore. All rights reserved.',
+    privacy: 'Privacy Policy',
+    terms: 'Terms of Service',
+  },
+  home: {
+    heroTitle: 'Your Ultimate',
+    heroHighlight: 'Gaming Destination',
+    heroSubtitle: 'Discover the latest games, consoles, and accessories. Level up your gaming experience with premium products.',
+    shopNow: 'Shop Now',
+    browseCategories: 'Browse Categories',
+    consoles: 'Consoles',
+    pcGaming: 'PC Gaming',
+    accessories: 'Accessories',
+    latestGames: 'Latest Games',
+    categoriesTitle: 'Shop by Category',
+    categoriesSubtitle: "Find exactly what you're looking for in our organized categories",
+    productCount: { one: '{count} product', other: '{count} products' },
+    featuredTitle: 'Featured Products',
+    featuredSubtitle: 'Handpicked products for the ultimate gaming experience',
+    sale: 'SALE',
+    viewDetails: 'View Details',
+    viewAllProducts: 'View All Products',
+    whyTitle: 'Why Choose GameStore?',
+    whySubtitle: 'We provide the best gaming experience with quality products and excellent service',
+    fastDelivery: 'Fast Delivery',
+    fastDeliveryText: 'Get your gaming gear delivered quickly and securely to your doorstep',
+    qualityProducts: 'Quality Products',
+    qualityProductsText: 'Curated selection of premium gaming products from top brands',
+    support: '24/7 Support',
+    supportText: 'Our customer support team is always ready to help you',
+  },
+  products: {
+    loading: 'Loading products...',
+    title: 'All Products',
+    subtitle: 'Discover our collection of gaming products',
+    search: 'Search',
+    filters: 'Filters',
+    sortLatest: 'Latest',
+    sortName: 'Name',
+    sortPrice: 'Price',
+    sortRating: 'Rating',
+    noResultsTitle: 'No products found',
+    noResultsText: 'Try adjusting your search or filters',
+    sale: 'SALE',
+    viewDetails: 'View Details',
+  },
+  product: {
+    loading: 'Loading product...',
+    notFound: 'Product not found',
+    loadFailed: 'Failed to load product',
+    notFoundTitle: 'Product Not Found',
+    notFoundText: "The product you're looking for doesn't exist or has been removed.",
+    browseProducts: 'Browse Products',
+    reviewCount: { one: '({count} review)', other: '({count} reviews)' },
+    sku: 'SKU: {sku}',
+    percentOff: '{percent}% OFF',
+    inStock: '{count} in stock',
+    outOfStock: 'Out of stock',
+    onlyLeft: 'Only {count} left!',
+    quantity: 'Quantity:',
+    addToCart: 'Add to Cart',
+    freeShipping: 'Free Shipping',
+    freeShippingText: 'On orders over $50',
+    securePayment: 'Secure Payment',
+    securePaymentText: '100% secure checkout',
+    easyReturns: 'Easy Returns',
+    easyReturnsText: '30 day return policy',
+    tabDescription: 'Description',
+    tabSpecifications: 'Specifications',
+    tabReviews: 'Reviews ({count})',
+    descriptionTitle: 'Product Description',
+    customerReviews: 'Customer Reviews',
+  },
+  search: {
+    title: 'Search Products',
+    prompt: 'Enter a search term to find products in our store.',
+    placeholder: 'Search for products...',
+    search: 'Search',
+    popular: 'Popular Searches',
+    resultsFor: 'Search Results for "{query}"',
+    found: { one: '{count} product found', other: '{count} products found' },
+    category: 'Category',
+    allCategories: 'All Categories',
+    allPrices: 'All Prices',
+    sortRelevance: 'Relevance',
+    sortName: 'Name',
+    sortPrice: 'Price',
+    sortRating: 'Rating',
+    sortNewest: 'Newest',
+    clear: 'Clear',
+    noResultsTitle: 'No products found',
+    noResultsText: 'Try adjusting your search terms or filters.',
+    clearFilters: 'Clear Filters',
+    browseAll: 'Browse All Products',
+  },
+  wishlist: {
+    loading: 'Loading wishlist...',
+    emptyTitle: 'Your wishlist is empty',
+    emptyText: "Save games you're interested in and we'll show you when they get cheaper or come back in stock.",
+    browseGames: 'Browse Games',
+    title: 'Wishlist',
+    savedCount: { one: '{count} saved item', other: '{count} saved items' },
+    priceDropped: 'Price dropped {amount}',
+    backInStock: 'Back in stock',
+    savedOn: 'Saved {date}',
+    moveToCart: 'Move to Cart',
+    remove: 'Remove from wishlist',
+  },
+  cart: {
+    loading: 'Loading cart...',
+    emptyTitle: 'Your cart is empty',
+    emptyText: "Looks like you haven't added any products to your cart yet.",
+    startShopping: 'Start Shopping',
+    title: 'Shopping Cart',
+    subtitle: 'Review your items and proceed to checkout',
+    sku: 'SKU: {sku}',
+    moveToWishlist: 'Move to wishlist',
+    remove: 'Remove',
+    orderSummary: 'Order Summary',
+    subtotal: { one: 'Subtotal ({count} item)', other: 'Subtotal ({count} items)' },
+    tax: 'Tax',
+    taxIncluded: 'Tax (included)',
+    shipping: 'Shipping',
+    discount: 'Discount',
+    calculatedAtCheckout: 'Calculated at checkout',
+    estimatedTotal: 'Estimated Total',
+    proceedToCheckout: 'Proceed to Checkout',
+    continueShopping: 'Continue Shopping',
+  },
+  promo: {
+    placeholder: 'Promo code',
+    apply: 'Apply',
+    applying: 'Applying...',
+    remove: 'Remove promo code',
+    failed: 'Failed to apply promo code',
+    signInPrompt: 'Have a promo code?',
+    signIn: 'Sign in',
+    signInSuffix: 'to use it.',
+  },
+  checkout: {
+    title: 'Checkout',
+    backToCart: 'Back to Cart',
+    steps: {
+      shipping: 'Shipping Address',
+      billing: 'Billing Address',
+      delivery: 'Shipping Method',
+      payment: 'Payment Method',
+      review: 'Review & Place Order',
+    },
+    continueToDelivery: 'Continue to Delivery',
+    continueToPayment: 'Continue to Payment',
+    continueToReview: 'Continue to Review',
+    orderSummary: 'Order Summary',
+    quantity: 'Qty: {count}',
+    subtotal: { one: 'Subtotal ({count} item)', other: 'Subtotal ({count} items)' },
+    tax: 'Tax',
+    taxIncluded: 'Tax (included)',
+    taxFromAddress: 'Calculated from your address',
+    shipping: 'Shipping',
+    digitalDelivery: 'Digital delivery',
+    shippingNextStep: 'Calculated at next step',
+    discount: 'Discount',
+    discountWithCode: 'Discount ({code})',
+    total: 'Total',
+    chargedIn: 'Charged in {currency}',
+    secureTitle: 'Secure Checkout',
+    secureText: 'Your payment information is encrypted and secure. We never store your card details.',
+    noShippingMethods: "We can't ship this order to the address you entered. Please check the address or contact us for help.",
+    express: 'Express',
+    arrives: 'Arrives {date}',
+    arrivesBetween: 'Arrives {from} – {to}',
+    shipTo: 'Ship To',
+    billTo: 'Bill To',
+    delivery: 'Delivery',
+    keysEmailed: 'Keys are emailed once payment is confirmed',
+    payment: 'Payment',
+    chargedViaStripe: 'Charged securely via Stripe',
+    notes: 'Order Notes',
+    notesPlaceholder: 'Anything we should know about your order?',
+    acceptTerms: 'I agree to the terms and conditions',
+    placeOrder: 'Place Order',
+    retryPayment: 'Retry Payment',
+    savedCards: 'Saved cards',
+    newCard: 'Use a new card',
+    cardEnding: '{brand} ending in {last4}',
+    cardExpires: 'Expires {month}/{year}',
+    cardExpiringSoon: 'Expiring soon',
+    cardExpired: 'Expired',
+    success: {
+      verifying: 'Confirming your payment...',
+      failedTitle: 'Payment Failed',
+      failedText: 'We could not complete your payment. No charge has been made.',
+      pendingTitle: 'Payment Processing',
+      pendingText: "Your payment is still being processed. We'll email you as soon as it's confirmed.",
+      viewOrders: 'View Orders',
+      title: 'Order Confirmed!',
+      thankYou: 'Thank you for your purchase. Your order has been successfully placed.',
+      orderNumber: 'Order Number:',
+      nextTitle: 'What happens next?',
+      emailTitle: 'Confirmation Email',
+      emailText: "You'll receive an order confirmation email shortly with all the details.",
+      processingTitle: 'Order Processing',
+      processingText: "We'll start processing your order and prepare it for shipping.",
+      shippingTitle: 'Shipping Updates',
+      shippingText: "You'll receive tracking information once your order ships.",
+      help: 'Need help? Contact our support team at',
+    },
+    errors: {
+      loadShippingMethods: 'Failed to load shipping methods. Please refresh the page.',
+      paymentLoading: 'Payment system is still loading. Please try again in a moment.',
+      paymentDetails: 'Your payment details could not be processed.',
+      paymentUnexpected: 'An unexpected error occurred while processing your payment. Please try again.',
+      createOrder: 'Failed to create order. Please try again.',
+      paymentFailed: 'Payment processing failed. Please try again.',
+      declined: 'Your payment was declined. Please try another payment method.',
+      incomplete: 'Payment could not be completed. Please try again.',
+      checkoutFailed: 'Checkout failed. Please try again.',
+      addressInvalid: "We couldn't verify this address. Please check it and try again.",
+    },
+  },
+  orders: {
+    loading: 'Loading orders...',
+    title: 'My Orders',
+    subtitle: 'Track your orders and view order history',
+    emptyTitle: 'No orders yet',
+    emptyText: "You haven't placed any orders yet. Start shopping to see your orders here.",
+    startShopping: 'Start Shopping',
+    orderNumber: 'Order #{number}',
+    placedOn: 'Placed on {date}',
+    quantityEach: 'Qty: {count} • {price} each',
+    totalAmount: 'Total: {total}',
+    itemCount: { one: '{count} item', other: '{count} items' },
+    viewDetails: 'View Details',
+    cancelOrder: 'Cancel Order',
+    shippingAddress: 'Shipping Address:',
+    trackingNumber: 'Tracking Number:',
+  },
+  orderDetail: {
+    loading: 'Loading order...',
+    notFoundTitle: 'Order not found',
+    notFoundText: "We couldn't find this order in your account.",
+    backToOrders: 'Back to Orders',
+    cancelConfirm: 'Are you sure you want to cancel this order?',
+    cancelled: 'Order cancelled',
+    cancelFailed: 'Failed to cancel order',
+    invoiceFailed: 'Failed to download invoice',
+    invoice: 'Invoice',
+    downloading: 'Downloading...',
+    cancelling: 'Cancelling...',
+    items: 'Items',
+    return: 'Return',
+    returnLine: 'Return {rma} • {count} × {reason}',
+    returnDeadline: 'Items can be returned until {date}.',
+    subtotal: 'Subtotal',
+    refunded: 'Refunded',
+    orderStatus: 'Order Status',
+    tracking: 'Tracking',
+    trackPackage: 'Track package',
+    shippingAddress: 'Shipping Address',
+    digitalDeliveryTo: 'Digital delivery to {email}',
+  },
+  orderStatus: {
+    pending: 'Pending',
+    confirmed: 'Confirmed',
+    processing: 'Processing',
+    shipped: 'Shipped',
+    delivered: 'Delivered',
+    cancelled: 'Cancelled',
+    refunded: 'Refunded',
+    failed: 'Failed',
+  },
+  paymentStatus: {
+    pending: 'Pending',
+    paid: 'Paid',
+    partially_refunded: 'Partially refunded',
+    failed: 'Failed',
+    refunded: 'Refunded',
+    cancelled: 'Cancelled',
+  },
+  returnStatus: {
+    requested: 'Requested',
+    approved: 'Approved',
+    rejected: 'Rejected',
+    received: 'Received',
+    refunded: 'Refunded',
+  },
+  returnReason: {
+    damaged: 'Arrived damaged',
+    defective: 'Defective or not working',
+    wrongItem: 'Wrong item sent',
+    notAsDescribed: 'Not as described',
+    noLongerNeeded: 'No longer needed',
+    otherReason: 'Other',
+  },
+  returnForm: {
+    quantity: 'Quantity',
+    reason: 'Reason',
+    details: 'Details (optional)',
+    cancel: 'Cancel',
+    submit: 'Request Return',
+    submitting: 'Submitting...',
+    requested: 'Return requested',
+    failed: 'Failed to request return',
+  },
+  address: {
+    firstName: 'First Name',
+    lastName: 'Last Name',
+    email: 'Email',
+    phone: 'Phone',
+    street: 'Address',
+    city: 'City',
+    state: 'State',
+    zipCode: 'ZIP Code',
+    country: 'Country',
+    firstNamePlaceholder: 'Enter first name',
+    lastNamePlaceholder: 'Enter last name',
+    emailPlaceholder: 'Enter email',
+    phonePlaceholder: 'Enter phone number',
+    streetPlaceholder: 'Enter street address',
+    cityPlaceholder: 'Enter city',
+    statePlaceholder: 'Enter state',
+    zipCodePlaceholder: 'Enter ZIP code',
+    countryPlaceholder: 'Enter country',
+    savedAddresses: 'Saved addresses',
+    newAddress: 'Use a new address',
+    default: 'Default',
+    saveToBook: 'Save this address to my address book',
+    billingDiffers: 'My billing address is different from my shipping address',
+    billingAddress: 'Billing Address',
+  },
+  auth: {
+    welcomeBack: 'Welcome Back',
+    signInSubtitle: 'Sign in to your account to continue',
+    emailAddress: 'Email Address',
+    emailPlaceholder: 'Enter your email',
+    password: 'Password',
+    passwordPlaceholder: 'Enter your password',
+    forgotPassword: 'Forgot your password?',
+    signIn: 'Sign In',
+    signingIn: 'Signing in...',
+    orContinueWith: 'Or continue with',
+    continueWithGoogle: 'Continue with Google',
+    noAccount: "Don't have an account?",
+    signUp: 'Sign up',
+    loginFailed: 'Login failed. Please try again.',
+    showPassword: 'Show password',
+    hidePassword: 'Hide password',
+    twoFactorTitle: 'Two-Factor Authentication',
+    twoFactorSubtitle: 'Enter the 6-digit code from your authenticator app',
+    recoveryCodeSubtitle: 'Enter one of the recovery codes you saved when you set up two-factor authentication',
+    authenticationCode: 'Authentication Code',
+    recoveryCode: 'Recovery Code',
+    verify: 'Verify',
+    verifying: 'Verifying...',
+    useRecoveryCode: 'Lost your device? Use a recovery code',
+    useAuthenticatorCode: 'Use your authenticator app instead',
+    startOver: 'Sign in with a different account',
+    createAccountTitle: 'Create Your Account',
+    createAccountSubtitle: 'Join GameStore and start your gaming journey',
+    basicInformation: 'Basic Information',
+    firstName: 'First Name',
+    firstNamePlaceholder: 'Enter your first name',
+    lastName: 'Last Name',
+    lastNamePlaceholder: 'Enter your last name',
+    phoneOptional: 'Phone Number (Optional)',
+    phonePlaceholder: 'Enter your phone number',
+    createPasswordPlaceholder: 'Create a password',
+    confirmPassword: 'Confirm Password',
+    confirmPasswordPlaceholder: 'Confirm your password',
+    addPaymentDetails: 'Add payment details now (optional)',
+    paymentInformation: 'Payment Information',
+    cardNumber: 'Card Number',
+    expiryDate: 'Expiry Date',
+    cvc: 'CVC',
+    addShippingAddress: 'Add shipping address now (optional)',
+    shippingAddress: 'Shipping Address',
+    streetAddress: 'Street Address',
+    streetAddressPlaceholder: 'Enter your street address',
+    city: 'City',
+    cityPlaceholder: 'Enter your city',
+    state: 'State',
+    statePlaceholder: 'Enter your state',
+    zipCode: 'ZIP Code',
+    zipCodePlaceholder: 'Enter ZIP code',
+    country: 'Country',
+    countryPlaceholder: 'Enter your country',
+    createAccount: 'Create Account',
+    creatingAccount: 'Creating Account...',
+    registrationFailed: 'Registration failed. Please try again.',
+    haveAccount: 'Already have an account?',
+    signInLink: 'Sign in',
+    passwordStrength: 'Password strength: {level}',
+    strengthTooShort: 'Too short',
+    strengthWeak: 'Weak',
+    strengthFair: 'Fair',
+    strengthGood: 'Good',
+    strengthStrong: 'Strong',
+    passwordHint: 'Longer is stronger. Mix words, numbers and symbols, and avoid common passwords.',
+    resetPasswordTitle: 'Reset Password',
+    resetPasswordSubtitle: 'Choose a new password for your account',
+    newPassword: 'New Password',
+    newPasswordPlaceholder: 'Enter a new password',
+    resetPassword: 'Reset Password',
+    resettingPassword: 'Resetting...',
+    resetLinkInvalidTitle: 'Invalid Reset Link',
+    resetLinkInvalidText: 'This password reset link is invalid or has expired.',
+    requestNewLink: 'Request a New Link',
+    backToLogin: 'Back to Login',
+    verifyingEmailTitle: 'Verifying Email',
+    verifyingEmailText: 'Please wait while we verify your email address...',
+    emailVerifiedTitle: 'Email Verified!',
+    emailVerifiedText: '{email} is now verified.',
+    verificationFailedTitle: 'Verification Failed',
+    verificationFailedText: 'This verification link is invalid or has expired.',
+    sendNewLink: 'Send a New Link',
+    sendingLink: 'Sending...',
+    continue: 'Continue',
+    verifyEmailBannerTitle: 'Please verify your email address',
+    verifyEmailBannerText: 'Confirm {email} before checking out so we can send your order confirmation and game keys.',
+  },
+  profile: {
+    paymentMethods: {
+      title: 'Payment Methods',
+      addCard: 'Add Card',
+      saveCard: 'Save Card',
+      loading: 'Loading payment methods...',
+      empty: 'You have no saved cards. Save one to pay in one click at checkout.',
+      useAsDefault: 'Use as my default card',
+      expired: 'Expired {month}/{year}',
+      expiringSoon: 'Expiring soon, add a new card to keep paying in one click',
+      makeDefault: 'Make default',
+      remove: 'Remove card',
+      removeConfirm: 'Remove the card ending {last4}?',
+      saveFailed: 'Your card could not be saved.',
+      addFailed: 'Failed to add card',
+      saved: 'Card saved',
+      savedNotDefault: 'Card saved, but it could not be made the default',
+      defaultFailed: 'Failed to update default card',
+      removed: 'Card removed',
+      removeFailed: 'Failed to remove card',
+    },
+    twoFactor: {
+      on: 'On',
+      intro: 'Protect your account with a code from an authenticator app each time you sign in.',
+      adminRequired: 'Admin accounts must use two-factor authentication. Enable it to access the admin dashboard.',
+      setUp: 'Set Up Two-Factor',
+      starting: 'Starting...',
+      setupFailed: 'Failed to start two-factor setup',
+      scanInstructions: 'Scan this QR code with an authenticator app such as Google Authenticator, 1Password or Authy, then enter the 6-digit code it shows.',
+      qrAlt: 'Two-factor QR code',
+      manualKey: "Can't scan it? Enter this key instead:",
+      enable: 'Enable',
+      setupHint: 'The code changes every 30 seconds.',
+      disable: 'Disable',
+      disableSubmit: 'Disable Two-Factor',
+      disableHint: 'Enter a code from your authenticator app or a recovery code.',
+      newCodes: 'New Recovery Codes',
+      regenerateSubmit: 'Generate New Codes',
+      regenerateHint: 'Your remaining recovery codes will stop working.',
+      active: 'Signing in asks for a code from your authenticator app.',
+      activeSince: 'Signing in asks for a code from your authenticator app (enabled {date}).',
+      codesLeft: { one: '{count} recovery code left', other: '{count} recovery codes left' },
+      codeRequired: 'Enter a code from your authenticator app',
+      genericError: 'Something went wrong. Please try again.',
+      enabled: 'Two-factor authentication enabled',
+      disabled: 'Two-factor authentication disabled',
+      codesRegenerated: 'New recovery codes generated',
+      saveCodesWarning: "Save these recovery codes somewhere safe. Each one can be used once to sign in if you lose your authenticator app. They won't be shown again.",
+      copy: 'Copy',
+      download: 'Download',
+      savedThem: "I've saved them",
+      codesCopied: 'Recovery codes copied',
+      copyFailed: 'Failed to copy recovery codes',
+    },
+    sessions: {
+      title: "Where You're Signed In",
+      loading: 'Loading sessions...',
+      thisDevice: 'This device',
+      activeNow: 'Active now',
+      lastActive: 'Last active {date}',
+      signedIn: 'Signed in {date}',
+      signOut: 'Sign Out',
+      signOutOthers: 'Sign Out Everywhere Else',
+      signOutOthersConfirm: 'Sign out of every other device?',
+      signedOutOf: 'Signed out of {device}',
+      signedOutOthers: 'Signed out of all other devices',
+      signOutFailed: 'Failed to sign out device',
+      signOutOthersFailed: 'Failed to sign out other devices',
+    },
+    email: {
+      verified: 'Verified',
+      notVerified: 'Not Verified',
+      pending: 'Waiting for you to confirm {email}. Your current address stays in use until you open the link we sent there.',
+      resendLink: 'Resend Link',
+      cancelChange: 'Cancel Change',
+      verifyPrompt: 'Verify your email to check out and receive order updates.',
+      resendVerification: 'Resend Verification',
+      change: 'Change Email',
+      newEmail: 'New Email',
+      newEmailPlaceholder: 'Enter your new email',
+      confirmHint: "We'll send a confirmation link to the new address.",
+      sendConfirmation: 'Send Confirmation',
+      confirmTitle: 'Confirm your new email',
+      confirmText: 'We sent a link to {email}.',
+      changeFailed: 'Failed to change email',
+      changeCancelled: 'Email change cancelled',
+      cancelFailed: 'Failed to cancel email change',
+    },
+    password: {
+      title: 'Change Password',
+      current: 'Current Password',
+      currentPlaceholder: 'Enter your current password',
+      confirm: 'Confirm New Password',
+      confirmPlaceholder: 'Repeat the new password',
+      changed: 'Password changed',
+      otherDevicesSignedOut: 'Other devices signed in to your account have been signed out.',
+      changeFailed: 'Failed to change password',
+    },
+  },
+  admin: {
+    title: 'Admin Dashboard',
+    administrator: 'Administrator',
+    nav: {
+      dashboard: 'Dashboard',
+      products: 'Products',
+      categories: 'Categories',
+      orders: 'Orders',
+      returns: 'Returns',
+      users: 'Users',
+      reviews: 'Reviews',
+      promotions: 'Promotions',
+      shipping: 'Shipping',
+      taxes: 'Taxes',
+      currencies: 'Currencies',
+      analytics: 'Analytics',
+      settings: 'Settings',
+    },
+    allStatuses: 'All Statuses',
+    noResultsSearch: 'Try adjusting your search criteria.',
+    dateFrom: 'From',
+    dateTo: 'To',
+    exportCsv: 'Export CSV',
+    exporting: 'Exporting...',
+    sortOrder: 'Sort Order',
+    taxClass: {
+      label: 'Tax Class',
+      standard: 'Standard',
+      reduced: 'Reduced',
+      digital: 'Digital',
+      exempt: 'Exempt',
+    },
+    dashboard: {
+      loading: 'Loading dashboard...',
+      welcome: "Welcome back! Here's what's happening with your store today.",
+      totalRevenue: 'Total Revenue',
+      totalOrders: 'Total Orders',
+      totalProducts: 'Total Products',
+      totalCustomers: 'Total Customers',
+      fromLastMonth: '{change} from last month',
+      lowStockCount: { one: '{count} product low in stock', other: '{count} products low in stock' },
+      reviewsPending: { one: '{count} review pending', other: '{count} reviews pending' },
+      salesOverview: 'Sales Overview',
+      salesChartPlaceholder: 'Sales chart will be implemented here',
+      salesChartRange: 'Last {days} days: {days} data points',
+      lowStockProducts: 'Low Stock Products',
+      wellStocked: 'All products are well stocked!',
+      recentOrders: 'Recent Orders',
+      noRecentOrders: 'No recent orders',
+      alerts: 'Alerts & Notifications',
+      lowStockAlert: 'Low Stock Alert',
+      lowStockAlertText: { one: '{count} product is running low on stock', other: '{count} products are running low on stock' },
+      pendingOrders: 'Pending Orders',
+      pendingOrdersText: { one: '{count} order awaiting processing', other: '{count} orders awaiting processing' },
+      noAlerts: 'No alerts at the moment',
+      quickActions: 'Quick Actions',
+      addProduct: 'Add Product',
+      addProductText: 'Create a new product listing',
+      viewOrders: 'View Orders',
+      viewOrdersText: 'Manage customer orders',
+      manageUsers: 'Manage Users',
+      manageUsersText: 'View and manage customers',
+      analyticsText: 'View detailed analytics',
+    },
+    products: {
+      title: 'Products Management',
+      subtitle: 'Manage your product catalog and inventory',
+      deleteConfirm: 'Are you sure you want to delete this product?',
+      applyFilters: 'Apply Filters',
+      featured: 'Featured',
+      inStock: 'In Stock',
+      lowStock: 'Low Stock',
+      outOfStock: 'Out of Stock',
+      stock: 'Stock: {count}',
+      sold: 'Sold: {count}',
+      views: 'Views: {count}',
+      rating: 'Rating: {rating} ⭐',
+      noProducts: 'Get started by adding your first product.',
+      addFirst: 'Add Your First Product',
+      activeProducts: 'Active Products',
+    },
+    categories: {
+      loading: 'Loading categories...',
+      title: 'Categories Management',
+      subtitle: 'Manage product categories and subcategories',
+      deleteConfirm: 'Are you sure you want to delete this category? This will also delete all subcategories.',
+      products: 'Products: {count}',
+      subcategories: 'Subcategories: {count}',
+      add: 'Add Category',
+      update: 'Update Category',
+      addTitle: 'Add New Category',
+      editTitle: 'Edit Category',
+      name: 'Name',
+      namePlaceholder: 'Category name',
+      parent: 'Parent Category',
+      noParent: 'No Parent (Main Category)',
+      taxClassAutomatic: 'Automatic (from parent or products)',
+      description: 'Description',
+      descriptionPlaceholder: 'Category description',
+      searchPlaceholder: 'Search categories...',
+      emptyTitle: 'No categories found',
+      emptyText: 'Get started by creating your first category.',
+      addFirst: 'Add Your First Category',
+      total: 'Total Categories',
+      main: 'Main Categories',
+    },
+    users: {
+      loading: 'Loading users...',
+      title: 'Users Management',
+      subtitle: 'Manage user accounts and permissions',
+      searchPlaceholder: 'Search users...',
+      roles: {
+        buyer: 'Buyer',
+        admin: 'Admin',
+      },
+      joined: 'Joined: {date}',
+      forceLogout: 'Force Logout',
+      forceLogoutConfirm: 'Sign {email} out of every device?',
+      signedOut: '{email} signed out',
+      sessionsEnded: { one: '{count} session ended', other: '{count} sessions ended' },
+      forceLogoutFailed: 'Failed to sign user out',
+      total: 'Total Users',
+      active: 'Active Users',
+      inactive: 'Inactive Users',
+    },
+    reviews: {
+      loading: 'Loading reviews...',
+      title: 'Reviews Management',
+      subtitle: 'Moderate and manage product reviews',
+      status: {
+        pending: 'Pending',
+        approved: 'Approved',
+        rejected: 'Rejected',
+      },
+      verifiedPurchase: 'Verified Purchase',
+      approve: 'Approve',
+      reject: 'Reject',
+      total: 'Total Reviews',
+    },
+    returns: {
+      subtitle: 'Review return requests, receive returned goods and issue refunds',
+      searchPlaceholder: 'Search by RMA or order number...',
+      emptyTitle: 'No returns found',
+      emptyText: 'No returns have been requested yet.',
+      updated: 'Return updated',
+      updateFailed: 'Failed to update return',
+      rejectPrompt: 'Why is this return being rejected? The customer will see this.',
+      restockConfirm: 'Put {count} × {name} back in stock?\n\nChoose Cancel to receive it without restocking, e.g. if it is damaged.',
+      refundConfirm: 'Refund {amount} to the customer for {rma}?',
+      item: 'Item',
+      quantityOf: '{count} of {total}',
+      refund: 'Refund',
+      customerNotes: 'Customer:',
+      staffNotes: 'Staff:',
+      requestedOn: 'Requested {date}',
+      receivedOn: 'Received {date}',
+      receivedRestockedOn: 'Received {date} and restocked',
+      refundedOn: 'Refunded {date}',
+      markReceived: 'Mark Received',
+      issueRefund: 'Issue Refund',
+    },
+    currencies: {
+      subtitle: 'Manage the currencies shoppers can browse and pay in',
+      explanation: 'Catalog prices, shipping rates and promotions are set in {base}. Other currencies are converted at the rates below and orders are charged in the currency the shopper picked, at the rate in effect when they ordered.',
+      add: 'Add Currency',
+      editTitle: 'Edit Currency: {code}',
+      code: 'Code',
+      name: 'Name',
+      namePlaceholder: 'Euro',
+      rate: 'Rate',
+      perBase: '(per 1 {base})',
+      preview: 'A {base} game shows as {converted}.',
+      offered: 'Offered to shoppers',
+      saved: 'Currency saved',
+      saveFailed: 'Failed to save currency',
+      deleteConfirm: 'Stop offering {code}? Orders already placed in it are not affected.',
+      deleted: 'Currency deleted',
+      base: 'Base',
+      baseSetting: 'Set with the BASE_CURRENCY server setting',
+      onlyBase: 'Only {base} is offered. Add a currency to let shoppers pay in it.',
+      wholeAmounts: 'Whole amounts only',
+      decimals: { one: '{count} decimal place', other: '{count} decimal places' },
+    },
+    taxes: {
+      subtitle: 'Manage regional tax rates and see the tax collected',
+      add: 'Add Tax Rate',
+      editTitle: 'Edit Tax Rate: {name}',
+      pricesIncludeTax: 'Catalog prices include tax. The tax shown on orders is the part of the price that goes to tax.',
+      pricesExcludeTax: 'Catalog prices exclude tax. Tax is added on top at checkout.',
+      ratesStack: "Every active rate matching the address and the product's tax class is charged, so state and city rates stack.",
+      name: 'Name',
+      namePlaceholder: 'New York State Sales Tax',
+      country: 'Country',
+      state: 'State',
+      optional: '(optional)',
+      wholeCountry: 'Whole country',
+      zipPrefixes: 'ZIP Prefixes',
+      commaSeparated: '(comma-separated)',
+      ratePercent: 'Rate (%)',
+      regionWithZip: '{region} (ZIP {codes})',
+      saved: 'Tax rate saved',
+      saveFailed: 'Failed to save tax rate',
+      deleteConfirm: 'Delete the {name} tax rate? Orders already placed keep the tax they were charged.',
+      deleted: 'Tax rate deleted',
+      exportFailed: 'Failed to export tax report',
+      emptyTitle: 'No tax rates',
+      emptyText: "No tax is charged until a rate covers the customer's address.",
+      collected: 'Tax Collected',
+      refunded: 'Tax Refunded',
+      net: 'Net Tax',
+      noneInPeriod: 'No tax was charged in this period.',
+      jurisdiction: 'Jurisdiction',
+      rate: 'Rate',
+      taxable: 'Taxable',
+      tax: 'Tax',
+    },
+    shipping: {
+      subtitle: 'Manage shipping zones and the rates offered at checkout',
+      addZone: 'Add Zone',
+      addZoneTitle: 'Add Shipping Zone',
+      editZone: 'Edit Zone: {name}',
+      addRate: 'Add Rate',
+      addRateTo: 'Add Rate to {name}',
+      editRate: 'Edit Rate: {name}',
+      name: 'Name',
+      zonePlaceholder: 'Domestic',
+      ratePlaceholder: 'Standard Shipping',
+      countries: 'Countries',
+      countriesHint: '(comma-separated, empty for everywhere else)',
+      regions: 'States / Regions',
+      regionsHint: '(empty for the whole country)',
+      matchingHint: "Addresses are matched as typed, ignoring case, so list every spelling customers use. A zone listing the address's state wins over one for the whole country.",
+      everywhereElse: 'Every address not covered by another zone',
+      pricing: 'Pricing',
+      rateTypes: {
+        flat: 'Flat rate',
+        weight: 'By parcel weight',
+        subtotal: 'By order subtotal',
+      },
+      description: 'Description',
+      descriptionPlaceholder: 'Shown to customers at checkout',
+      price: 'Price',
+      tiers: 'Tiers',
+      tiersHintWeight: '(the first tier the parcel weight fits under is charged; leave the last limit empty for no maximum)',
+      tiersHintSubtotal: '(the first tier the order subtotal fits under is charged; leave the last limit empty for no maximum)',
+      upTo: 'Up to',
+      noLimit: 'No limit',
+      weightLimit: 'Weight limit in kg',
+      subtotalLimit: 'Subtotal limit',
+      kgCosts: 'kg costs',
+      costs: 'costs',
+      tierPrice: 'Tier price',
+      addTier: 'Add Tier',
+      kg: '{weight}kg',
+      tierUpTo: 'up to {limit}: {price}',
+      tierOver: 'over {limit}: {price}',
+      freeOverLabel: 'Free Over',
+      neverFree: 'Never free',
+      freeOver: 'Free over {amount}',
+      minDays: 'Min. Business Days',
+      maxDays: 'Max. Business Days',
+      businessDays: { one: '{count} business day', other: '{count} business days' },
+      businessDaysRange: '{min}-{max} business days',
+      express: 'Express',
+      saved: 'Shipping saved',
+      saveFailed: 'Failed to save',
+      deleteZoneConfirm: { one: 'Delete the {name} zone and its {count} rate?', other: 'Delete the {name} zone and its {count} rates?' },
+      zoneDeleted: 'Shipping zone deleted',
+      deleteRateConfirm: 'Delete the {name} rate?',
+      rateDeleted: 'Shipping rate deleted',
+      emptyTitle: 'No shipping zones',
+      emptyText: "Orders with physical items can't be placed until a zone covers the customer's address.",
+      noRates: 'No rates yet, so nothing can be shipped to this zone.',
+    },
+    promotions: {
+      subtitle: 'Manage coupon and promo codes',
+      add: 'Add Promotion',
+      addTitle: 'Add New Promotion',
+      editTitle: 'Edit Promotion',
+      update: 'Update Promotion',
+      code: 'Code',
+      type: 'Type',
+      types: {
+        percentage: 'Percentage off',
+        fixedAmount: 'Fixed amount off',
+        freeShipping: 'Free shipping',
+        buyXGetY: 'Buy X get Y free',
+      },
+      description: 'Description',
+      descriptionPlaceholder: 'Shown to customers when the code is applied',
+      percentOffLabel: 'Percent Off',
+      amountOffLabel: 'Amount Off',
+      maxDiscount: 'Maximum Discount',
+      noMaximum: 'No maximum',
+      buyQuantity: 'Buy Quantity',
+      freeQuantity: 'Free Quantity',
+      minSubtotal: 'Minimum Subtotal',
+      noMinimum: 'No minimum',
+      startsLabel: 'Starts',
+      expiresLabel: 'Expires',
+      totalUses: 'Total Uses',
+      usesPerCustomer: 'Uses per Customer',
+      unlimited: 'Unlimited',
+      platforms: 'Platforms',
+      appliesToAll: '(none selected applies to all)',
+      firstOrderOnly: 'First order only',
+      searchPlaceholder: 'Search promotions...',
+      status: {
+        active: 'Active',
+        scheduled: 'Scheduled',
+        expired: 'Expired',
+        inactive: 'Inactive',
+        usedUp: 'Used up',
+      },
+      percentOff: '{percent}% off',
+      percentOffUpTo: '{percent}% off (up to {amount})',
+      amountOff: '{amount} off',
+      buyGet: 'Buy {buy} get {get} free',
+      used: { one: 'Used {count} time', other: 'Used {count} times' },
+      usedOfLimit: 'Used {count} / {limit} times',
+      minimum: 'Min. {amount}',
+      starts: 'Starts {date}',
+      expires: 'Expires {date}',
+      unknownCategory: 'Unknown category',
+      created: 'Promotion created',
+      updated: 'Promotion updated',
+      saveFailed: 'Failed to save promotion',
+      deleteConfirm: 'Are you sure you want to delete {code}? Codes that have been used are deactivated instead.',
+      deleted: 'Promotion deleted',
+      emptyTitle: 'No promotions found',
+      emptyText: 'Create a promo code to offer discounts at checkout.',
+    },
+    orders: {
+      title: 'Orders Management',
+      subtitle: 'Process and manage customer orders',
+      loadFailed: 'Failed to load orders',
+      savedViews: 'Saved views',
+      saveView: 'Save View',
+      nameView: 'Name this view:',
+      viewSaved: 'View saved',
+      deleteView: 'Delete view',
+      deleteViewConfirm: 'Delete the "{name}" view?',
+      searchPlaceholder: 'Search by order number or email...',
+      orderStatus: 'Order status',
+      paymentStatus: 'Payment status',
+      allPayments: 'All Payments',
+      minTotal: 'Min Total',
+      maxTotal: 'Max Total',
+      applyFilters: 'Apply Filters',
+      reset: 'Reset',
+      selected: { one: '{count} selected', other: '{count} selected' },
+      bulkStatus: 'Status for selected orders',
+      changeStatus: 'Change status...',
+      markAs: 'Mark as {status}',
+      apply: 'Apply',
+      bulkConfirm: { one: 'Mark {count} order as {status}?', other: 'Mark {count} orders as {status}?' },
+      historyNote: 'Note for the order history (optional):',
+      someNotUpdated: 'Some orders were not updated',
+      updated: 'Orders updated',
+      updateFailed: 'Failed to update orders',
+      printInvoices: 'Print Invoices',
+      printPackingSlips: 'Print Packing Slips',
+      printFailed: 'Failed to print documents',
+      exportFailed: 'Failed to export orders',
+      clear: 'Clear',
+      selectAll: 'Select all orders on this page',
+      selectOrder: 'Select order {number}',
+      columns: {
+        order: 'Order',
+        date: 'Date',
+        customer: 'Customer',
+        items: 'Items',
+        total: 'Total',
+        status: 'Status',
+        payment: 'Payment',
+      },
+      packingSlip: 'Packing slip',
+      refund: 'Refund',
+      invoiceFailed: 'Failed to download invoice',
+      packingSlipFailed: 'Failed to download packing slip',
+      emptyTitle: 'No orders found',
+      emptyText: 'No orders have been placed yet.',
+      count: { one: '{count} order', other: '{count} orders' },
+      perPageLabel: 'Orders per page',
+      perPage: '{count} per page',
+    },
+    orderDetail: {
+      notesSaved: 'Notes saved',
+      notesFailed: 'Failed to save notes',
+      trackingUpdated: 'Tracking details updated',
+      trackingFailed: 'Failed to update tracking',
+      resendConfirm: 'Email the order confirmation to {email} again?',
+      confirmationSent: 'Confirmation email sent',
+      resendFailed: 'Failed to resend confirmation',
+      packingSlip: 'Packing Slip',
+      resend: 'Resend Confirmation',
+      sending: 'Sending...',
+      digitalDelivery: 'Digital delivery',
+      shippedOf: '{shipped} of {total} shipped',
+      notShipped: 'Not shipped',
+      amountRefunded: '{amount} refunded',
+      shippingWithMethod: 'Shipping ({method})',
+      shipments: 'Shipments',
+      createShipment: 'Create Shipment',
+      singleParcel: 'Shipped as a single parcel; see Tracking.',
+      nothingShipped: 'Nothing has shipped yet.',
+      shipmentNumber: 'Shipment {number}',
+      track: 'Track',
+      by: 'By {name}',
+      statusHistory: 'Status History',
+      system: 'System',
+      unknown: 'Unknown',
+      activity: 'Activity',
+      noActivity: 'No activity recorded.',
+      cancelReason: 'Cancelled: {reason}',
+      customerNote: 'Customer note:',
+      addresses: 'Addresses',
+      digitalOnly: 'Digital delivery only',
+      method: 'Method',
+      paymentIntent: 'Payment Intent',
+      charge: 'Charge',
+      trackingNumber: 'Tracking number',
+      trackingUrl: 'Tracking URL (optional)',
+      saveTracking: 'Save Tracking',
+      internalNotes: 'Internal Notes',
+      notesPlaceholder: 'Only staff can see these',
+      saveNotes: 'Save Notes',
+    },
+    refund: {
+      title: 'Refund Order #{number}',
+      description: 'Pick the items, shipping and tax to give back. The refund goes to the original payment method.',
+      loadFailed: 'Failed to load refunds',
+      processed: 'Refund processed',
+      failed: 'Refund failed',
+      orderTotal: 'Order Total',
+      refundable: 'Refundable',
+      each: '{price} each',
+      refundedOf: '{refunded} of {total} refunded',
+      quantityLabel: 'Quantity of {name} to refund',
+      upTo: '(up to {amount})',
+      reasonPlaceholder: 'e.g. Item arrived damaged',
+      previous: 'Previous Refunds',
+      sources: {
+        admin: 'Staff',
+        customer: 'Customer',
+        return: 'Return',
+        stripe: 'Stripe dashboard',
+      },
+      total: 'Refund Total',
+      exceedsBalance: 'The refund is more than the {amount} left on this order.',
+      refunding: 'Refunding...',
+      submit: 'Refund {amount}',
+    },
+  },
+  errors: {
+    notFoundTitle: 'Page Not Found',
+    notFoundText: "The page you're looking for doesn't exist or has been moved to a different location.",
+    forbiddenTitle: 'Access Forbidden',
+    forbiddenText: "You don't have permission to access this page. Please contact an administrator if you believe this is an error.",
+  },
+  validation: {
+    required: 'This field is required',
+    email: 'Please enter a valid email address',
+    minLength: { one: 'Must be at least {count} character', other: 'Must be at least {count} characters' },
+    maxLength: { one: 'Must be {count} character or less', other: 'Must be {count} characters or less' },
+    minNumber: 'Must be at least {min}',
+    firstNameRequired: 'First name is required',
+    firstNameMin: 'First name must be at least 2 characters',
+    lastNameRequired: 'Last name is required',
+    lastNameMin: 'Last name must be at least 2 characters',
+    passwordRequired: 'Password is required',
+    codeRequired: 'Authentication code is required',
+    passwordMin: 'Password must be at least 8 characters',
+    passwordsMismatch: "Passwords don't match",
+    passwordWeak: 'Choose a stronger password',
+    phoneRequired: 'Phone number is required',
+    addressRequired: 'Address is required',
+    cityRequired: 'City is required',
+    stateRequired: 'State is required',
+    zipCodeRequired: 'ZIP code is required',
+    countryRequired: 'Country is required',
+    shippingMethodRequired: 'Please select a shipping method',
+    notesMax: 'Notes must be 500 characters or less',
+    acceptTerms: 'You must accept the terms and conditions',
+    productNameRequired: 'Name is required',
+    descriptionRequired: 'Description is required',
+    priceMin: 'Price must be positive',
+    costPriceMin: 'Cost price must be positive',
+    skuRequired: 'SKU is required',
+    stockMin: 'Stock quantity must be positive',
+    lowStockMin: 'Low stock threshold must be positive',
+    categoryRequired: 'Category is required',
+    labelRequired: 'Label is required',
+  },
+};
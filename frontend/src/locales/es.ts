@@ -0,0 +1,1067 @@
+import type { Catalog } from '@/lib/i18n';
+
+export const es: Catalog = {
+  common: {
+    loading: 'Cargando...',
+    back: 'Volver',
+    edit: 'Editar',
+    free: 'Gratis',
+    language: 'Idioma',
+    currency: 'Moneda',
+    backToHome: 'Volver al inicio',
+    goHome: 'Ir al inicio',
+    goBack: 'Volver atrás',
+    processing: 'Procesando...',
+    add: 'Añadir',
+    cancel: 'Cancelar',
+    saveChanges: 'Guardar cambios',
+    saving: 'Guardando...',
+    view: 'Ver',
+    active: 'Activo',
+    inactive: 'Inactivo',
+    export: 'Exportar',
+    import: 'Importar',
+    previous: 'Anterior',
+    next: 'Siguiente',
+    pageOf: 'Página {page} de {total}',
+  },
+  nav: {
+    home: 'Inicio',
+    products: 'Productos',
+    categories: 'Categorías',
+    searchPlaceholder: 'Buscar productos...',
+    profile: 'Perfil',
+    orders: 'Pedidos',
+    wishlist: 'Lista de deseos',
+    reviews: 'Reseñas',
+    adminDashboard: 'Panel de administración',
+    logout: 'Cerrar sesión',
+    login: 'Iniciar sesión',
+    signUp: 'Registrarse',
+    cart: 'Carrito',
+    openMenu: 'Abrir menú',
+  },
+  footer: {
+    tagline: 'Tu destino definitivo para productos de videojuegos. Juegos, consolas y accesorios de calidad para cada jugador.',
+    quickLinks: 'Enlaces rápidos',
+    aboutUs: 'Sobre nosotros',
+    customerService: 'Atención al cliente',
+    contactUs: 'Contáctanos',
+    shippingInfo: 'Información de envío',
+    returns: 'Devoluciones y cambios',
+    faq: 'Preguntas frecuentes',
+    contactInfo: 'Información de contacto',
+    copyright: '© {year} GameStore. Todos los derechos reservados.',
+    privacy: 'Política de privacidad',
+    terms: 'Términos del servicio',
+  },
+  home: {
+    heroTitle: 'Tu destino',
+    heroHighlight: 'gamer definitivo',
+    heroSubtitle: 'Descubre los últimos juegos, consolas y accesorios. Mejora tu experiencia de juego con productos premium.',
+    shopNow: 'Comprar ahora',
+    browseCategories: 'Ver categorías',
+    consoles: 'Consolas',
+    pcGaming: 'Juegos de PC',
+    accessories: 'Accesorios',
+    latestGames: 'Últimos juegos',
+    categoriesTitle: 'Comprar por categoría',
+    categoriesSubtitle: 'Encuentra exactamente lo que buscas en nuestras categorías',
+    productCount: { one: '{count} producto', other: '{count} productos' },
+    featuredTitle: 'Productos destacados',
+    featuredSubtitle: 'Productos seleccionados para la mejor experiencia de juego',
+    sale: 'OFERTA',
+    viewDetails: 'Ver detalles',
+    viewAllProducts: 'Ver todos los productos',
+    whyTitle: '¿Por qué elegir GameStore?',
+    whySubtitle: 'Ofrecemos la mejor experiencia de juego con productos de calidad y un servicio excelente',
+    fastDelivery: 'Entrega rápida',
+    fastDeliveryText: 'Recibe tu equipo de juego de forma rápida y segura en tu puerta',
+    qualityProducts: 'Productos de calidad',
+    qualityProductsText: 'Selección de productos premium de las mejores marcas',
+    support: 'Soporte 24/7',
+    supportText: 'Nuestro equipo de atención al cliente siempre está listo para ayudarte',
+  },
+  products: {
+    loading: 'Cargando productos...',
+    title: 'Todos los productos',
+    subtitle: 'Descubre nuestra colección de productos gaming',
+    search: 'Buscar',
+    filters: 'Filtros',
+    sortLatest: 'Más recientes',
+    sortName: 'Nombre',
+    sortPrice: 'Precio',
+    sortRating: 'Valoración',
+    noResultsTitle: 'No se encontraron productos',
+    noResultsText: 'Prueba a ajustar la búsqueda o los filtros',
+    sale: 'OFERTA',
+    viewDetails: 'Ver detalles',
+  },
+  product: {
+    loading: 'Cargando producto...',
+    notFound: 'Producto no encontrado',
+    loadFailed: 'No se pudo cargar el producto',
+    notFoundTitle: 'Producto no encontrado',
+    notFoundText: 'El producto que buscas no existe o se ha retirado.',
+    browseProducts: 'Ver productos',
+    reviewCount: { one: '({count} reseña)', other: '({count} reseñas)' },
+    sku: 'SKU: {sku}',
+    percentOff: '{percent}% DTO.',
+    inStock: '{count} en stock',
+    outOfStock: 'Agotado',
+    onlyLeft: '¡Solo quedan {count}!',
+    quantity: 'Cantidad:',
+    addToCart: 'Añadir al carrito',
+    freeShipping: 'Envío gratis',
+    freeShippingText: 'En pedidos de más de 50 $',
+    securePayment: 'Pago seguro',
+    securePaymentText: 'Pago 100 % seguro',
+    easyReturns: 'Devoluciones fáciles',
+    easyReturnsText: 'Política de devolución de 30 días',
+    tabDescription: 'Descripción',
+    tabSpecifications: 'Especificaciones',
+    tabReviews: 'Reseñas ({count})',
+    descriptionTitle: 'Descripción del producto',
+    customerReviews: 'Reseñas de clientes',
+  },
+  search: {
+    title: 'Buscar productos',
+    prompt: 'Introduce un término para buscar productos en nuestra tienda.',
+    placeholder: 'Buscar productos...',
+    search: 'Buscar',
+    popular: 'Búsquedas populares',
+    resultsFor: 'Resultados de búsqueda para "{query}"',
+    found: { one: '{count} producto encontrado', other: '{count} productos encontrados' },
+    category: 'Categoría',
+    allCategories: 'Todas las categorías',
+    allPrices: 'Todos los precios',
+    sortRelevance: 'Relevancia',
+    sortName: 'Nombre',
+    sortPrice: 'Precio',
+    sortRating: 'Valoración',
+    sortNewest: 'Más recientes',
+    clear: 'Limpiar',
+    noResultsTitle: 'No se encontraron productos',
+    noResultsText: 'Prueba a ajustar los términos de búsqueda o los filtros.',
+    clearFilters: 'Limpiar filtros',
+    browseAll: 'Ver todos los productos',
+  },
+  wishlist: {
+    loading: 'Cargando lista de deseos...',
+    emptyTitle: 'Tu lista de deseos está vacía',
+    emptyText: 'Guarda los juegos que te interesan y te avisaremos cuando bajen de precio o vuelvan a estar disponibles.',
+    browseGames: 'Ver juegos',
+    title: 'Lista de deseos',
+    savedCount: { one: '{count} artículo guardado', other: '{count} artículos guardados' },
+    priceDropped: 'Precio rebajado {amount}',
+    backInStock: 'De nuevo disponible',
+    savedOn: 'Guardado el {date}',
+    moveToCart: 'Mover al carrito',
+    remove: 'Quitar de la lista de deseos',
+  },
+  cart: {
+    loading: 'Cargando carrito...',
+    emptyTitle: 'Tu carrito está vacío',
+    emptyText: 'Parece que aún no has añadido productos a tu carrito.',
+    startShopping: 'Empezar a comprar',
+    title: 'Carrito de compras',
+    subtitle: 'Revisa tus artículos y continúa con el pago',
+    sku: 'SKU: {sku}',
+    moveToWishlist: 'Mover a la lista de deseos',
+    remove: 'Eliminar',
+    orderSummary: 'Resumen del pedido',
+    subtotal: { one: 'Subtotal ({count} artículo)', other: 'Subtotal ({count} artículos)' },
+    tax: 'Impuestos',
+    taxIncluded: 'Impuestos (incluidos)',
+    shipping: 'Envío',
+    discount: 'Descuento',
+    calculatedAtCheckout: 'Se calcula al pagar',
+    estimatedTotal: 'Total estimado',
+    proceedToCheckout: 'Continuar al pago',
+    continueShopping: 'Seguir comprando',
+  },
+  promo: {
+    placeholder: 'Código promocional',
+    apply: 'Aplicar',
+    applying: 'Aplicando...',
+    remove: 'Quitar código promocional',
+    failed: 'No se pudo aplicar el código promocional',
+    signInPrompt: '¿Tienes un código promocional?',
+    signIn: 'Inicia sesión',
+    signInSuffix: 'para usarlo.',
+  },
+  checkout: {
+    title: 'Pago',
+    backToCart: 'Volver al carrito',
+    steps: {
+      shipping: 'Dirección de envío',
+      billing: 'Dirección de facturación',
+      delivery: 'Método de envío',
+      payment: 'Método de pago',
+      review: 'Revisar y realizar pedido',
+    },
+    continueToDelivery: 'Continuar a la entrega',
+    continueToPayment: 'Continuar al pago',
+    continueToReview: 'Continuar a la revisión',
+    orderSummary: 'Resumen del pedido',
+    quantity: 'Cant.: {count}',
+    subtotal: { one: 'Subtotal ({count} artículo)', other: 'Subtotal ({count} artículos)' },
+    tax: 'Impuestos',
+    taxIncluded: 'Impuestos (incluidos)',
+    taxFromAddress: 'Calculado según tu dirección',
+    shipping: 'Envío',
+    digitalDelivery: 'Entrega digital',
+    shippingNextStep: 'Se calcula en el siguiente paso',
+    discount: 'Descuento',
+    discountWithCode: 'Descuento ({code})',
+    total: 'Total',
+    chargedIn: 'Cobrado en {currency}',
+    secureTitle: 'Pago seguro',
+    secureText: 'Tu información de pago está cifrada y protegida. Nunca guardamos los datos de tu tarjeta.',
+    noShippingMethods: 'No podemos enviar este pedido a la dirección indicada. Revisa la dirección o contáctanos para obtener ayuda.',
+    express: 'Exprés',
+    arrives: 'Llega el {date}',
+    arrivesBetween: 'Llega entre el {from} y el {to}',
+    shipTo: 'Enviar a',
+    billTo: 'Facturar a',
+    delivery: 'Entrega',
+    keysEmailed: 'Las claves se envían por correo una vez confirmado el pago',
+    payment: 'Pago',
+    chargedViaStripe: 'Cobro seguro a través de Stripe',
+    notes: 'Notas del pedido',
+    notesPlaceholder: '¿Hay algo que debamos saber sobre tu pedido?',
+    acceptTerms: 'Acepto los términos y condiciones',
+    placeOrder: 'Realizar pedido',
+    retryPayment: 'Reintentar pago',
+    savedCards: 'Tarjetas guardadas',
+    newCard: 'Usar una tarjeta nueva',
+    cardEnding: '{brand} terminada en {last4}',
+    cardExpires: 'Vence {month}/{year}',
+    cardExpiringSoon: 'Vence pronto',
+    cardExpired: 'Vencida',
+    success: {
+      verifying: 'Confirmando tu pago...',
+      failedTitle: 'Pago fallido',
+      failedText: 'No hemos podido completar tu pago. No se ha realizado ningún cargo.',
+      pendingTitle: 'Pago en proceso',
+      pendingText: 'Tu pago aún se está procesando. Te enviaremos un correo en cuanto se confirme.',
+      viewOrders: 'Ver pedidos',
+      title: '¡Pedido confirmado!',
+      thankYou: 'Gracias por tu compra. Tu pedido se ha realizado correctamente.',
+      orderNumber: 'Número de pedido:',
+      nextTitle: '¿Qué pasa ahora?',
+      emailTitle: 'Correo de confirmación',
+      emailText: 'En breve recibirás un correo de confirmación con todos los detalles.',
+      processingTitle: 'Preparación del pedido',
+      processingText: 'Empezaremos a preparar tu pedido para el envío.',
+      shippingTitle: 'Novedades del envío',
+      shippingText: 'Recibirás la información de seguimiento cuando se envíe tu pedido.',
+      help: '¿Necesitas ayuda? Contacta con nuestro equipo de soporte en',
+    },
+    errors: {
+      loadShippingMethods: 'No se pudieron cargar los métodos de envío. Actualiza la página.',
+      paymentLoading: 'El sistema de pago aún se está cargando. Inténtalo de nuevo en un momento.',
+      paymentDetails: 'No se pudieron procesar tus datos de pago.',
+      paymentUnexpected: 'Se produjo un error inesperado al procesar tu pago. Inténtalo de nuevo.',
+      createOrder: 'No se pudo crear el pedido. Inténtalo de nuevo.',
+      paymentFailed: 'El procesamiento del pago falló. Inténtalo de nuevo.',
+      declined: 'Tu pago fue rechazado. Prueba con otro método de pago.',
+      incomplete: 'No se pudo completar el pago. Inténtalo de nuevo.',
+      checkoutFailed: 'El pago falló. Inténtalo de nuevo.',
+      addressInvalid: 'No pudimos verificar esta dirección. Revísala e inténtalo de nuevo.',
+    },
+  },
+  orders: {
+    loading: 'Cargando pedidos...',
+    title: 'Mis pedidos',
+    subtitle: 'Sigue tus pedidos y consulta tu historial',
+    emptyTitle: 'Aún no tienes pedidos',
+    emptyText: 'Todavía no has realizado ningún pedido. Empieza a comprar para verlos aquí.',
+    startShopping: 'Empezar a comprar',
+    orderNumber: 'Pedido n.º {number}',
+    placedOn: 'Realizado el {date}',
+    quantityEach: 'Cant.: {count} • {price} c/u',
+    totalAmount: 'Total: {total}',
+    itemCount: { one: '{count} artículo', other: '{count} artículos' },
+    viewDetails: 'Ver detalles',
+    cancelOrder: 'Cancelar pedido',
+    shippingAddress: 'Dirección de envío:',
+    trackingNumber: 'Número de seguimiento:',
+  },
+  orderDetail: {
+    loading: 'Cargando pedido...',
+    notFoundTitle: 'Pedido no encontrado',
+    notFoundText: 'No hemos encontrado este pedido en tu cuenta.',
+    backToOrders: 'Volver a pedidos',
+    cancelConfirm: '¿Seguro que quieres cancelar este pedido?',
+    cancelled: 'Pedido cancelado',
+    cancelFailed: 'No se pudo cancelar el pedido',
+    invoiceFailed: 'No se pudo descargar la factura',
+    invoice: 'Factura',
+    downloading: 'Descargando...',
+    cancelling: 'Cancelando...',
+    items: 'Artículos',
+    return: 'Devolver',
+    returnLine: 'Devolución {rma} • {count} × {reason}',
+    returnDeadline: 'Los artículos se pueden devolver hasta el {date}.',
+    subtotal: 'Subtotal',
+    refunded: 'Reembolsado',
+    orderStatus: 'Estado del pedido',
+    tracking: 'Seguimiento',
+    trackPackage: 'Seguir el paquete',
+    shippingAddress: 'Dirección de envío',
+    digitalDeliveryTo: 'Entrega digital a {email}',
+  },
+  orderStatus: {
+    pending: 'Pendiente',
+    confirmed: 'Confirmado',
+    processing: 'En preparación',
+    shipped: 'Enviado',
+    delivered: 'Entregado',
+    cancelled: 'Cancelado',
+    refunded: 'Reembolsado',
+    failed: 'Fallido',
+  },
+  paymentStatus: {
+    pending: 'Pendiente',
+    paid: 'Pagado',
+    partially_refunded: 'Reembolsado parcialmente',
+    failed: 'Fallido',
+    refunded: 'Reembolsado',
+    cancelled: 'Cancelado',
+  },
+  returnStatus: {
+    requested: 'Solicitada',
+    approved: 'Aprobada',
+    rejected: 'Rechazada',
+    received: 'Recibida',
+    refunded: 'Reembolsada',
+  },
+  returnReason: {
+    damaged: 'Llegó dañado',
+    defective: 'Defectuoso o no funciona',
+    wrongItem: 'Se envió un artículo equivocado',
+    notAsDescribed: 'No es como se describía',
+    noLongerNeeded: 'Ya no lo necesito',
+    otherReason: 'Otro',
+  },
+  returnForm: {
+    quantity: 'Cantidad',
+    reason: 'Motivo',
+    details: 'Detalles (opcional)',
+    cancel: 'Cancelar',
+    submit: 'Solicitar devolución',
+    submitting: 'Enviando...',
+    requested: 'Devolución solicitada',
+    failed: 'No se pudo solicitar la devolución',
+  },
+  address: {
+    firstName: 'Nombre',
+    lastName: 'Apellido',
+    email: 'Correo electrónico',
+    phone: 'Teléfono',
+    street: 'Dirección',
+    city: 'Ciudad',
+    state: 'Estado/Provincia',
+    zipCode: 'Código postal',
+    country: 'País',
+    firstNamePlaceholder: 'Introduce el nombre',
+    lastNamePlaceholder: 'Introduce el apellido',
+    emailPlaceholder: 'Introduce el correo electrónico',
+    phonePlaceholder: 'Introduce el número de teléfono',
+    streetPlaceholder: 'Introduce la dirección',
+    cityPlaceholder: 'Introduce la ciudad',
+    statePlaceholder: 'Introduce el estado o provincia',
+    zipCodePlaceholder: 'Introduce el código postal',
+    countryPlaceholder: 'Introduce el país',
+    savedAddresses: 'Direcciones guardadas',
+    newAddress: 'Usar una dirección nueva',
+    default: 'Predeterminada',
+    saveToBook: 'Guardar esta dirección en mi libreta de direcciones',
+    billingDiffers: 'Mi dirección de facturación es distinta de la de envío',
+    billingAddress: 'Dirección de facturación',
+  },
+  auth: {
+    welcomeBack: 'Bienvenido de nuevo',
+    signInSubtitle: 'Inicia sesión en tu cuenta para continuar',
+    emailAddress: 'Correo electrónico',
+    emailPlaceholder: 'Introduce tu correo electrónico',
+    password: 'Contraseña',
+    passwordPlaceholder: 'Introduce tu contraseña',
+    forgotPassword: '¿Olvidaste tu contraseña?',
+    signIn: 'Iniciar sesión',
+    signingIn: 'Iniciando sesión...',
+    orContinueWith: 'O continúa con',
+    continueWithGoogle: 'Continuar con Google',
+    noAccount: '¿No tienes una cuenta?',
+    signUp: 'Regístrate',
+    loginFailed: 'No se pudo iniciar sesión. Inténtalo de nuevo.',
+    showPassword: 'Mostrar contraseña',
+    hidePassword: 'Ocultar contraseña',
+    twoFactorTitle: 'Autenticación en dos pasos',
+    twoFactorSubtitle: 'Introduce el código de 6 dígitos de tu aplicación de autenticación',
+    recoveryCodeSubtitle: 'Introduce uno de los códigos de recuperación que guardaste al activar la autenticación en dos pasos',
+    authenticationCode: 'Código de autenticación',
+    recoveryCode: 'Código de recuperación',
+    verify: 'Verificar',
+    verifying: 'Verificando...',
+    useRecoveryCode: '¿Perdiste tu dispositivo? Usa un código de recuperación',
+    useAuthenticatorCode: 'Usar la aplicación de autenticación',
+    startOver: 'Iniciar sesión con otra cuenta',
+    createAccountTitle: 'Crea tu cuenta',
+    createAccountSubtitle: 'Únete a GameStore y empieza tu aventura gamer',
+    basicInformation: 'Información básica',
+    firstName: 'Nombre',
+    firstNamePlaceholder: 'Introduce tu nombre',
+    lastName: 'Apellido',
+    lastNamePlaceholder: 'Introduce tu apellido',
+    phoneOptional: 'Número de teléfono (opcional)',
+    phonePlaceholder: 'Introduce tu número de teléfono',
+    createPasswordPlaceholder: 'Crea una contraseña',
+    confirmPassword: 'Confirmar contraseña',
+    confirmPasswordPlaceholder: 'Confirma tu contraseña',
+    addPaymentDetails: 'Añadir datos de pago ahora (opcional)',
+    paymentInformation: 'Información de pago',
+    cardNumber: 'Número de tarjeta',
+    expiryDate: 'Fecha de caducidad',
+    cvc: 'CVC',
+    addShippingAddress: 'Añadir dirección de envío ahora (opcional)',
+    shippingAddress: 'Dirección de envío',
+    streetAddress: 'Dirección',
+    streetAddressPlaceholder: 'Introduce tu dirección',
+    city: 'Ciudad',
+    cityPlaceholder: 'Introduce tu ciudad',
+    state: 'Estado/Provincia',
+    statePlaceholder: 'Introduce tu estado o provincia',
+    zipCode: 'Código postal',
+    zipCodePlaceholder: 'Introduce el código postal',
+    country: 'País',
+    countryPlaceholder: 'Introduce tu país',
+    createAccount: 'Crear cuenta',
+    creatingAccount: 'Creando cuenta...',
+    registrationFailed: 'No se pudo completar el registro. Inténtalo de nuevo.',
+    haveAccount: '¿Ya tienes una cuenta?',
+    signInLink: 'Inicia sesión',
+    passwordStrength: 'Seguridad de la contraseña: {level}',
+    strengthTooShort: 'Demasiado corta',
+    strengthWeak: 'Débil',
+    strengthFair: 'Aceptable',
+    strengthGood: 'Buena',
+    strengthStrong: 'Fuerte',
+    passwordHint: 'Cuanto más larga, más segura. Combina palabras, números y símbolos, y evita contraseñas comunes.',
+    resetPasswordTitle: 'Restablecer contraseña',
+    resetPasswordSubtitle: 'Elige una nueva contraseña para tu cuenta',
+    newPassword: 'Nueva contraseña',
+    newPasswordPlaceholder: 'Introduce una nueva contraseña',
+    resetPassword: 'Restablecer contraseña',
+    resettingPassword: 'Restableciendo...',
+    resetLinkInvalidTitle: 'Enlace no válido',
+    resetLinkInvalidText: 'Este enlace para restablecer la contraseña no es válido o ha caducado.',
+    requestNewLink: 'Solicitar un nuevo enlace',
+    backToLogin: 'Volver a iniciar sesión',
+    verifyingEmailTitle: 'Verificando correo',
+    verifyingEmailText: 'Espera mientras verificamos tu correo electrónico...',
+    emailVerifiedTitle: '¡Correo verificado!',
+    emailVerifiedText: '{email} ya está verificado.',
+    verificationFailedTitle: 'Error de verificación',
+    verificationFailedText: 'Este enlace de verificación no es válido o ha caducado.',
+    sendNewLink: 'Enviar un nuevo enlace',
+    sendingLink: 'Enviando...',
+    continue: 'Continuar',
+    verifyEmailBannerTitle: 'Verifica tu correo electrónico',
+    verifyEmailBannerText: 'Confirma {email} antes de pagar para que podamos enviarte la confirmación del pedido y las claves de tus juegos.',
+  },
+  profile: {
+    paymentMethods: {
+      title: 'Métodos de pago',
+      addCard: 'Añadir tarjeta',
+      saveCard: 'Guardar tarjeta',
+      loading: 'Cargando métodos de pago...',
+      empty: 'No tienes tarjetas guardadas. Guarda una para pagar con un clic al finalizar la compra.',
+      useAsDefault: 'Usar como mi tarjeta predeterminada',
+      expired: 'Venció {month}/{year}',
+      expiringSoon: 'Vence pronto, añade una nueva tarjeta para seguir pagando con un clic',
+      makeDefault: 'Establecer como predeterminada',
+      remove: 'Eliminar tarjeta',
+      removeConfirm: '¿Eliminar la tarjeta terminada en {last4}?',
+      saveFailed: 'No se pudo guardar tu tarjeta.',
+      addFailed: 'No se pudo añadir la tarjeta',
+      saved: 'Tarjeta guardada',
+      savedNotDefault: 'Tarjeta guardada, pero no se pudo establecer como predeterminada',
+      defaultFailed: 'No se pudo actualizar la tarjeta predeterminada',
+      removed: 'Tarjeta eliminada',
+      removeFailed: 'No se pudo eliminar la tarjeta',
+    },
+    twoFactor: {
+      on: 'Activada',
+      intro: 'Protege tu cuenta con un código de una app de autenticación cada vez que inicies sesión.',
+      adminRequired: 'Las cuentas de administrador deben usar la autenticación en dos pasos. Actívala para acceder al panel de administración.',
+      setUp: 'Configurar verificación en dos pasos',
+      starting: 'Iniciando...',
+      setupFailed: 'No se pudo iniciar la configuración en dos pasos',
+      scanInstructions: 'Escanea este código QR con una app de autenticación como Google Authenticator, 1Password o Authy y luego introduce el código de 6 dígitos que muestra.',
+      qrAlt: 'Código QR de verificación en dos pasos',
+      manualKey: '¿No puedes escanearlo? Introduce esta clave:',
+      enable: 'Activar',
+      setupHint: 'El código cambia cada 30 segundos.',
+      disable: 'Desactivar',
+      disableSubmit: 'Desactivar verificación en dos pasos',
+      disableHint: 'Introduce un código de tu app de autenticación o un código de recuperación.',
+      newCodes: 'Nuevos códigos de recuperación',
+      regenerateSubmit: 'Generar nuevos códigos',
+      regenerateHint: 'Tus códigos de recuperación restantes dejarán de funcionar.',
+      active: 'Al iniciar sesión se te pide un código de tu app de autenticación.',
+      activeSince: 'Al iniciar sesión se te pide un código de tu app de autenticación (activada el {date}).',
+      codesLeft: { one: 'Queda {count} código de recuperación', other: 'Quedan {count} códigos de recuperación' },
+      codeRequired: 'Introduce un código de tu app de autenticación',
+      genericError: 'Algo salió mal. Inténtalo de nuevo.',
+      enabled: 'Autenticación en dos pasos activada',
+      disabled: 'Autenticación en dos pasos desactivada',
+      codesRegenerated: 'Se generaron nuevos códigos de recuperación',
+      saveCodesWarning: 'Guarda estos códigos de recuperación en un lugar seguro. Cada uno sirve una vez para iniciar sesión si pierdes tu app de autenticación. No se volverán a mostrar.',
+      copy: 'Copiar',
+      download: 'Descargar',
+      savedThem: 'Ya los guardé',
+      codesCopied: 'Códigos de recuperación copiados',
+      copyFailed: 'No se pudieron copiar los códigos de recuperación',
+    },
+    sessions: {
+      title: 'Dónde has iniciado sesión',
+      loading: 'Cargando sesiones...',
+      thisDevice: 'Este dispositivo',
+      activeNow: 'Activa ahora',
+      lastActive: 'Última actividad {date}',
+      signedIn: 'Sesión iniciada {date}',
+      signOut: 'Cerrar sesión',
+      signOutOthers: 'Cerrar sesión en los demás dispositivos',
+      signOutOthersConfirm: '¿Cerrar sesión en todos los demás dispositivos?',
+      signedOutOf: 'Sesión cerrada en {device}',
+      signedOutOthers: 'Sesión cerrada en todos los demás dispositivos',
+      signOutFailed: 'No se pudo cerrar la sesión del dispositivo',
+      signOutOthersFailed: 'No se pudo cerrar la sesión en los demás dispositivos',
+    },
+    email: {
+      verified: 'Verificado',
+      notVerified: 'No verificado',
+      pending: 'Esperando que confirmes {email}. Tu dirección actual sigue en uso hasta que abras el enlace que enviamos allí.',
+      resendLink: 'Reenviar enlace',
+      cancelChange: 'Cancelar cambio',
+      verifyPrompt: 'Verifica tu correo para finalizar compras y recibir actualizaciones de tus pedidos.',
+      resendVerification: 'Reenviar verificación',
+      change: 'Cambiar correo',
+      newEmail: 'Nuevo correo',
+      newEmailPlaceholder: 'Introduce tu nuevo correo',
+      confirmHint: 'Enviaremos un enlace de confirmación a la nueva dirección.',
+      sendConfirmation: 'Enviar confirmación',
+      confirmTitle: 'Confirma tu nuevo correo',
+      confirmText: 'Enviamos un enlace a {email}.',
+      changeFailed: 'No se pudo cambiar el correo',
+      changeCancelled: 'Cambio de correo cancelado',
+      cancelFailed: 'No se pudo cancelar el cambio de correo',
+    },
+    password: {
+      title: 'Cambiar contraseña',
+      current: 'Contraseña actual',
+      currentPlaceholder: 'Introduce tu contraseña actual',
+      confirm: 'Confirmar nueva contraseña',
+      confirmPlaceholder: 'Repite la nueva contraseña',
+      changed: 'Contraseña cambiada',
+      otherDevicesSignedOut: 'Se cerró la sesión en los demás dispositivos conectados a tu cuenta.',
+      changeFailed: 'No se pudo cambiar la contraseña',
+    },
+  },
+  admin: {
+    title: 'Panel de administración',
+    administrator: 'Administrador',
+    nav: {
+      dashboard: 'Panel',
+      products: 'Productos',
+      categories: 'Categorías',
+      orders: 'Pedidos',
+      returns: 'Devoluciones',
+      users: 'Usuarios',
+      reviews: 'Reseñas',
+      promotions: 'Promociones',
+      shipping: 'Envíos',
+      taxes: 'Impuestos',
+      currencies: 'Monedas',
+      analytics: 'Analíticas',
+      settings: 'Configuración',
+    },
+    allStatuses: 'Todos los estados',
+    noResultsSearch: 'Prueba a ajustar los criterios de búsqueda.',
+    dateFrom: 'Desde',
+    dateTo: 'Hasta',
+    exportCsv: 'Exportar CSV',
+    exporting: 'Exportando...',
+    sortOrder: 'Orden',
+    taxClass: {
+      label: 'Clase impositiva',
+      standard: 'General',
+      reduced: 'Reducida',
+      digital: 'Digital',
+      exempt: 'Exenta',
+    },
+    dashboard: {
+      loading: 'Cargando panel...',
+      welcome: '¡Hola de nuevo! Esto es lo que pasa hoy en tu tienda.',
+      totalRevenue: 'Ingresos totales',
+      totalOrders: 'Pedidos totales',
+      totalProducts: 'Productos totales',
+      totalCustomers: 'Clientes totales',
+      fromLastMonth: '{change} respecto al mes pasado',
+      lowStockCount: { one: '{count} producto con poco stock', other: '{count} productos con poco stock' },
+      reviewsPending: { one: '{count} reseña pendiente', other: '{count} reseñas pendientes' },
+      salesOverview: 'Resumen de ventas',
+      salesChartPlaceholder: 'Aquí irá el gráfico de ventas',
+      salesChartRange: 'Últimos {days} días: {days} puntos de datos',
+      lowStockProducts: 'Productos con poco stock',
+      wellStocked: '¡Todos los productos tienen stock suficiente!',
+      recentOrders: 'Pedidos recientes',
+      noRecentOrders: 'No hay pedidos recientes',
+      alerts: 'Alertas y notificaciones',
+      lowStockAlert: 'Alerta de stock bajo',
+      lowStockAlertText: { one: '{count} producto se está quedando sin stock', other: '{count} productos se están quedando sin stock' },
+      pendingOrders: 'Pedidos pendientes',
+      pendingOrdersText: { one: '{count} pedido pendiente de procesar', other: '{count} pedidos pendientes de procesar' },
+      noAlerts: 'No hay alertas en este momento',
+      quickActions: 'Acciones rápidas',
+      addProduct: 'Añadir producto',
+      addProductText: 'Crear un nuevo producto',
+      viewOrders: 'Ver pedidos',
+      viewOrdersText: 'Gestionar los pedidos de los clientes',
+      manageUsers: 'Gestionar usuarios',
+      manageUsersText: 'Ver y gestionar clientes',
+      analyticsText: 'Ver analíticas detalladas',
+    },
+    products: {
+      title: 'Gestión de productos',
+      subtitle: 'Gestiona tu catálogo de productos y el inventario',
+      deleteConfirm: '¿Seguro que quieres eliminar este producto?',
+      applyFilters: 'Aplicar filtros',
+      featured: 'Destacado',
+      inStock: 'En stock',
+      lowStock: 'Poco stock',
+      outOfStock: 'Agotado',
+      stock: 'Stock: {count}',
+      sold: 'Vendidos: {count}',
+      views: 'Visitas: {count}',
+      rating: 'Valoración: {rating} ⭐',
+      noProducts: 'Empieza añadiendo tu primer producto.',
+      addFirst: 'Añade tu primer producto',
+      activeProducts: 'Productos activos',
+    },
+    categories: {
+      loading: 'Cargando categorías...',
+      title: 'Gestión de categorías',
+      subtitle: 'Gestiona las categorías y subcategorías de productos',
+      deleteConfirm: '¿Seguro que quieres eliminar esta categoría? También se eliminarán todas sus subcategorías.',
+      products: 'Productos: {count}',
+      subcategories: 'Subcategorías: {count}',
+      add: 'Añadir categoría',
+      update: 'Actualizar categoría',
+      addTitle: 'Añadir nueva categoría',
+      editTitle: 'Editar categoría',
+      name: 'Nombre',
+      namePlaceholder: 'Nombre de la categoría',
+      parent: 'Categoría superior',
+      noParent: 'Sin categoría superior (categoría principal)',
+      taxClassAutomatic: 'Automática (de la categoría superior o los productos)',
+      description: 'Descripción',
+      descriptionPlaceholder: 'Descripción de la categoría',
+      searchPlaceholder: 'Buscar categorías...',
+      emptyTitle: 'No se encontraron categorías',
+      emptyText: 'Empieza creando tu primera categoría.',
+      addFirst: 'Añade tu primera categoría',
+      total: 'Categorías totales',
+      main: 'Categorías principales',
+    },
+    users: {
+      loading: 'Cargando usuarios...',
+      title: 'Gestión de usuarios',
+      subtitle: 'Gestiona las cuentas de usuario y los permisos',
+      searchPlaceholder: 'Buscar usuarios...',
+      roles: {
+        buyer: 'Comprador',
+        admin: 'Administrador',
+      },
+      joined: 'Alta: {date}',
+      forceLogout: 'Forzar cierre de sesión',
+      forceLogoutConfirm: '¿Cerrar la sesión de {email} en todos los dispositivos?',
+      signedOut: 'Se cerró la sesión de {email}',
+      sessionsEnded: { one: '{count} sesión finalizada', other: '{count} sesiones finalizadas' },
+      forceLogoutFailed: 'No se pudo cerrar la sesión del usuario',
+      total: 'Usuarios totales',
+      active: 'Usuarios activos',
+      inactive: 'Usuarios inactivos',
+    },
+    reviews: {
+      loading: 'Cargando reseñas...',
+      title: 'Gestión de reseñas',
+      subtitle: 'Modera y gestiona las reseñas de productos',
+      status: {
+        pending: 'Pendiente',
+        approved: 'Aprobada',
+        rejected: 'Rechazada',
+      },
+      verifiedPurchase: 'Compra verificada',
+      approve: 'Aprobar',
+      reject: 'Rechazar',
+      total: 'Reseñas totales',
+    },
+    returns: {
+      subtitle: 'Revisa solicitudes de devolución, recibe la mercancía devuelta y emite reembolsos',
+      searchPlaceholder: 'Buscar por RMA o número de pedido...',
+      emptyTitle: 'No se encontraron devoluciones',
+      emptyText: 'Todavía no se ha solicitado ninguna devolución.',
+      updated: 'Devolución actualizada',
+      updateFailed: 'No se pudo actualizar la devolución',
+      rejectPrompt: '¿Por qué se rechaza esta devolución? El cliente verá este motivo.',
+      restockConfirm: '¿Volver a poner en stock {count} × {name}?\n\nElige Cancelar para recibirlo sin reponer stock, por ejemplo si está dañado.',
+      refundConfirm: '¿Reembolsar {amount} al cliente por {rma}?',
+      item: 'Artículo',
+      quantityOf: '{count} de {total}',
+      refund: 'Reembolso',
+      customerNotes: 'Cliente:',
+      staffNotes: 'Personal:',
+      requestedOn: 'Solicitada el {date}',
+      receivedOn: 'Recibida el {date}',
+      receivedRestockedOn: 'Recibida el {date} y repuesta en stock',
+      refundedOn: 'Reembolsada el {date}',
+      markReceived: 'Marcar como recibida',
+      issueRefund: 'Emitir reembolso',
+    },
+    currencies: {
+      subtitle: 'Gestiona las monedas en las que los clientes pueden ver precios y pagar',
+      explanation: 'Los precios del catálogo, las tarifas de envío y las promociones se fijan en {base}. Las demás monedas se convierten con los tipos de abajo y los pedidos se cobran en la moneda que eligió el cliente, al tipo vigente en el momento del pedido.',
+      add: 'Añadir moneda',
+      editTitle: 'Editar moneda: {code}',
+      code: 'Código',
+      name: 'Nombre',
+      namePlaceholder: 'Euro',
+      rate: 'Tipo de cambio',
+      perBase: '(por 1 {base})',
+      preview: 'Un juego de {base} se muestra como {converted}.',
+      offered: 'Disponible para los clientes',
+      saved: 'Moneda guardada',
+      saveFailed: 'No se pudo guardar la moneda',
+      deleteConfirm: '¿Dejar de ofrecer {code}? Los pedidos ya realizados en esta moneda no se ven afectados.',
+      deleted: 'Moneda eliminada',
+      base: 'Base',
+      baseSetting: 'Se define con el ajuste BASE_CURRENCY del servidor',
+      onlyBase: 'Solo se ofrece {base}. Añade una moneda para que los clientes puedan pagar en ella.',
+      wholeAmounts: 'Solo importes enteros',
+      decimals: { one: '{count} decimal', other: '{count} decimales' },
+    },
+    taxes: {
+      subtitle: 'Gestiona los tipos impositivos por región y consulta los impuestos recaudados',
+      add: 'Añadir tipo impositivo',
+      editTitle: 'Editar tipo impositivo: {name}',
+      pricesIncludeTax: 'Los precios del catálogo incluyen impuestos. El impuesto que aparece en los pedidos es la parte del precio que corresponde a impuestos.',
+      pricesExcludeTax: 'Los precios del catálogo no incluyen impuestos. Los impuestos se añaden al pagar.',
+      ratesStack: 'Se cobran todos los tipos activos que coincidan con la dirección y la clase impositiva del producto, así que los tipos estatales y municipales se suman.',
+      name: 'Nombre',
+      namePlaceholder: 'Impuesto sobre ventas del estado de Nueva York',
+      country: 'País',
+      state: 'Estado',
+      optional: '(opcional)',
+      wholeCountry: 'Todo el país',
+      zipPrefixes: 'Prefijos de código postal',
+      commaSeparated: '(separados por comas)',
+      ratePercent: 'Tipo (%)',
+      regionWithZip: '{region} (CP {codes})',
+      saved: 'Tipo impositivo guardado',
+      saveFailed: 'No se pudo guardar el tipo impositivo',
+      deleteConfirm: '¿Eliminar el tipo impositivo {name}? Los pedidos ya realizados conservan el impuesto que se les cobró.',
+      deleted: 'Tipo impositivo eliminado',
+      exportFailed: 'No se pudo exportar el informe de impuestos',
+      emptyTitle: 'No hay tipos impositivos',
+      emptyText: 'No se cobra ningún impuesto hasta que un tipo cubra la dirección del cliente.',
+      collected: 'Impuestos recaudados',
+      refunded: 'Impuestos reembolsados',
+      net: 'Impuestos netos',
+      noneInPeriod: 'No se cobraron impuestos en este periodo.',
+      jurisdiction: 'Jurisdicción',
+      rate: 'Tipo',
+      taxable: 'Base imponible',
+      tax: 'Impuesto',
+    },
+    shipping: {
+      subtitle: 'Gestiona las zonas de envío y las tarifas que se ofrecen al pagar',
+      addZone: 'Añadir zona',
+      addZoneTitle: 'Añadir zona de envío',
+      editZone: 'Editar zona: {name}',
+      addRate: 'Añadir tarifa',
+      addRateTo: 'Añadir tarifa a {name}',
+      editRate: 'Editar tarifa: {name}',
+      name: 'Nombre',
+      zonePlaceholder: 'Nacional',
+      ratePlaceholder: 'Envío estándar',
+      countries: 'Países',
+      countriesHint: '(separados por comas, vacío para el resto del mundo)',
+      regions: 'Estados / regiones',
+      regionsHint: '(vacío para todo el país)',
+      matchingHint: 'Las direcciones se comparan tal como se escriben, sin distinguir mayúsculas, así que incluye todas las formas que usan los clientes. Una zona que incluye el estado de la dirección tiene prioridad sobre una de todo el país.',
+      everywhereElse: 'Cualquier dirección que no cubra otra zona',
+      pricing: 'Precio',
+      rateTypes: {
+        flat: 'Tarifa plana',
+        weight: 'Según el peso del paquete',
+        subtotal: 'Según el subtotal del pedido',
+      },
+      description: 'Descripción',
+      descriptionPlaceholder: 'Se muestra a los clientes al pagar',
+      price: 'Precio',
+      tiers: 'Tramos',
+      tiersHintWeight: '(se cobra el primer tramo en el que cabe el peso del paquete; deja vacío el último límite para no poner máximo)',
+      tiersHintSubtotal: '(se cobra el primer tramo en el que cabe el subtotal del pedido; deja vacío el último límite para no poner máximo)',
+      upTo: 'Hasta',
+      noLimit: 'Sin límite',
+      weightLimit: 'Límite de peso en kg',
+      subtotalLimit: 'Límite de subtotal',
+      kgCosts: 'kg cuesta',
+      costs: 'cuesta',
+      tierPrice: 'Precio del tramo',
+      addTier: 'Añadir tramo',
+      kg: '{weight} kg',
+      tierUpTo: 'hasta {limit}: {price}',
+      tierOver: 'más de {limit}: {price}',
+      freeOverLabel: 'Gratis a partir de',
+      neverFree: 'Nunca gratis',
+      freeOver: 'Gratis a partir de {amount}',
+      minDays: 'Días hábiles mín.',
+      maxDays: 'Días hábiles máx.',
+      businessDays: { one: '{count} día hábil', other: '{count} días hábiles' },
+      businessDaysRange: '{min}-{max} días hábiles',
+      express: 'Exprés',
+      saved: 'Envío guardado',
+      saveFailed: 'No se pudo guardar',
+      deleteZoneConfirm: { one: '¿Eliminar la zona {name} y su {count} tarifa?', other: '¿Eliminar la zona {name} y sus {count} tarifas?' },
+      zoneDeleted: 'Zona de envío eliminada',
+      deleteRateConfirm: '¿Eliminar la tarifa {name}?',
+      rateDeleted: 'Tarifa de envío eliminada',
+      emptyTitle: 'No hay zonas de envío',
+      emptyText: 'No se pueden realizar pedidos con artículos físicos hasta que una zona cubra la dirección del cliente.',
+      noRates: 'Todavía no hay tarifas, así que no se puede enviar nada a esta zona.',
+    },
+    promotions: {
+      subtitle: 'Gestiona cupones y códigos promocionales',
+      add: 'Añadir promoción',
+      addTitle: 'Añadir nueva promoción',
+      editTitle: 'Editar promoción',
+      update: 'Actualizar promoción',
+      code: 'Código',
+      type: 'Tipo',
+      types: {
+        percentage: 'Porcentaje de descuento',
+        fixedAmount: 'Importe fijo de descuento',
+        freeShipping: 'Envío gratis',
+        buyXGetY: 'Compra X y llévate Y gratis',
+      },
+      description: 'Descripción',
+      descriptionPlaceholder: 'Se muestra a los clientes al aplicar el código',
+      percentOffLabel: 'Porcentaje de descuento',
+      amountOffLabel: 'Importe de descuento',
+      maxDiscount: 'Descuento máximo',
+      noMaximum: 'Sin máximo',
+      buyQuantity: 'Cantidad a comprar',
+      freeQuantity: 'Cantidad gratis',
+      minSubtotal: 'Subtotal mínimo',
+      noMinimum: 'Sin mínimo',
+      startsLabel: 'Empieza',
+      expiresLabel: 'Caduca',
+      totalUses: 'Usos totales',
+      usesPerCustomer: 'Usos por cliente',
+      unlimited: 'Ilimitado',
+      platforms: 'Plataformas',
+      appliesToAll: '(si no eliges ninguna, se aplica a todas)',
+      firstOrderOnly: 'Solo primer pedido',
+      searchPlaceholder: 'Buscar promociones...',
+      status: {
+        active: 'Activa',
+        scheduled: 'Programada',
+        expired: 'Caducada',
+        inactive: 'Inactiva',
+        usedUp: 'Agotada',
+      },
+      percentOff: '{percent}% de descuento',
+      percentOffUpTo: '{percent}% de descuento (hasta {amount})',
+      amountOff: '{amount} de descuento',
+      buyGet: 'Compra {buy} y llévate {get} gratis',
+      used: { one: 'Usada {count} vez', other: 'Usada {count} veces' },
+      usedOfLimit: 'Usada {count} / {limit} veces',
+      minimum: 'Mín. {amount}',
+      starts: 'Empieza el {date}',
+      expires: 'Caduca el {date}',
+      unknownCategory: 'Categoría desconocida',
+      created: 'Promoción creada',
+      updated: 'Promoción actualizada',
+      saveFailed: 'No se pudo guardar la promoción',
+      deleteConfirm: '¿Seguro que quieres eliminar {code}? Los códigos que ya se han usado se desactivan en su lugar.',
+      deleted: 'Promoción eliminada',
+      emptyTitle: 'No se encontraron promociones',
+      emptyText: 'Crea un código promocional para ofrecer descuentos al pagar.',
+    },
+    orders: {
+      title: 'Gestión de pedidos',
+      subtitle: 'Procesa y gestiona los pedidos de los clientes',
+      loadFailed: 'No se pudieron cargar los pedidos',
+      savedViews: 'Vistas guardadas',
+      saveView: 'Guardar vista',
+      nameView: 'Nombre de la vista:',
+      viewSaved: 'Vista guardada',
+      deleteView: 'Eliminar vista',
+      deleteViewConfirm: '¿Eliminar la vista "{name}"?',
+      searchPlaceholder: 'Buscar por número de pedido o correo...',
+      orderStatus: 'Estado del pedido',
+      paymentStatus: 'Estado del pago',
+      allPayments: 'Todos los pagos',
+      minTotal: 'Total mín.',
+      maxTotal: 'Total máx.',
+      applyFilters: 'Aplicar filtros',
+      reset: 'Restablecer',
+      selected: { one: '{count} seleccionado', other: '{count} seleccionados' },
+      bulkStatus: 'Estado para los pedidos seleccionados',
+      changeStatus: 'Cambiar estado...',
+      markAs: 'Marcar como {status}',
+      apply: 'Aplicar',
+      bulkConfirm: { one: '¿Marcar {count} pedido como {status}?', other: '¿Marcar {count} pedidos como {status}?' },
+      historyNote: 'Nota para el historial del pedido (opcional):',
+      someNotUpdated: 'Algunos pedidos no se actualizaron',
+      updated: 'Pedidos actualizados',
+      updateFailed: 'No se pudieron actualizar los pedidos',
+      printInvoices: 'Imprimir facturas',
+      printPackingSlips: 'Imprimir albaranes',
+      printFailed: 'No se pudieron imprimir los documentos',
+      exportFailed: 'No se pudieron exportar los pedidos',
+      clear: 'Borrar',
+      selectAll: 'Seleccionar todos los pedidos de esta página',
+      selectOrder: 'Seleccionar el pedido {number}',
+      columns: {
+        order: 'Pedido',
+        date: 'Fecha',
+        customer: 'Cliente',
+        items: 'Artículos',
+        total: 'Total',
+        status: 'Estado',
+        payment: 'Pago',
+      },
+      packingSlip: 'Albarán',
+      refund: 'Reembolsar',
+      invoiceFailed: 'No se pudo descargar la factura',
+      packingSlipFailed: 'No se pudo descargar el albarán',
+      emptyTitle: 'No se encontraron pedidos',
+      emptyText: 'Todavía no se ha realizado ningún pedido.',
+      count: { one: '{count} pedido', other: '{count} pedidos' },
+      perPageLabel: 'Pedidos por página',
+      perPage: '{count} por página',
+    },
+    orderDetail: {
+      notesSaved: 'Notas guardadas',
+      notesFailed: 'No se pudieron guardar las notas',
+      trackingUpdated: 'Datos de seguimiento actualizados',
+      trackingFailed: 'No se pudo actualizar el seguimiento',
+      resendConfirm: '¿Volver a enviar la confirmación del pedido a {email}?',
+      confirmationSent: 'Correo de confirmación enviado',
+      resendFailed: 'No se pudo reenviar la confirmación',
+      packingSlip: 'Albarán',
+      resend: 'Reenviar confirmación',
+      sending: 'Enviando...',
+      digitalDelivery: 'Entrega digital',
+      shippedOf: '{shipped} de {total} enviados',
+      notShipped: 'Sin enviar',
+      amountRefunded: '{amount} reembolsado',
+      shippingWithMethod: 'Envío ({method})',
+      shipments: 'Envíos',
+      createShipment: 'Crear envío',
+      singleParcel: 'Enviado en un solo paquete; consulta Seguimiento.',
+      nothingShipped: 'Todavía no se ha enviado nada.',
+      shipmentNumber: 'Envío {number}',
+      track: 'Seguir',
+      by: 'Por {name}',
+      statusHistory: 'Historial de estados',
+      system: 'Sistema',
+      unknown: 'Desconocido',
+      activity: 'Actividad',
+      noActivity: 'No hay actividad registrada.',
+      cancelReason: 'Cancelado: {reason}',
+      customerNote: 'Nota del cliente:',
+      addresses: 'Direcciones',
+      digitalOnly: 'Solo entrega digital',
+      method: 'Método',
+      paymentIntent: 'Payment Intent',
+      charge: 'Cargo',
+      trackingNumber: 'Número de seguimiento',
+      trackingUrl: 'URL de seguimiento (opcional)',
+      saveTracking: 'Guardar seguimiento',
+      internalNotes: 'Notas internas',
+      notesPlaceholder: 'Solo el personal puede verlas',
+      saveNotes: 'Guardar notas',
+    },
+    refund: {
+      title: 'Reembolsar el pedido #{number}',
+      description: 'Elige los artículos, el envío y los impuestos que quieres devolver. El reembolso se hace al método de pago original.',
+      loadFailed: 'No se pudieron cargar los reembolsos',
+      processed: 'Reembolso procesado',
+      failed: 'El reembolso falló',
+      orderTotal: 'Total del pedido',
+      refundable: 'Reembolsable',
+      each: '{price} cada uno',
+      refundedOf: '{refunded} de {total} reembolsados',
+      quantityLabel: 'Cantidad de {name} a reembolsar',
+      upTo: '(hasta {amount})',
+      reasonPlaceholder: 'p. ej., el artículo llegó dañado',
+      previous: 'Reembolsos anteriores',
+      sources: {
+        admin: 'Personal',
+        customer: 'Cliente',
+        return: 'Devolución',
+        stripe: 'Panel de Stripe',
+      },
+      total: 'Total del reembolso',
+      exceedsBalance: 'El reembolso supera los {amount} que quedan en este pedido.',
+      refunding: 'Reembolsando...',
+      submit: 'Reembolsar {amount}',
+    },
+  },
+  errors: {
+    notFoundTitle: 'Página no encontrada',
+    notFoundText: 'La página que buscas no existe o se ha movido a otra ubicación.',
+    forbiddenTitle: 'Acceso prohibido',
+    forbiddenText: 'No tienes permiso para acceder a esta página. Ponte en contacto con un administrador si crees que se trata de un error.',
+  },
+  validation: {
+    required: 'Este campo es obligatorio',
+    email: 'Introduce un correo electrónico válido',
+    minLength: { one: 'Debe tener al menos {count} carácter', other: 'Debe tener al menos {count} caracteres' },
+    maxLength: { one: 'Debe tener {count} carácter como máximo', other: 'Debe tener {count} caracteres como máximo' },
+    minNumber: 'Debe ser al menos {min}',
+    firstNameRequired: 'El nombre es obligatorio',
+    firstNameMin: 'El nombre debe tener al menos 2 caracteres',
+    lastNameRequired: 'El apellido es obligatorio',
+    lastNameMin: 'El apellido debe tener al menos 2 caracteres',
+    passwordRequired: 'La contraseña es obligatoria',
+    codeRequired: 'El código de autenticación es obligatorio',
+    passwordMin: 'La contraseña debe tener al menos 8 caracteres',
+    passwordsMismatch: 'Las contraseñas no coinciden',
+    passwordWeak: 'Elige una contraseña más segura',
+    phoneRequired: 'El número de teléfono es obligatorio',
+    addressRequired: 'La dirección es obligatoria',
+    cityRequired: 'La ciudad es obligatoria',
+    stateRequired: 'El estado o provincia es obligatorio',
+    zipCodeRequired: 'El código postal es obligatorio',
+    countryRequired: 'El país es obligatorio',
+    shippingMethodRequired: 'Selecciona un método de envío',
+    notesMax: 'Las notas deben tener 500 caracteres como máximo',
+    acceptTerms: 'Debes aceptar los términos y condiciones',
+    productNameRequired: 'El nombre es obligatorio',
+    descriptionRequired: 'La descripción es obligatoria',
+    priceMin: 'El precio debe ser positivo',
+    costPriceMin: 'El precio de coste debe ser positivo',
+    skuRequired: 'El SKU es obligatorio',
+    stockMin: 'La cantidad en stock debe ser positiva',
+    lowStockMin: 'El umbral de stock bajo debe ser positivo',
+    categoryRequired: 'La categoría es obligatoria',
+    labelRequired: 'La etiqueta es obligatoria',
+  },
+};
@@ -14,9 +14,11 @@ import {
   Download
 } from 'lucide-react';
 import { categoriesAPI } from '@/lib/api';
-import { Category } from '@/types';
+import { Category, TaxClass } from '@/types';
+import { useTranslation } from '@/hooks/use-translation';
 
 export const AdminCategoriesPage: React.FC = () => {
+  const { t } = useTranslation();
   const [categories, setCategories] = useState<Category[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
@@ -27,7 +29,8 @@ export const AdminCategoriesPage: React.FC = () => {
     description: '',
     parentId: '',
     isActive: true,
-    sortOrder: 0
+    sortOrder: 0,
+    taxClass: '' as TaxClass | ''
   });
 
   useEffect(() => {
@@ -50,16 +53,18 @@ export const AdminCategoriesPage: React.FC = () => {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    // No tax class means the tax engine works it out from the products
+    const data = { ...formData, taxClass: formData.taxClass || null };
     try {
       if (editingCategory) {
-        const response = await categoriesAPI.updateCategory(editingCategory.id, formData);
+        const response = await categoriesAPI.updateCategory(editingCategory.id, data);
         if (response.success) {
           setEditingCategory(null);
           resetForm();
           loadCategories();
         }
       } else {
-        const response = await categoriesAPI.createCategory(formData);
+        const response = await categoriesAPI.createCategory(data);
         if (response.success) {
           resetForm();
           setShowAddForm(false);
@@ -72,7 +77,7 @@ export const AdminCategoriesPage: React.FC = () => {
   };
 
   const handleDeleteCategory = async (categoryId: string) => {
-    if (window.confirm('Are you sure you want to delete this category? This will also delete all subcategories.')) {
+    if (window.confirm(t('admin.categories.deleteConfirm'))) {
       try {
         const response = await categoriesAPI.deleteCategory(categoryId);
         if (response.success) {
@@ -91,7 +96,8 @@ export const AdminCategoriesPage: React.FC = () => {
       description: category.description || '',
       parentId: category.parentId || '',
       isActive: category.isActive,
-      sortOrder: category.sortOrder || 0
+      sortOrder: category.sortOrder || 0,
+      taxClass: category.taxClass || ''
     });
     setShowAddForm(true);
   };
@@ -102,7 +108,8 @@ export const AdminCategoriesPage: React.FC = () => {
       description: '',
       parentId: '',
       isActive: true,
-      sortOrder: 0
+      sortOrder: 0,
+      taxClass: ''
     });
   };
 
@@ -165,10 +172,10 @@ export const AdminCategoriesPage: React.FC = () => {
                       <p className="text-sm text-muted-foreground">{category.description}</p>
                     )}
                     <div className="flex items-center space-x-4 text-xs text-muted-foreground mt-1">
-                      <span>Products: {category.productCount || 0}</span>
-                      <span>Subcategories: {subcategories.length}</span>
+                      <span>{t('admin.categories.products', { count: category.productCount || 0 })}</span>
+                      <span>{t('admin.categories.subcategories', { count: subcategories.length })}</span>
                       <span className={`px-2 py-1 rounded ${category.isActive ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
-                        {category.isActive ? 'Active' : 'Inactive'}
+                        {category.isActive ? t('common.active') : t('common.inactive')}
                       </span>
                     </div>
                   </div>
@@ -180,7 +187,7 @@ export const AdminCategoriesPage: React.FC = () => {
                     onClick={() => handleEditCategory(category)}
                   >
                     <Edit className="w-4 h-4 mr-1" />
-                    Edit
+                    {t('common.edit')}
                   </Button>
                   <Button
                     variant="outline"
@@ -205,7 +212,7 @@ export const AdminCategoriesPage: React.FC = () => {
       <div className="flex items-center justify-center min-h-[60vh]">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
-          <p className="text-muted-foreground">Loading categories...</p>
+          <p className="text-muted-foreground">{t('admin.categories.loading')}</p>
         </div>
       </div>
     );
@@ -216,15 +223,15 @@ export const AdminCategoriesPage: React.FC = () => {
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-3xl font-bold">Categories Management</h1>
+          <h1 className="text-3xl font-bold">{t('admin.categories.title')}</h1>
           <p className="text-muted-foreground">
-            Manage product categories and subcategories
+            {t('admin.categories.subtitle')}
           </p>
         </div>
         <div className="flex space-x-2">
           <Button variant="outline" onClick={handleExportExcel}>
             <Download className="w-4 h-4 mr-2" />
-            Export
+            {t('common.export')}
           </Button>
           <label className="cursor-pointer">
             <input
@@ -235,12 +242,12 @@ export const AdminCategoriesPage: React.FC = () => {
             />
             <Button variant="outline">
               <Upload className="w-4 h-4 mr-2" />
-              Import
+              {t('common.import')}
             </Button>
           </label>
           <Button onClick={() => setShowAddForm(true)}>
             <Plus className="w-4 h-4 mr-2" />
-            Add Category
+            {t('admin.categories.add')}
           </Button>
         </div>
       </div>
@@ -250,29 +257,29 @@ export const AdminCategoriesPage: React.FC = () => {
         <Card>
           <CardHeader>
             <CardTitle>
-              {editingCategory ? 'Edit Category' : 'Add New Category'}
+              {editingCategory ? t('admin.categories.editTitle') : t('admin.categories.addTitle')}
             </CardTitle>
           </CardHeader>
           <CardContent>
             <form onSubmit={handleSubmit} className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
-                  <label className="block text-sm font-medium mb-2">Name</label>
+                  <label className="block text-sm font-medium mb-2">{t('admin.categories.name')}</label>
                   <Input
                     value={formData.name}
                     onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                    placeholder="Category name"
+                    placeholder={t('admin.categories.namePlaceholder')}
                     required
                   />
                 </div>
                 <div>
-                  <label className="block text-sm font-medium mb-2">Parent Category</label>
+                  <label className="block text-sm font-medium mb-2">{t('admin.categories.parent')}</label>
                   <select
                     value={formData.parentId}
                     onChange={(e) => setFormData({ ...formData, parentId: e.target.value })}
                     className="w-full px-3 py-2 border rounded-md"
                   >
-                    <option value="">No Parent (Main Category)</option>
+                    <option value="">{t('admin.categories.noParent')}</option>
                     {getParentCategories().map(category => (
                       <option key={category.id} value={category.id}>
                         {category.name}
@@ -280,13 +287,27 @@ export const AdminCategoriesPage: React.FC = () => {
                     ))}
                   </select>
                 </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">{t('admin.taxClass.label')}</label>
+                  <select
+                    value={formData.taxClass}
+                    onChange={(e) => setFormData({ ...formData, taxClass: e.target.value as TaxClass | '' })}
+                    className="w-full px-3 py-2 border rounded-md"
+                  >
+                    <option value="">{t('admin.categories.taxClassAutomatic')}</option>
+                    <option value="standard">{t('admin.taxClass.standard')}</option>
+                    <option value="reduced">{t('admin.taxClass.reduced')}</option>
+                    <option value="digital">{t('admin.taxClass.digital')}</option>
+                    <option value="exempt">{t('admin.taxClass.exempt')}</option>
+                  </select>
+                </div>
               </div>
               <div>
-                <label className="block text-sm font-medium mb-2">Description</label>
+                <label className="block text-sm font-medium mb-2">{t('admin.categories.description')}</label>
                 <textarea
                   value={formData.description}
                   onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                  placeholder="Category description"
+                  placeholder={t('admin.categories.descriptionPlaceholder')}
                   className="w-full px-3 py-2 border rounded-md"
                   rows={3}
                 />
@@ -300,12 +321,12 @@ export const AdminCategoriesPage: React.FC = () => {
                   className="rounded"
                 />
                 <label htmlFor="isActive" className="text-sm font-medium">
-                  Active
+                  {t('common.active')}
                 </label>
               </div>
               <div className="flex space-x-2">
                 <Button type="submit">
-                  {editingCategory ? 'Update Category' : 'Add Category'}
+                  {editingCategory ? t('admin.categories.update') : t('admin.categories.add')}
                 </Button>
                 <Button
                   type="button"
@@ -316,7 +337,7 @@ export const AdminCategoriesPage: React.FC = () => {
                     resetForm();
                   }}
                 >
-                  Cancel
+                  {t('common.cancel')}
                 </Button>
               </div>
             </form>
@@ -330,7 +351,7 @@ export const AdminCategoriesPage: React.FC = () => {
           <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
             <Input
-              placeholder="Search categories..."
+              placeholder={t('admin.categories.searchPlaceholder')}
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="pl-10"
@@ -348,13 +369,13 @@ export const AdminCategoriesPage: React.FC = () => {
         <Card>
           <CardContent className="text-center py-12">
             <Folder className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
-            <h3 className="text-lg font-semibold mb-2">No categories found</h3>
+            <h3 className="text-lg font-semibold mb-2">{t('admin.categories.emptyTitle')}</h3>
             <p className="text-muted-foreground mb-6">
-              Get started by creating your first category.
+              {t('admin.categories.emptyText')}
             </p>
             <Button onClick={() => setShowAddForm(true)}>
               <Plus className="w-4 h-4 mr-2" />
-              Add Your First Category
+              {t('admin.categories.addFirst')}
             </Button>
           </CardContent>
         </Card>
@@ -367,7 +388,7 @@ export const AdminCategoriesPage: React.FC = () => {
             <div className="flex items-center space-x-2">
               <Folder className="w-5 h-5 text-blue-600" />
               <div>
-                <p className="text-sm font-medium">Total Categories</p>
+                <p className="text-sm font-medium">{t('admin.categories.total')}</p>
                 <p className="text-2xl font-bold">{categories.length}</p>
               </div>
             </div>
@@ -379,7 +400,7 @@ export const AdminCategoriesPage: React.FC = () => {
             <div className="flex items-center space-x-2">
               <FolderOpen className="w-5 h-5 text-green-600" />
               <div>
-                <p className="text-sm font-medium">Main Categories</p>
+                <p className="text-sm font-medium">{t('admin.categories.main')}</p>
                 <p className="text-2xl font-bold">
                   {categories.filter(cat => !cat.parentId).length}
                 </p>
@@ -393,7 +414,7 @@ export const AdminCategoriesPage: React.FC = () => {
             <div className="flex items-center space-x-2">
               <Package className="w-5 h-5 text-purple-600" />
               <div>
-                <p className="text-sm font-medium">Total Products</p>
+                <p className="text-sm font-medium">{t('admin.dashboard.totalProducts')}</p>
                 <p className="text-2xl font-bold">
                   {categories.reduce((sum, cat) => sum + (cat.productCount || 0), 0)}
                 </p>
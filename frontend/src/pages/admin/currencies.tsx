@@ -0,0 +1,290 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Plus,
+  Edit,
+  Trash2,
+  Coins
+} from 'lucide-react';
+import { currenciesAPI } from '@/lib/api';
+import { AdminCurrency, CurrencyForm } from '@/types';
+import { formatPrice, getErrorMessage } from '@/lib/utils';
+import { toast } from '@/store';
+import { useTranslation } from '@/hooks/use-translation';
+
+const emptyCurrencyForm = {
+  code: '',
+  name: '',
+  exchangeRate: '',
+  isActive: true,
+  sortOrder: '0'
+};
+
+type CurrencyFormData = typeof emptyCurrencyForm;
+
+const toCurrencyForm = (data: CurrencyFormData): CurrencyForm => ({
+  code: data.code.trim().toUpperCase(),
+  name: data.name.trim(),
+  exchangeRate: Number(data.exchangeRate) || 0,
+  isActive: data.isActive,
+  sortOrder: Number(data.sortOrder) || 0
+});
+
+export const AdminCurrenciesPage: React.FC = () => {
+  const { t } = useTranslation();
+  const [currencies, setCurrencies] = useState<AdminCurrency[]>([]);
+  const [baseCurrency, setBaseCurrency] = useState('USD');
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingCurrency, setEditingCurrency] = useState<AdminCurrency | null>(null);
+  const [currencyForm, setCurrencyForm] = useState<CurrencyFormData>(emptyCurrencyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadCurrencies();
+  }, []);
+
+  const loadCurrencies = async () => {
+    try {
+      setIsLoading(true);
+      const response = await currenciesAPI.getAllCurrencies();
+      if (response.success && response.data) {
+        setCurrencies(response.data.currencies);
+        setBaseCurrency(response.data.baseCurrency);
+      }
+    } catch (error) {
+      console.error('Failed to load currencies:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openForm = (currency?: AdminCurrency) => {
+    setEditingCurrency(currency || null);
+    setCurrencyForm(currency ? {
+      code: currency.code,
+      name: currency.name,
+      exchangeRate: String(Number(currency.exchangeRate)),
+      isActive: currency.isActive,
+      sortOrder: String(currency.sortOrder)
+    } : { ...emptyCurrencyForm, sortOrder: String(currencies.length + 1) });
+    setFormError(null);
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingCurrency(null);
+    setFormError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+    try {
+      const payload = toCurrencyForm(currencyForm);
+      const response = editingCurrency
+        ? await currenciesAPI.updateCurrency(editingCurrency.id, payload)
+        : await currenciesAPI.createCurrency(payload);
+
+      if (response.success) {
+        toast.success(response.message || t('admin.currencies.saved'));
+        closeForm();
+        loadCurrencies();
+      }
+    } catch (error: any) {
+      console.error('Failed to save currency:', error);
+      setFormError(getErrorMessage(error, t('admin.currencies.saveFailed')));
+    }
+  };
+
+  const handleDelete = async (currency: AdminCurrency) => {
+    if (window.confirm(t('admin.currencies.deleteConfirm', { code: currency.code }))) {
+      try {
+        const response = await currenciesAPI.deleteCurrency(currency.id);
+        if (response.success) {
+          toast.success(response.message || t('admin.currencies.deleted'));
+          loadCurrencies();
+        }
+      } catch (error) {
+        console.error('Failed to delete currency:', error);
+      }
+    }
+  };
+
+  // A preview of a typical price, so a mistyped rate is easy to spot
+  const previewRate = Number(currencyForm.exchangeRate);
+  const previewCode = currencyForm.code.trim().toUpperCase();
+  const canPreview = previewRate > 0 && /^[A-Z]{3}$/.test(previewCode);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">{t('admin.nav.currencies')}</h1>
+          <p className="text-muted-foreground">
+            {t('admin.currencies.subtitle')}
+          </p>
+        </div>
+        <Button onClick={() => openForm()}>
+          <Plus className="w-4 h-4 mr-2" />
+          {t('admin.currencies.add')}
+        </Button>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        {t('admin.currencies.explanation', { base: baseCurrency })}
+      </p>
+
+      {/* Add/Edit Form */}
+      {showForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingCurrency ? t('admin.currencies.editTitle', { code: editingCurrency.code }) : t('admin.currencies.add')}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">{t('admin.currencies.code')}</label>
+                  <Input
+                    value={currencyForm.code}
+                    onChange={(e) => setCurrencyForm({ ...currencyForm, code: e.target.value.toUpperCase() })}
+                    placeholder="EUR"
+                    maxLength={3}
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">{t('admin.currencies.name')}</label>
+                  <Input
+                    value={currencyForm.name}
+                    onChange={(e) => setCurrencyForm({ ...currencyForm, name: e.target.value })}
+                    placeholder={t('admin.currencies.namePlaceholder')}
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">
+                    {t('admin.currencies.rate')} <span className="text-muted-foreground font-normal">{t('admin.currencies.perBase', { base: baseCurrency })}</span>
+                  </label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.000001"
+                    value={currencyForm.exchangeRate}
+                    onChange={(e) => setCurrencyForm({ ...currencyForm, exchangeRate: e.target.value })}
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">{t('admin.sortOrder')}</label>
+                  <Input
+                    type="number"
+                    value={currencyForm.sortOrder}
+                    onChange={(e) => setCurrencyForm({ ...currencyForm, sortOrder: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              {canPreview && (
+                <p className="text-sm text-muted-foreground">
+                  {t('admin.currencies.preview', { base: formatPrice(59.99, baseCurrency), converted: formatPrice(59.99 * previewRate, previewCode) })}
+                </p>
+              )}
+
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={currencyForm.isActive}
+                  onChange={(e) => setCurrencyForm({ ...currencyForm, isActive: e.target.checked })}
+                  className="rounded"
+                />
+                <span className="text-sm font-medium">{t('admin.currencies.offered')}</span>
+              </label>
+
+              {formError && (
+                <p className="text-destructive text-sm">{formError}</p>
+              )}
+
+              <div className="flex space-x-2">
+                <Button type="submit">
+                  {editingCurrency ? t('common.saveChanges') : t('admin.currencies.add')}
+                </Button>
+                <Button type="button" variant="outline" onClick={closeForm}>
+                  {t('common.cancel')}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Currencies */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <div className="divide-y">
+              <div className="flex items-center justify-between p-4">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <p className="font-medium">{baseCurrency}</p>
+                    <span className="px-2 py-0.5 rounded text-xs bg-primary/10 text-primary">{t('admin.currencies.base')}</span>
+                  </div>
+                  <p className="text-sm text-muted-foreground">{t('admin.currencies.baseSetting')}</p>
+                </div>
+                <span className="font-semibold">1</span>
+              </div>
+              {currencies.length === 0 && (
+                <div className="text-center py-8">
+                  <Coins className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+                  <p className="text-muted-foreground">
+                    {t('admin.currencies.onlyBase', { base: baseCurrency })}
+                  </p>
+                </div>
+              )}
+              {currencies.map(currency => (
+                <div key={currency.id} className="flex items-center justify-between p-4">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <p className="font-medium">{currency.code}</p>
+                      {!currency.isActive && (
+                        <span className="px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-800">{t('common.inactive')}</span>
+                      )}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {currency.name} • {currency.decimals === 0 ? t('admin.currencies.wholeAmounts') : t('admin.currencies.decimals', { count: currency.decimals })}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-4">
+                    <span className="font-semibold">{Number(currency.exchangeRate)}</span>
+                    <div className="flex space-x-2">
+                      <Button variant="outline" size="sm" onClick={() => openForm(currency)}>
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(currency)}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
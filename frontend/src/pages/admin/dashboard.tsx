@@ -12,10 +12,12 @@ import {
   AlertTriangle
 } from 'lucide-react';
 import { adminAPI } from '@/lib/api';
-import { DashboardStats, Product } from '@/types';
-import { formatPrice } from '@/lib/utils';
+import { DashboardStats, OrderStatus, Product } from '@/types';
+import { formatDate, formatPrice } from '@/lib/utils';
+import { useTranslation } from '@/hooks/use-translation';
 
 export const AdminDashboardPage: React.FC = () => {
+  const { t } = useTranslation();
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [recentOrders, setRecentOrders] = useState<any[]>([]);
   const [lowStockProducts, setLowStockProducts] = useState<Product[]>([]);
@@ -48,7 +50,7 @@ export const AdminDashboardPage: React.FC = () => {
       <div className="flex items-center justify-center min-h-[60vh]">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
-          <p className="text-muted-foreground">Loading dashboard...</p>
+          <p className="text-muted-foreground">{t('admin.dashboard.loading')}</p>
         </div>
       </div>
     );
@@ -58,9 +60,9 @@ export const AdminDashboardPage: React.FC = () => {
     <div className="space-y-8">
       {/* Header */}
       <div>
-        <h1 className="text-3xl font-bold">Dashboard</h1>
+        <h1 className="text-3xl font-bold">{t('admin.nav.dashboard')}</h1>
         <p className="text-muted-foreground">
-          Welcome back! Here's what's happening with your store today.
+          {t('admin.dashboard.welcome')}
         </p>
       </div>
 
@@ -68,7 +70,7 @@ export const AdminDashboardPage: React.FC = () => {
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Revenue</CardTitle>
+            <CardTitle className="text-sm font-medium">{t('admin.dashboard.totalRevenue')}</CardTitle>
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -76,14 +78,14 @@ export const AdminDashboardPage: React.FC = () => {
               {stats ? formatPrice(stats.totalRevenue) : '$0'}
             </div>
             <p className="text-xs text-muted-foreground">
-              <span className="text-green-600">+12% from last month</span>
+              <span className="text-green-600">{t('admin.dashboard.fromLastMonth', { change: '+12%' })}</span>
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Orders</CardTitle>
+            <CardTitle className="text-sm font-medium">{t('admin.dashboard.totalOrders')}</CardTitle>
             <ShoppingCart className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -91,14 +93,14 @@ export const AdminDashboardPage: React.FC = () => {
               {stats?.totalOrders || 0}
             </div>
             <p className="text-xs text-muted-foreground">
-              <span className="text-green-600">+8% from last month</span>
+              <span className="text-green-600">{t('admin.dashboard.fromLastMonth', { change: '+8%' })}</span>
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Products</CardTitle>
+            <CardTitle className="text-sm font-medium">{t('admin.dashboard.totalProducts')}</CardTitle>
             <Package className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -106,14 +108,14 @@ export const AdminDashboardPage: React.FC = () => {
               {stats?.totalProducts || 0}
             </div>
             <p className="text-xs text-muted-foreground">
-              {lowStockProducts.length} products low in stock
+              {t('admin.dashboard.lowStockCount', { count: lowStockProducts.length })}
             </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Customers</CardTitle>
+            <CardTitle className="text-sm font-medium">{t('admin.dashboard.totalCustomers')}</CardTitle>
             <Users className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -121,7 +123,7 @@ export const AdminDashboardPage: React.FC = () => {
               {stats?.totalUsers || 0}
             </div>
             <p className="text-xs text-muted-foreground">
-              {stats?.pendingReviews || 0} reviews pending
+              {t('admin.dashboard.reviewsPending', { count: stats?.pendingReviews || 0 })}
             </p>
           </CardContent>
         </Card>
@@ -132,15 +134,15 @@ export const AdminDashboardPage: React.FC = () => {
         {/* Sales Chart */}
         <Card>
           <CardHeader>
-            <CardTitle>Sales Overview</CardTitle>
+            <CardTitle>{t('admin.dashboard.salesOverview')}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="h-[300px] flex items-center justify-center">
               <div className="text-center">
                 <TrendingUp className="w-12 h-12 text-primary mx-auto mb-4" />
-                <p className="text-muted-foreground">Sales chart will be implemented here</p>
+                <p className="text-muted-foreground">{t('admin.dashboard.salesChartPlaceholder')}</p>
                 <p className="text-sm text-muted-foreground">
-                  Last 30 days: 30 data points
+                  {t('admin.dashboard.salesChartRange', { days: 30 })}
                 </p>
               </div>
             </div>
@@ -150,7 +152,7 @@ export const AdminDashboardPage: React.FC = () => {
         {/* Top Products */}
         <Card>
           <CardHeader>
-            <CardTitle>Low Stock Products</CardTitle>
+            <CardTitle>{t('admin.dashboard.lowStockProducts')}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
@@ -167,7 +169,7 @@ export const AdminDashboardPage: React.FC = () => {
                   <div className="flex-1">
                     <h4 className="font-medium text-sm">{product.name}</h4>
                     <p className="text-xs text-muted-foreground">
-                      {product.stockQuantity} in stock
+                      {t('product.inStock', { count: product.stockQuantity })}
                     </p>
                   </div>
                   <div className="text-right">
@@ -182,7 +184,7 @@ export const AdminDashboardPage: React.FC = () => {
               {lowStockProducts.length === 0 && (
                 <div className="text-center py-8">
                   <Package className="w-8 h-8 text-green-600 mx-auto mb-2" />
-                  <p className="text-sm text-muted-foreground">All products are well stocked!</p>
+                  <p className="text-sm text-muted-foreground">{t('admin.dashboard.wellStocked')}</p>
                 </div>
               )}
             </div>
@@ -195,26 +197,26 @@ export const AdminDashboardPage: React.FC = () => {
         {/* Recent Orders */}
         <Card>
           <CardHeader>
-            <CardTitle>Recent Orders</CardTitle>
+            <CardTitle>{t('admin.dashboard.recentOrders')}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
               {recentOrders.slice(0, 5).map((order) => (
                 <div key={order.id} className="flex items-center justify-between p-3 border rounded-lg">
                   <div>
-                    <p className="font-medium text-sm">Order #{order.orderNumber}</p>
+                    <p className="font-medium text-sm">{t('orders.orderNumber', { number: order.orderNumber })}</p>
                     <p className="text-xs text-muted-foreground">
-                      {order.user?.firstName} {order.user?.lastName} • {new Date(order.createdAt).toLocaleDateString()}
+                      {order.user?.firstName} {order.user?.lastName} • {formatDate(order.createdAt)}
                     </p>
                   </div>
                   <div className="text-right">
-                    <p className="font-medium text-sm">{formatPrice(order.total)}</p>
+                    <p className="font-medium text-sm">{formatPrice(order.total, order.currency)}</p>
                     <span className={`text-xs px-2 py-1 rounded-full ${
                       order.status === 'completed' ? 'bg-green-100 text-green-800' :
                       order.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
                       'bg-gray-100 text-gray-800'
                     }`}>
-                      {order.status}
+                      {t(`orderStatus.${order.status as OrderStatus}`)}
                     </span>
                   </div>
                 </div>
@@ -222,7 +224,7 @@ export const AdminDashboardPage: React.FC = () => {
               {recentOrders.length === 0 && (
                 <div className="text-center py-8">
                   <ShoppingCart className="w-8 h-8 text-muted-foreground mx-auto mb-2" />
-                  <p className="text-sm text-muted-foreground">No recent orders</p>
+                  <p className="text-sm text-muted-foreground">{t('admin.dashboard.noRecentOrders')}</p>
                 </div>
               )}
             </div>
@@ -232,7 +234,7 @@ export const AdminDashboardPage: React.FC = () => {
         {/* Alerts */}
         <Card>
           <CardHeader>
-            <CardTitle>Alerts & Notifications</CardTitle>
+            <CardTitle>{t('admin.dashboard.alerts')}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
@@ -241,10 +243,10 @@ export const AdminDashboardPage: React.FC = () => {
                   <AlertTriangle className="w-5 h-5 text-yellow-600" />
                   <div>
                     <p className="font-medium text-sm text-yellow-800">
-                      Low Stock Alert
+                      {t('admin.dashboard.lowStockAlert')}
                     </p>
                     <p className="text-xs text-yellow-700">
-                      {lowStockProducts.length} products are running low on stock
+                      {t('admin.dashboard.lowStockAlertText', { count: lowStockProducts.length })}
                     </p>
                   </div>
                 </div>
@@ -255,10 +257,10 @@ export const AdminDashboardPage: React.FC = () => {
                   <ShoppingCart className="w-5 h-5 text-blue-600" />
                   <div>
                     <p className="font-medium text-sm text-blue-800">
-                      Pending Orders
+                      {t('admin.dashboard.pendingOrders')}
                     </p>
                     <p className="text-xs text-blue-700">
-                      {recentOrders.filter(order => order.status === 'pending').length} orders awaiting processing
+                      {t('admin.dashboard.pendingOrdersText', { count: recentOrders.filter(order => order.status === 'pending').length })}
                     </p>
                   </div>
                 </div>
@@ -268,7 +270,7 @@ export const AdminDashboardPage: React.FC = () => {
                (!recentOrders || recentOrders.filter(order => order.status === 'pending').length === 0) && (
                 <div className="text-center py-8">
                   <Eye className="w-8 h-8 text-muted-foreground mx-auto mb-2" />
-                  <p className="text-sm text-muted-foreground">No alerts at the moment</p>
+                  <p className="text-sm text-muted-foreground">{t('admin.dashboard.noAlerts')}</p>
                 </div>
               )}
             </div>
@@ -279,32 +281,32 @@ export const AdminDashboardPage: React.FC = () => {
       {/* Quick Actions */}
       <Card>
         <CardHeader>
-          <CardTitle>Quick Actions</CardTitle>
+          <CardTitle>{t('admin.dashboard.quickActions')}</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <button className="p-4 border rounded-lg hover:bg-muted/50 transition-colors text-left">
               <Package className="w-6 h-6 text-primary mb-2" />
-              <h4 className="font-medium">Add Product</h4>
-              <p className="text-sm text-muted-foreground">Create a new product listing</p>
+              <h4 className="font-medium">{t('admin.dashboard.addProduct')}</h4>
+              <p className="text-sm text-muted-foreground">{t('admin.dashboard.addProductText')}</p>
             </button>
             
             <button className="p-4 border rounded-lg hover:bg-muted/50 transition-colors text-left">
               <ShoppingCart className="w-6 h-6 text-primary mb-2" />
-              <h4 className="font-medium">View Orders</h4>
-              <p className="text-sm text-muted-foreground">Manage customer orders</p>
+              <h4 className="font-medium">{t('admin.dashboard.viewOrders')}</h4>
+              <p className="text-sm text-muted-foreground">{t('admin.dashboard.viewOrdersText')}</p>
             </button>
             
             <button className="p-4 border rounded-lg hover:bg-muted/50 transition-colors text-left">
               <Users className="w-6 h-6 text-primary mb-2" />
-              <h4 className="font-medium">Manage Users</h4>
-              <p className="text-sm text-muted-foreground">View and manage customers</p>
+              <h4 className="font-medium">{t('admin.dashboard.manageUsers')}</h4>
+              <p className="text-sm text-muted-foreground">{t('admin.dashboard.manageUsersText')}</p>
             </button>
             
             <button className="p-4 border rounded-lg hover:bg-muted/50 transition-colors text-left">
               <TrendingUp className="w-6 h-6 text-primary mb-2" />
-              <h4 className="font-medium">Analytics</h4>
-              <p className="text-sm text-muted-foreground">View detailed analytics</p>
+              <h4 className="font-medium">{t('admin.nav.analytics')}</h4>
+              <p className="text-sm text-muted-foreground">{t('admin.dashboard.analyticsText')}</p>
             </button>
           </div>
         </CardContent>
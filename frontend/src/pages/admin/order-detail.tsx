@@ -0,0 +1,616 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  CreditCard,
+  ExternalLink,
+  FileText,
+  History,
+  Mail,
+  MapPin,
+  Package,
+  RotateCcw,
+  StickyNote,
+  Truck,
+  User as UserIcon
+} from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { AddressBlock } from '@/components/orders/address-block';
+import { OrderStatusActions } from '@/components/orders/order-status-actions';
+import { RefundDialog } from '@/components/orders/refund-dialog';
+import { ShipmentForm } from '@/components/orders/shipment-form';
+import { ordersAPI } from '@/lib/api';
+import { ActivityLog, Order, OrderStatusTransitions, ShippingSummaryLine } from '@/types';
+import { toast } from '@/store';
+import { useTranslation } from '@/hooks/use-translation';
+import {
+  formatDate,
+  formatDateTime,
+  formatPrice,
+  getOrderStatusColor,
+  getPaymentStatusColor,
+  isOrderInvoiceable,
+  hasItemsToPack,
+  canRefundOrder,
+  getErrorMessage,
+  saveBlob
+} from '@/lib/utils';
+
+// Shipments can be added until the order has fully gone out
+const SHIPPABLE_STATUSES = ['confirmed', 'processing'];
+
+export const AdminOrderDetailPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { t } = useTranslation();
+  const [order, setOrder] = useState<Order | null>(null);
+  const [activityLogs, setActivityLogs] = useState<ActivityLog[]>([]);
+  const [shipping, setShipping] = useState<ShippingSummaryLine[]>([]);
+  const [statusTransitions, setStatusTransitions] = useState<OrderStatusTransitions | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [adminNotes, setAdminNotes] = useState('');
+  const [isSavingNotes, setIsSavingNotes] = useState(false);
+  const [trackingNumber, setTrackingNumber] = useState('');
+  const [trackingUrl, setTrackingUrl] = useState('');
+  const [isSavingTracking, setIsSavingTracking] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+  const [isShipping, setIsShipping] = useState(false);
+  const [isRefunding, setIsRefunding] = useState(false);
+
+  useEffect(() => {
+    loadOrder();
+    loadStatusTransitions();
+  }, [id]);
+
+  const loadOrder = async () => {
+    if (!id) return;
+    try {
+      setIsLoading(true);
+      const response = await ordersAPI.getAdminOrder(id);
+      if (response.success && response.data) {
+        setOrder(response.data.order);
+        setActivityLogs(response.data.activityLogs);
+        setShipping(response.data.shipping);
+        setAdminNotes(response.data.order.adminNotes || '');
+        setTrackingNumber(response.data.order.trackingNumber || '');
+        setTrackingUrl(response.data.order.trackingUrl || '');
+      }
+    } catch (error) {
+      console.error('Failed to load order:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadStatusTransitions = async () => {
+    try {
+      const response = await ordersAPI.getStatusTransitions();
+      if (response.success && response.data) {
+        setStatusTransitions(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to load order status transitions:', error);
+    }
+  };
+
+  const handleSaveNotes = async () => {
+    if (!order) return;
+
+    try {
+      setIsSavingNotes(true);
+      const response = await ordersAPI.updateAdminNotes(order.id, adminNotes);
+      if (response.success) {
+        toast.success(t('admin.orderDetail.notesSaved'));
+        loadOrder();
+      }
+    } catch (error: any) {
+      toast.error(t('admin.orderDetail.notesFailed'), getErrorMessage(error));
+    } finally {
+      setIsSavingNotes(false);
+    }
+  };
+
+  const handleSaveTracking = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order || !trackingNumber.trim()) return;
+
+    try {
+      setIsSavingTracking(true);
+      const response = await ordersAPI.updateTracking(order.id, {
+        trackingNumber: trackingNumber.trim(),
+        trackingUrl: trackingUrl.trim() || undefined,
+      });
+      if (response.success) {
+        toast.success(t('admin.orderDetail.trackingUpdated'));
+        loadOrder();
+      }
+    } catch (error: any) {
+      toast.error(t('admin.orderDetail.trackingFailed'), getErrorMessage(error));
+    } finally {
+      setIsSavingTracking(false);
+    }
+  };
+
+  const handleResendConfirmation = async () => {
+    if (!order || !window.confirm(t('admin.orderDetail.resendConfirm', { email: order.customerEmail }))) {
+      return;
+    }
+
+    try {
+      setIsResending(true);
+      const response = await ordersAPI.resendConfirmation(order.id);
+      if (response.success) {
+        toast.success(t('admin.orderDetail.confirmationSent'), order.customerEmail);
+        loadOrder();
+      }
+    } catch (error: any) {
+      toast.error(t('admin.orderDetail.resendFailed'), getErrorMessage(error));
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  const handleDownloadPackingSlip = async () => {
+    if (!order) return;
+    try {
+      saveBlob(await ordersAPI.downloadPackingSlip(order.id), `packing-slip-${order.orderNumber}.pdf`);
+    } catch (error) {
+      console.error('Failed to download packing slip:', error);
+      toast.error(t('admin.orders.packingSlipFailed'));
+    }
+  };
+
+  const handleDownloadInvoice = async () => {
+    if (!order) return;
+    try {
+      saveBlob(await ordersAPI.downloadAdminInvoice(order.id), `invoice-${order.orderNumber}.pdf`);
+    } catch (error) {
+      console.error('Failed to download invoice:', error);
+      toast.error(t('admin.orders.invoiceFailed'));
+    }
+  };
+
+  if (isLoading && !order) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">{t('orderDetail.loading')}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <Card>
+        <CardContent className="text-center py-12">
+          <Package className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+          <h3 className="text-lg font-semibold mb-2">{t('orderDetail.notFoundTitle')}</h3>
+          <Link to="/admin/orders">
+            <Button variant="outline">{t('orderDetail.backToOrders')}</Button>
+          </Link>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const hasShipments = (order.shipments || []).length > 0;
+  const hasUnshipped = shipping.some(line => line.remainingQuantity > 0);
+  const canShip = SHIPPABLE_STATUSES.includes(order.status) && !!order.shippingAddress && hasUnshipped;
+  const isPaid = isOrderInvoiceable(order);
+
+  return (
+    <div className="space-y-6">
+      <Link to="/admin/orders">
+        <Button variant="ghost">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          {t('orderDetail.backToOrders')}
+        </Button>
+      </Link>
+
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">{t('orders.orderNumber', { number: order.orderNumber })}</h1>
+          <div className="flex items-center space-x-2">
+            <span className="text-sm text-muted-foreground">{t('orders.placedOn', { date: formatDateTime(order.createdAt) })}</span>
+            <span className={`px-3 py-1 rounded-full text-sm font-medium ${getOrderStatusColor(order.status)}`}>
+              {t(`orderStatus.${order.status}`)}
+            </span>
+            <span className={`px-3 py-1 rounded-full text-sm font-medium ${getPaymentStatusColor(order.paymentStatus)}`}>
+              {t(`paymentStatus.${order.paymentStatus}`)}
+            </span>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {hasItemsToPack(order) && (
+            <Button variant="outline" onClick={handleDownloadPackingSlip}>
+              <Package className="w-4 h-4 mr-2" />
+              {t('admin.orderDetail.packingSlip')}
+            </Button>
+          )}
+          {isPaid && (
+            <Button variant="outline" onClick={handleDownloadInvoice}>
+              <FileText className="w-4 h-4 mr-2" />
+              {t('orderDetail.invoice')}
+            </Button>
+          )}
+          {isPaid && (
+            <Button variant="outline" onClick={handleResendConfirmation} disabled={isResending}>
+              <Mail className="w-4 h-4 mr-2" />
+              {isResending ? t('admin.orderDetail.sending') : t('admin.orderDetail.resend')}
+            </Button>
+          )}
+          {canRefundOrder(order) && (
+            <Button variant="outline" onClick={() => setIsRefunding(true)}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              {t('admin.orders.refund')}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Main Content */}
+        <div className="lg:col-span-2 space-y-6">
+          {/* Items */}
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('orderDetail.items')}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {order.items.map(item => {
+                const shippingLine = shipping.find(line => line.orderItemId === item.id);
+                return (
+                  <div key={item.id} className="flex items-center space-x-4 p-3 border rounded-lg">
+                    <img
+                      src={item.productSnapshot.mainImage || '/placeholder-product.jpg'}
+                      alt={item.productSnapshot.name}
+                      className="w-12 h-12 object-cover rounded"
+                    />
+                    <div className="flex-1">
+                      <p className="font-medium">{item.productSnapshot.name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {t('cart.sku', { sku: item.productSnapshot.sku })} • {t('orders.quantityEach', { count: item.quantity, price: formatPrice(Number(item.unitPrice), order.currency) })}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {!shippingLine
+                          ? t('admin.orderDetail.digitalDelivery')
+                          : hasShipments
+                            ? t('admin.orderDetail.shippedOf', { shipped: shippingLine.shippedQuantity, total: shippingLine.quantity })
+                            : order.shippedAt ? t('orderStatus.shipped') : t('admin.orderDetail.notShipped')}
+                        {Number(item.refundAmount) > 0 && ` • ${t('admin.orderDetail.amountRefunded', { amount: formatPrice(Number(item.refundAmount), order.currency) })}`}
+                      </p>
+                    </div>
+                    <p className="font-medium">{formatPrice(Number(item.totalPrice), order.currency)}</p>
+                  </div>
+                );
+              })}
+
+              {/* Totals */}
+              <div className="border-t pt-4 space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span>{t('orderDetail.subtotal')}</span>
+                  <span>{formatPrice(Number(order.subtotal), order.currency)}</span>
+                </div>
+                {Number(order.discountAmount) > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <span>{order.promotionCode ? t('checkout.discountWithCode', { code: order.promotionCode }) : t('checkout.discount')}</span>
+                    <span>-{formatPrice(Number(order.discountAmount), order.currency)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span>{order.shippingMethod ? t('admin.orderDetail.shippingWithMethod', { method: order.shippingMethod }) : t('checkout.shipping')}</span>
+                  <span>{formatPrice(Number(order.shippingAmount), order.currency)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>{order.pricesIncludeTax ? t('checkout.taxIncluded') : t('checkout.tax')}</span>
+                  <span>{formatPrice(Number(order.taxAmount), order.currency)}</span>
+                </div>
+                <div className="flex justify-between font-semibold text-lg border-t pt-2">
+                  <span>{t('checkout.total')}</span>
+                  <span>{formatPrice(Number(order.total), order.currency)}</span>
+                </div>
+                {Number(order.refundedAmount) > 0 && (
+                  <div className="flex justify-between text-muted-foreground">
+                    <span>{t('orderDetail.refunded')}</span>
+                    <span>-{formatPrice(Number(order.refundedAmount), order.currency)}</span>
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Shipments */}
+          {order.shippingAddress && (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="flex items-center space-x-2">
+                    <Truck className="w-5 h-5" />
+                    <span>{t('admin.orderDetail.shipments')}</span>
+                  </CardTitle>
+                  {canShip && !isShipping && (
+                    <Button size="sm" onClick={() => setIsShipping(true)}>
+                      {t('admin.orderDetail.createShipment')}
+                    </Button>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {isShipping && (
+                  <ShipmentForm
+                    orderId={order.id}
+                    shipping={shipping}
+                    onShipped={() => {
+                      setIsShipping(false);
+                      loadOrder();
+                    }}
+                    onCancel={() => setIsShipping(false)}
+                  />
+                )}
+                {!hasShipments && !isShipping && (
+                  <p className="text-sm text-muted-foreground">
+                    {order.shippedAt ? t('admin.orderDetail.singleParcel') : t('admin.orderDetail.nothingShipped')}
+                  </p>
+                )}
+                {(order.shipments || []).map((shipment, index) => (
+                  <div key={shipment.id} className="p-3 border rounded-lg text-sm space-y-1">
+                    <div className="flex justify-between">
+                      <span className="font-medium">{t('admin.orderDetail.shipmentNumber', { number: index + 1 })}</span>
+                      <span className="text-muted-foreground">{formatDateTime(shipment.shippedAt)}</span>
+                    </div>
+                    <p>
+                      <span className="font-mono">{shipment.trackingNumber}</span>
+                      {shipment.trackingUrl && (
+                        <a
+                          href={shipment.trackingUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center ml-2 text-primary hover:underline"
+                        >
+                          {t('admin.orderDetail.track')}
+                          <ExternalLink className="w-3 h-3 ml-1" />
+                        </a>
+                      )}
+                    </p>
+                    <ul className="text-muted-foreground">
+                      {shipment.lines.map(line => (
+                        <li key={line.orderItemId}>
+                          {line.quantity} × {order.items.find(item => item.id === line.orderItemId)?.productSnapshot.name}
+                        </li>
+                      ))}
+                    </ul>
+                    {shipment.notes && <p className="text-muted-foreground">{shipment.notes}</p>}
+                    {shipment.creator && (
+                      <p className="text-xs text-muted-foreground">
+                        {t('admin.orderDetail.by', { name: `${shipment.creator.firstName} ${shipment.creator.lastName}` })}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Status History */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <History className="w-5 h-5" />
+                <span>{t('admin.orderDetail.statusHistory')}</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {(order.statusHistory || []).map(history => (
+                <div key={history.id} className="flex justify-between text-sm border-b pb-2 last:border-0">
+                  <div>
+                    <p className="font-medium">
+                      {history.fromStatus
+                        ? `${t(`orderStatus.${history.fromStatus}`)} → ${t(`orderStatus.${history.toStatus}`)}`
+                        : t(`orderStatus.${history.toStatus}`)}
+                    </p>
+                    {history.reason && <p className="text-muted-foreground">{history.reason}</p>}
+                    {history.notes && history.notes !== history.reason && (
+                      <p className="text-muted-foreground italic">{history.notes}</p>
+                    )}
+                  </div>
+                  <div className="text-right text-xs text-muted-foreground">
+                    <p>{formatDateTime(history.createdAt)}</p>
+                    <p>
+                      {history.user
+                        ? `${history.user.firstName} ${history.user.lastName}`
+                        : history.isSystemGenerated ? t('admin.orderDetail.system') : t('admin.orderDetail.unknown')}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          {/* Activity */}
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('admin.orderDetail.activity')}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {activityLogs.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{t('admin.orderDetail.noActivity')}</p>
+              ) : (
+                activityLogs.map(log => (
+                  <div key={log.id} className="flex justify-between text-sm">
+                    <div>
+                      <p>{log.description}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {log.action}
+                        {log.user && ` • ${log.user.firstName} ${log.user.lastName}`}
+                      </p>
+                    </div>
+                    <span className="text-xs text-muted-foreground whitespace-nowrap ml-4">
+                      {formatDateTime(log.createdAt)}
+                    </span>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Sidebar */}
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('admin.orders.columns.status')}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <OrderStatusActions order={order} statusTransitions={statusTransitions} onUpdated={loadOrder} />
+              {order.cancelReason && (
+                <p className="text-sm text-muted-foreground mt-2">{t('admin.orderDetail.cancelReason', { reason: order.cancelReason })}</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <UserIcon className="w-5 h-5" />
+                <span>{t('admin.orders.columns.customer')}</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm space-y-1">
+              {order.user && <p className="font-medium">{order.user.firstName} {order.user.lastName}</p>}
+              <p className="text-muted-foreground">{order.customerEmail}</p>
+              {order.customerPhone && <p className="text-muted-foreground">{order.customerPhone}</p>}
+              {order.notes && (
+                <p className="pt-2">
+                  <span className="font-medium">{t('admin.orderDetail.customerNote')} </span>
+                  {order.notes}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <MapPin className="w-5 h-5" />
+                <span>{t('admin.orderDetail.addresses')}</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {order.shippingAddress ? (
+                <div>
+                  <h4 className="font-medium text-sm mb-1">{t('orderDetail.shippingAddress')}</h4>
+                  <AddressBlock address={order.shippingAddress} />
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">{t('admin.orderDetail.digitalOnly')}</p>
+              )}
+              <div>
+                <h4 className="font-medium text-sm mb-1">{t('address.billingAddress')}</h4>
+                <AddressBlock address={order.billingAddress} />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <CreditCard className="w-5 h-5" />
+                <span>{t('admin.orders.columns.payment')}</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm space-y-2">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">{t('admin.orderDetail.method')}</span>
+                <span className="capitalize">{order.paymentMethod?.replace(/_/g, ' ')}</span>
+              </div>
+              {order.confirmedAt && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">{t('paymentStatus.paid')}</span>
+                  <span>{formatDate(order.confirmedAt)}</span>
+                </div>
+              )}
+              <div>
+                <p className="text-muted-foreground">{t('admin.orderDetail.paymentIntent')}</p>
+                <p className="font-mono text-xs break-all">{order.stripePaymentIntentId || '—'}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">{t('admin.orderDetail.charge')}</p>
+                <p className="font-mono text-xs break-all">{order.stripeChargeId || '—'}</p>
+              </div>
+            </CardContent>
+          </Card>
+
+          {order.shippingAddress && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Truck className="w-5 h-5" />
+                  <span>{t('orderDetail.tracking')}</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleSaveTracking} className="space-y-2">
+                  <Input
+                    placeholder={t('admin.orderDetail.trackingNumber')}
+                    value={trackingNumber}
+                    onChange={(e) => setTrackingNumber(e.target.value)}
+                  />
+                  <Input
+                    type="url"
+                    placeholder={t('admin.orderDetail.trackingUrl')}
+                    value={trackingUrl}
+                    onChange={(e) => setTrackingUrl(e.target.value)}
+                  />
+                  <Button type="submit" size="sm" className="w-full" disabled={isSavingTracking || !trackingNumber.trim()}>
+                    {isSavingTracking ? t('common.saving') : t('admin.orderDetail.saveTracking')}
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <StickyNote className="w-5 h-5" />
+                <span>{t('admin.orderDetail.internalNotes')}</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <textarea
+                rows={4}
+                value={adminNotes}
+                onChange={(e) => setAdminNotes(e.target.value)}
+                maxLength={5000}
+                placeholder={t('admin.orderDetail.notesPlaceholder')}
+                className="w-full px-3 py-2 border rounded-md text-sm"
+              />
+              <Button
+                size="sm"
+                className="w-full"
+                onClick={handleSaveNotes}
+                disabled={isSavingNotes || adminNotes === (order.adminNotes || '')}
+              >
+                {isSavingNotes ? t('common.saving') : t('admin.orderDetail.saveNotes')}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <RefundDialog
+        order={isRefunding ? order : null}
+        onClose={() => setIsRefunding(false)}
+        onRefunded={() => {
+          setIsRefunding(false);
+          loadOrder();
+        }}
+      />
+    </div>
+  );
+};
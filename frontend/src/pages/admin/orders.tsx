@@ -1,260 +1,669 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  ColumnDef,
+  RowSelectionState,
+  SortingState,
+  flexRender,
+  getCoreRowModel,
+  useReactTable
+} from '@tanstack/react-table';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
-import { 
-  Search, 
-  Filter, 
-  Eye, 
-  Package, 
-  Truck, 
+import {
+  Search,
+  Filter,
+  Eye,
+  Package,
+  Truck,
   CheckCircle,
   Clock,
-  XCircle,
-  DollarSign
+  DollarSign,
+  FileText,
+  Printer,
+  RotateCcw,
+  Download,
+  ArrowUp,
+  ArrowDown,
+  ArrowUpDown,
+  Bookmark,
+  Trash2
 } from 'lucide-react';
 import { ordersAPI } from '@/lib/api';
-import { Order } from '@/types';
-import { formatPrice, formatDate, getOrderStatusColor } from '@/lib/utils';
+import { AdminOrderFilters, AdminOrderSortField, AdminOrderStats, Order, OrderDocumentType, OrderStatus } from '@/types';
+import { toast, useAdminOrderViewsStore } from '@/store';
+import { useTranslation } from '@/hooks/use-translation';
+import { RefundDialog } from '@/components/orders/refund-dialog';
+import {
+  formatPrice,
+  formatDate,
+  getOrderStatusColor,
+  getPaymentStatusColor,
+  isOrderInvoiceable,
+  hasItemsToPack,
+  canRefundOrder,
+  getErrorMessage,
+  saveBlob
+} from '@/lib/utils';
+
+const EMPTY_FILTERS: AdminOrderFilters = {
+  search: '',
+  status: '',
+  paymentStatus: '',
+  dateFrom: '',
+  dateTo: '',
+  minTotal: '',
+  maxTotal: '',
+};
+
+const DEFAULT_SORTING: SortingState = [{ id: 'createdAt', desc: true }];
+
+// Shipping needs a tracking number per order, so it isn't offered in bulk
+const BULK_STATUSES: OrderStatus[] = ['confirmed', 'processing', 'delivered', 'cancelled'];
+
+const PAGE_SIZES = [20, 50, 100];
 
 export const AdminOrdersPage: React.FC = () => {
+  const { t } = useTranslation();
   const [orders, setOrders] = useState<Order[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [statusFilter, setStatusFilter] = useState('');
+  const [stats, setStats] = useState<AdminOrderStats | null>(null);
+  // Edited in the filter bar and applied together
+  const [draftFilters, setDraftFilters] = useState<AdminOrderFilters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<AdminOrderFilters>(EMPTY_FILTERS);
+  const [sorting, setSorting] = useState<SortingState>(DEFAULT_SORTING);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[0]);
+  const [totalPages, setTotalPages] = useState(1);
+  const [totalItems, setTotalItems] = useState(0);
+  // Keyed by order ID, so the selection survives paging
+  const [rowSelection, setRowSelection] = useState<RowSelectionState>({});
+  const [bulkStatus, setBulkStatus] = useState<OrderStatus | ''>('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [refundingOrder, setRefundingOrder] = useState<Order | null>(null);
+  const [activeViewId, setActiveViewId] = useState('');
+  const { views, saveView, deleteView } = useAdminOrderViewsStore();
+
+  const selectedIds = Object.keys(rowSelection).filter(id => rowSelection[id]);
 
   useEffect(() => {
     loadOrders();
+  }, [filters, sorting, pageIndex, pageSize]);
+
+  useEffect(() => {
+    loadStats();
   }, []);
 
   const loadOrders = async () => {
     try {
       setIsLoading(true);
       const response = await ordersAPI.getAllOrders({
-        status: statusFilter,
-        limit: 50
+        ...Object.fromEntries(Object.entries(filters).filter(([, value]) => value !== '')),
+        sortBy: (sorting[0]?.id || 'createdAt') as AdminOrderSortField,
+        sortOrder: sorting[0]?.desc === false ? 'asc' : 'desc',
+        page: pageIndex + 1,
+        limit: pageSize
       });
-      
+
       if (response.success && response.data) {
-        setOrders(response.data.data || response.data);
+        setOrders(response.data.orders);
+        setTotalPages(Math.max(1, response.data.pagination.totalPages));
+        setTotalItems(response.data.pagination.totalItems);
       }
-    } catch (error) {
+    } catch (error: any) {
       console.error('Failed to load orders:', error);
+      toast.error(t('admin.orders.loadFailed'), getErrorMessage(error));
     } finally {
       setIsLoading(false);
     }
   };
 
-  const updateOrderStatus = async (orderId: string, newStatus: string) => {
+  const loadStats = async () => {
     try {
-      const response = await ordersAPI.updateOrderStatus(orderId, newStatus);
-      if (response.success) {
-        loadOrders(); // Reload the list
+      const response = await ordersAPI.getOrderStats();
+      if (response.success && response.data) {
+        setStats(response.data);
       }
     } catch (error) {
-      console.error('Failed to update order status:', error);
+      console.error('Failed to load order stats:', error);
     }
   };
 
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case 'pending':
-        return <Clock className="w-4 h-4" />;
-      case 'confirmed':
-      case 'processing':
-        return <Package className="w-4 h-4" />;
-      case 'shipped':
-        return <Truck className="w-4 h-4" />;
-      case 'delivered':
-        return <CheckCircle className="w-4 h-4" />;
-      case 'cancelled':
-      case 'refunded':
-        return <XCircle className="w-4 h-4" />;
-      default:
-        return <Clock className="w-4 h-4" />;
+  const applyFilters = (nextFilters: AdminOrderFilters) => {
+    setDraftFilters(nextFilters);
+    setFilters(nextFilters);
+    setPageIndex(0);
+  };
+
+  const applyView = (viewId: string) => {
+    setActiveViewId(viewId);
+    const view = views.find(savedView => savedView.id === viewId);
+    if (!view) return;
+
+    applyFilters(view.filters);
+    setSorting([{ id: view.sortBy, desc: view.sortOrder === 'desc' }]);
+  };
+
+  const handleSaveView = () => {
+    const name = window.prompt(t('admin.orders.nameView'), views.find(view => view.id === activeViewId)?.name || '');
+    if (!name?.trim()) return;
+
+    const view = saveView({
+      name: name.trim(),
+      filters: draftFilters,
+      sortBy: (sorting[0]?.id || 'createdAt') as AdminOrderSortField,
+      sortOrder: sorting[0]?.desc === false ? 'asc' : 'desc',
+    });
+    setActiveViewId(view.id);
+    setFilters(draftFilters);
+    toast.success(t('admin.orders.viewSaved'), view.name);
+  };
+
+  const handleDeleteView = () => {
+    const view = views.find(savedView => savedView.id === activeViewId);
+    if (!view || !window.confirm(t('admin.orders.deleteViewConfirm', { name: view.name }))) return;
+
+    deleteView(view.id);
+    setActiveViewId('');
+  };
+
+  const downloadDocument = async (order: Order, type: OrderDocumentType) => {
+    try {
+      if (type === 'invoice') {
+        saveBlob(await ordersAPI.downloadAdminInvoice(order.id), `invoice-${order.orderNumber}.pdf`);
+      } else {
+        saveBlob(await ordersAPI.downloadPackingSlip(order.id), `packing-slip-${order.orderNumber}.pdf`);
+      }
+    } catch (error) {
+      console.error('Failed to download document:', error);
+      toast.error(type === 'invoice' ? t('admin.orders.invoiceFailed') : t('admin.orders.packingSlipFailed'));
     }
   };
 
-  const getStatusOptions = (currentStatus: string) => {
-    const statusFlow = {
-      'pending': ['confirmed', 'cancelled'],
-      'confirmed': ['processing', 'cancelled'],
-      'processing': ['shipped', 'cancelled'],
-      'shipped': ['delivered'],
-      'delivered': ['refunded'],
-      'cancelled': [],
-      'refunded': []
-    };
-    
-    return statusFlow[currentStatus as keyof typeof statusFlow] || [];
+  // The server skips orders that don't have the document yet
+  const printSelected = async (type: OrderDocumentType) => {
+    try {
+      setIsWorking(true);
+      const blob = await ordersAPI.downloadOrderDocuments(selectedIds, type);
+      saveBlob(blob, `${type === 'invoice' ? 'invoices' : 'packing-slips'}.pdf`);
+    } catch (error: any) {
+      console.error('Failed to print documents:', error);
+      // Errors arrive as a blob because of the response type
+      const message = error.response?.data instanceof Blob
+        ? JSON.parse(await error.response.data.text()).message
+        : undefined;
+      toast.error(t('admin.orders.printFailed'), message);
+    } finally {
+      setIsWorking(false);
+    }
   };
 
-  if (isLoading) {
-    return (
-      <div className="flex items-center justify-center min-h-[60vh]">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
-          <p className="text-muted-foreground">Loading orders...</p>
-        </div>
-      </div>
+  const exportSelected = async () => {
+    try {
+      setIsWorking(true);
+      saveBlob(await ordersAPI.exportOrders(selectedIds), `orders-${new Date().toISOString().slice(0, 10)}.csv`);
+    } catch (error) {
+      console.error('Failed to export orders:', error);
+      toast.error(t('admin.orders.exportFailed'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const updateSelectedStatus = async () => {
+    if (!bulkStatus) return;
+
+    const notes = window.prompt(
+      `${t('admin.orders.bulkConfirm', { count: selectedIds.length, status: t(`orderStatus.${bulkStatus}`) })}\n\n${t('admin.orders.historyNote')}`
     );
-  }
+    if (notes === null) return;
+
+    try {
+      setIsWorking(true);
+      const response = await ordersAPI.bulkUpdateOrderStatus(selectedIds, bulkStatus, notes.trim() || undefined);
+      if (response.success && response.data) {
+        const { failed } = response.data;
+        if (failed.length > 0) {
+          toast.error(
+            response.message || t('admin.orders.someNotUpdated'),
+            failed.slice(0, 3).map(failure => `#${failure.orderNumber}: ${failure.message}`).join('; ')
+          );
+        } else {
+          toast.success(t('admin.orders.updated'), response.message);
+        }
+        setRowSelection({});
+        setBulkStatus('');
+        loadOrders();
+        loadStats();
+      }
+    } catch (error: any) {
+      toast.error(t('admin.orders.updateFailed'), getErrorMessage(error));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const columns = useMemo<ColumnDef<Order>[]>(() => [
+    {
+      id: 'select',
+      enableSorting: false,
+      header: ({ table }) => (
+        <input
+          type="checkbox"
+          checked={table.getIsAllPageRowsSelected()}
+          onChange={table.getToggleAllPageRowsSelectedHandler()}
+          aria-label={t('admin.orders.selectAll')}
+        />
+      ),
+      cell: ({ row }) => (
+        <input
+          type="checkbox"
+          checked={row.getIsSelected()}
+          onChange={row.getToggleSelectedHandler()}
+          aria-label={t('admin.orders.selectOrder', { number: row.original.orderNumber })}
+        />
+      ),
+    },
+    {
+      id: 'orderNumber',
+      header: t('admin.orders.columns.order'),
+      cell: ({ row }) => (
+        <Link to={`/admin/orders/${row.original.id}`} className="font-medium hover:text-primary">
+          #{row.original.orderNumber}
+        </Link>
+      ),
+    },
+    {
+      id: 'createdAt',
+      header: t('admin.orders.columns.date'),
+      cell: ({ row }) => formatDate(row.original.createdAt),
+    },
+    {
+      id: 'customerEmail',
+      header: t('admin.orders.columns.customer'),
+      cell: ({ row }) => (
+        <div>
+          <p>{row.original.user?.firstName} {row.original.user?.lastName}</p>
+          <p className="text-xs text-muted-foreground">{row.original.customerEmail}</p>
+        </div>
+      ),
+    },
+    {
+      id: 'items',
+      header: t('admin.orders.columns.items'),
+      enableSorting: false,
+      cell: ({ row }) => row.original.items.reduce((sum, item) => sum + item.quantity, 0),
+    },
+    {
+      id: 'total',
+      header: t('admin.orders.columns.total'),
+      cell: ({ row }) => <span className="font-semibold">{formatPrice(Number(row.original.total), row.original.currency)}</span>,
+    },
+    {
+      id: 'status',
+      header: t('admin.orders.columns.status'),
+      cell: ({ row }) => (
+        <span className={`px-2 py-1 rounded-full text-xs font-medium ${getOrderStatusColor(row.original.status)}`}>
+          {t(`orderStatus.${row.original.status}`)}
+        </span>
+      ),
+    },
+    {
+      id: 'paymentStatus',
+      header: t('admin.orders.columns.payment'),
+      cell: ({ row }) => (
+        <span className={`px-2 py-1 rounded-full text-xs font-medium ${getPaymentStatusColor(row.original.paymentStatus)}`}>
+          {t(`paymentStatus.${row.original.paymentStatus}`)}
+        </span>
+      ),
+    },
+    {
+      id: 'actions',
+      header: '',
+      enableSorting: false,
+      cell: ({ row }) => {
+        const order = row.original;
+        return (
+          <div className="flex justify-end space-x-1">
+            <Link to={`/admin/orders/${order.id}`}>
+              <Button variant="ghost" size="sm" title={t('orders.viewDetails')}>
+                <Eye className="w-4 h-4" />
+              </Button>
+            </Link>
+            {isOrderInvoiceable(order) && (
+              <Button variant="ghost" size="sm" title={t('orderDetail.invoice')} onClick={() => downloadDocument(order, 'invoice')}>
+                <FileText className="w-4 h-4" />
+              </Button>
+            )}
+            {hasItemsToPack(order) && (
+              <Button variant="ghost" size="sm" title={t('admin.orders.packingSlip')} onClick={() => downloadDocument(order, 'packing_slip')}>
+                <Package className="w-4 h-4" />
+              </Button>
+            )}
+            {canRefundOrder(order) && (
+              <Button variant="ghost" size="sm" title={t('admin.orders.refund')} onClick={() => setRefundingOrder(order)}>
+                <RotateCcw className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        );
+      },
+    },
+  ], [t]);
+
+  const table = useReactTable({
+    data: orders,
+    columns,
+    getRowId: (order) => order.id,
+    getCoreRowModel: getCoreRowModel(),
+    manualPagination: true,
+    manualSorting: true,
+    enableSortingRemoval: false,
+    pageCount: totalPages,
+    state: {
+      sorting,
+      rowSelection,
+      pagination: { pageIndex, pageSize },
+    },
+    onSortingChange: (updater) => {
+      setSorting(updater);
+      setPageIndex(0);
+    },
+    onRowSelectionChange: setRowSelection,
+  });
+
+  const setDraft = (key: keyof AdminOrderFilters, value: string) => {
+    setDraftFilters(current => ({ ...current, [key]: value }));
+  };
+
+  const hasFilters = Object.values(filters).some(value => value !== '');
 
   return (
     <div className="space-y-6">
       {/* Header */}
       <div>
-        <h1 className="text-3xl font-bold">Orders Management</h1>
+        <h1 className="text-3xl font-bold">{t('admin.orders.title')}</h1>
         <p className="text-muted-foreground">
-          Process and manage customer orders
+          {t('admin.orders.subtitle')}
         </p>
       </div>
 
       {/* Filters and Search */}
       <Card>
-        <CardContent className="p-6">
-          <div className="flex flex-col md:flex-row gap-4">
-            <div className="flex-1">
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
-                <Input
-                  placeholder="Search orders by number, customer, or email..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="pl-10"
-                />
-              </div>
-            </div>
+        <CardContent className="p-6 space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <Bookmark className="w-4 h-4 text-muted-foreground" />
             <select
-              value={statusFilter}
-              onChange={(e) => setStatusFilter(e.target.value)}
-              className="px-3 py-2 border rounded-md"
+              value={activeViewId}
+              onChange={(e) => applyView(e.target.value)}
+              className="px-3 py-2 border rounded-md text-sm"
+              aria-label={t('admin.orders.savedViews')}
             >
-              <option value="">All Statuses</option>
-              <option value="pending">Pending</option>
-              <option value="confirmed">Confirmed</option>
-              <option value="processing">Processing</option>
-              <option value="shipped">Shipped</option>
-              <option value="delivered">Delivered</option>
-              <option value="cancelled">Cancelled</option>
-              <option value="refunded">Refunded</option>
+              <option value="">{t('admin.orders.savedViews')}</option>
+              {views.map(view => (
+                <option key={view.id} value={view.id}>{view.name}</option>
+              ))}
             </select>
-            <Button variant="outline" onClick={loadOrders}>
-              <Filter className="w-4 h-4 mr-2" />
-              Apply Filters
+            <Button variant="outline" size="sm" onClick={handleSaveView}>
+              {t('admin.orders.saveView')}
             </Button>
+            {activeViewId && (
+              <Button variant="ghost" size="sm" onClick={handleDeleteView} title={t('admin.orders.deleteView')}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
           </div>
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              applyFilters(draftFilters);
+            }}
+            className="space-y-4"
+          >
+            <div className="flex flex-col md:flex-row gap-4">
+              <div className="flex-1">
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                  <Input
+                    placeholder={t('admin.orders.searchPlaceholder')}
+                    value={draftFilters.search}
+                    onChange={(e) => setDraft('search', e.target.value)}
+                    className="pl-10"
+                  />
+                </div>
+              </div>
+              <select
+                value={draftFilters.status}
+                onChange={(e) => setDraft('status', e.target.value)}
+                className="px-3 py-2 border rounded-md"
+                aria-label={t('admin.orders.orderStatus')}
+              >
+                <option value="">{t('admin.allStatuses')}</option>
+                <option value="pending">{t('orderStatus.pending')}</option>
+                <option value="confirmed">{t('orderStatus.confirmed')}</option>
+                <option value="processing">{t('orderStatus.processing')}</option>
+                <option value="shipped">{t('orderStatus.shipped')}</option>
+                <option value="delivered">{t('orderStatus.delivered')}</option>
+                <option value="cancelled">{t('orderStatus.cancelled')}</option>
+                <option value="refunded">{t('orderStatus.refunded')}</option>
+                <option value="failed">{t('orderStatus.failed')}</option>
+              </select>
+              <select
+                value={draftFilters.paymentStatus}
+                onChange={(e) => setDraft('paymentStatus', e.target.value)}
+                className="px-3 py-2 border rounded-md"
+                aria-label={t('admin.orders.paymentStatus')}
+              >
+                <option value="">{t('admin.orders.allPayments')}</option>
+                <option value="pending">{t('paymentStatus.pending')}</option>
+                <option value="paid">{t('paymentStatus.paid')}</option>
+                <option value="partially_refunded">{t('paymentStatus.partially_refunded')}</option>
+                <option value="refunded">{t('paymentStatus.refunded')}</option>
+                <option value="failed">{t('paymentStatus.failed')}</option>
+              </select>
+            </div>
+            <div className="flex flex-col md:flex-row md:items-end gap-4">
+              <div>
+                <label className="block text-xs text-muted-foreground mb-1">{t('admin.dateFrom')}</label>
+                <Input type="date" value={draftFilters.dateFrom} onChange={(e) => setDraft('dateFrom', e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-xs text-muted-foreground mb-1">{t('admin.dateTo')}</label>
+                <Input type="date" value={draftFilters.dateTo} onChange={(e) => setDraft('dateTo', e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-xs text-muted-foreground mb-1">{t('admin.orders.minTotal')}</label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={draftFilters.minTotal}
+                  onChange={(e) => setDraft('minTotal', e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-muted-foreground mb-1">{t('admin.orders.maxTotal')}</label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={draftFilters.maxTotal}
+                  onChange={(e) => setDraft('maxTotal', e.target.value)}
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button type="submit" variant="outline">
+                  <Filter className="w-4 h-4 mr-2" />
+                  {t('admin.orders.applyFilters')}
+                </Button>
+                {hasFilters && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    onClick={() => {
+                      setActiveViewId('');
+                      applyFilters(EMPTY_FILTERS);
+                    }}
+                  >
+                    {t('admin.orders.reset')}
+                  </Button>
+                )}
+              </div>
+            </div>
+          </form>
         </CardContent>
       </Card>
 
-      {/* Orders List */}
-      <div className="space-y-4">
-        {orders.map((order) => (
-          <Card key={order.id}>
-            <CardContent className="p-6">
-              <div className="flex items-start justify-between">
-                <div className="flex-1">
-                  <div className="flex items-center space-x-4 mb-4">
-                    <div>
-                      <h3 className="font-semibold text-lg">Order #{order.orderNumber}</h3>
-                      <p className="text-sm text-muted-foreground">
-                        {order.user?.firstName} {order.user?.lastName} • {order.customerEmail}
-                      </p>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      {getStatusIcon(order.status)}
-                      <span className={`px-3 py-1 rounded-full text-sm font-medium ${getOrderStatusColor(order.status)}`}>
-                        {order.status}
-                      </span>
-                    </div>
-                  </div>
-
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
-                    <div>
-                      <p className="text-sm font-medium text-muted-foreground">Order Date</p>
-                      <p className="text-sm">{formatDate(order.createdAt)}</p>
-                    </div>
-                    <div>
-                      <p className="text-sm font-medium text-muted-foreground">Total Amount</p>
-                      <p className="text-sm font-semibold">{formatPrice(order.total)}</p>
-                    </div>
-                    <div>
-                      <p className="text-sm font-medium text-muted-foreground">Items</p>
-                      <p className="text-sm">{order.orderItems.length} item{order.orderItems.length !== 1 ? 's' : ''}</p>
-                    </div>
-                  </div>
-
-                  {/* Order Items Preview */}
-                  <div className="space-y-2">
-                    <p className="text-sm font-medium text-muted-foreground">Items:</p>
-                    <div className="space-y-1">
-                      {order.orderItems.slice(0, 3).map((item) => (
-                        <div key={item.id} className="flex items-center space-x-2 text-sm">
-                          <span>• {item.product.name}</span>
-                          <span className="text-muted-foreground">x{item.quantity}</span>
-                          <span className="text-muted-foreground">({formatPrice(item.unitPrice)} each)</span>
-                        </div>
-                      ))}
-                      {order.orderItems.length > 3 && (
-                        <p className="text-sm text-muted-foreground">
-                          +{order.orderItems.length - 3} more items
-                        </p>
-                      )}
-                    </div>
-                  </div>
-
-                  {/* Shipping Address */}
-                  {order.shippingAddress && (
-                    <div className="mt-4">
-                      <p className="text-sm font-medium text-muted-foreground">Shipping Address:</p>
-                      <p className="text-sm">
-                        {order.shippingAddress.street}, {order.shippingAddress.city}, {order.shippingAddress.state} {order.shippingAddress.zipCode}
-                      </p>
-                    </div>
-                  )}
-                </div>
+      {/* Bulk Actions */}
+      {selectedIds.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 p-3 border rounded-lg bg-muted/30">
+          <span className="text-sm font-medium">{t('admin.orders.selected', { count: selectedIds.length })}</span>
+          <select
+            value={bulkStatus}
+            onChange={(e) => setBulkStatus(e.target.value as OrderStatus | '')}
+            className="px-2 py-1 border rounded-md text-sm"
+            aria-label={t('admin.orders.bulkStatus')}
+          >
+            <option value="">{t('admin.orders.changeStatus')}</option>
+            {BULK_STATUSES.map(status => (
+              <option key={status} value={status}>{t('admin.orders.markAs', { status: t(`orderStatus.${status}`) })}</option>
+            ))}
+          </select>
+          <Button size="sm" onClick={updateSelectedStatus} disabled={!bulkStatus || isWorking}>
+            {t('admin.orders.apply')}
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => printSelected('invoice')} disabled={isWorking}>
+            <Printer className="w-4 h-4 mr-2" />
+            {t('admin.orders.printInvoices')}
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => printSelected('packing_slip')} disabled={isWorking}>
+            <Printer className="w-4 h-4 mr-2" />
+            {t('admin.orders.printPackingSlips')}
+          </Button>
+          <Button variant="outline" size="sm" onClick={exportSelected} disabled={isWorking}>
+            <Download className="w-4 h-4 mr-2" />
+            {t('admin.exportCsv')}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setRowSelection({})}>
+            {t('admin.orders.clear')}
+          </Button>
+        </div>
+      )}
 
-                <div className="flex flex-col space-y-2 ml-6">
-                  <Button variant="outline" size="sm">
-                    <Eye className="w-4 h-4 mr-2" />
-                    View Details
-                  </Button>
-                  
-                  {/* Status Update */}
-                  {getStatusOptions(order.status).length > 0 && (
-                    <div className="space-y-1">
-                      <p className="text-xs text-muted-foreground">Update Status:</p>
-                      {getStatusOptions(order.status).map((status) => (
-                        <Button
-                          key={status}
-                          variant="outline"
-                          size="sm"
-                          onClick={() => updateOrderStatus(order.id, status)}
-                          className="w-full text-xs"
+      {/* Orders Table */}
+      <Card>
+        <CardContent className="p-0 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="border-b bg-muted/30">
+              {table.getHeaderGroups().map(headerGroup => (
+                <tr key={headerGroup.id}>
+                  {headerGroup.headers.map(header => (
+                    <th key={header.id} className="px-4 py-3 text-left font-medium text-muted-foreground">
+                      {header.column.getCanSort() ? (
+                        <button
+                          type="button"
+                          onClick={header.column.getToggleSortingHandler()}
+                          className="inline-flex items-center space-x-1 hover:text-foreground"
                         >
-                          Mark as {status}
-                        </Button>
-                      ))}
-                    </div>
-                  )}
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-        ))}
+                          <span>{flexRender(header.column.columnDef.header, header.getContext())}</span>
+                          {header.column.getIsSorted() === 'asc' ? (
+                            <ArrowUp className="w-3 h-3" />
+                          ) : header.column.getIsSorted() === 'desc' ? (
+                            <ArrowDown className="w-3 h-3" />
+                          ) : (
+                            <ArrowUpDown className="w-3 h-3 opacity-50" />
+                          )}
+                        </button>
+                      ) : (
+                        flexRender(header.column.columnDef.header, header.getContext())
+                      )}
+                    </th>
+                  ))}
+                </tr>
+              ))}
+            </thead>
+            <tbody>
+              {isLoading ? (
+                <tr>
+                  <td colSpan={columns.length} className="py-12">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+                  </td>
+                </tr>
+              ) : orders.length === 0 ? (
+                <tr>
+                  <td colSpan={columns.length} className="text-center py-12">
+                    <Package className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+                    <h3 className="text-lg font-semibold mb-2">{t('admin.orders.emptyTitle')}</h3>
+                    <p className="text-muted-foreground">
+                      {hasFilters ? t('admin.noResultsSearch') : t('admin.orders.emptyText')}
+                    </p>
+                  </td>
+                </tr>
+              ) : (
+                table.getRowModel().rows.map(row => (
+                  <tr key={row.id} className={`border-b last:border-0 ${row.getIsSelected() ? 'bg-muted/50' : ''}`}>
+                    {row.getVisibleCells().map(cell => (
+                      <td key={cell.id} className="px-4 py-3">
+                        {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                      </td>
+                    ))}
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      {/* Pagination */}
+      <div className="flex flex-col md:flex-row items-center justify-between gap-4">
+        <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+          <span>{t('admin.orders.count', { count: totalItems })} •</span>
+          <select
+            value={pageSize}
+            onChange={(e) => {
+              setPageSize(Number(e.target.value));
+              setPageIndex(0);
+            }}
+            className="px-2 py-1 border rounded-md"
+            aria-label={t('admin.orders.perPageLabel')}
+          >
+            {PAGE_SIZES.map(size => (
+              <option key={size} value={size}>{t('admin.orders.perPage', { count: size })}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="outline"
+            disabled={pageIndex === 0}
+            onClick={() => setPageIndex(pageIndex - 1)}
+          >
+            {t('common.previous')}
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            {t('common.pageOf', { page: pageIndex + 1, total: totalPages })}
+          </span>
+          <Button
+            variant="outline"
+            disabled={pageIndex + 1 >= totalPages}
+            onClick={() => setPageIndex(pageIndex + 1)}
+          >
+            {t('common.next')}
+          </Button>
+        </div>
       </div>
 
-      {orders.length === 0 && (
-        <Card>
-          <CardContent className="text-center py-12">
-            <Package className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
-            <h3 className="text-lg font-semibold mb-2">No orders found</h3>
-            <p className="text-muted-foreground">
-              {searchQuery || statusFilter ? 'Try adjusting your search criteria.' : 'No orders have been placed yet.'}
-            </p>
-          </CardContent>
-        </Card>
-      )}
+      <RefundDialog
+        order={refundingOrder}
+        onClose={() => setRefundingOrder(null)}
+        onRefunded={() => {
+          setRefundingOrder(null);
+          loadOrders();
+        }}
+      />
 
       {/* Quick Stats */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -263,52 +672,44 @@ export const AdminOrdersPage: React.FC = () => {
             <div className="flex items-center space-x-2">
               <Clock className="w-5 h-5 text-yellow-600" />
               <div>
-                <p className="text-sm font-medium">Pending</p>
-                <p className="text-2xl font-bold">
-                  {orders.filter(o => o.status === 'pending').length}
-                </p>
+                <p className="text-sm font-medium">{t('orderStatus.pending')}</p>
+                <p className="text-2xl font-bold">{stats?.pendingOrders ?? '—'}</p>
               </div>
             </div>
           </CardContent>
         </Card>
-        
+
         <Card>
           <CardContent className="p-4">
             <div className="flex items-center space-x-2">
-              <Package className="w-5 h-5 text-blue-600" />
+              <CheckCircle className="w-5 h-5 text-blue-600" />
               <div>
-                <p className="text-sm font-medium">Processing</p>
-                <p className="text-2xl font-bold">
-                  {orders.filter(o => o.status === 'processing').length}
-                </p>
+                <p className="text-sm font-medium">{t('orderStatus.confirmed')}</p>
+                <p className="text-2xl font-bold">{stats?.confirmedOrders ?? '—'}</p>
               </div>
             </div>
           </CardContent>
         </Card>
-        
+
         <Card>
           <CardContent className="p-4">
             <div className="flex items-center space-x-2">
               <Truck className="w-5 h-5 text-purple-600" />
               <div>
-                <p className="text-sm font-medium">Shipped</p>
-                <p className="text-2xl font-bold">
-                  {orders.filter(o => o.status === 'shipped').length}
-                </p>
+                <p className="text-sm font-medium">{t('orderStatus.shipped')}</p>
+                <p className="text-2xl font-bold">{stats?.shippedOrders ?? '—'}</p>
               </div>
             </div>
           </CardContent>
         </Card>
-        
+
         <Card>
           <CardContent className="p-4">
             <div className="flex items-center space-x-2">
               <DollarSign className="w-5 h-5 text-green-600" />
               <div>
-                <p className="text-sm font-medium">Total Revenue</p>
-                <p className="text-2xl font-bold">
-                  {formatPrice(orders.reduce((sum, order) => sum + order.total, 0))}
-                </p>
+                <p className="text-sm font-medium">{t('admin.dashboard.totalRevenue')}</p>
+                <p className="text-2xl font-bold">{stats ? formatPrice(stats.totalRevenue) : '—'}</p>
               </div>
             </div>
           </CardContent>
@@ -316,4 +717,4 @@ export const AdminOrdersPage: React.FC = () => {
       </div>
     </div>
   );
-}; 
\ No newline at end of file
+};
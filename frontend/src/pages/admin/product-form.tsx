@@ -7,19 +7,25 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ArrowLeft, Save, Upload, X } from 'lucide-react';
+import { DigitalKeyImport } from '@/components/products/digital-key-import';
 import { productsAPI, categoriesAPI, uploadAPI } from '@/lib/api';
-import { Category } from '@/types';
+import { Category, ProductTranslations } from '@/types';
+import { useTranslation } from '@/hooks/use-translation';
+import { DEFAULT_LOCALE, LOCALES } from '@/lib/i18n';
+
+// Name and description are entered above in the default locale; these are the others
+const translationLocales = LOCALES.filter(locale => locale.code !== DEFAULT_LOCALE);
 
 const productSchema = z.object({
-  name: z.string().min(1, 'Name is required'),
-  description: z.string().min(1, 'Description is required'),
-  price: z.number().min(0, 'Price must be positive'),
+  name: z.string().min(1, 'validation.productNameRequired'),
+  description: z.string().min(1, 'validation.descriptionRequired'),
+  price: z.number().min(0, 'validation.priceMin'),
   salePrice: z.number().optional(),
-  costPrice: z.number().min(0, 'Cost price must be positive'),
-  sku: z.string().min(1, 'SKU is required'),
-  stockQuantity: z.number().min(0, 'Stock quantity must be positive'),
-  lowStockThreshold: z.number().min(0, 'Low stock threshold must be positive'),
-  categoryId: z.string().min(1, 'Category is required'),
+  costPrice: z.number().min(0, 'validation.costPriceMin'),
+  sku: z.string().min(1, 'validation.skuRequired'),
+  stockQuantity: z.number().min(0, 'validation.stockMin'),
+  lowStockThreshold: z.number().min(0, 'validation.lowStockMin'),
+  categoryId: z.string().min(1, 'validation.categoryRequired'),
   isActive: z.boolean(),
   isFeatured: z.boolean(),
   isDigital: z.boolean(),
@@ -36,8 +42,10 @@ export const AdminProductFormPage: React.FC = () => {
   const [isEditing, setIsEditing] = useState(false);
   const [uploadedImages, setUploadedImages] = useState<string[]>([]);
   const [isUploading, setIsUploading] = useState(false);
+  const [translations, setTranslations] = useState<ProductTranslations>({});
+  const { translateError } = useTranslation();
 
-  const { register, handleSubmit, formState: { errors }, setValue } = useForm<ProductFormData>({
+  const { register, handleSubmit, formState: { errors }, setValue, getValues, watch } = useForm<ProductFormData>({
     resolver: zodResolver(productSchema),
     defaultValues: {
       isActive: true,
@@ -69,7 +77,8 @@ export const AdminProductFormPage: React.FC = () => {
   const loadProduct = async () => {
     if (!id) return;
     try {
-      const response = await productsAPI.getProductById(id);
+      // Edit the product's own copy, not the admin's current language
+      const response = await productsAPI.getProductById(id, DEFAULT_LOCALE);
       if (response.success && response.data) {
         const product = response.data;
         setValue('name', product.name);
@@ -85,6 +94,7 @@ export const AdminProductFormPage: React.FC = () => {
         setValue('isFeatured', product.isFeatured);
         setValue('isDigital', product.isDigital);
         setValue('isPhysical', product.isPhysical);
+        setTranslations(product.translations || {});
         
         // Load existing images
         if (product.images && product.images.length > 0) {
@@ -123,12 +133,20 @@ export const AdminProductFormPage: React.FC = () => {
     setUploadedImages(prev => prev.filter((_, i) => i !== index));
   };
 
+  const updateTranslation = (locale: string, field: 'name' | 'shortDescription' | 'description', value: string) => {
+    setTranslations(prev => ({
+      ...prev,
+      [locale]: { ...prev[locale], [field]: value }
+    }));
+  };
+
   const onSubmit = async (data: ProductFormData) => {
     try {
       setIsLoading(true);
       const productData = {
         ...data,
-        images: uploadedImages
+        images: uploadedImages,
+        translations
       };
 
       if (isEditing && id) {
@@ -176,7 +194,7 @@ export const AdminProductFormPage: React.FC = () => {
                   placeholder="Enter product name"
                 />
                 {errors.name && (
-                  <p className="text-sm text-red-600 mt-1">{errors.name.message}</p>
+                  <p className="text-sm text-red-600 mt-1">{translateError(errors.name.message)}</p>
                 )}
               </div>
 
@@ -189,7 +207,7 @@ export const AdminProductFormPage: React.FC = () => {
                   rows={4}
                 />
                 {errors.description && (
-                  <p className="text-sm text-red-600 mt-1">{errors.description.message}</p>
+                  <p className="text-sm text-red-600 mt-1">{translateError(errors.description.message)}</p>
                 )}
               </div>
 
@@ -200,7 +218,7 @@ export const AdminProductFormPage: React.FC = () => {
                   placeholder="Enter SKU"
                 />
                 {errors.sku && (
-                  <p className="text-sm text-red-600 mt-1">{errors.sku.message}</p>
+                  <p className="text-sm text-red-600 mt-1">{translateError(errors.sku.message)}</p>
                 )}
               </div>
 
@@ -218,7 +236,7 @@ export const AdminProductFormPage: React.FC = () => {
                   ))}
                 </select>
                 {errors.categoryId && (
-                  <p className="text-sm text-red-600 mt-1">{errors.categoryId.message}</p>
+                  <p className="text-sm text-red-600 mt-1">{translateError(errors.categoryId.message)}</p>
                 )}
               </div>
             </CardContent>
@@ -240,7 +258,7 @@ export const AdminProductFormPage: React.FC = () => {
                     placeholder="0.00"
                   />
                   {errors.price && (
-                    <p className="text-sm text-red-600 mt-1">{errors.price.message}</p>
+                    <p className="text-sm text-red-600 mt-1">{translateError(errors.price.message)}</p>
                   )}
                 </div>
 
@@ -264,7 +282,7 @@ export const AdminProductFormPage: React.FC = () => {
                   placeholder="0.00"
                 />
                 {errors.costPrice && (
-                  <p className="text-sm text-red-600 mt-1">{errors.costPrice.message}</p>
+                  <p className="text-sm text-red-600 mt-1">{translateError(errors.costPrice.message)}</p>
                 )}
               </div>
 
@@ -277,7 +295,7 @@ export const AdminProductFormPage: React.FC = () => {
                     placeholder="0"
                   />
                   {errors.stockQuantity && (
-                    <p className="text-sm text-red-600 mt-1">{errors.stockQuantity.message}</p>
+                    <p className="text-sm text-red-600 mt-1">{translateError(errors.stockQuantity.message)}</p>
                   )}
                 </div>
 
@@ -289,7 +307,7 @@ export const AdminProductFormPage: React.FC = () => {
                     placeholder="0"
                   />
                   {errors.lowStockThreshold && (
-                    <p className="text-sm text-red-600 mt-1">{errors.lowStockThreshold.message}</p>
+                    <p className="text-sm text-red-600 mt-1">{translateError(errors.lowStockThreshold.message)}</p>
                   )}
                 </div>
               </div>
@@ -297,6 +315,40 @@ export const AdminProductFormPage: React.FC = () => {
           </Card>
         </div>
 
+        {/* Translations */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Translations</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <p className="text-sm text-muted-foreground">
+              Shoppers browsing in another language see these instead. Anything left blank falls back to the copy above.
+            </p>
+            {translationLocales.map(locale => (
+              <div key={locale.code} className="space-y-3" lang={locale.code} dir={locale.dir}>
+                <h3 className="font-medium">{locale.name}</h3>
+                <Input
+                  value={translations[locale.code]?.name || ''}
+                  onChange={(e) => updateTranslation(locale.code, 'name', e.target.value)}
+                  placeholder="Product name"
+                />
+                <Input
+                  value={translations[locale.code]?.shortDescription || ''}
+                  onChange={(e) => updateTranslation(locale.code, 'shortDescription', e.target.value)}
+                  placeholder="Short description"
+                />
+                <textarea
+                  value={translations[locale.code]?.description || ''}
+                  onChange={(e) => updateTranslation(locale.code, 'description', e.target.value)}
+                  placeholder="Description"
+                  className="w-full px-3 py-2 border rounded-md"
+                  rows={3}
+                />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
         {/* Image Upload */}
         <Card>
           <CardHeader>
@@ -427,6 +479,16 @@ export const AdminProductFormPage: React.FC = () => {
           </Button>
         </div>
       </form>
+
+      {/* Keys can only be imported once the product exists */}
+      {isEditing && id && watch('isDigital') && (
+        <div className="mt-6">
+          <DigitalKeyImport
+            productId={id}
+            onImported={(imported) => setValue('stockQuantity', getValues('stockQuantity') + imported)}
+          />
+        </div>
+      )}
     </div>
   );
 }; 
\ No newline at end of file
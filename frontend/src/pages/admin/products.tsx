@@ -16,8 +16,10 @@ import {
 import { productsAPI } from '@/lib/api';
 import { Product } from '@/types';
 import { formatPrice } from '@/lib/utils';
+import { useTranslation } from '@/hooks/use-translation';
 
 export const AdminProductsPage: React.FC = () => {
+  const { t } = useTranslation();
   const [products, setProducts] = useState<Product[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
@@ -47,7 +49,7 @@ export const AdminProductsPage: React.FC = () => {
   };
 
   const handleDeleteProduct = async (productId: string) => {
-    if (window.confirm('Are you sure you want to delete this product?')) {
+    if (window.confirm(t('admin.products.deleteConfirm'))) {
       try {
         const response = await productsAPI.deleteProduct(productId);
         if (response.success) {
@@ -70,7 +72,7 @@ export const AdminProductsPage: React.FC = () => {
       <div className="flex items-center justify-center min-h-[60vh]">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
-          <p className="text-muted-foreground">Loading products...</p>
+          <p className="text-muted-foreground">{t('products.loading')}</p>
         </div>
       </div>
     );
@@ -81,15 +83,15 @@ export const AdminProductsPage: React.FC = () => {
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-3xl font-bold">Products Management</h1>
+          <h1 className="text-3xl font-bold">{t('admin.products.title')}</h1>
           <p className="text-muted-foreground">
-            Manage your product catalog and inventory
+            {t('admin.products.subtitle')}
           </p>
         </div>
         <Link to="/admin/products/new">
           <Button>
             <Plus className="w-4 h-4 mr-2" />
-            Add Product
+            {t('admin.dashboard.addProduct')}
           </Button>
         </Link>
       </div>
@@ -102,7 +104,7 @@ export const AdminProductsPage: React.FC = () => {
               <div className="relative">
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
                 <Input
-                  placeholder="Search products..."
+                  placeholder={t('nav.searchPlaceholder')}
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                   className="pl-10"
@@ -111,7 +113,7 @@ export const AdminProductsPage: React.FC = () => {
             </div>
             <Button variant="outline" onClick={loadProducts}>
               <Filter className="w-4 h-4 mr-2" />
-              Apply Filters
+              {t('admin.products.applyFilters')}
             </Button>
           </div>
         </CardContent>
@@ -133,12 +135,12 @@ export const AdminProductsPage: React.FC = () => {
                 <div className="absolute top-2 right-2 flex space-x-1">
                   {product.isFeatured && (
                     <span className="bg-yellow-500 text-white px-2 py-1 rounded text-xs font-medium">
-                      Featured
+                      {t('admin.products.featured')}
                     </span>
                   )}
                   {!product.isActive && (
                     <span className="bg-gray-500 text-white px-2 py-1 rounded text-xs font-medium">
-                      Inactive
+                      {t('common.inactive')}
                     </span>
                   )}
                 </div>
@@ -149,7 +151,7 @@ export const AdminProductsPage: React.FC = () => {
                   <div>
                     <h3 className="font-semibold line-clamp-2 mb-1">{product.name}</h3>
                     <p className="text-sm text-muted-foreground line-clamp-1">
-                      SKU: {product.sku}
+                      {t('cart.sku', { sku: product.sku })}
                     </p>
                   </div>
                   
@@ -165,32 +167,32 @@ export const AdminProductsPage: React.FC = () => {
                       )}
                     </div>
                     <div className={`px-2 py-1 rounded text-xs font-medium ${stockStatus.bg} ${stockStatus.color}`}>
-                      {stockStatus.status === 'out-of-stock' ? 'Out of Stock' :
-                       stockStatus.status === 'low-stock' ? 'Low Stock' : 'In Stock'}
+                      {stockStatus.status === 'out-of-stock' ? t('admin.products.outOfStock') :
+                       stockStatus.status === 'low-stock' ? t('admin.products.lowStock') : t('admin.products.inStock')}
                     </div>
                   </div>
                   
                   <div className="flex items-center justify-between text-sm text-muted-foreground">
-                    <span>Stock: {product.stockQuantity}</span>
-                    <span>Sold: {product.soldCount}</span>
+                    <span>{t('admin.products.stock', { count: product.stockQuantity })}</span>
+                    <span>{t('admin.products.sold', { count: product.soldCount })}</span>
                   </div>
                   
                   <div className="flex items-center justify-between text-sm text-muted-foreground">
-                    <span>Views: {product.viewCount}</span>
-                    <span>Rating: {product.averageRating.toFixed(1)} ⭐</span>
+                    <span>{t('admin.products.views', { count: product.viewCount })}</span>
+                    <span>{t('admin.products.rating', { rating: product.averageRating.toFixed(1) })}</span>
                   </div>
                   
                   <div className="flex space-x-2 pt-2">
                     <Link to={`/admin/products/${product.id}/edit`} className="flex-1">
                       <Button variant="outline" size="sm" className="w-full">
                         <Edit className="w-4 h-4 mr-1" />
-                        Edit
+                        {t('common.edit')}
                       </Button>
                     </Link>
                     <Link to={`/products/${product.slug}`} className="flex-1">
                       <Button variant="outline" size="sm" className="w-full">
                         <Eye className="w-4 h-4 mr-1" />
-                        View
+                        {t('common.view')}
                       </Button>
                     </Link>
                     <Button 
@@ -213,14 +215,14 @@ export const AdminProductsPage: React.FC = () => {
         <Card>
           <CardContent className="text-center py-12">
             <Package className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
-            <h3 className="text-lg font-semibold mb-2">No products found</h3>
+            <h3 className="text-lg font-semibold mb-2">{t('products.noResultsTitle')}</h3>
             <p className="text-muted-foreground mb-6">
-              {searchQuery ? 'Try adjusting your search criteria.' : 'Get started by adding your first product.'}
+              {searchQuery ? t('admin.noResultsSearch') : t('admin.products.noProducts')}
             </p>
             <Link to="/admin/products/new">
               <Button>
                 <Plus className="w-4 h-4 mr-2" />
-                Add Your First Product
+                {t('admin.products.addFirst')}
               </Button>
             </Link>
           </CardContent>
@@ -234,7 +236,7 @@ export const AdminProductsPage: React.FC = () => {
             <div className="flex items-center space-x-2">
               <Package className="w-5 h-5 text-primary" />
               <div>
-                <p className="text-sm font-medium">Total Products</p>
+                <p className="text-sm font-medium">{t('admin.dashboard.totalProducts')}</p>
                 <p className="text-2xl font-bold">{products.length}</p>
               </div>
             </div>
@@ -246,7 +248,7 @@ export const AdminProductsPage: React.FC = () => {
             <div className="flex items-center space-x-2">
               <AlertTriangle className="w-5 h-5 text-orange-600" />
               <div>
-                <p className="text-sm font-medium">Low Stock</p>
+                <p className="text-sm font-medium">{t('admin.products.lowStock')}</p>
                 <p className="text-2xl font-bold">
                   {products.filter(p => p.stockQuantity <= p.lowStockThreshold && p.stockQuantity > 0).length}
                 </p>
@@ -260,7 +262,7 @@ export const AdminProductsPage: React.FC = () => {
             <div className="flex items-center space-x-2">
               <AlertTriangle className="w-5 h-5 text-red-600" />
               <div>
-                <p className="text-sm font-medium">Out of Stock</p>
+                <p className="text-sm font-medium">{t('admin.products.outOfStock')}</p>
                 <p className="text-2xl font-bold">
                   {products.filter(p => p.stockQuantity === 0).length}
                 </p>
@@ -274,7 +276,7 @@ export const AdminProductsPage: React.FC = () => {
             <div className="flex items-center space-x-2">
               <Package className="w-5 h-5 text-green-600" />
               <div>
-                <p className="text-sm font-medium">Active Products</p>
+                <p className="text-sm font-medium">{t('admin.products.activeProducts')}</p>
                 <p className="text-2xl font-bold">
                   {products.filter(p => p.isActive).length}
                 </p>
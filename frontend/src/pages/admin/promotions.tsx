@@ -0,0 +1,649 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Plus,
+  Search,
+  Edit,
+  Trash2,
+  Tag,
+  Percent,
+  Truck,
+  Gift
+} from 'lucide-react';
+import { categoriesAPI, promotionsAPI } from '@/lib/api';
+import { Category, Promotion, PromotionForm, PromotionType } from '@/types';
+import { MessageKey } from '@/lib/i18n';
+import { formatDate, formatPrice, getErrorMessage } from '@/lib/utils';
+import { toast } from '@/store';
+import { useTranslation } from '@/hooks/use-translation';
+
+// Must match the platforms products can be listed under
+const PLATFORMS = ['PC', 'PS4', 'PS5', 'Xbox One', 'Xbox Series X', 'Nintendo Switch', 'Mobile', 'Multi-platform'];
+
+const PROMOTION_TYPES: { value: PromotionType; label: MessageKey }[] = [
+  { value: 'percentage', label: 'admin.promotions.types.percentage' },
+  { value: 'fixed_amount', label: 'admin.promotions.types.fixedAmount' },
+  { value: 'free_shipping', label: 'admin.promotions.types.freeShipping' },
+  { value: 'buy_x_get_y', label: 'admin.promotions.types.buyXGetY' },
+];
+
+const emptyForm = {
+  code: '',
+  description: '',
+  type: 'percentage' as PromotionType,
+  value: '',
+  buyQuantity: '',
+  getQuantity: '',
+  maxDiscountAmount: '',
+  minSubtotal: '',
+  categoryIds: [] as string[],
+  platforms: [] as string[],
+  usageLimit: '',
+  perUserLimit: '',
+  firstOrderOnly: false,
+  startsAt: '',
+  expiresAt: '',
+  isActive: true
+};
+
+type PromotionFormData = typeof emptyForm;
+
+const toNumber = (value: string) => value === '' ? null : Number(value);
+
+// datetime-local inputs work in local time without a zone
+const toDateTimeInput = (value?: string) => value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : '';
+const fromDateTimeInput = (value: string) => value ? new Date(value).toISOString() : null;
+
+const getPromotionStatus = (promotion: Promotion): { label: MessageKey; className: string } => {
+  const now = new Date();
+  if (!promotion.isActive) return { label: 'admin.promotions.status.inactive', className: 'bg-gray-100 text-gray-800' };
+  if (promotion.expiresAt && new Date(promotion.expiresAt) <= now) return { label: 'admin.promotions.status.expired', className: 'bg-red-100 text-red-800' };
+  if (promotion.startsAt && new Date(promotion.startsAt) > now) return { label: 'admin.promotions.status.scheduled', className: 'bg-blue-100 text-blue-800' };
+  if (promotion.usageLimit && promotion.usageCount >= promotion.usageLimit) return { label: 'admin.promotions.status.usedUp', className: 'bg-yellow-100 text-yellow-800' };
+  return { label: 'admin.promotions.status.active', className: 'bg-green-100 text-green-800' };
+};
+
+const getTypeIcon = (type: PromotionType) => {
+  switch (type) {
+    case 'percentage':
+      return Percent;
+    case 'free_shipping':
+      return Truck;
+    case 'buy_x_get_y':
+      return Gift;
+    default:
+      return Tag;
+  }
+};
+
+export const AdminPromotionsPage: React.FC = () => {
+  const { t } = useTranslation();
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState('');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null);
+  const [formData, setFormData] = useState<PromotionFormData>(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadPromotions();
+  }, [currentPage, searchQuery, statusFilter]);
+
+  useEffect(() => {
+    loadCategories();
+  }, []);
+
+  const loadPromotions = async () => {
+    try {
+      setIsLoading(true);
+      const response = await promotionsAPI.getPromotions({
+        page: currentPage,
+        limit: 20,
+        search: searchQuery || undefined,
+        status: statusFilter || undefined
+      });
+      if (response.success && response.data) {
+        setPromotions(response.data.promotions);
+        setTotalPages(response.data.pagination.totalPages);
+      }
+    } catch (error) {
+      console.error('Failed to load promotions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadCategories = async () => {
+    try {
+      const response = await categoriesAPI.getCategories();
+      if (response.success && response.data) {
+        setCategories(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to load categories:', error);
+    }
+  };
+
+  const describePromotion = (promotion: Promotion) => {
+    switch (promotion.type) {
+      case 'percentage':
+        return promotion.maxDiscountAmount
+          ? t('admin.promotions.percentOffUpTo', { percent: Number(promotion.value), amount: formatPrice(Number(promotion.maxDiscountAmount)) })
+          : t('admin.promotions.percentOff', { percent: Number(promotion.value) });
+      case 'fixed_amount':
+        return t('admin.promotions.amountOff', { amount: formatPrice(Number(promotion.value)) });
+      case 'free_shipping':
+        return t('admin.promotions.types.freeShipping');
+      case 'buy_x_get_y':
+        return t('admin.promotions.buyGet', { buy: promotion.buyQuantity ?? 0, get: promotion.getQuantity ?? 0 });
+    }
+  };
+
+  const toPromotionForm = (data: PromotionFormData): PromotionForm => ({
+    code: data.code.trim(),
+    description: data.description,
+    type: data.type,
+    value: Number(data.value) || 0,
+    buyQuantity: toNumber(data.buyQuantity),
+    getQuantity: toNumber(data.getQuantity),
+    maxDiscountAmount: toNumber(data.maxDiscountAmount),
+    minSubtotal: toNumber(data.minSubtotal),
+    categoryIds: data.categoryIds,
+    platforms: data.platforms,
+    usageLimit: toNumber(data.usageLimit),
+    perUserLimit: toNumber(data.perUserLimit),
+    firstOrderOnly: data.firstOrderOnly,
+    startsAt: fromDateTimeInput(data.startsAt),
+    expiresAt: fromDateTimeInput(data.expiresAt),
+    isActive: data.isActive
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+    try {
+      const payload = toPromotionForm(formData);
+      if (editingPromotion) {
+        const response = await promotionsAPI.updatePromotion(editingPromotion.id, payload);
+        if (response.success) {
+          toast.success(t('admin.promotions.updated'));
+          closeForm();
+          loadPromotions();
+        }
+      } else {
+        const response = await promotionsAPI.createPromotion(payload);
+        if (response.success) {
+          toast.success(t('admin.promotions.created'));
+          closeForm();
+          loadPromotions();
+        }
+      }
+    } catch (error: any) {
+      console.error('Failed to save promotion:', error);
+      setFormError(getErrorMessage(error, t('admin.promotions.saveFailed')));
+    }
+  };
+
+  const handleDeletePromotion = async (promotion: Promotion) => {
+    if (window.confirm(t('admin.promotions.deleteConfirm', { code: promotion.code }))) {
+      try {
+        const response = await promotionsAPI.deletePromotion(promotion.id);
+        if (response.success) {
+          toast.success(response.message || t('admin.promotions.deleted'));
+          loadPromotions();
+        }
+      } catch (error) {
+        console.error('Failed to delete promotion:', error);
+      }
+    }
+  };
+
+  const handleEditPromotion = (promotion: Promotion) => {
+    setEditingPromotion(promotion);
+    setFormData({
+      code: promotion.code,
+      description: promotion.description || '',
+      type: promotion.type,
+      value: promotion.value != null ? String(Number(promotion.value)) : '',
+      buyQuantity: promotion.buyQuantity != null ? String(promotion.buyQuantity) : '',
+      getQuantity: promotion.getQuantity != null ? String(promotion.getQuantity) : '',
+      maxDiscountAmount: promotion.maxDiscountAmount != null ? String(Number(promotion.maxDiscountAmount)) : '',
+      minSubtotal: promotion.minSubtotal != null ? String(Number(promotion.minSubtotal)) : '',
+      categoryIds: promotion.categoryIds || [],
+      platforms: promotion.platforms || [],
+      usageLimit: promotion.usageLimit != null ? String(promotion.usageLimit) : '',
+      perUserLimit: promotion.perUserLimit != null ? String(promotion.perUserLimit) : '',
+      firstOrderOnly: promotion.firstOrderOnly,
+      startsAt: toDateTimeInput(promotion.startsAt),
+      expiresAt: toDateTimeInput(promotion.expiresAt),
+      isActive: promotion.isActive
+    });
+    setFormError(null);
+    setShowAddForm(true);
+  };
+
+  const closeForm = () => {
+    setShowAddForm(false);
+    setEditingPromotion(null);
+    setFormData(emptyForm);
+    setFormError(null);
+  };
+
+  const toggleListValue = (key: 'categoryIds' | 'platforms', value: string) => {
+    const current = formData[key];
+    setFormData({
+      ...formData,
+      [key]: current.includes(value)
+        ? current.filter(item => item !== value)
+        : [...current, value]
+    });
+  };
+
+  const getCategoryName = (categoryId: string) => {
+    return categories.find(category => category.id === categoryId)?.name || t('admin.promotions.unknownCategory');
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">{t('admin.nav.promotions')}</h1>
+          <p className="text-muted-foreground">
+            {t('admin.promotions.subtitle')}
+          </p>
+        </div>
+        <Button onClick={() => setShowAddForm(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          {t('admin.promotions.add')}
+        </Button>
+      </div>
+
+      {/* Add/Edit Form */}
+      {showAddForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {editingPromotion ? t('admin.promotions.editTitle') : t('admin.promotions.addTitle')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">{t('admin.promotions.code')}</label>
+                  <Input
+                    value={formData.code}
+                    onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+                    placeholder="SUMMER25"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">{t('admin.promotions.type')}</label>
+                  <select
+                    value={formData.type}
+                    onChange={(e) => setFormData({ ...formData, type: e.target.value as PromotionType })}
+                    className="w-full px-3 py-2 border rounded-md"
+                  >
+                    {PROMOTION_TYPES.map(type => (
+                      <option key={type.value} value={type.value}>
+                        {t(type.label)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">{t('admin.promotions.description')}</label>
+                <Input
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  placeholder={t('admin.promotions.descriptionPlaceholder')}
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {(formData.type === 'percentage' || formData.type === 'fixed_amount') && (
+                  <div>
+                    <label className="block text-sm font-medium mb-2">
+                      {formData.type === 'percentage' ? t('admin.promotions.percentOffLabel') : t('admin.promotions.amountOffLabel')}
+                    </label>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={formData.value}
+                      onChange={(e) => setFormData({ ...formData, value: e.target.value })}
+                      required
+                    />
+                  </div>
+                )}
+                {formData.type === 'percentage' && (
+                  <div>
+                    <label className="block text-sm font-medium mb-2">{t('admin.promotions.maxDiscount')}</label>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={formData.maxDiscountAmount}
+                      onChange={(e) => setFormData({ ...formData, maxDiscountAmount: e.target.value })}
+                      placeholder={t('admin.promotions.noMaximum')}
+                    />
+                  </div>
+                )}
+                {formData.type === 'buy_x_get_y' && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium mb-2">{t('admin.promotions.buyQuantity')}</label>
+                      <Input
+                        type="number"
+                        min="1"
+                        value={formData.buyQuantity}
+                        onChange={(e) => setFormData({ ...formData, buyQuantity: e.target.value })}
+                        required
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-2">{t('admin.promotions.freeQuantity')}</label>
+                      <Input
+                        type="number"
+                        min="1"
+                        value={formData.getQuantity}
+                        onChange={(e) => setFormData({ ...formData, getQuantity: e.target.value })}
+                        required
+                      />
+                    </div>
+                  </>
+                )}
+                <div>
+                  <label className="block text-sm font-medium mb-2">{t('admin.promotions.minSubtotal')}</label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.minSubtotal}
+                    onChange={(e) => setFormData({ ...formData, minSubtotal: e.target.value })}
+                    placeholder={t('admin.promotions.noMinimum')}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">{t('admin.promotions.startsLabel')}</label>
+                  <Input
+                    type="datetime-local"
+                    value={formData.startsAt}
+                    onChange={(e) => setFormData({ ...formData, startsAt: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">{t('admin.promotions.expiresLabel')}</label>
+                  <Input
+                    type="datetime-local"
+                    value={formData.expiresAt}
+                    onChange={(e) => setFormData({ ...formData, expiresAt: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">{t('admin.promotions.totalUses')}</label>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={formData.usageLimit}
+                    onChange={(e) => setFormData({ ...formData, usageLimit: e.target.value })}
+                    placeholder={t('admin.promotions.unlimited')}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">{t('admin.promotions.usesPerCustomer')}</label>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={formData.perUserLimit}
+                    onChange={(e) => setFormData({ ...formData, perUserLimit: e.target.value })}
+                    placeholder={t('admin.promotions.unlimited')}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  {t('admin.nav.categories')} <span className="text-muted-foreground font-normal">{t('admin.promotions.appliesToAll')}</span>
+                </label>
+                <div className="flex flex-wrap gap-2">
+                  {categories.map(category => (
+                    <label
+                      key={category.id}
+                      className="flex items-center space-x-2 px-3 py-1 border rounded-md text-sm cursor-pointer has-[:checked]:border-primary has-[:checked]:bg-primary/5"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={formData.categoryIds.includes(category.id)}
+                        onChange={() => toggleListValue('categoryIds', category.id)}
+                        className="rounded"
+                      />
+                      <span>{category.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  {t('admin.promotions.platforms')} <span className="text-muted-foreground font-normal">{t('admin.promotions.appliesToAll')}</span>
+                </label>
+                <div className="flex flex-wrap gap-2">
+                  {PLATFORMS.map(platform => (
+                    <label
+                      key={platform}
+                      className="flex items-center space-x-2 px-3 py-1 border rounded-md text-sm cursor-pointer has-[:checked]:border-primary has-[:checked]:bg-primary/5"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={formData.platforms.includes(platform)}
+                        onChange={() => toggleListValue('platforms', platform)}
+                        className="rounded"
+                      />
+                      <span>{platform}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-6">
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={formData.firstOrderOnly}
+                    onChange={(e) => setFormData({ ...formData, firstOrderOnly: e.target.checked })}
+                    className="rounded"
+                  />
+                  <span className="text-sm font-medium">{t('admin.promotions.firstOrderOnly')}</span>
+                </label>
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={formData.isActive}
+                    onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                    className="rounded"
+                  />
+                  <span className="text-sm font-medium">{t('common.active')}</span>
+                </label>
+              </div>
+
+              {formError && (
+                <p className="text-destructive text-sm">{formError}</p>
+              )}
+
+              <div className="flex space-x-2">
+                <Button type="submit">
+                  {editingPromotion ? t('admin.promotions.update') : t('admin.promotions.add')}
+                </Button>
+                <Button type="button" variant="outline" onClick={closeForm}>
+                  {t('common.cancel')}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex flex-col md:flex-row gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+              <Input
+                placeholder={t('admin.promotions.searchPlaceholder')}
+                value={searchQuery}
+                onChange={(e) => {
+                  setSearchQuery(e.target.value);
+                  setCurrentPage(1);
+                }}
+                className="pl-10"
+              />
+            </div>
+            <select
+              value={statusFilter}
+              onChange={(e) => {
+                setStatusFilter(e.target.value);
+                setCurrentPage(1);
+              }}
+              className="px-3 py-2 border rounded-md"
+            >
+              <option value="">{t('admin.allStatuses')}</option>
+              <option value="active">{t('admin.promotions.status.active')}</option>
+              <option value="scheduled">{t('admin.promotions.status.scheduled')}</option>
+              <option value="expired">{t('admin.promotions.status.expired')}</option>
+              <option value="inactive">{t('admin.promotions.status.inactive')}</option>
+            </select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Promotions List */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      ) : promotions.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <Tag className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-semibold mb-2">{t('admin.promotions.emptyTitle')}</h3>
+            <p className="text-muted-foreground mb-6">
+              {t('admin.promotions.emptyText')}
+            </p>
+            <Button onClick={() => setShowAddForm(true)}>
+              <Plus className="w-4 h-4 mr-2" />
+              {t('admin.promotions.add')}
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {promotions.map(promotion => {
+            const status = getPromotionStatus(promotion);
+            const TypeIcon = getTypeIcon(promotion.type);
+
+            return (
+              <Card key={promotion.id}>
+                <CardContent className="p-4">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3">
+                      <TypeIcon className="w-5 h-5 text-primary" />
+                      <div>
+                        <div className="flex items-center space-x-2">
+                          <h3 className="font-semibold font-mono">{promotion.code}</h3>
+                          <span className={`px-2 py-1 rounded text-xs ${status.className}`}>
+                            {t(status.label)}
+                          </span>
+                        </div>
+                        <p className="text-sm">{describePromotion(promotion)}</p>
+                        {promotion.description && (
+                          <p className="text-sm text-muted-foreground">{promotion.description}</p>
+                        )}
+                        <div className="flex flex-wrap items-center gap-x-4 text-xs text-muted-foreground mt-1">
+                          <span>
+                            {promotion.usageLimit
+                              ? t('admin.promotions.usedOfLimit', { count: promotion.usageCount, limit: promotion.usageLimit })
+                              : t('admin.promotions.used', { count: promotion.usageCount })}
+                          </span>
+                          {promotion.minSubtotal && (
+                            <span>{t('admin.promotions.minimum', { amount: formatPrice(Number(promotion.minSubtotal)) })}</span>
+                          )}
+                          {promotion.firstOrderOnly && <span>{t('admin.promotions.firstOrderOnly')}</span>}
+                          {promotion.startsAt && <span>{t('admin.promotions.starts', { date: formatDate(promotion.startsAt) })}</span>}
+                          {promotion.expiresAt && <span>{t('admin.promotions.expires', { date: formatDate(promotion.expiresAt) })}</span>}
+                          {promotion.categoryIds?.length > 0 && (
+                            <span>{promotion.categoryIds.map(getCategoryName).join(', ')}</span>
+                          )}
+                          {promotion.platforms?.length > 0 && (
+                            <span>{promotion.platforms.join(', ')}</span>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                    <div className="flex space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleEditPromotion(promotion)}
+                      >
+                        <Edit className="w-4 h-4 mr-1" />
+                        {t('common.edit')}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDeletePromotion(promotion)}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-center space-x-2">
+          <Button
+            variant="outline"
+            disabled={currentPage === 1}
+            onClick={() => setCurrentPage(currentPage - 1)}
+          >
+            {t('common.previous')}
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            {t('common.pageOf', { page: currentPage, total: totalPages })}
+          </span>
+          <Button
+            variant="outline"
+            disabled={currentPage === totalPages}
+            onClick={() => setCurrentPage(currentPage + 1)}
+          >
+            {t('common.next')}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
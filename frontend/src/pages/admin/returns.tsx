@@ -0,0 +1,283 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Search,
+  RotateCcw,
+  CheckCircle,
+  XCircle,
+  PackageCheck,
+  DollarSign
+} from 'lucide-react';
+import { paymentsAPI, returnsAPI } from '@/lib/api';
+import { ReturnRequest } from '@/types';
+import { RETURN_REASON_KEYS } from '@/components/orders/return-request-form';
+import { formatDate, formatPrice, getErrorMessage, getReturnStatusColor } from '@/lib/utils';
+import { toast } from '@/store';
+import { useTranslation } from '@/hooks/use-translation';
+
+export const AdminReturnsPage: React.FC = () => {
+  const { t } = useTranslation();
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  // The queue opens on what needs a decision
+  const [statusFilter, setStatusFilter] = useState('requested');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadReturns();
+  }, [currentPage, searchQuery, statusFilter]);
+
+  const loadReturns = async () => {
+    try {
+      setIsLoading(true);
+      const response = await returnsAPI.getAllReturns({
+        page: currentPage,
+        limit: 20,
+        search: searchQuery || undefined,
+        status: statusFilter || undefined
+      });
+      if (response.success && response.data) {
+        setReturns(response.data.returns);
+        setTotalPages(response.data.pagination.totalPages);
+      }
+    } catch (error) {
+      console.error('Failed to load returns:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runAction = async (returnRequest: ReturnRequest, action: () => Promise<{ success: boolean; message?: string }>) => {
+    try {
+      setBusyId(returnRequest.id);
+      const response = await action();
+      if (response.success) {
+        toast.success(response.message || t('admin.returns.updated'), returnRequest.rmaNumber);
+        loadReturns();
+      }
+    } catch (error: any) {
+      toast.error(t('admin.returns.updateFailed'), getErrorMessage(error));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleApprove = (returnRequest: ReturnRequest) => {
+    runAction(returnRequest, () => returnsAPI.approveReturn(returnRequest.id));
+  };
+
+  const handleReject = (returnRequest: ReturnRequest) => {
+    const note = window.prompt(t('admin.returns.rejectPrompt'));
+    if (!note?.trim()) return;
+    runAction(returnRequest, () => returnsAPI.rejectReturn(returnRequest.id, note.trim()));
+  };
+
+  const handleReceive = (returnRequest: ReturnRequest) => {
+    const restock = window.confirm(
+      t('admin.returns.restockConfirm', { count: returnRequest.quantity, name: returnRequest.orderItem?.productSnapshot.name ?? '' })
+    );
+    runAction(returnRequest, () => returnsAPI.receiveReturn(returnRequest.id, restock));
+  };
+
+  const handleRefund = (returnRequest: ReturnRequest) => {
+    if (!window.confirm(t('admin.returns.refundConfirm', { amount: formatPrice(Number(returnRequest.refundAmount), returnRequest.order?.currency), rma: returnRequest.rmaNumber }))) {
+      return;
+    }
+    runAction(returnRequest, () => paymentsAPI.processRefund({
+      orderId: returnRequest.orderId,
+      amount: Number(returnRequest.refundAmount),
+      reason: `Return ${returnRequest.rmaNumber}`,
+      returnRequestId: returnRequest.id
+    }));
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold">{t('admin.nav.returns')}</h1>
+        <p className="text-muted-foreground">
+          {t('admin.returns.subtitle')}
+        </p>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex flex-col md:flex-row gap-4">
+            <div className="flex-1">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                <Input
+                  placeholder={t('admin.returns.searchPlaceholder')}
+                  value={searchQuery}
+                  onChange={(e) => {
+                    setSearchQuery(e.target.value);
+                    setCurrentPage(1);
+                  }}
+                  className="pl-10"
+                />
+              </div>
+            </div>
+            <select
+              value={statusFilter}
+              onChange={(e) => {
+                setStatusFilter(e.target.value);
+                setCurrentPage(1);
+              }}
+              className="px-3 py-2 border rounded-md"
+            >
+              <option value="">{t('admin.allStatuses')}</option>
+              <option value="requested">{t('returnStatus.requested')}</option>
+              <option value="approved">{t('returnStatus.approved')}</option>
+              <option value="received">{t('returnStatus.received')}</option>
+              <option value="refunded">{t('returnStatus.refunded')}</option>
+              <option value="rejected">{t('returnStatus.rejected')}</option>
+            </select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Returns List */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      ) : returns.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <RotateCcw className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-semibold mb-2">{t('admin.returns.emptyTitle')}</h3>
+            <p className="text-muted-foreground">
+              {searchQuery || statusFilter ? t('admin.noResultsSearch') : t('admin.returns.emptyText')}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {returns.map(returnRequest => {
+            const isBusy = busyId === returnRequest.id;
+            return (
+              <Card key={returnRequest.id}>
+                <CardContent className="p-6">
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1 space-y-3">
+                      <div className="flex items-center space-x-3">
+                        <h3 className="font-semibold text-lg">{returnRequest.rmaNumber}</h3>
+                        <span className={`px-3 py-1 rounded-full text-sm font-medium capitalize ${getReturnStatusColor(returnRequest.status)}`}>
+                          {t(`returnStatus.${returnRequest.status}`)}
+                        </span>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {t('orders.orderNumber', { number: returnRequest.order?.orderNumber ?? '' })} • {returnRequest.user?.firstName} {returnRequest.user?.lastName} • {returnRequest.user?.email}
+                      </p>
+
+                      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                        <div>
+                          <p className="text-sm font-medium text-muted-foreground">{t('admin.returns.item')}</p>
+                          <p className="text-sm">{returnRequest.orderItem?.productSnapshot.name}</p>
+                          <p className="text-xs text-muted-foreground">{t('cart.sku', { sku: returnRequest.orderItem?.productSnapshot.sku ?? '' })}</p>
+                        </div>
+                        <div>
+                          <p className="text-sm font-medium text-muted-foreground">{t('returnForm.quantity')}</p>
+                          <p className="text-sm">{t('admin.returns.quantityOf', { count: returnRequest.quantity, total: returnRequest.orderItem?.quantity ?? 0 })}</p>
+                        </div>
+                        <div>
+                          <p className="text-sm font-medium text-muted-foreground">{t('returnForm.reason')}</p>
+                          <p className="text-sm">{t(RETURN_REASON_KEYS[returnRequest.reason])}</p>
+                        </div>
+                        <div>
+                          <p className="text-sm font-medium text-muted-foreground">{t('admin.returns.refund')}</p>
+                          <p className="text-sm font-semibold">{formatPrice(Number(returnRequest.refundAmount), returnRequest.order?.currency)}</p>
+                        </div>
+                      </div>
+
+                      {returnRequest.customerNotes && (
+                        <p className="text-sm">
+                          <span className="font-medium">{t('admin.returns.customerNotes')} </span>
+                          {returnRequest.customerNotes}
+                        </p>
+                      )}
+                      {returnRequest.adminNotes && (
+                        <p className="text-sm">
+                          <span className="font-medium">{t('admin.returns.staffNotes')} </span>
+                          {returnRequest.adminNotes}
+                        </p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {t('admin.returns.requestedOn', { date: formatDate(returnRequest.createdAt) })}
+                        {returnRequest.receivedAt && ` • ${t(returnRequest.restocked ? 'admin.returns.receivedRestockedOn' : 'admin.returns.receivedOn', { date: formatDate(returnRequest.receivedAt) })}`}
+                        {returnRequest.refundedAt && ` • ${t('admin.returns.refundedOn', { date: formatDate(returnRequest.refundedAt) })}`}
+                      </p>
+                    </div>
+
+                    <div className="flex flex-col space-y-2 ml-6">
+                      {returnRequest.status === 'requested' && (
+                        <Button size="sm" onClick={() => handleApprove(returnRequest)} disabled={isBusy}>
+                          <CheckCircle className="w-4 h-4 mr-2" />
+                          {t('admin.reviews.approve')}
+                        </Button>
+                      )}
+                      {['requested', 'approved'].includes(returnRequest.status) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-red-600 hover:text-red-700"
+                          onClick={() => handleReject(returnRequest)}
+                          disabled={isBusy}
+                        >
+                          <XCircle className="w-4 h-4 mr-2" />
+                          {t('admin.reviews.reject')}
+                        </Button>
+                      )}
+                      {returnRequest.status === 'approved' && (
+                        <Button variant="outline" size="sm" onClick={() => handleReceive(returnRequest)} disabled={isBusy}>
+                          <PackageCheck className="w-4 h-4 mr-2" />
+                          {t('admin.returns.markReceived')}
+                        </Button>
+                      )}
+                      {returnRequest.status === 'received' && (
+                        <Button size="sm" onClick={() => handleRefund(returnRequest)} disabled={isBusy}>
+                          <DollarSign className="w-4 h-4 mr-2" />
+                          {t('admin.returns.issueRefund')}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-center space-x-2">
+          <Button
+            variant="outline"
+            disabled={currentPage === 1}
+            onClick={() => setCurrentPage(currentPage - 1)}
+          >
+            {t('common.previous')}
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            {t('common.pageOf', { page: currentPage, total: totalPages })}
+          </span>
+          <Button
+            variant="outline"
+            disabled={currentPage === totalPages}
+            onClick={() => setCurrentPage(currentPage + 1)}
+          >
+            {t('common.next')}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
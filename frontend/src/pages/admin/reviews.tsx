@@ -5,8 +5,10 @@ import { Star, CheckCircle, XCircle, Clock } from 'lucide-react';
 import { reviewsAPI } from '@/lib/api';
 import { Review } from '@/types';
 import { formatDate } from '@/lib/utils';
+import { useTranslation } from '@/hooks/use-translation';
 
 export const AdminReviewsPage: React.FC = () => {
+  const { t } = useTranslation();
   const [reviews, setReviews] = useState<Review[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
@@ -39,14 +41,14 @@ export const AdminReviewsPage: React.FC = () => {
   };
 
   if (isLoading) {
-    return <div className="text-center py-8">Loading reviews...</div>;
+    return <div className="text-center py-8">{t('admin.reviews.loading')}</div>;
   }
 
   return (
     <div className="space-y-6">
       <div>
-        <h1 className="text-3xl font-bold">Reviews Management</h1>
-        <p className="text-muted-foreground">Moderate and manage product reviews</p>
+        <h1 className="text-3xl font-bold">{t('admin.reviews.title')}</h1>
+        <p className="text-muted-foreground">{t('admin.reviews.subtitle')}</p>
       </div>
 
       <div className="grid gap-4">
@@ -84,10 +86,10 @@ export const AdminReviewsPage: React.FC = () => {
                   <div className="flex items-center space-x-4 text-xs text-muted-foreground">
                     <span>{formatDate(review.createdAt)}</span>
                     <span className={`px-2 py-1 rounded ${review.status === 'approved' ? 'bg-green-100 text-green-800' : review.status === 'rejected' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'}`}>
-                      {review.status}
+                      {t(`admin.reviews.status.${review.status}`)}
                     </span>
                     {review.isVerifiedPurchase && (
-                      <span className="bg-blue-100 text-blue-800 px-2 py-1 rounded">Verified Purchase</span>
+                      <span className="bg-blue-100 text-blue-800 px-2 py-1 rounded">{t('admin.reviews.verifiedPurchase')}</span>
                     )}
                   </div>
                 </div>
@@ -102,7 +104,7 @@ export const AdminReviewsPage: React.FC = () => {
                         className="text-green-600"
                       >
                         <CheckCircle className="w-4 h-4 mr-1" />
-                        Approve
+                        {t('admin.reviews.approve')}
                       </Button>
                       <Button
                         variant="outline"
@@ -111,7 +113,7 @@ export const AdminReviewsPage: React.FC = () => {
                         className="text-red-600"
                       >
                         <XCircle className="w-4 h-4 mr-1" />
-                        Reject
+                        {t('admin.reviews.reject')}
                       </Button>
                     </>
                   )}
@@ -128,7 +130,7 @@ export const AdminReviewsPage: React.FC = () => {
             <div className="flex items-center space-x-2">
               <Clock className="w-5 h-5 text-yellow-600" />
               <div>
-                <p className="text-sm font-medium">Pending</p>
+                <p className="text-sm font-medium">{t('admin.reviews.status.pending')}</p>
                 <p className="text-2xl font-bold">{reviews.filter(r => r.status === 'pending').length}</p>
               </div>
             </div>
@@ -139,7 +141,7 @@ export const AdminReviewsPage: React.FC = () => {
             <div className="flex items-center space-x-2">
               <CheckCircle className="w-5 h-5 text-green-600" />
               <div>
-                <p className="text-sm font-medium">Approved</p>
+                <p className="text-sm font-medium">{t('admin.reviews.status.approved')}</p>
                 <p className="text-2xl font-bold">{reviews.filter(r => r.status === 'approved').length}</p>
               </div>
             </div>
@@ -150,7 +152,7 @@ export const AdminReviewsPage: React.FC = () => {
             <div className="flex items-center space-x-2">
               <XCircle className="w-5 h-5 text-red-600" />
               <div>
-                <p className="text-sm font-medium">Rejected</p>
+                <p className="text-sm font-medium">{t('admin.reviews.status.rejected')}</p>
                 <p className="text-2xl font-bold">{reviews.filter(r => r.status === 'rejected').length}</p>
               </div>
             </div>
@@ -161,7 +163,7 @@ export const AdminReviewsPage: React.FC = () => {
             <div className="flex items-center space-x-2">
               <Star className="w-5 h-5 text-purple-600" />
               <div>
-                <p className="text-sm font-medium">Total Reviews</p>
+                <p className="text-sm font-medium">{t('admin.reviews.total')}</p>
                 <p className="text-2xl font-bold">{reviews.length}</p>
               </div>
             </div>
@@ -0,0 +1,617 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Plus,
+  Edit,
+  Trash2,
+  Truck,
+  Globe,
+  Zap
+} from 'lucide-react';
+import { shippingAPI } from '@/lib/api';
+import { ShippingRate, ShippingRateForm, ShippingRateType, ShippingZone, ShippingZoneForm } from '@/types';
+import { formatPrice, getErrorMessage } from '@/lib/utils';
+import { toast } from '@/store';
+import { useTranslation } from '@/hooks/use-translation';
+
+const RATE_TYPES: ShippingRateType[] = ['flat', 'weight', 'subtotal'];
+
+const emptyZoneForm = {
+  name: '',
+  countries: '',
+  regions: '',
+  isActive: true
+};
+
+const emptyRateForm = {
+  name: '',
+  description: '',
+  rateType: 'flat' as ShippingRateType,
+  price: '',
+  tiers: [{ upTo: '', price: '' }],
+  freeShippingThreshold: '',
+  minDays: '',
+  maxDays: '',
+  isExpress: false,
+  isActive: true,
+  sortOrder: '0'
+};
+
+type ZoneFormData = typeof emptyZoneForm;
+type RateFormData = typeof emptyRateForm;
+
+// What is being edited: a zone, or a rate in a zone. No id means a new one.
+type Editing =
+  | { kind: 'zone'; zone?: ShippingZone }
+  | { kind: 'rate'; zone: ShippingZone; rate?: ShippingRate };
+
+// Countries and regions are typed as comma-separated lists
+const toList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const toNumber = (value: string) => value === '' ? null : Number(value);
+
+export const AdminShippingPage: React.FC = () => {
+  const { t } = useTranslation();
+  const [zones, setZones] = useState<ShippingZone[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [zoneForm, setZoneForm] = useState<ZoneFormData>(emptyZoneForm);
+  const [rateForm, setRateForm] = useState<RateFormData>(emptyRateForm);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadZones();
+  }, []);
+
+  const loadZones = async () => {
+    try {
+      setIsLoading(true);
+      const response = await shippingAPI.getZones();
+      if (response.success && response.data) {
+        setZones(response.data.zones);
+      }
+    } catch (error) {
+      console.error('Failed to load shipping zones:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const describeRate = (rate: ShippingRate) => {
+    if (rate.rateType === 'flat') {
+      return formatPrice(Number(rate.price));
+    }
+
+    const describeLimit = (upTo: number) => rate.rateType === 'weight' ? t('admin.shipping.kg', { weight: upTo }) : formatPrice(upTo);
+    return rate.tiers
+      .map((tier, index) => {
+        const price = formatPrice(Number(tier.price));
+        if (tier.upTo === null) {
+          const previous = rate.tiers[index - 1];
+          return previous?.upTo != null ? t('admin.shipping.tierOver', { limit: describeLimit(previous.upTo), price }) : price;
+        }
+        return t('admin.shipping.tierUpTo', { limit: describeLimit(tier.upTo), price });
+      })
+      .join(', ');
+  };
+
+  const describeZone = (zone: ShippingZone) => {
+    if (zone.countries.length === 0) return t('admin.shipping.everywhereElse');
+    const countries = zone.countries.join(', ');
+    return zone.regions.length > 0 ? `${zone.regions.join(', ')} (${countries})` : countries;
+  };
+
+  const toZoneForm = (data: ZoneFormData): ShippingZoneForm => ({
+    name: data.name.trim(),
+    countries: toList(data.countries),
+    regions: toList(data.regions),
+    isActive: data.isActive
+  });
+
+  const toRateForm = (data: RateFormData): ShippingRateForm => ({
+    name: data.name.trim(),
+    description: data.description.trim() || null,
+    rateType: data.rateType,
+    price: Number(data.price) || 0,
+    tiers: data.rateType === 'flat'
+      ? []
+      : data.tiers.map(tier => ({ upTo: toNumber(tier.upTo), price: Number(tier.price) || 0 })),
+    freeShippingThreshold: toNumber(data.freeShippingThreshold),
+    minDays: Number(data.minDays) || 0,
+    maxDays: Number(data.maxDays) || 0,
+    isExpress: data.isExpress,
+    isActive: data.isActive,
+    sortOrder: Number(data.sortOrder) || 0
+  });
+
+  const openZoneForm = (zone?: ShippingZone) => {
+    setEditing({ kind: 'zone', zone });
+    setZoneForm(zone ? {
+      name: zone.name,
+      countries: zone.countries.join(', '),
+      regions: zone.regions.join(', '),
+      isActive: zone.isActive
+    } : emptyZoneForm);
+    setFormError(null);
+  };
+
+  const openRateForm = (zone: ShippingZone, rate?: ShippingRate) => {
+    setEditing({ kind: 'rate', zone, rate });
+    setRateForm(rate ? {
+      name: rate.name,
+      description: rate.description || '',
+      rateType: rate.rateType,
+      price: String(Number(rate.price)),
+      tiers: rate.tiers.length > 0
+        ? rate.tiers.map(tier => ({ upTo: tier.upTo === null ? '' : String(tier.upTo), price: String(tier.price) }))
+        : emptyRateForm.tiers,
+      freeShippingThreshold: rate.freeShippingThreshold != null ? String(Number(rate.freeShippingThreshold)) : '',
+      minDays: String(rate.minDays),
+      maxDays: String(rate.maxDays),
+      isExpress: rate.isExpress,
+      isActive: rate.isActive,
+      sortOrder: String(rate.sortOrder)
+    } : { ...emptyRateForm, sortOrder: String(zone.rates.length) });
+    setFormError(null);
+  };
+
+  const closeForm = () => {
+    setEditing(null);
+    setFormError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+
+    setFormError(null);
+    try {
+      let response;
+      if (editing.kind === 'zone') {
+        const payload = toZoneForm(zoneForm);
+        response = editing.zone
+          ? await shippingAPI.updateZone(editing.zone.id, payload)
+          : await shippingAPI.createZone(payload);
+      } else {
+        const payload = toRateForm(rateForm);
+        response = editing.rate
+          ? await shippingAPI.updateRate(editing.rate.id, payload)
+          : await shippingAPI.createRate(editing.zone.id, payload);
+      }
+
+      if (response.success) {
+        toast.success(response.message || t('admin.shipping.saved'));
+        closeForm();
+        loadZones();
+      }
+    } catch (error: any) {
+      console.error('Failed to save shipping:', error);
+      setFormError(getErrorMessage(error, t('admin.shipping.saveFailed')));
+    }
+  };
+
+  const handleDeleteZone = async (zone: ShippingZone) => {
+    if (window.confirm(t('admin.shipping.deleteZoneConfirm', { name: zone.name, count: zone.rates.length }))) {
+      try {
+        const response = await shippingAPI.deleteZone(zone.id);
+        if (response.success) {
+          toast.success(response.message || t('admin.shipping.zoneDeleted'));
+          loadZones();
+        }
+      } catch (error) {
+        console.error('Failed to delete shipping zone:', error);
+      }
+    }
+  };
+
+  const handleDeleteRate = async (rate: ShippingRate) => {
+    if (window.confirm(t('admin.shipping.deleteRateConfirm', { name: rate.name }))) {
+      try {
+        const response = await shippingAPI.deleteRate(rate.id);
+        if (response.success) {
+          toast.success(response.message || t('admin.shipping.rateDeleted'));
+          loadZones();
+        }
+      } catch (error) {
+        console.error('Failed to delete shipping rate:', error);
+      }
+    }
+  };
+
+  const setTier = (index: number, key: 'upTo' | 'price', value: string) => {
+    setRateForm({
+      ...rateForm,
+      tiers: rateForm.tiers.map((tier, tierIndex) => tierIndex === index ? { ...tier, [key]: value } : tier)
+    });
+  };
+
+  const renderZoneForm = () => (
+    <>
+      <div>
+        <label className="block text-sm font-medium mb-2">{t('admin.shipping.name')}</label>
+        <Input
+          value={zoneForm.name}
+          onChange={(e) => setZoneForm({ ...zoneForm, name: e.target.value })}
+          placeholder={t('admin.shipping.zonePlaceholder')}
+          required
+        />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium mb-2">
+            {t('admin.shipping.countries')} <span className="text-muted-foreground font-normal">{t('admin.shipping.countriesHint')}</span>
+          </label>
+          <Input
+            value={zoneForm.countries}
+            onChange={(e) => setZoneForm({ ...zoneForm, countries: e.target.value })}
+            placeholder="US, USA, United States"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-2">
+            {t('admin.shipping.regions')} <span className="text-muted-foreground font-normal">{t('admin.shipping.regionsHint')}</span>
+          </label>
+          <Input
+            value={zoneForm.regions}
+            onChange={(e) => setZoneForm({ ...zoneForm, regions: e.target.value })}
+            placeholder="AK, HI"
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {t('admin.shipping.matchingHint')}
+      </p>
+      <label className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          checked={zoneForm.isActive}
+          onChange={(e) => setZoneForm({ ...zoneForm, isActive: e.target.checked })}
+          className="rounded"
+        />
+        <span className="text-sm font-medium">{t('common.active')}</span>
+      </label>
+    </>
+  );
+
+  const renderRateForm = () => (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium mb-2">{t('admin.shipping.name')}</label>
+          <Input
+            value={rateForm.name}
+            onChange={(e) => setRateForm({ ...rateForm, name: e.target.value })}
+            placeholder={t('admin.shipping.ratePlaceholder')}
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-2">{t('admin.shipping.pricing')}</label>
+          <select
+            value={rateForm.rateType}
+            onChange={(e) => setRateForm({ ...rateForm, rateType: e.target.value as ShippingRateType })}
+            className="w-full px-3 py-2 border rounded-md"
+          >
+            {RATE_TYPES.map(type => (
+              <option key={type} value={type}>
+                {t(`admin.shipping.rateTypes.${type}`)}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-2">{t('admin.shipping.description')}</label>
+        <Input
+          value={rateForm.description}
+          onChange={(e) => setRateForm({ ...rateForm, description: e.target.value })}
+          placeholder={t('admin.shipping.descriptionPlaceholder')}
+        />
+      </div>
+
+      {rateForm.rateType === 'flat' ? (
+        <div className="md:w-1/3">
+          <label className="block text-sm font-medium mb-2">{t('admin.shipping.price')}</label>
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            value={rateForm.price}
+            onChange={(e) => setRateForm({ ...rateForm, price: e.target.value })}
+            required
+          />
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium">
+            {t('admin.shipping.tiers')} <span className="text-muted-foreground font-normal">
+              {rateForm.rateType === 'weight' ? t('admin.shipping.tiersHintWeight') : t('admin.shipping.tiersHintSubtotal')}
+            </span>
+          </label>
+          {rateForm.tiers.map((tier, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground w-12">{t('admin.shipping.upTo')}</span>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={tier.upTo}
+                onChange={(e) => setTier(index, 'upTo', e.target.value)}
+                placeholder={t('admin.shipping.noLimit')}
+                className="w-32"
+                aria-label={rateForm.rateType === 'weight' ? t('admin.shipping.weightLimit') : t('admin.shipping.subtotalLimit')}
+              />
+              <span className="text-sm text-muted-foreground w-16">
+                {rateForm.rateType === 'weight' ? t('admin.shipping.kgCosts') : t('admin.shipping.costs')}
+              </span>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={tier.price}
+                onChange={(e) => setTier(index, 'price', e.target.value)}
+                className="w-32"
+                aria-label={t('admin.shipping.tierPrice')}
+                required
+              />
+              {rateForm.tiers.length > 1 && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setRateForm({ ...rateForm, tiers: rateForm.tiers.filter((_, tierIndex) => tierIndex !== index) })}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setRateForm({ ...rateForm, tiers: [...rateForm.tiers, { upTo: '', price: '' }] })}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            {t('admin.shipping.addTier')}
+          </Button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div>
+          <label className="block text-sm font-medium mb-2">{t('admin.shipping.freeOverLabel')}</label>
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            value={rateForm.freeShippingThreshold}
+            onChange={(e) => setRateForm({ ...rateForm, freeShippingThreshold: e.target.value })}
+            placeholder={t('admin.shipping.neverFree')}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-2">{t('admin.shipping.minDays')}</label>
+          <Input
+            type="number"
+            min="0"
+            value={rateForm.minDays}
+            onChange={(e) => setRateForm({ ...rateForm, minDays: e.target.value })}
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-2">{t('admin.shipping.maxDays')}</label>
+          <Input
+            type="number"
+            min="0"
+            value={rateForm.maxDays}
+            onChange={(e) => setRateForm({ ...rateForm, maxDays: e.target.value })}
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-2">{t('admin.sortOrder')}</label>
+          <Input
+            type="number"
+            value={rateForm.sortOrder}
+            onChange={(e) => setRateForm({ ...rateForm, sortOrder: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-6">
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={rateForm.isExpress}
+            onChange={(e) => setRateForm({ ...rateForm, isExpress: e.target.checked })}
+            className="rounded"
+          />
+          <span className="text-sm font-medium">{t('admin.shipping.express')}</span>
+        </label>
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={rateForm.isActive}
+            onChange={(e) => setRateForm({ ...rateForm, isActive: e.target.checked })}
+            className="rounded"
+          />
+          <span className="text-sm font-medium">{t('common.active')}</span>
+        </label>
+      </div>
+    </>
+  );
+
+  const getFormTitle = () => {
+    if (!editing) return '';
+    if (editing.kind === 'zone') {
+      return editing.zone ? t('admin.shipping.editZone', { name: editing.zone.name }) : t('admin.shipping.addZoneTitle');
+    }
+    return editing.rate
+      ? t('admin.shipping.editRate', { name: editing.rate.name })
+      : t('admin.shipping.addRateTo', { name: editing.zone.name });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">{t('admin.nav.shipping')}</h1>
+          <p className="text-muted-foreground">
+            {t('admin.shipping.subtitle')}
+          </p>
+        </div>
+        <Button onClick={() => openZoneForm()}>
+          <Plus className="w-4 h-4 mr-2" />
+          {t('admin.shipping.addZone')}
+        </Button>
+      </div>
+
+      {/* Add/Edit Form */}
+      {editing && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{getFormTitle()}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {editing.kind === 'zone' ? renderZoneForm() : renderRateForm()}
+
+              {formError && (
+                <p className="text-destructive text-sm">{formError}</p>
+              )}
+
+              <div className="flex space-x-2">
+                <Button type="submit">
+                  {(editing.kind === 'zone' ? editing.zone : editing.rate) ? t('common.saveChanges') : t('common.add')}
+                </Button>
+                <Button type="button" variant="outline" onClick={closeForm}>
+                  {t('common.cancel')}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Zones */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      ) : zones.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <Truck className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-semibold mb-2">{t('admin.shipping.emptyTitle')}</h3>
+            <p className="text-muted-foreground mb-6">
+              {t('admin.shipping.emptyText')}
+            </p>
+            <Button onClick={() => openZoneForm()}>
+              <Plus className="w-4 h-4 mr-2" />
+              {t('admin.shipping.addZone')}
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {zones.map(zone => (
+            <Card key={zone.id}>
+              <CardContent className="p-4 space-y-4">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-3">
+                    <Globe className="w-5 h-5 text-primary" />
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <h3 className="font-semibold">{zone.name}</h3>
+                        {!zone.isActive && (
+                          <span className="px-2 py-1 rounded text-xs bg-gray-100 text-gray-800">{t('common.inactive')}</span>
+                        )}
+                      </div>
+                      <p className="text-sm text-muted-foreground">{describeZone(zone)}</p>
+                    </div>
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => openRateForm(zone)}>
+                      <Plus className="w-4 h-4 mr-1" />
+                      {t('admin.shipping.addRate')}
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => openZoneForm(zone)}>
+                      <Edit className="w-4 h-4 mr-1" />
+                      {t('common.edit')}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDeleteZone(zone)}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                {zone.rates.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    {t('admin.shipping.noRates')}
+                  </p>
+                ) : (
+                  <div className="divide-y border rounded-lg">
+                    {zone.rates.map(rate => (
+                      <div key={rate.id} className="flex items-center justify-between p-3">
+                        <div>
+                          <div className="flex items-center space-x-2">
+                            <p className="font-medium">{rate.name}</p>
+                            {rate.isExpress && (
+                              <span className="flex items-center px-2 py-0.5 rounded text-xs bg-primary/10 text-primary">
+                                <Zap className="w-3 h-3 mr-1" />
+                                {t('admin.shipping.express')}
+                              </span>
+                            )}
+                            {!rate.isActive && (
+                              <span className="px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-800">{t('common.inactive')}</span>
+                            )}
+                          </div>
+                          <p className="text-sm">{describeRate(rate)}</p>
+                          <div className="flex flex-wrap items-center gap-x-4 text-xs text-muted-foreground mt-1">
+                            <span>
+                              {rate.minDays === rate.maxDays
+                                ? t('admin.shipping.businessDays', { count: rate.minDays })
+                                : t('admin.shipping.businessDaysRange', { min: rate.minDays, max: rate.maxDays })}
+                            </span>
+                            {rate.freeShippingThreshold != null && (
+                              <span>{t('admin.shipping.freeOver', { amount: formatPrice(Number(rate.freeShippingThreshold)) })}</span>
+                            )}
+                            {rate.description && <span>{rate.description}</span>}
+                          </div>
+                        </div>
+                        <div className="flex space-x-2">
+                          <Button variant="outline" size="sm" onClick={() => openRateForm(zone, rate)}>
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDeleteRate(rate)}
+                            className="text-red-600 hover:text-red-700"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
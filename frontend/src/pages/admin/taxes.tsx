@@ -0,0 +1,439 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Plus,
+  Edit,
+  Trash2,
+  Percent,
+  Download
+} from 'lucide-react';
+import { taxAPI } from '@/lib/api';
+import { TaxRate, TaxRateForm, TaxReport } from '@/types';
+import { formatPrice, getErrorMessage, saveBlob } from '@/lib/utils';
+import { toast } from '@/store';
+import { useTranslation } from '@/hooks/use-translation';
+
+const TAX_CLASSES: TaxRateForm['taxClass'][] = ['standard', 'reduced', 'digital'];
+
+const emptyRateForm = {
+  name: '',
+  country: '',
+  state: '',
+  postalCodes: '',
+  taxClass: 'standard' as TaxRateForm['taxClass'],
+  rate: '',
+  isActive: true
+};
+
+type RateFormData = typeof emptyRateForm;
+
+// Postal code prefixes are typed as a comma-separated list
+const toList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const toRateForm = (data: RateFormData): TaxRateForm => ({
+  name: data.name.trim(),
+  country: data.country.trim(),
+  state: data.state.trim() || null,
+  postalCodes: toList(data.postalCodes),
+  taxClass: data.taxClass,
+  rate: Number(data.rate) || 0,
+  isActive: data.isActive
+});
+
+const describeRegion = (rate: TaxRate) => rate.state ? `${rate.state}, ${rate.country}` : rate.country;
+
+const formatRate = (rate: number | string) => `${Number(rate)}%`;
+
+export const AdminTaxesPage: React.FC = () => {
+  const { t } = useTranslation();
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [pricesIncludeTax, setPricesIncludeTax] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingRate, setEditingRate] = useState<TaxRate | null>(null);
+  const [rateForm, setRateForm] = useState<RateFormData>(emptyRateForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [report, setReport] = useState<TaxReport | null>(null);
+  const [reportRange, setReportRange] = useState({ dateFrom: '', dateTo: '' });
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    loadRates();
+  }, []);
+
+  useEffect(() => {
+    loadReport();
+  }, [reportRange.dateFrom, reportRange.dateTo]);
+
+  const getReportParams = () => ({
+    dateFrom: reportRange.dateFrom || undefined,
+    dateTo: reportRange.dateTo || undefined
+  });
+
+  const loadRates = async () => {
+    try {
+      setIsLoading(true);
+      const response = await taxAPI.getRates();
+      if (response.success && response.data) {
+        setTaxRates(response.data.taxRates);
+        setPricesIncludeTax(response.data.pricesIncludeTax);
+      }
+    } catch (error) {
+      console.error('Failed to load tax rates:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadReport = async () => {
+    try {
+      const response = await taxAPI.getReport(getReportParams());
+      if (response.success && response.data) {
+        setReport(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to load tax report:', error);
+    }
+  };
+
+  const openForm = (rate?: TaxRate) => {
+    setEditingRate(rate || null);
+    setRateForm(rate ? {
+      name: rate.name,
+      country: rate.country,
+      state: rate.state || '',
+      postalCodes: rate.postalCodes.join(', '),
+      taxClass: rate.taxClass,
+      rate: String(Number(rate.rate)),
+      isActive: rate.isActive
+    } : emptyRateForm);
+    setFormError(null);
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingRate(null);
+    setFormError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+    try {
+      const payload = toRateForm(rateForm);
+      const response = editingRate
+        ? await taxAPI.updateRate(editingRate.id, payload)
+        : await taxAPI.createRate(payload);
+
+      if (response.success) {
+        toast.success(response.message || t('admin.taxes.saved'));
+        closeForm();
+        loadRates();
+      }
+    } catch (error: any) {
+      console.error('Failed to save tax rate:', error);
+      setFormError(getErrorMessage(error, t('admin.taxes.saveFailed')));
+    }
+  };
+
+  const handleDelete = async (rate: TaxRate) => {
+    if (window.confirm(t('admin.taxes.deleteConfirm', { name: rate.name }))) {
+      try {
+        const response = await taxAPI.deleteRate(rate.id);
+        if (response.success) {
+          toast.success(response.message || t('admin.taxes.deleted'));
+          loadRates();
+        }
+      } catch (error) {
+        console.error('Failed to delete tax rate:', error);
+      }
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      setIsExporting(true);
+      saveBlob(await taxAPI.exportReport(getReportParams()), `tax-report-${new Date().toISOString().slice(0, 10)}.csv`);
+    } catch (error) {
+      console.error('Failed to export tax report:', error);
+      toast.error(t('admin.taxes.exportFailed'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">{t('admin.nav.taxes')}</h1>
+          <p className="text-muted-foreground">
+            {t('admin.taxes.subtitle')}
+          </p>
+        </div>
+        <Button onClick={() => openForm()}>
+          <Plus className="w-4 h-4 mr-2" />
+          {t('admin.taxes.add')}
+        </Button>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        {pricesIncludeTax ? t('admin.taxes.pricesIncludeTax') : t('admin.taxes.pricesExcludeTax')}
+        {' '}{t('admin.taxes.ratesStack')}
+      </p>
+
+      {/* Add/Edit Form */}
+      {showForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingRate ? t('admin.taxes.editTitle', { name: editingRate.name }) : t('admin.taxes.add')}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">{t('admin.taxes.name')}</label>
+                  <Input
+                    value={rateForm.name}
+                    onChange={(e) => setRateForm({ ...rateForm, name: e.target.value })}
+                    placeholder={t('admin.taxes.namePlaceholder')}
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">{t('admin.taxClass.label')}</label>
+                  <select
+                    value={rateForm.taxClass}
+                    onChange={(e) => setRateForm({ ...rateForm, taxClass: e.target.value as TaxRateForm['taxClass'] })}
+                    className="w-full px-3 py-2 border rounded-md"
+                  >
+                    {TAX_CLASSES.map(taxClass => (
+                      <option key={taxClass} value={taxClass}>
+                        {t(`admin.taxClass.${taxClass}`)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">{t('admin.taxes.country')}</label>
+                  <Input
+                    value={rateForm.country}
+                    onChange={(e) => setRateForm({ ...rateForm, country: e.target.value })}
+                    placeholder="US"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">
+                    {t('admin.taxes.state')} <span className="text-muted-foreground font-normal">{t('admin.taxes.optional')}</span>
+                  </label>
+                  <Input
+                    value={rateForm.state}
+                    onChange={(e) => setRateForm({ ...rateForm, state: e.target.value })}
+                    placeholder={t('admin.taxes.wholeCountry')}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">
+                    {t('admin.taxes.zipPrefixes')} <span className="text-muted-foreground font-normal">{t('admin.taxes.commaSeparated')}</span>
+                  </label>
+                  <Input
+                    value={rateForm.postalCodes}
+                    onChange={(e) => setRateForm({ ...rateForm, postalCodes: e.target.value })}
+                    placeholder="100, 101, 102"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">{t('admin.taxes.ratePercent')}</label>
+                  <Input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.0001"
+                    value={rateForm.rate}
+                    onChange={(e) => setRateForm({ ...rateForm, rate: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={rateForm.isActive}
+                  onChange={(e) => setRateForm({ ...rateForm, isActive: e.target.checked })}
+                  className="rounded"
+                />
+                <span className="text-sm font-medium">{t('common.active')}</span>
+              </label>
+
+              {formError && (
+                <p className="text-destructive text-sm">{formError}</p>
+              )}
+
+              <div className="flex space-x-2">
+                <Button type="submit">
+                  {editingRate ? t('common.saveChanges') : t('admin.taxes.add')}
+                </Button>
+                <Button type="button" variant="outline" onClick={closeForm}>
+                  {t('common.cancel')}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Tax Rates */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      ) : taxRates.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <Percent className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-semibold mb-2">{t('admin.taxes.emptyTitle')}</h3>
+            <p className="text-muted-foreground mb-6">
+              {t('admin.taxes.emptyText')}
+            </p>
+            <Button onClick={() => openForm()}>
+              <Plus className="w-4 h-4 mr-2" />
+              {t('admin.taxes.add')}
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <div className="divide-y">
+              {taxRates.map(rate => (
+                <div key={rate.id} className="flex items-center justify-between p-4">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <p className="font-medium">{rate.name}</p>
+                      <span className="px-2 py-0.5 rounded text-xs bg-primary/10 text-primary">
+                        {t(`admin.taxClass.${rate.taxClass}`)}
+                      </span>
+                      {!rate.isActive && (
+                        <span className="px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-800">{t('common.inactive')}</span>
+                      )}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {rate.postalCodes.length > 0
+                        ? t('admin.taxes.regionWithZip', { region: describeRegion(rate), codes: rate.postalCodes.join(', ') })
+                        : describeRegion(rate)}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-4">
+                    <span className="font-semibold">{formatRate(rate.rate)}</span>
+                    <div className="flex space-x-2">
+                      <Button variant="outline" size="sm" onClick={() => openForm(rate)}>
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(rate)}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Tax Report */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <CardTitle>{t('admin.taxes.collected')}</CardTitle>
+            <div className="flex flex-wrap items-end gap-2">
+              <div>
+                <label className="block text-xs text-muted-foreground mb-1">{t('admin.dateFrom')}</label>
+                <Input
+                  type="date"
+                  value={reportRange.dateFrom}
+                  onChange={(e) => setReportRange({ ...reportRange, dateFrom: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-muted-foreground mb-1">{t('admin.dateTo')}</label>
+                <Input
+                  type="date"
+                  value={reportRange.dateTo}
+                  onChange={(e) => setReportRange({ ...reportRange, dateTo: e.target.value })}
+                />
+              </div>
+              <Button variant="outline" onClick={handleExport} disabled={isExporting}>
+                <Download className="w-4 h-4 mr-2" />
+                {isExporting ? t('admin.exporting') : t('admin.exportCsv')}
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {report && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <p className="text-sm text-muted-foreground">{t('admin.nav.orders')}</p>
+                  <p className="text-xl font-semibold">{report.totals.orders}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">{t('admin.taxes.collected')}</p>
+                  <p className="text-xl font-semibold">{formatPrice(report.totals.taxCollected, report.currency)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">{t('admin.taxes.refunded')}</p>
+                  <p className="text-xl font-semibold">{formatPrice(report.totals.taxRefunded, report.currency)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">{t('admin.taxes.net')}</p>
+                  <p className="text-xl font-semibold">{formatPrice(report.totals.netTax, report.currency)}</p>
+                </div>
+              </div>
+
+              {report.jurisdictions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{t('admin.taxes.noneInPeriod')}</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-muted-foreground">
+                      <th className="py-2 font-medium">{t('admin.taxes.jurisdiction')}</th>
+                      <th className="py-2 font-medium text-right">{t('admin.taxes.rate')}</th>
+                      <th className="py-2 font-medium text-right">{t('admin.taxes.taxable')}</th>
+                      <th className="py-2 font-medium text-right">{t('admin.taxes.tax')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.jurisdictions.map(row => (
+                      <tr key={`${row.jurisdiction}-${row.rate}`} className="border-b last:border-0">
+                        <td className="py-2">{row.jurisdiction}</td>
+                        <td className="py-2 text-right">{formatRate(row.rate)}</td>
+                        <td className="py-2 text-right">{formatPrice(row.taxable, report.currency)}</td>
+                        <td className="py-2 text-right">{formatPrice(row.tax, report.currency)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -2,12 +2,15 @@ import React, { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
-import { Search, Users, UserCheck, UserX } from 'lucide-react';
+import { Search, Users, UserCheck, UserX, LogOut } from 'lucide-react';
 import { usersAPI } from '@/lib/api';
 import { User } from '@/types';
-import { formatDate } from '@/lib/utils';
+import { toast } from '@/store';
+import { formatDate, getErrorMessage } from '@/lib/utils';
+import { useTranslation } from '@/hooks/use-translation';
 
 export const AdminUsersPage: React.FC = () => {
+  const { t } = useTranslation();
   const [users, setUsers] = useState<User[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
@@ -28,22 +31,38 @@ export const AdminUsersPage: React.FC = () => {
     }
   };
 
+  // Ends every session, e.g. for a lost device or a compromised account
+  const handleForceLogout = async (user: User) => {
+    if (!window.confirm(t('admin.users.forceLogoutConfirm', { email: user.email }))) {
+      return;
+    }
+
+    try {
+      const response = await usersAPI.forceLogout(user.id);
+      if (response.success && response.data) {
+        toast.success(t('admin.users.signedOut', { email: user.email }), t('admin.users.sessionsEnded', { count: response.data.revoked }));
+      }
+    } catch (error: any) {
+      toast.error(t('admin.users.forceLogoutFailed'), getErrorMessage(error));
+    }
+  };
+
   if (isLoading) {
-    return <div className="text-center py-8">Loading users...</div>;
+    return <div className="text-center py-8">{t('admin.users.loading')}</div>;
   }
 
   return (
     <div className="space-y-6">
       <div>
-        <h1 className="text-3xl font-bold">Users Management</h1>
-        <p className="text-muted-foreground">Manage user accounts and permissions</p>
+        <h1 className="text-3xl font-bold">{t('admin.users.title')}</h1>
+        <p className="text-muted-foreground">{t('admin.users.subtitle')}</p>
       </div>
 
       <Card>
         <CardContent className="p-6">
           <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
-            <Input placeholder="Search users..." className="pl-10" />
+            <Input placeholder={t('admin.users.searchPlaceholder')} className="pl-10" />
           </div>
         </CardContent>
       </Card>
@@ -62,15 +81,19 @@ export const AdminUsersPage: React.FC = () => {
                     <p className="text-sm text-muted-foreground">{user.email}</p>
                     <div className="flex items-center space-x-4 text-xs text-muted-foreground mt-1">
                       <span className={`px-2 py-1 rounded ${user.role === 'admin' ? 'bg-red-100 text-red-800' : 'bg-blue-100 text-blue-800'}`}>
-                        {user.role}
+                        {t(`admin.users.roles.${user.role}`)}
                       </span>
-                      <span>Joined: {formatDate(user.createdAt)}</span>
+                      <span>{t('admin.users.joined', { date: formatDate(user.createdAt) })}</span>
                     </div>
                   </div>
                 </div>
                 <div className="flex space-x-2">
-                  <Button variant="outline" size="sm">View Details</Button>
-                  <Button variant="outline" size="sm">Edit</Button>
+                  <Button variant="outline" size="sm">{t('orders.viewDetails')}</Button>
+                  <Button variant="outline" size="sm">{t('common.edit')}</Button>
+                  <Button variant="outline" size="sm" onClick={() => handleForceLogout(user)}>
+                    <LogOut className="w-4 h-4 mr-2" />
+                    {t('admin.users.forceLogout')}
+                  </Button>
                 </div>
               </div>
             </CardContent>
@@ -84,7 +107,7 @@ export const AdminUsersPage: React.FC = () => {
             <div className="flex items-center space-x-2">
               <Users className="w-5 h-5 text-blue-600" />
               <div>
-                <p className="text-sm font-medium">Total Users</p>
+                <p className="text-sm font-medium">{t('admin.users.total')}</p>
                 <p className="text-2xl font-bold">{users.length}</p>
               </div>
             </div>
@@ -95,7 +118,7 @@ export const AdminUsersPage: React.FC = () => {
             <div className="flex items-center space-x-2">
               <UserCheck className="w-5 h-5 text-green-600" />
               <div>
-                <p className="text-sm font-medium">Active Users</p>
+                <p className="text-sm font-medium">{t('admin.users.active')}</p>
                 <p className="text-2xl font-bold">{users.filter(u => u.isActive).length}</p>
               </div>
             </div>
@@ -106,7 +129,7 @@ export const AdminUsersPage: React.FC = () => {
             <div className="flex items-center space-x-2">
               <UserX className="w-5 h-5 text-red-600" />
               <div>
-                <p className="text-sm font-medium">Inactive Users</p>
+                <p className="text-sm font-medium">{t('admin.users.inactive')}</p>
                 <p className="text-2xl font-bold">{users.filter(u => !u.isActive).length}</p>
               </div>
             </div>
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Link, useNavigate, useLocation } from 'react-router-dom';
+import { Link, useNavigate, useLocation, useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -7,22 +7,102 @@ import { motion } from 'framer-motion';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Eye, EyeOff, Mail, Lock, ArrowLeft } from 'lucide-react';
+import { Eye, EyeOff, Mail, Lock, ArrowLeft, ShieldCheck } from 'lucide-react';
 import { useAuth } from '@/contexts/auth-context';
+import { useTranslation } from '@/hooks/use-translation';
 
 const loginSchema = z.object({
-  email: z.string().email('Please enter a valid email address'),
-  password: z.string().min(1, 'Password is required'),
+  email: z.string().email('validation.email'),
+  password: z.string().min(1, 'validation.passwordRequired'),
 });
 
 type LoginFormData = z.infer<typeof loginSchema>;
 
+// Authenticator codes are 6 digits; recovery codes are longer, so only presence is checked here
+const twoFactorSchema = z.object({
+  code: z.string().trim().min(1, 'validation.codeRequired'),
+});
+
+type TwoFactorFormData = z.infer<typeof twoFactorSchema>;
+
+interface TwoFactorFormProps {
+  isLoading: boolean;
+  onSubmit: (code: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+const TwoFactorForm: React.FC<TwoFactorFormProps> = ({ isLoading, onSubmit, onCancel }) => {
+  const { t, translateError } = useTranslation();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<TwoFactorFormData>({
+    resolver: zodResolver(twoFactorSchema),
+  });
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    reset({ code: '' });
+  };
+
+  return (
+    <form onSubmit={handleSubmit((data) => onSubmit(data.code))} className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {useRecoveryCode ? t('auth.recoveryCodeSubtitle') : t('auth.twoFactorSubtitle')}
+      </p>
+
+      <div className="space-y-2">
+        <label htmlFor="code" className="text-sm font-medium">
+          {useRecoveryCode ? t('auth.recoveryCode') : t('auth.authenticationCode')}
+        </label>
+        <div className="relative">
+          <ShieldCheck className="absolute start-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+          <Input
+            id="code"
+            autoFocus
+            autoComplete="one-time-code"
+            inputMode={useRecoveryCode ? 'text' : 'numeric'}
+            placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+            className="ps-10 tracking-widest"
+            {...register('code')}
+          />
+        </div>
+        {errors.code && (
+          <p className="text-destructive text-sm">{translateError(errors.code.message)}</p>
+        )}
+      </div>
+
+      <Button type="submit" className="w-full" disabled={isLoading}>
+        {isLoading ? t('auth.verifying') : t('auth.verify')}
+      </Button>
+
+      <div className="flex flex-col items-center gap-2">
+        <button type="button" className="text-sm text-primary hover:underline" onClick={toggleRecoveryCode}>
+          {useRecoveryCode ? t('auth.useAuthenticatorCode') : t('auth.useRecoveryCode')}
+        </button>
+        <button type="button" className="text-sm text-muted-foreground hover:underline" onClick={onCancel}>
+          {t('auth.startOver')}
+        </button>
+      </div>
+    </form>
+  );
+};
+
 export const LoginPage: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
-  const { login, googleAuth, isLoading } = useAuth();
+  const [searchParams] = useSearchParams();
+  const { login, verifyTwoFactor, googleAuth, isLoading } = useAuth();
+  const { t, translateError } = useTranslation();
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Set once the password is accepted for an account with two-factor
+  // authentication; Google sign in hands it over in the URL
+  const [challengeToken, setChallengeToken] = useState<string | null>(searchParams.get('challengeToken'));
 
   const from = location.state?.from?.pathname || '/';
 
@@ -37,13 +117,34 @@ export const LoginPage: React.FC = () => {
   const onSubmit = async (data: LoginFormData) => {
     try {
       setError(null);
-      await login(data.email, data.password);
+      const challenge = await login(data.email, data.password);
+      if (challenge) {
+        setChallengeToken(challenge);
+        return;
+      }
       navigate(from, { replace: true });
     } catch (err: any) {
-      setError(err.message || 'Login failed. Please try again.');
+      setError(err.message || t('auth.loginFailed'));
     }
   };
 
+  const onVerifyCode = async (code: string) => {
+    if (!challengeToken) return;
+
+    try {
+      setError(null);
+      await verifyTwoFactor(challengeToken, code);
+      navigate(from, { replace: true });
+    } catch (err: any) {
+      setError(err.message || t('auth.loginFailed'));
+    }
+  };
+
+  const cancelTwoFactor = () => {
+    setChallengeToken(null);
+    setError(null);
+  };
+
   const handleGoogleLogin = () => {
     googleAuth();
   };
@@ -59,15 +160,19 @@ export const LoginPage: React.FC = () => {
         <Card>
           <CardHeader className="text-center">
             <div className="flex items-center justify-center mb-4">
-              <Link to="/" className="flex items-center space-x-2 text-muted-foreground hover:text-foreground">
-                <ArrowLeft className="w-4 h-4" />
-                <span>Back to Home</span>
+              <Link to="/" className="flex items-center space-x-2 rtl:space-x-reverse text-muted-foreground hover:text-foreground">
+                <ArrowLeft className="rtl:rotate-180 w-4 h-4" />
+                <span>{t('common.backToHome')}</span>
               </Link>
             </div>
-            <CardTitle className="text-2xl font-bold">Welcome Back</CardTitle>
-            <p className="text-muted-foreground">
-              Sign in to your account to continue
-            </p>
+            <CardTitle className="text-2xl font-bold">
+              {challengeToken ? t('auth.twoFactorTitle') : t('auth.welcomeBack')}
+            </CardTitle>
+            {!challengeToken && (
+              <p className="text-muted-foreground">
+                {t('auth.signInSubtitle')}
+              </p>
+            )}
           </CardHeader>
           
           <CardContent className="space-y-6">
@@ -77,117 +182,124 @@ export const LoginPage: React.FC = () => {
               </div>
             )}
 
-            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-              <div className="space-y-2">
-                <label htmlFor="email" className="text-sm font-medium">
-                  Email Address
-                </label>
-                <div className="relative">
-                  <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
-                  <Input
-                    id="email"
-                    type="email"
-                    placeholder="Enter your email"
-                    className="pl-10"
-                    {...register('email')}
-                  />
-                </div>
-                {errors.email && (
-                  <p className="text-destructive text-sm">{errors.email.message}</p>
-                )}
-              </div>
+            {challengeToken ? (
+              <TwoFactorForm isLoading={isLoading} onSubmit={onVerifyCode} onCancel={cancelTwoFactor} />
+            ) : (
+              <>
+                <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                  <div className="space-y-2">
+                    <label htmlFor="email" className="text-sm font-medium">
+                      {t('auth.emailAddress')}
+                    </label>
+                    <div className="relative">
+                      <Mail className="absolute start-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                      <Input
+                        id="email"
+                        type="email"
+                        placeholder={t('auth.emailPlaceholder')}
+                        className="ps-10"
+                        {...register('email')}
+                      />
+                    </div>
+                    {errors.email && (
+                      <p className="text-destructive text-sm">{translateError(errors.email.message)}</p>
+                    )}
+                  </div>
 
-              <div className="space-y-2">
-                <label htmlFor="password" className="text-sm font-medium">
-                  Password
-                </label>
-                <div className="relative">
-                  <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
-                  <Input
-                    id="password"
-                    type={showPassword ? 'text' : 'password'}
-                    placeholder="Enter your password"
-                    className="pl-10 pr-10"
-                    {...register('password')}
-                  />
-                  <button
-                    type="button"
-                    onClick={() => setShowPassword(!showPassword)}
-                    className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                  <div className="space-y-2">
+                    <label htmlFor="password" className="text-sm font-medium">
+                      {t('auth.password')}
+                    </label>
+                    <div className="relative">
+                      <Lock className="absolute start-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                      <Input
+                        id="password"
+                        type={showPassword ? 'text' : 'password'}
+                        placeholder={t('auth.passwordPlaceholder')}
+                        className="ps-10 pe-10"
+                        {...register('password')}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setShowPassword(!showPassword)}
+                        aria-label={showPassword ? t('auth.hidePassword') : t('auth.showPassword')}
+                        className="absolute end-3 top-1/2 transform -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                      >
+                        {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                      </button>
+                    </div>
+                    {errors.password && (
+                      <p className="text-destructive text-sm">{translateError(errors.password.message)}</p>
+                    )}
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <Link
+                      to="/forgot-password"
+                      className="text-sm text-primary hover:underline"
+                    >
+                      {t('auth.forgotPassword')}
+                    </Link>
+                  </div>
+
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={isLoading}
                   >
-                    {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                  </button>
+                    {isLoading ? t('auth.signingIn') : t('auth.signIn')}
+                  </Button>
+                </form>
+
+                <div className="relative">
+                  <div className="absolute inset-0 flex items-center">
+                    <span className="w-full border-t" />
+                  </div>
+                  <div className="relative flex justify-center text-xs uppercase">
+                    <span className="bg-background px-2 text-muted-foreground">
+                      {t('auth.orContinueWith')}
+                    </span>
+                  </div>
                 </div>
-                {errors.password && (
-                  <p className="text-destructive text-sm">{errors.password.message}</p>
-                )}
-              </div>
 
-              <div className="flex items-center justify-between">
-                <Link
-                  to="/forgot-password"
-                  className="text-sm text-primary hover:underline"
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  onClick={handleGoogleLogin}
+                  disabled={isLoading}
                 >
-                  Forgot your password?
-                </Link>
-              </div>
-
-              <Button
-                type="submit"
-                className="w-full"
-                disabled={isLoading}
-              >
-                {isLoading ? 'Signing in...' : 'Sign In'}
-              </Button>
-            </form>
-
-            <div className="relative">
-              <div className="absolute inset-0 flex items-center">
-                <span className="w-full border-t" />
-              </div>
-              <div className="relative flex justify-center text-xs uppercase">
-                <span className="bg-background px-2 text-muted-foreground">
-                  Or continue with
-                </span>
-              </div>
-            </div>
+                  <svg className="w-5 h-5 me-2" viewBox="0 0 24 24">
+                    <path
+                      fill="currentColor"
+                      d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
+                    />
+                    <path
+                      fill="currentColor"
+                      d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
+                    />
+                    <path
+                      fill="currentColor"
+                      d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
+                    />
+                    <path
+                      fill="currentColor"
+                      d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
+                    />
+                  </svg>
+                  {t('auth.continueWithGoogle')}
+                </Button>
 
-            <Button
-              type="button"
-              variant="outline"
-              className="w-full"
-              onClick={handleGoogleLogin}
-              disabled={isLoading}
-            >
-              <svg className="w-5 h-5 mr-2" viewBox="0 0 24 24">
-                <path
-                  fill="currentColor"
-                  d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
-                />
-                <path
-                  fill="currentColor"
-                  d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
-                />
-                <path
-                  fill="currentColor"
-                  d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
-                />
-                <path
-                  fill="currentColor"
-                  d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
-                />
-              </svg>
-              Continue with Google
-            </Button>
-
-            <div className="text-center">
-              <p className="text-sm text-muted-foreground">
-                Don't have an account?{' '}
-                <Link to="/register" className="text-primary hover:underline font-medium">
-                  Sign up
-                </Link>
-              </p>
-            </div>
+                <div className="text-center">
+                  <p className="text-sm text-muted-foreground">
+                    {t('auth.noAccount')}{' '}
+                    <Link to="/register" className="text-primary hover:underline font-medium">
+                      {t('auth.signUp')}
+                    </Link>
+                  </p>
+                </div>
+              </>
+            )}
           </CardContent>
         </Card>
       </motion.div>
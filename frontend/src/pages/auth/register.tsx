@@ -9,12 +9,17 @@ import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Eye, EyeOff, Mail, Lock, User, Phone, CreditCard, MapPin, ArrowLeft } from 'lucide-react';
 import { useAuth } from '@/contexts/auth-context';
+import { useTranslation } from '@/hooks/use-translation';
+import { isStrongEnoughPassword } from '@/lib/utils';
+import { PasswordStrengthMeter } from '@/components/auth/password-strength-meter';
 
 const registerSchema = z.object({
-  firstName: z.string().min(2, 'First name must be at least 2 characters'),
-  lastName: z.string().min(2, 'Last name must be at least 2 characters'),
-  email: z.string().email('Please enter a valid email address'),
-  password: z.string().min(8, 'Password must be at least 8 characters'),
+  firstName: z.string().min(2, 'validation.firstNameMin'),
+  lastName: z.string().min(2, 'validation.lastNameMin'),
+  email: z.string().email('validation.email'),
+  password: z.string()
+    .min(8, 'validation.passwordMin')
+    .refine(isStrongEnoughPassword, 'validation.passwordWeak'),
   confirmPassword: z.string(),
   phone: z.string().optional(),
   // Optional payment details
@@ -28,7 +33,7 @@ const registerSchema = z.object({
   zipCode: z.string().optional(),
   country: z.string().optional(),
 }).refine((data) => data.password === data.confirmPassword, {
-  message: "Passwords don't match",
+  message: 'validation.passwordsMismatch',
   path: ["confirmPassword"],
 });
 
@@ -37,6 +42,7 @@ type RegisterFormData = z.infer<typeof registerSchema>;
 export const RegisterPage: React.FC = () => {
   const navigate = useNavigate();
   const { register: registerUser, isLoading } = useAuth();
+  const { t, translateError } = useTranslation();
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [showPaymentDetails, setShowPaymentDetails] = useState(false);
@@ -47,7 +53,7 @@ export const RegisterPage: React.FC = () => {
     register,
     handleSubmit,
     formState: { errors },
-    // watch,
+    watch,
   } = useForm<RegisterFormData>({
     resolver: zodResolver(registerSchema),
   });
@@ -82,7 +88,7 @@ export const RegisterPage: React.FC = () => {
       await registerUser(registrationData);
       navigate('/');
     } catch (err: any) {
-      setError(err.message || 'Registration failed. Please try again.');
+      setError(err.message || t('auth.registrationFailed'));
     }
   };
 
@@ -97,14 +103,14 @@ export const RegisterPage: React.FC = () => {
         <Card>
           <CardHeader className="text-center">
             <div className="flex items-center justify-center mb-4">
-              <Link to="/" className="flex items-center space-x-2 text-muted-foreground hover:text-foreground">
-                <ArrowLeft className="w-4 h-4" />
-                <span>Back to Home</span>
+              <Link to="/" className="flex items-center space-x-2 rtl:space-x-reverse text-muted-foreground hover:text-foreground">
+                <ArrowLeft className="rtl:rotate-180 w-4 h-4" />
+                <span>{t('common.backToHome')}</span>
               </Link>
             </div>
-            <CardTitle className="text-2xl font-bold">Create Your Account</CardTitle>
+            <CardTitle className="text-2xl font-bold">{t('auth.createAccountTitle')}</CardTitle>
             <p className="text-muted-foreground">
-              Join GameStore and start your gaming journey
+              {t('auth.createAccountSubtitle')}
             </p>
           </CardHeader>
           
@@ -118,134 +124,137 @@ export const RegisterPage: React.FC = () => {
             <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
               {/* Basic Information */}
               <div className="space-y-4">
-                <h3 className="text-lg font-semibold">Basic Information</h3>
+                <h3 className="text-lg font-semibold">{t('auth.basicInformation')}</h3>
                 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <label htmlFor="firstName" className="text-sm font-medium">
-                      First Name *
+                      {t('auth.firstName')} *
                     </label>
                     <div className="relative">
-                      <User className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                      <User className="absolute start-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
                       <Input
                         id="firstName"
-                        placeholder="Enter your first name"
-                        className="pl-10"
+                        placeholder={t('auth.firstNamePlaceholder')}
+                        className="ps-10"
                         {...register('firstName')}
                       />
                     </div>
                     {errors.firstName && (
-                      <p className="text-destructive text-sm">{errors.firstName.message}</p>
+                      <p className="text-destructive text-sm">{translateError(errors.firstName.message)}</p>
                     )}
                   </div>
 
                   <div className="space-y-2">
                     <label htmlFor="lastName" className="text-sm font-medium">
-                      Last Name *
+                      {t('auth.lastName')} *
                     </label>
                     <div className="relative">
-                      <User className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                      <User className="absolute start-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
                       <Input
                         id="lastName"
-                        placeholder="Enter your last name"
-                        className="pl-10"
+                        placeholder={t('auth.lastNamePlaceholder')}
+                        className="ps-10"
                         {...register('lastName')}
                       />
                     </div>
                     {errors.lastName && (
-                      <p className="text-destructive text-sm">{errors.lastName.message}</p>
+                      <p className="text-destructive text-sm">{translateError(errors.lastName.message)}</p>
                     )}
                   </div>
                 </div>
 
                 <div className="space-y-2">
                   <label htmlFor="email" className="text-sm font-medium">
-                    Email Address *
+                    {t('auth.emailAddress')} *
                   </label>
                   <div className="relative">
-                    <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                    <Mail className="absolute start-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
                     <Input
                       id="email"
                       type="email"
-                      placeholder="Enter your email"
-                      className="pl-10"
+                      placeholder={t('auth.emailPlaceholder')}
+                      className="ps-10"
                       {...register('email')}
                     />
                   </div>
                   {errors.email && (
-                    <p className="text-destructive text-sm">{errors.email.message}</p>
+                    <p className="text-destructive text-sm">{translateError(errors.email.message)}</p>
                   )}
                 </div>
 
                 <div className="space-y-2">
                   <label htmlFor="phone" className="text-sm font-medium">
-                    Phone Number (Optional)
+                    {t('auth.phoneOptional')}
                   </label>
                   <div className="relative">
-                    <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                    <Phone className="absolute start-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
                     <Input
                       id="phone"
                       type="tel"
-                      placeholder="Enter your phone number"
-                      className="pl-10"
+                      placeholder={t('auth.phonePlaceholder')}
+                      className="ps-10"
                       {...register('phone')}
                     />
                   </div>
                   {errors.phone && (
-                    <p className="text-destructive text-sm">{errors.phone.message}</p>
+                    <p className="text-destructive text-sm">{translateError(errors.phone.message)}</p>
                   )}
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <label htmlFor="password" className="text-sm font-medium">
-                      Password *
+                      {t('auth.password')} *
                     </label>
                     <div className="relative">
-                      <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                      <Lock className="absolute start-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
                       <Input
                         id="password"
                         type={showPassword ? 'text' : 'password'}
-                        placeholder="Create a password"
-                        className="pl-10 pr-10"
+                        placeholder={t('auth.createPasswordPlaceholder')}
+                        className="ps-10 pe-10"
                         {...register('password')}
                       />
                       <button
                         type="button"
                         onClick={() => setShowPassword(!showPassword)}
-                        className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                        aria-label={showPassword ? t('auth.hidePassword') : t('auth.showPassword')}
+                        className="absolute end-3 top-1/2 transform -translate-y-1/2 text-muted-foreground hover:text-foreground"
                       >
                         {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
                       </button>
                     </div>
+                    <PasswordStrengthMeter password={watch('password') || ''} />
                     {errors.password && (
-                      <p className="text-destructive text-sm">{errors.password.message}</p>
+                      <p className="text-destructive text-sm">{translateError(errors.password.message)}</p>
                     )}
                   </div>
 
                   <div className="space-y-2">
                     <label htmlFor="confirmPassword" className="text-sm font-medium">
-                      Confirm Password *
+                      {t('auth.confirmPassword')} *
                     </label>
                     <div className="relative">
-                      <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                      <Lock className="absolute start-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
                       <Input
                         id="confirmPassword"
                         type={showConfirmPassword ? 'text' : 'password'}
-                        placeholder="Confirm your password"
-                        className="pl-10 pr-10"
+                        placeholder={t('auth.confirmPasswordPlaceholder')}
+                        className="ps-10 pe-10"
                         {...register('confirmPassword')}
                       />
                       <button
                         type="button"
                         onClick={() => setShowConfirmPassword(!showConfirmPassword)}
-                        className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                        aria-label={showConfirmPassword ? t('auth.hidePassword') : t('auth.showPassword')}
+                        className="absolute end-3 top-1/2 transform -translate-y-1/2 text-muted-foreground hover:text-foreground"
                       >
                         {showConfirmPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
                       </button>
                     </div>
                     {errors.confirmPassword && (
-                      <p className="text-destructive text-sm">{errors.confirmPassword.message}</p>
+                      <p className="text-destructive text-sm">{translateError(errors.confirmPassword.message)}</p>
                     )}
                   </div>
                 </div>
@@ -253,7 +262,7 @@ export const RegisterPage: React.FC = () => {
 
               {/* Optional Payment Details */}
               <div className="space-y-4">
-                <div className="flex items-center space-x-2">
+                <div className="flex items-center space-x-2 rtl:space-x-reverse">
                   <input
                     type="checkbox"
                     id="showPayment"
@@ -262,7 +271,7 @@ export const RegisterPage: React.FC = () => {
                     className="w-4 h-4 text-primary"
                   />
                   <label htmlFor="showPayment" className="text-sm font-medium">
-                    Add payment details now (optional)
+                    {t('auth.addPaymentDetails')}
                   </label>
                 </div>
 
@@ -274,13 +283,13 @@ export const RegisterPage: React.FC = () => {
                     className="space-y-4 p-4 border rounded-lg bg-muted/50"
                   >
                     <h4 className="font-semibold flex items-center">
-                      <CreditCard className="w-4 h-4 mr-2" />
-                      Payment Information
+                      <CreditCard className="w-4 h-4 me-2" />
+                      {t('auth.paymentInformation')}
                     </h4>
                     
                     <div className="space-y-2">
                       <label htmlFor="cardNumber" className="text-sm font-medium">
-                        Card Number
+                        {t('auth.cardNumber')}
                       </label>
                       <Input
                         id="cardNumber"
@@ -292,7 +301,7 @@ export const RegisterPage: React.FC = () => {
                     <div className="grid grid-cols-2 gap-4">
                       <div className="space-y-2">
                         <label htmlFor="cardExpiry" className="text-sm font-medium">
-                          Expiry Date
+                          {t('auth.expiryDate')}
                         </label>
                         <Input
                           id="cardExpiry"
@@ -302,7 +311,7 @@ export const RegisterPage: React.FC = () => {
                       </div>
                       <div className="space-y-2">
                         <label htmlFor="cardCvc" className="text-sm font-medium">
-                          CVC
+                          {t('auth.cvc')}
                         </label>
                         <Input
                           id="cardCvc"
@@ -317,7 +326,7 @@ export const RegisterPage: React.FC = () => {
 
               {/* Optional Address Details */}
               <div className="space-y-4">
-                <div className="flex items-center space-x-2">
+                <div className="flex items-center space-x-2 rtl:space-x-reverse">
                   <input
                     type="checkbox"
                     id="showAddress"
@@ -326,7 +335,7 @@ export const RegisterPage: React.FC = () => {
                     className="w-4 h-4 text-primary"
                   />
                   <label htmlFor="showAddress" className="text-sm font-medium">
-                    Add shipping address now (optional)
+                    {t('auth.addShippingAddress')}
                   </label>
                 </div>
 
@@ -338,17 +347,17 @@ export const RegisterPage: React.FC = () => {
                     className="space-y-4 p-4 border rounded-lg bg-muted/50"
                   >
                     <h4 className="font-semibold flex items-center">
-                      <MapPin className="w-4 h-4 mr-2" />
-                      Shipping Address
+                      <MapPin className="w-4 h-4 me-2" />
+                      {t('auth.shippingAddress')}
                     </h4>
                     
                     <div className="space-y-2">
                       <label htmlFor="address" className="text-sm font-medium">
-                        Street Address
+                        {t('auth.streetAddress')}
                       </label>
                       <Input
                         id="address"
-                        placeholder="Enter your street address"
+                        placeholder={t('auth.streetAddressPlaceholder')}
                         {...register('address')}
                       />
                     </div>
@@ -356,31 +365,31 @@ export const RegisterPage: React.FC = () => {
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                       <div className="space-y-2">
                         <label htmlFor="city" className="text-sm font-medium">
-                          City
+                          {t('auth.city')}
                         </label>
                         <Input
                           id="city"
-                          placeholder="Enter your city"
+                          placeholder={t('auth.cityPlaceholder')}
                           {...register('city')}
                         />
                       </div>
                       <div className="space-y-2">
                         <label htmlFor="state" className="text-sm font-medium">
-                          State
+                          {t('auth.state')}
                         </label>
                         <Input
                           id="state"
-                          placeholder="Enter your state"
+                          placeholder={t('auth.statePlaceholder')}
                           {...register('state')}
                         />
                       </div>
                       <div className="space-y-2">
                         <label htmlFor="zipCode" className="text-sm font-medium">
-                          ZIP Code
+                          {t('auth.zipCode')}
                         </label>
                         <Input
                           id="zipCode"
-                          placeholder="Enter ZIP code"
+                          placeholder={t('auth.zipCodePlaceholder')}
                           {...register('zipCode')}
                         />
                       </div>
@@ -388,11 +397,11 @@ export const RegisterPage: React.FC = () => {
 
                     <div className="space-y-2">
                       <label htmlFor="country" className="text-sm font-medium">
-                        Country
+                        {t('auth.country')}
                       </label>
                       <Input
                         id="country"
-                        placeholder="Enter your country"
+                        placeholder={t('auth.countryPlaceholder')}
                         {...register('country')}
                       />
                     </div>
@@ -405,15 +414,15 @@ export const RegisterPage: React.FC = () => {
                 className="w-full"
                 disabled={isLoading}
               >
-                {isLoading ? 'Creating Account...' : 'Create Account'}
+                {isLoading ? t('auth.creatingAccount') : t('auth.createAccount')}
               </Button>
             </form>
 
             <div className="text-center">
               <p className="text-sm text-muted-foreground">
-                Already have an account?{' '}
+                {t('auth.haveAccount')}{' '}
                 <Link to="/login" className="text-primary hover:underline font-medium">
-                  Sign in
+                  {t('auth.signInLink')}
                 </Link>
               </p>
             </div>
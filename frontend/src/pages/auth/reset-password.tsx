@@ -1,146 +1,156 @@
-import { useState } from 'react';
-import { useNavigate, useSearchParams } from 'react-router-dom';
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
+import { motion } from 'framer-motion';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { useToast } from '@/hooks/use-toast';
-import  api  from '@/lib/api';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, Lock, XCircle } from 'lucide-react';
+import { useAuth } from '@/contexts/auth-context';
+import { useTranslation } from '@/hooks/use-translation';
+import { isStrongEnoughPassword } from '@/lib/utils';
+import { PasswordStrengthMeter } from '@/components/auth/password-strength-meter';
 
 const resetPasswordSchema = z.object({
-  password: z.string().min(8, 'Password must be at least 8 characters'),
+  password: z.string()
+    .min(8, 'validation.passwordMin')
+    .refine(isStrongEnoughPassword, 'validation.passwordWeak'),
   confirmPassword: z.string()
 }).refine((data) => data.password === data.confirmPassword, {
-  message: "Passwords don't match",
-  path: ["confirmPassword"],
+  message: 'validation.passwordsMismatch',
+  path: ['confirmPassword'],
 });
 
-type ResetPasswordForm = z.infer<typeof resetPasswordSchema>;
+type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
 
-export function ResetPasswordPage() {
+export const ResetPasswordPage: React.FC = () => {
   const [searchParams] = useSearchParams();
-  const navigate = useNavigate();
-  const { toast } = useToast();
-  const [isLoading, setIsLoading] = useState(false);
+  const { resetPassword, isLoading } = useAuth();
+  const { t, translateError } = useTranslation();
+  const [error, setError] = useState<string | null>(null);
 
   const token = searchParams.get('token');
 
   const {
     register,
     handleSubmit,
+    watch,
     formState: { errors },
-  } = useForm<ResetPasswordForm>({
+  } = useForm<ResetPasswordFormData>({
     resolver: zodResolver(resetPasswordSchema),
   });
 
-  const onSubmit = async (data: ResetPasswordForm) => {
+  const onSubmit = async (data: ResetPasswordFormData) => {
     if (!token) {
-      toast({
-        title: "Error",
-        description: "Reset token is missing",
-        variant: "destructive",
-      });
       return;
     }
 
-    setIsLoading(true);
     try {
-      await api.post('/auth/reset-password', {
-        token,
-        password: data.password,
-      });
-
-      toast({
-        title: "Success",
-        description: "Password has been reset successfully",
-      });
-
-      navigate('/auth/login');
-    } catch (error: any) {
-      toast({
-        title: "Error",
-        description: error.response?.data?.message || "Failed to reset password",
-        variant: "destructive",
-      });
-    } finally {
-      setIsLoading(false);
+      setError(null);
+      await resetPassword(token, data.password);
+    } catch (err: any) {
+      setError(err.message);
     }
   };
 
-  if (!token) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-gray-50">
-        <Card className="w-full max-w-md">
-          <CardHeader>
-            <CardTitle>Invalid Reset Link</CardTitle>
-            <CardDescription>
-              The password reset link is invalid or has expired.
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <Button 
-              onClick={() => navigate('/auth/forgot-password')}
-              className="w-full"
-            >
-              Request New Reset Link
-            </Button>
-          </CardContent>
-        </Card>
-      </div>
-    );
-  }
-
   return (
-    <div className="min-h-screen flex items-center justify-center bg-gray-50">
-      <Card className="w-full max-w-md">
-        <CardHeader>
-          <CardTitle>Reset Password</CardTitle>
-          <CardDescription>
-            Enter your new password below
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-            <div>
-              <Input
-                type="password"
-                placeholder="New Password"
-                {...register('password')}
-                className={errors.password ? 'border-red-500' : ''}
-              />
-              {errors.password && (
-                <p className="text-sm text-red-500 mt-1">
-                  {errors.password.message}
-                </p>
-              )}
+    <div className="min-h-screen flex items-center justify-center bg-muted/50 py-12 px-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="w-full max-w-md"
+      >
+        <Card>
+          <CardHeader className="text-center">
+            <div className="flex items-center justify-center mb-4">
+              <Link to="/login" className="flex items-center space-x-2 rtl:space-x-reverse text-muted-foreground hover:text-foreground">
+                <ArrowLeft className="rtl:rotate-180 w-4 h-4" />
+                <span>{t('auth.backToLogin')}</span>
+              </Link>
             </div>
+            {token ? (
+              <>
+                <CardTitle className="text-2xl font-bold">{t('auth.resetPasswordTitle')}</CardTitle>
+                <p className="text-muted-foreground">{t('auth.resetPasswordSubtitle')}</p>
+              </>
+            ) : (
+              <>
+                <div className="flex justify-center mb-4">
+                  <XCircle className="w-16 h-16 text-destructive" />
+                </div>
+                <CardTitle className="text-2xl font-bold">{t('auth.resetLinkInvalidTitle')}</CardTitle>
+                <p className="text-muted-foreground">{t('auth.resetLinkInvalidText')}</p>
+              </>
+            )}
+          </CardHeader>
 
-            <div>
-              <Input
-                type="password"
-                placeholder="Confirm New Password"
-                {...register('confirmPassword')}
-                className={errors.confirmPassword ? 'border-red-500' : ''}
-              />
-              {errors.confirmPassword && (
-                <p className="text-sm text-red-500 mt-1">
-                  {errors.confirmPassword.message}
-                </p>
-              )}
-            </div>
+          <CardContent className="space-y-6">
+            {!token ? (
+              <Link to="/forgot-password">
+                <Button className="w-full">{t('auth.requestNewLink')}</Button>
+              </Link>
+            ) : (
+              <>
+                {error && (
+                  <div className="bg-destructive/10 border border-destructive/20 rounded-md p-3">
+                    <p className="text-destructive text-sm">{error}</p>
+                  </div>
+                )}
+
+                <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                  <div className="space-y-2">
+                    <label htmlFor="password" className="text-sm font-medium">
+                      {t('auth.newPassword')}
+                    </label>
+                    <div className="relative">
+                      <Lock className="absolute start-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                      <Input
+                        id="password"
+                        type="password"
+                        placeholder={t('auth.newPasswordPlaceholder')}
+                        autoComplete="new-password"
+                        className="ps-10"
+                        {...register('password')}
+                      />
+                    </div>
+                    <PasswordStrengthMeter password={watch('password') || ''} />
+                    {errors.password && (
+                      <p className="text-destructive text-sm">{translateError(errors.password.message)}</p>
+                    )}
+                  </div>
 
-            <Button 
-              type="submit" 
-              className="w-full" 
-              disabled={isLoading}
-            >
-              {isLoading ? 'Resetting...' : 'Reset Password'}
-            </Button>
-          </form>
-        </CardContent>
-      </Card>
+                  <div className="space-y-2">
+                    <label htmlFor="confirmPassword" className="text-sm font-medium">
+                      {t('auth.confirmPassword')}
+                    </label>
+                    <div className="relative">
+                      <Lock className="absolute start-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                      <Input
+                        id="confirmPassword"
+                        type="password"
+                        placeholder={t('auth.confirmPasswordPlaceholder')}
+                        autoComplete="new-password"
+                        className="ps-10"
+                        {...register('confirmPassword')}
+                      />
+                    </div>
+                    {errors.confirmPassword && (
+                      <p className="text-destructive text-sm">{translateError(errors.confirmPassword.message)}</p>
+                    )}
+                  </div>
+
+                  <Button type="submit" className="w-full" disabled={isLoading}>
+                    {isLoading ? t('auth.resettingPassword') : t('auth.resetPassword')}
+                  </Button>
+                </form>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
     </div>
   );
-} 
\ No newline at end of file
+};
@@ -1,135 +1,101 @@
-import { useState, useEffect } from 'react';
-import { useNavigate, useSearchParams } from 'react-router-dom';
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
 import { Button } from '@/components/ui/button';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { useToast } from '@/hooks/use-toast';
-import api from '@/lib/api';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { CheckCircle, Loader2, XCircle } from 'lucide-react';
+import { useAuth } from '@/contexts/auth-context';
+import { useTranslation } from '@/hooks/use-translation';
 
-export function VerifyEmailPage() {
-  const [searchParams] = useSearchParams();
-  const navigate = useNavigate();
-  const { toast } = useToast();
-  const [isLoading, setIsLoading] = useState(false);
-  const [isVerified, setIsVerified] = useState(false);
+type Status = 'verifying' | 'verified' | 'failed';
 
+export const VerifyEmailPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const { isAuthenticated, verifyEmail, resendVerification, isLoading } = useAuth();
+  const { t } = useTranslation();
   const token = searchParams.get('token');
+  const [status, setStatus] = useState<Status>(token ? 'verifying' : 'failed');
+  const [verifiedEmail, setVerifiedEmail] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  // Tokens work once, so the request must not repeat when the effect re-runs
+  const requestedToken = useRef<string | null>(null);
 
   useEffect(() => {
-    if (token) {
-      verifyEmail();
+    if (!token || requestedToken.current === token) {
+      return;
     }
-  }, [token]);
+    requestedToken.current = token;
 
-  const verifyEmail = async () => {
-    setIsLoading(true);
-    try {
-      await api.post('/auth/verify-email', { token });
-      setIsVerified(true);
-      toast({
-        title: "Success",
-        description: "Email verified successfully!",
+    verifyEmail(token)
+      .then(email => {
+        setVerifiedEmail(email);
+        setStatus('verified');
+      })
+      .catch((err: Error) => {
+        setError(err.message);
+        setStatus('failed');
       });
-    } catch (error: any) {
-      toast({
-        title: "Error",
-        description: error.response?.data?.message || "Failed to verify email",
-        variant: "destructive",
-      });
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  }, [token, verifyEmail]);
 
-  const resendVerification = async () => {
-    setIsLoading(true);
+  const handleResend = async () => {
     try {
-      await api.post('/auth/resend-verification');
-      toast({
-        title: "Success",
-        description: "Verification email sent successfully",
-      });
-    } catch (error: any) {
-      toast({
-        title: "Error",
-        description: error.response?.data?.message || "Failed to send verification email",
-        variant: "destructive",
-      });
-    } finally {
-      setIsLoading(false);
+      await resendVerification();
+    } catch (err) {
+      // resendVerification already shows the error
     }
   };
 
-  if (!token) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-gray-50">
-        <Card className="w-full max-w-md">
-          <CardHeader>
-            <CardTitle>Email Verification</CardTitle>
-            <CardDescription>
-              Please check your email for a verification link or request a new one.
-            </CardDescription>
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-muted/50 py-12 px-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="w-full max-w-md"
+      >
+        <Card>
+          <CardHeader className="text-center">
+            <div className="flex justify-center mb-4">
+              {status === 'verifying' && <Loader2 className="w-16 h-16 text-muted-foreground animate-spin" />}
+              {status === 'verified' && <CheckCircle className="w-16 h-16 text-green-500" />}
+              {status === 'failed' && <XCircle className="w-16 h-16 text-destructive" />}
+            </div>
+            {status === 'verifying' && (
+              <>
+                <CardTitle className="text-2xl font-bold">{t('auth.verifyingEmailTitle')}</CardTitle>
+                <p className="text-muted-foreground">{t('auth.verifyingEmailText')}</p>
+              </>
+            )}
+            {status === 'verified' && (
+              <>
+                <CardTitle className="text-2xl font-bold">{t('auth.emailVerifiedTitle')}</CardTitle>
+                <p className="text-muted-foreground">{t('auth.emailVerifiedText', { email: verifiedEmail })}</p>
+              </>
+            )}
+            {status === 'failed' && (
+              <>
+                <CardTitle className="text-2xl font-bold">{t('auth.verificationFailedTitle')}</CardTitle>
+                <p className="text-muted-foreground">{error || t('auth.verificationFailedText')}</p>
+              </>
+            )}
           </CardHeader>
-          <CardContent className="space-y-4">
-            <Button 
-              onClick={resendVerification}
-              className="w-full"
-              disabled={isLoading}
-            >
-              {isLoading ? 'Sending...' : 'Resend Verification Email'}
-            </Button>
-            <Button 
-              variant="outline"
-              onClick={() => navigate('/auth/login')}
-              className="w-full"
-            >
-              Back to Login
-            </Button>
-          </CardContent>
-        </Card>
-      </div>
-    );
-  }
 
-  if (isVerified) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-gray-50">
-        <Card className="w-full max-w-md">
-          <CardHeader>
-            <CardTitle>Email Verified!</CardTitle>
-            <CardDescription>
-              Your email has been verified successfully. You can now log in to your account.
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <Button 
-              onClick={() => navigate('/auth/login')}
-              className="w-full"
-            >
-              Continue to Login
-            </Button>
-          </CardContent>
+          {status !== 'verifying' && (
+            <CardContent className="space-y-3">
+              {status === 'failed' && isAuthenticated && (
+                <Button className="w-full" onClick={handleResend} disabled={isLoading}>
+                  {isLoading ? t('auth.sendingLink') : t('auth.sendNewLink')}
+                </Button>
+              )}
+              <Link to={isAuthenticated ? '/' : '/login'}>
+                <Button variant={status === 'failed' && isAuthenticated ? 'outline' : 'default'} className="w-full">
+                  {isAuthenticated ? t('auth.continue') : t('auth.backToLogin')}
+                </Button>
+              </Link>
+            </CardContent>
+          )}
         </Card>
-      </div>
-    );
-  }
-
-  return (
-    <div className="min-h-screen flex items-center justify-center bg-gray-50">
-      <Card className="w-full max-w-md">
-        <CardHeader>
-          <CardTitle>Verifying Email</CardTitle>
-          <CardDescription>
-            Please wait while we verify your email address...
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="flex items-center justify-center">
-            {isLoading && (
-              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
-            )}
-          </div>
-        </CardContent>
-      </Card>
+      </motion.div>
     </div>
   );
-} 
\ No newline at end of file
+};
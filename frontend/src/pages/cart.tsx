@@ -3,12 +3,20 @@ import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
-import { Trash2, Minus, Plus, ShoppingCart, ArrowRight } from 'lucide-react';
-import { useCart } from '@/contexts/cart-context';
-import { formatPrice } from '@/lib/utils';
+import { Trash2, Minus, Plus, ShoppingCart, ArrowRight, Heart } from 'lucide-react';
+import { isGuestCartItem, useCart } from '@/contexts/cart-context';
+import { useWishlist } from '@/contexts/wishlist-context';
+import { PromoCodeForm } from '@/components/cart/promo-code-form';
+import { EmailVerificationBanner } from '@/components/auth/email-verification-banner';
+import { useCurrency } from '@/hooks/use-currency';
+import { useTranslation } from '@/hooks/use-translation';
+import { CartItem } from '@/types';
 
 export const CartPage: React.FC = () => {
+  const { formatPrice } = useCurrency();
+  const { t } = useTranslation();
   const { items, summary, isLoading, updateCartItem, removeFromCart, updateItemSelection } = useCart();
+  const { moveFromCart } = useWishlist();
 
   useEffect(() => {
     // Load cart data when component mounts
@@ -24,17 +32,22 @@ export const CartPage: React.FC = () => {
     await removeFromCart(itemId);
   };
 
+  const handleMoveToWishlist = async (item: CartItem) => {
+    await moveFromCart(item);
+  };
+
   const handleSelectionChange = async (itemId: string, isSelected: boolean) => {
     await updateItemSelection(itemId, isSelected);
   };
 
-  if (isLoading) {
+  // Only block the page on the initial load; later refreshes keep the cart visible
+  if (isLoading && items.length === 0) {
     return (
       <div className="container mx-auto px-4 py-8">
         <div className="flex items-center justify-center min-h-[60vh]">
           <div className="text-center">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
-            <p className="text-muted-foreground">Loading cart...</p>
+            <p className="text-muted-foreground">{t('cart.loading')}</p>
           </div>
         </div>
       </div>
@@ -46,14 +59,14 @@ export const CartPage: React.FC = () => {
       <div className="container mx-auto px-4 py-8">
         <div className="text-center py-12">
           <ShoppingCart className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
-          <h2 className="text-2xl font-semibold mb-2">Your cart is empty</h2>
+          <h2 className="text-2xl font-semibold mb-2">{t('cart.emptyTitle')}</h2>
           <p className="text-muted-foreground mb-6">
-            Looks like you haven't added any products to your cart yet.
+            {t('cart.emptyText')}
           </p>
           <Link to="/products">
             <Button size="lg">
-              Start Shopping
-              <ArrowRight className="ml-2 w-5 h-5" />
+              {t('cart.startShopping')}
+              <ArrowRight className="rtl:rotate-180 ms-2 w-5 h-5" />
             </Button>
           </Link>
         </div>
@@ -64,10 +77,11 @@ export const CartPage: React.FC = () => {
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="mb-8">
-        <h1 className="text-3xl font-bold mb-2">Shopping Cart</h1>
+        <h1 className="text-3xl font-bold mb-2">{t('cart.title')}</h1>
         <p className="text-muted-foreground">
-          Review your items and proceed to checkout
+          {t('cart.subtitle')}
         </p>
+        <EmailVerificationBanner className="mt-4" />
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -76,7 +90,7 @@ export const CartPage: React.FC = () => {
           {items.map((item) => (
             <Card key={item.id}>
               <CardContent className="p-6">
-                <div className="flex items-center space-x-4">
+                <div className="flex items-center space-x-4 rtl:space-x-reverse">
                   <input
                     type="checkbox"
                     checked={item.isSelected}
@@ -84,9 +98,9 @@ export const CartPage: React.FC = () => {
                     className="w-4 h-4 text-primary"
                   />
                   
-                  <div className="flex-1 flex items-center space-x-4">
+                  <div className="flex-1 flex items-center space-x-4 rtl:space-x-reverse">
                     <img
-                      src={item.product.images[0]?.imageUrl || '/placeholder-product.jpg'}
+                      src={item.product.mainImage || item.product.images?.[0]?.imageUrl || '/placeholder-product.jpg'}
                       alt={item.product.name}
                       className="w-20 h-20 object-cover rounded-md"
                     />
@@ -94,7 +108,7 @@ export const CartPage: React.FC = () => {
                     <div className="flex-1">
                       <h3 className="font-semibold mb-1">{item.product.name}</h3>
                       <p className="text-sm text-muted-foreground mb-2">
-                        SKU: {item.product.sku}
+                        {t('cart.sku', { sku: item.product.sku })}
                       </p>
                       <p className="font-semibold text-lg">
                         {formatPrice(item.price)}
@@ -102,7 +116,7 @@ export const CartPage: React.FC = () => {
                     </div>
                   </div>
                   
-                  <div className="flex items-center space-x-2">
+                  <div className="flex items-center space-x-2 rtl:space-x-reverse">
                     <Button
                       variant="outline"
                       size="icon"
@@ -130,18 +144,31 @@ export const CartPage: React.FC = () => {
                     </Button>
                   </div>
                   
-                  <div className="text-right">
+                  <div className="text-end">
                     <p className="font-semibold text-lg">
-                      {formatPrice(item.price * item.quantity)}
+                      {formatPrice(item.price, item.quantity)}
                     </p>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => handleRemoveItem(item.id)}
-                      className="text-destructive hover:text-destructive"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
+                    <div className="flex justify-end">
+                      {!isGuestCartItem(item) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleMoveToWishlist(item)}
+                          title={t('cart.moveToWishlist')}
+                        >
+                          <Heart className="w-4 h-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleRemoveItem(item.id)}
+                        className="text-destructive hover:text-destructive"
+                        title={t('cart.remove')}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
                   </div>
                 </div>
               </CardContent>
@@ -153,42 +180,44 @@ export const CartPage: React.FC = () => {
         <div className="lg:col-span-1">
           <Card>
             <CardHeader>
-              <CardTitle>Order Summary</CardTitle>
+              <CardTitle>{t('cart.orderSummary')}</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
               {summary && (
                 <>
                   <div className="space-y-2">
                     <div className="flex justify-between">
-                      <span>Subtotal ({summary.itemCount} items)</span>
+                      <span>{t('cart.subtotal', { count: summary.itemCount })}</span>
                       <span>{formatPrice(summary.subtotal)}</span>
                     </div>
-                    <div className="flex justify-between">
-                      <span>Tax</span>
-                      <span>{formatPrice(summary.tax)}</span>
+                    <div className="flex justify-between text-muted-foreground">
+                      <span>{t('cart.tax')}</span>
+                      <span>{t('cart.calculatedAtCheckout')}</span>
                     </div>
-                    <div className="flex justify-between">
-                      <span>Shipping</span>
-                      <span>{formatPrice(summary.shipping)}</span>
+                    <div className="flex justify-between text-muted-foreground">
+                      <span>{t('cart.shipping')}</span>
+                      <span>{t('cart.calculatedAtCheckout')}</span>
                     </div>
                     {summary.discount > 0 && (
                       <div className="flex justify-between text-green-600">
-                        <span>Discount</span>
+                        <span>{t('cart.discount')}</span>
                         <span>-{formatPrice(summary.discount)}</span>
                       </div>
                     )}
                     <div className="border-t pt-2">
                       <div className="flex justify-between font-semibold text-lg">
-                        <span>Total</span>
+                        <span>{t('cart.estimatedTotal')}</span>
                         <span>{formatPrice(summary.total)}</span>
                       </div>
                     </div>
                   </div>
+
+                  <PromoCodeForm />
                   
                   <Link to="/checkout">
                     <Button className="w-full" size="lg">
-                      Proceed to Checkout
-                      <ArrowRight className="ml-2 w-5 h-5" />
+                      {t('cart.proceedToCheckout')}
+                      <ArrowRight className="rtl:rotate-180 ms-2 w-5 h-5" />
                     </Button>
                   </Link>
                 </>
@@ -196,7 +225,7 @@ export const CartPage: React.FC = () => {
               
               <div className="text-center">
                 <Link to="/products" className="text-primary hover:underline text-sm">
-                  Continue Shopping
+                  {t('cart.continueShopping')}
                 </Link>
               </div>
             </CardContent>
@@ -1,151 +1,558 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { useForm } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
+import { PaymentElement, useStripe, useElements } from '@stripe/react-stripe-js';
+import type { PaymentIntent, StripeError } from '@stripe/stripe-js';
 
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { 
-  CreditCard, 
-  MapPin, 
-  CheckCircle, 
+import { CheckoutProgress, CheckoutStepConfig } from '@/components/checkout/checkout-progress';
+import { AddressStepSubmission, ShippingAddressStep } from '@/components/checkout/shipping-address-step';
+import { ShippingMethodStep } from '@/components/checkout/shipping-method-step';
+import { OrderReviewStep } from '@/components/checkout/order-review-step';
+import { SavedCardPicker } from '@/components/checkout/saved-card-picker';
+import { EmailVerificationBanner } from '@/components/auth/email-verification-banner';
+import { PromoCodeForm } from '@/components/cart/promo-code-form';
+import {
+  CreditCard,
+  MapPin,
+  CheckCircle,
   ArrowLeft,
-  Shield
+  Shield,
+  Truck
 } from 'lucide-react';
 import { useCart } from '@/contexts/cart-context';
 import { useAuth } from '@/contexts/auth-context';
-import { ordersAPI, paymentsAPI } from '@/lib/api';
-import { formatPrice } from '@/lib/utils';
-
-const checkoutSchema = z.object({
-  // Shipping Address
-  firstName: z.string().min(2, 'First name is required'),
-  lastName: z.string().min(2, 'Last name is required'),
-  email: z.string().email('Valid email is required'),
-  phone: z.string().min(10, 'Phone number is required'),
-  address: z.string().min(5, 'Address is required'),
-  city: z.string().min(2, 'City is required'),
-  state: z.string().min(2, 'State is required'),
-  zipCode: z.string().min(5, 'ZIP code is required'),
-  country: z.string().min(2, 'Country is required'),
-  
-  // Payment
-  cardNumber: z.string().min(13, 'Valid card number is required'),
-  cardExpiry: z.string().min(5, 'Expiry date is required'),
-  cardCvc: z.string().min(3, 'CVC is required'),
-  cardName: z.string().min(2, 'Cardholder name is required'),
-});
+import { useCheckoutStore } from '@/store';
+import { addressesAPI, cartAPI, ordersAPI, paymentsAPI } from '@/lib/api';
+import { formatPrice, getErrorMessage, toMinorUnits } from '@/lib/utils';
+import { useCurrency } from '@/hooks/use-currency';
+import { useTranslation } from '@/hooks/use-translation';
+import { MessageKey } from '@/lib/i18n';
+import { Address, CartQuote, CheckoutAddress, CheckoutStep, Order, PendingPayment, SavedAddress, ShippingMethod, StripePaymentMethod } from '@/types';
+
+type CheckoutTotals = Pick<CartQuote['summary'],
+  'itemCount' | 'subtotal' | 'taxAmount' | 'pricesIncludeTax' | 'shippingAmount' | 'discountAmount' | 'total' | 'currency'>;
+
+type StepDefinition = Omit<CheckoutStepConfig, 'title'> & { titleKey: MessageKey };
 
-type CheckoutFormData = z.infer<typeof checkoutSchema>;
+const steps: StepDefinition[] = [
+  { id: 'shipping', titleKey: 'checkout.steps.shipping', icon: MapPin },
+  { id: 'delivery', titleKey: 'checkout.steps.delivery', icon: Truck },
+  { id: 'payment', titleKey: 'checkout.steps.payment', icon: CreditCard },
+  { id: 'review', titleKey: 'checkout.steps.review', icon: CheckCircle },
+];
+
+// All-digital carts are delivered as keys, so there is no shipping method to
+// choose and the address step only collects billing details
+const digitalSteps: StepDefinition[] = [
+  { id: 'shipping', titleKey: 'checkout.steps.billing', icon: MapPin },
+  { id: 'payment', titleKey: 'checkout.steps.payment', icon: CreditCard },
+  { id: 'review', titleKey: 'checkout.steps.review', icon: CheckCircle },
+];
+
+// Stripe's own messages follow the Elements locale, so those are shown as given
+const getPaymentErrorMessage = (error: StripeError, t: (key: MessageKey) => string): string => {
+  // Card and validation errors carry messages that are safe to show the shopper
+  if (error.type === 'card_error' || error.type === 'validation_error') {
+    return error.message || t('checkout.errors.paymentDetails');
+  }
+  return t('checkout.errors.paymentUnexpected');
+};
+
+const pickAddress = ({ street, city, state, zipCode, country }: Address): Address => ({
+  street,
+  city,
+  state,
+  zipCode,
+  country,
+});
 
 export const CheckoutPage: React.FC = () => {
   const navigate = useNavigate();
-  const { items, summary, clearCart } = useCart();
+  const { step } = useParams<{ step?: string }>();
+  const stripe = useStripe();
+  const elements = useElements();
+  const { items, summary, promotion, loadCart } = useCart();
   const { user } = useAuth();
-  
+  const { currency, currencyCode, formatPrice: formatCatalogPrice } = useCurrency();
+  const { t, locale } = useTranslation();
+  const {
+    shippingAddress,
+    billingAddress,
+    shippingMethodId,
+    paymentMethodId,
+    notes,
+    completedSteps,
+    pendingPayment,
+    setShippingAddress,
+    setBillingAddress,
+    setShippingMethod,
+    setPaymentMethod,
+    setNotes,
+    completeStep,
+    setPendingPayment,
+  } = useCheckoutStore();
+
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [currentStep] = useState(1);
+  const [shippingMethods, setShippingMethods] = useState<ShippingMethod[]>([]);
+  const [isLoadingMethods, setIsLoadingMethods] = useState(false);
+  const [quote, setQuote] = useState<CartQuote['summary'] | null>(null);
+  const [savedAddresses, setSavedAddresses] = useState<SavedAddress[]>([]);
+  const [isLoadingAddresses, setIsLoadingAddresses] = useState(true);
+  const [isSavingAddress, setIsSavingAddress] = useState(false);
+  const [savedCards, setSavedCards] = useState<StripePaymentMethod[]>([]);
+  const [isLoadingCards, setIsLoadingCards] = useState(true);
+  const [pendingOrder, setPendingOrder] = useState<Order | null>(null);
 
-  const {
-    register,
-    handleSubmit,
-    formState: { errors },
-    setValue,
-  } = useForm<CheckoutFormData>({
-    resolver: zodResolver(checkoutSchema),
-  });
+  // Placing the order empties the cart, so while its payment is retried the
+  // wizard and totals come from the order itself
+  const placedOrder = pendingOrder?.id === pendingPayment?.orderId ? pendingOrder : null;
+  const requiresShipping = placedOrder
+    ? placedOrder.items.some(item => item.productSnapshot.isPhysical !== false)
+    : items.some(item => item.product.isPhysical);
+  const checkoutSteps: CheckoutStepConfig[] = (requiresShipping ? steps : digitalSteps)
+    .map(({ titleKey, ...stepConfig }) => ({ ...stepConfig, title: t(titleKey) }));
+  const stepIndex = checkoutSteps.findIndex(s => s.id === step);
+  // Steps can only be reached once every step before them has been completed
+  const firstIncompleteIndex = checkoutSteps.findIndex(s => !completedSteps.includes(s.id));
+  const furthestIndex = firstIncompleteIndex === -1 ? checkoutSteps.length - 1 : firstIncompleteIndex;
+  const currentStep = checkoutSteps[stepIndex]?.id;
+  const selectedMethod = shippingMethods.find(method => method.id === shippingMethodId);
+  const selectedCard = savedCards.find(card => card.id === paymentMethodId && !card.isExpired);
+
+  // The server quotes the totals in the shopper's currency exactly as the order will be placed
+  const totals: CheckoutTotals | null = placedOrder
+    ? {
+      itemCount: placedOrder.items.reduce((count, item) => count + item.quantity, 0),
+      subtotal: Number(placedOrder.subtotal),
+      taxAmount: Number(placedOrder.taxAmount),
+      pricesIncludeTax: !!placedOrder.pricesIncludeTax,
+      shippingAmount: Number(placedOrder.shippingAmount),
+      discountAmount: Number(placedOrder.discountAmount),
+      total: Number(placedOrder.total),
+      currency: placedOrder.currency,
+    }
+    : quote && summary && { ...quote, itemCount: summary.itemCount };
+  const orderTotal = totals ? totals.total : 0;
+  const promotionCode = placedOrder ? placedOrder.promotionCode : promotion?.code;
 
   useEffect(() => {
-    if (items.length === 0) {
+    // A placed order empties the server cart, but its payment can still be retried
+    if (items.length === 0 && !pendingPayment) {
       navigate('/cart');
+    }
+  }, [items, pendingPayment, navigate]);
+
+  useEffect(() => {
+    if (!pendingPayment) {
+      setPendingOrder(null);
       return;
     }
 
-    // Pre-fill form with user data if available
-    if (user) {
-      setValue('firstName', user.firstName || '');
-      setValue('lastName', user.lastName || '');
-      setValue('email', user.email || '');
-      setValue('phone', user.phone || '');
-      
-      if (user.shippingAddress) {
-        setValue('address', user.shippingAddress.street || '');
-        setValue('city', user.shippingAddress.city || '');
-        setValue('state', user.shippingAddress.state || '');
-        setValue('zipCode', user.shippingAddress.zipCode || '');
-        setValue('country', user.shippingAddress.country || '');
+    const loadPendingOrder = async () => {
+      try {
+        const response = await ordersAPI.getOrderById(pendingPayment.orderId);
+        if (response.success && response.data) {
+          setPendingOrder(response.data.order);
+        }
+      } catch (err) {
+        // Without the order there is nothing left to pay for, so start over from the cart
+        console.error('Failed to load pending order:', err);
+        setPendingPayment(null);
+      }
+    };
+
+    loadPendingOrder();
+  }, [pendingPayment?.orderId]);
+
+  useEffect(() => {
+    const loadAddresses = async () => {
+      try {
+        const response = await addressesAPI.getAddresses();
+        if (response.success && response.data) {
+          setSavedAddresses(response.data.addresses);
+        }
+      } catch (err) {
+        // Shoppers can still type an address in without their address book
+        console.error('Failed to load addresses:', err);
+      } finally {
+        setIsLoadingAddresses(false);
       }
+    };
+
+    loadAddresses();
+  }, []);
+
+  useEffect(() => {
+    const loadSavedCards = async () => {
+      try {
+        const response = await paymentsAPI.getPaymentMethods();
+        if (response.success && response.data) {
+          setSavedCards(response.data.paymentMethods);
+        }
+      } catch (err) {
+        // New card details can still be entered without saved cards
+        console.error('Failed to load payment methods:', err);
+      } finally {
+        setIsLoadingCards(false);
+      }
+    };
+
+    loadSavedCards();
+  }, []);
+
+  // Offer the default card first, unless the shopper already chose how to pay
+  useEffect(() => {
+    if (paymentMethodId || completedSteps.includes('payment')) return;
+    const defaultCard = savedCards.find(card => card.isDefault && !card.isExpired);
+    if (defaultCard) {
+      setPaymentMethod(defaultCard.id);
     }
-  }, [user, items, navigate, setValue]);
+  }, [savedCards]);
+
+  // Shipping rates and tax depend on where the order is going and what is in it
+  const shippingCountry = shippingAddress?.country;
+  const shippingState = shippingAddress?.state;
+  const shippingZipCode = shippingAddress?.zipCode;
+  useEffect(() => {
+    if (!requiresShipping || !shippingCountry) {
+      setShippingMethods([]);
+      return;
+    }
+
+    const loadShippingMethods = async () => {
+      try {
+        setIsLoadingMethods(true);
+        const response = await ordersAPI.getShippingMethods({
+          country: shippingCountry,
+          state: shippingState,
+        });
+        if (response.success && response.data) {
+          setShippingMethods(response.data.shippingMethods);
+        }
+      } catch (err) {
+        console.error('Failed to load shipping methods:', err);
+        setError(t('checkout.errors.loadShippingMethods'));
+      } finally {
+        setIsLoadingMethods(false);
+      }
+    };
+
+    loadShippingMethods();
+  }, [items, requiresShipping, shippingCountry, shippingState]);
+
+  // The cart summary leaves tax and free shipping to checkout, so quote them
+  // from the server for the chosen shipping method and promo code
+  useEffect(() => {
+    const loadQuote = async () => {
+      try {
+        const response = await cartAPI.getCartSummary({
+          promoCode: promotion?.code,
+          shippingMethod: (requiresShipping && shippingMethodId) || undefined,
+          country: shippingCountry,
+          state: shippingState,
+          zipCode: shippingZipCode,
+          currency: currencyCode,
+        });
+        if (response.success && response.data) {
+          setQuote(response.data.summary);
+        }
+      } catch (err) {
+        console.error('Failed to load cart summary:', err);
+      }
+    };
+
+    loadQuote();
+  }, [items, promotion?.code, shippingMethodId, requiresShipping, shippingCountry, shippingState, shippingZipCode, currencyCode]);
+
+  useEffect(() => {
+    setError(null);
+  }, [step]);
+
+  // Keep the Payment Element's amount and currency in sync with the order total
+  useEffect(() => {
+    if (elements && currency && totals?.currency === currency.code && orderTotal > 0) {
+      elements.update({
+        amount: toMinorUnits(orderTotal, currency),
+        currency: currency.code.toLowerCase(),
+      });
+    }
+  }, [elements, currency, totals?.currency, orderTotal]);
+
+  // Card fields and Stripe's error messages follow the shopper's language
+  useEffect(() => {
+    elements?.update({ locale });
+  }, [elements, locale]);
+
+  const goToStep = (target: CheckoutStep) => {
+    navigate(`/checkout/${target}`);
+  };
+
+  // An order placed on an earlier attempt holds the stock and promo code, so
+  // before anything it was priced on changes it goes back into the cart
+  const releasePendingPayment = async () => {
+    if (!pendingPayment) return;
+    await ordersAPI.reopenOrder(pendingPayment.orderId);
+    await loadCart();
+    setPendingPayment(null);
+  };
+
+  // Orders are charged in the currency they were placed in, so switching
+  // currency hands the pending order back to the cart to be placed again
+  useEffect(() => {
+    if (pendingPayment && pendingPayment.currency !== currencyCode) {
+      releasePendingPayment().catch((err: any) => {
+        setError(getErrorMessage(err, t('checkout.errors.checkoutFailed')));
+      });
+    }
+  }, [currencyCode]);
+
+  // The server puts postal codes in their country's format, or rejects them,
+  // before the address is used for rates and tax
+  const handleAddressSubmit = async ({ address, billingAddress: billing, saveAddress }: AddressStepSubmission) => {
+    const { firstName, lastName, email, phone } = address;
 
-  const onSubmit = async (data: CheckoutFormData) => {
     try {
-      setIsLoading(true);
+      setIsSavingAddress(true);
       setError(null);
 
-      // Create order
-      const orderData = {
-        items: items.map(item => item.id), // Pass cart item IDs
-        shippingAddress: {
-          street: data.address,
-          city: data.city,
-          state: data.state,
-          zipCode: data.zipCode,
-          country: data.country,
-        },
-        billingAddress: {
-          street: data.address,
-          city: data.city,
-          state: data.state,
-          zipCode: data.zipCode,
-          country: data.country,
-        },
-        customerEmail: data.email,
-        customerPhone: data.phone,
-        notes: `Payment method: ${data.cardName}`
-      };
-
-      const orderResponse = await ordersAPI.createOrder(orderData);
-      
-      if (orderResponse.success && orderResponse.data) {
-        // Process payment
-        const paymentResponse = await paymentsAPI.createPaymentIntent({
-          orderId: orderResponse.data.id,
-          amount: summary?.total || 0,
+      let normalized: Address | undefined;
+      if (saveAddress) {
+        const response = await addressesAPI.createAddress({
+          ...pickAddress(address),
+          label: address.city,
+          firstName,
+          lastName,
+          phone,
         });
-
-        if (paymentResponse.success) {
-          // Clear cart and redirect to success
-          await clearCart();
-          navigate('/checkout/success', { 
-            state: { orderId: orderResponse.data.id }
-          });
-        } else {
-          setError('Payment processing failed. Please try again.');
+        const saved = response.data?.address;
+        if (saved) {
+          setSavedAddresses(current => [...current, saved]);
+          normalized = pickAddress(saved);
         }
       } else {
-        setError('Failed to create order. Please try again.');
+        const response = await addressesAPI.validateAddress(pickAddress(address));
+        normalized = response.data?.address;
+      }
+
+      const normalizedBilling = billing
+        ? (await addressesAPI.validateAddress(pickAddress(billing))).data?.address
+        : null;
+
+      if (!normalized || normalizedBilling === undefined) {
+        throw new Error(t('checkout.errors.addressInvalid'));
+      }
+
+      const nextAddress = { firstName, lastName, email, phone, ...pickAddress(normalized) };
+      const nextBilling = normalizedBilling && pickAddress(normalizedBilling);
+      if (JSON.stringify(nextAddress) !== JSON.stringify(shippingAddress)
+        || JSON.stringify(nextBilling) !== JSON.stringify(billingAddress)) {
+        await releasePendingPayment();
+      }
+
+      setShippingAddress(nextAddress);
+      setBillingAddress(nextBilling);
+      completeStep('shipping');
+      goToStep(requiresShipping ? 'delivery' : 'payment');
+    } catch (err: any) {
+      setError(getErrorMessage(err, t('checkout.errors.addressInvalid')));
+    } finally {
+      setIsSavingAddress(false);
+    }
+  };
+
+  const handleMethodSubmit = async (methodId: string) => {
+    try {
+      setError(null);
+      if (methodId !== shippingMethodId) {
+        await releasePendingPayment();
+      }
+      setShippingMethod(methodId);
+      completeStep('delivery');
+      goToStep('payment');
+    } catch (err: any) {
+      setError(getErrorMessage(err, t('checkout.errors.checkoutFailed')));
+    }
+  };
+
+  const handlePaymentSubmit = async () => {
+    if (selectedCard) {
+      completeStep('payment');
+      goToStep('review');
+      return;
+    }
+
+    if (!elements) {
+      setError(t('checkout.errors.paymentLoading'));
+      return;
+    }
+
+    // Validates the Payment Element without charging anything yet
+    const { error: submitError } = await elements.submit();
+    if (submitError) {
+      setError(getPaymentErrorMessage(submitError, t));
+      return;
+    }
+
+    completeStep('payment');
+    goToStep('review');
+  };
+
+  const createPendingPayment = async (address: CheckoutAddress, orderNotes: string): Promise<PendingPayment> => {
+    const { firstName, lastName, email, phone, ...orderAddress } = address;
+
+    const orderResponse = await ordersAPI.createOrder({
+      items: items.map(item => item.id), // Pass cart item IDs
+      shippingAddress: requiresShipping ? orderAddress : null,
+      billingAddress: (requiresShipping && billingAddress) || orderAddress,
+      paymentMethod: 'stripe',
+      shippingMethod: (requiresShipping && shippingMethodId) || undefined,
+      promotionCode: promotion?.code,
+      currency: currencyCode,
+      notes: orderNotes || undefined,
+      customerEmail: email,
+      customerPhone: phone,
+    });
+
+    if (!orderResponse.success || !orderResponse.data) {
+      throw new Error(t('checkout.errors.createOrder'));
+    }
+
+    const { order } = orderResponse.data;
+    const intentResponse = await paymentsAPI.createPaymentIntent({
+      orderId: order.id,
+      amount: Number(order.total),
+      currency: order.currency,
+    });
+
+    if (!intentResponse.success || !intentResponse.data) {
+      throw new Error(t('checkout.errors.paymentFailed'));
+    }
+
+    return { orderId: order.id, currency: order.currency, ...intentResponse.data };
+  };
+
+  // Confirming already took the shopper through 3D Secure when their bank asked for it
+  const completePayment = async (payment: PendingPayment, intent: PaymentIntent) => {
+    switch (intent.status) {
+      case 'succeeded':
+        await paymentsAPI.confirmPayment({
+          paymentIntentId: intent.id,
+          orderId: payment.orderId,
+        });
+        navigate(`/checkout/success?orderId=${payment.orderId}`);
+        break;
+      case 'processing':
+        // The success page waits for the webhook to mark the order as paid
+        navigate(`/checkout/success?orderId=${payment.orderId}`);
+        break;
+      case 'requires_payment_method':
+        setError(intent.last_payment_error?.message || t('checkout.errors.declined'));
+        break;
+      default:
+        setError(t('checkout.errors.incomplete'));
+    }
+  };
+
+  const handlePlaceOrder = async (orderNotes: string) => {
+    if (!stripe || !elements || !shippingAddress) {
+      setError(t('checkout.errors.paymentLoading'));
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setNotes(orderNotes);
+
+      // Stripe requires the Payment Element to be re-submitted right before confirming
+      if (!selectedCard) {
+        const { error: submitError } = await elements.submit();
+        if (submitError) {
+          setError(getPaymentErrorMessage(submitError, t));
+          return;
+        }
+      }
+
+      // Switching currency means a new order in the new currency
+      let payment = pendingPayment;
+      if (payment && payment.currency !== currencyCode) {
+        await releasePendingPayment();
+        payment = null;
+      }
+      if (!payment) {
+        payment = await createPendingPayment(shippingAddress, orderNotes);
+        setPendingPayment(payment);
+      }
+
+      // A saved card is charged as is; Stripe asks for 3D Secure if the bank needs it
+      const { error: confirmError, paymentIntent } = selectedCard
+        ? await stripe.confirmCardPayment(payment.clientSecret, {
+          payment_method: selectedCard.id,
+          receipt_email: shippingAddress.email,
+        })
+        : await stripe.confirmPayment({
+          elements,
+          clientSecret: payment.clientSecret,
+          confirmParams: {
+            return_url: `${window.location.origin}/checkout/success?orderId=${payment.orderId}`,
+            receipt_email: shippingAddress.email,
+            payment_method_data: {
+              billing_details: {
+                name: `${shippingAddress.firstName} ${shippingAddress.lastName}`,
+                email: shippingAddress.email,
+                phone: shippingAddress.phone,
+              },
+            },
+          },
+          redirect: 'if_required',
+        });
+
+      if (confirmError) {
+        setError(getPaymentErrorMessage(confirmError, t));
+        return;
+      }
+
+      if (paymentIntent) {
+        await completePayment(payment, paymentIntent);
       }
     } catch (err: any) {
-      setError(err.message || 'Checkout failed. Please try again.');
+      setError(getErrorMessage(err, t('checkout.errors.checkoutFailed')));
     } finally {
       setIsLoading(false);
     }
   };
 
-  const steps = [
-    { id: 1, title: 'Shipping Address', icon: MapPin },
-    { id: 2, title: 'Payment Method', icon: CreditCard },
-    { id: 3, title: 'Order Review', icon: CheckCircle },
-  ];
+  // The steps depend on what was ordered, which is only known once the order loads
+  if (pendingPayment && !placedOrder) {
+    return null;
+  }
+
+  // Unknown steps and steps the shopper has not reached yet fall back to the
+  // furthest step they are allowed to be on
+  if (stepIndex === -1 || stepIndex > furthestIndex) {
+    return <Navigate to={`/checkout/${checkoutSteps[furthestIndex].id}`} replace />;
+  }
 
-  if (items.length === 0) {
+  if (items.length === 0 && !pendingPayment) {
     return null; // Will redirect to cart
   }
 
+  // Start from the default address in the shopper's address book
+  const defaultAddress = savedAddresses.find(address => address.isDefault);
+  const addressDefaults: Partial<CheckoutAddress> = shippingAddress || {
+    firstName: defaultAddress?.firstName || user?.firstName || '',
+    lastName: defaultAddress?.lastName || user?.lastName || '',
+    email: user?.email || '',
+    phone: defaultAddress?.phone || user?.phone || '',
+    street: defaultAddress?.street || '',
+    city: defaultAddress?.city || '',
+    state: defaultAddress?.state || '',
+    zipCode: defaultAddress?.zipCode || '',
+    country: defaultAddress?.country || '',
+  };
+
   return (
     <div className="min-h-screen bg-muted/50 py-8">
       <div className="container mx-auto px-4">
@@ -156,47 +563,21 @@ export const CheckoutPage: React.FC = () => {
             onClick={() => navigate('/cart')}
             className="mb-4"
           >
-            <ArrowLeft className="w-4 h-4 mr-2" />
-            Back to Cart
+            <ArrowLeft className="rtl:rotate-180 w-4 h-4 me-2" />
+            {t('checkout.backToCart')}
           </Button>
-          <h1 className="text-3xl font-bold">Checkout</h1>
+          <h1 className="text-3xl font-bold">{t('checkout.title')}</h1>
+          <EmailVerificationBanner className="mt-4" />
         </div>
 
         {/* Progress Steps */}
         <div className="mb-8">
-          <div className="flex items-center justify-center space-x-8">
-            {steps.map((step, index) => {
-              const Icon = step.icon;
-              const isActive = currentStep === step.id;
-              const isCompleted = currentStep > step.id;
-              
-              return (
-                <div key={step.id} className="flex items-center">
-                  <div className={`flex items-center justify-center w-10 h-10 rounded-full border-2 ${
-                    isActive ? 'border-primary bg-primary text-primary-foreground' :
-                    isCompleted ? 'border-primary bg-primary text-primary-foreground' :
-                    'border-muted-foreground text-muted-foreground'
-                  }`}>
-                    {isCompleted ? (
-                      <CheckCircle className="w-5 h-5" />
-                    ) : (
-                      <Icon className="w-5 h-5" />
-                    )}
-                  </div>
-                  <span className={`ml-2 text-sm font-medium ${
-                    isActive ? 'text-primary' : 'text-muted-foreground'
-                  }`}>
-                    {step.title}
-                  </span>
-                  {index < steps.length - 1 && (
-                    <div className={`w-16 h-0.5 mx-4 ${
-                      isCompleted ? 'bg-primary' : 'bg-muted-foreground'
-                    }`} />
-                  )}
-                </div>
-              );
-            })}
-          </div>
+          <CheckoutProgress
+            steps={checkoutSteps}
+            currentStep={checkoutSteps[stepIndex].id}
+            completedSteps={completedSteps}
+            onStepClick={goToStep}
+          />
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -204,7 +585,7 @@ export const CheckoutPage: React.FC = () => {
           <div className="lg:col-span-2">
             <Card>
               <CardHeader>
-                <CardTitle>Order Information</CardTitle>
+                <CardTitle>{checkoutSteps[stepIndex].title}</CardTitle>
               </CardHeader>
               <CardContent>
                 {error && (
@@ -213,185 +594,78 @@ export const CheckoutPage: React.FC = () => {
                   </div>
                 )}
 
-                <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
-                  {/* Shipping Address */}
-                  <div className="space-y-4">
-                    <h3 className="text-lg font-semibold flex items-center">
-                      <MapPin className="w-5 h-5 mr-2" />
-                      Shipping Address
-                    </h3>
-                    
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <div className="space-y-2">
-                        <label className="text-sm font-medium">First Name *</label>
-                        <Input
-                          placeholder="Enter first name"
-                          {...register('firstName')}
-                        />
-                        {errors.firstName && (
-                          <p className="text-destructive text-sm">{errors.firstName.message}</p>
-                        )}
-                      </div>
-                      
-                      <div className="space-y-2">
-                        <label className="text-sm font-medium">Last Name *</label>
-                        <Input
-                          placeholder="Enter last name"
-                          {...register('lastName')}
-                        />
-                        {errors.lastName && (
-                          <p className="text-destructive text-sm">{errors.lastName.message}</p>
-                        )}
-                      </div>
-                    </div>
-
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <div className="space-y-2">
-                        <label className="text-sm font-medium">Email *</label>
-                        <Input
-                          type="email"
-                          placeholder="Enter email"
-                          {...register('email')}
-                        />
-                        {errors.email && (
-                          <p className="text-destructive text-sm">{errors.email.message}</p>
-                        )}
-                      </div>
-                      
-                      <div className="space-y-2">
-                        <label className="text-sm font-medium">Phone *</label>
-                        <Input
-                          type="tel"
-                          placeholder="Enter phone number"
-                          {...register('phone')}
-                        />
-                        {errors.phone && (
-                          <p className="text-destructive text-sm">{errors.phone.message}</p>
-                        )}
-                      </div>
-                    </div>
+                {currentStep === 'shipping' && (isLoadingAddresses ? (
+                  <p className="text-sm text-muted-foreground">{t('common.loading')}</p>
+                ) : (
+                  <ShippingAddressStep
+                    defaultValues={addressDefaults}
+                    defaultBillingAddress={billingAddress}
+                    savedAddresses={savedAddresses}
+                    requiresShipping={requiresShipping}
+                    isSubmitting={isSavingAddress}
+                    onBack={() => navigate('/cart')}
+                    onSubmit={handleAddressSubmit}
+                  />
+                ))}
 
-                    <div className="space-y-2">
-                      <label className="text-sm font-medium">Address *</label>
-                      <Input
-                        placeholder="Enter street address"
-                        {...register('address')}
-                      />
-                      {errors.address && (
-                        <p className="text-destructive text-sm">{errors.address.message}</p>
-                      )}
-                    </div>
+                {currentStep === 'delivery' && (
+                  <ShippingMethodStep
+                    methods={shippingMethods}
+                    isLoading={isLoadingMethods}
+                    // A new address can drop the method chosen for the old one
+                    defaultMethodId={selectedMethod?.id ?? null}
+                    onBack={() => goToStep('shipping')}
+                    onSubmit={handleMethodSubmit}
+                  />
+                )}
 
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                      <div className="space-y-2">
-                        <label className="text-sm font-medium">City *</label>
-                        <Input
-                          placeholder="Enter city"
-                          {...register('city')}
-                        />
-                        {errors.city && (
-                          <p className="text-destructive text-sm">{errors.city.message}</p>
-                        )}
-                      </div>
-                      
-                      <div className="space-y-2">
-                        <label className="text-sm font-medium">State *</label>
-                        <Input
-                          placeholder="Enter state"
-                          {...register('state')}
-                        />
-                        {errors.state && (
-                          <p className="text-destructive text-sm">{errors.state.message}</p>
-                        )}
-                      </div>
-                      
-                      <div className="space-y-2">
-                        <label className="text-sm font-medium">ZIP Code *</label>
-                        <Input
-                          placeholder="Enter ZIP code"
-                          {...register('zipCode')}
-                        />
-                        {errors.zipCode && (
-                          <p className="text-destructive text-sm">{errors.zipCode.message}</p>
-                        )}
-                      </div>
-                    </div>
+                {/* Stays mounted on every step so the card details entered here
+                    are still available when the order is placed from review */}
+                <div className={currentStep === 'payment' ? 'space-y-6' : 'hidden'}>
+                  {savedCards.length > 0 && (
+                    <SavedCardPicker
+                      paymentMethods={savedCards}
+                      selectedId={selectedCard?.id ?? null}
+                      onSelect={setPaymentMethod}
+                    />
+                  )}
 
-                    <div className="space-y-2">
-                      <label className="text-sm font-medium">Country *</label>
-                      <Input
-                        placeholder="Enter country"
-                        {...register('country')}
-                      />
-                      {errors.country && (
-                        <p className="text-destructive text-sm">{errors.country.message}</p>
-                      )}
-                    </div>
+                  {/* Card details are collected by Stripe and never reach our form state */}
+                  <div className={selectedCard ? 'hidden' : undefined}>
+                    <PaymentElement options={{ layout: 'tabs' }} />
                   </div>
 
-                  {/* Payment Method */}
-                  <div className="space-y-4">
-                    <h3 className="text-lg font-semibold flex items-center">
-                      <CreditCard className="w-5 h-5 mr-2" />
-                      Payment Method
-                    </h3>
-                    
-                    <div className="space-y-2">
-                      <label className="text-sm font-medium">Card Number *</label>
-                      <Input
-                        placeholder="1234 5678 9012 3456"
-                        {...register('cardNumber')}
-                      />
-                      {errors.cardNumber && (
-                        <p className="text-destructive text-sm">{errors.cardNumber.message}</p>
-                      )}
-                    </div>
-
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                      <div className="space-y-2">
-                        <label className="text-sm font-medium">Cardholder Name *</label>
-                        <Input
-                          placeholder="Enter cardholder name"
-                          {...register('cardName')}
-                        />
-                        {errors.cardName && (
-                          <p className="text-destructive text-sm">{errors.cardName.message}</p>
-                        )}
-                      </div>
-                      
-                      <div className="space-y-2">
-                        <label className="text-sm font-medium">Expiry Date *</label>
-                        <Input
-                          placeholder="MM/YY"
-                          {...register('cardExpiry')}
-                        />
-                        {errors.cardExpiry && (
-                          <p className="text-destructive text-sm">{errors.cardExpiry.message}</p>
-                        )}
-                      </div>
-                      
-                      <div className="space-y-2">
-                        <label className="text-sm font-medium">CVC *</label>
-                        <Input
-                          placeholder="123"
-                          {...register('cardCvc')}
-                        />
-                        {errors.cardCvc && (
-                          <p className="text-destructive text-sm">{errors.cardCvc.message}</p>
-                        )}
-                      </div>
-                    </div>
+                  <div className="flex justify-between">
+                    <Button type="button" variant="outline" onClick={() => goToStep(checkoutSteps[stepIndex - 1].id)}>
+                      <ArrowLeft className="rtl:rotate-180 w-4 h-4 me-2" />
+                      {t('common.back')}
+                    </Button>
+                    <Button
+                      type="button"
+                      onClick={handlePaymentSubmit}
+                      disabled={!stripe || !elements}
+                    >
+                      {t('checkout.continueToReview')}
+                    </Button>
                   </div>
+                </div>
 
-                  <Button
-                    type="submit"
-                    className="w-full"
-                    size="lg"
-                    disabled={isLoading}
-                  >
-                    {isLoading ? 'Processing...' : 'Place Order'}
-                  </Button>
-                </form>
+                {currentStep === 'review' && shippingAddress && (
+                  <OrderReviewStep
+                    shippingAddress={shippingAddress}
+                    billingAddress={requiresShipping ? billingAddress : null}
+                    shippingMethod={selectedMethod}
+                    paymentMethod={selectedCard}
+                    requiresShipping={requiresShipping}
+                    notes={notes}
+                    // A saved card chosen before a refresh is only known once the cards load
+                    isSubmitting={isLoading || !stripe || !elements || (!!paymentMethodId && isLoadingCards)}
+                    isRetry={!!pendingPayment}
+                    onEdit={goToStep}
+                    onBack={() => goToStep('payment')}
+                    onSubmit={handlePlaceOrder}
+                  />
+                )}
               </CardContent>
             </Card>
           </div>
@@ -400,13 +674,30 @@ export const CheckoutPage: React.FC = () => {
           <div className="lg:col-span-1">
             <Card>
               <CardHeader>
-                <CardTitle>Order Summary</CardTitle>
+                <CardTitle>{t('checkout.orderSummary')}</CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
                 {/* Order Items */}
                 <div className="space-y-3">
-                  {items.map((item) => (
-                    <div key={item.id} className="flex items-center space-x-3">
+                  {placedOrder ? placedOrder.items.map((item) => (
+                    <div key={item.id} className="flex items-center space-x-3 rtl:space-x-reverse">
+                      <img
+                        src={item.productSnapshot.mainImage || '/placeholder-product.jpg'}
+                        alt={item.productSnapshot.name}
+                        className="w-12 h-12 object-cover rounded"
+                      />
+                      <div className="flex-1">
+                        <h4 className="font-medium text-sm">{item.productSnapshot.name}</h4>
+                        <p className="text-sm text-muted-foreground">
+                          {t('checkout.quantity', { count: item.quantity })}
+                        </p>
+                      </div>
+                      <span className="font-medium">
+                        {formatPrice(Number(item.totalPrice), placedOrder.currency)}
+                      </span>
+                    </div>
+                  )) : items.map((item) => (
+                    <div key={item.id} className="flex items-center space-x-3 rtl:space-x-reverse">
                       <img
                         src={item.product.images[0]?.imageUrl || '/placeholder-product.jpg'}
                         alt={item.product.name}
@@ -415,54 +706,64 @@ export const CheckoutPage: React.FC = () => {
                       <div className="flex-1">
                         <h4 className="font-medium text-sm">{item.product.name}</h4>
                         <p className="text-sm text-muted-foreground">
-                          Qty: {item.quantity}
+                          {t('checkout.quantity', { count: item.quantity })}
                         </p>
                       </div>
                       <span className="font-medium">
-                        {formatPrice(item.price * item.quantity)}
+                        {formatCatalogPrice(item.price, item.quantity)}
                       </span>
                     </div>
                   ))}
                 </div>
 
                 {/* Order Totals */}
-                {summary && (
+                {totals && (
                   <div className="border-t pt-4 space-y-2">
                     <div className="flex justify-between">
-                      <span>Subtotal ({summary.itemCount} items)</span>
-                      <span>{formatPrice(summary.subtotal)}</span>
+                      <span>{t('checkout.subtotal', { count: totals.itemCount })}</span>
+                      <span>{formatPrice(totals.subtotal, totals.currency)}</span>
                     </div>
                     <div className="flex justify-between">
-                      <span>Tax</span>
-                      <span>{formatPrice(summary.tax)}</span>
+                      <span>{totals.pricesIncludeTax ? t('checkout.taxIncluded') : t('checkout.tax')}</span>
+                      <span>{shippingAddress ? formatPrice(totals.taxAmount, totals.currency) : t('checkout.taxFromAddress')}</span>
                     </div>
                     <div className="flex justify-between">
-                      <span>Shipping</span>
-                      <span>{formatPrice(summary.shipping)}</span>
+                      <span>{t('checkout.shipping')}</span>
+                      <span>
+                        {!requiresShipping
+                          ? t('checkout.digitalDelivery')
+                          : selectedMethod || placedOrder ? formatPrice(totals.shippingAmount, totals.currency) : t('checkout.shippingNextStep')}
+                      </span>
                     </div>
-                    {summary.discount > 0 && (
+                    {totals.discountAmount > 0 && (
                       <div className="flex justify-between text-green-600">
-                        <span>Discount</span>
-                        <span>-{formatPrice(summary.discount)}</span>
+                        <span>{promotionCode ? t('checkout.discountWithCode', { code: promotionCode }) : t('checkout.discount')}</span>
+                        <span>-{formatPrice(totals.discountAmount, totals.currency)}</span>
                       </div>
                     )}
                     <div className="border-t pt-2">
                       <div className="flex justify-between font-semibold text-lg">
-                        <span>Total</span>
-                        <span>{formatPrice(summary.total)}</span>
+                        <span>{t('checkout.total')}</span>
+                        <span>{formatPrice(orderTotal, totals.currency)}</span>
                       </div>
+                      <p className="text-xs text-muted-foreground text-end">
+                        {t('checkout.chargedIn', { currency: totals.currency })}
+                      </p>
                     </div>
                   </div>
                 )}
 
+                {/* A new code changes the total, so any order awaiting payment is replaced */}
+                <PromoCodeForm beforeChange={releasePendingPayment} />
+
                 {/* Security Notice */}
                 <div className="bg-muted/50 p-4 rounded-lg">
-                  <div className="flex items-center space-x-2 mb-2">
+                  <div className="flex items-center space-x-2 rtl:space-x-reverse mb-2">
                     <Shield className="w-4 h-4 text-green-600" />
-                    <span className="text-sm font-medium">Secure Checkout</span>
+                    <span className="text-sm font-medium">{t('checkout.secureTitle')}</span>
                   </div>
                   <p className="text-xs text-muted-foreground">
-                    Your payment information is encrypted and secure. We never store your card details.
+                    {t('checkout.secureText')}
                   </p>
                 </div>
               </CardContent>
@@ -472,4 +773,4 @@ export const CheckoutPage: React.FC = () => {
       </div>
     </div>
   );
-}; 
\ No newline at end of file
+};
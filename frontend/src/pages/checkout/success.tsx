@@ -1,13 +1,157 @@
-import React from 'react';
-import { useLocation, Link } from 'react-router-dom';
+import React, { useEffect, useState } from 'react';
+import { useLocation, useSearchParams, Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { CheckCircle, Package, Mail, Home, ShoppingBag } from 'lucide-react';
+import { CheckCircle, Package, Mail, Home, ShoppingBag, XCircle, Clock } from 'lucide-react';
+import { DigitalKeysCard } from '@/components/orders/digital-keys-card';
+import { ordersAPI, paymentsAPI } from '@/lib/api';
+import { useCart } from '@/contexts/cart-context';
+import { useCheckoutStore } from '@/store';
+import { Order } from '@/types';
+import { sleep } from '@/lib/utils';
+import { useTranslation } from '@/hooks/use-translation';
+
+const MAX_STATUS_CHECKS = 10;
+const STATUS_CHECK_INTERVAL = 2000;
+
+type VerificationState = 'verifying' | 'paid' | 'failed' | 'pending';
 
 export const CheckoutSuccessPage: React.FC = () => {
   const location = useLocation();
-  const orderId = location.state?.orderId;
+  const [searchParams] = useSearchParams();
+  const { loadCart } = useCart();
+  const { t } = useTranslation();
+  const resetCheckout = useCheckoutStore(state => state.resetCheckout);
+
+  const orderId = searchParams.get('orderId') || location.state?.orderId;
+  // Present when Stripe redirected back after a redirect-based payment method
+  const paymentIntentId = searchParams.get('payment_intent');
+  const redirectStatus = searchParams.get('redirect_status');
+
+  const [order, setOrder] = useState<Order | null>(null);
+  const [verification, setVerification] = useState<VerificationState>('verifying');
+
+  useEffect(() => {
+    if (!orderId) {
+      setVerification('failed');
+      return;
+    }
+
+    let cancelled = false;
+
+    const verifyPayment = async () => {
+      if (redirectStatus === 'failed') {
+        setVerification('failed');
+        return;
+      }
+
+      if (paymentIntentId && redirectStatus === 'succeeded') {
+        try {
+          await paymentsAPI.confirmPayment({ paymentIntentId, orderId });
+        } catch (error) {
+          // The webhook will still mark the order as paid; keep polling
+          console.error('Failed to confirm payment:', error);
+        }
+      }
+
+      for (let attempt = 0; attempt < MAX_STATUS_CHECKS && !cancelled; attempt++) {
+        try {
+          const response = await ordersAPI.getOrderById(orderId);
+          if (response.success && response.data) {
+            const { order: latestOrder } = response.data;
+            if (cancelled) return;
+            setOrder(latestOrder);
+
+            if (latestOrder.paymentStatus === 'paid') {
+              setVerification('paid');
+              resetCheckout();
+              // The server cleared the cart when the order was placed
+              await loadCart();
+              return;
+            }
+
+            if (latestOrder.paymentStatus === 'failed') {
+              setVerification('failed');
+              return;
+            }
+          }
+        } catch (error) {
+          console.error('Failed to load order:', error);
+        }
+
+        await sleep(STATUS_CHECK_INTERVAL);
+      }
+
+      if (!cancelled) {
+        setVerification('pending');
+      }
+    };
+
+    verifyPayment();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId, paymentIntentId, redirectStatus]);
+
+  if (verification === 'verifying') {
+    return (
+      <div className="min-h-screen bg-muted/50 py-12">
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+            <p className="text-muted-foreground">{t('checkout.success.verifying')}</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (verification !== 'paid') {
+    const isFailed = verification === 'failed';
+
+    return (
+      <div className="min-h-screen bg-muted/50 py-12">
+        <div className="container mx-auto px-4">
+          <Card className="max-w-2xl mx-auto">
+            <CardHeader className="text-center">
+              <div className="flex justify-center mb-4">
+                <div className={`w-16 h-16 rounded-full flex items-center justify-center ${isFailed ? 'bg-red-100' : 'bg-yellow-100'}`}>
+                  {isFailed ? (
+                    <XCircle className="w-8 h-8 text-red-600" />
+                  ) : (
+                    <Clock className="w-8 h-8 text-yellow-600" />
+                  )}
+                </div>
+              </div>
+              <CardTitle className={`text-2xl font-bold ${isFailed ? 'text-red-600' : 'text-yellow-600'}`}>
+                {isFailed ? t('checkout.success.failedTitle') : t('checkout.success.pendingTitle')}
+              </CardTitle>
+              <p className="text-muted-foreground">
+                {isFailed ? t('checkout.success.failedText') : t('checkout.success.pendingText')}
+              </p>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Link to="/orders">
+                  <Button variant="outline" className="w-full">
+                    <ShoppingBag className="w-4 h-4 mr-2" />
+                    {t('checkout.success.viewOrders')}
+                  </Button>
+                </Link>
+                <Link to={isFailed ? '/cart' : '/'}>
+                  <Button className="w-full">
+                    {isFailed ? t('checkout.backToCart') : t('cart.continueShopping')}
+                  </Button>
+                </Link>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
 
   return (
     <div className="min-h-screen bg-muted/50 py-12">
@@ -26,23 +170,25 @@ export const CheckoutSuccessPage: React.FC = () => {
                 </div>
               </div>
               <CardTitle className="text-2xl font-bold text-green-600">
-                Order Confirmed!
+                {t('checkout.success.title')}
               </CardTitle>
               <p className="text-muted-foreground">
-                Thank you for your purchase. Your order has been successfully placed.
+                {t('checkout.success.thankYou')}
               </p>
             </CardHeader>
             
             <CardContent className="space-y-6">
-              {orderId && (
+              {order && (
                 <div className="bg-muted/50 p-4 rounded-lg">
-                  <p className="text-sm text-muted-foreground mb-2">Order Number:</p>
-                  <p className="font-mono font-semibold text-lg">{orderId}</p>
+                  <p className="text-sm text-muted-foreground mb-2">{t('checkout.success.orderNumber')}</p>
+                  <p className="font-mono font-semibold text-lg">{order.orderNumber}</p>
                 </div>
               )}
 
+              {order && <DigitalKeysCard orderId={order.id} />}
+
               <div className="space-y-4">
-                <h3 className="font-semibold">What happens next?</h3>
+                <h3 className="font-semibold">{t('checkout.success.nextTitle')}</h3>
                 
                 <div className="space-y-3">
                   <div className="flex items-start space-x-3">
@@ -50,9 +196,9 @@ export const CheckoutSuccessPage: React.FC = () => {
                       <Mail className="w-4 h-4 text-blue-600" />
                     </div>
                     <div>
-                      <h4 className="font-medium text-sm">Confirmation Email</h4>
+                      <h4 className="font-medium text-sm">{t('checkout.success.emailTitle')}</h4>
                       <p className="text-xs text-muted-foreground">
-                        You'll receive an order confirmation email shortly with all the details.
+                        {t('checkout.success.emailText')}
                       </p>
                     </div>
                   </div>
@@ -62,24 +208,27 @@ export const CheckoutSuccessPage: React.FC = () => {
                       <Package className="w-4 h-4 text-yellow-600" />
                     </div>
                     <div>
-                      <h4 className="font-medium text-sm">Order Processing</h4>
+                      <h4 className="font-medium text-sm">{t('checkout.success.processingTitle')}</h4>
                       <p className="text-xs text-muted-foreground">
-                        We'll start processing your order and prepare it for shipping.
+                        {t('checkout.success.processingText')}
                       </p>
                     </div>
                   </div>
                   
-                  <div className="flex items-start space-x-3">
-                    <div className="w-8 h-8 bg-green-100 rounded-full flex items-center justify-center flex-shrink-0">
-                      <CheckCircle className="w-4 h-4 text-green-600" />
+                  {/* All-digital orders are delivered as keys and never ship */}
+                  {order?.shippingAddress !== null && (
+                    <div className="flex items-start space-x-3">
+                      <div className="w-8 h-8 bg-green-100 rounded-full flex items-center justify-center flex-shrink-0">
+                        <CheckCircle className="w-4 h-4 text-green-600" />
+                      </div>
+                      <div>
+                        <h4 className="font-medium text-sm">{t('checkout.success.shippingTitle')}</h4>
+                        <p className="text-xs text-muted-foreground">
+                          {t('checkout.success.shippingText')}
+                        </p>
+                      </div>
                     </div>
-                    <div>
-                      <h4 className="font-medium text-sm">Shipping Updates</h4>
-                      <p className="text-xs text-muted-foreground">
-                        You'll receive tracking information once your order ships.
-                      </p>
-                    </div>
-                  </div>
+                  )}
                 </div>
               </div>
 
@@ -88,13 +237,13 @@ export const CheckoutSuccessPage: React.FC = () => {
                   <Link to="/orders">
                     <Button variant="outline" className="w-full">
                       <ShoppingBag className="w-4 h-4 mr-2" />
-                      View Orders
+                      {t('checkout.success.viewOrders')}
                     </Button>
                   </Link>
                   <Link to="/">
                     <Button className="w-full">
                       <Home className="w-4 h-4 mr-2" />
-                      Continue Shopping
+                      {t('cart.continueShopping')}
                     </Button>
                   </Link>
                 </div>
@@ -102,7 +251,7 @@ export const CheckoutSuccessPage: React.FC = () => {
 
               <div className="text-center">
                 <p className="text-xs text-muted-foreground">
-                  Need help? Contact our support team at{' '}
+                  {t('checkout.success.help')}{' '}
                   <a href="mailto:support@gamestore.com" className="text-primary hover:underline">
                     support@gamestore.com
                   </a>
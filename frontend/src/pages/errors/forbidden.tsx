@@ -2,8 +2,11 @@ import React from 'react';
 import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Home, ArrowLeft, Shield } from 'lucide-react';
+import { useTranslation } from '@/hooks/use-translation';
 
 export const ForbiddenPage: React.FC = () => {
+  const { t } = useTranslation();
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-muted/50">
       <div className="text-center space-y-8">
@@ -12,9 +15,9 @@ export const ForbiddenPage: React.FC = () => {
             <Shield className="w-24 h-24 text-destructive" />
           </div>
           <h1 className="text-6xl font-bold text-destructive">403</h1>
-          <h2 className="text-3xl font-semibold">Access Forbidden</h2>
+          <h2 className="text-3xl font-semibold">{t('errors.forbiddenTitle')}</h2>
           <p className="text-muted-foreground text-lg max-w-md mx-auto">
-            You don't have permission to access this page. Please contact an administrator if you believe this is an error.
+            {t('errors.forbiddenText')}
           </p>
         </div>
         
@@ -22,12 +25,12 @@ export const ForbiddenPage: React.FC = () => {
           <Link to="/">
             <Button size="lg">
               <Home className="w-4 h-4 mr-2" />
-              Go Home
+              {t('common.goHome')}
             </Button>
           </Link>
           <Button variant="outline" size="lg" onClick={() => window.history.back()}>
             <ArrowLeft className="w-4 h-4 mr-2" />
-            Go Back
+            {t('common.goBack')}
           </Button>
         </div>
       </div>
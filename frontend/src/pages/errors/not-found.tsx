@@ -2,29 +2,32 @@ import React from 'react';
 import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Home, ArrowLeft } from 'lucide-react';
+import { useTranslation } from '@/hooks/use-translation';
 
 export const NotFoundPage: React.FC = () => {
+  const { t } = useTranslation();
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-muted/50">
       <div className="text-center space-y-8">
         <div className="space-y-4">
           <h1 className="text-9xl font-bold text-primary">404</h1>
-          <h2 className="text-3xl font-semibold">Page Not Found</h2>
+          <h2 className="text-3xl font-semibold">{t('errors.notFoundTitle')}</h2>
           <p className="text-muted-foreground text-lg max-w-md mx-auto">
-            The page you're looking for doesn't exist or has been moved to a different location.
+            {t('errors.notFoundText')}
           </p>
         </div>
         
         <div className="flex flex-col sm:flex-row gap-4 justify-center">
           <Link to="/">
             <Button size="lg">
-              <Home className="w-4 h-4 mr-2" />
-              Go Home
+              <Home className="w-4 h-4 me-2" />
+              {t('common.goHome')}
             </Button>
           </Link>
           <Button variant="outline" size="lg" onClick={() => window.history.back()}>
-            <ArrowLeft className="w-4 h-4 mr-2" />
-            Go Back
+            <ArrowLeft className="rtl:rotate-180 w-4 h-4 me-2" />
+            {t('common.goBack')}
           </Button>
         </div>
       </div>
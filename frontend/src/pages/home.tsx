@@ -14,9 +14,16 @@ import {
 } from 'lucide-react';
 import { productsAPI, categoriesAPI } from '@/lib/api';
 import { Product, Category } from '@/types';
-import { formatPrice, getRatingStars } from '@/lib/utils';
+import { getRatingStars } from '@/lib/utils';
+import { useCurrency } from '@/hooks/use-currency';
+import { useTranslation } from '@/hooks/use-translation';
+import { WishlistButton } from '@/components/wishlist/wishlist-button';
 
 export const HomePage: React.FC = () => {
+  const { formatPrice } = useCurrency();
+  const { t, locale, dir } = useTranslation();
+  // The hero slides in from the reading start
+  const slideFrom = dir === 'rtl' ? 50 : -50;
   const [featuredProducts, setFeaturedProducts] = useState<Product[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -49,14 +56,14 @@ export const HomePage: React.FC = () => {
     };
 
     loadHomeData();
-  }, []);
+  }, [locale]);
 
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-[60vh]">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
-          <p className="text-muted-foreground">Loading...</p>
+          <p className="text-muted-foreground">{t('common.loading')}</p>
         </div>
       </div>
     );
@@ -69,36 +76,35 @@ export const HomePage: React.FC = () => {
         <div className="container mx-auto px-4">
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-12 items-center">
             <motion.div
-              initial={{ opacity: 0, x: -50 }}
+              initial={{ opacity: 0, x: slideFrom }}
               animate={{ opacity: 1, x: 0 }}
               transition={{ duration: 0.8 }}
               className="space-y-6"
             >
               <h1 className="text-4xl md:text-6xl font-bold leading-tight">
-                Your Ultimate
-                <span className="block text-yellow-300">Gaming Destination</span>
+                {t('home.heroTitle')}
+                <span className="block text-yellow-300">{t('home.heroHighlight')}</span>
               </h1>
               <p className="text-xl text-primary-foreground/90">
-                Discover the latest games, consoles, and accessories. 
-                Level up your gaming experience with premium products.
+                {t('home.heroSubtitle')}
               </p>
               <div className="flex flex-col sm:flex-row gap-4">
                 <Link to="/products">
                   <Button size="lg" className="bg-white text-primary hover:bg-gray-100">
-                    Shop Now
-                    <ArrowRight className="ml-2 w-5 h-5" />
+                    {t('home.shopNow')}
+                    <ArrowRight className="rtl:rotate-180 ms-2 w-5 h-5" />
                   </Button>
                 </Link>
                 <Link to="/categories">
                   <Button size="lg" variant="outline" className="border-white text-white hover:bg-white hover:text-primary">
-                    Browse Categories
+                    {t('home.browseCategories')}
                   </Button>
                 </Link>
               </div>
             </motion.div>
             
             <motion.div
-              initial={{ opacity: 0, x: 50 }}
+              initial={{ opacity: 0, x: -slideFrom }}
               animate={{ opacity: 1, x: 0 }}
               transition={{ duration: 0.8, delay: 0.2 }}
               className="relative"
@@ -108,19 +114,19 @@ export const HomePage: React.FC = () => {
                   <div className="grid grid-cols-2 gap-4">
                     <div className="bg-white/20 rounded-lg p-4 text-center">
                       <Gamepad2 className="w-8 h-8 mx-auto mb-2" />
-                      <p className="text-sm font-medium">Consoles</p>
+                      <p className="text-sm font-medium">{t('home.consoles')}</p>
                     </div>
                     <div className="bg-white/20 rounded-lg p-4 text-center">
                       <Monitor className="w-8 h-8 mx-auto mb-2" />
-                      <p className="text-sm font-medium">PC Gaming</p>
+                      <p className="text-sm font-medium">{t('home.pcGaming')}</p>
                     </div>
                     <div className="bg-white/20 rounded-lg p-4 text-center">
                       <Headphones className="w-8 h-8 mx-auto mb-2" />
-                      <p className="text-sm font-medium">Accessories</p>
+                      <p className="text-sm font-medium">{t('home.accessories')}</p>
                     </div>
                     <div className="bg-white/20 rounded-lg p-4 text-center">
                       <Zap className="w-8 h-8 mx-auto mb-2" />
-                      <p className="text-sm font-medium">Latest Games</p>
+                      <p className="text-sm font-medium">{t('home.latestGames')}</p>
                     </div>
                   </div>
                 </div>
@@ -133,9 +139,9 @@ export const HomePage: React.FC = () => {
       {/* Categories Section */}
       <section className="container mx-auto px-4">
         <div className="text-center mb-12">
-          <h2 className="text-3xl font-bold mb-4">Shop by Category</h2>
+          <h2 className="text-3xl font-bold mb-4">{t('home.categoriesTitle')}</h2>
           <p className="text-muted-foreground text-lg">
-            Find exactly what you're looking for in our organized categories
+            {t('home.categoriesSubtitle')}
           </p>
         </div>
         
@@ -154,7 +160,7 @@ export const HomePage: React.FC = () => {
                     </div>
                     <h3 className="font-semibold mb-2">{category.name}</h3>
                     <p className="text-sm text-muted-foreground">
-                      {category.productCount || 0} products
+                      {t('home.productCount', { count: category.productCount || 0 })}
                     </p>
                   </CardContent>
                 </Card>
@@ -167,9 +173,9 @@ export const HomePage: React.FC = () => {
       {/* Featured Products Section */}
       <section className="container mx-auto px-4">
         <div className="text-center mb-12">
-          <h2 className="text-3xl font-bold mb-4">Featured Products</h2>
+          <h2 className="text-3xl font-bold mb-4">{t('home.featuredTitle')}</h2>
           <p className="text-muted-foreground text-lg">
-            Handpicked products for the ultimate gaming experience
+            {t('home.featuredSubtitle')}
           </p>
         </div>
         
@@ -188,10 +194,15 @@ export const HomePage: React.FC = () => {
                     className="w-full h-full object-cover hover:scale-105 transition-transform duration-300"
                   />
                   {product.salePrice && product.salePrice < product.price && (
-                    <div className="absolute top-2 left-2 bg-red-500 text-white px-2 py-1 rounded text-xs font-medium">
-                      SALE
+                    <div className="absolute top-2 start-2 bg-red-500 text-white px-2 py-1 rounded text-xs font-medium">
+                      {t('home.sale')}
                     </div>
                   )}
+                  <WishlistButton
+                    productId={product.id}
+                    variant="secondary"
+                    className="absolute top-2 end-2 rounded-full"
+                  />
                 </div>
                 
                 <CardContent className="p-4">
@@ -203,13 +214,13 @@ export const HomePage: React.FC = () => {
                         <span key={index}>{star}</span>
                       ))}
                     </div>
-                    <span className="text-sm text-muted-foreground ml-2">
+                    <span className="text-sm text-muted-foreground ms-2">
                       ({product.reviewCount})
                     </span>
                   </div>
                   
                   <div className="flex items-center justify-between mb-3">
-                    <div className="flex items-center space-x-2">
+                    <div className="flex items-center space-x-2 rtl:space-x-reverse">
                       {product.salePrice && product.salePrice < product.price ? (
                         <>
                           <span className="font-bold text-lg">
@@ -227,10 +238,10 @@ export const HomePage: React.FC = () => {
                     </div>
                   </div>
                   
-                  <div className="flex space-x-2">
+                  <div className="flex space-x-2 rtl:space-x-reverse">
                     <Link to={`/products/${product.slug}`} className="flex-1">
                       <Button variant="outline" className="w-full">
-                        View Details
+                        {t('home.viewDetails')}
                       </Button>
                     </Link>
                     <Button size="icon" className="flex-shrink-0">
@@ -246,8 +257,8 @@ export const HomePage: React.FC = () => {
         <div className="text-center mt-8">
           <Link to="/products">
             <Button size="lg">
-              View All Products
-              <ArrowRight className="ml-2 w-5 h-5" />
+              {t('home.viewAllProducts')}
+              <ArrowRight className="rtl:rotate-180 ms-2 w-5 h-5" />
             </Button>
           </Link>
         </div>
@@ -257,9 +268,9 @@ export const HomePage: React.FC = () => {
       <section className="bg-muted/50 py-16">
         <div className="container mx-auto px-4">
           <div className="text-center mb-12">
-            <h2 className="text-3xl font-bold mb-4">Why Choose GameStore?</h2>
+            <h2 className="text-3xl font-bold mb-4">{t('home.whyTitle')}</h2>
             <p className="text-muted-foreground text-lg">
-              We provide the best gaming experience with quality products and excellent service
+              {t('home.whySubtitle')}
             </p>
           </div>
           
@@ -268,9 +279,9 @@ export const HomePage: React.FC = () => {
               <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mx-auto mb-4">
                 <Zap className="w-8 h-8 text-primary" />
               </div>
-              <h3 className="text-xl font-semibold mb-2">Fast Delivery</h3>
+              <h3 className="text-xl font-semibold mb-2">{t('home.fastDelivery')}</h3>
               <p className="text-muted-foreground">
-                Get your gaming gear delivered quickly and securely to your doorstep
+                {t('home.fastDeliveryText')}
               </p>
             </div>
             
@@ -278,9 +289,9 @@ export const HomePage: React.FC = () => {
               <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mx-auto mb-4">
                 <Star className="w-8 h-8 text-primary" />
               </div>
-              <h3 className="text-xl font-semibold mb-2">Quality Products</h3>
+              <h3 className="text-xl font-semibold mb-2">{t('home.qualityProducts')}</h3>
               <p className="text-muted-foreground">
-                Curated selection of premium gaming products from top brands
+                {t('home.qualityProductsText')}
               </p>
             </div>
             
@@ -288,9 +299,9 @@ export const HomePage: React.FC = () => {
               <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mx-auto mb-4">
                 <Headphones className="w-8 h-8 text-primary" />
               </div>
-              <h3 className="text-xl font-semibold mb-2">24/7 Support</h3>
+              <h3 className="text-xl font-semibold mb-2">{t('home.support')}</h3>
               <p className="text-muted-foreground">
-                Our customer support team is always ready to help you
+                {t('home.supportText')}
               </p>
             </div>
           </div>
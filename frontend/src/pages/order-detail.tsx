@@ -0,0 +1,389 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  Download,
+  ExternalLink,
+  KeyRound,
+  MapPin,
+  Package,
+  RotateCcw,
+  Truck,
+  XCircle
+} from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { AddressBlock } from '@/components/orders/address-block';
+import { DigitalKeysCard } from '@/components/orders/digital-keys-card';
+import { OrderTimeline } from '@/components/orders/order-timeline';
+import { RETURN_REASON_KEYS, ReturnRequestForm } from '@/components/orders/return-request-form';
+import { ordersAPI, returnsAPI } from '@/lib/api';
+import { Order, OrderItem, ReturnRequest } from '@/types';
+import { toast } from '@/store';
+import { formatDate, formatPrice, getErrorMessage, getOrderStatusColor, getPaymentStatusColor, getReturnStatusColor } from '@/lib/utils';
+import { useTranslation } from '@/hooks/use-translation';
+
+// Mirrors Order.canBeCancelled on the server
+const CANCELLABLE_STATUSES = ['pending', 'confirmed', 'processing'];
+
+// Rejected returns free their units up again, as on the server
+const getReturnableQuantity = (item: OrderItem, itemReturns: ReturnRequest[]) =>
+  item.quantity - itemReturns
+    .filter(returnRequest => returnRequest.status !== 'rejected')
+    .reduce((sum, returnRequest) => sum + returnRequest.quantity, 0);
+
+export const OrderDetailPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { t } = useTranslation();
+  const [order, setOrder] = useState<Order | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [returnDeadline, setReturnDeadline] = useState<string | null>(null);
+  const [returningItemId, setReturningItemId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadOrder();
+    loadReturns();
+  }, [id]);
+
+  const loadOrder = async () => {
+    if (!id) return;
+    try {
+      setIsLoading(true);
+      const response = await ordersAPI.getOrderById(id);
+      if (response.success && response.data) {
+        setOrder(response.data.order);
+      }
+    } catch (error) {
+      console.error('Failed to load order:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadReturns = async () => {
+    if (!id) return;
+    try {
+      const response = await returnsAPI.getOrderReturns(id);
+      if (response.success && response.data) {
+        setReturns(response.data.returns);
+        setReturnDeadline(response.data.returnDeadline);
+      }
+    } catch (error) {
+      console.error('Failed to load returns:', error);
+    }
+  };
+
+  const handleReturnSubmitted = () => {
+    setReturningItemId(null);
+    loadReturns();
+  };
+
+  const handleCancel = async () => {
+    if (!order || !window.confirm(t('orderDetail.cancelConfirm'))) {
+      return;
+    }
+
+    try {
+      setIsCancelling(true);
+      const response = await ordersAPI.cancelOrder(order.id);
+      if (response.success) {
+        toast.success(t('orderDetail.cancelled'), response.message);
+        await loadOrder();
+      }
+    } catch (error: any) {
+      toast.error(t('orderDetail.cancelFailed'), getErrorMessage(error));
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  const handleDownloadInvoice = async () => {
+    if (!order) return;
+
+    try {
+      setIsDownloading(true);
+      const blob = await ordersAPI.downloadInvoice(order.id);
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `invoice-${order.orderNumber}.pdf`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to download invoice:', error);
+      toast.error(t('orderDetail.invoiceFailed'));
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  if (isLoading && !order) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+            <p className="text-muted-foreground">{t('orderDetail.loading')}</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <Card>
+          <CardContent className="text-center py-12">
+            <Package className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+            <h2 className="text-2xl font-semibold mb-2">{t('orderDetail.notFoundTitle')}</h2>
+            <p className="text-muted-foreground mb-6">
+              {t('orderDetail.notFoundText')}
+            </p>
+            <Link to="/orders">
+              <Button>{t('orderDetail.backToOrders')}</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const canCancel = CANCELLABLE_STATUSES.includes(order.status);
+  const canReturn = order.status === 'delivered' && !!returnDeadline && new Date(returnDeadline) > new Date();
+  const hasInvoice = ['paid', 'partially_refunded', 'refunded'].includes(order.paymentStatus);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Link to="/orders">
+        <Button variant="ghost" className="mb-4">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          {t('orderDetail.backToOrders')}
+        </Button>
+      </Link>
+
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">{t('orders.orderNumber', { number: order.orderNumber })}</h1>
+          <div className="flex items-center space-x-2">
+            <span className="text-sm text-muted-foreground">{t('orders.placedOn', { date: formatDate(order.createdAt) })}</span>
+            <span className={`px-3 py-1 rounded-full text-sm font-medium capitalize ${getOrderStatusColor(order.status)}`}>
+              {t(`orderStatus.${order.status}`)}
+            </span>
+            <span className={`px-3 py-1 rounded-full text-sm font-medium capitalize ${getPaymentStatusColor(order.paymentStatus)}`}>
+              {t(`paymentStatus.${order.paymentStatus}`)}
+            </span>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {hasInvoice && (
+            <Button variant="outline" onClick={handleDownloadInvoice} disabled={isDownloading}>
+              <Download className="w-4 h-4 mr-2" />
+              {isDownloading ? t('orderDetail.downloading') : t('orderDetail.invoice')}
+            </Button>
+          )}
+          {canCancel && (
+            <Button
+              variant="outline"
+              className="text-red-600 hover:text-red-700"
+              onClick={handleCancel}
+              disabled={isCancelling}
+            >
+              <XCircle className="w-4 h-4 mr-2" />
+              {isCancelling ? t('orderDetail.cancelling') : t('orders.cancelOrder')}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Main Content */}
+        <div className="lg:col-span-2 space-y-6">
+          <DigitalKeysCard orderId={order.id} />
+
+          {/* Items */}
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('orderDetail.items')}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {order.items.map(item => {
+                const itemReturns = returns.filter(returnRequest => returnRequest.orderItemId === item.id);
+                const returnableQuantity = getReturnableQuantity(item, itemReturns);
+                return (
+                  <div key={item.id} className="space-y-2">
+                    <div className="flex items-center space-x-4 p-3 border rounded-lg">
+                      <img
+                        src={item.productSnapshot.mainImage || '/placeholder-product.jpg'}
+                        alt={item.productSnapshot.name}
+                        className="w-16 h-16 object-cover rounded"
+                      />
+                      <div className="flex-1">
+                        {item.product ? (
+                          <Link to={`/products/${item.product.slug}`} className="font-medium hover:text-primary">
+                            {item.productSnapshot.name}
+                          </Link>
+                        ) : (
+                          <p className="font-medium">{item.productSnapshot.name}</p>
+                        )}
+                        <p className="text-sm text-muted-foreground">{t('cart.sku', { sku: item.productSnapshot.sku })}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {t('orders.quantityEach', { count: item.quantity, price: formatPrice(Number(item.unitPrice), order.currency) })}
+                        </p>
+                      </div>
+                      <div className="text-right space-y-1">
+                        <p className="font-medium">{formatPrice(Number(item.totalPrice), order.currency)}</p>
+                        {canReturn && returnableQuantity > 0 && item.productSnapshot.isPhysical !== false && returningItemId !== item.id && (
+                          <Button variant="outline" size="sm" onClick={() => setReturningItemId(item.id)}>
+                            <RotateCcw className="w-3 h-3 mr-1" />
+                            {t('orderDetail.return')}
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    {itemReturns.map(returnRequest => (
+                      <div key={returnRequest.id} className="flex items-center justify-between px-3 text-sm">
+                        <span className="text-muted-foreground">
+                          {t('orderDetail.returnLine', { rma: returnRequest.rmaNumber, count: returnRequest.quantity, reason: t(RETURN_REASON_KEYS[returnRequest.reason]) })}
+                          {returnRequest.status === 'rejected' && returnRequest.adminNotes && ` • ${returnRequest.adminNotes}`}
+                        </span>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${getReturnStatusColor(returnRequest.status)}`}>
+                          {t(`returnStatus.${returnRequest.status}`)}
+                        </span>
+                      </div>
+                    ))}
+                    {returningItemId === item.id && (
+                      <ReturnRequestForm
+                        item={item}
+                        maxQuantity={returnableQuantity}
+                        onSubmitted={handleReturnSubmitted}
+                        onCancel={() => setReturningItemId(null)}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+
+              {canReturn && returnDeadline && (
+                <p className="text-xs text-muted-foreground">
+                  {t('orderDetail.returnDeadline', { date: formatDate(returnDeadline) })}
+                </p>
+              )}
+
+              {/* Totals */}
+              <div className="border-t pt-4 space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span>{t('orderDetail.subtotal')}</span>
+                  <span>{formatPrice(Number(order.subtotal), order.currency)}</span>
+                </div>
+                {Number(order.discountAmount) > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <span>{order.promotionCode ? t('checkout.discountWithCode', { code: order.promotionCode }) : t('checkout.discount')}</span>
+                    <span>-{formatPrice(Number(order.discountAmount), order.currency)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span>{t('checkout.shipping')}</span>
+                  <span>{formatPrice(Number(order.shippingAmount), order.currency)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>{order.pricesIncludeTax ? t('checkout.taxIncluded') : t('checkout.tax')}</span>
+                  <span>{formatPrice(Number(order.taxAmount), order.currency)}</span>
+                </div>
+                <div className="flex justify-between font-semibold text-lg border-t pt-2">
+                  <span>{t('checkout.total')}</span>
+                  <span>{formatPrice(Number(order.total), order.currency)}</span>
+                </div>
+                {Number(order.refundedAmount) > 0 && (
+                  <div className="flex justify-between text-muted-foreground">
+                    <span>{t('orderDetail.refunded')}</span>
+                    <span>-{formatPrice(Number(order.refundedAmount), order.currency)}</span>
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Timeline */}
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('orderDetail.orderStatus')}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <OrderTimeline order={order} />
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Sidebar */}
+        <div className="space-y-6">
+          {order.trackingNumber && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Truck className="w-5 h-5" />
+                  <span>{t('orderDetail.tracking')}</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <p className="font-mono text-sm">{order.trackingNumber}</p>
+                {order.trackingUrl && (
+                  <a
+                    href={order.trackingUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center text-sm text-primary hover:underline"
+                  >
+                    {t('orderDetail.trackPackage')}
+                    <ExternalLink className="w-3 h-3 ml-1" />
+                  </a>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                {order.shippingAddress ? <MapPin className="w-5 h-5" /> : <KeyRound className="w-5 h-5" />}
+                <span>{t('checkout.delivery')}</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {order.shippingAddress ? (
+                <div>
+                  <h4 className="font-medium text-sm mb-1">{t('orderDetail.shippingAddress')}</h4>
+                  <AddressBlock address={order.shippingAddress} />
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {t('orderDetail.digitalDeliveryTo', { email: order.customerEmail })}
+                </p>
+              )}
+              <div>
+                <h4 className="font-medium text-sm mb-1">{t('address.billingAddress')}</h4>
+                <AddressBlock address={order.billingAddress} />
+              </div>
+            </CardContent>
+          </Card>
+
+          {order.notes && (
+            <Card>
+              <CardHeader>
+                <CardTitle>{t('checkout.notes')}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm text-muted-foreground">{order.notes}</p>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
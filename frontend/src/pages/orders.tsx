@@ -6,8 +6,10 @@ import { Package, Eye, Clock, CheckCircle, XCircle } from 'lucide-react';
 import { ordersAPI } from '@/lib/api';
 import { Order } from '@/types';
 import { formatPrice, formatDate, getOrderStatusColor } from '@/lib/utils';
+import { useTranslation } from '@/hooks/use-translation';
 
 export const OrdersPage: React.FC = () => {
+  const { t } = useTranslation();
   const [orders, setOrders] = useState<Order[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
@@ -21,7 +23,7 @@ export const OrdersPage: React.FC = () => {
       const response = await ordersAPI.getUserOrders();
       
       if (response.success && response.data) {
-        setOrders(response.data);
+        setOrders(response.data.orders);
       }
     } catch (error) {
       console.error('Failed to load orders:', error);
@@ -54,7 +56,7 @@ export const OrdersPage: React.FC = () => {
         <div className="flex items-center justify-center min-h-[60vh]">
           <div className="text-center">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
-            <p className="text-muted-foreground">Loading orders...</p>
+            <p className="text-muted-foreground">{t('orders.loading')}</p>
           </div>
         </div>
       </div>
@@ -64,9 +66,9 @@ export const OrdersPage: React.FC = () => {
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="mb-8">
-        <h1 className="text-3xl font-bold mb-2">My Orders</h1>
+        <h1 className="text-3xl font-bold mb-2">{t('orders.title')}</h1>
         <p className="text-muted-foreground">
-          Track your orders and view order history
+          {t('orders.subtitle')}
         </p>
       </div>
 
@@ -74,13 +76,13 @@ export const OrdersPage: React.FC = () => {
         <Card>
           <CardContent className="text-center py-12">
             <Package className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
-            <h2 className="text-2xl font-semibold mb-2">No orders yet</h2>
+            <h2 className="text-2xl font-semibold mb-2">{t('orders.emptyTitle')}</h2>
             <p className="text-muted-foreground mb-6">
-              You haven't placed any orders yet. Start shopping to see your orders here.
+              {t('orders.emptyText')}
             </p>
             <Link to="/products">
               <Button>
-                Start Shopping
+                {t('orders.startShopping')}
               </Button>
             </Link>
           </CardContent>
@@ -92,15 +94,15 @@ export const OrdersPage: React.FC = () => {
               <CardHeader>
                 <div className="flex items-center justify-between">
                   <div>
-                    <CardTitle className="text-lg">Order #{order.orderNumber}</CardTitle>
+                    <CardTitle className="text-lg">{t('orders.orderNumber', { number: order.orderNumber })}</CardTitle>
                     <p className="text-sm text-muted-foreground">
-                      Placed on {formatDate(order.createdAt)}
+                      {t('orders.placedOn', { date: formatDate(order.createdAt) })}
                     </p>
                   </div>
                   <div className="flex items-center space-x-2">
                     {getStatusIcon(order.status)}
                     <span className={`px-3 py-1 rounded-full text-sm font-medium ${getOrderStatusColor(order.status)}`}>
-                      {order.status}
+                      {t(`orderStatus.${order.status}`)}
                     </span>
                   </div>
                 </div>
@@ -110,21 +112,21 @@ export const OrdersPage: React.FC = () => {
                 <div className="space-y-4">
                   {/* Order Items */}
                   <div className="space-y-3">
-                    {order.orderItems.map((item) => (
+                    {order.items.map((item) => (
                       <div key={item.id} className="flex items-center space-x-4 p-3 border rounded-lg">
                         <img
-                          src={item.product.images[0]?.imageUrl || '/placeholder-product.jpg'}
-                          alt={item.product.name}
+                          src={item.productSnapshot.mainImage || '/placeholder-product.jpg'}
+                          alt={item.productSnapshot.name}
                           className="w-16 h-16 object-cover rounded"
                         />
                         <div className="flex-1">
-                          <h4 className="font-medium">{item.product.name}</h4>
+                          <h4 className="font-medium">{item.productSnapshot.name}</h4>
                           <p className="text-sm text-muted-foreground">
-                            Qty: {item.quantity} • {formatPrice(item.unitPrice)} each
+                            {t('orders.quantityEach', { count: item.quantity, price: formatPrice(item.unitPrice, order.currency) })}
                           </p>
                         </div>
                         <div className="text-right">
-                          <p className="font-medium">{formatPrice(item.totalPrice)}</p>
+                          <p className="font-medium">{formatPrice(item.totalPrice, order.currency)}</p>
                         </div>
                       </div>
                     ))}
@@ -135,22 +137,22 @@ export const OrdersPage: React.FC = () => {
                     <div className="flex justify-between items-center">
                       <div className="space-y-1">
                         <p className="text-sm text-muted-foreground">
-                          Total: {formatPrice(order.total)}
+                          {t('orders.totalAmount', { total: formatPrice(order.total, order.currency) })}
                         </p>
                         <p className="text-sm text-muted-foreground">
-                          {order.orderItems.length} item{order.orderItems.length !== 1 ? 's' : ''}
+                          {t('orders.itemCount', { count: order.items.length })}
                         </p>
                       </div>
                       <div className="flex space-x-2">
                         <Link to={`/orders/${order.id}`}>
                           <Button variant="outline" size="sm">
                             <Eye className="w-4 h-4 mr-2" />
-                            View Details
+                            {t('orders.viewDetails')}
                           </Button>
                         </Link>
                         {order.status === 'pending' && (
                           <Button variant="outline" size="sm" className="text-red-600 hover:text-red-700">
-                            Cancel Order
+                            {t('orders.cancelOrder')}
                           </Button>
                         )}
                       </div>
@@ -160,7 +162,7 @@ export const OrdersPage: React.FC = () => {
                   {/* Shipping Address */}
                   {order.shippingAddress && (
                     <div className="border-t pt-4">
-                      <h4 className="font-medium text-sm mb-2">Shipping Address:</h4>
+                      <h4 className="font-medium text-sm mb-2">{t('orders.shippingAddress')}</h4>
                       <p className="text-sm text-muted-foreground">
                         {order.shippingAddress.street}, {order.shippingAddress.city}, {order.shippingAddress.state} {order.shippingAddress.zipCode}
                       </p>
@@ -170,7 +172,7 @@ export const OrdersPage: React.FC = () => {
                   {/* Tracking */}
                   {order.trackingNumber && (
                     <div className="border-t pt-4">
-                      <h4 className="font-medium text-sm mb-2">Tracking Number:</h4>
+                      <h4 className="font-medium text-sm mb-2">{t('orders.trackingNumber')}</h4>
                       <p className="font-mono text-sm">{order.trackingNumber}</p>
                     </div>
                   )}
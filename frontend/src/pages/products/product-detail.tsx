@@ -6,7 +6,6 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { 
   ShoppingCart, 
-  Heart, 
   Share2, 
   Truck, 
   Shield, 
@@ -18,15 +17,20 @@ import {
 } from 'lucide-react';
 import { productsAPI, reviewsAPI } from '@/lib/api';
 import { useCart } from '@/contexts/cart-context';
-import { useAuth } from '@/contexts/auth-context';
+import { WishlistButton } from '@/components/wishlist/wishlist-button';
+import { ProductAlerts } from '@/components/products/product-alerts';
 import { Product, Review } from '@/types';
-import { formatPrice, getRatingStars, formatDate } from '@/lib/utils';
+import { getRatingStars, formatDate } from '@/lib/utils';
+import { useCurrency } from '@/hooks/use-currency';
+import { useTranslation } from '@/hooks/use-translation';
 
 export const ProductDetailPage: React.FC = () => {
+  const { formatPrice } = useCurrency();
   const { slug } = useParams<{ slug: string }>();
   const navigate = useNavigate();
   const { addToCart } = useCart();
-  const { isAuthenticated } = useAuth();
+  // Product copy comes back in the current language, so refetch when it changes
+  const { t, locale } = useTranslation();
   
   const [product, setProduct] = useState<Product | null>(null);
   const [reviews, setReviews] = useState<Review[]>([]);
@@ -39,7 +43,7 @@ export const ProductDetailPage: React.FC = () => {
     if (slug) {
       loadProduct();
     }
-  }, [slug]);
+  }, [slug, locale]);
 
   const loadProduct = async () => {
     try {
@@ -54,29 +58,24 @@ export const ProductDetailPage: React.FC = () => {
       if (productResponse.success && productResponse.data) {
         setProduct(productResponse.data);
       } else {
-        setError('Product not found');
+        setError(t('product.notFound'));
       }
 
       if (reviewsResponse.success && reviewsResponse.data) {
         setReviews(reviewsResponse.data.data || reviewsResponse.data);
       }
     } catch (err: any) {
-      setError(err.message || 'Failed to load product');
+      setError(err.message || t('product.loadFailed'));
     } finally {
       setIsLoading(false);
     }
   };
 
   const handleAddToCart = async () => {
-    if (!isAuthenticated) {
-      navigate('/login', { state: { from: `/products/${slug}` } });
-      return;
-    }
-
     if (!product) return;
 
     try {
-      await addToCart(product.id, quantity);
+      await addToCart(product, quantity);
     } catch (err: any) {
       console.error('Failed to add to cart:', err);
     }
@@ -94,7 +93,7 @@ export const ProductDetailPage: React.FC = () => {
         <div className="flex items-center justify-center min-h-[60vh]">
           <div className="text-center">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
-            <p className="text-muted-foreground">Loading product...</p>
+            <p className="text-muted-foreground">{t('product.loading')}</p>
           </div>
         </div>
       </div>
@@ -105,12 +104,12 @@ export const ProductDetailPage: React.FC = () => {
     return (
       <div className="container mx-auto px-4 py-8">
         <div className="text-center py-12">
-          <h2 className="text-2xl font-semibold mb-2">Product Not Found</h2>
+          <h2 className="text-2xl font-semibold mb-2">{t('product.notFoundTitle')}</h2>
           <p className="text-muted-foreground mb-6">
-            The product you're looking for doesn't exist or has been removed.
+            {t('product.notFoundText')}
           </p>
           <Button onClick={() => navigate('/products')}>
-            Browse Products
+            {t('product.browseProducts')}
           </Button>
         </div>
       </div>
@@ -124,13 +123,13 @@ export const ProductDetailPage: React.FC = () => {
         <ol className="flex items-center space-x-2 text-sm text-muted-foreground">
           <li>
             <button onClick={() => navigate('/')} className="hover:text-foreground">
-              Home
+              {t('nav.home')}
             </button>
           </li>
           <li>/</li>
           <li>
             <button onClick={() => navigate('/products')} className="hover:text-foreground">
-              Products
+              {t('nav.products')}
             </button>
           </li>
           <li>/</li>
@@ -205,12 +204,12 @@ export const ProductDetailPage: React.FC = () => {
                   ))}
                 </div>
                 <span className="ml-2 text-sm text-muted-foreground">
-                  ({product.reviewCount} reviews)
+                  {t('product.reviewCount', { count: product.reviewCount })}
                 </span>
               </div>
               <span className="text-sm text-muted-foreground">•</span>
               <span className="text-sm text-muted-foreground">
-                SKU: {product.sku}
+                {t('product.sku', { sku: product.sku })}
               </span>
             </div>
           </div>
@@ -226,7 +225,7 @@ export const ProductDetailPage: React.FC = () => {
                   {formatPrice(product.price)}
                 </span>
                 <span className="bg-red-500 text-white px-2 py-1 rounded text-sm font-medium">
-                  {Math.round(((product.price - product.salePrice) / product.price) * 100)}% OFF
+                  {t('product.percentOff', { percent: Math.round(((product.price - product.salePrice) / product.price) * 100) })}
                 </span>
               </div>
             ) : (
@@ -242,13 +241,13 @@ export const ProductDetailPage: React.FC = () => {
               product.stockQuantity > 0 ? 'text-green-600' : 'text-red-600'
             }`}>
               {product.stockQuantity > 0 
-                ? `${product.stockQuantity} in stock` 
-                : 'Out of stock'
+                ? t('product.inStock', { count: product.stockQuantity })
+                : t('product.outOfStock')
               }
             </p>
             {product.stockQuantity <= 10 && product.stockQuantity > 0 && (
               <p className="text-sm text-orange-600">
-                Only {product.stockQuantity} left!
+                {t('product.onlyLeft', { count: product.stockQuantity })}
               </p>
             )}
           </div>
@@ -256,7 +255,7 @@ export const ProductDetailPage: React.FC = () => {
           {/* Quantity and Add to Cart */}
           <div className="space-y-4">
             <div className="flex items-center space-x-4">
-              <label className="text-sm font-medium">Quantity:</label>
+              <label className="text-sm font-medium">{t('product.quantity')}</label>
               <div className="flex items-center space-x-2">
                 <Button
                   variant="outline"
@@ -293,33 +292,33 @@ export const ProductDetailPage: React.FC = () => {
                 size="lg"
               >
                 <ShoppingCart className="w-5 h-5 mr-2" />
-                Add to Cart
-              </Button>
-              <Button variant="outline" size="icon">
-                <Heart className="w-5 h-5" />
+                {t('product.addToCart')}
               </Button>
+              <WishlistButton productId={product.id} className="h-11 w-11" />
               <Button variant="outline" size="icon">
                 <Share2 className="w-5 h-5" />
               </Button>
             </div>
+
+            <ProductAlerts product={product} />
           </div>
 
           {/* Features */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 pt-6 border-t">
             <div className="text-center">
               <Truck className="w-8 h-8 mx-auto mb-2 text-primary" />
-              <h4 className="font-semibold text-sm">Free Shipping</h4>
-              <p className="text-xs text-muted-foreground">On orders over $50</p>
+              <h4 className="font-semibold text-sm">{t('product.freeShipping')}</h4>
+              <p className="text-xs text-muted-foreground">{t('product.freeShippingText')}</p>
             </div>
             <div className="text-center">
               <Shield className="w-8 h-8 mx-auto mb-2 text-primary" />
-              <h4 className="font-semibold text-sm">Secure Payment</h4>
-              <p className="text-xs text-muted-foreground">100% secure checkout</p>
+              <h4 className="font-semibold text-sm">{t('product.securePayment')}</h4>
+              <p className="text-xs text-muted-foreground">{t('product.securePaymentText')}</p>
             </div>
             <div className="text-center">
               <RotateCcw className="w-8 h-8 mx-auto mb-2 text-primary" />
-              <h4 className="font-semibold text-sm">Easy Returns</h4>
-              <p className="text-xs text-muted-foreground">30 day return policy</p>
+              <h4 className="font-semibold text-sm">{t('product.easyReturns')}</h4>
+              <p className="text-xs text-muted-foreground">{t('product.easyReturnsText')}</p>
             </div>
           </div>
         </div>
@@ -330,20 +329,20 @@ export const ProductDetailPage: React.FC = () => {
         <div className="border-b">
           <nav className="flex space-x-8">
             <button className="border-b-2 border-primary pb-2 font-medium">
-              Description
+              {t('product.tabDescription')}
             </button>
             <button className="text-muted-foreground hover:text-foreground pb-2">
-              Specifications
+              {t('product.tabSpecifications')}
             </button>
             <button className="text-muted-foreground hover:text-foreground pb-2">
-              Reviews ({reviews.length})
+              {t('product.tabReviews', { count: reviews.length })}
             </button>
           </nav>
         </div>
 
         <div className="py-8">
           <div className="prose max-w-none">
-            <h3 className="text-xl font-semibold mb-4">Product Description</h3>
+            <h3 className="text-xl font-semibold mb-4">{t('product.descriptionTitle')}</h3>
             <div dangerouslySetInnerHTML={{ __html: product.description }} />
           </div>
         </div>
@@ -352,7 +351,7 @@ export const ProductDetailPage: React.FC = () => {
       {/* Reviews Section */}
       {reviews.length > 0 && (
         <div className="mt-16">
-          <h3 className="text-2xl font-bold mb-8">Customer Reviews</h3>
+          <h3 className="text-2xl font-bold mb-8">{t('product.customerReviews')}</h3>
           <div className="space-y-6">
             {reviews.slice(0, 5).map((review) => (
               <Card key={review.id}>
@@ -6,9 +6,14 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Search, Filter, ShoppingCart } from 'lucide-react';
 import { productsAPI } from '@/lib/api';
 import { Product } from '@/types';
-import { formatPrice, getRatingStars } from '@/lib/utils';
+import { getRatingStars } from '@/lib/utils';
+import { useCurrency } from '@/hooks/use-currency';
+import { useTranslation } from '@/hooks/use-translation';
+import { WishlistButton } from '@/components/wishlist/wishlist-button';
 
 export const ProductListPage: React.FC = () => {
+  const { formatPrice } = useCurrency();
+  const { t, locale } = useTranslation();
   const [products, setProducts] = useState<Product[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
@@ -22,7 +27,7 @@ export const ProductListPage: React.FC = () => {
 
   useEffect(() => {
     loadProducts();
-  }, [filters]);
+  }, [filters, locale]);
 
   const loadProducts = async () => {
     try {
@@ -58,7 +63,7 @@ export const ProductListPage: React.FC = () => {
         <div className="flex items-center justify-center min-h-[60vh]">
           <div className="text-center">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
-            <p className="text-muted-foreground">Loading products...</p>
+            <p className="text-muted-foreground">{t('products.loading')}</p>
           </div>
         </div>
       </div>
@@ -69,9 +74,9 @@ export const ProductListPage: React.FC = () => {
     <div className="container mx-auto px-4 py-8">
       {/* Header */}
       <div className="mb-8">
-        <h1 className="text-3xl font-bold mb-2">All Products</h1>
+        <h1 className="text-3xl font-bold mb-2">{t('products.title')}</h1>
         <p className="text-muted-foreground">
-          Discover our collection of gaming products
+          {t('products.subtitle')}
         </p>
       </div>
 
@@ -82,7 +87,7 @@ export const ProductListPage: React.FC = () => {
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
             <Input
               type="text"
-              placeholder="Search products..."
+              placeholder={t('nav.searchPlaceholder')}
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="pl-10"
@@ -90,14 +95,14 @@ export const ProductListPage: React.FC = () => {
           </div>
           <Button type="submit">
             <Search className="w-4 h-4 mr-2" />
-            Search
+            {t('products.search')}
           </Button>
         </form>
 
         <div className="flex flex-wrap gap-4 items-center">
           <Button variant="outline" size="sm">
             <Filter className="w-4 h-4 mr-2" />
-            Filters
+            {t('products.filters')}
           </Button>
           
           <select
@@ -105,10 +110,10 @@ export const ProductListPage: React.FC = () => {
             onChange={(e) => setFilters(prev => ({ ...prev, sortBy: e.target.value as 'name' | 'price' | 'rating' | 'createdAt' | 'soldCount' }))}
             className="px-3 py-2 border rounded-md text-sm"
           >
-            <option value="createdAt">Latest</option>
-            <option value="name">Name</option>
-            <option value="price">Price</option>
-            <option value="rating">Rating</option>
+            <option value="createdAt">{t('products.sortLatest')}</option>
+            <option value="name">{t('products.sortName')}</option>
+            <option value="price">{t('products.sortPrice')}</option>
+            <option value="rating">{t('products.sortRating')}</option>
           </select>
           
           <Button
@@ -127,9 +132,9 @@ export const ProductListPage: React.FC = () => {
       {/* Products Grid */}
       {products.length === 0 ? (
         <div className="text-center py-12">
-          <h3 className="text-lg font-semibold mb-2">No products found</h3>
+          <h3 className="text-lg font-semibold mb-2">{t('products.noResultsTitle')}</h3>
           <p className="text-muted-foreground">
-            Try adjusting your search or filters
+            {t('products.noResultsText')}
           </p>
         </div>
       ) : (
@@ -144,9 +149,14 @@ export const ProductListPage: React.FC = () => {
                 />
                 {product.salePrice && product.salePrice < product.price && (
                   <div className="absolute top-2 left-2 bg-red-500 text-white px-2 py-1 rounded text-xs font-medium">
-                    SALE
+                    {t('products.sale')}
                   </div>
                 )}
+                <WishlistButton
+                  productId={product.id}
+                  variant="secondary"
+                  className="absolute top-2 right-2 rounded-full"
+                />
               </div>
               
               <CardContent className="p-4">
@@ -185,7 +195,7 @@ export const ProductListPage: React.FC = () => {
                 <div className="flex space-x-2">
                   <Link to={`/products/${product.slug}`} className="flex-1">
                     <Button variant="outline" className="w-full">
-                      View Details
+                      {t('products.viewDetails')}
                     </Button>
                   </Link>
                   <Button size="icon" className="flex-shrink-0">
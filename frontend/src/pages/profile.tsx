@@ -5,13 +5,21 @@ import { z } from 'zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { User, MapPin, CreditCard, Settings, Key } from 'lucide-react';
+import { User, Settings, Key } from 'lucide-react';
 import { useAuth } from '@/contexts/auth-context';
+import { AlertSubscriptions } from '@/components/products/alert-subscriptions';
+import { AddressBook } from '@/components/addresses/address-book';
+import { SavedPaymentMethods } from '@/components/payments/saved-payment-methods';
+import { EmailSettings } from '@/components/auth/email-settings';
+import { PasswordSettings } from '@/components/auth/password-settings';
+import { TwoFactorSettings } from '@/components/auth/two-factor-settings';
+import { ActiveSessions } from '@/components/auth/active-sessions';
+import { formatDate } from '@/lib/utils';
+import { useTranslation } from '@/hooks/use-translation';
 
 const profileSchema = z.object({
-  firstName: z.string().min(1, 'First name is required'),
-  lastName: z.string().min(1, 'Last name is required'),
-  email: z.string().email('Invalid email address'),
+  firstName: z.string().min(1, 'validation.firstNameRequired'),
+  lastName: z.string().min(1, 'validation.lastNameRequired'),
   phone: z.string().optional(),
 });
 
@@ -19,6 +27,7 @@ type ProfileFormData = z.infer<typeof profileSchema>;
 
 export const ProfilePage: React.FC = () => {
   const { user, updateProfile } = useAuth();
+  const { translateError } = useTranslation();
   const [isEditing, setIsEditing] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
 
@@ -27,7 +36,6 @@ export const ProfilePage: React.FC = () => {
     defaultValues: {
       firstName: user?.firstName || '',
       lastName: user?.lastName || '',
-      email: user?.email || '',
       phone: user?.phone || '',
     }
   });
@@ -77,7 +85,7 @@ export const ProfilePage: React.FC = () => {
                           placeholder="Enter first name"
                         />
                         {errors.firstName && (
-                          <p className="text-sm text-red-600 mt-1">{errors.firstName.message}</p>
+                          <p className="text-sm text-red-600 mt-1">{translateError(errors.firstName.message)}</p>
                         )}
                       </div>
                       <div>
@@ -87,21 +95,10 @@ export const ProfilePage: React.FC = () => {
                           placeholder="Enter last name"
                         />
                         {errors.lastName && (
-                          <p className="text-sm text-red-600 mt-1">{errors.lastName.message}</p>
+                          <p className="text-sm text-red-600 mt-1">{translateError(errors.lastName.message)}</p>
                         )}
                       </div>
                     </div>
-                    <div>
-                      <label className="block text-sm font-medium mb-2">Email</label>
-                      <Input
-                        {...register('email')}
-                        type="email"
-                        placeholder="Enter email"
-                      />
-                      {errors.email && (
-                        <p className="text-sm text-red-600 mt-1">{errors.email.message}</p>
-                      )}
-                    </div>
                     <div>
                       <label className="block text-sm font-medium mb-2">Phone</label>
                       <Input
@@ -109,7 +106,7 @@ export const ProfilePage: React.FC = () => {
                         placeholder="Enter phone number"
                       />
                       {errors.phone && (
-                        <p className="text-sm text-red-600 mt-1">{errors.phone.message}</p>
+                        <p className="text-sm text-red-600 mt-1">{translateError(errors.phone.message)}</p>
                       )}
                     </div>
                     <div className="flex space-x-2">
@@ -137,10 +134,6 @@ export const ProfilePage: React.FC = () => {
                         <p className="text-lg">{user.lastName}</p>
                       </div>
                     </div>
-                    <div>
-                      <p className="text-sm font-medium text-muted-foreground">Email</p>
-                      <p className="text-lg">{user.email}</p>
-                    </div>
                     {user.phone && (
                       <div>
                         <p className="text-sm font-medium text-muted-foreground">Phone</p>
@@ -155,75 +148,26 @@ export const ProfilePage: React.FC = () => {
               </CardContent>
             </Card>
 
+            {/* Email Address */}
+            <EmailSettings user={user} />
+
+            {/* Password */}
+            <PasswordSettings />
+
+            {/* Two-Factor Authentication */}
+            <TwoFactorSettings user={user} />
+
+            {/* Active Sessions */}
+            <ActiveSessions />
+
             {/* Addresses */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center space-x-2">
-                  <MapPin className="w-5 h-5" />
-                  <span>Addresses</span>
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                  <div>
-                    <h4 className="font-medium mb-2">Shipping Address</h4>
-                    {user.shippingAddress ? (
-                      <div className="text-sm text-muted-foreground">
-                        <p>{user.shippingAddress.street}</p>
-                        <p>{user.shippingAddress.city}, {user.shippingAddress.state} {user.shippingAddress.zipCode}</p>
-                        <p>{user.shippingAddress.country}</p>
-                      </div>
-                    ) : (
-                      <p className="text-sm text-muted-foreground">No shipping address added</p>
-                    )}
-                    <Button variant="outline" size="sm" className="mt-2">
-                      {user.shippingAddress ? 'Edit' : 'Add'} Shipping Address
-                    </Button>
-                  </div>
-                  <div>
-                    <h4 className="font-medium mb-2">Billing Address</h4>
-                    {user.billingAddress ? (
-                      <div className="text-sm text-muted-foreground">
-                        <p>{user.billingAddress.street}</p>
-                        <p>{user.billingAddress.city}, {user.billingAddress.state} {user.billingAddress.zipCode}</p>
-                        <p>{user.billingAddress.country}</p>
-                      </div>
-                    ) : (
-                      <p className="text-sm text-muted-foreground">No billing address added</p>
-                    )}
-                    <Button variant="outline" size="sm" className="mt-2">
-                      {user.billingAddress ? 'Edit' : 'Add'} Billing Address
-                    </Button>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+            <AddressBook />
 
             {/* Payment Methods */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center space-x-2">
-                  <CreditCard className="w-5 h-5" />
-                  <span>Payment Methods</span>
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                {user.paymentMethod ? (
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <p className="font-medium">{user.paymentMethod.brand} •••• {user.paymentMethod.last4}</p>
-                      <p className="text-sm text-muted-foreground">Expires {user.paymentMethod.expMonth}/{user.paymentMethod.expYear}</p>
-                    </div>
-                    <Button variant="outline" size="sm">Edit</Button>
-                  </div>
-                ) : (
-                  <div className="text-center py-4">
-                    <p className="text-muted-foreground mb-2">No payment method added</p>
-                    <Button variant="outline">Add Payment Method</Button>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
+            <SavedPaymentMethods />
+
+            {/* Product Alerts */}
+            <AlertSubscriptions />
           </div>
 
           {/* Sidebar */}
@@ -255,7 +199,7 @@ export const ProfilePage: React.FC = () => {
                 <div className="flex items-center justify-between">
                   <span className="text-sm">Member Since</span>
                   <span className="text-sm text-muted-foreground">
-                    {new Date(user.createdAt).toLocaleDateString()}
+                    {formatDate(user.createdAt)}
                   </span>
                 </div>
               </CardContent>
@@ -267,7 +211,11 @@ export const ProfilePage: React.FC = () => {
                 <CardTitle>Quick Actions</CardTitle>
               </CardHeader>
               <CardContent className="space-y-2">
-                <Button variant="outline" className="w-full justify-start">
+                <Button
+                  variant="outline"
+                  className="w-full justify-start"
+                  onClick={() => document.getElementById('password-settings')?.scrollIntoView({ behavior: 'smooth' })}
+                >
                   <Key className="w-4 h-4 mr-2" />
                   Change Password
                 </Button>
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { useSearchParams, Link } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
@@ -7,7 +7,11 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 
+import { WishlistButton } from '@/components/wishlist/wishlist-button';
+
 import api from '@/lib/api';
+import { useCurrency } from '@/hooks/use-currency';
+import { useTranslation } from '@/hooks/use-translation';
 
 interface Product {
   id: string;
@@ -27,6 +31,9 @@ interface Product {
 }
 
 export function SearchPage() {
+  const { formatPrice } = useCurrency();
+  const { t } = useTranslation();
+  const searchInputRef = useRef<HTMLInputElement>(null);
   const [searchParams, setSearchParams] = useSearchParams();
 
   const [sortBy, setSortBy] = useState('relevance');
@@ -75,14 +82,15 @@ export function SearchPage() {
     return (
       <div className="container mx-auto px-4 py-8">
         <div className="max-w-2xl mx-auto text-center">
-          <h1 className="text-3xl font-bold text-gray-900 mb-4">Search Products</h1>
+          <h1 className="text-3xl font-bold text-gray-900 mb-4">{t('search.title')}</h1>
           <p className="text-gray-600 mb-8">
-            Enter a search term to find products in our store.
+            {t('search.prompt')}
           </p>
           
           <div className="flex gap-2">
             <Input
-              placeholder="Search for products..."
+              ref={searchInputRef}
+              placeholder={t('search.placeholder')}
               onKeyPress={(e) => {
                 if (e.key === 'Enter') {
                   handleSearch(e.currentTarget.value);
@@ -91,16 +99,15 @@ export function SearchPage() {
               className="flex-1"
             />
             <Button onClick={() => {
-              const input = document.querySelector('input[placeholder="Search for products..."]') as HTMLInputElement;
-              if (input) handleSearch(input.value);
+              if (searchInputRef.current) handleSearch(searchInputRef.current.value);
             }}>
-              Search
+              {t('search.search')}
             </Button>
           </div>
 
           {/* Popular searches */}
           <div className="mt-8">
-            <h3 className="text-lg font-semibold mb-4">Popular Searches</h3>
+            <h3 className="text-lg font-semibold mb-4">{t('search.popular')}</h3>
             <div className="flex flex-wrap gap-2 justify-center">
               {['action games', 'rpg', 'strategy', 'sports', 'adventure'].map((term) => (
                 <Button
@@ -124,10 +131,10 @@ export function SearchPage() {
       {/* Search Header */}
       <div className="mb-8">
         <h1 className="text-3xl font-bold text-gray-900 mb-2">
-          Search Results for "{query}"
+          {t('search.resultsFor', { query })}
         </h1>
         <p className="text-gray-600">
-          {totalProducts} product{totalProducts !== 1 ? 's' : ''} found
+          {t('search.found', { count: totalProducts })}
         </p>
       </div>
 
@@ -135,7 +142,7 @@ export function SearchPage() {
       <div className="mb-6 flex flex-col lg:flex-row gap-4">
         <div className="flex-1">
           <Input
-            placeholder="Search for products..."
+            placeholder={t('search.placeholder')}
             defaultValue={query}
             onKeyPress={(e) => {
               if (e.key === 'Enter') {
@@ -149,10 +156,10 @@ export function SearchPage() {
         <div className="flex gap-2 flex-wrap">
           <Select value={categoryFilter} onValueChange={setCategoryFilter}>
             <SelectTrigger className="w-32">
-              <SelectValue placeholder="Category" />
+              <SelectValue placeholder={t('search.category')} />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="all">All Categories</SelectItem>
+              <SelectItem value="all">{t('search.allCategories')}</SelectItem>
               {categories.map((category: any) => (
                 <SelectItem key={category.id} value={category.id}>
                   {category.name}
@@ -166,7 +173,7 @@ export function SearchPage() {
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="all">All Prices</SelectItem>
+              <SelectItem value="all">{t('search.allPrices')}</SelectItem>
               <SelectItem value="0-25">$0 - $25</SelectItem>
               <SelectItem value="25-50">$25 - $50</SelectItem>
               <SelectItem value="50-100">$50 - $100</SelectItem>
@@ -179,11 +186,11 @@ export function SearchPage() {
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="relevance">Relevance</SelectItem>
-              <SelectItem value="name">Name</SelectItem>
-              <SelectItem value="price">Price</SelectItem>
-              <SelectItem value="rating">Rating</SelectItem>
-              <SelectItem value="createdAt">Newest</SelectItem>
+              <SelectItem value="relevance">{t('search.sortRelevance')}</SelectItem>
+              <SelectItem value="name">{t('search.sortName')}</SelectItem>
+              <SelectItem value="price">{t('search.sortPrice')}</SelectItem>
+              <SelectItem value="rating">{t('search.sortRating')}</SelectItem>
+              <SelectItem value="createdAt">{t('search.sortNewest')}</SelectItem>
             </SelectContent>
           </Select>
 
@@ -195,7 +202,7 @@ export function SearchPage() {
           </Button>
 
           <Button variant="outline" onClick={clearFilters}>
-            Clear
+            {t('search.clear')}
           </Button>
         </div>
       </div>
@@ -213,14 +220,14 @@ export function SearchPage() {
         </div>
       ) : products.length === 0 ? (
         <div className="text-center py-12">
-          <h3 className="text-lg font-semibold text-gray-900 mb-2">No products found</h3>
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">{t('search.noResultsTitle')}</h3>
           <p className="text-gray-600 mb-4">
-            Try adjusting your search terms or filters.
+            {t('search.noResultsText')}
           </p>
           <div className="flex gap-2 justify-center">
-            <Button onClick={clearFilters}>Clear Filters</Button>
+            <Button onClick={clearFilters}>{t('search.clearFilters')}</Button>
             <Button variant="outline" asChild>
-              <Link to="/products">Browse All Products</Link>
+              <Link to="/products">{t('search.browseAll')}</Link>
             </Button>
           </div>
         </div>
@@ -228,7 +235,7 @@ export function SearchPage() {
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
           {products.map((product: Product) => (
             <Card key={product.id} className="hover:shadow-lg transition-shadow">
-              <CardHeader className="p-0">
+              <CardHeader className="p-0 relative">
                 <Link to={`/products/${product.slug}`}>
                   <img
                     src={product.mainImage}
@@ -236,6 +243,11 @@ export function SearchPage() {
                     className="w-full h-48 object-cover rounded-t-lg"
                   />
                 </Link>
+                <WishlistButton
+                  productId={product.id}
+                  variant="secondary"
+                  className="absolute top-2 right-2 rounded-full"
+                />
               </CardHeader>
               <CardContent className="p-4">
                 <Link to={`/products/${product.slug}`}>
@@ -256,7 +268,7 @@ export function SearchPage() {
                 
                 <div className="flex items-center justify-between mb-3">
                   <span className="text-xl font-bold text-green-600">
-                    ${product.price.toFixed(2)}
+                    {formatPrice(product.price)}
                   </span>
                   {product.averageRating > 0 && (
                     <div className="flex items-center space-x-1">
@@ -270,7 +282,7 @@ export function SearchPage() {
 
                 <Button className="w-full" asChild>
                   <Link to={`/products/${product.slug}`}>
-                    View Details
+                    {t('products.viewDetails')}
                   </Link>
                 </Button>
               </CardContent>
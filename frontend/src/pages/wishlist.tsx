@@ -0,0 +1,142 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Heart, ShoppingCart, Trash2, TrendingDown, PackageCheck, ArrowRight } from 'lucide-react';
+import { useWishlist } from '@/contexts/wishlist-context';
+import { formatDate } from '@/lib/utils';
+import { useCurrency } from '@/hooks/use-currency';
+import { useTranslation } from '@/hooks/use-translation';
+import { WishlistItem } from '@/types';
+
+export const WishlistPage: React.FC = () => {
+  const { formatPrice } = useCurrency();
+  const { t } = useTranslation();
+  const { items, isLoading, removeFromWishlist, moveToCart } = useWishlist();
+
+  const handleMoveToCart = async (item: WishlistItem) => {
+    await moveToCart(item);
+  };
+
+  const handleRemove = async (productId: string) => {
+    await removeFromWishlist(productId);
+  };
+
+  if (isLoading && items.length === 0) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+            <p className="text-muted-foreground">{t('wishlist.loading')}</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (items.length === 0) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center py-12">
+          <Heart className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+          <h2 className="text-2xl font-semibold mb-2">{t('wishlist.emptyTitle')}</h2>
+          <p className="text-muted-foreground mb-6">
+            {t('wishlist.emptyText')}
+          </p>
+          <Link to="/products">
+            <Button size="lg">
+              {t('wishlist.browseGames')}
+              <ArrowRight className="ml-2 w-5 h-5" />
+            </Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2">{t('wishlist.title')}</h1>
+        <p className="text-muted-foreground">
+          {t('wishlist.savedCount', { count: items.length })}
+        </p>
+      </div>
+
+      <div className="space-y-4">
+        {items.map((item) => (
+          <Card key={item.id}>
+            <CardContent className="p-6">
+              <div className="flex items-center space-x-4">
+                <Link to={`/products/${item.product.slug}`} className="flex-shrink-0">
+                  <img
+                    src={item.product.mainImage || item.product.images?.[0]?.imageUrl || '/placeholder-product.jpg'}
+                    alt={item.product.name}
+                    className="w-20 h-20 object-cover rounded-md"
+                  />
+                </Link>
+
+                <div className="flex-1">
+                  <Link to={`/products/${item.product.slug}`} className="hover:text-primary">
+                    <h3 className="font-semibold mb-1">{item.product.name}</h3>
+                  </Link>
+                  <div className="flex items-center space-x-2 mb-2">
+                    <span className="font-semibold text-lg">
+                      {formatPrice(Number(item.product.price))}
+                    </span>
+                    {item.priceDrop > 0 && (
+                      <span className="text-sm text-muted-foreground line-through">
+                        {formatPrice(Number(item.priceAtAdd))}
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {item.priceDrop > 0 && (
+                      <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+                        <TrendingDown className="w-3 h-3 mr-1" />
+                        {t('wishlist.priceDropped', { amount: formatPrice(item.priceDrop) })}
+                      </Badge>
+                    )}
+                    {item.isBackInStock && (
+                      <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-100">
+                        <PackageCheck className="w-3 h-3 mr-1" />
+                        {t('wishlist.backInStock')}
+                      </Badge>
+                    )}
+                    {!item.isInStock && (
+                      <Badge variant="secondary">{t('product.outOfStock')}</Badge>
+                    )}
+                    <span className="text-xs text-muted-foreground">
+                      {t('wishlist.savedOn', { date: formatDate(item.createdAt) })}
+                    </span>
+                  </div>
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <Button
+                    onClick={() => handleMoveToCart(item)}
+                    disabled={!item.isInStock}
+                  >
+                    <ShoppingCart className="w-4 h-4 mr-2" />
+                    {t('wishlist.moveToCart')}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleRemove(item.productId)}
+                    className="text-destructive hover:text-destructive"
+                    aria-label={t('wishlist.remove')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,58 +1,52 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import { User, CartItem, CartSummary, Product, Category, Toast, Modal } from '@/types';
+import {
+  User,
+  CartItem,
+  CartSummary,
+  Product,
+  Category,
+  Toast,
+  Modal,
+  CheckoutStep,
+  CheckoutAddress,
+  Address,
+  PendingPayment,
+  AppliedPromotion,
+  AdminOrderView,
+  Currency
+} from '@/types';
+import { Locale, detectLocale } from '@/lib/i18n';
 
-// Auth Store
+// Auth Store. Not persisted: the session lives in httpOnly cookies and the
+// user is loaded from the server on startup.
 interface AuthState {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  accessToken: string | null;
-  refreshToken: string | null;
   setUser: (user: User | null) => void;
-  setTokens: (accessToken: string, refreshToken: string) => void;
   clearAuth: () => void;
   setLoading: (loading: boolean) => void;
 }
 
-export const useAuthStore = create<AuthState>()(
-  persist(
-    (set) => ({
-      user: null,
-      isAuthenticated: false,
-      isLoading: false,
-      accessToken: null,
-      refreshToken: null,
-      setUser: (user) => set({ user, isAuthenticated: !!user }),
-      setTokens: (accessToken, refreshToken) => set({ accessToken, refreshToken }),
-      clearAuth: () => set({ 
-        user: null, 
-        isAuthenticated: false, 
-        accessToken: null, 
-        refreshToken: null 
-      }),
-      setLoading: (isLoading) => set({ isLoading }),
-    }),
-    {
-      name: 'auth-storage',
-      storage: createJSONStorage(() => localStorage),
-      partialize: (state) => ({
-        user: state.user,
-        isAuthenticated: state.isAuthenticated,
-        accessToken: state.accessToken,
-        refreshToken: state.refreshToken,
-      }),
-    }
-  )
-);
+export const useAuthStore = create<AuthState>()((set) => ({
+  user: null,
+  isAuthenticated: false,
+  isLoading: false,
+  setUser: (user) => set({ user, isAuthenticated: !!user }),
+  clearAuth: () => set({ user: null, isAuthenticated: false }),
+  setLoading: (isLoading) => set({ isLoading }),
+}));
 
 // Cart Store
 interface CartState {
   items: CartItem[];
   summary: CartSummary | null;
+  promotion: AppliedPromotion | null;
   isLoading: boolean;
   setItems: (items: CartItem[]) => void;
   setSummary: (summary: CartSummary | null) => void;
+  setPromotion: (promotion: AppliedPromotion | null) => void;
   addItem: (item: CartItem) => void;
   updateItem: (itemId: string, updates: Partial<CartItem>) => void;
   removeItem: (itemId: string) => void;
@@ -66,9 +60,11 @@ export const useCartStore = create<CartState>()(
     (set, get) => ({
       items: [],
       summary: null,
+      promotion: null,
       isLoading: false,
       setItems: (items) => set({ items }),
       setSummary: (summary) => set({ summary }),
+      setPromotion: (promotion) => set({ promotion }),
       addItem: (item) => {
         const { items } = get();
         const existingItem = items.find(i => i.productId === item.productId);
@@ -97,7 +93,7 @@ export const useCartStore = create<CartState>()(
         const { items } = get();
         set({ items: items.filter(item => item.id !== itemId) });
       },
-      clearCart: () => set({ items: [], summary: null }),
+      clearCart: () => set({ items: [], summary: null, promotion: null }),
       setLoading: (isLoading) => set({ isLoading }),
       updateItemSelection: (itemId, isSelected) => {
         const { items } = get();
@@ -114,6 +110,82 @@ export const useCartStore = create<CartState>()(
       partialize: (state) => ({
         items: state.items,
         summary: state.summary,
+        promotion: state.promotion,
+      }),
+    }
+  )
+);
+
+// Checkout Store
+interface CheckoutState {
+  shippingAddress: CheckoutAddress | null;
+  // Null when billing goes to the shipping address
+  billingAddress: Address | null;
+  shippingMethodId: string | null;
+  // Saved card to pay with, null when paying with new card details
+  paymentMethodId: string | null;
+  notes: string;
+  completedSteps: CheckoutStep[];
+  pendingPayment: PendingPayment | null;
+  setShippingAddress: (address: CheckoutAddress) => void;
+  setBillingAddress: (address: Address | null) => void;
+  setShippingMethod: (methodId: string) => void;
+  setPaymentMethod: (paymentMethodId: string | null) => void;
+  setNotes: (notes: string) => void;
+  completeStep: (step: CheckoutStep) => void;
+  setPendingPayment: (payment: PendingPayment | null) => void;
+  resetCheckout: () => void;
+}
+
+export const useCheckoutStore = create<CheckoutState>()(
+  persist(
+    (set, get) => ({
+      shippingAddress: null,
+      billingAddress: null,
+      shippingMethodId: null,
+      paymentMethodId: null,
+      notes: '',
+      completedSteps: [],
+      pendingPayment: null,
+      // The checkout page reopens a pending order on the server before changing
+      // anything it was priced on, and only then clears pendingPayment
+      setShippingAddress: (shippingAddress) => set({ shippingAddress }),
+      setBillingAddress: (billingAddress) => set({ billingAddress }),
+      setShippingMethod: (shippingMethodId) => set({ shippingMethodId }),
+      setPaymentMethod: (paymentMethodId) => set({ paymentMethodId }),
+      setNotes: (notes) => set({ notes }),
+      completeStep: (step) => {
+        const { completedSteps } = get();
+        if (!completedSteps.includes(step)) {
+          set({ completedSteps: [...completedSteps, step] });
+        }
+      },
+      setPendingPayment: (pendingPayment) => set({ pendingPayment }),
+      resetCheckout: () => set({
+        shippingAddress: null,
+        billingAddress: null,
+        shippingMethodId: null,
+        paymentMethodId: null,
+        notes: '',
+        completedSteps: [],
+        pendingPayment: null,
+      }),
+    }),
+    {
+      name: 'checkout-storage',
+      storage: createJSONStorage(() => sessionStorage),
+      partialize: (state) => ({
+        shippingAddress: state.shippingAddress,
+        billingAddress: state.billingAddress,
+        shippingMethodId: state.shippingMethodId,
+        paymentMethodId: state.paymentMethodId,
+        notes: state.notes,
+        // New card details live in the Stripe iframe and are lost on refresh,
+        // while a saved card can still be charged
+        completedSteps: state.paymentMethodId
+          ? state.completedSteps
+          : state.completedSteps.filter(step => step !== 'payment'),
+        pendingPayment: state.pendingPayment,
       }),
     }
   )
@@ -125,8 +197,15 @@ interface UIState {
   sidebarOpen: boolean;
   toasts: Toast[];
   modals: Modal[];
+  // The shopper's currency, and the rates for converting catalog prices into it
+  currency: string;
+  currencies: Currency[];
+  locale: Locale;
   setTheme: (theme: 'light' | 'dark' | 'system') => void;
   setSidebarOpen: (open: boolean) => void;
+  setCurrency: (currency: string) => void;
+  setCurrencies: (currencies: Currency[]) => void;
+  setLocale: (locale: Locale) => void;
   addToast: (toast: Omit<Toast, 'id'>) => void;
   removeToast: (id: string) => void;
   addModal: (modal: Omit<Modal, 'id'>) => void;
@@ -141,8 +220,23 @@ export const useUIStore = create<UIState>()(
       sidebarOpen: false,
       toasts: [],
       modals: [],
+      currency: 'USD',
+      currencies: [],
+      // Follows the browser until the shopper picks a language
+      locale: detectLocale(),
       setTheme: (theme) => set({ theme }),
       setSidebarOpen: (sidebarOpen) => set({ sidebarOpen }),
+      setCurrency: (currency) => set({ currency }),
+      setCurrencies: (currencies) => {
+        // Fall back to the base currency when the chosen one is no longer offered
+        const isOffered = currencies.some(currency => currency.code === get().currency);
+        const base = currencies.find(currency => currency.isBase);
+        set({
+          currencies,
+          ...(!isOffered && base && { currency: base.code }),
+        });
+      },
+      setLocale: (locale) => set({ locale }),
       addToast: (toast) => {
         const id = Math.random().toString(36).substr(2, 9);
         const newToast = { ...toast, id };
@@ -179,6 +273,9 @@ export const useUIStore = create<UIState>()(
       storage: createJSONStorage(() => localStorage),
       partialize: (state) => ({
         theme: state.theme,
+        currency: state.currency,
+        currencies: state.currencies,
+        locale: state.locale,
       }),
     }
   )
@@ -285,6 +382,34 @@ export const useAdminStore = create<AdminState>()((set) => ({
   setLoading: (isLoading) => set({ isLoading }),
 }));
 
+// Saved views for the admin order table, kept per browser
+interface AdminOrderViewsState {
+  views: AdminOrderView[];
+  saveView: (view: Omit<AdminOrderView, 'id'>) => AdminOrderView;
+  deleteView: (id: string) => void;
+}
+
+export const useAdminOrderViewsStore = create<AdminOrderViewsState>()(
+  persist(
+    (set, get) => ({
+      views: [],
+      saveView: (view) => {
+        const savedView = { ...view, id: Math.random().toString(36).substr(2, 9) };
+        // Saving under an existing name replaces that view
+        set({ views: [...get().views.filter(existing => existing.name !== view.name), savedView] });
+        return savedView;
+      },
+      deleteView: (id) => {
+        set({ views: get().views.filter(view => view.id !== id) });
+      },
+    }),
+    {
+      name: 'admin-order-views',
+      storage: createJSONStorage(() => localStorage),
+    }
+  )
+);
+
 // Utility functions
 export const toast = {
   success: (title: string, description?: string) => {
@@ -9,8 +9,15 @@ export interface User {
   dateOfBirth?: string;
   role: 'buyer' | 'admin';
   isEmailVerified: boolean;
+  // New address waiting to be confirmed from the link sent to it
+  pendingEmail?: string | null;
   isActive: boolean;
   lastLogin?: string;
+  twoFactorEnabled: boolean;
+  twoFactorEnabledAt?: string;
+  twoFactorRecoveryCodesRemaining: number;
+  // Set for admins when the store enforces two-factor sign in
+  twoFactorRequired: boolean;
   stripeCustomerId?: string;
   paymentMethod?: PaymentMethod;
   billingAddress?: Address;
@@ -27,6 +34,20 @@ export interface Address {
   country: string;
 }
 
+// An entry in the shopper's address book
+export interface SavedAddress extends Address {
+  id: string;
+  userId: string;
+  // Shown in the address picker, e.g. "Home" or "Work"
+  label: string;
+  firstName: string;
+  lastName: string;
+  phone?: string | null;
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface PaymentMethod {
   type: string;
   last4?: string;
@@ -55,6 +76,8 @@ export interface Product {
     height: number;
   };
   images: ProductImage[];
+  // Cart and wishlist rows include the main image instead of the full image list
+  mainImage?: string;
   categoryId: string;
   subcategoryId?: string;
   category?: Category;
@@ -72,6 +95,7 @@ export interface Product {
   seoDescription?: string;
   tags?: string[];
   specifications?: Record<string, any>;
+  translations?: ProductTranslations;
   viewCount: number;
   soldCount: number;
   averageRating: number;
@@ -107,6 +131,8 @@ export interface Category {
   image?: string;
   isActive: boolean;
   sortOrder: number;
+  // Null leaves it to the product: digital-only products are 'digital'
+  taxClass?: TaxClass | null;
   parentId?: string;
   parent?: Category;
   children?: Category[];
@@ -123,6 +149,8 @@ export interface CartItem {
   product: Product;
   quantity: number;
   price: number;
+  // Price captured by the server when the item was added (DECIMAL, may be a string)
+  priceAtAdd?: number | string;
   sessionId?: string;
   notes?: string;
   isSelected: boolean;
@@ -142,6 +170,267 @@ export interface CartSummary {
   selectedCount: number;
 }
 
+// Server-side totals for the selected cart items, used to quote checkout
+export interface CartQuote {
+  items: CartItem[];
+  summary: {
+    itemCount: number;
+    subtotal: number;
+    shippingAmount: number;
+    taxAmount: number;
+    // Tax is part of the prices rather than added to the total
+    pricesIncludeTax: boolean;
+    discountAmount: number;
+    total: number;
+    // The currency every amount in the summary is quoted in
+    currency: string;
+    totalWeight: number;
+    totalItems: number;
+    // False when every item is digital and delivered as a key
+    requiresShipping: boolean;
+  };
+  promotion: AppliedPromotion | null;
+  // Why the requested promo code could not be applied
+  promotionError: string | null;
+  unavailableItems: Array<{
+    productId: string;
+    productName: string;
+    requestedQuantity: number;
+    availableQuantity: number;
+  }>;
+  canProceed: boolean;
+}
+
+export type CartItemIssueReason = 'unavailable' | 'out_of_stock' | 'quantity_reduced' | 'error';
+
+// A cart line that could not be kept as requested after revalidation or merging
+export interface CartItemIssue {
+  productId: string;
+  productName?: string;
+  reason: CartItemIssueReason;
+  requestedQuantity: number;
+  quantity?: number;
+}
+
+export interface GuestCartLine {
+  productId: string;
+  quantity: number;
+}
+
+export interface GuestCartValidation {
+  items: Array<GuestCartLine & { price: number; product: Product }>;
+  issues: CartItemIssue[];
+}
+
+export interface CartMergeResult {
+  mergedItems: CartItem[];
+  adjustedItems: CartItemIssue[];
+  failedItems: CartItemIssue[];
+}
+
+// Wishlist Types
+export interface WishlistItem {
+  id: string;
+  userId: string;
+  productId: string;
+  product: Product;
+  // Price when the item was saved (DECIMAL, may be a string)
+  priceAtAdd: number | string;
+  inStockAtAdd: boolean;
+  // How much cheaper the product is now than when it was saved
+  priceDrop: number;
+  isInStock: boolean;
+  isBackInStock: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Product Alert Types
+export type ProductAlertType = 'back_in_stock' | 'price_drop';
+
+export interface ProductAlert {
+  id: string;
+  userId: string;
+  productId: string;
+  product?: Pick<Product, 'id' | 'name' | 'slug' | 'price' | 'mainImage' | 'stockQuantity'>;
+  type: ProductAlertType;
+  // Price drop alerts fire at or below this price, or on any drop when unset
+  targetPrice?: number | string | null;
+  priceAtSubscribe: number | string;
+  subscribedAt: string;
+  notifiedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Promotion Types
+export type PromotionType = 'percentage' | 'fixed_amount' | 'free_shipping' | 'buy_x_get_y';
+
+export interface Promotion {
+  id: string;
+  code: string;
+  description?: string;
+  type: PromotionType;
+  value: number;
+  buyQuantity?: number;
+  getQuantity?: number;
+  maxDiscountAmount?: number;
+  minSubtotal?: number;
+  categoryIds: string[];
+  platforms: string[];
+  usageLimit?: number;
+  perUserLimit?: number;
+  usageCount: number;
+  firstOrderOnly: boolean;
+  startsAt?: string;
+  expiresAt?: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A promotion validated against the current cart
+export interface AppliedPromotion {
+  code: string;
+  description?: string;
+  type: PromotionType;
+  discountAmount: number;
+}
+
+// Checkout Types
+export type CheckoutStep = 'shipping' | 'delivery' | 'payment' | 'review';
+
+export interface CheckoutAddress extends Address {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+}
+
+// A shipping rate quoted for the cart and address at checkout
+export interface ShippingMethod {
+  id: string;
+  name: string;
+  description?: string;
+  price: number;
+  minDays: number;
+  maxDays: number;
+  isExpress: boolean;
+}
+
+// Currency Types
+export interface Currency {
+  code: string;
+  name: string;
+  // Units of this currency per one unit of the base currency
+  exchangeRate: number;
+  decimals: number;
+  // Stripe takes amounts multiplied by this
+  minorUnitFactor: number;
+  isBase: boolean;
+}
+
+export interface AdminCurrency extends Currency {
+  id: string;
+  isActive: boolean;
+  sortOrder: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Tax Types
+export type TaxClass = 'standard' | 'reduced' | 'digital' | 'exempt';
+
+export interface TaxRate {
+  id: string;
+  name: string;
+  country: string;
+  // Null covers the whole country
+  state?: string | null;
+  // ZIP or postal code prefixes; empty covers the whole state or country
+  postalCodes: string[];
+  taxClass: Exclude<TaxClass, 'exempt'>;
+  // Percent, as a DECIMAL string
+  rate: number | string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TaxBreakdownEntry {
+  taxRateId: string;
+  name: string;
+  rate: number;
+  amount: number;
+}
+
+export interface TaxReport {
+  // Amounts are converted to the base currency
+  currency: string;
+  jurisdictions: Array<{
+    jurisdiction: string;
+    rate: number;
+    taxable: number;
+    tax: number;
+  }>;
+  totals: {
+    orders: number;
+    taxCollected: number;
+    taxRefunded: number;
+    netTax: number;
+  };
+}
+
+// Shipping Types
+export type ShippingRateType = 'flat' | 'weight' | 'subtotal';
+
+// Charged when the parcel weight or subtotal is at most upTo; null has no limit
+export interface ShippingTier {
+  upTo: number | null;
+  price: number;
+}
+
+export interface ShippingRate {
+  id: string;
+  zoneId: string;
+  name: string;
+  description?: string | null;
+  rateType: ShippingRateType;
+  // DECIMAL columns arrive as strings
+  price: number | string;
+  tiers: ShippingTier[];
+  freeShippingThreshold?: number | string | null;
+  minDays: number;
+  maxDays: number;
+  isExpress: boolean;
+  isActive: boolean;
+  sortOrder: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ShippingZone {
+  id: string;
+  name: string;
+  // No countries makes this the zone for everywhere else
+  countries: string[];
+  regions: string[];
+  isActive: boolean;
+  rates: ShippingRate[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Order and intent created for a checkout attempt. Kept across retries so a
+// declined card can be re-tried without creating a second order.
+export interface PendingPayment {
+  orderId: string;
+  clientSecret: string;
+  paymentIntentId: string;
+  // The order is charged in this currency even if the shopper switches
+  currency: string;
+}
+
 // Order Types
 export interface Order {
   id: string;
@@ -154,35 +443,97 @@ export interface Order {
   stripePaymentIntentId?: string;
   stripeChargeId?: string;
   subtotal: number;
-  tax: number;
-  shipping: number;
-  discount: number;
+  taxAmount: number;
+  // Line prices already included taxAmount instead of it being added on top
+  pricesIncludeTax?: boolean;
+  shippingAmount: number;
+  discountAmount: number;
   total: number;
-  shippingAddress: Address;
+  refundedAmount: number;
+  // Every amount on the order is in this currency
+  currency: string;
+  // Units of the order currency per unit of the base currency when it was placed
+  exchangeRate: number | string;
+  // Null for orders that only contain digital products
+  shippingAddress: Address | null;
   billingAddress: Address;
+  shippingMethod?: string | null;
+  promotionCode?: string;
   trackingNumber?: string;
+  trackingUrl?: string;
   notes?: string;
   customerEmail: string;
   customerPhone?: string;
   confirmedAt?: string;
+  processedAt?: string;
   shippedAt?: string;
   deliveredAt?: string;
   cancelledAt?: string;
-  orderItems: OrderItem[];
+  cancelReason?: string;
+  // Internal; never shown to the customer
+  adminNotes?: string | null;
+  items: OrderItem[];
+  statusHistory?: OrderStatusHistory[];
+  shipments?: Shipment[];
   createdAt: string;
   updatedAt: string;
 }
 
+export interface OrderStatusHistory {
+  id: string;
+  orderId: string;
+  userId?: string;
+  fromStatus?: OrderStatus | null;
+  toStatus: OrderStatus;
+  reason?: string;
+  notes?: string;
+  isSystemGenerated: boolean;
+  user?: Pick<User, 'firstName' | 'lastName'> | null;
+  createdAt: string;
+}
+
+// One parcel of an order that ships in several
+export interface Shipment {
+  id: string;
+  orderId: string;
+  lines: Array<{ orderItemId: string; quantity: number }>;
+  trackingNumber: string;
+  trackingUrl: string | null;
+  shippedAt: string;
+  notes: string | null;
+  creator?: Pick<User, 'firstName' | 'lastName'> | null;
+  createdAt: string;
+}
+
+// How much of a physical line has shipped
+export interface ShippingSummaryLine {
+  orderItemId: string;
+  name: string;
+  sku: string;
+  quantity: number;
+  shippedQuantity: number;
+  remainingQuantity: number;
+}
+
+export interface AdminOrderDetail {
+  order: Order;
+  activityLogs: ActivityLog[];
+  shipping: ShippingSummaryLine[];
+}
+
 export interface OrderItem {
   id: string;
   orderId: string;
   productId: string;
-  product: Product;
+  // Missing once the product has been deleted; productSnapshot is always there
+  product?: Product;
   quantity: number;
   unitPrice: number;
   totalPrice: number;
-  discount: number;
-  tax: number;
+  discountAmount: number;
+  taxAmount: number;
+  // The rates that made up taxAmount
+  taxBreakdown?: TaxBreakdownEntry[];
   productSnapshot: ProductSnapshot;
   status: OrderItemStatus;
   returnReason?: string;
@@ -191,11 +542,30 @@ export interface OrderItem {
   updatedAt: string;
 }
 
+// License key delivered for a digital order line
+export interface DigitalKey {
+  id: string;
+  orderItemId: string;
+  productId: string;
+  productName: string | null;
+  platform: string | null;
+  key: string;
+  assignedAt: string;
+}
+
+export interface DigitalKeyCounts {
+  available: number;
+  assigned: number;
+  revoked: number;
+}
+
 export interface ProductSnapshot {
   name: string;
   sku: string;
   price: number;
-  image?: string;
+  mainImage?: string;
+  // Missing on orders placed before it was recorded; treat those lines as physical
+  isPhysical?: boolean;
   specifications?: Record<string, any>;
 }
 
@@ -206,15 +576,69 @@ export type OrderStatus =
   | 'shipped'
   | 'delivered'
   | 'cancelled'
-  | 'refunded';
+  | 'refunded'
+  | 'failed';
+
+// Where an order can move from each status, as the server enforces it
+export interface OrderStatusTransitions {
+  transitions: Record<OrderStatus, OrderStatus[]>;
+  // Statuses staff can set by hand; the rest follow payments and refunds
+  adminStatuses: OrderStatus[];
+}
 
 export type PaymentStatus = 
   | 'pending'
   | 'paid'
+  | 'partially_refunded'
   | 'failed'
   | 'refunded'
   | 'cancelled';
 
+// Refund Types
+export interface RefundLine {
+  orderItemId: string;
+  quantity: number;
+  amount: number;
+}
+
+export interface Refund {
+  id: string;
+  orderId: string;
+  stripeRefundId: string | null;
+  amount: number;
+  lines: RefundLine[];
+  shippingAmount: number;
+  taxAmount: number;
+  reason: string | null;
+  source: 'admin' | 'customer' | 'return' | 'stripe';
+  returnRequestId: string | null;
+  creator?: Pick<User, 'id' | 'firstName' | 'lastName'> | null;
+  createdAt: string;
+}
+
+// What is left to refund on an order
+export interface RefundSummary {
+  currency: string;
+  total: number;
+  refundedAmount: number;
+  balance: number;
+  shipping: number;
+  tax: number;
+  items: Array<{
+    orderItemId: string;
+    name: string;
+    sku: string;
+    quantity: number;
+    refundedQuantity: number;
+    refundableQuantity: number;
+    unitAmount: number;
+    unitTaxAmount: number;
+  }>;
+}
+
+// Printable documents for the admin bulk print
+export type OrderDocumentType = 'invoice' | 'packing_slip';
+
 export type OrderItemStatus = 
   | 'pending'
   | 'confirmed'
@@ -223,6 +647,41 @@ export type OrderItemStatus =
   | 'returned'
   | 'refunded';
 
+// Return Types
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'received' | 'refunded';
+
+export type ReturnReason =
+  | 'damaged'
+  | 'defective'
+  | 'wrong_item'
+  | 'not_as_described'
+  | 'no_longer_needed'
+  | 'other';
+
+export interface ReturnRequest {
+  id: string;
+  rmaNumber: string;
+  orderId: string;
+  orderItemId: string;
+  userId: string;
+  quantity: number;
+  reason: ReturnReason;
+  customerNotes: string | null;
+  status: ReturnStatus;
+  refundAmount: number;
+  adminNotes: string | null;
+  reviewedAt: string | null;
+  receivedAt: string | null;
+  restocked: boolean;
+  refundedAt: string | null;
+  // Included in the admin queue
+  order?: Pick<Order, 'id' | 'orderNumber' | 'paymentStatus' | 'paymentMethod' | 'deliveredAt' | 'currency'>;
+  orderItem?: Pick<OrderItem, 'id' | 'productId' | 'productSnapshot' | 'quantity' | 'unitPrice' | 'status'>;
+  user?: Pick<User, 'id' | 'firstName' | 'lastName' | 'email'>;
+  createdAt: string;
+  updatedAt: string;
+}
+
 // Review Types
 export interface Review {
   id: string;
@@ -354,6 +813,11 @@ export interface StripePaymentMethod {
     email?: string;
     address?: Address;
   };
+  // Preselected at checkout
+  isDefault: boolean;
+  isExpired: boolean;
+  // Expires within the next couple of months
+  isExpiringSoon: boolean;
 }
 
 // Admin Dashboard Types
@@ -441,6 +905,39 @@ export interface LoginForm {
   password: string;
 }
 
+// The session itself travels in httpOnly cookies, so a successful sign in
+// only returns the user
+export interface AuthSuccess {
+  user: User;
+}
+
+// Accounts with two-factor authentication get a challenge instead of a
+// session, exchanged for one once the code is checked
+export interface TwoFactorChallenge {
+  requiresTwoFactor: true;
+  challengeToken: string;
+}
+
+export type LoginResult = AuthSuccess | TwoFactorChallenge;
+
+// A device the user is signed in on
+export interface UserSession {
+  id: string;
+  // e.g. "Chrome on macOS"
+  device: string;
+  ipAddress?: string;
+  lastSeenAt: string;
+  createdAt: string;
+  isCurrent: boolean;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  // Data URL of the QR code for the authenticator app
+  qrCode: string;
+}
+
 export interface RegisterForm {
   email: string;
   password: string;
@@ -454,6 +951,9 @@ export interface RegisterForm {
   paymentMethod?: PaymentMethod;
 }
 
+// Product copy in other locales; missing fields fall back to the default locale
+export type ProductTranslations = Partial<Record<string, Partial<Pick<Product, 'name' | 'description' | 'shortDescription'>>>>;
+
 export interface ProductForm {
   name: string;
   description: string;
@@ -485,6 +985,47 @@ export interface ProductForm {
   seoDescription?: string;
   tags?: string[];
   specifications?: Record<string, any>;
+  translations?: ProductTranslations;
+}
+
+export interface PromotionForm {
+  code: string;
+  description?: string;
+  type: PromotionType;
+  value: number;
+  buyQuantity?: number | null;
+  getQuantity?: number | null;
+  maxDiscountAmount?: number | null;
+  minSubtotal?: number | null;
+  categoryIds: string[];
+  platforms: string[];
+  usageLimit?: number | null;
+  perUserLimit?: number | null;
+  firstOrderOnly: boolean;
+  startsAt?: string | null;
+  expiresAt?: string | null;
+  isActive: boolean;
+}
+
+export interface ShippingZoneForm {
+  name: string;
+  countries: string[];
+  regions: string[];
+  isActive: boolean;
+}
+
+export interface ShippingRateForm {
+  name: string;
+  description?: string | null;
+  rateType: ShippingRateType;
+  price: number;
+  tiers: ShippingTier[];
+  freeShippingThreshold?: number | null;
+  minDays: number;
+  maxDays: number;
+  isExpress: boolean;
+  isActive: boolean;
+  sortOrder: number;
 }
 
 export interface CategoryForm {
@@ -493,6 +1034,33 @@ export interface CategoryForm {
   parentId?: string;
   isActive: boolean;
   sortOrder: number;
+  taxClass?: TaxClass | null;
+}
+
+export interface CurrencyForm {
+  code: string;
+  name: string;
+  exchangeRate: number;
+  isActive: boolean;
+  sortOrder: number;
+}
+
+export interface TaxRateForm {
+  name: string;
+  country: string;
+  state?: string | null;
+  postalCodes: string[];
+  taxClass: Exclude<TaxClass, 'exempt'>;
+  rate: number;
+  isActive: boolean;
+}
+
+export interface AddressForm extends Address {
+  label: string;
+  firstName: string;
+  lastName: string;
+  phone?: string;
+  isDefault?: boolean;
 }
 
 export interface ReviewForm {
@@ -520,6 +1088,44 @@ export interface ProductFilters {
   limit?: number;
 }
 
+// Filters for the admin order table; empty strings mean no filter
+export interface AdminOrderFilters {
+  search: string;
+  status: string;
+  paymentStatus: string;
+  dateFrom: string;
+  dateTo: string;
+  minTotal: string;
+  maxTotal: string;
+}
+
+export type AdminOrderSortField = 'createdAt' | 'orderNumber' | 'customerEmail' | 'total' | 'status' | 'paymentStatus';
+
+// A named set of filters and sorting saved from the admin order table
+export interface AdminOrderView {
+  id: string;
+  name: string;
+  filters: AdminOrderFilters;
+  sortBy: AdminOrderSortField;
+  sortOrder: 'asc' | 'desc';
+}
+
+export interface AdminOrderStats {
+  totalOrders: number;
+  pendingOrders: number;
+  confirmedOrders: number;
+  shippedOrders: number;
+  deliveredOrders: number;
+  cancelledOrders: number;
+  totalRevenue: number;
+  recentOrders: Order[];
+}
+
+export interface BulkStatusResult {
+  updated: string[];
+  failed: Array<{ orderId: string; orderNumber: string; message: string }>;
+}
+
 // Search Types
 export interface SearchResult {
   products: Product[];